@@ -0,0 +1,334 @@
+/**
+ * Smoke tests for the ccwf CLI, run without a model or network:
+ *
+ *   - Claude Code runner branch decisions: only a `{ "branch": n }` object or
+ *     an exact option label picks a branch; anything else fails instead of
+ *     being guessed at
+ *   - `ccwf export --on-edit pull`: a secret pasted into an exported file is
+ *     neither saved into the workflow nor exported again
+ *   - `ccwf export <files...>`: colliding workflows are skipped, the others
+ *     still export; `--watch` re-exports a changed workflow over its own
+ *     files and refuses paths another watched workflow writes
+ *   - `ccwf check`: missing, stale, hand-edited and orphaned exports are told
+ *     apart, hand-written files are ignored, `--fix` keeps hand edits
+ *
+ * Run: pnpm --filter @cc-wf-studio/cli run test
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { BranchOption } from '@cc-wf-studio/core';
+import { exportWorkflowBatch, formatBatchSummary } from '../src/export/batch.js';
+import { checkExportDrift, fixExportDrift } from '../src/export/drift.js';
+import { watchWorkflowFile } from '../src/preview/watcher.js';
+import { parseBranchAnswer } from '../src/run/claude-runner.js';
+
+function node(id: string, type: string, data: Record<string, unknown> = {}) {
+  return { id, type, name: id, position: { x: 0, y: 0 }, data };
+}
+
+function workflowJson(nodes: unknown[], connections: [string, string][], name = 'smoke'): string {
+  const workflow = {
+    id: name,
+    name,
+    version: '1.0.0',
+    nodes,
+    connections: connections.map(([from, to]) => ({ id: `${from}->${to}`, from, to })),
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return `${JSON.stringify(workflow, null, 2)}\n`;
+}
+
+async function withTmpDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ccwf-cli-smoke-'));
+  try {
+    await run(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const BRANCH_OPTIONS: BranchOption[] = [
+  { index: 0, label: 'Skip', condition: 'nothing changed' },
+  { index: 1, label: 'Review changes', condition: 'files changed' },
+  { index: 2, label: 'Abort', condition: 'the build is broken' },
+];
+
+const ACCEPTED_ANSWERS: [string, number][] = [
+  ['{"branch": 2}', 1],
+  [' {"branch":3}\n', 2],
+  ['```json\n{ "branch": 1 }\n```', 0],
+  ['Review changes', 1],
+  ['"abort".', 2],
+];
+
+const REJECTED_ANSWERS = [
+  'Skip 3 files, then option 1',
+  "I'd pick option 2 over 1",
+  '2',
+  '{"branch": 4}',
+  '{"branch": "2"}',
+  '{"branch": 1.5}',
+  '{branch: 2}',
+  '',
+];
+
+async function smokeBranchAnswers(): Promise<void> {
+  for (const [answer, expected] of ACCEPTED_ANSWERS) {
+    const actual = parseBranchAnswer(answer, BRANCH_OPTIONS);
+    if (actual !== expected) {
+      throw new Error(`${JSON.stringify(answer)}: expected branch ${expected}, got ${actual}`);
+    }
+  }
+  console.log(`OK ${ACCEPTED_ANSWERS.length} structured answers pick the right branch`);
+
+  for (const answer of REJECTED_ANSWERS) {
+    let picked: number | undefined;
+    try {
+      picked = parseBranchAnswer(answer, BRANCH_OPTIONS);
+    } catch {
+      continue;
+    }
+    throw new Error(`${JSON.stringify(answer)} should be rejected, but picked branch ${picked}`);
+  }
+  console.log(`OK ${REJECTED_ANSWERS.length} free-text or out-of-range answers are rejected`);
+}
+
+async function smokePulledSecrets(): Promise<void> {
+  await withTmpDir(async (dir) => {
+    const workflowPath = path.join(dir, 'smoke.json');
+    const original = workflowJson(
+      [
+        node('start', 'start'),
+        node('reviewer', 'subAgent', {
+          description: 'Review the change',
+          prompt: 'Review the change',
+          model: 'sonnet',
+          outputPorts: 1,
+        }),
+        node('end', 'end'),
+      ],
+      [
+        ['start', 'reviewer'],
+        ['reviewer', 'end'],
+      ]
+    );
+    await fs.writeFile(workflowPath, original, 'utf-8');
+    const options = { agent: 'claude-code' as const, overwrite: false, rootDir: dir };
+    const first = await exportWorkflowBatch([workflowPath], options);
+    const agentPath = first.entries[0].writtenPaths.find((p) => p.endsWith('reviewer.md'));
+    if (first.entries[0].error || !agentPath) {
+      throw new Error(`initial export failed: ${JSON.stringify(first.entries[0])}`);
+    }
+
+    const token = `ghp_${'a1B2'.repeat(9)}`;
+    const exported = await fs.readFile(agentPath, 'utf-8');
+    const bodyStart = exported.indexOf('---\n', 4) + 4;
+    const edited = `${exported.slice(0, bodyStart)}Authenticate with ${token}.\n${exported.slice(bodyStart)}`;
+    await fs.writeFile(agentPath, edited, 'utf-8');
+
+    const blocked = await exportWorkflowBatch([workflowPath], { ...options, onEdit: 'pull' });
+    const entry = blocked.entries[0];
+    if (
+      !entry.secrets?.some((s) => s.relativePath.endsWith('reviewer.md')) ||
+      entry.writtenPaths.length !== 0 ||
+      (await fs.readFile(workflowPath, 'utf-8')) !== original ||
+      (await fs.readFile(agentPath, 'utf-8')) !== edited
+    ) {
+      throw new Error(`a pulled secret must block the pull: ${JSON.stringify(entry)}`);
+    }
+    console.log(`OK --on-edit pull refuses a pasted secret: ${entry.error}`);
+
+    const allowed = await exportWorkflowBatch([workflowPath], {
+      ...options,
+      onEdit: 'pull',
+      allowSecrets: true,
+    });
+    if (
+      !allowed.entries[0].edits?.pulled.includes('reviewer: agentDefinition') ||
+      !(await fs.readFile(workflowPath, 'utf-8')).includes(token)
+    ) {
+      throw new Error(
+        `--allow-secrets should pull the edit: ${JSON.stringify(allowed.entries[0])}`
+      );
+    }
+    console.log('OK --on-edit pull --allow-secrets saves the edit');
+  });
+}
+
+/** Start → Prompt → End, named `name`; exports to `.claude/skills/<name>/SKILL.md`. */
+function promptWorkflowJson(name: string, prompt = 'Summarise the change'): string {
+  return workflowJson(
+    [node('start', 'start'), node('ask', 'prompt', { prompt }), node('end', 'end')],
+    [
+      ['start', 'ask'],
+      ['ask', 'end'],
+    ],
+    name
+  );
+}
+
+async function smokeBatchExport(): Promise<void> {
+  await withTmpDir(async (dir) => {
+    const files = ['first', 'clash-a', 'clash-b', 'broken'].map((f) => path.join(dir, `${f}.json`));
+    await fs.writeFile(files[0], promptWorkflowJson('first'), 'utf-8');
+    await fs.writeFile(files[1], promptWorkflowJson('shared'), 'utf-8');
+    await fs.writeFile(files[2], promptWorkflowJson('shared'), 'utf-8');
+    await fs.writeFile(files[3], '{ not json', 'utf-8');
+
+    const result = await exportWorkflowBatch(files, {
+      agent: 'claude-code',
+      overwrite: false,
+      rootDir: dir,
+    });
+    const [first, clashA, clashB, broken] = result.entries;
+    if (
+      first.error ||
+      first.writtenPaths.length === 0 ||
+      result.collisions[0]?.files.length !== 2 ||
+      !clashA.error?.includes('clash-b.json') ||
+      !clashB.error?.includes('clash-a.json') ||
+      clashA.writtenPaths.length + clashB.writtenPaths.length !== 0 ||
+      !broken.error
+    ) {
+      throw new Error(`batch export: unexpected entries ${JSON.stringify(result)}`);
+    }
+    const summary = formatBatchSummary(result.entries, dir);
+    if (!summary.includes('✓ exported') || summary.split('\n').length !== 6) {
+      throw new Error(`batch export: unexpected summary\n${summary}`);
+    }
+    console.log(`OK batch export: 1 of 4 exported, collision reported: ${clashA.error}`);
+  });
+}
+
+/** Resolve on the watcher's first change after `change` runs; fail after 5s. */
+async function nextWatchedChange(filePath: string, change: () => Promise<void>): Promise<void> {
+  let watcher: { close(): void } | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      watcher = watchWorkflowFile({ filePath, debounceMs: 20, onChange: resolve });
+      timer = setTimeout(() => reject(new Error(`no change seen on ${filePath}`)), 5000);
+      change().catch(reject);
+    });
+  } finally {
+    watcher?.close();
+    clearTimeout(timer);
+  }
+}
+
+async function smokeWatchExport(): Promise<void> {
+  await withTmpDir(async (dir) => {
+    const [watched, other] = ['watched', 'other'].map((f) => path.join(dir, `${f}.json`));
+    await fs.writeFile(watched, promptWorkflowJson('watched'), 'utf-8');
+    await fs.writeFile(other, promptWorkflowJson('other'), 'utf-8');
+    const options = { agent: 'claude-code' as const, overwrite: false, rootDir: dir };
+    const initial = await exportWorkflowBatch([watched, other], options);
+    const [watchedEntry, otherEntry] = initial.entries;
+
+    // What `watchExports` passes on each re-export of `watched`.
+    const ownedPaths = new Map([[watched, new Set(watchedEntry.writtenPaths)]]);
+    const claimedPaths = new Map(otherEntry.plannedPaths.map((p): [string, string] => [p, other]));
+    const reexport = () => exportWorkflowBatch([watched], { ...options, ownedPaths, claimedPaths });
+
+    await nextWatchedChange(watched, () =>
+      fs.writeFile(watched, promptWorkflowJson('watched', 'List the risks'), 'utf-8')
+    );
+    const [updated] = (await reexport()).entries;
+    const skill = updated.writtenPaths.find((p) => p.endsWith('SKILL.md')) ?? '';
+    if (updated.error || !(await fs.readFile(skill, 'utf-8')).includes('List the risks')) {
+      throw new Error(`watch export: change not re-exported: ${JSON.stringify(updated)}`);
+    }
+
+    await nextWatchedChange(watched, () =>
+      fs.writeFile(watched, promptWorkflowJson('other'), 'utf-8')
+    );
+    const [clash] = (await reexport()).entries;
+    if (!clash.error?.includes('other.json') || clash.writtenPaths.length !== 0) {
+      throw new Error(
+        `watch export: another workflow's paths overwritten: ${JSON.stringify(clash)}`
+      );
+    }
+    console.log(`OK watch export: change re-exported, clash refused: ${clash.error}`);
+  });
+}
+
+const REVIEWER = node('reviewer', 'subAgent', {
+  description: 'Review the change',
+  prompt: 'Review the change',
+  outputPorts: 1,
+});
+
+async function smokeCheckDrift(): Promise<void> {
+  await withTmpDir(async (dir) => {
+    const [kept, removed] = ['kept', 'removed'].map((f) => path.join(dir, `${f}.json`));
+    const keptJson = (prompt: string, extra: unknown[] = []) =>
+      workflowJson(
+        [node('start', 'start'), node('ask', 'prompt', { prompt }), REVIEWER, ...extra],
+        [
+          ['start', 'ask'],
+          ['ask', 'reviewer'],
+        ],
+        'kept'
+      );
+    await fs.writeFile(kept, keptJson('Summarise the change'), 'utf-8');
+    await fs.writeFile(removed, promptWorkflowJson('removed'), 'utf-8');
+    const options = { agent: 'claude-code' as const, overwrite: false, rootDir: dir };
+    await exportWorkflowBatch([kept, removed], options);
+    const agents = ['claude-code' as const];
+    const clean = await checkExportDrift([kept, removed], agents, dir, { orphans: true });
+    if (clean.drift.length !== 0 || clean.workflowCount !== 2) {
+      throw new Error(`check: fresh export reported as drift: ${JSON.stringify(clean)}`);
+    }
+
+    const tester = { ...REVIEWER, id: 'tester', name: 'tester' };
+    await fs.writeFile(kept, keptJson('List the risks', [tester]), 'utf-8');
+    const reviewerPath = path.join(dir, '.claude', 'agents', 'reviewer.md');
+    const exported = await fs.readFile(reviewerPath, 'utf-8');
+    const edited = exported.replace('Review the change', 'Review the change twice');
+    await fs.writeFile(reviewerPath, edited, 'utf-8');
+    await fs.writeFile(path.join(dir, '.claude', 'agents', 'notes.md'), 'by hand\n', 'utf-8');
+
+    const report = await checkExportDrift([kept], agents, dir, { orphans: true });
+    const describe = (drift: typeof report.drift) =>
+      drift.map((d) => `${d.status}:${d.relativePath}`).join(',');
+    const expected = [
+      'edited:.claude/agents/reviewer.md',
+      'missing:.claude/agents/tester.md',
+      'stale:.claude/skills/kept/SKILL.md',
+      'orphaned:.claude/skills/removed/SKILL.md',
+    ];
+    if (describe(report.drift) !== expected.join(',')) {
+      throw new Error(`check: unexpected drift ${describe(report.drift)}`);
+    }
+
+    await fixExportDrift(dir, report.drift);
+    const after = await checkExportDrift([kept], agents, dir, { orphans: true });
+    const removedDir = await fs.stat(path.join(dir, '.claude', 'skills', 'removed')).then(
+      () => true,
+      () => false
+    );
+    if (
+      describe(after.drift) !== 'edited:.claude/agents/reviewer.md' ||
+      (await fs.readFile(reviewerPath, 'utf-8')) !== edited ||
+      removedDir
+    ) {
+      throw new Error(`check --fix: unexpected result ${describe(after.drift)}`);
+    }
+    console.log(`OK check: ${describe(report.drift)}; --fix left only the hand edit`);
+  });
+}
+
+smokeBranchAnswers()
+  .then(smokePulledSecrets)
+  .then(smokeBatchExport)
+  .then(smokeWatchExport)
+  .then(smokeCheckDrift)
+  .catch((error) => {
+    process.stderr.write(
+      `SMOKE FAILED: ${error instanceof Error ? (error.stack ?? error.message) : String(error)}\n`
+    );
+    process.exit(1);
+  });
@@ -6,7 +6,7 @@
  *   - render <file>                 (commit 4)
  *   - validate <file>               (commit 5)
  *   - mcp --file <file>             (commit 6)
- *   - run <file> [--overwrite]      (commit 7)
+ *   - run <file> [--runner]         (commit 7)
  */
 
 import { readFileSync } from 'node:fs';
@@ -14,12 +14,20 @@ import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Command } from 'commander';
 import { registerCanvasCommand } from './commands/canvas.js';
+import { registerCheckCommand } from './commands/check.js';
+import { registerDiffCommand } from './commands/diff.js';
 import { registerExportCommand } from './commands/export.js';
+import { registerImportCommand } from './commands/import.js';
 import { registerInstallSkillsCommand } from './commands/install-skills.js';
 import { registerMcpCommand } from './commands/mcp.js';
+import { registerMcpSnapshotCommand } from './commands/mcp-snapshot.js';
+import { registerMergeCommand } from './commands/merge.js';
+import { registerMigrateCommand } from './commands/migrate.js';
+import { registerNewCommand } from './commands/new.js';
 import { registerPreviewCommand } from './commands/preview.js';
 import { registerRenderCommand } from './commands/render.js';
 import { registerRunCommand } from './commands/run.js';
+import { registerScanCommand } from './commands/scan.js';
 import { registerTourCommand } from './commands/tour.js';
 import { registerUninstallSkillsCommand } from './commands/uninstall-skills.js';
 import { registerValidateCommand } from './commands/validate.js';
@@ -41,8 +49,16 @@ program
 
 registerRenderCommand(program);
 registerValidateCommand(program);
+registerMigrateCommand(program);
+registerDiffCommand(program);
+registerMergeCommand(program);
+registerNewCommand(program);
+registerImportCommand(program);
 registerMcpCommand(program);
+registerMcpSnapshotCommand(program);
 registerExportCommand(program);
+registerCheckCommand(program);
+registerScanCommand(program);
 registerRunCommand(program);
 registerPreviewCommand(program);
 registerCanvasCommand(program);
@@ -0,0 +1,219 @@
+/**
+ * `ccwf check [files...] [--agent <name>...] [--fix] [--prune]` — verify that
+ * exported agent files match their workflows.
+ *
+ * Meant for CI: a workflow edited without being re-exported leaves `missing`
+ * or `stale` files, a deleted or renamed workflow leaves `orphaned` ones, and
+ * an exported file changed by hand is `edited` (see `../export/drift.ts`).
+ * Orphans are judged against every workflow passed in, so they are only
+ * checked for the default `.vscode/workflows/*.json` (all of the project's
+ * workflows), or with `--prune` when the files given cover them all.
+ * `--agent` also accepts the custom targets from `ccwf.config.json`. `--fix`
+ * leaves `edited` files (and hand-edited orphans) alone;
+ * `ccwf export --on-edit` settles them.
+ *
+ * Exit codes: 0 in sync (or fixed), 1 drift found (or edited files left
+ * after `--fix`), 2 workflow load error.
+ */
+
+import * as path from 'node:path';
+import { Command } from 'commander';
+import {
+  type DriftEntry,
+  type DriftReport,
+  checkExportDrift,
+  fixExportDrift,
+  isEditedDrift,
+} from '../export/drift.js';
+import { expandFileArguments } from '../export/glob.js';
+import {
+  CLAUDE_CODE_AGENT,
+  type ExportAgent,
+  SUPPORTED_AGENTS,
+  exportAgentId,
+  resolveExportAgent,
+} from '../export/plan.js';
+import { WorkflowLoadError } from '../utils/load-workflow.js';
+
+const DEFAULT_WORKFLOW_GLOB = '.vscode/workflows/*.json';
+
+interface CommanderCheckOptions {
+  /** Agent names; resolved against `ccwf.config.json` in the output root. */
+  agent?: string[];
+  cwd?: string;
+  fix: boolean;
+  prune: boolean;
+  json: boolean;
+}
+
+function collectAgent(value: string, previous: string[] = []): string[] {
+  return previous.includes(value) ? previous : [...previous, value];
+}
+
+function describeEntry(entry: DriftEntry, rootDir: string): string {
+  const source = entry.workflowFile ? `  (${path.relative(rootDir, entry.workflowFile)})` : '';
+  const edited = entry.edited ? '  (hand-edited)' : '';
+  return `  ${entry.status.padEnd(8)}  ${entry.relativePath}${source}${edited}`;
+}
+
+function writeTextReport(
+  report: DriftReport,
+  fixed: boolean,
+  orphans: boolean,
+  rootDir: string
+): void {
+  for (const loadError of report.loadErrors) {
+    process.stderr.write(
+      `error: ${path.relative(rootDir, loadError.file)}: ${loadError.message}\n`
+    );
+  }
+  if (orphans && report.loadErrors.length > 0) {
+    process.stderr.write('Orphaned files are not checked while a workflow fails to load.\n');
+  }
+
+  if (report.drift.length === 0) {
+    process.stdout.write(
+      `✓ ${report.plannedCount} exported file(s) up to date for ${report.workflowCount} workflow(s).\n`
+    );
+    return;
+  }
+
+  const edited = report.drift.filter(isEditedDrift);
+  if (fixed) {
+    const fixedEntries = report.drift.filter((entry) => !isEditedDrift(entry));
+    if (fixedEntries.length > 0) {
+      process.stdout.write(`✓ Fixed ${fixedEntries.length} exported file(s):\n`);
+      for (const entry of fixedEntries) {
+        process.stdout.write(`${describeEntry(entry, rootDir)}\n`);
+      }
+    }
+    if (edited.length > 0) {
+      process.stdout.write(`✗ ${edited.length} hand-edited file(s) left as is:\n`);
+      for (const entry of edited) {
+        process.stdout.write(`${describeEntry(entry, rootDir)}\n`);
+      }
+    }
+  } else {
+    process.stdout.write(`✗ ${report.drift.length} exported file(s) out of date:\n`);
+    for (const entry of report.drift) {
+      process.stdout.write(`${describeEntry(entry, rootDir)}\n`);
+    }
+    process.stdout.write('\nRun `ccwf check --fix` to re-export them.\n');
+  }
+  if (edited.some((entry) => entry.status === 'edited')) {
+    process.stdout.write(
+      '`--fix` does not touch edited files: run `ccwf export <workflow> --on-edit keep|overwrite|pull`.\n'
+    );
+  }
+  if (edited.some((entry) => entry.status === 'orphaned')) {
+    process.stdout.write(
+      '`--fix` does not delete hand-edited orphans: remove them yourself if they are no longer needed.\n'
+    );
+  }
+}
+
+/** Drift that `--fix` did not (or, without `--fix`, would not yet) resolve. */
+function unresolvedDrift(report: DriftReport, fixed: boolean): DriftEntry[] {
+  return fixed ? report.drift.filter(isEditedDrift) : report.drift;
+}
+
+function toJsonReport(
+  report: DriftReport,
+  agents: ExportAgent[],
+  fixed: boolean,
+  rootDir: string
+): Record<string, unknown> {
+  return {
+    ok: report.loadErrors.length === 0 && unresolvedDrift(report, fixed).length === 0,
+    fixed,
+    agents: agents.map(exportAgentId),
+    workflowCount: report.workflowCount,
+    plannedCount: report.plannedCount,
+    drift: report.drift.map(({ status, relativePath, workflowFile, edited }) => ({
+      status,
+      path: relativePath,
+      ...(workflowFile ? { workflow: path.relative(rootDir, workflowFile) } : {}),
+      ...(edited ? { edited } : {}),
+    })),
+    loadErrors: report.loadErrors.map((e) => ({
+      file: path.relative(rootDir, e.file),
+      message: e.message,
+    })),
+  };
+}
+
+export function registerCheckCommand(program: Command): void {
+  program
+    .command('check')
+    .description(
+      'Check that exported agent files match their workflows (missing, stale and orphaned files).'
+    )
+    .argument(
+      '[files...]',
+      `Workflow JSON file(s) or quoted glob pattern(s). Defaults to '${DEFAULT_WORKFLOW_GLOB}'.`
+    )
+    .option<string[]>(
+      '--agent <name>',
+      `Target agent; repeat for several. One of: ${SUPPORTED_AGENTS.join(', ')}, or a custom target from ccwf.config.json. Defaults to ${CLAUDE_CODE_AGENT}.`,
+      collectAgent
+    )
+    .option('--cwd <dir>', 'Output root to check. Defaults to process.cwd().')
+    .option(
+      '--fix',
+      'Re-export missing and stale files and delete orphaned ones. Hand-edited files are left alone.',
+      false
+    )
+    .option(
+      '--prune',
+      'Check for orphaned files even though workflow files are given; they must cover every workflow of the project.',
+      false
+    )
+    .option('--json', 'Print the report as JSON.', false)
+    .action(async (fileArgs: string[], options: CommanderCheckOptions) => {
+      try {
+        const cwd = process.cwd();
+        const rootDir = path.resolve(options.cwd ?? cwd);
+        let files: string[];
+        try {
+          // Explicit files resolve against the shell's cwd; the default
+          // glob against the project being checked.
+          files =
+            fileArgs.length > 0
+              ? await expandFileArguments(fileArgs, cwd)
+              : await expandFileArguments([DEFAULT_WORKFLOW_GLOB], rootDir);
+        } catch (error) {
+          throw new WorkflowLoadError(error instanceof Error ? error.message : String(error));
+        }
+
+        const agents: ExportAgent[] = [];
+        for (const name of options.agent ?? [CLAUDE_CODE_AGENT]) {
+          agents.push(await resolveExportAgent(name, rootDir));
+        }
+        // Orphans need the full set of workflows: a file planned by a
+        // workflow left out would otherwise look orphaned
+        const orphans = fileArgs.length === 0 || options.prune;
+        const report = await checkExportDrift(files, agents, rootDir, { orphans });
+        const fixed = options.fix && report.drift.length > 0;
+        if (fixed) {
+          await fixExportDrift(rootDir, report.drift);
+        }
+
+        if (options.json) {
+          process.stdout.write(
+            `${JSON.stringify(toJsonReport(report, agents, fixed, rootDir), null, 2)}\n`
+          );
+        } else {
+          writeTextReport(report, fixed, orphans, rootDir);
+        }
+
+        if (report.loadErrors.length > 0) process.exit(2);
+        process.exit(unresolvedDrift(report, fixed).length > 0 ? 1 : 0);
+      } catch (error) {
+        if (error instanceof WorkflowLoadError) {
+          process.stderr.write(`error: ${error.message}\n`);
+          process.exit(error.exitCode);
+        }
+        throw error;
+      }
+    });
+}
@@ -0,0 +1,51 @@
+/**
+ * `ccwf diff <a> <b>` — semantic diff of two workflow JSON files.
+ *
+ * Compares graphs, not text: node field edits, moved nodes, connection
+ * rewires and Sub-Agent Flow changes, via core's `diffWorkflows`. Both files
+ * are migrated to the current schema first so a version bump alone is not
+ * reported. `--json` prints the raw `WorkflowDiff`.
+ *
+ * Exit codes follow diff(1): 0 identical, 1 different, 2 load error.
+ */
+
+import { diffWorkflows, formatWorkflowDiff, migrateWorkflow } from '@cc-wf-studio/core';
+import { Command } from 'commander';
+import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+
+interface DiffOptions {
+  json: boolean;
+}
+
+export function registerDiffCommand(program: Command): void {
+  program
+    .command('diff')
+    .description('Show the semantic difference between two workflow JSON files.')
+    .argument('<a>', 'Path to the "before" workflow JSON file.')
+    .argument('<b>', 'Path to the "after" workflow JSON file.')
+    .option('--json', 'Print the raw WorkflowDiff JSON to stdout.', false)
+    .action(async (a: string, b: string, options: DiffOptions) => {
+      try {
+        const before = await loadWorkflowFromFile(a);
+        const after = await loadWorkflowFromFile(b);
+        const diff = diffWorkflows(
+          migrateWorkflow(before.workflow),
+          migrateWorkflow(after.workflow)
+        );
+
+        if (options.json) {
+          process.stdout.write(`${JSON.stringify(diff, null, 2)}\n`);
+        } else if (diff.changeCount > 0) {
+          process.stdout.write(`${formatWorkflowDiff(diff)}\n`);
+        }
+
+        process.exit(diff.changeCount > 0 ? 1 : 0);
+      } catch (error) {
+        if (error instanceof WorkflowLoadError) {
+          process.stderr.write(`error: ${error.message}\n`);
+          process.exit(error.exitCode);
+        }
+        throw error;
+      }
+    });
+}
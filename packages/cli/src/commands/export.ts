@@ -1,186 +1,402 @@
 /**
- * `ccwf export <file> [--agent <name>]` — materialise a workflow as
- * agent-skill files in `cwd`.
+ * `ccwf export <files...> [--agent <name>] [--watch]` — materialise
+ * workflows as agent-skill files in `cwd`.
  *
- * `--agent claude-code` (default) uses the canonical `planWorkflowExportFiles`
- * (Sub-Agent files under `.claude/agents/` + workflow entry at
- * `.claude/skills/<workflow>.md`). Other agents (antigravity / codex /
- * copilot / cursor / gemini / roo-code) use `planAgentSkillFiles`, which
- * emits the provider's own `<root>/skills/<workflow>/SKILL.md` (plus
- * `.cursor/agents/*.md` for Cursor).
+ * See `../export/plan.ts` for what each agent writes. A single file keeps
+ * the plain "Wrote N file(s)" output; several files (or a quoted glob such as
+ * `'workflows/*.json'`) export as a batch with a summary table and output
+ * path collision detection. `--watch` re-exports a workflow whenever its JSON
+ * changes on disk; each workflow may overwrite the files it wrote itself.
+ *
+ * Before writing, the planned files are scanned for secrets (see
+ * `../export/secrets.ts`); a workflow with findings is not exported unless
+ * `--allow-secrets` is passed. `ccwf scan --redact` fixes the source.
+ *
+ * `--agent` also accepts the custom targets declared under `exportTargets`
+ * in `<output root>/ccwf.config.json`.
+ *
+ * Exported files carry a content-hash marker, so a re-export replaces its
+ * own unedited output without `--overwrite`. Files edited by hand since
+ * (or not written by ccwf) need `--on-edit keep|overwrite|pull` — see
+ * `../export/edits.ts` — or `--overwrite`.
  */
 
-import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import {
-  type AgentSkillProvider,
-  type PlannedExportFile,
-  nodeNameToFileName,
-  planAgentSkillFiles,
-  planWorkflowExportFiles,
-  workflowContainsClaudeCodeOnlyNodes,
-} from '@cc-wf-studio/core';
+import type { CustomSensitivePattern } from '@cc-wf-studio/core';
 import { Command, InvalidArgumentError } from 'commander';
-import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
-
-const CLAUDE_CODE_AGENT = 'claude-code' as const;
-const SUPPORTED_AGENTS = [
+import {
+  type BatchExportEntry,
+  type BatchExportResult,
+  exportWorkflowBatch,
+  formatBatchSummary,
+} from '../export/batch.js';
+import {
+  EDIT_ACTIONS,
+  type EditAction,
+  type EditResolution,
+  describeConflict,
+  findExportConflicts,
+  resolveExportConflicts,
+} from '../export/edits.js';
+import { expandFileArguments } from '../export/glob.js';
+import {
   CLAUDE_CODE_AGENT,
-  'antigravity',
-  'codex',
-  'copilot',
-  'cursor',
-  'gemini',
-  'roo-code',
-] as const;
-type SupportedAgent = (typeof SUPPORTED_AGENTS)[number];
+  type ExportAgent,
+  SUPPORTED_AGENTS,
+  planWorkflowExport,
+  resolveExportAgent,
+  writePlannedFiles,
+} from '../export/plan.js';
+import {
+  type PlannedFileFinding,
+  describeFinding,
+  loadCustomSensitivePatterns,
+  scanPlannedFiles,
+} from '../export/secrets.js';
+import { watchWorkflowFile } from '../preview/watcher.js';
+import { WorkflowLoadError } from '../utils/load-workflow.js';
 
 export interface ExportRunOptions {
   /** Path to the workflow JSON. */
   file: string;
-  /** Default `'claude-code'`. */
-  agent: SupportedAgent;
+  /** Built-in agent or custom target (see `resolveExportAgent`). */
+  agent: ExportAgent;
   /** Overwrite existing files. */
   overwrite: boolean;
+  /** What to do with existing files that are not ccwf's unedited output. */
+  onEdit?: EditAction;
   /** Output root. Defaults to `process.cwd()`. */
   cwd?: string;
+  /** Project secret patterns (`ccwf.config.json`), checked with the built-in ones. */
+  customPatterns?: CustomSensitivePattern[];
+  /** Write files that contain possible secrets. */
+  allowSecrets?: boolean;
 }
 
 export interface ExportRunResult {
   /** Absolute paths of every file written. */
   writtenPaths: string[];
-  /** Slash command name (used for the `run` follow-up hint). */
-  slashName: string;
   /** Project root used. */
   rootDir: string;
-}
-
-function parseAgentOption(value: string): SupportedAgent {
-  if ((SUPPORTED_AGENTS as readonly string[]).includes(value)) {
-    return value as SupportedAgent;
-  }
-  // InvalidArgumentError is commander's signal for "render this as a clean
-  // CLI error, not an uncaught exception with a stack trace".
-  throw new InvalidArgumentError(`Expected one of: ${SUPPORTED_AGENTS.join(', ')}.`);
-}
-
-function resolvePlanned(rootDir: string, file: PlannedExportFile): string {
-  return path.join(rootDir, ...file.relativePath.split('/'));
-}
-
-async function pathExists(target: string): Promise<boolean> {
-  try {
-    await fs.stat(target);
-    return true;
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
-    throw error;
-  }
+  /** How edited files were handled; unset when there were none. */
+  edits?: EditResolution;
 }
 
 /**
- * Shared implementation invoked by both `ccwf export` and `ccwf run`.
+ * Single-workflow `ccwf export`: plan, check for secrets and edited files,
+ * then write. Multiple files and `--watch` go through `exportWorkflowBatch`.
  *
  * Throws `WorkflowLoadError` for `<file>` issues. Calls `process.exit(1)` on
- * a write conflict (without `--overwrite`) — the caller doesn't need to
- * handle either case explicitly.
+ * possible secrets in the planned files or in edits to pull back (without
+ * `--allow-secrets`) or a write conflict (without `--overwrite` or
+ * `--on-edit`) — the caller doesn't need to handle either case explicitly.
  */
 export async function runExport(options: ExportRunOptions): Promise<ExportRunResult> {
-  const { workflow } = await loadWorkflowFromFile(options.file);
+  const plan = await planWorkflowExport(options.file, options.agent);
   const rootDir = path.resolve(options.cwd ?? process.cwd());
 
-  if (options.agent !== CLAUDE_CODE_AGENT && workflowContainsClaudeCodeOnlyNodes(workflow)) {
-    process.stderr.write(
-      `warning: this workflow contains Claude Code-only node(s) (e.g. branchSession); ${options.agent} cannot execute those steps.\n`
-    );
+  for (const warning of plan.warnings) {
+    process.stderr.write(`warning: ${warning}\n`);
   }
 
-  const plan =
-    options.agent === CLAUDE_CODE_AGENT
-      ? planWorkflowExportFiles(workflow)
-      : planAgentSkillFiles(workflow, options.agent as AgentSkillProvider);
-
-  if (!options.overwrite) {
-    const conflicts: string[] = [];
-    for (const planned of plan) {
-      const absPath = resolvePlanned(rootDir, planned);
-      if (await pathExists(absPath)) {
-        conflicts.push(absPath);
-      }
-    }
-    if (conflicts.length > 0) {
+  if (!options.allowSecrets) {
+    const secrets = scanPlannedFiles(plan.files, options.customPatterns ?? []);
+    if (secrets.length > 0) {
       process.stderr.write(
-        `error: ${conflicts.length} file(s) already exist. Pass --overwrite to replace them:\n`
+        `error: ${secrets.length} possible secret(s) in the exported files. Replace them with \${ENV_VAR} references (\`ccwf scan --redact ${path.relative(process.cwd(), plan.absolutePath)}\`), or pass --allow-secrets:\n`
       );
-      for (const absPath of conflicts) {
-        process.stderr.write(`  - ${absPath}\n`);
-      }
+      writeSecretFindings(secrets);
       process.exit(1);
     }
   }
 
-  const writtenPaths: string[] = [];
-  const ensuredDirs = new Set<string>();
-  for (const planned of plan) {
-    const absPath = resolvePlanned(rootDir, planned);
-    const dir = path.dirname(absPath);
-    if (!ensuredDirs.has(dir)) {
-      await fs.mkdir(dir, { recursive: true });
-      ensuredDirs.add(dir);
+  let files = plan.files;
+  let edits: EditResolution | undefined;
+  const conflicts = options.overwrite ? [] : await findExportConflicts(rootDir, plan.files);
+  if (conflicts.length > 0) {
+    if (!options.onEdit) {
+      process.stderr.write(
+        `error: ${conflicts.length} existing file(s) were edited or not written by ccwf. Pass --on-edit keep|overwrite|pull (or --overwrite):\n`
+      );
+      for (const conflict of conflicts) {
+        process.stderr.write(`  - ${describeConflict(conflict)}\n`);
+      }
+      process.exit(1);
+    }
+    edits = await resolveExportConflicts(plan, conflicts, options.onEdit, options.agent, {
+      customPatterns: options.customPatterns,
+      allowSecrets: options.allowSecrets,
+    });
+    if (edits.secrets) {
+      process.stderr.write(
+        `error: ${edits.secrets.length} possible secret(s) in the edits to pull back. Remove them from the edited files, or pass --allow-secrets:\n`
+      );
+      writeSecretFindings(edits.secrets);
+      process.exit(1);
     }
-    await fs.writeFile(absPath, planned.contents, 'utf-8');
-    writtenPaths.push(absPath);
+    files = edits.files;
   }
 
   return {
-    writtenPaths,
-    slashName: nodeNameToFileName(workflow.name),
+    writtenPaths: await writePlannedFiles(rootDir, files),
     rootDir,
+    edits,
   };
 }
 
-/** Resolve an option spec into a `SupportedAgent`, throwing if unknown. */
-export function asSupportedAgent(value: string): SupportedAgent {
-  return parseAgentOption(value);
+function writeEditResolution(edits: EditResolution, workflowFile: string, rootDir: string): void {
+  for (const absPath of edits.kept) {
+    process.stdout.write(`  kept      ${path.relative(rootDir, absPath)}\n`);
+  }
+  if (edits.pulled.length > 0) {
+    process.stdout.write(
+      `✓ Pulled ${edits.pulled.length} edit(s) into ${path.relative(process.cwd(), workflowFile)}:\n`
+    );
+    for (const field of edits.pulled) {
+      process.stdout.write(`  - ${field}\n`);
+    }
+  }
+  for (const absPath of edits.incomplete) {
+    process.stderr.write(
+      `warning: ${path.relative(rootDir, absPath)} has edits outside prompts and agent definitions; left as is. Use --on-edit overwrite to replace it.\n`
+    );
+  }
 }
 
 interface CommanderExportOptions {
-  agent: SupportedAgent;
+  /** Agent name; resolved against `ccwf.config.json` once the output root is known. */
+  agent: string;
   overwrite: boolean;
+  onEdit?: EditAction;
   cwd?: string;
+  watch: boolean;
+  allowSecrets: boolean;
+}
+
+function parseEditAction(value: string): EditAction {
+  if (!(EDIT_ACTIONS as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${EDIT_ACTIONS.join(', ')}.`);
+  }
+  return value as EditAction;
+}
+
+function writeSecretFindings(secrets: PlannedFileFinding[]): void {
+  for (const { relativePath, finding } of secrets) {
+    process.stderr.write(`  - ${relativePath}:${finding.line}  ${describeFinding(finding)}\n`);
+  }
+}
+
+function writeBatchDiagnostics(result: BatchExportResult, cwd: string): void {
+  for (const entry of result.entries) {
+    for (const warning of entry.warnings) {
+      process.stderr.write(`warning: ${path.relative(cwd, entry.file)}: ${warning}\n`);
+    }
+    if (entry.edits) writeBatchEdits(entry.edits, path.relative(cwd, entry.file), cwd);
+    if (entry.secrets) {
+      process.stderr.write(
+        `error: ${path.relative(cwd, entry.file)}: ${entry.secrets.length} possible secret(s) in the exported files:\n`
+      );
+      writeSecretFindings(entry.secrets);
+    }
+  }
+  if (result.collisions.length > 0) {
+    process.stderr.write(
+      `error: ${result.collisions.length} output path(s) would be written by more than one workflow:\n`
+    );
+    for (const collision of result.collisions) {
+      const files = collision.files.map((f) => path.relative(cwd, f)).join(', ');
+      process.stderr.write(`  - ${collision.relativePath}: ${files}\n`);
+    }
+  }
+}
+
+function writeBatchEdits(edits: EditResolution, label: string, cwd: string): void {
+  if (edits.kept.length > 0) {
+    process.stderr.write(`note: ${label}: kept ${edits.kept.length} edited file(s)\n`);
+  }
+  if (edits.pulled.length > 0) {
+    process.stderr.write(
+      `note: ${label}: pulled ${edits.pulled.length} edit(s) into the workflow (${edits.pulled.join(', ')})\n`
+    );
+  }
+  for (const absPath of edits.incomplete) {
+    process.stderr.write(
+      `warning: ${label}: ${path.relative(cwd, absPath)} has edits outside prompts and agent definitions; left as is\n`
+    );
+  }
+}
+
+function writeBatchSummary(entries: BatchExportEntry[], cwd: string): void {
+  const exported = entries.filter((e) => !e.error);
+  const fileCount = exported.reduce((sum, e) => sum + e.writtenPaths.length, 0);
+  process.stdout.write(`${formatBatchSummary(entries, cwd)}\n\n`);
+  process.stdout.write(
+    `${exported.length === entries.length ? '✓' : '✗'} Exported ${exported.length} of ${entries.length} workflow(s) (${fileCount} file(s)).\n`
+  );
+}
+
+/**
+ * Re-export each workflow when its JSON changes. Re-exports run one at a
+ * time; a workflow may overwrite the files it wrote before, and its output
+ * paths are checked against the other watched workflows' latest plans.
+ */
+function watchExports(
+  entries: BatchExportEntry[],
+  options: CommanderExportOptions,
+  agent: ExportAgent,
+  rootDir: string,
+  cwd: string,
+  customPatterns: CustomSensitivePattern[]
+): void {
+  const latest = new Map(entries.map((entry) => [entry.file, entry]));
+  const ownedPaths = new Map(entries.map((entry) => [entry.file, new Set(entry.writtenPaths)]));
+  let queue = Promise.resolve();
+
+  const reexport = async (file: string): Promise<void> => {
+    const claimedPaths = new Map<string, string>();
+    for (const [other, entry] of latest) {
+      if (other === file) continue;
+      for (const relativePath of entry.plannedPaths) claimedPaths.set(relativePath, other);
+    }
+
+    const result = await exportWorkflowBatch([file], {
+      agent,
+      overwrite: options.overwrite,
+      onEdit: options.onEdit,
+      rootDir,
+      ownedPaths,
+      claimedPaths,
+      customPatterns,
+      allowSecrets: options.allowSecrets,
+    });
+    const [entry] = result.entries;
+    latest.set(file, entry);
+    for (const writtenPath of entry.writtenPaths) ownedPaths.get(file)?.add(writtenPath);
+
+    const time = new Date().toLocaleTimeString();
+    const label = path.relative(cwd, file);
+    for (const warning of entry.warnings) {
+      process.stderr.write(`warning: ${label}: ${warning}\n`);
+    }
+    if (entry.edits) writeBatchEdits(entry.edits, label, cwd);
+    if (entry.secrets) writeSecretFindings(entry.secrets);
+    if (entry.error) {
+      process.stderr.write(`[ccwf export] ${time} ${label}: ✗ ${entry.error}\n`);
+    } else {
+      process.stdout.write(
+        `[ccwf export] ${time} ${label}: ✓ wrote ${entry.writtenPaths.length} file(s)\n`
+      );
+    }
+  };
+
+  const watchers = entries.map((entry) =>
+    watchWorkflowFile({
+      filePath: entry.file,
+      persistent: true,
+      onChange: () => {
+        queue = queue
+          .then(() => reexport(entry.file))
+          .catch((error) => {
+            process.stderr.write(
+              `[ccwf export] ${path.relative(cwd, entry.file)}: ✗ ${error instanceof Error ? error.message : String(error)}\n`
+            );
+          });
+      },
+    })
+  );
+
+  process.stdout.write(
+    `\nWatching ${entries.length} workflow file(s) for changes. Press Ctrl+C to stop.\n`
+  );
+
+  const shutdown = (): void => {
+    for (const watcher of watchers) watcher.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 
 export function registerExportCommand(program: Command): void {
   program
     .command('export')
     .description(
-      'Materialise a workflow as agent-skill files (.claude/agents + .claude/skills for Claude Code, <root>/skills for other agents).'
+      'Materialise workflows as agent-skill files (.claude/agents + .claude/skills for Claude Code, <root>/skills for other agents).'
+    )
+    .argument(
+      '<files...>',
+      "Workflow JSON file(s) or quoted glob pattern(s), e.g. 'workflows/*.json'."
     )
-    .argument('<file>', 'Path to a workflow JSON file.')
-    .option<SupportedAgent>(
+    .option(
       '--agent <name>',
-      `Target agent. One of: ${SUPPORTED_AGENTS.join(', ')}. roo-code targets Zoo Code, the maintained fork of the sunset Roo Code.`,
-      parseAgentOption,
+      `Target agent. One of: ${SUPPORTED_AGENTS.join(', ')}, or a custom target from ccwf.config.json. roo-code targets Zoo Code, the maintained fork of the sunset Roo Code.`,
       CLAUDE_CODE_AGENT
     )
     .option('--overwrite', 'Overwrite existing files instead of erroring.', false)
+    .option(
+      '--on-edit <action>',
+      'Existing files edited since export (or not written by ccwf): keep | overwrite | pull (copy the edits back into the workflow JSON).',
+      parseEditAction
+    )
     .option(
       '--cwd <dir>',
       'Output root. Defaults to process.cwd(). Useful for tests / scripted runs.'
     )
-    .action(async (file: string, options: CommanderExportOptions) => {
+    .option('--watch', 'Re-export a workflow whenever its JSON file changes.', false)
+    .option(
+      '--allow-secrets',
+      'Export even when the files would contain possible secrets (API keys, tokens, passwords).',
+      false
+    )
+    .action(async (fileArgs: string[], options: CommanderExportOptions) => {
       try {
-        const result = await runExport({
-          file,
-          agent: options.agent,
+        const cwd = process.cwd();
+        let files: string[];
+        try {
+          files = await expandFileArguments(fileArgs, cwd);
+        } catch (error) {
+          throw new WorkflowLoadError(error instanceof Error ? error.message : String(error));
+        }
+
+        const rootDir = path.resolve(options.cwd ?? cwd);
+        const agent = await resolveExportAgent(options.agent, rootDir);
+        const customPatterns = await loadCustomSensitivePatterns(rootDir);
+
+        if (files.length === 1 && !options.watch) {
+          const result = await runExport({
+            file: files[0],
+            agent,
+            overwrite: options.overwrite,
+            onEdit: options.onEdit,
+            cwd: options.cwd,
+            customPatterns,
+            allowSecrets: options.allowSecrets,
+          });
+
+          process.stdout.write(`✓ Wrote ${result.writtenPaths.length} file(s):\n`);
+          for (const writtenPath of result.writtenPaths) {
+            process.stdout.write(`  - ${path.relative(result.rootDir, writtenPath)}\n`);
+          }
+          if (result.edits) writeEditResolution(result.edits, files[0], result.rootDir);
+          return;
+        }
+
+        const result = await exportWorkflowBatch(files, {
+          agent,
           overwrite: options.overwrite,
-          cwd: options.cwd,
+          onEdit: options.onEdit,
+          rootDir,
+          customPatterns,
+          allowSecrets: options.allowSecrets,
         });
+        writeBatchDiagnostics(result, cwd);
+        writeBatchSummary(result.entries, cwd);
 
-        process.stdout.write(`✓ Wrote ${result.writtenPaths.length} file(s):\n`);
-        for (const writtenPath of result.writtenPaths) {
-          process.stdout.write(`  - ${path.relative(result.rootDir, writtenPath)}\n`);
+        if (options.watch) {
+          watchExports(result.entries, options, agent, rootDir, cwd, customPatterns);
+          return;
         }
+        process.exit(result.entries.some((e) => e.error) ? 1 : 0);
       } catch (error) {
         if (error instanceof WorkflowLoadError) {
           process.stderr.write(`error: ${error.message}\n`);
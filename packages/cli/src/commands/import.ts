@@ -0,0 +1,157 @@
+/**
+ * `ccwf import <file>` — turn a hand-written Claude Code slash command
+ * (`.claude/commands/<name>.md`) or skill (`<name>/SKILL.md`) into a
+ * workflow.
+ *
+ * Core's `importSlashCommandMarkdown` does the mapping: frontmatter becomes
+ * `slashCommandOptions`, the body becomes a chain of Prompt / SubAgent nodes
+ * and a tour. Sub-agents the body refers to are linked to
+ * `.claude/agents/<name>.md` under `--cwd` when those files exist. The
+ * workflow is written to `.vscode/workflows/<name>.json` under `--cwd`, or to
+ * `--output`; an existing file is only replaced with `--force`. The fidelity
+ * report (what was mapped, dropped, and survives a re-export) goes to stdout.
+ *
+ * Exit codes: 0 imported, 1 target exists, 2 load error.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  formatWorkflowImportReport,
+  importSlashCommandMarkdown,
+  type SubAgentFileSource,
+  VALIDATION_RULES,
+  WorkflowImportError,
+} from '@cc-wf-studio/core';
+import { Command, InvalidArgumentError } from 'commander';
+import { WorkflowLoadError } from '../utils/load-workflow.js';
+
+interface ImportOptions {
+  output?: string;
+  name?: string;
+  cwd?: string;
+  force: boolean;
+  json: boolean;
+}
+
+const AGENTS_DIR = path.join('.claude', 'agents');
+
+function parseName(value: string): string {
+  if (!VALIDATION_RULES.WORKFLOW.NAME_PATTERN.test(value)) {
+    throw new InvalidArgumentError(
+      'Workflow name must contain only lowercase letters (a-z), numbers, hyphens, and underscores.'
+    );
+  }
+  return value;
+}
+
+async function readSource(absolutePath: string): Promise<string> {
+  try {
+    return await fs.readFile(absolutePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new WorkflowLoadError(`File not found: ${absolutePath}`);
+    }
+    throw new WorkflowLoadError(
+      `Failed to read ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/** `.claude/agents/*.md` under `rootDir`, keyed by agent (file) name. */
+async function readAgentFiles(rootDir: string): Promise<Record<string, SubAgentFileSource>> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(path.join(rootDir, AGENTS_DIR));
+  } catch {
+    return {};
+  }
+  const files: Record<string, SubAgentFileSource> = {};
+  for (const entry of entries.filter((e) => e.endsWith('.md'))) {
+    const relativePath = path.join(AGENTS_DIR, entry);
+    files[entry.slice(0, -'.md'.length)] = {
+      content: await fs.readFile(path.join(rootDir, relativePath), 'utf-8'),
+      filePath: relativePath.split(path.sep).join('/'),
+    };
+  }
+  return files;
+}
+
+export function registerImportCommand(program: Command): void {
+  program
+    .command('import')
+    .description('Import a Claude Code slash command or SKILL.md as a workflow.')
+    .argument('<file>', 'Slash command (.claude/commands/<name>.md) or SKILL.md to import.')
+    .option(
+      '-o, --output <file>',
+      'Where to write the workflow. Defaults to .vscode/workflows/<name>.json.'
+    )
+    .option(
+      '--name <name>',
+      'Workflow name. Defaults to the skill name or the command file name.',
+      parseName
+    )
+    .option(
+      '--cwd <dir>',
+      'Project root for .claude/agents/ and the default output path. Defaults to process.cwd().'
+    )
+    .option('--force', 'Overwrite the output file if it already exists.', false)
+    .option('--json', 'Print the output path and the import report as JSON.', false)
+    .action(async (file: string, options: ImportOptions) => {
+      try {
+        const rootDir = path.resolve(options.cwd ?? process.cwd());
+        const absolutePath = path.resolve(file);
+        const content = await readSource(absolutePath);
+
+        const isSkill = path.basename(absolutePath).toLowerCase() === 'skill.md';
+        let result: ReturnType<typeof importSlashCommandMarkdown>;
+        try {
+          result = importSlashCommandMarkdown(content, {
+            kind: isSkill ? 'skill' : 'command',
+            sourceName: isSkill
+              ? path.basename(path.dirname(absolutePath))
+              : path.basename(absolutePath, path.extname(absolutePath)),
+            name: options.name,
+            subAgentFiles: await readAgentFiles(rootDir),
+          });
+        } catch (error) {
+          if (error instanceof WorkflowImportError) {
+            throw new WorkflowLoadError(`${absolutePath}: ${error.message}`);
+          }
+          throw error;
+        }
+        const { workflow, report } = result;
+
+        const outputPath = options.output
+          ? path.resolve(options.output)
+          : path.join(rootDir, '.vscode', 'workflows', `${workflow.name}.json`);
+        if (!options.force) {
+          const exists = await fs
+            .access(outputPath)
+            .then(() => true)
+            .catch(() => false);
+          if (exists) {
+            process.stderr.write(`✗ ${outputPath} already exists. Pass --force to overwrite.\n`);
+            process.exit(1);
+          }
+        }
+
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, `${JSON.stringify(workflow, null, 2)}\n`, 'utf-8');
+
+        if (options.json) {
+          process.stdout.write(`${JSON.stringify({ output: outputPath, report }, null, 2)}\n`);
+        } else {
+          process.stdout.write(`✓ Imported ${absolutePath} as ${outputPath}\n`);
+          process.stdout.write(`${formatWorkflowImportReport(report)}\n`);
+        }
+        process.exit(0);
+      } catch (error) {
+        if (error instanceof WorkflowLoadError) {
+          process.stderr.write(`error: ${error.message}\n`);
+          process.exit(error.exitCode);
+        }
+        throw error;
+      }
+    });
+}
@@ -0,0 +1,152 @@
+/**
+ * `ccwf mcp-snapshot [files...] [--server <id>...] [--check]` — record the
+ * MCP servers' tool schemas in `ccwf.mcp-lock.json`.
+ *
+ * Connects to every server the workflows' MCP nodes use (plus `--server`),
+ * lists its tools and writes their input schemas to the lockfile, which is
+ * meant to be committed. `ccwf validate` then checks MCP nodes against it
+ * without the servers running, so a tool schema change upstream shows up as
+ * a failed check instead of a broken run. Servers are read from the Claude
+ * Code config (`readClaudeMcpServers` in `@cc-wf-studio/mcp`).
+ *
+ * A server that cannot be reached keeps its previous entry. `--check`
+ * compares the live servers with the lockfile without writing it — for a
+ * scheduled CI job that catches upstream changes.
+ *
+ * Exit codes: 0 written (or in sync), 1 a server failed (or, with
+ * `--check`, the lockfile is out of date), 2 workflow or lockfile load error.
+ */
+
+import * as path from 'node:path';
+import { Command } from 'commander';
+import {
+  MCP_SNAPSHOT_FILE,
+  type McpSnapshot,
+  collectMcpServerIds,
+  createMcpSnapshot,
+  diffMcpSnapshots,
+} from '@cc-wf-studio/core';
+import { readClaudeMcpServers } from '@cc-wf-studio/mcp';
+import { expandFileArguments } from '../export/glob.js';
+import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+import { listMcpServerTools } from '../utils/mcp-servers.js';
+import { readMcpSnapshot, writeMcpSnapshot } from '../utils/mcp-snapshot.js';
+
+const DEFAULT_WORKFLOW_GLOB = '.vscode/workflows/*.json';
+
+interface McpSnapshotOptions {
+  server?: string[];
+  cwd?: string;
+  output?: string;
+  check: boolean;
+}
+
+function collectServer(value: string, previous: string[] = []): string[] {
+  return previous.includes(value) ? previous : [...previous, value];
+}
+
+export function registerMcpSnapshotCommand(program: Command): void {
+  program
+    .command('mcp-snapshot')
+    .description(
+      `Record the tool schemas of the MCP servers used by workflows in ${MCP_SNAPSHOT_FILE}.`
+    )
+    .argument(
+      '[files...]',
+      `Workflow JSON file(s) or quoted glob pattern(s) whose MCP servers to record. Defaults to '${DEFAULT_WORKFLOW_GLOB}'.`
+    )
+    .option<string[]>(
+      '--server <id>',
+      'Also record this MCP server; repeat for several.',
+      collectServer
+    )
+    .option(
+      '--cwd <dir>',
+      'Project root: where MCP servers are configured and the lockfile lives. Defaults to process.cwd().'
+    )
+    .option('--output <file>', `Lockfile path. Defaults to <cwd>/${MCP_SNAPSHOT_FILE}.`)
+    .option('--check', 'Compare the live servers with the lockfile instead of writing it.', false)
+    .action(async (fileArgs: string[], options: McpSnapshotOptions) => {
+      try {
+        const cwd = process.cwd();
+        const rootDir = path.resolve(options.cwd ?? cwd);
+        const lockPath = path.resolve(cwd, options.output ?? path.join(rootDir, MCP_SNAPSHOT_FILE));
+
+        let files: string[];
+        try {
+          files =
+            fileArgs.length > 0
+              ? await expandFileArguments(fileArgs, cwd)
+              : await expandFileArguments([DEFAULT_WORKFLOW_GLOB], rootDir);
+        } catch (error) {
+          // No workflows is fine when the servers are named explicitly
+          if (fileArgs.length > 0 || !options.server) {
+            throw new WorkflowLoadError(error instanceof Error ? error.message : String(error));
+          }
+          files = [];
+        }
+
+        const serverIds = new Set(options.server ?? []);
+        for (const file of files) {
+          const { workflow } = await loadWorkflowFromFile(file);
+          for (const serverId of collectMcpServerIds(workflow)) serverIds.add(serverId);
+        }
+        if (serverIds.size === 0) {
+          process.stdout.write('No MCP servers referenced; nothing to record.\n');
+          process.exit(0);
+        }
+
+        const previous = (await readMcpSnapshot(lockPath)) ?? createMcpSnapshot();
+        const configs = await readClaudeMcpServers(rootDir);
+        const snapshot: McpSnapshot = createMcpSnapshot();
+        const failed: string[] = [];
+        for (const serverId of [...serverIds].sort()) {
+          const config = configs[serverId];
+          try {
+            if (!config) throw new Error('not configured in .mcp.json or ~/.claude.json');
+            snapshot.servers[serverId] = await listMcpServerTools(serverId, config);
+            const toolCount = Object.keys(snapshot.servers[serverId].tools).length;
+            process.stderr.write(`  ${serverId}: ${toolCount} tool(s)\n`);
+          } catch (error) {
+            failed.push(serverId);
+            process.stderr.write(
+              `error: ${serverId}: ${error instanceof Error ? error.message : String(error)}\n`
+            );
+            const kept = previous.servers[serverId];
+            if (kept) snapshot.servers[serverId] = kept;
+          }
+        }
+
+        const changes = diffMcpSnapshots(previous, snapshot);
+        if (failed.length > 0) {
+          process.stderr.write(
+            `${failed.length} server(s) could not be listed; their previous entries are kept.\n`
+          );
+        }
+        if (options.check) {
+          if (changes.length === 0) {
+            process.stdout.write(`✓ ${lockPath} matches the MCP servers.\n`);
+          } else {
+            process.stdout.write(`✗ ${lockPath} is out of date (${changes.length} change(s)):\n`);
+            for (const change of changes) process.stdout.write(`  ${change}\n`);
+            process.stdout.write('\nRun `ccwf mcp-snapshot` to update it.\n');
+          }
+          process.exit(changes.length > 0 || failed.length > 0 ? 1 : 0);
+        }
+
+        await writeMcpSnapshot(lockPath, snapshot);
+        process.stdout.write(
+          changes.length === 0
+            ? `✓ ${lockPath} is up to date.\n`
+            : `✓ Wrote ${lockPath} (${changes.length} change(s)):\n${changes.map((c) => `  ${c}\n`).join('')}`
+        );
+        process.exit(failed.length > 0 ? 1 : 0);
+      } catch (error) {
+        if (error instanceof WorkflowLoadError) {
+          process.stderr.write(`error: ${error.message}\n`);
+          process.exit(error.exitCode);
+        }
+        throw error;
+      }
+    });
+}
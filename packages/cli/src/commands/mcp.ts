@@ -1,5 +1,7 @@
 /**
- * `ccwf mcp --file <path>` — run the file-mode stdio MCP server in-process.
+ * `ccwf mcp --file <path>` / `ccwf mcp --dir <path>` — run the file-mode or
+ * directory-mode MCP server in-process, over stdio or (with `--http`)
+ * Streamable HTTP on 127.0.0.1.
  *
  * Equivalent to the standalone `ccwf-mcp` bin (shipped by `@cc-wf-studio/mcp`),
  * exposed here so users only need to remember the unified `ccwf` entry point.
@@ -8,30 +10,111 @@
  */
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { FileWorkflowAdapter, createWorkflowMcpServer } from '@cc-wf-studio/mcp';
-import { Command } from 'commander';
+import {
+  DEFAULT_MCP_HTTP_PORT,
+  DirectoryWorkflowAdapter,
+  FileWorkflowAdapter,
+  MCP_TOKEN_ENV,
+  WorkflowResourceRegistry,
+  createWorkflowMcpServer,
+  serveWorkflowMcpHttp,
+} from '@cc-wf-studio/mcp';
+import { Command, InvalidArgumentError } from 'commander';
 
 interface McpOptions {
-  file: string;
+  file?: string;
+  dir?: string;
   projectRoot?: string;
+  createAgentFiles: boolean;
+  http: boolean;
+  port?: number;
+  token?: string;
+}
+
+function parsePortOption(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new InvalidArgumentError('Expected an integer between 0 and 65535.');
+  }
+  return port;
 }
 
 export function registerMcpCommand(program: Command): void {
   program
     .command('mcp')
-    .description('Run the cc-wf-studio stdio MCP server against a workflow file.')
-    .requiredOption('--file <path>', 'Workflow JSON file to read/write.')
+    .description(
+      'Run the cc-wf-studio MCP server (stdio, or Streamable HTTP with --http) against a workflow file or a directory of workflows.'
+    )
+    .option('--file <path>', 'Workflow JSON file to read/write.')
+    .option(
+      '--dir <path>',
+      'Serve every workflow JSON in this directory (e.g. .vscode/workflows), with list/open/create/delete tools.'
+    )
     .option(
       '--project-root <dir>',
       'Base directory used to resolve <project>/.claude/agents/. Defaults to process.cwd().'
     )
+    .option(
+      '--create-agent-files',
+      'On apply, write <project-root>/.claude/agents/<name>.md for inline SubAgent nodes, as the canvas does. Existing files are never replaced.',
+      false
+    )
+    .option(
+      '--http',
+      'Serve Streamable HTTP on http://127.0.0.1:<port>/mcp instead of stdio.',
+      false
+    )
+    .option<number>(
+      '--port <n>',
+      `HTTP port. Defaults to ${DEFAULT_MCP_HTTP_PORT}; 0 picks a free one.`,
+      parsePortOption
+    )
+    .option(
+      '--token <token>',
+      `Require "Authorization: Bearer <token>" on HTTP requests. Defaults to $${MCP_TOKEN_ENV}.`
+    )
     .action(async (options: McpOptions) => {
-      const adapter = new FileWorkflowAdapter({
-        filePath: options.file,
-        projectRoot: options.projectRoot,
+      if (Boolean(options.file) === Boolean(options.dir)) {
+        process.stderr.write('error: exactly one of --file or --dir is required\n');
+        process.exit(2);
+      }
+      if (!options.http && (options.port !== undefined || options.token !== undefined)) {
+        process.stderr.write('error: --port and --token require --http\n');
+        process.exit(2);
+      }
+
+      let createServer: () => ReturnType<typeof createWorkflowMcpServer>;
+      if (options.dir) {
+        const adapter = new DirectoryWorkflowAdapter({
+          dirPath: options.dir,
+          projectRoot: options.projectRoot,
+          createSubAgentFiles: options.createAgentFiles,
+        });
+        const resources = new WorkflowResourceRegistry(adapter);
+        resources.watch(adapter);
+        createServer = () => createWorkflowMcpServer(adapter, { library: adapter, resources });
+      } else {
+        const adapter = new FileWorkflowAdapter({
+          filePath: options.file as string,
+          projectRoot: options.projectRoot,
+          createSubAgentFiles: options.createAgentFiles,
+        });
+        const resources = new WorkflowResourceRegistry();
+        resources.watch(adapter);
+        createServer = () => createWorkflowMcpServer(adapter, { resources });
+      }
+
+      if (!options.http) {
+        const transport = new StdioServerTransport();
+        await createServer().connect(transport);
+        return;
+      }
+
+      await serveWorkflowMcpHttp({
+        createServer,
+        port: options.port ?? DEFAULT_MCP_HTTP_PORT,
+        token: options.token,
+        name: 'ccwf mcp',
       });
-      const server = createWorkflowMcpServer(adapter);
-      const transport = new StdioServerTransport();
-      await server.connect(transport);
     });
 }
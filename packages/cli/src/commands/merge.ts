@@ -0,0 +1,94 @@
+/**
+ * `ccwf merge <base> <ours> <theirs>` — three-way merge of workflow JSON.
+ *
+ * Uses core's `mergeWorkflows`: edits to different nodes, fields and
+ * connections combine cleanly; overlapping edits are written as
+ * `{ "<<<<<<< ours": …, "||||||| base": …, ">>>>>>> theirs": … }` objects so
+ * the result stays valid JSON and the editor refuses it until resolved.
+ *
+ * Designed to double as a git merge driver:
+ *
+ *   git config merge.ccwf.driver "ccwf merge %O %A %B --output %A"
+ *   echo '.vscode/workflows/*.json merge=ccwf' >> .gitattributes
+ *
+ * Exit codes: 0 clean merge, 1 conflicts, 2 load error.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { mergeWorkflows, migrateWorkflow, type Workflow } from '@cc-wf-studio/core';
+import { Command } from 'commander';
+import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+
+interface MergeOptions {
+  output?: string;
+  json: boolean;
+}
+
+/** Ancestor for a file both branches added: no fields, nodes or flows. */
+const EMPTY_BASE: Workflow = {
+  id: '',
+  name: '',
+  version: '',
+  nodes: [],
+  connections: [],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+/**
+ * git passes an empty ancestor when both branches added the file; treat that
+ * as an empty workflow so every difference is a two-sided edit.
+ */
+async function loadBase(file: string): Promise<Workflow> {
+  const raw = await fs.readFile(path.resolve(file), 'utf-8').catch(() => null);
+  if (raw !== null && raw.trim() === '') {
+    return EMPTY_BASE;
+  }
+  return migrateWorkflow((await loadWorkflowFromFile(file)).workflow);
+}
+
+export function registerMergeCommand(program: Command): void {
+  program
+    .command('merge')
+    .description('Three-way merge two edited copies of a workflow (usable as a git merge driver).')
+    .argument('<base>', 'Common ancestor workflow JSON (git: %O).')
+    .argument('<ours>', 'Our version (git: %A).')
+    .argument('<theirs>', 'Their version (git: %B).')
+    .option('-o, --output <file>', 'Write the merged workflow here instead of stdout.')
+    .option('--json', 'Print the conflict list as JSON to stderr instead of text.', false)
+    .action(
+      async (baseFile: string, oursFile: string, theirsFile: string, options: MergeOptions) => {
+        try {
+          const base = await loadBase(baseFile);
+          const ours = migrateWorkflow((await loadWorkflowFromFile(oursFile)).workflow);
+          const theirs = migrateWorkflow((await loadWorkflowFromFile(theirsFile)).workflow);
+          const { workflow, conflicts } = mergeWorkflows(base, ours, theirs);
+
+          const serialised = `${JSON.stringify(workflow, null, 2)}\n`;
+          if (options.output) {
+            await fs.writeFile(path.resolve(options.output), serialised, 'utf-8');
+          } else {
+            process.stdout.write(serialised);
+          }
+
+          if (options.json) {
+            process.stderr.write(`${JSON.stringify(conflicts, null, 2)}\n`);
+          } else if (conflicts.length > 0) {
+            process.stderr.write(`✗ ${conflicts.length} conflict(s):\n`);
+            for (const conflict of conflicts) {
+              process.stderr.write(`  - [${conflict.kind}] ${conflict.path}\n`);
+            }
+          }
+
+          process.exit(conflicts.length > 0 ? 1 : 0);
+        } catch (error) {
+          if (error instanceof WorkflowLoadError) {
+            process.stderr.write(`error: ${error.message}\n`);
+            process.exit(error.exitCode);
+          }
+          throw error;
+        }
+      }
+    );
+}
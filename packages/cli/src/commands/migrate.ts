@@ -0,0 +1,69 @@
+/**
+ * `ccwf migrate <file>` — upgrade a workflow file to the current schema.
+ *
+ * Runs core's `migrateWorkflowWithReport` and rewrites the file in place
+ * (2-space JSON, trailing newline — the same shape the editor saves).
+ * `--dry-run` prints the report without writing; `--json` prints the raw
+ * `WorkflowMigrationReport` to stdout.
+ *
+ * Exit codes: 0 migrated or already current, 1 unsupported (newer) schema
+ * version, 2 load error.
+ */
+
+import * as fs from 'node:fs/promises';
+import { CURRENT_SCHEMA_VERSION, migrateWorkflowWithReport } from '@cc-wf-studio/core';
+import { Command } from 'commander';
+import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+
+interface MigrateOptions {
+  dryRun: boolean;
+  json: boolean;
+}
+
+export function registerMigrateCommand(program: Command): void {
+  program
+    .command('migrate')
+    .description('Upgrade a workflow JSON file to the current schema version.')
+    .argument('<file>', 'Path to a workflow JSON file.')
+    .option('--dry-run', 'Print what would change without writing the file.', false)
+    .option('--json', 'Print the raw migration report JSON to stdout.', false)
+    .action(async (file: string, options: MigrateOptions) => {
+      try {
+        const { workflow, absolutePath } = await loadWorkflowFromFile(file);
+        const { workflow: migrated, report } = migrateWorkflowWithReport(workflow);
+
+        if (report.migrated && !options.dryRun) {
+          await fs.writeFile(absolutePath, `${JSON.stringify(migrated, null, 2)}\n`, 'utf-8');
+        }
+
+        if (options.json) {
+          process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+        } else if (report.unsupportedVersion) {
+          process.stderr.write(
+            `✗ ${absolutePath} declares schemaVersion ${report.unsupportedVersion}, which this ccwf does not know (latest: ${CURRENT_SCHEMA_VERSION}). Upgrade @cc-wf-studio/cli.\n`
+          );
+        } else if (!report.migrated) {
+          process.stdout.write(`✓ ${absolutePath} is already at schema ${report.toVersion}.\n`);
+        } else {
+          const verb = options.dryRun ? 'Would migrate' : 'Migrated';
+          process.stdout.write(
+            `✓ ${verb} ${absolutePath} from schema ${report.fromVersion} to ${report.toVersion}:\n`
+          );
+          for (const step of report.steps) {
+            process.stdout.write(`  - ${step.from} → ${step.to}: ${step.description}\n`);
+            for (const change of step.changes) {
+              process.stdout.write(`      · ${change}\n`);
+            }
+          }
+        }
+
+        process.exit(report.unsupportedVersion ? 1 : 0);
+      } catch (error) {
+        if (error instanceof WorkflowLoadError) {
+          process.stderr.write(`error: ${error.message}\n`);
+          process.exit(error.exitCode);
+        }
+        throw error;
+      }
+    });
+}
@@ -0,0 +1,114 @@
+/**
+ * `ccwf new <name> --template <file>` — create a workflow from a template.
+ *
+ * The template is any workflow JSON that declares `parameters`. Values come
+ * from repeatable `--param name=value` flags (declared defaults fill the
+ * rest) and are substituted by core's `instantiateWorkflowTemplate`. The
+ * result is written to `.vscode/workflows/<name>.json` under `--cwd`, or to
+ * `--output`; an existing file is only replaced with `--force`.
+ *
+ * Exit codes: 0 created, 1 invalid name / parameter values / target exists,
+ * 2 load error.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  instantiateWorkflowTemplate,
+  migrateWorkflow,
+  VALIDATION_RULES,
+  WorkflowTemplateError,
+} from '@cc-wf-studio/core';
+import { Command, InvalidArgumentError } from 'commander';
+import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+
+interface NewOptions {
+  template: string;
+  param: Record<string, string>;
+  output?: string;
+  cwd?: string;
+  force: boolean;
+}
+
+function parseName(value: string): string {
+  if (!VALIDATION_RULES.WORKFLOW.NAME_PATTERN.test(value)) {
+    throw new InvalidArgumentError(
+      'Workflow name must contain only lowercase letters (a-z), numbers, hyphens, and underscores.'
+    );
+  }
+  return value;
+}
+
+function collectParam(value: string, previous: Record<string, string>): Record<string, string> {
+  const eq = value.indexOf('=');
+  if (eq <= 0) {
+    throw new InvalidArgumentError('Expected <name>=<value>.');
+  }
+  return { ...previous, [value.slice(0, eq)]: value.slice(eq + 1) };
+}
+
+export function registerNewCommand(program: Command): void {
+  program
+    .command('new')
+    .description('Create a workflow from a parameterized template.')
+    .argument('<name>', 'Name of the new workflow (lowercase, hyphens, underscores).', parseName)
+    .requiredOption('-t, --template <file>', 'Template workflow JSON that declares parameters.')
+    .option(
+      '-p, --param <name=value>',
+      'Value for a template parameter. Repeatable.',
+      collectParam,
+      {}
+    )
+    .option(
+      '-o, --output <file>',
+      'Where to write the workflow. Defaults to .vscode/workflows/<name>.json.'
+    )
+    .option('--cwd <dir>', 'Project root for the default output path. Defaults to process.cwd().')
+    .option('--force', 'Overwrite the output file if it already exists.', false)
+    .action(async (name: string, options: NewOptions) => {
+      try {
+        const { workflow: template, absolutePath } = await loadWorkflowFromFile(options.template);
+        const migrated = migrateWorkflow(template);
+
+        let workflow: ReturnType<typeof instantiateWorkflowTemplate>;
+        try {
+          workflow = instantiateWorkflowTemplate(migrated, options.param, { name });
+        } catch (error) {
+          if (!(error instanceof WorkflowTemplateError)) throw error;
+          process.stderr.write(`✗ ${error.message}\n`);
+          for (const param of migrated.parameters ?? []) {
+            const detail = param.default === undefined ? 'required' : `default: ${param.default}`;
+            process.stderr.write(
+              `  --param ${param.name}=<${param.type}>  (${detail})${param.description ? ` ${param.description}` : ''}\n`
+            );
+          }
+          process.exit(1);
+        }
+
+        const outputPath = options.output
+          ? path.resolve(options.output)
+          : path.resolve(options.cwd ?? process.cwd(), '.vscode', 'workflows', `${name}.json`);
+        if (!options.force) {
+          const exists = await fs
+            .access(outputPath)
+            .then(() => true)
+            .catch(() => false);
+          if (exists) {
+            process.stderr.write(`✗ ${outputPath} already exists. Pass --force to overwrite.\n`);
+            process.exit(1);
+          }
+        }
+
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, `${JSON.stringify(workflow, null, 2)}\n`, 'utf-8');
+        process.stdout.write(`✓ Created ${outputPath} from template ${absolutePath}\n`);
+        process.exit(0);
+      } catch (error) {
+        if (error instanceof WorkflowLoadError) {
+          process.stderr.write(`error: ${error.message}\n`);
+          process.exit(error.exitCode);
+        }
+        throw error;
+      }
+    });
+}
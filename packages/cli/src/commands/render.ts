@@ -5,45 +5,93 @@
  * guide), suitable for pasting into a PR description or README. `--format=mermaid`
  * outputs only the Mermaid `flowchart` source, intended for piping into
  * `mermaid-cli` or similar.
+ *
+ * `--format=svg` / `--format=html` draw the canvas itself — saved node
+ * positions, Sub-Agent colours and groups — as a self-contained image or page.
+ * No browser is involved, so both work on headless CI.
  */
 
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
 import { Command, InvalidArgumentError } from 'commander';
 import {
+  type WorkflowRenderTheme,
   generateExecutionInstructions,
   generateMermaidFlowchart,
+  renderWorkflowHtml,
+  renderWorkflowSvg,
 } from '@cc-wf-studio/core';
 import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
 
-type RenderFormat = 'mermaid' | 'md';
+type RenderFormat = 'mermaid' | 'md' | 'svg' | 'html';
+
+const RENDER_FORMATS: RenderFormat[] = ['md', 'mermaid', 'svg', 'html'];
 
 interface RenderOptions {
   format: RenderFormat;
+  theme: WorkflowRenderTheme;
+  output?: string;
+}
+
+async function writeOutput(content: string, output: string | undefined): Promise<void> {
+  if (!output) {
+    process.stdout.write(content);
+    return;
+  }
+  const outputPath = path.resolve(output);
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, content, 'utf-8');
+  process.stderr.write(`Wrote ${outputPath}\n`);
 }
 
 export function registerRenderCommand(program: Command): void {
   program
     .command('render')
-    .description('Render a workflow JSON as Mermaid + execution Markdown to stdout.')
+    .description(
+      'Render a workflow JSON as Mermaid + execution Markdown, or as an SVG / HTML image of the canvas.'
+    )
     .argument('<file>', 'Path to a workflow JSON file.')
     .option<RenderFormat>(
       '-f, --format <format>',
-      'Output format: "md" (default) or "mermaid".',
+      'Output format: "md" (default), "mermaid", "svg" or "html".',
       (value): RenderFormat => {
-        if (value !== 'mermaid' && value !== 'md') {
-          throw new InvalidArgumentError("Expected 'mermaid' or 'md'.");
+        if (!RENDER_FORMATS.includes(value as RenderFormat)) {
+          throw new InvalidArgumentError("Expected 'md', 'mermaid', 'svg' or 'html'.");
         }
-        return value;
+        return value as RenderFormat;
       },
       'md'
     )
+    .option<WorkflowRenderTheme>(
+      '--theme <theme>',
+      'Colour scheme for svg / html: "light" (default) or "dark".',
+      (value): WorkflowRenderTheme => {
+        if (value !== 'light' && value !== 'dark') {
+          throw new InvalidArgumentError("Expected 'light' or 'dark'.");
+        }
+        return value;
+      },
+      'light'
+    )
+    .option('-o, --output <path>', 'Write to this file instead of stdout.')
     .action(async (file: string, options: RenderOptions) => {
       try {
         const { workflow } = await loadWorkflowFromFile(file);
+
+        if (options.format === 'svg') {
+          await writeOutput(renderWorkflowSvg(workflow, { theme: options.theme }), options.output);
+          return;
+        }
+        if (options.format === 'html') {
+          await writeOutput(renderWorkflowHtml(workflow, { theme: options.theme }), options.output);
+          return;
+        }
+
         // generateMermaidFlowchart already returns a fenced ```mermaid block.
         const mermaidBlock = generateMermaidFlowchart(workflow);
 
         if (options.format === 'mermaid') {
-          process.stdout.write(`${mermaidBlock}\n`);
+          await writeOutput(`${mermaidBlock}\n`, options.output);
           return;
         }
 
@@ -52,7 +100,10 @@ export function registerRenderCommand(program: Command): void {
         });
         const title = `# ${workflow.name || 'Workflow'}`;
         const descriptionBlock = workflow.description ? `\n${workflow.description}\n` : '\n';
-        process.stdout.write(`${title}\n${descriptionBlock}\n${mermaidBlock}\n\n${execution}\n`);
+        await writeOutput(
+          `${title}\n${descriptionBlock}\n${mermaidBlock}\n\n${execution}\n`,
+          options.output
+        );
       } catch (error) {
         if (error instanceof WorkflowLoadError) {
           process.stderr.write(`error: ${error.message}\n`);
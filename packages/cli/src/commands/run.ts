@@ -1,132 +1,173 @@
 /**
- * `ccwf run <file>` — for now, a thin wrapper over `ccwf export`.
+ * `ccwf run <file>` — execute a workflow headlessly.
  *
- * Today this just calls `runExport` and appends a "next step" hint pointing
- * the user at Claude Code (or the chosen agent). In a later phase, `run` will
- * spawn `claude` itself and let the agent perform the skill export +
- * execution. The contract for `<file>` and the flags (`--agent`, `--cwd`,
- * `--overwrite`) is intentionally identical to `ccwf export` so the future
- * change is backward-compatible.
+ * Validates the file, then hands it to core's `executeWorkflow` with a runner
+ * that performs each step. The default runner spawns `claude -p` per node
+ * (and `codex exec` for Codex nodes); `--runner dry-run` walks the graph with
+ * canned outputs so a workflow's routing can be checked without any agent.
+ *
+ * Human output is one status line per node on stdout. `--json` switches to a
+ * newline-delimited stream of `WorkflowExecutionEvent` objects instead, for
+ * CI scripts and editor integrations.
+ *
+ * Exit codes: 0 success, 1 invalid workflow or failed run, 2 load error,
+ * 127 `claude` not found on PATH.
  */
 
-import { spawn } from 'node:child_process';
 import * as path from 'node:path';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
+import {
+  type AgentRunner,
+  createScriptedAgentRunner,
+  executeWorkflow,
+  validateAIGeneratedWorkflow,
+  type WorkflowExecutionEvent,
+} from '@cc-wf-studio/core';
+import { createClaudeCliRunner } from '../run/claude-runner.js';
 import { findBinaryInPath } from '../utils/find-binary.js';
-import { WorkflowLoadError } from '../utils/load-workflow.js';
-import { asSupportedAgent, runExport } from './export.js';
+import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+
+const RUNNERS = ['claude', 'dry-run'] as const;
+type RunnerName = (typeof RUNNERS)[number];
 
 interface CommanderRunOptions {
-  agent: string;
-  overwrite: boolean;
+  runner: RunnerName;
   cwd?: string;
-  launch: boolean;
+  model?: string;
+  answer: Record<string, string>;
+  maxSteps?: number;
+  json: boolean;
+  verbose: boolean;
 }
 
-/**
- * Next-step hints, one per agent. Format is intentionally uniform:
- *   "<how to invoke the skill> in <AgentName>. If the skill isn't found,
- *    restart <AgentName> to pick up the new file."
- *
- * Most agents pick up skill files added under `<root>/skills/` automatically
- * — Claude Code documents live change detection, the CLI-based agents
- * re-read their skill directory on each invocation. The restart fallback
- * covers the case where the top-level skills directory didn't exist when
- * the agent started (Claude Code's documented gotcha) or the agent caches
- * its skill listing across sessions.
- */
-const NEXT_STEP_HINTS: Record<string, (slash: string) => string> = {
-  'claude-code': (slash) =>
-    `run \`/${slash}\` in Claude Code. If the skill isn't found, restart Claude Code to pick up the new file.`,
-  antigravity: (slash) =>
-    `trigger the "${slash}" skill in Antigravity. If the skill isn't found, restart Antigravity to pick up the new file.`,
-  codex: (slash) =>
-    `run \`$${slash}\` in Codex CLI. If the skill isn't found, restart Codex CLI to pick up the new file.`,
-  copilot: (slash) =>
-    `run \`/${slash}\` in Copilot CLI. If the skill isn't found, restart Copilot CLI to pick up the new file.`,
-  cursor: (slash) =>
-    `trigger the "${slash}" skill in Cursor. If the skill isn't found, restart Cursor to pick up the new file.`,
-  gemini: (slash) =>
-    `run \`${slash}\` in Gemini CLI. If the skill isn't found, restart Gemini CLI to pick up the new file.`,
-  'roo-code': (slash) =>
-    `run \`/${slash}\` in Zoo Code. If the skill isn't found, restart Zoo Code to pick up the new file.`,
-};
+function parseRunner(value: string): RunnerName {
+  if (!(RUNNERS as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${RUNNERS.join(', ')}.`);
+  }
+  return value as RunnerName;
+}
+
+function collectAnswer(value: string, previous: Record<string, string>): Record<string, string> {
+  const eq = value.indexOf('=');
+  if (eq <= 0) {
+    throw new InvalidArgumentError('Expected <node>=<option label>.');
+  }
+  return { ...previous, [value.slice(0, eq)]: value.slice(eq + 1) };
+}
+
+function parseMaxSteps(value: string): number {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError('Expected a positive integer.');
+  }
+  return parsed;
+}
+
+function formatEvent(event: WorkflowExecutionEvent, verbose: boolean): string | null {
+  const label = (e: { nodeName: string; nodeType: string; subAgentFlowId?: string }) =>
+    `${e.subAgentFlowId ? `${e.subAgentFlowId} › ` : ''}${e.nodeName} (${e.nodeType})`;
+
+  switch (event.type) {
+    case 'run-started':
+      return `▶ Running ${event.workflowName}`;
+    case 'node-started':
+      return event.nodeType === 'start' || event.nodeType === 'end'
+        ? null
+        : `  … ${label(event)}`;
+    case 'node-completed': {
+      if (event.nodeType === 'start' || event.nodeType === 'end') return null;
+      const line = `  ✓ ${label(event)} ${(event.durationMs / 1000).toFixed(1)}s`;
+      return verbose && event.output ? `${line}\n${indent(event.output)}` : line;
+    }
+    case 'branch-selected':
+      return `    → ${event.label}${event.source === 'preset' ? ' (--answer)' : ''}`;
+    case 'node-skipped':
+      return `  - ${label(event)} skipped: ${event.reason}`;
+    case 'node-failed':
+      return `  ✗ ${label(event)}: ${event.error}`;
+    case 'run-completed':
+      return event.status === 'succeeded'
+        ? `✓ Completed ${event.steps} step(s) in ${(event.durationMs / 1000).toFixed(1)}s`
+        : `✗ Failed after ${event.steps} step(s): ${event.error}`;
+  }
+}
+
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `      ${line}`)
+    .join('\n');
+}
 
 export function registerRunCommand(program: Command): void {
   program
     .command('run')
-    .description(
-      'Materialise the workflow (same as ccwf export) and print follow-up instructions for the target agent.'
-    )
+    .description('Execute a workflow headlessly, streaming per-node status.')
     .argument('<file>', 'Path to a workflow JSON file.')
     .option(
-      '--agent <name>',
-      'Target agent (claude-code | antigravity | codex | copilot | cursor | gemini | roo-code). roo-code targets Zoo Code, the maintained fork of the sunset Roo Code.',
-      'claude-code'
-    )
-    .option('--overwrite', 'Overwrite existing files instead of erroring.', false)
-    .option(
-      '--cwd <dir>',
-      'Output root. Defaults to process.cwd(). Useful for tests / scripted runs.'
+      '--runner <name>',
+      'How steps are performed: claude (spawn `claude -p` per node) | dry-run (walk the graph with canned outputs).',
+      parseRunner,
+      'claude'
     )
+    .option('--cwd <dir>', 'Working directory for spawned agents. Defaults to process.cwd().')
+    .option('--model <model>', 'Model for nodes that do not pin their own model.')
     .option(
-      '--launch',
-      'After writing files, also spawn the agent CLI (best-effort, claude-code only for now).',
-      false
+      '--answer <node=label>',
+      'Pre-answer an AskUserQuestion node (by node id or name). Repeatable.',
+      collectAnswer,
+      {}
     )
+    .option('--max-steps <n>', 'Abort after this many visited nodes (default 200).', parseMaxSteps)
+    .option('--json', 'Print newline-delimited execution events to stdout.', false)
+    .option('--verbose', 'Print each node output under its status line.', false)
     .action(async (file: string, options: CommanderRunOptions) => {
       try {
-        const agent = asSupportedAgent(options.agent);
-        const result = await runExport({
-          file,
-          agent,
-          overwrite: options.overwrite,
-          cwd: options.cwd,
-        });
-
-        process.stdout.write(`✓ Wrote ${result.writtenPaths.length} file(s):\n`);
-        for (const writtenPath of result.writtenPaths) {
-          process.stdout.write(`  - ${path.relative(result.rootDir, writtenPath)}\n`);
+        const { workflow, absolutePath } = await loadWorkflowFromFile(file);
+        const validation = validateAIGeneratedWorkflow(workflow);
+        if (!validation.valid) {
+          process.stderr.write(
+            `✗ ${absolutePath} has ${validation.errors.length} error(s); run \`ccwf validate\` for details.\n`
+          );
+          process.exit(1);
         }
 
-        const hint = NEXT_STEP_HINTS[agent](result.slashName);
-        // Each hint ends in its own period; no trailing dot here.
-        process.stdout.write(`\nNext: in ${result.rootDir}, ${hint}\n`);
-
-        if (options.launch) {
-          if (agent !== 'claude-code') {
-            process.stderr.write(
-              `warn: --launch is currently only supported for --agent claude-code. Skipping launch.\n`
-            );
-            return;
-          }
+        const cwd = path.resolve(options.cwd ?? process.cwd());
+        let runner: AgentRunner;
+        if (options.runner === 'dry-run') {
+          runner = createScriptedAgentRunner();
+        } else {
           const claudeBin = await findBinaryInPath('claude');
           if (!claudeBin) {
             process.stderr.write(
-              `warn: --launch requested but \`claude\` was not found on PATH. Files were written; please launch Claude Code manually and run /${result.slashName}.\n`
+              'error: `claude` was not found on PATH. Install Claude Code, or use --runner dry-run.\n'
             );
-            return;
+            process.exit(127);
           }
-          process.stdout.write(`\nLaunching: ${claudeBin} (cwd ${result.rootDir})\n`);
-          const child = spawn(claudeBin, [], {
-            cwd: result.rootDir,
-            stdio: 'inherit',
-            shell: false,
-          });
-          await new Promise<void>((resolve) => {
-            child.on('exit', (code) => {
-              if (typeof code === 'number' && code !== 0) {
-                process.exitCode = code;
-              }
-              resolve();
-            });
-            child.on('error', (error) => {
-              process.stderr.write(`error: failed to launch claude: ${error.message}\n`);
-              process.exitCode = 1;
-              resolve();
-            });
+          runner = createClaudeCliRunner({
+            claudeBin,
+            codexBin: await findBinaryInPath('codex'),
+            cwd,
+            model: options.model,
           });
         }
+
+        const onEvent = options.json
+          ? (event: WorkflowExecutionEvent) => {
+              process.stdout.write(`${JSON.stringify(event)}\n`);
+            }
+          : (event: WorkflowExecutionEvent) => {
+              const line = formatEvent(event, options.verbose);
+              if (line !== null) process.stdout.write(`${line}\n`);
+            };
+
+        const result = await executeWorkflow(workflow, {
+          runner,
+          onEvent,
+          answers: options.answer,
+          maxSteps: options.maxSteps,
+        });
+        process.exit(result.status === 'succeeded' ? 0 : 1);
       } catch (error) {
         if (error instanceof WorkflowLoadError) {
           process.stderr.write(`error: ${error.message}\n`);
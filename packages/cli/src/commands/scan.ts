@@ -0,0 +1,159 @@
+/**
+ * `ccwf scan [files...] [--redact] [--json]` — look for secrets (API keys,
+ * tokens, passwords, private keys and the project's own patterns from
+ * `ccwf.config.json`) in workflow JSON files.
+ *
+ * `--redact` rewrites each file in place, replacing every secret it can with
+ * a `${ENV_VAR}` placeholder, and lists the variables to define. Shells
+ * (hook commands) and Claude Code's MCP configuration expand those, so the
+ * exported workflow keeps working once the variables are set.
+ *
+ * Exit codes: 0 clean (or fully redacted), 1 secrets found, 2 load error.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { type SensitiveDataRedaction, redactSensitiveData } from '@cc-wf-studio/core';
+import { Command } from 'commander';
+import {
+  type LocatedFinding,
+  describeFinding,
+  loadCustomSensitivePatterns,
+  scanContent,
+} from '../export/secrets.js';
+import { expandFileArguments } from '../export/glob.js';
+import { WorkflowLoadError } from '../utils/load-workflow.js';
+
+const DEFAULT_WORKFLOW_GLOB = '.vscode/workflows/*.json';
+
+interface ScanOptions {
+  redact: boolean;
+  json: boolean;
+}
+
+interface FileScanResult {
+  file: string;
+  /** Secrets left in the file (after redaction, with `--redact`). */
+  findings: LocatedFinding[];
+  redactions: SensitiveDataRedaction[];
+}
+
+async function readWorkflowText(absolutePath: string): Promise<string> {
+  try {
+    return await fs.readFile(absolutePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new WorkflowLoadError(`File not found: ${absolutePath}`);
+    }
+    throw new WorkflowLoadError(
+      `Failed to read ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function writeTextReport(results: FileScanResult[], cwd: string): void {
+  for (const result of results) {
+    const label = path.relative(cwd, result.file) || result.file;
+    if (result.redactions.length > 0) {
+      process.stdout.write(`✓ ${label}: replaced ${result.redactions.length} secret(s):\n`);
+      for (const redaction of result.redactions) {
+        process.stdout.write(`  - \${${redaction.envVar}}  ${describeFinding(redaction)}\n`);
+      }
+    }
+    if (result.findings.length > 0) {
+      process.stdout.write(`✗ ${label}: ${result.findings.length} possible secret(s):\n`);
+      for (const finding of result.findings) {
+        process.stdout.write(`  - ${finding.line}:${finding.column}  ${describeFinding(finding)}\n`);
+      }
+    } else if (result.redactions.length === 0) {
+      process.stdout.write(`✓ ${label}: no secrets found.\n`);
+    }
+  }
+
+  const envVars = [
+    ...new Set(results.flatMap((r) => r.redactions.map((redaction) => redaction.envVar))),
+  ];
+  if (envVars.length > 0) {
+    process.stdout.write(
+      `\nSet these environment variables before running the exported workflow(s): ${envVars.join(', ')}\n`
+    );
+  }
+  if (results.some((r) => r.findings.length > 0 && r.redactions.length === 0)) {
+    process.stdout.write(
+      '\nRun `ccwf scan --redact` to replace them with ${ENV_VAR} placeholders.\n'
+    );
+  }
+}
+
+export function registerScanCommand(program: Command): void {
+  program
+    .command('scan')
+    .description(
+      'Scan workflow JSON files for secrets (API keys, tokens, passwords, ccwf.config.json patterns).'
+    )
+    .argument(
+      '[files...]',
+      `Workflow JSON file(s) or quoted glob pattern(s). Defaults to '${DEFAULT_WORKFLOW_GLOB}'.`
+    )
+    .option(
+      '--redact',
+      'Rewrite the files, replacing secrets with ${ENV_VAR} placeholders.',
+      false
+    )
+    .option('--json', 'Print the report as JSON.', false)
+    .action(async (fileArgs: string[], options: ScanOptions) => {
+      try {
+        const cwd = process.cwd();
+        let files: string[];
+        try {
+          files = await expandFileArguments(
+            fileArgs.length > 0 ? fileArgs : [DEFAULT_WORKFLOW_GLOB],
+            cwd
+          );
+        } catch (error) {
+          throw new WorkflowLoadError(error instanceof Error ? error.message : String(error));
+        }
+        const customPatterns = await loadCustomSensitivePatterns(cwd);
+
+        const results: FileScanResult[] = [];
+        for (const file of files) {
+          const absolutePath = path.resolve(file);
+          let content = await readWorkflowText(absolutePath);
+          let redactions: SensitiveDataRedaction[] = [];
+          if (options.redact) {
+            ({ content, redactions } = redactSensitiveData(content, { customPatterns }));
+            if (redactions.length > 0) {
+              await fs.writeFile(absolutePath, content, 'utf-8');
+            }
+          }
+          results.push({
+            file: absolutePath,
+            findings: scanContent(content, customPatterns),
+            redactions,
+          });
+        }
+
+        if (options.json) {
+          const report = {
+            ok: results.every((r) => r.findings.length === 0),
+            files: results.map((r) => ({
+              file: path.relative(cwd, r.file) || r.file,
+              findings: r.findings.map(({ position: _position, context: _context, ...f }) => f),
+              ...(options.redact ? { redactions: r.redactions } : {}),
+            })),
+          };
+          process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+        } else {
+          writeTextReport(results, cwd);
+        }
+
+        process.exit(results.some((r) => r.findings.length > 0) ? 1 : 0);
+      } catch (error) {
+        if (error instanceof WorkflowLoadError) {
+          process.stderr.write(`error: ${error.message}\n`);
+          process.exit(error.exitCode);
+        }
+        throw error;
+      }
+    });
+}
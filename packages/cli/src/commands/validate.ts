@@ -2,21 +2,49 @@
  * `ccwf validate <file>` — schema-check a workflow JSON file.
  *
  * Default output is a human-readable error list on stderr; exit 0 on pass,
- * exit 1 on validation failure. `--json` prints the raw `ValidationResult`
- * to stdout for CI scripting (still exit 0/1 by `valid` flag).
+ * exit 1 on validation failure. Warnings (e.g. nodes unreachable from Start)
+ * are listed after the errors and never change the exit code. `--json`
+ * prints the raw `ValidationResult` to stdout for CI scripting (still exit
+ * 0/1 by `valid` flag).
+ *
+ * When `ccwf.mcp-lock.json` (written by `ccwf mcp-snapshot`) is in the
+ * current directory, or `--mcp-snapshot <file>` names one, MCP nodes are
+ * also checked against the recorded servers, tools and parameter schemas.
  */
 
+import * as path from 'node:path';
+
 import { Command } from 'commander';
-import { type ValidationError, validateAIGeneratedWorkflow } from '@cc-wf-studio/core';
+import {
+  MCP_SNAPSHOT_FILE,
+  type ValidationError,
+  type ValidationResult,
+  checkMcpNodesAgainstSnapshot,
+  validateAIGeneratedWorkflow,
+} from '@cc-wf-studio/core';
 import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+import { readMcpSnapshot } from '../utils/mcp-snapshot.js';
 
 interface ValidateOptions {
   json?: boolean;
+  mcpSnapshot?: string;
 }
 
 function formatError(err: ValidationError): string {
-  const fieldSuffix = err.field ? ` (field: ${err.field})` : '';
-  return `  - [${err.code}] ${err.message}${fieldSuffix}`;
+  const suffix = err.nodeId
+    ? ` (node: ${err.nodeId})`
+    : err.field
+      ? ` (field: ${err.field})`
+      : '';
+  return `  - [${err.code}] ${err.message}${suffix}`;
+}
+
+function writeWarnings(warnings: ValidationError[]): void {
+  if (warnings.length === 0) return;
+  process.stderr.write(`${warnings.length} warning(s):\n`);
+  for (const warning of warnings) {
+    process.stderr.write(`${formatError(warning)}\n`);
+  }
 }
 
 export function registerValidateCommand(program: Command): void {
@@ -25,20 +53,41 @@ export function registerValidateCommand(program: Command): void {
     .description('Validate a workflow JSON file against the cc-wf-studio schema.')
     .argument('<file>', 'Path to a workflow JSON file.')
     .option('--json', 'Print the raw ValidationResult JSON to stdout.', false)
+    .option(
+      '--mcp-snapshot <file>',
+      `Check MCP nodes against this lockfile. Defaults to ./${MCP_SNAPSHOT_FILE} when present.`
+    )
     .action(async (file: string, options: ValidateOptions) => {
       try {
         const { workflow, absolutePath } = await loadWorkflowFromFile(file);
-        const result = validateAIGeneratedWorkflow(workflow);
+        let result: ValidationResult = validateAIGeneratedWorkflow(workflow);
+
+        const snapshotPath = path.resolve(options.mcpSnapshot ?? MCP_SNAPSHOT_FILE);
+        const snapshot = await readMcpSnapshot(snapshotPath);
+        if (!snapshot && options.mcpSnapshot) {
+          throw new WorkflowLoadError(`File not found: ${snapshotPath}`);
+        }
+        if (snapshot) {
+          const mcp = checkMcpNodesAgainstSnapshot(workflow, snapshot);
+          result = {
+            ...result,
+            valid: result.valid && mcp.errors.length === 0,
+            errors: [...result.errors, ...mcp.errors],
+            warnings: [...result.warnings, ...mcp.warnings],
+          };
+        }
 
         if (options.json) {
           process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
         } else if (result.valid) {
           process.stdout.write(`✓ ${absolutePath} is valid.\n`);
+          writeWarnings(result.warnings);
         } else {
           process.stderr.write(`✗ ${absolutePath} has ${result.errors.length} error(s):\n`);
           for (const err of result.errors) {
             process.stderr.write(`${formatError(err)}\n`);
           }
+          writeWarnings(result.warnings);
         }
 
         process.exit(result.valid ? 0 : 1);
@@ -0,0 +1,207 @@
+/**
+ * Multi-workflow export for `ccwf export <files...>` and `--watch`.
+ *
+ * Every workflow is planned before anything is written, so two workflows
+ * that would write the same output path (same skill name, same Sub-Agent
+ * file) are caught up front; both are skipped and reported. The remaining
+ * workflows export independently: a load error, possible secret or
+ * existing-file conflict in one does not stop the others. Existing files
+ * that are ccwf's unedited output are not conflicts; `onEdit` settles the
+ * rest (see `./edits.ts`).
+ */
+
+import * as path from 'node:path';
+import type { CustomSensitivePattern } from '@cc-wf-studio/core';
+import {
+  type EditAction,
+  type EditResolution,
+  findExportConflicts,
+  resolveExportConflicts,
+} from './edits.js';
+import {
+  type ExportAgent,
+  type WorkflowExportPlan,
+  planWorkflowExport,
+  writePlannedFiles,
+} from './plan.js';
+import { type PlannedFileFinding, scanPlannedFiles } from './secrets.js';
+
+export interface BatchExportOptions {
+  agent: ExportAgent;
+  overwrite: boolean;
+  /** What to do with existing files that are not ccwf's unedited output. */
+  onEdit?: EditAction;
+  /** Output root (absolute). */
+  rootDir: string;
+  /**
+   * Absolute paths written earlier by this process, keyed by workflow file.
+   * A workflow may overwrite its own previous output without `--overwrite`.
+   */
+  ownedPaths?: ReadonlyMap<string, ReadonlySet<string>>;
+  /**
+   * Output paths (relative to `rootDir`) claimed by workflows outside this
+   * batch, mapped to the claiming workflow file. Used by watch mode when a
+   * single workflow is re-exported.
+   */
+  claimedPaths?: ReadonlyMap<string, string>;
+  /** Project secret patterns (`ccwf.config.json`), checked with the built-in ones. */
+  customPatterns?: CustomSensitivePattern[];
+  /** Write files that contain possible secrets instead of skipping the workflow. */
+  allowSecrets?: boolean;
+}
+
+export interface BatchExportEntry {
+  /** Absolute path of the workflow JSON. */
+  file: string;
+  workflowName?: string;
+  /** Relative output paths this workflow plans to write. */
+  plannedPaths: string[];
+  /** Absolute paths written; empty when the workflow was skipped. */
+  writtenPaths: string[];
+  warnings: string[];
+  /** Possible secrets that kept this workflow from being written. */
+  secrets?: PlannedFileFinding[];
+  /** How edited files were handled; unset when there were none. */
+  edits?: EditResolution;
+  /** Why nothing was written for this workflow. */
+  error?: string;
+}
+
+export interface PathCollision {
+  /** Output path relative to the output root. */
+  relativePath: string;
+  /** Absolute paths of the workflow files that would write it. */
+  files: string[];
+}
+
+export interface BatchExportResult {
+  entries: BatchExportEntry[];
+  collisions: PathCollision[];
+}
+
+export async function exportWorkflowBatch(
+  files: string[],
+  options: BatchExportOptions
+): Promise<BatchExportResult> {
+  const entries: BatchExportEntry[] = [];
+  const plans = new Map<BatchExportEntry, WorkflowExportPlan>();
+
+  for (const file of files) {
+    try {
+      const plan = await planWorkflowExport(file, options.agent);
+      const entry: BatchExportEntry = {
+        file: plan.absolutePath,
+        workflowName: plan.workflow.name,
+        plannedPaths: plan.files.map((f) => f.relativePath),
+        writtenPaths: [],
+        warnings: plan.warnings,
+      };
+      entries.push(entry);
+      plans.set(entry, plan);
+    } catch (error) {
+      entries.push({
+        file: path.resolve(file),
+        plannedPaths: [],
+        writtenPaths: [],
+        warnings: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const collisions = findPathCollisions(entries, options.claimedPaths);
+  for (const collision of collisions) {
+    for (const entry of entries) {
+      if (!plans.has(entry) || !collision.files.includes(entry.file)) continue;
+      const others = collision.files.filter((f) => f !== entry.file);
+      entry.error = `${collision.relativePath} is also written by ${others.map((f) => path.basename(f)).join(', ')}`;
+      plans.delete(entry);
+    }
+  }
+
+  for (const [entry, plan] of plans) {
+    if (!options.allowSecrets) {
+      const secrets = scanPlannedFiles(plan.files, options.customPatterns ?? []);
+      if (secrets.length > 0) {
+        entry.secrets = secrets;
+        entry.error = `${secrets.length} possible secret(s) in the exported files; pass --allow-secrets to write them anyway`;
+        continue;
+      }
+    }
+    const conflicts = options.overwrite
+      ? []
+      : await findExportConflicts(options.rootDir, plan.files, options.ownedPaths?.get(entry.file));
+    let files = plan.files;
+    if (conflicts.length > 0) {
+      if (!options.onEdit) {
+        entry.error = `${conflicts.length} existing file(s) edited or not written by ccwf; pass --on-edit keep|overwrite|pull or --overwrite`;
+        continue;
+      }
+      const edits = await resolveExportConflicts(plan, conflicts, options.onEdit, options.agent, {
+        customPatterns: options.customPatterns,
+        allowSecrets: options.allowSecrets,
+      });
+      if (edits.secrets) {
+        entry.secrets = edits.secrets;
+        entry.error = `${edits.secrets.length} possible secret(s) in the pulled edits; remove them from the edited files or pass --allow-secrets`;
+        continue;
+      }
+      entry.edits = edits;
+      files = edits.files;
+    }
+    entry.writtenPaths = await writePlannedFiles(options.rootDir, files);
+  }
+
+  return { entries, collisions };
+}
+
+/**
+ * Output paths planned by more than one workflow. `claimedPaths` adds
+ * claims from workflows outside `entries`.
+ */
+export function findPathCollisions(
+  entries: BatchExportEntry[],
+  claimedPaths: ReadonlyMap<string, string> = new Map()
+): PathCollision[] {
+  const owners = new Map<string, string[]>();
+  for (const entry of entries) {
+    for (const relativePath of entry.plannedPaths) {
+      const files = owners.get(relativePath) ?? [];
+      if (!files.includes(entry.file)) files.push(entry.file);
+      owners.set(relativePath, files);
+    }
+  }
+  for (const [relativePath, file] of claimedPaths) {
+    const files = owners.get(relativePath);
+    if (files && !files.includes(file)) files.push(file);
+  }
+
+  return [...owners]
+    .filter(([, files]) => files.length > 1)
+    .map(([relativePath, files]) => ({ relativePath, files }));
+}
+
+/**
+ * Plain-text summary table: one row per workflow with its file (relative to
+ * `cwd`), the number of files written and the outcome.
+ */
+export function formatBatchSummary(entries: BatchExportEntry[], cwd: string): string {
+  const rows = entries.map((entry) => [
+    entry.workflowName ?? '-',
+    path.relative(cwd, entry.file) || entry.file,
+    String(entry.writtenPaths.length),
+    entry.error ? `✗ ${entry.error}` : '✓ exported',
+  ]);
+  const header = ['Workflow', 'File', 'Files', 'Status'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column])))
+      .join('  ');
+
+  return [formatRow(header), formatRow(widths.map((w) => '-'.repeat(w))), ...rows.map(formatRow)]
+    .map((line) => line.trimEnd())
+    .join('\n');
+}
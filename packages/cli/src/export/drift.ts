@@ -0,0 +1,260 @@
+/**
+ * Export drift detection for `ccwf check`.
+ *
+ * Re-plans every workflow for each agent and compares the plan with what is
+ * on disk. Planned files that are absent are `missing`, planned files whose
+ * contents differ are `stale` — or `edited` when their content-hash marker
+ * shows a hand edit since export; `--fix` leaves those to
+ * `ccwf export --on-edit`. When asked to (`orphans`), generated files in an
+ * agent's skills / agents directories that no workflow plans any more are
+ * `orphaned`. Only files carrying the content-hash marker count as
+ * generated, so hand-written files are never reported; an orphan whose
+ * marker shows a hand edit is reported but never deleted.
+ */
+
+import type { Dirent } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  type AgentSkillProvider,
+  CLAUDE_CODE_EXPORT_DIRS,
+  type PlannedExportFile,
+  agentSkillOutputDirs,
+  customTargetOutputDirs,
+  inspectExportedFile,
+} from '@cc-wf-studio/core';
+import {
+  CLAUDE_CODE_AGENT,
+  type ExportAgent,
+  planWorkflowExport,
+  resolvePlanned,
+} from './plan.js';
+
+export type DriftStatus = 'missing' | 'stale' | 'edited' | 'orphaned';
+
+export interface DriftEntry {
+  status: DriftStatus;
+  /** Output path relative to the output root (always `/`-separated). */
+  relativePath: string;
+  /** Absolute path of the workflow that plans this file; unset for orphans. */
+  workflowFile?: string;
+  /** Planned contents; unset for orphans. */
+  contents?: string;
+  /** Orphans only: the marker shows a hand edit, so `--fix` keeps the file. */
+  edited?: boolean;
+}
+
+export interface DriftLoadError {
+  /** Absolute path of the workflow JSON. */
+  file: string;
+  message: string;
+}
+
+export interface DriftReport {
+  /** Number of workflows planned successfully. */
+  workflowCount: number;
+  /** Number of distinct planned files. */
+  plannedCount: number;
+  drift: DriftEntry[];
+  loadErrors: DriftLoadError[];
+}
+
+interface PlannedOutput {
+  file: PlannedExportFile;
+  workflowFile: string;
+}
+
+export interface CheckExportDriftOptions {
+  /**
+   * Also report generated files no workflow in `files` plans. Only correct
+   * when `files` covers every workflow of the project.
+   */
+  orphans?: boolean;
+}
+
+/**
+ * Compare the export plan of `files` for every agent in `agents` against
+ * the files under `rootDir`.
+ */
+export async function checkExportDrift(
+  files: string[],
+  agents: ExportAgent[],
+  rootDir: string,
+  options: CheckExportDriftOptions = {}
+): Promise<DriftReport> {
+  const planned = new Map<string, PlannedOutput>();
+  const loadErrors: DriftLoadError[] = [];
+  const loadedWorkflows = new Set<string>();
+
+  for (const file of files) {
+    for (const agent of agents) {
+      try {
+        const plan = await planWorkflowExport(file, agent);
+        loadedWorkflows.add(plan.absolutePath);
+        for (const plannedFile of plan.files) {
+          if (!planned.has(plannedFile.relativePath)) {
+            planned.set(plannedFile.relativePath, {
+              file: plannedFile,
+              workflowFile: plan.absolutePath,
+            });
+          }
+        }
+      } catch (error) {
+        // A broken workflow fails the same way for every agent; report it once.
+        loadErrors.push({
+          file: path.resolve(file),
+          message: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+    }
+  }
+
+  const drift: DriftEntry[] = [];
+  for (const [relativePath, { file, workflowFile }] of planned) {
+    const onDisk = await readIfExists(resolvePlanned(rootDir, file));
+    if (onDisk === undefined) {
+      drift.push({ status: 'missing', relativePath, workflowFile, contents: file.contents });
+    } else if (normalizeLineEndings(onDisk) !== normalizeLineEndings(file.contents)) {
+      const status = inspectExportedFile(onDisk) === 'edited' ? 'edited' : 'stale';
+      drift.push({ status, relativePath, workflowFile, contents: file.contents });
+    }
+  }
+
+  // Orphans can only be judged when every workflow loaded: a file planned by
+  // a broken workflow would otherwise look orphaned.
+  if (options.orphans && loadErrors.length === 0) {
+    for (const { relativePath, edited } of await findGeneratedFiles(rootDir, agents)) {
+      if (!planned.has(relativePath)) {
+        drift.push({ status: 'orphaned', relativePath, ...(edited ? { edited } : {}) });
+      }
+    }
+  }
+
+  drift.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  return {
+    workflowCount: loadedWorkflows.size,
+    plannedCount: planned.size,
+    drift,
+    loadErrors,
+  };
+}
+
+/** Whether `fixExportDrift` leaves the entry alone: a hand-edited file. */
+export function isEditedDrift(entry: DriftEntry): boolean {
+  return entry.status === 'edited' || entry.edited === true;
+}
+
+/**
+ * Bring the output root in line with the plan: write missing and stale
+ * files, delete orphaned ones (and the skill directory an orphaned SKILL.md
+ * leaves empty). Hand-edited files are left alone.
+ */
+export async function fixExportDrift(rootDir: string, drift: DriftEntry[]): Promise<void> {
+  for (const entry of drift) {
+    if (isEditedDrift(entry)) continue;
+    const absPath = path.join(rootDir, ...entry.relativePath.split('/'));
+    if (entry.status === 'orphaned') {
+      await fs.rm(absPath, { force: true });
+      if (path.basename(absPath) === 'SKILL.md') {
+        await removeIfEmpty(path.dirname(absPath));
+      }
+      continue;
+    }
+    await fs.mkdir(path.dirname(absPath), { recursive: true });
+    await fs.writeFile(absPath, entry.contents ?? '', 'utf-8');
+  }
+}
+
+/** Where to look for generated files, relative to the output root. */
+function generatedFileLocations(agents: ExportAgent[]): {
+  /** `<dir>/<name>/<fileName>` skill files. */
+  skillLayouts: Array<{ dir: string; fileName: string }>;
+  flatDirs: string[];
+} {
+  const skillLayouts = new Map<string, { dir: string; fileName: string }>();
+  const flatDirs = new Set<string>();
+  const addSkillLayout = (dir: string, fileName: string): void => {
+    skillLayouts.set(`${dir}/${fileName}`, { dir, fileName });
+  };
+  for (const agent of agents) {
+    if (agent === CLAUDE_CODE_AGENT) {
+      addSkillLayout(CLAUDE_CODE_EXPORT_DIRS.skillsDir, 'SKILL.md');
+      flatDirs.add(CLAUDE_CODE_EXPORT_DIRS.agentsDir);
+      flatDirs.add(CLAUDE_CODE_EXPORT_DIRS.legacyCommandsDir);
+      continue;
+    }
+    if (typeof agent !== 'string') {
+      // Custom skill paths of another shape are not scanned for orphans.
+      const dirs = customTargetOutputDirs(agent);
+      if (dirs.skillsDir && dirs.skillFileName) addSkillLayout(dirs.skillsDir, dirs.skillFileName);
+      if (dirs.agentsDir) flatDirs.add(dirs.agentsDir);
+      continue;
+    }
+    const dirs = agentSkillOutputDirs(agent as AgentSkillProvider);
+    addSkillLayout(dirs.skillsDir, 'SKILL.md');
+    if (dirs.agentsDir) flatDirs.add(dirs.agentsDir);
+  }
+  return { skillLayouts: [...skillLayouts.values()], flatDirs: [...flatDirs] };
+}
+
+/**
+ * Generated files: `<skillsDir>/<name>/SKILL.md` (or a custom target's file
+ * name) and `<flatDir>/*.md` that carry the content-hash marker.
+ */
+async function findGeneratedFiles(
+  rootDir: string,
+  agents: ExportAgent[]
+): Promise<Array<{ relativePath: string; edited: boolean }>> {
+  const { skillLayouts, flatDirs } = generatedFileLocations(agents);
+  const candidates: string[] = [];
+
+  for (const { dir, fileName } of skillLayouts) {
+    for (const entry of await readDirectory(path.join(rootDir, ...dir.split('/')))) {
+      if (entry.isDirectory()) candidates.push(`${dir}/${entry.name}/${fileName}`);
+    }
+  }
+  for (const flatDir of flatDirs) {
+    for (const entry of await readDirectory(path.join(rootDir, ...flatDir.split('/')))) {
+      if (entry.isFile() && entry.name.endsWith('.md')) {
+        candidates.push(`${flatDir}/${entry.name}`);
+      }
+    }
+  }
+
+  const generated: Array<{ relativePath: string; edited: boolean }> = [];
+  for (const relativePath of candidates) {
+    const contents = await readIfExists(path.join(rootDir, ...relativePath.split('/')));
+    const state = contents === undefined ? 'unmarked' : inspectExportedFile(contents);
+    if (state !== 'unmarked') generated.push({ relativePath, edited: state === 'edited' });
+  }
+  return generated;
+}
+
+// Git may check files out with CRLF on Windows; that is not drift.
+function normalizeLineEndings(value: string): string {
+  return value.replace(/\r\n/g, '\n');
+}
+
+async function readIfExists(absPath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(absPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+async function readDirectory(dir: string): Promise<Dirent[]> {
+  try {
+    return await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+async function removeIfEmpty(dir: string): Promise<void> {
+  if ((await readDirectory(dir)).length === 0) {
+    await fs.rmdir(dir);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Hand-edited export files, for `ccwf export --on-edit`.
+ *
+ * Exported files end with a content-hash marker (see core's
+ * `export-marker`). A file on disk whose marker still matches is ccwf's own
+ * output and is replaced freely. Any other existing file — `edited` since
+ * export, or `unmarked` (exported before markers, or written by hand) — is a
+ * conflict, resolved with one of:
+ *
+ * - `keep` — leave the file alone and write the rest.
+ * - `overwrite` — replace it (what `--overwrite` does for every file).
+ * - `pull` — copy the edits into the workflow JSON (Sub-Agent
+ *   `agentDefinition` / `description` / `tools` / `model`, Prompt node
+ *   `prompt`), save it, and export from the updated workflow. A file with
+ *   edits the workflow cannot hold (diagram, execution guide wording, …) is
+ *   left alone rather than losing them. The pulled text and the re-planned
+ *   files are checked for secrets first; with findings nothing is written.
+ */
+
+import * as fs from 'node:fs/promises';
+import {
+  type CustomSensitivePattern,
+  type PlannedExportFile,
+  type Workflow,
+  inspectExportedFile,
+  pullBackExportEdits,
+} from '@cc-wf-studio/core';
+import {
+  type ExportAgent,
+  type WorkflowExportPlan,
+  planAgentFiles,
+  resolvePlanned,
+} from './plan.js';
+import { type PlannedFileFinding, scanContent, scanPlannedFiles } from './secrets.js';
+
+export const EDIT_ACTIONS = ['keep', 'overwrite', 'pull'] as const;
+export type EditAction = (typeof EDIT_ACTIONS)[number];
+
+export interface ExportConflict {
+  planned: PlannedExportFile;
+  absPath: string;
+  state: 'edited' | 'unmarked';
+  /** Contents on disk. */
+  contents: string;
+}
+
+export interface EditResolution {
+  /** Files to write. */
+  files: PlannedExportFile[];
+  /** Absolute paths left as they are (`keep`). */
+  kept: string[];
+  /** Fields pulled back into the workflow (`pull`), e.g. `reviewer: agentDefinition`. */
+  pulled: string[];
+  /**
+   * Absolute paths with edits that could not all be pulled back (`pull`);
+   * left as they are, like `kept`.
+   */
+  incomplete: string[];
+  /**
+   * Possible secrets in the pulled edits or the files re-planned from them
+   * (`pull`). When set, neither the workflow nor any file was written.
+   */
+  secrets?: PlannedFileFinding[];
+}
+
+export interface ResolveExportConflictsOptions {
+  /** Project secret patterns (`ccwf.config.json`), checked with the built-in ones. */
+  customPatterns?: CustomSensitivePattern[];
+  /** Save pulled edits that contain possible secrets. */
+  allowSecrets?: boolean;
+}
+
+/**
+ * Planned files that exist on disk and are not ccwf's unedited output,
+ * except those in `owned` (files this process wrote earlier, e.g. in watch
+ * mode).
+ */
+export async function findExportConflicts(
+  rootDir: string,
+  files: PlannedExportFile[],
+  owned: ReadonlySet<string> = new Set()
+): Promise<ExportConflict[]> {
+  const conflicts: ExportConflict[] = [];
+  for (const planned of files) {
+    const absPath = resolvePlanned(rootDir, planned);
+    if (owned.has(absPath)) continue;
+    const contents = await readIfExists(absPath);
+    if (contents === undefined) continue;
+    const state = inspectExportedFile(contents);
+    if (state !== 'unchanged') conflicts.push({ planned, absPath, state, contents });
+  }
+  return conflicts;
+}
+
+export function describeConflict(conflict: ExportConflict): string {
+  return `${conflict.absPath}  (${conflict.state === 'edited' ? 'edited since export' : 'not written by ccwf'})`;
+}
+
+/**
+ * Apply `action` to the conflicting files of `plan`. `pull` writes the
+ * updated workflow back to `plan.absolutePath` when anything was pulled and
+ * no secret was found in the pulled edits (unless `allowSecrets`).
+ */
+export async function resolveExportConflicts(
+  plan: WorkflowExportPlan,
+  conflicts: ExportConflict[],
+  action: EditAction,
+  agent: ExportAgent,
+  options: ResolveExportConflictsOptions = {}
+): Promise<EditResolution> {
+  if (action === 'overwrite') {
+    return { files: plan.files, kept: [], pulled: [], incomplete: [] };
+  }
+  if (action === 'keep') {
+    const kept = new Set(conflicts.map((c) => c.planned.relativePath));
+    return {
+      files: plan.files.filter((f) => !kept.has(f.relativePath)),
+      kept: conflicts.map((c) => c.absPath),
+      pulled: [],
+      incomplete: [],
+    };
+  }
+
+  const replan = (workflow: Workflow) => planAgentFiles(workflow, agent).files;
+  let workflow = plan.workflow;
+  const pulled: string[] = [];
+  const pulledSecrets: PlannedFileFinding[] = [];
+  const incomplete = new Map<string, string>();
+  for (const conflict of conflicts) {
+    // Compare against the plan of the workflow as updated so far
+    const planned = replan(workflow).find((f) => f.relativePath === conflict.planned.relativePath);
+    if (!planned) continue;
+    const result = pullBackExportEdits(workflow, planned, conflict.contents, replan);
+    workflow = result.workflow;
+    pulled.push(...result.pulled);
+    if (!options.allowSecrets) {
+      pulledSecrets.push(...scanPulledValues(conflict, result.pulledValues, options));
+    }
+    if (!result.complete) incomplete.set(conflict.planned.relativePath, conflict.absPath);
+  }
+
+  const files = replan(workflow).filter((f) => !incomplete.has(f.relativePath));
+  if (!options.allowSecrets) {
+    const secrets = dedupeFindings([
+      ...pulledSecrets,
+      ...scanPlannedFiles(files, options.customPatterns ?? []),
+    ]);
+    if (secrets.length > 0) {
+      return { files: [], kept: [], pulled: [], incomplete: [], secrets };
+    }
+  }
+
+  if (pulled.length > 0) {
+    workflow = { ...workflow, updatedAt: new Date() };
+    await fs.writeFile(plan.absolutePath, `${JSON.stringify(workflow, null, 2)}\n`, 'utf-8');
+  }
+  return {
+    files,
+    kept: [],
+    pulled,
+    incomplete: [...incomplete.values()],
+  };
+}
+
+/**
+ * Possible secrets in the text pulled from `conflict`, located in the edited
+ * file on disk so the report points at the line the user wrote.
+ */
+function scanPulledValues(
+  conflict: ExportConflict,
+  values: string[],
+  options: ResolveExportConflictsOptions
+): PlannedFileFinding[] {
+  const customPatterns = options.customPatterns ?? [];
+  const inValues = values.flatMap((value) => scanContent(value, customPatterns));
+  if (inValues.length === 0) return [];
+  return scanContent(conflict.contents, customPatterns)
+    .filter((finding) =>
+      inValues.some((f) => f.type === finding.type && f.maskedValue === finding.maskedValue)
+    )
+    .map((finding) => ({ relativePath: conflict.planned.relativePath, finding }));
+}
+
+/** One finding per file and value: a pulled secret also shows up in its re-planned file. */
+function dedupeFindings(findings: PlannedFileFinding[]): PlannedFileFinding[] {
+  const seen = new Set<string>();
+  return findings.filter(({ relativePath, finding }) => {
+    const key = `${relativePath}\0${finding.type}\0${finding.maskedValue}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+async function readIfExists(absPath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(absPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Minimal glob expansion for `ccwf export <files...>`.
+ *
+ * Shells expand unquoted patterns themselves; this covers quoted patterns
+ * (`ccwf export 'workflows/*.json'`) and shells without globbing. Supported
+ * syntax: `*` and `?` within a path segment, `**` for any number of
+ * directories. `node_modules` and dot-directories are skipped unless the
+ * pattern names them explicitly. Arguments without glob characters pass
+ * through unchanged (missing files are reported by the loader).
+ */
+
+import type { Dirent } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+const GLOB_CHARS = /[*?]/;
+
+export function isGlobPattern(value: string): boolean {
+  return GLOB_CHARS.test(value);
+}
+
+/**
+ * Expand each argument to absolute file paths, in argument order with
+ * duplicates removed. Throws when a pattern matches nothing.
+ */
+export async function expandFileArguments(args: string[], cwd: string): Promise<string[]> {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  const add = (file: string) => {
+    if (seen.has(file)) return;
+    seen.add(file);
+    result.push(file);
+  };
+
+  for (const arg of args) {
+    if (!isGlobPattern(arg)) {
+      add(path.resolve(cwd, arg));
+      continue;
+    }
+    const matches = await expandPattern(arg, cwd);
+    if (matches.length === 0) {
+      throw new Error(`No files match ${arg}`);
+    }
+    for (const match of matches) add(match);
+  }
+
+  return result;
+}
+
+async function expandPattern(pattern: string, cwd: string): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join('/');
+  const isAbsolute = path.isAbsolute(pattern);
+  const segments = normalized.split('/').filter((s, i) => s !== '' || (i === 0 && isAbsolute));
+
+  // Leading literal segments form the base directory.
+  let base = isAbsolute ? path.parse(path.resolve(pattern)).root : cwd;
+  let index = isAbsolute ? 1 : 0;
+  while (index < segments.length - 1 && !isGlobPattern(segments[index])) {
+    base = path.join(base, segments[index]);
+    index++;
+  }
+
+  const matches: string[] = [];
+  await walk(base, segments.slice(index), matches);
+  return matches.sort();
+}
+
+async function walk(dir: string, segments: string[], matches: string[]): Promise<void> {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) return;
+
+  if (segment === '**') {
+    // Zero directories, then one more level with `**` still pending.
+    await walk(dir, rest, matches);
+    for (const entry of await readDirectory(dir)) {
+      if (entry.isDirectory() && !isSkippedDirectory(entry.name, rest[0])) {
+        await walk(path.join(dir, entry.name), segments, matches);
+      }
+    }
+    return;
+  }
+
+  if (segment === '.' || segment === '..') {
+    await walk(path.join(dir, segment), rest, matches);
+    return;
+  }
+
+  const matcher = segmentToRegExp(segment);
+  for (const entry of await readDirectory(dir)) {
+    if (!matcher.test(entry.name)) continue;
+    if (entry.name.startsWith('.') && !segment.startsWith('.')) continue;
+    const entryPath = path.join(dir, entry.name);
+    if (rest.length === 0) {
+      if (entry.isFile()) matches.push(entryPath);
+    } else if (entry.isDirectory()) {
+      await walk(entryPath, rest, matches);
+    }
+  }
+}
+
+function isSkippedDirectory(name: string, nextSegment: string | undefined): boolean {
+  if (nextSegment === name) return false;
+  return name === 'node_modules' || name.startsWith('.');
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  const source = segment
+    .split('')
+    .map((ch) => {
+      if (ch === '*') return '[^/]*';
+      if (ch === '?') return '[^/]';
+      return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+async function readDirectory(dir: string): Promise<Dirent[]> {
+  try {
+    return await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
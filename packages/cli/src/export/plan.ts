@@ -0,0 +1,158 @@
+/**
+ * Export planning shared by single-file, batch and watch exports.
+ *
+ * `--agent claude-code` (default) uses the canonical `planWorkflowExportFiles`
+ * (Sub-Agent files under `.claude/agents/` + workflow entry at
+ * `.claude/skills/<workflow>.md`). Other agents (antigravity / codex /
+ * copilot / cursor / gemini / roo-code) use `planAgentSkillFiles`, which
+ * emits the provider's own `<root>/skills/<workflow>/SKILL.md` (plus
+ * `.cursor/agents/*.md` for Cursor). Any other `--agent` name must be a
+ * custom target declared under `exportTargets` in `ccwf.config.json`, planned
+ * by `planCustomTargetFiles`.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  type AgentSkillProvider,
+  type CustomExportTarget,
+  type PlannedExportFile,
+  collectIgnoredFieldWarnings,
+  collectParallelFallbackWarnings,
+  customTargetDisplayName,
+  exportProviderToTarget,
+  getCustomExportTargets,
+  nodeNameToFileName,
+  planAgentSkillFiles,
+  planCustomTargetFiles,
+  planWorkflowExportFiles,
+  type Workflow,
+  workflowContainsClaudeCodeOnlyNodes,
+} from '@cc-wf-studio/core';
+import { WorkflowLoadError, loadWorkflowFromFile } from '../utils/load-workflow.js';
+import { loadProjectConfig } from '../utils/project-config.js';
+
+export const CLAUDE_CODE_AGENT = 'claude-code' as const;
+export const SUPPORTED_AGENTS = [
+  CLAUDE_CODE_AGENT,
+  'antigravity',
+  'codex',
+  'copilot',
+  'cursor',
+  'gemini',
+  'roo-code',
+] as const;
+export type SupportedAgent = (typeof SUPPORTED_AGENTS)[number];
+
+/** A built-in agent, or a custom target from `ccwf.config.json`. */
+export type ExportAgent = SupportedAgent | CustomExportTarget;
+
+/** The name an agent goes by on the command line and in messages. */
+export function exportAgentId(agent: ExportAgent): string {
+  return typeof agent === 'string' ? agent : agent.id;
+}
+
+/**
+ * Resolve an `--agent` value: a built-in agent, else a custom target from
+ * `<rootDir>/ccwf.config.json`. Throws `WorkflowLoadError` for unknown names
+ * and invalid configs.
+ */
+export async function resolveExportAgent(name: string, rootDir: string): Promise<ExportAgent> {
+  if ((SUPPORTED_AGENTS as readonly string[]).includes(name)) {
+    return name as SupportedAgent;
+  }
+  const customTargets = getCustomExportTargets(await loadProjectConfig(rootDir));
+  const target = customTargets.find((t) => t.id === name);
+  if (!target) {
+    const custom = customTargets.map((t) => t.id);
+    throw new WorkflowLoadError(
+      `Unknown agent "${name}". Expected one of: ${[...SUPPORTED_AGENTS, ...custom].join(', ')}${custom.length === 0 ? ' (or a custom target under "exportTargets" in ccwf.config.json)' : ''}.`
+    );
+  }
+  return target;
+}
+
+export interface WorkflowExportPlan {
+  /** Absolute path of the workflow JSON. */
+  absolutePath: string;
+  workflow: Workflow;
+  /** Files to write, relative to the output root. */
+  files: PlannedExportFile[];
+  /** Export warnings for this agent (no `warning:` prefix). */
+  warnings: string[];
+  /** Slash command name (used for the `run` follow-up hint). */
+  slashName: string;
+}
+
+/**
+ * Load `file` and plan its export for `agent`. Throws `WorkflowLoadError`
+ * for `<file>` issues.
+ */
+export async function planWorkflowExport(
+  file: string,
+  agent: ExportAgent
+): Promise<WorkflowExportPlan> {
+  const { workflow, absolutePath } = await loadWorkflowFromFile(file);
+  const { files, warnings } = planAgentFiles(workflow, agent);
+  return {
+    absolutePath,
+    workflow,
+    files,
+    warnings,
+    slashName: nodeNameToFileName(workflow.name),
+  };
+}
+
+/** Plan an already-loaded workflow's export for `agent`. Pure. */
+export function planAgentFiles(
+  workflow: Workflow,
+  agent: ExportAgent
+): { files: PlannedExportFile[]; warnings: string[] } {
+  const warnings: string[] = [];
+  if (agent !== CLAUDE_CODE_AGENT && workflowContainsClaudeCodeOnlyNodes(workflow)) {
+    const agentName = typeof agent === 'string' ? agent : customTargetDisplayName(agent);
+    warnings.push(
+      `this workflow contains Claude Code-only node(s) (e.g. branchSession); ${agentName} cannot execute those steps.`
+    );
+  }
+
+  let files: PlannedExportFile[];
+  if (typeof agent !== 'string') {
+    // Custom targets list the node fields they support; report the set ones
+    // their export drops.
+    warnings.push(...collectIgnoredFieldWarnings(workflow, agent));
+    warnings.push(...collectParallelFallbackWarnings(workflow, agent));
+    files = planCustomTargetFiles(workflow, agent);
+  } else {
+    warnings.push(...collectParallelFallbackWarnings(workflow, exportProviderToTarget(agent)));
+    files =
+      agent === CLAUDE_CODE_AGENT
+        ? planWorkflowExportFiles(workflow)
+        : planAgentSkillFiles(workflow, agent as AgentSkillProvider);
+  }
+  return { files, warnings };
+}
+
+export function resolvePlanned(rootDir: string, file: PlannedExportFile): string {
+  return path.join(rootDir, ...file.relativePath.split('/'));
+}
+
+/** Write planned files under `rootDir`; returns their absolute paths. */
+export async function writePlannedFiles(
+  rootDir: string,
+  files: PlannedExportFile[]
+): Promise<string[]> {
+  const writtenPaths: string[] = [];
+  const ensuredDirs = new Set<string>();
+  for (const planned of files) {
+    const absPath = resolvePlanned(rootDir, planned);
+    const dir = path.dirname(absPath);
+    if (!ensuredDirs.has(dir)) {
+      await fs.mkdir(dir, { recursive: true });
+      ensuredDirs.add(dir);
+    }
+    await fs.writeFile(absPath, planned.contents, 'utf-8');
+    writtenPaths.push(absPath);
+  }
+  return writtenPaths;
+}
@@ -0,0 +1,72 @@
+/**
+ * Secret scanning shared by `ccwf scan` and the pre-write check of
+ * `ccwf export`.
+ *
+ * Detection itself lives in `@cc-wf-studio/core` (`detectSensitiveData`,
+ * `redactSensitiveData`); project patterns come from `ccwf.config.json`.
+ * Findings only ever carry masked values, so printing them is safe.
+ */
+
+import {
+  type CustomSensitivePattern,
+  detectSensitiveData,
+  getCustomSensitivePatterns,
+  type PlannedExportFile,
+  type SensitiveDataFinding,
+} from '@cc-wf-studio/core';
+import { loadProjectConfig } from '../utils/project-config.js';
+
+export interface LocatedFinding extends SensitiveDataFinding {
+  /** 1-based line of the value in the scanned file. */
+  line: number;
+  /** 1-based column of the value in the scanned file. */
+  column: number;
+}
+
+export interface PlannedFileFinding {
+  /** Output path relative to the output root. */
+  relativePath: string;
+  finding: LocatedFinding;
+}
+
+/**
+ * Custom secret patterns from `<rootDir>/ccwf.config.json`. An invalid
+ * config is reported as a `WorkflowLoadError` (exit 2).
+ */
+export async function loadCustomSensitivePatterns(
+  rootDir: string
+): Promise<CustomSensitivePattern[]> {
+  return getCustomSensitivePatterns(await loadProjectConfig(rootDir));
+}
+
+/** Findings in `content`, with line / column positions. */
+export function scanContent(
+  content: string,
+  customPatterns: CustomSensitivePattern[]
+): LocatedFinding[] {
+  return detectSensitiveData(content, { customPatterns }).map((finding) => {
+    const before = content.substring(0, finding.position).split('\n');
+    return { ...finding, line: before.length, column: before[before.length - 1].length + 1 };
+  });
+}
+
+/** Possible secrets in the contents export is about to write. */
+export function scanPlannedFiles(
+  files: PlannedExportFile[],
+  customPatterns: CustomSensitivePattern[]
+): PlannedFileFinding[] {
+  return files.flatMap((file) =>
+    scanContent(file.contents, customPatterns).map((finding) => ({
+      relativePath: file.relativePath,
+      finding,
+    }))
+  );
+}
+
+/** `[high] GITHUB_TOKEN  ghp_...wxyz`, naming the custom pattern when there is one. */
+export function describeFinding(
+  finding: Pick<SensitiveDataFinding, 'type' | 'patternName' | 'severity' | 'maskedValue'>
+): string {
+  const kind = finding.patternName ? `${finding.type} (${finding.patternName})` : finding.type;
+  return `[${finding.severity}] ${kind}  ${finding.maskedValue}`;
+}
@@ -6,4 +6,8 @@
  * integrations, custom runners) may want to embed.
  */
 
-export {};
+export {
+  AgentProcessError,
+  type ClaudeCliRunnerOptions,
+  createClaudeCliRunner,
+} from './run/claude-runner.js';
@@ -1,5 +1,5 @@
 /**
- * Debounced filesystem watcher for `ccwf preview`.
+ * Debounced filesystem watcher for `ccwf preview` and `ccwf export --watch`.
  *
  * Wraps `fs.watch` (no extra dependency) with a small trailing debounce so that
  * editors that write atomically (rename-replace, write-truncate-then-fill) only
@@ -17,6 +17,11 @@ export interface WorkflowWatcherOptions {
   filePath: string;
   /** Trailing debounce in ms before invoking onChange. */
   debounceMs?: number;
+  /**
+   * Keep the process alive while watching. Default false: `ccwf preview`
+   * is kept alive by its HTTP server; `ccwf export --watch` has nothing else.
+   */
+  persistent?: boolean;
   /** Invoked after each debounced change. */
   onChange(): void;
 }
@@ -47,7 +52,7 @@ export function watchWorkflowFile(options: WorkflowWatcherOptions): WorkflowWatc
   const arm = (): void => {
     if (closed) return;
     try {
-      watcher = fs.watch(dir, { persistent: false }, (_event, changedName) => {
+      watcher = fs.watch(dir, { persistent: options.persistent ?? false }, (_event, changedName) => {
         // Some platforms return `null` for `filename`; treat that as a
         // potential match rather than ignoring the event (better than missing
         // a save).
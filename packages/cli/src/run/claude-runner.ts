@@ -0,0 +1,193 @@
+/**
+ * Claude Code-backed `AgentRunner` for `ccwf run`.
+ *
+ * Every executable node becomes one non-interactive `claude -p` call; Codex
+ * nodes go to `codex exec` instead, mirroring the command line the exported
+ * skill tells the orchestrator to run. Branch decisions are a separate short
+ * `claude -p` call that must answer with `{ "branch": <number> }` or the
+ * exact label of the chosen option; anything else fails the node.
+ *
+ * Outputs of earlier steps are passed along as plain-text context (truncated)
+ * so each call is self-contained — there is no shared session between steps.
+ */
+
+import { spawn } from 'node:child_process';
+import type {
+  AgentRunner,
+  AgentStepRequest,
+  BranchDecisionRequest,
+  BranchOption,
+  CodexNode,
+  NodeOutput,
+} from '@cc-wf-studio/core';
+
+export interface ClaudeCliRunnerOptions {
+  /** Absolute path to the `claude` binary. */
+  claudeBin: string;
+  /** Absolute path to the `codex` binary; Codex nodes fail without it. */
+  codexBin?: string | null;
+  /** Working directory for every spawned agent. */
+  cwd: string;
+  /** Model override applied to nodes that don't pin their own model. */
+  model?: string;
+}
+
+/** Per-output cap when replaying earlier results as context. */
+const HISTORY_OUTPUT_LIMIT = 4000;
+
+export class AgentProcessError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number | null
+  ) {
+    super(message);
+    this.name = 'AgentProcessError';
+  }
+}
+
+export function createClaudeCliRunner(options: ClaudeCliRunnerOptions): AgentRunner {
+  return {
+    async runStep(request) {
+      if (request.kind === 'codex') {
+        return { output: await runCodexStep(request, options) };
+      }
+      const args = ['-p', withHistory(request.prompt, request.history)];
+      const model = request.model ?? options.model;
+      if (model) {
+        args.push('--model', model);
+      }
+      if (request.systemPrompt) {
+        args.push('--append-system-prompt', request.systemPrompt);
+      }
+      if (request.tools) {
+        args.push('--allowedTools', request.tools);
+      }
+      return { output: await runProcess(options.claudeBin, args, options.cwd) };
+    },
+
+    async chooseBranch(request) {
+      const args = ['-p', buildBranchPrompt(request)];
+      if (options.model) {
+        args.push('--model', options.model);
+      }
+      const answer = await runProcess(options.claudeBin, args, options.cwd);
+      return parseBranchAnswer(answer, request.options);
+    },
+  };
+}
+
+async function runCodexStep(
+  request: AgentStepRequest,
+  options: ClaudeCliRunnerOptions
+): Promise<string> {
+  if (!options.codexBin) {
+    throw new Error('`codex` was not found on PATH; install Codex CLI to run Codex nodes.');
+  }
+  const data = (request.node as CodexNode).data;
+  const args = ['exec'];
+  if (data.skipGitRepoCheck) {
+    args.push('--skip-git-repo-check');
+  }
+  args.push('-m', data.model, '-c', `reasoning_effort="${data.reasoningEffort}"`);
+  if (data.sandbox) {
+    args.push('-s', data.sandbox);
+  }
+  args.push(withHistory(request.prompt, request.history));
+  return runProcess(options.codexBin, args, options.cwd);
+}
+
+function buildBranchPrompt(request: BranchDecisionRequest): string {
+  const lines = [
+    `Decide which branch a workflow should take. Evaluate: ${request.question}`,
+    '',
+    'Options:',
+    ...request.options.map(
+      (o) => `${o.index + 1}. ${o.label}${o.condition ? ` — ${o.condition}` : ''}`
+    ),
+    '',
+    'Reply with a single JSON object and nothing else, e.g. {"branch": 1},',
+    'where "branch" is the number of the matching option.',
+  ];
+  return withHistory(lines.join('\n'), request.history);
+}
+
+/**
+ * Read the agent's branch decision: a `{ "branch": <number> }` object (the
+ * 1-based option number, optionally inside a code fence) or the exact label
+ * of one option. Free text is rejected rather than guessed at — a stray
+ * number in a sentence must not pick a branch.
+ */
+export function parseBranchAnswer(answer: string, options: readonly BranchOption[]): number {
+  const text = answer
+    .trim()
+    .replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1')
+    .trim();
+
+  if (text.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = undefined;
+    }
+    const branch = (parsed as { branch?: unknown } | undefined)?.branch;
+    const choice = Number.isInteger(branch) ? (branch as number) - 1 : Number.NaN;
+    if (options.some((o) => o.index === choice)) {
+      return choice;
+    }
+  } else {
+    const label = text.replace(/^["'`]+|["'`.]+$/g, '').toLowerCase();
+    const byLabel = options.find((o) => o.label.toLowerCase() === label);
+    if (byLabel) {
+      return byLabel.index;
+    }
+  }
+
+  throw new Error(
+    `Expected {"branch": 1-${options.length}} or an option label from the agent, got: ${answer.trim()}`
+  );
+}
+
+function withHistory(prompt: string, history: readonly NodeOutput[]): string {
+  if (history.length === 0) {
+    return prompt;
+  }
+  const context = history.map((h) => {
+    const output =
+      h.output.length > HISTORY_OUTPUT_LIMIT
+        ? `${h.output.slice(0, HISTORY_OUTPUT_LIMIT)}\n…(truncated)`
+        : h.output;
+    return `### ${h.nodeName}\n${output}`;
+  });
+  return `Results of the previous workflow steps:\n\n${context.join('\n\n')}\n\n---\n\n${prompt}`;
+}
+
+function runProcess(bin: string, args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(bin, args, { cwd, shell: false, stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf-8').on('data', (chunk: string) => {
+      stdout += chunk;
+    });
+    child.stderr.setEncoding('utf-8').on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+    child.on('error', (error) => {
+      reject(new AgentProcessError(`Failed to start ${bin}: ${error.message}`, null));
+    });
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout.trim());
+      } else {
+        const detail = stderr.trim() || stdout.trim();
+        reject(
+          new AgentProcessError(
+            `${bin} exited with code ${code}${detail ? `: ${detail}` : ''}`,
+            code
+          )
+        );
+      }
+    });
+  });
+}
@@ -1,7 +1,7 @@
 /**
  * Minimal cross-platform PATH walker for binary discovery.
  *
- * Used by `ccwf run --launch` to locate the `claude` CLI without dragging in
+ * Used by `ccwf run` to locate the `claude` (and `codex`) CLI without dragging in
  * `which` or `npm-which` as a dependency. Returns the first executable match
  * or `null` — callers decide whether to error or fall back.
  */
@@ -0,0 +1,23 @@
+/**
+ * Listing a server's tools for `ccwf mcp-snapshot`. Server configs and the
+ * live listing come from `@cc-wf-studio/mcp` (`readClaudeMcpServers`). Listed
+ * tools are also written to the MCP tool cache shared with `ccwf-mcp` and the
+ * VSCode extension, so a snapshot run warms it.
+ */
+
+import type { McpSnapshotServer } from '@cc-wf-studio/core';
+import { getMcpServerToolsCached, type McpServerConfig } from '@cc-wf-studio/mcp';
+
+/**
+ * A server's tools, always listed live (a snapshot must not record a cached
+ * list), and stored in the shared tool cache on the way.
+ */
+export async function listMcpServerTools(
+  serverId: string,
+  config: McpServerConfig
+): Promise<McpSnapshotServer> {
+  const { value } = await getMcpServerToolsCached(serverId, config, { refresh: true });
+  const tools: McpSnapshotServer['tools'] = {};
+  for (const { name, ...tool } of value) tools[name] = tool;
+  return { tools };
+}
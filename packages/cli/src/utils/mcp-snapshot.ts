@@ -0,0 +1,42 @@
+/**
+ * Read and write `ccwf.mcp-lock.json` for the CLI.
+ *
+ * Parsing, the schema and the checks live in `@cc-wf-studio/core`
+ * (`parseMcpSnapshot`, `checkMcpNodesAgainstSnapshot`). An invalid file is
+ * reported as a `WorkflowLoadError`, so commands exit with code 2 and a
+ * one-line message instead of a stack trace.
+ */
+
+import * as fs from 'node:fs/promises';
+import {
+  type McpSnapshot,
+  McpSnapshotError,
+  parseMcpSnapshot,
+  serializeMcpSnapshot,
+} from '@cc-wf-studio/core';
+import { WorkflowLoadError } from './load-workflow.js';
+
+/** Parsed snapshot, or undefined when the file does not exist. */
+export async function readMcpSnapshot(filePath: string): Promise<McpSnapshot | undefined> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw new WorkflowLoadError(
+      `Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  try {
+    return parseMcpSnapshot(text);
+  } catch (error) {
+    if (error instanceof McpSnapshotError) {
+      throw new WorkflowLoadError(`${filePath}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+export async function writeMcpSnapshot(filePath: string, snapshot: McpSnapshot): Promise<void> {
+  await fs.writeFile(filePath, serializeMcpSnapshot(snapshot), 'utf-8');
+}
@@ -0,0 +1,22 @@
+/**
+ * Read `<rootDir>/ccwf.config.json` for the CLI.
+ *
+ * The file is optional (a missing one yields the defaults). An invalid one
+ * is reported as a `WorkflowLoadError`, so commands exit with code 2 and a
+ * one-line message instead of a stack trace.
+ */
+
+import { type ProjectConfig, ProjectConfigError } from '@cc-wf-studio/core';
+import { readProjectConfig } from '@cc-wf-studio/mcp';
+import { WorkflowLoadError } from './load-workflow.js';
+
+export async function loadProjectConfig(rootDir: string): Promise<ProjectConfig> {
+  try {
+    return await readProjectConfig(rootDir);
+  } catch (error) {
+    if (error instanceof ProjectConfigError) {
+      throw new WorkflowLoadError(error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,1024 @@
+/**
+ * Smoke tests for @cc-wf-studio/core services, run on small fixture
+ * workflows without a model or network:
+ *
+ *   - headless execution engine: walk graphs with the scripted runner and
+ *     assert which nodes ran, in which order, and how failures are reported
+ *   - semantic diff and three-way merge: node and connection changes,
+ *     delete-modify and both-added conflicts, connection matching
+ *   - workflow patches: parsed from untrusted JSON, applied in order without
+ *     touching other nodes, failures name the offending operation
+ *   - patch repair: a repaired patch is a complete operation list, applied
+ *     to the original workflow
+ *   - slash command / skill import: steps, agent links and node names that
+ *     export to distinct files
+ *   - project config: custom secret patterns compiled with their flags
+ *   - graph analysis: findings inside Sub-Agent Flows name their flow
+ *   - MCP snapshot check: missing servers, tools and bad parameters are
+ *     errors, parameter drift is a warning
+ *   - schema migrations: the registry chains up to the current version,
+ *     legacy files run every step, newer files are left alone
+ *   - workflow templates: typed values substituted into every node kind,
+ *     bad values rejected, exported templates advertise their parameters
+ *   - SVG / HTML rendering: nodes at their canvas positions (group children
+ *     offset by their group), Sub-Agent colours, escaped text
+ *   - custom export targets: paths, frontmatter and tool names from
+ *     `ccwf.config.json`, field and parallelism warnings, invalid targets
+ *
+ * Run: pnpm --filter @cc-wf-studio/core run test
+ */
+
+import {
+  createScriptedAgentRunner,
+  executeWorkflow,
+  type ExecuteWorkflowOptions,
+  type WorkflowExecutionEvent,
+  type WorkflowExecutionResult,
+} from '../src/services/workflow-execution.js';
+import {
+  CONFLICT_MARKER_KEYS,
+  diffWorkflows,
+  mergeWorkflows,
+} from '../src/services/workflow-diff.js';
+import { planCustomTargetFiles } from '../src/services/agent-skill-export.js';
+import { planWorkflowExportFiles } from '../src/services/workflow-export.js';
+import { renderWorkflowHtml, renderWorkflowSvg } from '../src/services/workflow-svg-renderer.js';
+import {
+  applyWorkflowPatch,
+  getWorkflowPatchOperationNodeIds,
+  parseWorkflowPatch,
+  WORKFLOW_PATCH_REPAIR_INSTRUCTIONS,
+  WorkflowPatchError,
+  type WorkflowPatchOperation,
+} from '../src/services/workflow-patch.js';
+import {
+  importSlashCommandMarkdown,
+  WorkflowImportError,
+} from '../src/services/workflow-import.js';
+import {
+  instantiateWorkflowTemplate,
+  WorkflowTemplateError,
+} from '../src/services/workflow-template.js';
+import {
+  type Connection,
+  NodeType,
+  SUB_AGENT_COLORS,
+  type Workflow,
+  type WorkflowNode,
+} from '../src/types/workflow-definition.js';
+import { checkMcpNodesAgainstSnapshot, createMcpSnapshot } from '../src/utils/mcp-snapshot.js';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateWorkflowWithReport,
+  WORKFLOW_MIGRATIONS,
+} from '../src/utils/migrate-workflow.js';
+import {
+  collectIgnoredFieldWarnings,
+  collectParallelFallbackWarnings,
+} from '../src/schema/warnings.js';
+import {
+  getCustomExportTargets,
+  parseProjectConfig,
+  ProjectConfigError,
+} from '../src/utils/project-config.js';
+import { validateAIGeneratedWorkflow } from '../src/utils/validate-workflow.js';
+import { analyzeWorkflowGraph } from '../src/utils/workflow-graph-analysis.js';
+
+function node(id: string, type: string, data: Record<string, unknown> = {}): WorkflowNode {
+  return { id, type, name: id, position: { x: 0, y: 0 }, data } as unknown as WorkflowNode;
+}
+
+function conn(from: string, to: string, fromPort?: string): Connection {
+  return { id: `${from}->${to}`, from, to, ...(fromPort ? { fromPort } : {}) } as Connection;
+}
+
+function workflow(
+  nodes: WorkflowNode[],
+  connections: Connection[],
+  extra: Partial<Workflow> = {}
+): Workflow {
+  return {
+    id: 'smoke',
+    name: 'smoke',
+    version: '1.0.0',
+    nodes,
+    connections,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...extra,
+  } as Workflow;
+}
+
+const prompt = (id: string) => node(id, 'prompt', { prompt: `Do ${id}` });
+const branches = (...labels: string[]) => ({
+  branches: labels.map((label) => ({ id: label, label, condition: `when ${label}` })),
+  outputPorts: labels.length,
+});
+
+async function run(
+  wf: Workflow,
+  options: Partial<ExecuteWorkflowOptions> & Parameters<typeof createScriptedAgentRunner>[0] = {}
+): Promise<{ result: WorkflowExecutionResult; events: WorkflowExecutionEvent[] }> {
+  const events: WorkflowExecutionEvent[] = [];
+  const result = await executeWorkflow(wf, {
+    runner: createScriptedAgentRunner(options),
+    onEvent: (event) => events.push(event),
+    ...options,
+  });
+  return { result, events };
+}
+
+function expectOrder(name: string, result: WorkflowExecutionResult, expected: string[]): void {
+  const actual = result.outputs.map((o) => o.nodeId);
+  if (result.status !== 'succeeded' || actual.join(',') !== expected.join(',')) {
+    throw new Error(
+      `${name}: expected ${expected.join(' → ')} (succeeded), got ${actual.join(' → ')} (${result.status}${result.error ? `: ${result.error}` : ''})`
+    );
+  }
+  console.log(`OK ${name}: ${actual.join(' → ')}`);
+}
+
+async function smokeLinear(): Promise<void> {
+  const { result, events } = await run(
+    workflow(
+      [node('start', 'start'), prompt('a'), prompt('b'), node('end', 'end')],
+      [conn('start', 'a'), conn('a', 'b'), conn('b', 'end')]
+    ),
+    { outputs: { a: 'first' } }
+  );
+  expectOrder('linear', result, ['a', 'b']);
+  if (result.outputs[0].output !== 'first' || events.at(-1)?.type !== 'run-completed') {
+    throw new Error(`linear: unexpected outputs or events: ${JSON.stringify(result.outputs)}`);
+  }
+}
+
+async function smokeBranching(): Promise<void> {
+  const wf = workflow(
+    [
+      node('start', 'start'),
+      node('check', 'ifElse', { ...branches('Pass', 'Fail'), evaluationTarget: 'tests' }),
+      prompt('ship'),
+      prompt('fix'),
+      node('pick', 'switch', branches('Small', 'Medium', 'Large')),
+      prompt('small'),
+      prompt('medium'),
+      prompt('large'),
+      node('end', 'end'),
+    ],
+    [
+      conn('start', 'check'),
+      conn('check', 'ship', 'branch-0'),
+      conn('check', 'fix', 'branch-1'),
+      conn('fix', 'pick'),
+      conn('pick', 'small', 'branch-0'),
+      conn('pick', 'medium', 'branch-1'),
+      conn('pick', 'large', 'branch-2'),
+      conn('ship', 'end'),
+      conn('small', 'end'),
+      conn('medium', 'end'),
+      conn('large', 'end'),
+    ]
+  );
+  const { result } = await run(wf, { branches: { check: 'fail', pick: 2 } });
+  expectOrder('ifElse by label, switch by index', result, ['fix', 'large']);
+
+  const unwired = await run(wf, { branches: { check: 'Fail', pick: 7 } });
+  if (unwired.result.status !== 'failed' || unwired.result.failedNodeId !== 'pick') {
+    throw new Error(`invalid branch index should fail "pick": ${JSON.stringify(unwired.result)}`);
+  }
+  console.log(`OK invalid branch index fails the node: ${unwired.result.error}`);
+}
+
+async function smokeAskUserQuestion(): Promise<void> {
+  const wf = workflow(
+    [
+      node('start', 'start'),
+      node('ask', 'askUserQuestion', {
+        questionText: 'Which target?',
+        options: [
+          { label: 'Staging', description: 'deploy to staging' },
+          { label: 'Production', description: 'deploy to production' },
+        ],
+        outputPorts: 2,
+      }),
+      prompt('staging'),
+      prompt('production'),
+      node('end', 'end'),
+    ],
+    [
+      conn('start', 'ask'),
+      conn('ask', 'staging', 'branch-0'),
+      conn('ask', 'production', 'branch-1'),
+      conn('staging', 'end'),
+      conn('production', 'end'),
+    ]
+  );
+  const { result, events } = await run(wf, { answers: { ask: 'production' } });
+  expectOrder('askUserQuestion preset answer', result, ['production']);
+  const selected = events.find((e) => e.type === 'branch-selected');
+  if (selected?.type !== 'branch-selected' || selected.source !== 'preset') {
+    throw new Error(`preset answer should be reported as such: ${JSON.stringify(selected)}`);
+  }
+}
+
+async function smokeLoop(): Promise<void> {
+  const wf = workflow(
+    [
+      node('start', 'start'),
+      node('loop', 'loop', { exitCondition: 'all green', maxIterations: 3 }),
+      prompt('body'),
+      prompt('after'),
+      node('end', 'end'),
+    ],
+    [
+      conn('start', 'loop'),
+      conn('loop', 'body', 'branch-0'),
+      conn('body', 'loop'),
+      conn('loop', 'after', 'branch-1'),
+      conn('after', 'end'),
+    ]
+  );
+  // Unscripted decisions take the first option (Body), so the limit ends the loop.
+  const { result } = await run(wf);
+  expectOrder('loop stops at maxIterations', result, ['body', 'body', 'body', 'after']);
+
+  const early = await run(wf, { branches: { loop: 'Exit' } });
+  expectOrder('loop exits when the runner says so', early.result, ['body', 'after']);
+}
+
+async function smokeParallelJoin(): Promise<void> {
+  const { result } = await run(
+    workflow(
+      [
+        node('start', 'start'),
+        node('fork', 'parallel', branches('Left', 'Right')),
+        prompt('left'),
+        prompt('left2'),
+        prompt('right'),
+        node('join', 'join'),
+        prompt('merge'),
+        node('end', 'end'),
+      ],
+      [
+        conn('start', 'fork'),
+        conn('fork', 'left', 'branch-0'),
+        conn('fork', 'right', 'branch-1'),
+        conn('left', 'left2'),
+        conn('left2', 'join'),
+        conn('right', 'join'),
+        conn('join', 'merge'),
+        conn('merge', 'end'),
+      ]
+    )
+  );
+  expectOrder('parallel branches meet at the join once', result, [
+    'left',
+    'right',
+    'left2',
+    'merge',
+  ]);
+}
+
+async function smokeSubAgentFlow(): Promise<void> {
+  const { result, events } = await run(
+    workflow(
+      [
+        node('start', 'start'),
+        node('flow', 'subAgentFlow', { subAgentFlowId: 'review' }),
+        prompt('report'),
+        node('end', 'end'),
+      ],
+      [conn('start', 'flow'), conn('flow', 'report'), conn('report', 'end')],
+      {
+        subAgentFlows: [
+          {
+            id: 'review',
+            name: 'review',
+            nodes: [node('s', 'start'), prompt('inner'), node('e', 'end')],
+            connections: [conn('s', 'inner'), conn('inner', 'e')],
+          },
+        ],
+      }
+    ),
+    { outputs: { inner: 'looks good' } }
+  );
+  expectOrder('sub-agent flow runs inline', result, ['inner', 'flow', 'report']);
+  const inner = events.find((e) => e.type === 'node-started' && e.nodeId === 'inner');
+  if (
+    result.outputs[1].output !== 'looks good' ||
+    inner?.type !== 'node-started' ||
+    inner.subAgentFlowId !== 'review'
+  ) {
+    throw new Error(`sub-agent flow output or events are wrong: ${JSON.stringify(result.outputs)}`);
+  }
+}
+
+async function smokeFailures(): Promise<void> {
+  const linear = workflow(
+    [node('start', 'start'), prompt('a'), prompt('b'), node('end', 'end')],
+    [conn('start', 'a'), conn('a', 'b'), conn('b', 'end')]
+  );
+  const failed = await run(linear, { failures: { a: 'model unavailable' } });
+  if (
+    failed.result.status !== 'failed' ||
+    failed.result.failedNodeId !== 'a' ||
+    failed.result.outputs.length !== 0 ||
+    !failed.events.some((e) => e.type === 'node-failed' && e.error === 'model unavailable')
+  ) {
+    throw new Error(`runner failure should stop at "a": ${JSON.stringify(failed.result)}`);
+  }
+  console.log(`OK runner failure stops the run: ${failed.result.error}`);
+
+  const cycle = await run(
+    workflow(
+      [node('start', 'start'), prompt('a'), prompt('b')],
+      [conn('start', 'a'), conn('a', 'b'), conn('b', 'a')]
+    ),
+    { maxSteps: 10 }
+  );
+  if (cycle.result.status !== 'failed' || !cycle.result.error?.includes('maximum of 10')) {
+    throw new Error(`an endless cycle should hit maxSteps: ${JSON.stringify(cycle.result)}`);
+  }
+  console.log(`OK endless cycle hits maxSteps: ${cycle.result.error}`);
+}
+
+function withPrompt(wf: Workflow, nodeId: string, text: string): Workflow {
+  return {
+    ...wf,
+    nodes: wf.nodes.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, prompt: text } } : n)),
+  } as Workflow;
+}
+
+const edges = (wf: Workflow) =>
+  wf.connections.map((c) => `${c.id ?? '(no id)'}:${c.from}->${c.to}`).join(', ');
+
+async function smokeDiff(): Promise<void> {
+  const before = workflow(
+    [node('start', 'start'), prompt('a'), prompt('b'), node('end', 'end')],
+    [conn('start', 'a'), conn('a', 'b'), conn('b', 'end')]
+  );
+  const after = withPrompt(
+    {
+      ...before,
+      nodes: [...before.nodes, prompt('c')],
+      connections: [conn('start', 'a'), conn('a', 'c'), conn('c', 'end'), conn('b', 'end')],
+    },
+    'a',
+    'Do a twice'
+  );
+  const diff = diffWorkflows(before, after);
+  const nodes = diff.nodes.map((n) => `${n.kind}:${n.id}`).join(', ');
+  const connections = diff.connections.map((c) => `${c.kind}:${c.connection.to}`).join(', ');
+  if (
+    nodes !== 'modified:a, added:c' ||
+    diff.nodes[0].fieldChanges[0]?.path !== 'data.prompt' ||
+    connections !== 'rewired:c, added:end'
+  ) {
+    throw new Error(`diff: unexpected changes: ${nodes} / ${connections}`);
+  }
+  const reordered = { ...before, nodes: [...before.nodes].reverse() };
+  if (diffWorkflows(before, reordered).changeCount !== 0) {
+    throw new Error('diff: reordering nodes must not count as a change');
+  }
+  console.log(`OK diff reports ${nodes}; ${connections}`);
+}
+
+async function smokeMerge(): Promise<void> {
+  const base = workflow(
+    [node('start', 'start'), prompt('a'), prompt('b'), node('end', 'end')],
+    [conn('start', 'a'), conn('a', 'b'), conn('b', 'end')]
+  );
+
+  // Ours deletes b and bridges a → end; theirs edits b.
+  const ours = {
+    ...base,
+    nodes: base.nodes.filter((n) => n.id !== 'b'),
+    connections: [conn('start', 'a'), conn('a', 'end')],
+  };
+  const theirs = withPrompt(base, 'b', 'Do b carefully');
+  const merged = mergeWorkflows(base, ours, theirs);
+  const marker = merged.workflow.nodes.find((n) => n.id === 'b') as unknown as
+    | Record<string, unknown>
+    | undefined;
+  const kinds = merged.conflicts.map((c) => `${c.kind}:${c.path}`).join(', ');
+  if (
+    kinds !== 'delete-modify:nodes[b]' ||
+    !marker ||
+    !(CONFLICT_MARKER_KEYS.theirs in marker) ||
+    edges(merged.workflow) !== 'start->a:start->a, a->end:a->end, a->b:a->b, b->end:b->end'
+  ) {
+    throw new Error(
+      `merge: delete-modify lost its connections: ${kinds} / ${edges(merged.workflow)}`
+    );
+  }
+  console.log(`OK delete-modify keeps the node's id and connections: ${edges(merged.workflow)}`);
+
+  // Both sides add the same node differently, and the same edge under other ids.
+  const added = (wf: Workflow, text: string, connectionId: string): Workflow => ({
+    ...wf,
+    nodes: [...wf.nodes, node('c', 'prompt', { prompt: text })],
+    connections: [...wf.connections, { ...conn('b', 'c'), id: connectionId }],
+  });
+  const both = mergeWorkflows(
+    base,
+    added(base, 'Do c', 'conn-ours'),
+    added(base, 'Do c now', 'conn-theirs')
+  );
+  const bothKinds = both.conflicts.map((c) => `${c.kind}:${c.path}`).join(', ');
+  const toC = both.workflow.connections.filter((c) => c.to === 'c');
+  if (bothKinds !== 'field:nodes[c].data.prompt' || toC.length !== 1 || toC[0].id !== 'conn-ours') {
+    throw new Error(`merge: both-added mismatch: ${bothKinds} / ${edges(both.workflow)}`);
+  }
+  console.log(`OK both-added node conflicts on its field, same edge is kept once: ${toC[0].id}`);
+
+  // Connections without ids are matched on endpoints and keep having no id.
+  const strip = (wf: Workflow): Workflow => ({
+    ...wf,
+    connections: wf.connections.map(({ id: _id, ...c }) => c as Connection),
+  });
+  const noIds = mergeWorkflows(
+    strip(base),
+    strip(withPrompt(base, 'a', 'Do a first')),
+    strip(withPrompt(base, 'b', 'Do b second'))
+  );
+  if (
+    noIds.conflicts.length !== 0 ||
+    noIds.workflow.connections.length !== 3 ||
+    noIds.workflow.connections.some((c) => 'id' in c)
+  ) {
+    throw new Error(
+      `merge: connections without ids changed: ${JSON.stringify(noIds.workflow.connections)}`
+    );
+  }
+  console.log('OK connections without ids merge cleanly and get no synthetic id');
+}
+
+/** The `WorkflowPatchError` `run` throws, as `index: message`; null when nothing is thrown. */
+function patchError(run: () => unknown): string | null {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    if (!(error instanceof WorkflowPatchError)) throw error;
+    return `${error.operationIndex}: ${error.message}`;
+  }
+}
+
+async function smokePatch(): Promise<void> {
+  const original = workflow(
+    [node('start', 'start'), prompt('draft'), prompt('notes'), node('end', 'end')],
+    [conn('start', 'draft'), conn('draft', 'end')]
+  );
+  const before = JSON.stringify(original);
+  const reply = `[
+    { "op": "addNode", "id": "review", "type": "prompt", "name": "review", "position": { "x": 0, "y": 0 }, "data": { "prompt": "Review" } },
+    { "op": "disconnect", "from": "draft", "to": "end" },
+    { "op": "connect", "from": "draft", "to": "review" },
+    { "op": "connect", "from": "review", "to": "end" },
+    { "op": "updateNode", "nodeId": "draft", "data": { "prompt": "Draft the notes" } },
+    { "op": "removeNode", "nodeId": "notes" }
+  ]`;
+  const operations = parseWorkflowPatch(JSON.parse(reply));
+  const patched = applyWorkflowPatch(original, operations);
+  const edges = patched.connections.map((c) => `${c.from}->${c.to}`).join(',');
+  const draft = patched.nodes.find((n) => n.id === 'draft');
+  if (
+    edges !== 'start->draft,draft->review,review->end' ||
+    (draft?.data as { prompt: string }).prompt !== 'Draft the notes' ||
+    patched.nodes.some((n) => n.id === 'notes') ||
+    JSON.stringify(patched.nodes[0]) !== JSON.stringify(original.nodes[0]) ||
+    JSON.stringify(original) !== before
+  ) {
+    throw new Error(`patch: unexpected result ${JSON.stringify(patched)}`);
+  }
+
+  const badShape = patchError(() => parseWorkflowPatch([operations[0], { op: 'updateNode' }]));
+  const badTarget = patchError(() =>
+    applyWorkflowPatch(original, [operations[4], { op: 'connect', from: 'draft', to: 'nowhere' }])
+  );
+  if (
+    !badShape?.startsWith('1: Operation 2:') ||
+    !badTarget?.startsWith('1: Operation 2 (connect)')
+  ) {
+    throw new Error(`patch: failures not attributed: ${badShape} / ${badTarget}`);
+  }
+
+  // Rejecting the new node drops the operations that build on it.
+  const kept = operations.filter((op) => !getWorkflowPatchOperationNodeIds(op).includes('review'));
+  const partial = applyWorkflowPatch(original, kept);
+  if (kept.length !== 3 || partial.connections.length !== 1) {
+    throw new Error(`patch: unexpected subset ${JSON.stringify(kept)}`);
+  }
+  console.log(`OK patch: ${operations.length} operations applied in order, failures attributed`);
+}
+
+async function smokePatchRepair(): Promise<void> {
+  const original = workflow(
+    [node('start', 'start'), prompt('draft'), node('end', 'end')],
+    [conn('start', 'draft'), conn('draft', 'end')]
+  );
+  const edit: WorkflowPatchOperation = {
+    op: 'updateNode',
+    nodeId: 'draft',
+    data: { prompt: 'Draft the release notes' },
+  };
+  const addReview = (name: string): WorkflowPatchOperation => ({
+    op: 'addNode',
+    id: 'review',
+    type: NodeType.Prompt,
+    name,
+    position: { x: 0, y: 0 },
+    data: { prompt: 'Review the notes' },
+  });
+  const draftPrompt = (wf: Workflow) =>
+    (wf.nodes.find((n) => n.id === 'draft')?.data as { prompt: string }).prompt;
+
+  const failed = applyWorkflowPatch(original, [edit, addReview('review the notes!')]);
+  if (validateAIGeneratedWorkflow(failed).valid) {
+    throw new Error('patch repair: the first attempt should fail validation');
+  }
+
+  // A repair round is applied to the original workflow, like the first attempt
+  const correctiveOnly = applyWorkflowPatch(original, [addReview('review-notes')]);
+  const complete = applyWorkflowPatch(original, [edit, addReview('review-notes')]);
+  if (
+    !WORKFLOW_PATCH_REPAIR_INSTRUCTIONS.some((line) => /complete list of operations/.test(line)) ||
+    draftPrompt(correctiveOnly) !== 'Do draft' ||
+    draftPrompt(complete) !== 'Draft the release notes' ||
+    !validateAIGeneratedWorkflow(complete).valid
+  ) {
+    throw new Error('patch repair: the complete operation list must keep the requested edit');
+  }
+  console.log('OK patch repair asks for the complete operation list, which keeps the edit');
+}
+
+async function smokeImport(): Promise<void> {
+  const command = [
+    '---',
+    'description: Check and ship a change',
+    'allowed-tools: Bash, Read',
+    '---',
+    '# Ship it',
+    '',
+    '## Lint',
+    'Use the checker agent to lint the change.',
+    '',
+    '## Review',
+    'Use the reviewer agent on the diff.',
+    '',
+    '## Test',
+    'Use the checker agent to run the tests.',
+    '',
+    '## Summarise',
+    'Write a short summary for the pull request.',
+  ].join('\n');
+  const { workflow, report } = importSlashCommandMarkdown(command, {
+    sourceName: 'ship',
+    subAgentFiles: {
+      reviewer: {
+        content: '---\nname: reviewer\ndescription: Reviews diffs\n---\nYou review diffs.\n',
+        filePath: '.claude/agents/reviewer.md',
+      },
+    },
+  });
+
+  const names = workflow.nodes.map((n) => `${n.type}:${n.name}`);
+  const expected = [
+    'start:start',
+    'subAgent:checker',
+    'subAgent:reviewer',
+    'subAgent:checker-2',
+    'prompt:summarise',
+    'end:end',
+  ];
+  if (
+    workflow.name !== 'ship' ||
+    report.segmentation !== 'headings' ||
+    names.join(',') !== expected.join(',') ||
+    workflow.connections.length !== workflow.nodes.length - 1
+  ) {
+    throw new Error(`import: unexpected nodes ${names.join(', ')} (${report.segmentation})`);
+  }
+  const sources = report.steps.map((step) => step.agentSource ?? step.nodeType);
+  if (sources.join(',') !== 'missing,file,missing,prompt') {
+    throw new Error(`import: unexpected agent sources ${sources.join(', ')}`);
+  }
+  console.log(`OK import splits headings into steps: ${names.slice(1, -1).join(' → ')}`);
+
+  const validation = validateAIGeneratedWorkflow(workflow);
+  const paths = planWorkflowExportFiles(workflow).map((f) => f.relativePath);
+  const agentFiles = paths.filter((p) => p.startsWith('.claude/agents/'));
+  if (
+    !validation.valid ||
+    new Set(paths).size !== paths.length ||
+    agentFiles.join(',') !== '.claude/agents/checker.md,.claude/agents/checker-2.md'
+  ) {
+    throw new Error(
+      `import: a reused agent must export to its own file: ${agentFiles.join(', ')} ${JSON.stringify(validation.errors)}`
+    );
+  }
+  console.log(`OK an agent used by two steps exports to distinct files: ${agentFiles.join(', ')}`);
+
+  try {
+    importSlashCommandMarkdown('---\ndescription: [unclosed\n');
+  } catch (error) {
+    if (!(error instanceof WorkflowImportError)) throw error;
+    console.log(`OK broken frontmatter is a WorkflowImportError: ${error.message}`);
+    return;
+  }
+  throw new Error('import: broken frontmatter should throw WorkflowImportError');
+}
+
+/** Parse a config with one custom pattern; the error message, or null when it is accepted. */
+function customPatternError(pattern: string, flags?: string): string | null {
+  const config = { sensitiveData: { patterns: [{ name: 'acme', pattern, flags }] } };
+  try {
+    parseProjectConfig(JSON.stringify(config));
+    return null;
+  } catch (error) {
+    if (!(error instanceof ProjectConfigError)) throw error;
+    return error.message;
+  }
+}
+
+async function smokeProjectConfig(): Promise<void> {
+  const accepted = [customPatternError('acme_[a-z]+', 'iu'), customPatternError('a\\-b')];
+  if (accepted.some((message) => message !== null)) {
+    throw new Error(`config: valid patterns rejected: ${accepted.join('; ')}`);
+  }
+  // `\-` is only an identity escape without `u`.
+  const unicode = customPatternError('a\\-b', 'u');
+  const repeated = customPatternError('acme', 'ii');
+  const unknown = customPatternError('acme', 'y');
+  if (
+    !unicode?.includes('Invalid regular expression') ||
+    !unicode.includes('(at sensitiveData.patterns.0.pattern)') ||
+    !repeated?.includes('each at most once') ||
+    repeated.includes('Invalid regular expression') ||
+    !unknown?.includes('each at most once')
+  ) {
+    throw new Error(
+      `config: bad patterns accepted or misreported: ${unicode} / ${repeated} / ${unknown}`
+    );
+  }
+  console.log(`OK config: pattern checked with its flags, repeated flags rejected: ${repeated}`);
+}
+
+async function smokeGraphAnalysis(): Promise<void> {
+  const wf = workflow(
+    [
+      node('start', 'start'),
+      node('flow', 'subAgentFlow', { subAgentFlowId: 'review', label: 'review', outputPorts: 1 }),
+      node('end', 'end'),
+    ],
+    [conn('start', 'flow'), conn('flow', 'end')],
+    {
+      subAgentFlows: [
+        {
+          id: 'review',
+          name: 'review',
+          nodes: [node('s', 'start'), prompt('inner'), prompt('orphan'), node('e', 'end')],
+          connections: [conn('s', 'inner')],
+        },
+      ],
+    }
+  );
+  const findings = analyzeWorkflowGraph(wf).map((f) => `${f.code}@${f.nodeId}:${f.field}`);
+  const expected = [
+    'UNREACHABLE_NODE@review/orphan:subAgentFlows[review].nodes[orphan]',
+    'UNREACHABLE_NODE@review/e:subAgentFlows[review].nodes[e]',
+    'DEAD_END@review/inner:subAgentFlows[review].nodes[inner]',
+  ];
+  if (findings.join(',') !== expected.join(',')) {
+    throw new Error(`graph analysis: unexpected findings ${findings.join(', ')}`);
+  }
+  const mainOnly = analyzeWorkflowGraph(wf, { subAgentFlows: false });
+  const validation = validateAIGeneratedWorkflow(wf);
+  if (
+    mainOnly.length !== 0 ||
+    validation.valid ||
+    !validation.errors.some((e) => e.nodeId === 'review/inner') ||
+    validation.warnings.length !== 2
+  ) {
+    throw new Error(
+      `graph analysis: flow findings not split by severity: ${JSON.stringify(validation)}`
+    );
+  }
+  console.log(`OK graph analysis covers Sub-Agent Flows: ${findings.join(', ')}`);
+}
+
+async function smokeMcpSnapshot(): Promise<void> {
+  const snapshot = createMcpSnapshot({
+    github: {
+      tools: {
+        create_issue: {
+          inputSchema: {
+            type: 'object',
+            properties: { title: { type: 'string' } },
+            required: ['title'],
+          },
+        },
+      },
+    },
+  });
+  const mcp = (id: string, serverId: string, toolName: string, extra = {}) =>
+    node(id, 'mcp', { serverId, toolName, parameters: [], parameterValues: {}, ...extra });
+  const wf = workflow(
+    [mcp('gitlab', 'gitlab', 'create_issue'), mcp('gone', 'github', 'delete_repo')],
+    [],
+    {
+      subAgentFlows: [
+        {
+          id: 'triage',
+          name: 'triage',
+          nodes: [mcp('issue', 'github', 'create_issue', { parameterValues: { body: 'x' } })],
+          connections: [],
+        },
+      ],
+    }
+  );
+  const { errors, warnings } = checkMcpNodesAgainstSnapshot(wf, snapshot);
+  const describe = (findings: typeof errors) =>
+    findings.map((f) => `${f.code}@${f.nodeId}:${f.severity}`).join(',');
+  const expectedErrors = [
+    'MCP_SERVER_NOT_IN_SNAPSHOT@gitlab:error',
+    'MCP_TOOL_NOT_IN_SNAPSHOT@gone:error',
+    'MCP_PARAMETER_INVALID@triage/issue:error',
+    'MCP_PARAMETER_UNKNOWN@triage/issue:error',
+  ].join(',');
+  if (
+    describe(errors) !== expectedErrors ||
+    describe(warnings) !== 'MCP_PARAMETERS_OUTDATED@triage/issue:warning'
+  ) {
+    throw new Error(
+      `mcp snapshot: unexpected findings ${describe(errors)} / ${describe(warnings)}`
+    );
+  }
+  console.log(`OK mcp snapshot check: ${describe(errors)}; ${describe(warnings)}`);
+}
+
+async function smokeMigrations(): Promise<void> {
+  const broken = WORKFLOW_MIGRATIONS.find(
+    (m, i) => i > 0 && m.from !== WORKFLOW_MIGRATIONS[i - 1].to
+  );
+  if (broken || WORKFLOW_MIGRATIONS.at(-1)?.to !== CURRENT_SCHEMA_VERSION) {
+    throw new Error(`migrations: registry does not chain to ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  const legacy = workflow([node('start', 'start'), node('end', 'end')], [conn('start', 'end')]);
+  const migrated = migrateWorkflowWithReport(legacy);
+  const versions = migrated.report.steps.map((step) => step.to);
+  if (
+    !migrated.report.migrated ||
+    migrated.report.fromVersion !== '1.0.0' ||
+    migrated.workflow.schemaVersion !== CURRENT_SCHEMA_VERSION ||
+    versions.length !== WORKFLOW_MIGRATIONS.length ||
+    legacy.schemaVersion !== undefined
+  ) {
+    throw new Error(`migrations: legacy workflow not upgraded: ${JSON.stringify(migrated.report)}`);
+  }
+
+  const midway = migrateWorkflowWithReport({ ...legacy, schemaVersion: '1.4.0' });
+  const current = migrateWorkflowWithReport(migrated.workflow);
+  const newer = migrateWorkflowWithReport({ ...legacy, schemaVersion: '9.0.0' });
+  if (
+    midway.report.steps[0]?.from !== '1.4.0' ||
+    current.report.migrated ||
+    current.workflow !== migrated.workflow ||
+    newer.report.unsupportedVersion !== '9.0.0' ||
+    newer.workflow.schemaVersion !== '9.0.0'
+  ) {
+    throw new Error(
+      `migrations: unexpected reports ${JSON.stringify([midway.report, current.report, newer.report])}`
+    );
+  }
+  console.log(`OK migrations: 1.0.0 → ${versions.join(' → ')}, newer 9.0.0 left as is`);
+}
+
+async function smokeTemplates(): Promise<void> {
+  const template = workflow(
+    [
+      node('start', 'start'),
+      node('plan', 'prompt', { prompt: '{{repo}} on {{branch}}', variables: { branch: 'dev' } }),
+      node('fix', 'subAgent', { description: 'fix', prompt: 'Fix {{repo}}, {{unknown}} stays' }),
+      node('open', 'mcp', {
+        serverId: 'github',
+        toolName: 'create_issue',
+        parameters: [],
+        parameterValues: { repo: '{{repo}}', retries: '{{retries}}', title: 'Run {{retries}}x' },
+      }),
+      node('end', 'end'),
+    ],
+    [conn('start', 'plan'), conn('plan', 'fix'), conn('fix', 'open'), conn('open', 'end')],
+    {
+      parameters: [
+        { name: 'repo', type: 'string' },
+        { name: 'branch', type: 'string', default: 'main' },
+        { name: 'retries', type: 'number', default: 3 },
+      ],
+      subAgentFlows: [
+        {
+          id: 'inner',
+          name: 'inner',
+          nodes: [node('review', 'prompt', { prompt: 'Review {{repo}}' })],
+          connections: [],
+        },
+      ],
+    }
+  );
+
+  const values = { repo: 'acme/api', retries: '5' };
+  const wf = instantiateWorkflowTemplate(template, values, { id: 'from-template' });
+  const data = (id: string) => wf.nodes.find((n) => n.id === id)?.data as Record<string, unknown>;
+  const mcpValues = data('open').parameterValues as Record<string, unknown>;
+  const innerPrompt = (wf.subAgentFlows?.[0].nodes[0].data as { prompt: string }).prompt;
+  if (
+    data('plan').prompt !== 'acme/api on {{branch}}' ||
+    data('fix').prompt !== 'Fix acme/api, {{unknown}} stays' ||
+    mcpValues.retries !== 5 ||
+    mcpValues.title !== 'Run 5x' ||
+    innerPrompt !== 'Review acme/api' ||
+    wf.parameters !== undefined ||
+    wf.id !== 'from-template' ||
+    template.parameters?.length !== 3
+  ) {
+    throw new Error(`templates: unexpected instance ${JSON.stringify(wf)}`);
+  }
+
+  const rejected = [{}, { repo: 'x', retries: 'many' }, { repo: 'x', owner: 'y' }].map((values) => {
+    try {
+      instantiateWorkflowTemplate(template, values);
+      return 'accepted';
+    } catch (error) {
+      if (!(error instanceof WorkflowTemplateError)) throw error;
+      return error.parameter;
+    }
+  });
+  if (rejected.join(',') !== 'repo,retries,owner') {
+    throw new Error(`templates: bad values not rejected: ${rejected.join(', ')}`);
+  }
+
+  const command = planWorkflowExportFiles(template).find((f) => f.kind === 'slashCommand');
+  if (!command?.contents.includes('argument-hint: [repo] [branch] [retries]')) {
+    throw new Error(`templates: export does not advertise the parameters: ${command?.contents}`);
+  }
+  console.log('OK templates: typed values substituted, bad values rejected per parameter');
+}
+
+async function smokeRender(): Promise<void> {
+  const group = {
+    ...node('review', 'group', { label: 'Review' }),
+    position: { x: 100, y: 100 },
+    style: { width: 300, height: 200 },
+  };
+  const reviewer = {
+    ...node('reviewer', 'subAgent', { description: 'Check <diff>', color: 'blue' }),
+    position: { x: 20, y: 40 },
+    parentId: 'review',
+  };
+  const wf = workflow(
+    [{ ...node('start', 'start'), position: { x: -60, y: 150 } } as WorkflowNode, group, reviewer],
+    [conn('start', 'reviewer')],
+    { name: 'Ship & <check>', description: 'Runs "review"' }
+  );
+
+  const svg = renderWorkflowSvg(wf);
+  const reviewerBox = svg.match(/data-node-id="reviewer"[^\n]*\n<rect x="([\d.-]+)" y="([\d.-]+)"/);
+  const groupAt = svg.indexOf('data-node-id="review"');
+  if (
+    reviewerBox?.[1] !== '120' ||
+    reviewerBox[2] !== '140' ||
+    !svg.includes('<g transform="translate(100 -60)">') ||
+    !svg.includes(`fill="${SUB_AGENT_COLORS.blue}"`) ||
+    groupAt === -1 ||
+    groupAt > svg.indexOf('data-node-id="reviewer"') ||
+    !svg.includes('Check &lt;diff&gt;') ||
+    !svg.includes('<title>Ship &amp; &lt;check&gt;</title>') ||
+    svg.split('marker-end=').length !== 2
+  ) {
+    throw new Error(`render: unexpected SVG\n${svg}`);
+  }
+
+  const html = renderWorkflowHtml(wf, { theme: 'dark' });
+  if (
+    !html.includes('<p>Runs &quot;review&quot;</p>') ||
+    !html.includes('fill="#1e1e1e"') ||
+    /\s(?:src|href)=/.test(html)
+  ) {
+    throw new Error(`render: unexpected HTML\n${html}`);
+  }
+  console.log('OK render: canvas positions kept, group children offset, text escaped');
+}
+
+/** Parse a config with one export target; the error message, or null when it is accepted. */
+function exportTargetError(id: string, target: Record<string, unknown>): string | null {
+  try {
+    parseProjectConfig(JSON.stringify({ exportTargets: { [id]: target } }));
+    return null;
+  } catch (error) {
+    if (!(error instanceof ProjectConfigError)) throw error;
+    return error.message;
+  }
+}
+
+async function smokeCustomTargets(): Promise<void> {
+  const config = parseProjectConfig(
+    JSON.stringify({
+      exportTargets: {
+        acme: {
+          displayName: 'Acme Agent',
+          skillPath: '.acme/skills/{name}/SKILL.md',
+          agentsDir: '.acme/agents',
+          frontmatter: { name: '{name}', title: '{workflowName}' },
+          tools: { subAgent: 'spawn_agent' },
+          parallelExecution: false,
+          supportedFields: { subAgent: ['description', 'prompt'] },
+        },
+      },
+    })
+  );
+  const [target] = getCustomExportTargets(config);
+  const wf = workflow(
+    [
+      node('start', 'start'),
+      node('fan', 'parallel', branches('Review', 'Test')),
+      node('reviewer', 'subAgent', {
+        description: 'Review the change',
+        prompt: 'Review it',
+        model: 'opus',
+        outputPorts: 1,
+      }),
+      prompt('test'),
+      node('join', 'join'),
+      node('end', 'end'),
+    ],
+    [
+      conn('start', 'fan'),
+      conn('fan', 'reviewer', 'branch-0'),
+      conn('fan', 'test', 'branch-1'),
+      conn('reviewer', 'join'),
+      conn('test', 'join'),
+      conn('join', 'end'),
+    ],
+    { name: 'Ship it' }
+  );
+
+  const planned = planCustomTargetFiles(wf, target);
+  const skill = planned[0].contents;
+  if (
+    planned.map((f) => f.relativePath).join(',') !==
+      '.acme/skills/ship-it/SKILL.md,.acme/agents/reviewer.md' ||
+    !skill.startsWith('---\nname: ship-it\ntitle: Ship it\n---') ||
+    !skill.includes('spawn_agent tool')
+  ) {
+    throw new Error(`custom target: unexpected plan ${JSON.stringify(planned)}`);
+  }
+  const ignored = collectIgnoredFieldWarnings(wf, target);
+  const sequential = collectParallelFallbackWarnings(wf, target);
+  if (
+    ignored.length !== 1 ||
+    !ignored[0].includes('"model"') ||
+    !sequential[0]?.includes('acme cannot run branches concurrently')
+  ) {
+    throw new Error(`custom target: unexpected warnings ${[...ignored, ...sequential].join(' ')}`);
+  }
+
+  const rejected: [string | null, string][] = [
+    [exportTargetError('claude-code', {}), 'clashes with a built-in agent'],
+    [exportTargetError('acme', { skillPath: '.acme/SKILL.md' }), 'the {name} placeholder'],
+    [exportTargetError('acme', { agentsDir: '../agents' }), 'a relative path inside the project'],
+    [exportTargetError('acme', { supportedFields: { subAgent: ['colour'] } }), 'field: colour'],
+  ];
+  if (rejected.some(([message, expected]) => !message?.includes(expected))) {
+    throw new Error(
+      `custom target: invalid targets misreported: ${rejected.map(([message]) => message).join(' / ')}`
+    );
+  }
+  console.log(`OK custom targets: ${planned.length} files planned, invalid targets rejected`);
+}
+
+smokeLinear()
+  .then(smokeBranching)
+  .then(smokeAskUserQuestion)
+  .then(smokeLoop)
+  .then(smokeParallelJoin)
+  .then(smokeSubAgentFlow)
+  .then(smokeFailures)
+  .then(smokeDiff)
+  .then(smokeMerge)
+  .then(smokePatch)
+  .then(smokePatchRepair)
+  .then(smokeImport)
+  .then(smokeProjectConfig)
+  .then(smokeGraphAnalysis)
+  .then(smokeMcpSnapshot)
+  .then(smokeMigrations)
+  .then(smokeTemplates)
+  .then(smokeRender)
+  .then(smokeCustomTargets)
+  .catch((error) => {
+    process.stderr.write(
+      `SMOKE FAILED: ${error instanceof Error ? (error.stack ?? error.message) : String(error)}\n`
+    );
+    process.exit(1);
+  });
@@ -19,8 +19,20 @@ export * from './constants/built-in-sub-agents.js';
 // Pure formatters / generators.
 export * from './services/workflow-prompt-generator.js';
 export * from './services/workflow-overview-formatter.js';
+export * from './services/workflow-svg-renderer.js';
 export * from './services/workflow-export.js';
+export * from './services/export-marker.js';
 export * from './services/agent-skill-export.js';
+export * from './services/workflow-diff.js';
+export * from './services/workflow-template.js';
+export * from './services/workflow-import.js';
+export * from './services/workflow-edit.js';
+export * from './services/workflow-patch.js';
+
+// Execution: headless engine (runner-agnostic; the CLI supplies the runner) and
+// node-level progress tracking for observed Claude Code sessions.
+export * from './services/workflow-execution.js';
+export * from './services/execution-progress.js';
 
 // Node property schemas — zod-based, target-scoped field definitions
 // (UI scoping + export warnings + runtime validation). See ./schema.
@@ -31,6 +43,12 @@ export * from './utils/validate-workflow.js';
 export * from './utils/migrate-workflow.js';
 export * from './utils/schema-parser.js';
 export * from './utils/node-data-normalize.js';
+export * from './utils/parallel-join.js';
+export * from './utils/workflow-graph-analysis.js';
+export * from './utils/sensitive-data-detector.js';
+export * from './utils/project-config.js';
+export * from './utils/mcp-snapshot.js';
+export * from './utils/markdown-frontmatter.js';
 
 // Slack workflow validator — its `ValidationResult` collides with the AI
 // validator's identical name, so re-export it under a distinct alias.
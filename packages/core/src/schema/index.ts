@@ -15,7 +15,9 @@ export * from './nodes/branch-session-schema.js';
 export * from './nodes/codex-schema.js';
 export * from './nodes/group-schema.js';
 export * from './nodes/if-else-schema.js';
+export * from './nodes/loop-schema.js';
 export * from './nodes/mcp-schema.js';
+export * from './nodes/parallel-schema.js';
 export * from './nodes/skill-schema.js';
 export * from './nodes/sub-agent-flow-schema.js';
 export * from './nodes/prompt-schema.js';
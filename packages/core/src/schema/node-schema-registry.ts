@@ -29,7 +29,13 @@ import { branchSessionPropertySchema } from './nodes/branch-session-schema.js';
 import { codexPropertySchema } from './nodes/codex-schema.js';
 import { groupPropertySchema } from './nodes/group-schema.js';
 import { deriveIfElseUpdate, ifElsePropertySchema } from './nodes/if-else-schema.js';
+import { deriveLoopUpdate, loopPropertySchema } from './nodes/loop-schema.js';
 import { mcpPropertySchema } from './nodes/mcp-schema.js';
+import {
+  deriveParallelUpdate,
+  joinPropertySchema,
+  parallelPropertySchema,
+} from './nodes/parallel-schema.js';
 import { promptPropertySchema } from './nodes/prompt-schema.js';
 import { skillPropertySchema } from './nodes/skill-schema.js';
 import { subAgentFlowPropertySchema } from './nodes/sub-agent-flow-schema.js';
@@ -47,6 +53,9 @@ export const NODE_PROPERTY_SCHEMAS: Partial<Record<NodeType, PropertySchema>> =
   [NodeType.Branch]: branchPropertySchema,
   [NodeType.IfElse]: ifElsePropertySchema,
   [NodeType.Switch]: switchPropertySchema,
+  [NodeType.Loop]: loopPropertySchema,
+  [NodeType.Parallel]: parallelPropertySchema,
+  [NodeType.Join]: joinPropertySchema,
   [NodeType.Skill]: skillPropertySchema,
   [NodeType.Mcp]: mcpPropertySchema,
   [NodeType.SubAgentFlow]: subAgentFlowPropertySchema,
@@ -67,4 +76,6 @@ export const NODE_DERIVE_FNS: Partial<Record<NodeType, DeriveUpdateFn>> = {
   [NodeType.Branch]: deriveBranchUpdate,
   [NodeType.IfElse]: deriveIfElseUpdate,
   [NodeType.Switch]: deriveSwitchUpdate,
+  [NodeType.Loop]: deriveLoopUpdate,
+  [NodeType.Parallel]: deriveParallelUpdate,
 };
@@ -0,0 +1,57 @@
+/**
+ * Loop node property schema (repeat a body until an exit condition holds).
+ *
+ * Mirrors `LoopNodeData` in types/workflow-definition.ts. `maxIterations` has
+ * no generic number control; the webview loop panel overrides its input via
+ * `customControls`. Bounds come from VALIDATION_RULES.LOOP.
+ */
+
+import { z } from 'zod';
+import { type LoopNodeData, VALIDATION_RULES } from '../../types/workflow-definition.js';
+import { type AssertAssignable, field, type PropertyField, toZodObject } from '../field.js';
+
+const rules = VALIDATION_RULES.LOOP;
+
+export const loopPropertySchema = {
+  label: field(z.string().max(rules.LABEL_MAX_LENGTH).optional(), {
+    targets: 'all',
+    labelKey: 'loop.field.label',
+    control: 'text',
+    placeholderKey: 'loop.field.label.placeholder',
+  }),
+  exitCondition: field(
+    z.string().min(rules.EXIT_CONDITION_MIN_LENGTH).max(rules.EXIT_CONDITION_MAX_LENGTH),
+    {
+      targets: 'all',
+      labelKey: 'loop.field.exitCondition',
+      control: 'textarea',
+      placeholderKey: 'loop.field.exitCondition.placeholder',
+      helpKey: 'loop.field.exitCondition.help',
+    },
+  ),
+  maxIterations: field(z.number().int().min(rules.MIN_ITERATIONS).max(rules.MAX_ITERATIONS), {
+    targets: 'all',
+    labelKey: 'loop.field.maxIterations',
+    control: 'text',
+    helpKey: 'loop.field.maxIterations.help',
+  }),
+} satisfies Record<string, PropertyField>;
+
+export type LoopPropertySchema = typeof loopPropertySchema;
+
+/** zod object validator derived from {@link loopPropertySchema}. */
+export const loopZodObject = toZodObject(loopPropertySchema);
+
+/** Normalize a Loop field patch: outputPorts is always 2 (body + exit). */
+export function deriveLoopUpdate(
+  _data: Record<string, unknown>,
+  patch: Record<string, unknown>,
+): Record<string, unknown> {
+  return { ...patch, outputPorts: rules.OUTPUT_PORTS };
+}
+
+// Compile-time drift guards: schema field names must exist on LoopNodeData and
+// declared value types must stay assignable to the interface (optionality may
+// be looser in the schema; see each field's comment).
+export type LoopSchemaFieldNamesGuard = AssertAssignable<keyof z.infer<typeof loopZodObject>, keyof LoopNodeData>;
+export type LoopSchemaValueTypesGuard = AssertAssignable<z.infer<typeof loopZodObject>, Partial<LoopNodeData>>;
@@ -0,0 +1,83 @@
+/**
+ * Parallel / Join node property schemas (concurrent fan-out and its meeting
+ * point).
+ *
+ * Mirror `ParallelNodeData` / `JoinNodeData` in types/workflow-definition.ts.
+ * A Parallel branch only carries a label; what runs on it is whatever the
+ * branch port connects to. Bounds come from VALIDATION_RULES.PARALLEL.
+ */
+
+import { z } from 'zod';
+import {
+  type JoinNodeData,
+  type ParallelNodeData,
+  VALIDATION_RULES,
+} from '../../types/workflow-definition.js';
+import { type AssertAssignable, field, type PropertyField, toZodObject } from '../field.js';
+
+const rules = VALIDATION_RULES.PARALLEL;
+
+const parallelBranchZod = z.object({
+  id: z.string().optional(),
+  label: z.string().max(rules.BRANCH_LABEL_MAX_LENGTH),
+});
+
+export const parallelPropertySchema = {
+  label: field(z.string().max(rules.LABEL_MAX_LENGTH).optional(), {
+    targets: 'all',
+    labelKey: 'parallel.field.label',
+    control: 'text',
+    placeholderKey: 'parallel.field.label.placeholder',
+  }),
+  branches: field(z.array(parallelBranchZod).min(rules.MIN_BRANCHES).max(rules.MAX_BRANCHES), {
+    targets: 'all',
+    labelKey: 'parallel.field.branches',
+    control: 'objectArray',
+    helpKey: 'parallel.field.branches.help',
+    itemFields: [
+      {
+        name: 'label',
+        control: 'text',
+        labelKey: 'property.branchLabel',
+        placeholderKey: 'property.branchLabel.placeholder',
+      },
+    ],
+  }),
+} satisfies Record<string, PropertyField>;
+
+export type ParallelPropertySchema = typeof parallelPropertySchema;
+
+/** zod object validator derived from {@link parallelPropertySchema}. */
+export const parallelZodObject = toZodObject(parallelPropertySchema);
+
+/** Normalize a Parallel field patch: sync outputPorts to the branch count. */
+export function deriveParallelUpdate(
+  _data: Record<string, unknown>,
+  patch: Record<string, unknown>,
+): Record<string, unknown> {
+  if ('branches' in patch && Array.isArray(patch.branches)) {
+    return { ...patch, outputPorts: patch.branches.length };
+  }
+  return patch;
+}
+
+export const joinPropertySchema = {
+  label: field(z.string().max(VALIDATION_RULES.JOIN.LABEL_MAX_LENGTH).optional(), {
+    targets: 'all',
+    labelKey: 'join.field.label',
+    control: 'text',
+    placeholderKey: 'join.field.label.placeholder',
+  }),
+} satisfies Record<string, PropertyField>;
+
+export type JoinPropertySchema = typeof joinPropertySchema;
+
+/** zod object validator derived from {@link joinPropertySchema}. */
+export const joinZodObject = toZodObject(joinPropertySchema);
+
+// Compile-time drift guards: schema field names must exist on the node data
+// interfaces and declared value types must stay assignable to them.
+export type ParallelSchemaFieldNamesGuard = AssertAssignable<keyof z.infer<typeof parallelZodObject>, keyof ParallelNodeData>;
+export type ParallelSchemaValueTypesGuard = AssertAssignable<z.infer<typeof parallelZodObject>, Partial<ParallelNodeData>>;
+export type JoinSchemaFieldNamesGuard = AssertAssignable<keyof z.infer<typeof joinZodObject>, keyof JoinNodeData>;
+export type JoinSchemaValueTypesGuard = AssertAssignable<z.infer<typeof joinZodObject>, Partial<JoinNodeData>>;
@@ -67,6 +67,21 @@ export function getIgnoredFields(
   return ignored;
 }
 
+/**
+ * Fields meaningfully set on `nodeData` that are not in `supported` — the
+ * allow-list form of {@link getIgnoredFields}, used for config-defined export
+ * targets that list the fields they understand.
+ */
+export function getFieldsOutsideAllowList(
+  nodeData: Record<string, unknown>,
+  schema: PropertySchema,
+  supported: readonly string[],
+): IgnoredField[] {
+  return Object.entries(schema)
+    .filter(([name]) => !supported.includes(name) && isMeaningful(nodeData[name]))
+    .map(([name, f]) => ({ name, value: nodeData[name], labelKey: f.meta.labelKey }));
+}
+
 /**
  * Return the values to reset when `data`'s active target changes — every field
  * not applicable to `target` is set to `undefined`. Spread the result over the
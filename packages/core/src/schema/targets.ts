@@ -51,3 +51,10 @@ export function exportProviderToTarget(provider: ExportProvider): ExportTarget {
 export function agentSkillProviderToTarget(provider: AgentSkillProvider): ExportTarget {
   return provider;
 }
+
+/**
+ * Built-in agent a config-defined custom export target (`exportTargets` in
+ * `ccwf.config.json`) inherits its defaults from when it names none. Its
+ * SKILL.md wording is the least tool-specific of the built-in agents.
+ */
+export const DEFAULT_CUSTOM_TARGET_BASE: AgentSkillProvider = 'antigravity';
@@ -6,6 +6,15 @@
  * `memory` when exporting to ADK/Gemini). Derived from the same registry the
  * UI renders from, so the two never disagree.
  *
+ * {@link collectParallelFallbackWarnings} reports Parallel nodes exported to
+ * targets without concurrent execution, where branches fall back to running
+ * one after another.
+ *
+ * Both also accept a config-defined custom target (`exportTargets` in
+ * `ccwf.config.json`): its `supportedFields` allow-lists replace the schema's
+ * target scoping per node type, and `parallelExecution` overrides the set
+ * below. Anything it leaves unset follows the built-in agent it `extends`.
+ *
  * Wiring exporters to this helper is incremental: the ADK exporter plugs in
  * after `feat/export-adk` rebases onto this branch (export-adk is not present
  * on `main`). The core exporters (workflow-export, agent-skill-export,
@@ -14,29 +23,82 @@
  */
 
 import { NodeType, type Workflow } from '../types/workflow-definition.js';
+import type { CustomExportTarget } from '../utils/project-config.js';
 import { NODE_PROPERTY_SCHEMAS } from './node-schema-registry.js';
-import { getIgnoredFields } from './queries.js';
-import type { ExportTarget } from './targets.js';
+import { getFieldsOutsideAllowList, getIgnoredFields } from './queries.js';
+import {
+  agentSkillProviderToTarget,
+  DEFAULT_CUSTOM_TARGET_BASE,
+  type ExportTarget,
+} from './targets.js';
+
+/** The built-in target a custom target inherits field scoping and parallelism from. */
+function baseTargetOf(target: ExportTarget | CustomExportTarget): ExportTarget {
+  return typeof target === 'string'
+    ? target
+    : agentSkillProviderToTarget(target.extends ?? DEFAULT_CUSTOM_TARGET_BASE);
+}
 
 /** One human-readable warning per set-but-ignored field of every node whose
  *  type has a registered property schema. */
-export function collectIgnoredFieldWarnings(workflow: Workflow, target: ExportTarget): string[] {
+export function collectIgnoredFieldWarnings(
+  workflow: Workflow,
+  target: ExportTarget | CustomExportTarget,
+): string[] {
   const warnings: string[] = [];
+  const targetName = typeof target === 'string' ? target : target.id;
   for (const node of workflow.nodes) {
     const schema = NODE_PROPERTY_SCHEMAS[node.type as NodeType];
     if (!schema) {
       continue;
     }
     const data = node.data as unknown as Record<string, unknown>;
-    for (const ignored of getIgnoredFields(data, schema, target)) {
+    const supported = typeof target === 'string' ? undefined : target.supportedFields?.[node.type];
+    const ignoredFields = supported
+      ? getFieldsOutsideAllowList(data, schema, supported)
+      : getIgnoredFields(data, schema, baseTargetOf(target));
+    for (const ignored of ignoredFields) {
       warnings.push(
-        `Node "${node.name || node.id}" (${node.type}): field "${ignored.name}" (=${String(ignored.value)}) is ignored when exporting to ${target}.`,
+        `Node "${node.name || node.id}" (${node.type}): field "${ignored.name}" (=${String(ignored.value)}) is ignored when exporting to ${targetName}.`,
       );
     }
   }
   return warnings;
 }
 
+/**
+ * Export targets whose agent can run several sub-agent tasks at once. On every
+ * other target a Parallel node's branches run one after another (see
+ * `getParallelDescription` in workflow-prompt-generator).
+ */
+export const PARALLEL_EXECUTION_TARGETS: ReadonlySet<ExportTarget> = new Set<ExportTarget>([
+  'claudeCode',
+  'codex',
+]);
+
+/** One warning per Parallel node (including those inside Sub-Agent Flows)
+ *  whose branches will run sequentially on `target`. */
+export function collectParallelFallbackWarnings(
+  workflow: Workflow,
+  target: ExportTarget | CustomExportTarget,
+): string[] {
+  const concurrent =
+    typeof target === 'string'
+      ? PARALLEL_EXECUTION_TARGETS.has(target)
+      : (target.parallelExecution ?? PARALLEL_EXECUTION_TARGETS.has(baseTargetOf(target)));
+  if (concurrent) {
+    return [];
+  }
+  const targetName = typeof target === 'string' ? target : target.id;
+  const nodes = [...workflow.nodes, ...(workflow.subAgentFlows ?? []).flatMap((flow) => flow.nodes)];
+  return nodes
+    .filter((node) => node.type === NodeType.Parallel)
+    .map(
+      (node) =>
+        `Node "${node.name || node.id}" (parallel): ${targetName} cannot run branches concurrently; they will run one after another.`,
+    );
+}
+
 /** @deprecated Use {@link collectIgnoredFieldWarnings}; kept for API
  *  stability. Filters to SubAgent nodes and preserves the legacy message
  *  format. */
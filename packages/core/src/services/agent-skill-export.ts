@@ -10,18 +10,28 @@
  * `planAgentSkillFiles` planner that the VSCode extension and the CLI both
  * consume. Claude Code's own workflow export is handled by
  * `planWorkflowExportFiles` in `./workflow-export.ts`.
+ *
+ * Agents without a built-in spec are declared in `ccwf.config.json`
+ * (`exportTargets`, see `utils/project-config`) and planned by
+ * `planCustomTargetFiles`: same document structure, with the target's own
+ * layout, frontmatter and wording on top of the built-in agent it `extends`.
  */
 
 import { BUILT_IN_SUB_AGENTS } from '../constants/built-in-sub-agents.js';
 import { CC_ONLY_MODELS } from '../schema/nodes/sub-agent-schema.js';
+import { DEFAULT_CUSTOM_TARGET_BASE } from '../schema/targets.js';
 import type { SubAgentFlowNode, SubAgentNode, Workflow } from '../types/workflow-definition.js';
+import type { CustomExportTarget } from '../utils/project-config.js';
+import { stampExportContents } from './export-marker.js';
 import {
   type PlannedExportFile,
+  escapeYamlString,
   generateSubAgentFile,
   generateSubAgentFlowAgentFile,
   nodeNameToFileName,
 } from './workflow-export.js';
 import {
+  type ExecutionWording,
   type ExportProvider,
   generateExecutionInstructions,
   generateMermaidFlowchart,
@@ -31,15 +41,18 @@ import {
  * Supported non-Claude agents. Claude Code uses `planWorkflowExportFiles`
  * (which targets `.claude/agents/` + `.claude/skills/<workflow>.md`).
  */
-export type AgentSkillProvider =
-  | 'antigravity'
-  | 'codex'
-  | 'copilot'
-  | 'cursor'
-  | 'gemini'
+export const AGENT_SKILL_PROVIDERS = [
+  'antigravity',
+  'codex',
+  'copilot',
+  'cursor',
+  'gemini',
   // Targets Zoo Code, the maintained fork of the sunset Roo Code extension.
   // The ID stays 'roo-code' because Zoo Code still reads `.roo/skills/`.
-  | 'roo-code';
+  'roo-code',
+] as const;
+
+export type AgentSkillProvider = (typeof AGENT_SKILL_PROVIDERS)[number];
 
 interface AgentSkillSpec {
   /** Directory the SKILL.md lives under, relative to project root. */
@@ -103,11 +116,6 @@ name: ${skillName}
 description: ${description}
 ---`;
 
-  const mermaidContent = generateMermaidFlowchart({
-    nodes: workflow.nodes,
-    connections: workflow.connections,
-  });
-
   const instructions = generateExecutionInstructions(workflow, {
     provider: spec.exportProvider,
     highlightEnabled: options?.highlightEnabled,
@@ -116,6 +124,16 @@ description: ${description}
       : {}),
   });
 
+  return renderSkillDocument(workflow, frontmatter, instructions);
+}
+
+/** Frontmatter + title + Mermaid diagram + execution instructions. */
+function renderSkillDocument(workflow: Workflow, frontmatter: string, instructions: string): string {
+  const mermaidContent = generateMermaidFlowchart({
+    nodes: workflow.nodes,
+    connections: workflow.connections,
+  });
+
   const body = `# ${workflow.name}
 
 ## Workflow Diagram
@@ -140,6 +158,15 @@ export function agentSkillFilePath(workflow: Workflow, agent: AgentSkillProvider
   return `${spec.skillsDir}/${skillName}/SKILL.md`;
 }
 
+/** Directories `planAgentSkillFiles` writes under for a given agent. */
+export function agentSkillOutputDirs(agent: AgentSkillProvider): {
+  skillsDir: string;
+  agentsDir?: string;
+} {
+  const { skillsDir, agentsDir } = AGENT_SKILL_SPECS[agent];
+  return { skillsDir, agentsDir };
+}
+
 /**
  * Plan the file set `ccwf export --agent <agent>` (and the VSCode extension's
  * per-provider export) needs to write.
@@ -157,52 +184,201 @@ export function planAgentSkillFiles(
   // Main SKILL.md
   planned.push({
     relativePath: agentSkillFilePath(workflow, agent),
-    contents: generateAgentSkillContent(workflow, agent, options),
+    contents: stampExportContents(generateAgentSkillContent(workflow, agent, options)),
     kind: 'subAgentFlow', // closest existing kind label for "workflow-as-skill"
     sourceName: workflow.name,
   });
 
   // Cursor (and future providers with agentsDir set) mirror Sub-Agent files.
   if (spec.agentsDir) {
-    const subAgentNodes = workflow.nodes.filter(
-      (n): n is SubAgentNode => n.type === 'subAgent'
-    );
-    for (const node of subAgentNodes) {
-      const preset = node.data.builtInType
-        ? BUILT_IN_SUB_AGENTS.find((p) => p.type === node.data.builtInType)
-        : undefined;
-      const fileName = nodeNameToFileName(node.name);
-      planned.push({
-        relativePath: `${spec.agentsDir}/${fileName}.md`,
-        contents: generateSubAgentFile(node, {
+    planned.push(...planMirroredAgentFiles(workflow, spec.agentsDir, options));
+  }
+
+  return planned;
+}
+
+/** Sub-Agent and Sub-Agent Flow files under `agentsDir` (Cursor's `.cursor/agents`). */
+function planMirroredAgentFiles(
+  workflow: Workflow,
+  agentsDir: string,
+  options?: AgentSkillExportOptions
+): PlannedExportFile[] {
+  const planned: PlannedExportFile[] = [];
+  const subAgentNodes = workflow.nodes.filter((n): n is SubAgentNode => n.type === 'subAgent');
+  for (const node of subAgentNodes) {
+    const preset = node.data.builtInType
+      ? BUILT_IN_SUB_AGENTS.find((p) => p.type === node.data.builtInType)
+      : undefined;
+    const fileName = nodeNameToFileName(node.name);
+    planned.push({
+      relativePath: `${agentsDir}/${fileName}.md`,
+      contents: stampExportContents(
+        generateSubAgentFile(node, {
           readonly: preset?.readonly,
           omitModel: node.data.model !== undefined && CC_ONLY_MODELS.includes(node.data.model),
-        }),
-        kind: 'subAgent',
-        sourceName: node.name,
+        })
+      ),
+      kind: 'subAgent',
+      sourceName: node.name,
+    });
+  }
+
+  if (workflow.subAgentFlows && workflow.subAgentFlows.length > 0) {
+    const subAgentFlowNodes = workflow.nodes.filter(
+      (n): n is SubAgentFlowNode => n.type === 'subAgentFlow'
+    );
+    const workflowBaseName = nodeNameToFileName(workflow.name);
+    for (const flow of workflow.subAgentFlows) {
+      const flowFileName = nodeNameToFileName(flow.name);
+      const fileName = `${workflowBaseName}_${flowFileName}`;
+      const referencingNode = subAgentFlowNodes.find((n) => n.data.subAgentFlowId === flow.id);
+      planned.push({
+        relativePath: `${agentsDir}/${fileName}.md`,
+        contents: stampExportContents(
+          generateSubAgentFlowAgentFile(flow, fileName, referencingNode, options)
+        ),
+        kind: 'subAgentFlow',
+        sourceName: flow.name,
       });
     }
+  }
 
-    if (workflow.subAgentFlows && workflow.subAgentFlows.length > 0) {
-      const subAgentFlowNodes = workflow.nodes.filter(
-        (n): n is SubAgentFlowNode => n.type === 'subAgentFlow'
-      );
-      const workflowBaseName = nodeNameToFileName(workflow.name);
-      for (const flow of workflow.subAgentFlows) {
-        const flowFileName = nodeNameToFileName(flow.name);
-        const fileName = `${workflowBaseName}_${flowFileName}`;
-        const referencingNode = subAgentFlowNodes.find(
-          (n) => n.data.subAgentFlowId === flow.id
-        );
-        planned.push({
-          relativePath: `${spec.agentsDir}/${fileName}.md`,
-          contents: generateSubAgentFlowAgentFile(flow, fileName, referencingNode, options),
-          kind: 'subAgentFlow',
-          sourceName: flow.name,
-        });
-      }
-    }
+  return planned;
+}
+
+// ---------------------------------------------------------------------------
+// Custom (config-defined) export targets
+// ---------------------------------------------------------------------------
+
+/** Built-in agent a custom target inherits from. */
+function customTargetBase(target: CustomExportTarget): AgentSkillProvider {
+  return target.extends ?? DEFAULT_CUSTOM_TARGET_BASE;
+}
+
+/** `skillPath`, defaulting to `.<id>/skills/{name}/SKILL.md`. */
+function skillPathTemplate(target: CustomExportTarget): string {
+  return target.skillPath ?? `.${target.id}/skills/{name}/SKILL.md`;
+}
+
+/** Name a custom target goes by in messages and instructions. */
+export function customTargetDisplayName(target: CustomExportTarget): string {
+  return target.displayName ?? target.id;
+}
+
+/** Project-relative path of the SKILL.md a custom target writes for `workflow`. */
+export function customTargetSkillFilePath(workflow: Workflow, target: CustomExportTarget): string {
+  const template = skillPathTemplate(target);
+  return template.split('{name}').join(nodeNameToFileName(workflow.name));
+}
+
+/**
+ * Where `planCustomTargetFiles` writes: the SKILL.md location split into a
+ * skills directory and file name when `skillPath` has the
+ * `<dir>/{name}/<file>` shape (other shapes leave both unset), plus
+ * `agentsDir`. The counterpart of {@link agentSkillOutputDirs}.
+ */
+export function customTargetOutputDirs(target: CustomExportTarget): {
+  skillsDir?: string;
+  skillFileName?: string;
+  agentsDir?: string;
+} {
+  const template = skillPathTemplate(target);
+  const match = /^([^{}]+)\/\{name\}\/([^/{}]+)$/.exec(template);
+  return {
+    ...(match ? { skillsDir: match[1], skillFileName: match[2] } : {}),
+    ...(target.agentsDir ? { agentsDir: target.agentsDir } : {}),
+  };
+}
+
+/**
+ * Instruction wording for a custom target: its `instructions`, else phrases
+ * built from its `tools` vocabulary. Anything left unset falls back to the
+ * base agent's wording.
+ */
+export function customTargetWording(target: CustomExportTarget): ExecutionWording {
+  const { tools, instructions, parallelExecution } = target;
+  let parallel = instructions?.parallel;
+  if (!parallel && parallelExecution !== undefined) {
+    parallel = parallelExecution
+      ? 'Run every branch concurrently and wait for all of them at the matching Join node'
+      : 'Run the branches one after another, in the order listed in Parallel Node Details, each up to the matching Join node';
   }
+  return {
+    agentName: customTargetDisplayName(target),
+    subAgent:
+      instructions?.subAgent ??
+      (tools?.subAgent ? `Execute Sub-Agents using the ${tools.subAgent} tool` : undefined),
+    askUserQuestion:
+      instructions?.askUserQuestion ??
+      (tools?.askUserQuestion
+        ? `Use the ${tools.askUserQuestion} tool to prompt the user and branch based on their response`
+        : undefined),
+    parallel,
+    shell: instructions?.shell ?? (tools?.shell ? `Use the ${tools.shell} tool to run` : undefined),
+    parallelExecution,
+  };
+}
+
+/**
+ * Generate the SKILL.md body for a custom target. Frontmatter values are
+ * templates: `{name}` (skill / file name), `{description}` and
+ * `{workflowName}`; the default is the built-in `name` + `description` pair.
+ */
+export function generateCustomTargetSkillContent(
+  workflow: Workflow,
+  target: CustomExportTarget,
+  options?: AgentSkillExportOptions
+): string {
+  const spec = AGENT_SKILL_SPECS[customTargetBase(target)];
+  const skillName = nodeNameToFileName(workflow.name);
+  const description = workflow.metadata?.description || defaultSkillDescription(workflow);
+  const values: Record<string, string> = {
+    name: skillName,
+    description: `${description}`,
+    workflowName: workflow.name,
+  };
+  const fields = target.frontmatter ?? { name: '{name}', description: '{description}' };
+  const frontmatterLines = Object.entries(fields).map(([key, template]) => {
+    const value = template.replace(
+      /\{(name|description|workflowName)\}/g,
+      (_match: string, placeholder: string) => values[placeholder]
+    );
+    return `${key}: ${escapeYamlString(value)}`;
+  });
+  const frontmatter = ['---', ...frontmatterLines, '---'].join('\n');
+
+  const instructions = generateExecutionInstructions(workflow, {
+    provider: spec.exportProvider,
+    wording: customTargetWording(target),
+    highlightEnabled: options?.highlightEnabled,
+    ...(spec.passSubAgentFlowsToInstructions || target.agentsDir
+      ? { parentWorkflowName: skillName, subAgentFlows: workflow.subAgentFlows }
+      : {}),
+  });
 
+  return renderSkillDocument(workflow, frontmatter, instructions);
+}
+
+/**
+ * Plan the file set `ccwf export --agent <custom-target>` (and the VSCode
+ * extension's custom-target export) writes. Returned paths use forward
+ * slashes and are relative to the project root.
+ */
+export function planCustomTargetFiles(
+  workflow: Workflow,
+  target: CustomExportTarget,
+  options?: AgentSkillExportOptions
+): PlannedExportFile[] {
+  const planned: PlannedExportFile[] = [
+    {
+      relativePath: customTargetSkillFilePath(workflow, target),
+      contents: stampExportContents(generateCustomTargetSkillContent(workflow, target, options)),
+      kind: 'subAgentFlow', // closest existing kind label for "workflow-as-skill"
+      sourceName: workflow.name,
+    },
+  ];
+  if (target.agentsDir) {
+    planned.push(...planMirroredAgentFiles(workflow, target.agentsDir, options));
+  }
   return planned;
 }
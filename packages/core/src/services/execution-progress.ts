@@ -0,0 +1,326 @@
+/**
+ * Node-level progress tracking for workflows running in a Claude Code session.
+ *
+ * Two signals are mapped back to workflow node IDs:
+ *
+ * 1. Progress markers — `[ccwf:node <id> start|done|failed]` lines the
+ *    agent is asked to print, either by the launch prompt
+ *    (`generateProgressMarkerPrompt`; editor runs use this so the exported
+ *    files stay unchanged) or by an export generated with
+ *    `progressMarkers: true`. They cover every node type, including
+ *    Prompt / IfElse / Switch nodes that leave no tool-call trace. Sub-Agent
+ *    Flow agents repeat theirs in the final response, which arrives as the
+ *    flow node's `tool_result`.
+ * 2. Tool calls — a `Task`/`Agent` call for a Sub-Agent (or Sub-Agent Flow)
+ *    node, a `Skill` call for a Skill node, or an `mcp__<server>__<tool>`
+ *    call for an MCP node. The matching `tool_result` completes (or fails)
+ *    the node, so tracking still works when the agent skips a marker.
+ *
+ * The tracker is fed raw transcript entries (one parsed JSONL line at a
+ * time) and performs no I/O; the VSCode extension owns the file watching.
+ */
+
+import type {
+  McpNode,
+  SkillNode,
+  SubAgentFlowNode,
+  SubAgentNode,
+  Workflow,
+  WorkflowNode,
+} from '../types/workflow-definition.js';
+import { nodeNameToFileName } from './workflow-export.js';
+import { sanitizeNodeId } from './workflow-prompt-generator.js';
+
+export type NodeExecutionStatus = 'running' | 'completed' | 'failed';
+
+export interface NodeProgressUpdate {
+  nodeId: string;
+  status: NodeExecutionStatus;
+  timestamp: string;
+}
+
+export type NodeProgressPhase = 'start' | 'done' | 'failed';
+
+const MARKER_PATTERN = /\[ccwf:node ([^\s\]]+) (start|done|failed)\]/g;
+
+const PHASE_TO_STATUS: Record<NodeProgressPhase, NodeExecutionStatus> = {
+  start: 'running',
+  done: 'completed',
+  failed: 'failed',
+};
+
+/** Node types that never do work of their own and are not tracked. */
+const UNTRACKED_NODE_TYPES = new Set<string>(['start', 'end', 'group']);
+
+/** Render the marker line an agent prints for `nodeId` at `phase`. */
+export function formatNodeProgressMarker(nodeId: string, phase: NodeProgressPhase): string {
+  return `[ccwf:node ${sanitizeNodeId(nodeId)} ${phase}]`;
+}
+
+/** Remove progress markers from agent text (e.g. before showing it as activity). */
+export function stripNodeProgressMarkers(text: string): string {
+  return text.replace(MARKER_PATTERN, '').trim();
+}
+
+function filterTrackable(nodes: WorkflowNode[]): WorkflowNode[] {
+  return nodes.filter((n) => !UNTRACKED_NODE_TYPES.has(n.type as string));
+}
+
+/**
+ * Nodes that progress markers are requested for: the main workflow's nodes in
+ * workflow order, followed by the nodes of each Sub-Agent Flow.
+ */
+export function getTrackableNodes(
+  workflow: Pick<Workflow, 'nodes' | 'subAgentFlows'>
+): WorkflowNode[] {
+  return [
+    ...filterTrackable(workflow.nodes),
+    ...(workflow.subAgentFlows ?? []).flatMap((flow) => filterTrackable(flow.nodes)),
+  ];
+}
+
+/**
+ * Progress-marker instructions for the launch prompt of an observed run
+ * (`claude --append-system-prompt`), so the exported files stay free of
+ * run-only content. Sub-Agent Flow agents run in their own context, so the
+ * main agent is asked to pass the instructions on and the flow agent to repeat
+ * its markers in the final response, which lands in the session transcript.
+ *
+ * The text is a single line of sanitized IDs and plain words (no quotes, `$`,
+ * backticks or backslashes) so it can be passed as a double-quoted shell
+ * argument. Returns `undefined` when there is nothing to track.
+ */
+export function generateProgressMarkerPrompt(
+  workflow: Pick<Workflow, 'name' | 'nodes' | 'subAgentFlows'>
+): string | undefined {
+  const mainIds = filterTrackable(workflow.nodes).map((n) => sanitizeNodeId(n.id));
+  if (mainIds.length === 0) return undefined;
+
+  const parts = [
+    'This run is observed by the workflow editor.',
+    'Print a progress marker on its own line when you start and when you finish each workflow node, using the node ID from the flowchart:',
+    '[ccwf:node <node-id> start] right before executing the node,',
+    '[ccwf:node <node-id> done] right after it completes, or',
+    '[ccwf:node <node-id> failed] if it cannot be completed.',
+    `Node IDs: ${mainIds.join(', ')}.`,
+  ];
+
+  const workflowBaseName = nodeNameToFileName(workflow.name);
+  for (const node of workflow.nodes) {
+    if (node.type !== 'subAgentFlow') continue;
+    const flowId = (node as SubAgentFlowNode).data.subAgentFlowId;
+    const flow = workflow.subAgentFlows?.find((f) => f.id === flowId);
+    const flowIds = flow ? filterTrackable(flow.nodes).map((n) => sanitizeNodeId(n.id)) : [];
+    if (!flow || flowIds.length === 0) continue;
+    parts.push(
+      `When you launch the ${workflowBaseName}_${nodeNameToFileName(flow.name)} agent, add to its task prompt that it must print the same markers for its nodes ${flowIds.join(', ')} and end its final response with every marker it printed, in order.`
+    );
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Maps Claude Code transcript entries to node status changes for one run.
+ * Create one instance per run; it remembers in-flight tool calls.
+ */
+export class NodeProgressTracker {
+  private readonly nodeIdByMarkerId = new Map<string, string>();
+  private readonly nodeIdByAgentName = new Map<string, string>();
+  private readonly nodeIdBySkillName = new Map<string, string>();
+  private readonly nodeIdByMcpTool = new Map<string, string>();
+  private readonly nodeIdByToolUseId = new Map<string, string>();
+  private readonly statuses = new Map<string, NodeExecutionStatus>();
+
+  constructor(workflow: Pick<Workflow, 'name' | 'nodes' | 'subAgentFlows'>) {
+    // Keys shared by two nodes (same agent / skill / tool) are dropped: only
+    // markers can tell those nodes apart.
+    const ambiguous = new Map<Map<string, string>, Set<string>>();
+    const register = (table: Map<string, string>, key: string | undefined, nodeId: string) => {
+      if (!key) return;
+      const dropped = ambiguous.get(table) ?? new Set<string>();
+      ambiguous.set(table, dropped);
+      if (dropped.has(key)) return;
+      if (table.has(key) && table.get(key) !== nodeId) {
+        table.delete(key);
+        dropped.add(key);
+        return;
+      }
+      table.set(key, nodeId);
+    };
+
+    const workflowBaseName = nodeNameToFileName(workflow.name);
+    for (const node of getTrackableNodes(workflow)) {
+      this.nodeIdByMarkerId.set(sanitizeNodeId(node.id), node.id);
+      this.nodeIdByMarkerId.set(node.id, node.id);
+    }
+
+    // Tool calls made inside a Sub-Agent Flow never reach the main
+    // transcript, so only the main workflow's nodes are keyed by tool.
+    for (const node of filterTrackable(workflow.nodes)) {
+      switch (node.type) {
+        case 'subAgent': {
+          const data = (node as SubAgentNode).data;
+          if (data.builtInType) {
+            register(this.nodeIdByAgentName, data.builtInType, node.id);
+          } else if (data.pluginName) {
+            register(this.nodeIdByAgentName, `${data.pluginName}:${node.name}`, node.id);
+          } else {
+            register(this.nodeIdByAgentName, nodeNameToFileName(node.name), node.id);
+          }
+          break;
+        }
+        case 'subAgentFlow': {
+          const flowId = (node as SubAgentFlowNode).data.subAgentFlowId;
+          const flow = workflow.subAgentFlows?.find((f) => f.id === flowId);
+          if (flow) {
+            register(
+              this.nodeIdByAgentName,
+              `${workflowBaseName}_${nodeNameToFileName(flow.name)}`,
+              node.id
+            );
+          }
+          break;
+        }
+        case 'skill': {
+          const data = (node as SkillNode).data;
+          register(
+            this.nodeIdBySkillName,
+            data.pluginName ? `${data.pluginName}:${data.name}` : data.name,
+            node.id
+          );
+          break;
+        }
+        case 'mcp': {
+          const data = (node as McpNode).data;
+          // AI tool selection picks the tool at run time; key on the server alone.
+          const key =
+            data.mode === 'aiToolSelection'
+              ? `mcp__${data.serverId}__`
+              : `mcp__${data.serverId}__${data.toolName}`;
+          register(this.nodeIdByMcpTool, key, node.id);
+          break;
+        }
+      }
+    }
+  }
+
+  /** Current status of every node seen so far. */
+  getStatuses(): Record<string, NodeExecutionStatus> {
+    return Object.fromEntries(this.statuses);
+  }
+
+  /**
+   * Mark every still-running node as failed. Call when the session itself
+   * fails or is cancelled so the canvas doesn't show a node spinning forever.
+   */
+  failRunningNodes(timestamp: string): NodeProgressUpdate[] {
+    const updates: NodeProgressUpdate[] = [];
+    for (const [nodeId, status] of this.statuses) {
+      if (status === 'running') {
+        updates.push(this.apply(nodeId, 'failed', timestamp));
+      }
+    }
+    return updates;
+  }
+
+  /** Feed one parsed transcript (JSONL) entry; returns the status changes it caused. */
+  ingest(entry: unknown): NodeProgressUpdate[] {
+    if (!isRecord(entry)) return [];
+    const timestamp =
+      typeof entry.timestamp === 'string' ? entry.timestamp : new Date().toISOString();
+    const message = isRecord(entry.message) ? entry.message : undefined;
+    const content = message?.content;
+    const updates: NodeProgressUpdate[] = [];
+
+    if (entry.type === 'assistant') {
+      for (const block of contentBlocks(content)) {
+        if (block.type === 'text' && typeof block.text === 'string') {
+          updates.push(...this.ingestMarkers(block.text, timestamp));
+        } else if (block.type === 'tool_use') {
+          const nodeId = this.matchToolUse(block);
+          if (nodeId && typeof block.id === 'string') {
+            this.nodeIdByToolUseId.set(block.id, nodeId);
+            updates.push(this.apply(nodeId, 'running', timestamp));
+          }
+        }
+      }
+      if (typeof content === 'string') {
+        updates.push(...this.ingestMarkers(content, timestamp));
+      }
+    } else if (entry.type === 'user') {
+      for (const block of contentBlocks(content)) {
+        if (block.type !== 'tool_result' || typeof block.tool_use_id !== 'string') continue;
+        const nodeId = this.nodeIdByToolUseId.get(block.tool_use_id);
+        if (!nodeId) continue;
+        this.nodeIdByToolUseId.delete(block.tool_use_id);
+        // A Sub-Agent Flow agent repeats its node markers in its final response.
+        updates.push(...this.ingestMarkers(toolResultText(block.content), timestamp));
+        updates.push(
+          this.apply(nodeId, block.is_error === true ? 'failed' : 'completed', timestamp)
+        );
+      }
+    }
+
+    return updates;
+  }
+
+  private ingestMarkers(text: string, timestamp: string): NodeProgressUpdate[] {
+    const updates: NodeProgressUpdate[] = [];
+    for (const match of text.matchAll(MARKER_PATTERN)) {
+      const nodeId = this.nodeIdByMarkerId.get(match[1]);
+      if (nodeId) {
+        updates.push(this.apply(nodeId, PHASE_TO_STATUS[match[2] as NodeProgressPhase], timestamp));
+      }
+    }
+    return updates;
+  }
+
+  private matchToolUse(block: Record<string, unknown>): string | undefined {
+    const name = typeof block.name === 'string' ? block.name : '';
+    const input = isRecord(block.input) ? block.input : {};
+
+    if (name === 'Task' || name === 'Agent') {
+      return typeof input.subagent_type === 'string'
+        ? this.nodeIdByAgentName.get(input.subagent_type)
+        : undefined;
+    }
+    if (name === 'Skill') {
+      const skill = input.skill ?? input.command;
+      return typeof skill === 'string'
+        ? this.nodeIdBySkillName.get(skill.replace(/^\//, ''))
+        : undefined;
+    }
+    if (name.startsWith('mcp__')) {
+      return (
+        this.nodeIdByMcpTool.get(name) ??
+        this.nodeIdByMcpTool.get(name.slice(0, name.lastIndexOf('__') + 2))
+      );
+    }
+    return undefined;
+  }
+
+  private apply(
+    nodeId: string,
+    status: NodeExecutionStatus,
+    timestamp: string
+  ): NodeProgressUpdate {
+    this.statuses.set(nodeId, status);
+    return { nodeId, status, timestamp };
+  }
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  return contentBlocks(content)
+    .map((block) => (typeof block.text === 'string' ? block.text : ''))
+    .join('\n');
+}
+
+function contentBlocks(content: unknown): Record<string, unknown>[] {
+  return Array.isArray(content) ? content.filter(isRecord) : [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,262 @@
+/**
+ * Content-hash markers on exported files, and hand-edit detection on
+ * re-export.
+ *
+ * Every planner (`planWorkflowExportFiles`, `planAgentSkillFiles`,
+ * `planCustomTargetFiles`) ends each file with
+ * `<!-- ccwf-export-hash: <hash> -->`, the hash of everything above it. On
+ * re-export a file on disk is then one of:
+ *
+ * - `unchanged` — the marker matches; the file is ccwf's own output and can
+ *   be replaced without asking.
+ * - `edited` — the marker is there but the content changed since export.
+ * - `unmarked` — no marker: written before markers existed, or by hand.
+ *
+ * For the last two the caller chooses: keep the file, overwrite it, or pull
+ * the edits back into the workflow (`pullBackExportEdits`) — a Sub-Agent
+ * file's body and frontmatter into the node's `agentDefinition` /
+ * `description` / `tools` / `model`, and a Prompt node's code block into its
+ * `prompt`. No file I/O.
+ */
+
+import { SUB_AGENT_MODEL_VALUES } from '../schema/nodes/sub-agent-schema.js';
+import type {
+  PromptNode,
+  SubAgentFlow,
+  SubAgentNode,
+  Workflow,
+  WorkflowNode,
+} from '../types/workflow-definition.js';
+import { type FrontmatterValue, parseMarkdownFrontmatter } from '../utils/markdown-frontmatter.js';
+import type { PlannedExportFile } from './workflow-export.js';
+import { sanitizeNodeId } from './workflow-prompt-generator.js';
+
+export type ExportedFileState = 'unchanged' | 'edited' | 'unmarked';
+
+const MARKER_PATTERN = /\n*^<!-- ccwf-export-hash: ([0-9a-f]{16}) -->[ \t]*$\n?/gm;
+
+/** The last marker line; text appended below it still counts as an edit. */
+function findMarker(contents: string): RegExpExecArray | undefined {
+  let last: RegExpExecArray | undefined;
+  MARKER_PATTERN.lastIndex = 0;
+  for (let match = MARKER_PATTERN.exec(contents); match; match = MARKER_PATTERN.exec(contents)) {
+    last = match;
+  }
+  return last;
+}
+
+// Git may check files out with CRLF on Windows, and editors add or drop the
+// final newline; neither is an edit.
+function normalizeForHash(contents: string): string {
+  return contents.replace(/\r\n/g, '\n').trimEnd();
+}
+
+function fnv1a32(text: string, offsetBasis: number): string {
+  let hash = offsetBasis;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 16-hex-digit FNV-1a hash of exported contents (line endings and trailing
+ * whitespace ignored). Detects edits; it is not a security checksum.
+ */
+export function hashExportContents(contents: string): string {
+  const text = normalizeForHash(contents);
+  return fnv1a32(text, 0x811c9dc5) + fnv1a32(text, 0x050c5d1f);
+}
+
+/** Append the content-hash marker to generated contents. */
+export function stampExportContents(contents: string): string {
+  return `${contents.trimEnd()}\n\n<!-- ccwf-export-hash: ${hashExportContents(contents)} -->\n`;
+}
+
+/** Contents without the content-hash marker line (unchanged when there is none). */
+export function stripExportMarker(contents: string): string {
+  const text = contents.replace(/\r\n/g, '\n');
+  const marker = findMarker(text);
+  if (!marker) return text;
+  return `${text.slice(0, marker.index)}\n${text.slice(marker.index + marker[0].length)}`;
+}
+
+/** Whether a file on disk is ccwf's unedited output, a hand-edited export, or unmarked. */
+export function inspectExportedFile(contents: string): ExportedFileState {
+  const marker = findMarker(contents.replace(/\r\n/g, '\n'));
+  if (!marker) return 'unmarked';
+  return hashExportContents(stripExportMarker(contents)) === marker[1] ? 'unchanged' : 'edited';
+}
+
+export interface ExportPullBackResult {
+  /** The workflow with the edits applied (the input when nothing could be pulled back). */
+  workflow: Workflow;
+  /** One line per field taken from the file, e.g. `code-reviewer: agentDefinition`. */
+  pulled: string[];
+  /** The text of each field in `pulled`, in the same order (for secret checks before saving). */
+  pulledValues: string[];
+  /**
+   * Whether the workflow now holds every edit in the file. False when it has
+   * edits outside what can be pulled back (Mermaid diagram, execution
+   * guide wording, …); a re-export drops those.
+   */
+  complete: boolean;
+}
+
+/**
+ * Pull a hand-edited export back into the workflow that produced it.
+ *
+ * `file` is the planned version of the file (from the current workflow) and
+ * `onDisk` the edited one; only fields whose text differs between the two
+ * are taken. `plan` re-plans a workflow; a Sub-Agent file is fully pulled
+ * back when the updated workflow re-exports it unchanged.
+ */
+export function pullBackExportEdits(
+  workflow: Workflow,
+  file: PlannedExportFile,
+  onDisk: string,
+  plan: (workflow: Workflow) => PlannedExportFile[]
+): ExportPullBackResult {
+  const pulled: string[] = [];
+  const pulledValues: string[] = [];
+  const edited = stripExportMarker(onDisk);
+  const planned = stripExportMarker(file.contents);
+
+  if (file.kind === 'subAgent') {
+    const updated = pullSubAgentFile(
+      workflow,
+      file.sourceName,
+      planned,
+      edited,
+      pulled,
+      pulledValues
+    );
+    const replanned = plan(updated).find((f) => f.relativePath === file.relativePath);
+    const complete =
+      replanned !== undefined &&
+      normalizeForHash(stripExportMarker(replanned.contents)) === normalizeForHash(edited);
+    return { workflow: pulled.length > 0 ? updated : workflow, pulled, pulledValues, complete };
+  }
+
+  // Prompt labels and the Mermaid diagram are derived from the prompts, so a
+  // re-export differs from the edited file; instead, the file is fully pulled
+  // back when the edited prompt blocks are its only changes.
+  let patched = planned;
+  const mapPrompts = (nodes: WorkflowNode[]): WorkflowNode[] =>
+    nodes.map((node) => {
+      if (node.type !== 'prompt') return node;
+      const nodeId = sanitizeNodeId(node.id);
+      const before = findPromptBlock(patched, nodeId);
+      const after = findPromptBlock(edited, nodeId);
+      if (!before || !after || before.text === after.text) return node;
+      patched = [
+        ...before.lines.slice(0, before.start),
+        after.text,
+        ...before.lines.slice(before.end),
+      ].join('\n');
+      pulled.push(`${node.name}: prompt`);
+      pulledValues.push(after.text);
+      return { ...node, data: { ...(node as PromptNode).data, prompt: after.text } } as PromptNode;
+    });
+  const updated: Workflow = {
+    ...workflow,
+    nodes: mapPrompts(workflow.nodes),
+    ...(workflow.subAgentFlows
+      ? {
+          subAgentFlows: workflow.subAgentFlows.map(
+            (flow): SubAgentFlow => ({ ...flow, nodes: mapPrompts(flow.nodes) })
+          ),
+        }
+      : {}),
+  };
+  return {
+    workflow: pulled.length > 0 ? updated : workflow,
+    pulled,
+    pulledValues,
+    complete: normalizeForHash(patched) === normalizeForHash(edited),
+  };
+}
+
+const PULLED_SUB_AGENT_FIELDS = ['description', 'tools', 'model'] as const;
+
+function pullSubAgentFile(
+  workflow: Workflow,
+  nodeName: string,
+  planned: string,
+  edited: string,
+  pulled: string[],
+  pulledValues: string[]
+): Workflow {
+  const before = parseOrUndefined(planned);
+  const after = parseOrUndefined(edited);
+  if (!before || !after) return workflow;
+
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map((node) => {
+      if (node.type !== 'subAgent' || node.name !== nodeName) return node;
+      const subAgent = node as SubAgentNode;
+      const data = { ...subAgent.data };
+
+      for (const field of PULLED_SUB_AGENT_FIELDS) {
+        const value = after.fields[field];
+        if (typeof value !== 'string' || value === before.fields[field]) continue;
+        if (field === 'model') {
+          if (!(SUB_AGENT_MODEL_VALUES as readonly string[]).includes(value)) continue;
+          data.model = value as SubAgentNode['data']['model'];
+        } else {
+          data[field] = value;
+        }
+        pulled.push(`${node.name}: ${field}`);
+        pulledValues.push(value);
+      }
+      if (after.body.trimEnd() !== before.body.trimEnd()) {
+        data.agentDefinition = after.body.trimEnd();
+        pulled.push(`${node.name}: agentDefinition`);
+        pulledValues.push(data.agentDefinition);
+      }
+      return { ...subAgent, data };
+    }),
+  };
+}
+
+function parseOrUndefined(
+  contents: string
+): { fields: Record<string, FrontmatterValue>; body: string } | undefined {
+  try {
+    return parseMarkdownFrontmatter(contents);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The fenced block under a Prompt node's `#### <id>(…)` heading in the
+ * execution guide: its text and the line range `[start, end)` it occupies.
+ */
+function findPromptBlock(
+  contents: string,
+  nodeId: string
+): { lines: string[]; start: number; end: number; text: string } | undefined {
+  const lines = contents.split('\n');
+  const heading = lines.findIndex((line) => line.startsWith(`#### ${nodeId}(`));
+  if (heading === -1) return undefined;
+  const open = lines.findIndex((line, i) => i > heading && line.trim() !== '');
+  if (open === -1 || lines[open] !== '```') return undefined;
+  // The block ends at the last ``` before the next heading, so prompts that
+  // contain fences of their own survive.
+  let next = lines.findIndex((line, i) => i > open && /^#{1,4} /.test(line));
+  if (next === -1) next = lines.length;
+  for (let close = next - 1; close > open; close--) {
+    if (lines[close] === '```') {
+      return {
+        lines,
+        start: open + 1,
+        end: close,
+        text: lines.slice(open + 1, close).join('\n'),
+      };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,673 @@
+/**
+ * Semantic diff and three-way merge for workflow JSON.
+ *
+ * Works on the graph rather than on text: nodes and Sub-Agent Flows are
+ * matched by `id`, connections by `id` (falling back to their endpoints), so
+ * reordering or re-indenting a file produces no changes. Field paths use the
+ * same `nodes[<id>].data.<field>` notation as `ValidationError.field`.
+ *
+ * `mergeWorkflows` resolves non-overlapping edits automatically and marks the
+ * rest with readable conflict objects (see {@link CONFLICT_MARKER_KEYS}) that
+ * keep the file valid JSON — the shape `ccwf merge` hands back to git.
+ */
+
+import type {
+  Connection,
+  Position,
+  SubAgentFlow,
+  Workflow,
+  WorkflowNode,
+} from '../types/workflow-definition.js';
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+export interface FieldChange {
+  /** Dotted path relative to the changed entity, e.g. `data.branches[1].label`. */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeChange {
+  kind: 'added' | 'removed' | 'modified';
+  id: string;
+  name: string;
+  type: string;
+  /** Field-level edits (modified nodes only). Position is reported via `moved`. */
+  fieldChanges: FieldChange[];
+  /** Set when the node's canvas position changed. */
+  moved?: { from: Position; to: Position };
+}
+
+export interface ConnectionChange {
+  kind: 'added' | 'removed' | 'rewired';
+  /** The connection after the change (before it, for `removed`). */
+  connection: Connection;
+  /** The connection before a rewire. */
+  previous?: Connection;
+}
+
+export interface GraphDiff {
+  nodes: NodeChange[];
+  connections: ConnectionChange[];
+}
+
+export interface SubAgentFlowChange extends GraphDiff {
+  kind: 'added' | 'removed' | 'modified';
+  id: string;
+  name: string;
+  /** Edits to the flow's own fields (name, description). */
+  fieldChanges: FieldChange[];
+}
+
+export interface WorkflowDiff extends GraphDiff {
+  /** Edits to workflow-level fields (name, description, slashCommandOptions, tour, …). */
+  fieldChanges: FieldChange[];
+  subAgentFlows: SubAgentFlowChange[];
+  /** Total number of reported changes; 0 means semantically identical. */
+  changeCount: number;
+}
+
+/**
+ * Workflow-level keys that never count as a change: timestamps churn on every
+ * save and the AI conversation log is not part of the workflow's behaviour.
+ */
+const IGNORED_WORKFLOW_KEYS = new Set([
+  'nodes',
+  'connections',
+  'subAgentFlows',
+  'createdAt',
+  'updatedAt',
+  'conversationHistory',
+]);
+
+const IGNORED_FLOW_KEYS = new Set(['id', 'nodes', 'connections', 'conversationHistory']);
+
+/** Compute the semantic difference from `before` to `after`. */
+export function diffWorkflows(before: Workflow, after: Workflow): WorkflowDiff {
+  const fieldChanges = diffFields(before, after, IGNORED_WORKFLOW_KEYS);
+  const graph = diffGraph(before, after);
+  const subAgentFlows = diffSubAgentFlows(before.subAgentFlows ?? [], after.subAgentFlows ?? []);
+
+  const changeCount =
+    fieldChanges.length +
+    graph.nodes.length +
+    graph.connections.length +
+    subAgentFlows.reduce(
+      (sum, flow) =>
+        sum +
+        (flow.kind === 'modified'
+          ? flow.fieldChanges.length + flow.nodes.length + flow.connections.length
+          : 1),
+      0
+    );
+
+  return { fieldChanges, ...graph, subAgentFlows, changeCount };
+}
+
+function diffGraph(
+  before: { nodes: WorkflowNode[]; connections: Connection[] },
+  after: { nodes: WorkflowNode[]; connections: Connection[] }
+): GraphDiff {
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.id, n]));
+  const nodes: NodeChange[] = [];
+
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      nodes.push({ kind: 'added', ...describeNode(node), fieldChanges: [] });
+      continue;
+    }
+    const fieldChanges = diffFields(previous, node, new Set(['id', 'position']));
+    const moved =
+      previous.position.x !== node.position.x || previous.position.y !== node.position.y
+        ? { from: previous.position, to: node.position }
+        : undefined;
+    if (fieldChanges.length > 0 || moved) {
+      nodes.push({
+        kind: 'modified',
+        ...describeNode(node),
+        fieldChanges,
+        ...(moved ? { moved } : {}),
+      });
+    }
+  }
+  for (const node of before.nodes) {
+    if (!afterNodes.has(node.id)) {
+      nodes.push({ kind: 'removed', ...describeNode(node), fieldChanges: [] });
+    }
+  }
+
+  return { nodes, connections: diffConnections(before.connections, after.connections) };
+}
+
+function diffConnections(before: Connection[], after: Connection[]): ConnectionChange[] {
+  const beforeKeys = new Map(before.map((c) => [connectionKey(c), c]));
+  const afterKeys = new Map(after.map((c) => [connectionKey(c), c]));
+  const beforeById = new Map(before.map((c) => [c.id, c]));
+
+  const added: Connection[] = [];
+  const removed = before.filter((c) => !afterKeys.has(connectionKey(c)));
+  const changes: ConnectionChange[] = [];
+
+  for (const connection of after) {
+    if (beforeKeys.has(connectionKey(connection))) continue;
+    // Same id, different endpoints: the edge was dragged to a new target.
+    const sameId = beforeById.get(connection.id);
+    if (sameId && removed.includes(sameId)) {
+      removed.splice(removed.indexOf(sameId), 1);
+      changes.push({ kind: 'rewired', connection, previous: sameId });
+      continue;
+    }
+    added.push(connection);
+  }
+
+  // New edge leaving the same output port as a removed one: also a rewire.
+  for (const connection of added) {
+    const previous = removed.find(
+      (c) => c.from === connection.from && portOf(c.fromPort) === portOf(connection.fromPort)
+    );
+    if (previous) {
+      removed.splice(removed.indexOf(previous), 1);
+      changes.push({ kind: 'rewired', connection, previous });
+    } else {
+      changes.push({ kind: 'added', connection });
+    }
+  }
+  for (const connection of removed) {
+    changes.push({ kind: 'removed', connection });
+  }
+  return changes;
+}
+
+function diffSubAgentFlows(before: SubAgentFlow[], after: SubAgentFlow[]): SubAgentFlowChange[] {
+  const beforeById = new Map(before.map((f) => [f.id, f]));
+  const afterIds = new Set(after.map((f) => f.id));
+  const changes: SubAgentFlowChange[] = [];
+
+  for (const flow of after) {
+    const previous = beforeById.get(flow.id);
+    if (!previous) {
+      changes.push({
+        kind: 'added',
+        id: flow.id,
+        name: flow.name,
+        fieldChanges: [],
+        nodes: [],
+        connections: [],
+      });
+      continue;
+    }
+    const fieldChanges = diffFields(previous, flow, IGNORED_FLOW_KEYS);
+    const graph = diffGraph(previous, flow);
+    if (fieldChanges.length + graph.nodes.length + graph.connections.length > 0) {
+      changes.push({ kind: 'modified', id: flow.id, name: flow.name, fieldChanges, ...graph });
+    }
+  }
+  for (const flow of before) {
+    if (!afterIds.has(flow.id)) {
+      changes.push({
+        kind: 'removed',
+        id: flow.id,
+        name: flow.name,
+        fieldChanges: [],
+        nodes: [],
+        connections: [],
+      });
+    }
+  }
+  return changes;
+}
+
+/** Deep field diff. Objects recurse per key; arrays recurse per index. */
+function diffFields(
+  before: object,
+  after: object,
+  ignoredKeys: ReadonlySet<string> = new Set(),
+  prefix = ''
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(b), ...Object.keys(a)]);
+  for (const key of keys) {
+    if (ignoredKeys.has(key)) continue;
+    collectChanges(b[key], a[key], prefix ? `${prefix}.${key}` : key, changes);
+  }
+  return changes;
+}
+
+function collectChanges(before: unknown, after: unknown, path: string, out: FieldChange[]): void {
+  if (deepEqual(before, after)) return;
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      collectChanges(before[i], after[i], `${path}[${i}]`, out);
+    }
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    out.push(...diffFields(before, after, undefined, path));
+    return;
+  }
+  out.push({ path, before, after });
+}
+
+/** Render a diff as an indented, human-readable change list. */
+export function formatWorkflowDiff(diff: WorkflowDiff): string {
+  const lines: string[] = [];
+  for (const change of diff.fieldChanges) {
+    lines.push(formatFieldChange(change, ''));
+  }
+  formatGraph(diff, '', lines);
+  for (const flow of diff.subAgentFlows) {
+    const sign = flow.kind === 'added' ? '+' : flow.kind === 'removed' ? '-' : '~';
+    lines.push(`${sign} subAgentFlow ${flow.name} (${flow.id})`);
+    for (const change of flow.fieldChanges) {
+      lines.push(formatFieldChange(change, '    '));
+    }
+    formatGraph(flow, '    ', lines);
+  }
+  return lines.join('\n');
+}
+
+function formatGraph(graph: GraphDiff, indent: string, lines: string[]): void {
+  for (const node of graph.nodes) {
+    const sign = node.kind === 'added' ? '+' : node.kind === 'removed' ? '-' : '~';
+    lines.push(`${indent}${sign} node ${node.name} (${node.type}, ${node.id})`);
+    for (const change of node.fieldChanges) {
+      lines.push(formatFieldChange(change, `${indent}    `));
+    }
+    if (node.moved) {
+      lines.push(
+        `${indent}    moved (${node.moved.from.x}, ${node.moved.from.y}) → (${node.moved.to.x}, ${node.moved.to.y})`
+      );
+    }
+  }
+  for (const change of graph.connections) {
+    const edge = formatEdge(change.connection);
+    if (change.kind === 'rewired' && change.previous) {
+      lines.push(`${indent}~ connection ${formatEdge(change.previous)}  ⇒  ${edge}`);
+    } else {
+      lines.push(`${indent}${change.kind === 'added' ? '+' : '-'} connection ${edge}`);
+    }
+  }
+}
+
+function formatFieldChange(change: FieldChange, indent: string): string {
+  return `${indent}~ ${change.path}: ${preview(change.before)} → ${preview(change.after)}`;
+}
+
+function formatEdge(c: Connection): string {
+  const port = portOf(c.fromPort);
+  return `${c.from}${port ? `[${port}]` : ''} → ${c.to}`;
+}
+
+function preview(value: unknown): string {
+  if (value === undefined) return '(unset)';
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// ---------------------------------------------------------------------------
+// Three-way merge
+// ---------------------------------------------------------------------------
+
+/**
+ * Keys of the object that replaces a conflicting value in the merged JSON.
+ * Mirrors git's text markers so `<<<<<<<` searches still find conflicts.
+ */
+export const CONFLICT_MARKER_KEYS = {
+  ours: '<<<<<<< ours',
+  base: '||||||| base',
+  theirs: '>>>>>>> theirs',
+} as const;
+
+export interface MergeConflict {
+  /** Where the conflict sits, e.g. `nodes[agent-1].data.prompt` or `connections[conn-3]`. */
+  path: string;
+  /**
+   * - `field`: both sides changed the same value differently
+   * - `delete-modify`: one side deleted what the other side edited
+   * - `dangling-connection`: a kept connection points at a deleted node (dropped)
+   */
+  kind: 'field' | 'delete-modify' | 'dangling-connection';
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface MergeWorkflowsOptions {
+  /**
+   * How to record unresolved values in the merged workflow:
+   * - `markers` (default): a {@link CONFLICT_MARKER_KEYS} object holding all three sides
+   * - `ours`: keep our side (conflicts are still reported)
+   */
+  conflictStyle?: 'markers' | 'ours';
+}
+
+export interface MergeWorkflowsResult {
+  workflow: Workflow;
+  conflicts: MergeConflict[];
+}
+
+/** Marker meaning "this side does not have the value" inside the merge. */
+const ABSENT = Symbol('absent');
+type Side = unknown | typeof ABSENT;
+
+interface MergeContext {
+  conflicts: MergeConflict[];
+  style: 'markers' | 'ours';
+}
+
+/**
+ * Three-way merge `ours` and `theirs` against their common ancestor `base`.
+ * Edits to different nodes, fields or connections combine cleanly; only
+ * overlapping edits become conflicts.
+ */
+export function mergeWorkflows(
+  base: Workflow,
+  ours: Workflow,
+  theirs: Workflow,
+  options: MergeWorkflowsOptions = {}
+): MergeWorkflowsResult {
+  const ctx: MergeContext = { conflicts: [], style: options.conflictStyle ?? 'markers' };
+
+  const merged = mergeObject(
+    pick(base, IGNORED_WORKFLOW_KEYS),
+    pick(ours, IGNORED_WORKFLOW_KEYS),
+    pick(theirs, IGNORED_WORKFLOW_KEYS),
+    '',
+    ctx
+  ) as Record<string, unknown>;
+
+  const graph = mergeGraph(base, ours, theirs, '', ctx);
+  const subAgentFlows = mergeById(
+    base.subAgentFlows ?? [],
+    ours.subAgentFlows ?? [],
+    theirs.subAgentFlows ?? [],
+    'subAgentFlows',
+    ctx,
+    (b, o, t, path) => {
+      const fields = mergeObject(
+        pick(b, IGNORED_FLOW_KEYS),
+        pick(o, IGNORED_FLOW_KEYS),
+        pick(t, IGNORED_FLOW_KEYS),
+        path,
+        ctx
+      ) as Record<string, unknown>;
+      return {
+        ...pick(o, IGNORED_FLOW_KEYS, true),
+        ...fields,
+        ...mergeGraph(b, o, t, `${path}.`, ctx),
+      } as SubAgentFlow;
+    },
+    // Added on both sides: merge the two graphs against an empty one
+    (flow) => ({ id: flow.id, name: '', nodes: [], connections: [] })
+  );
+
+  const workflow = {
+    // Timestamps and conversation history are not merged; ours wins.
+    ...pick(ours, IGNORED_WORKFLOW_KEYS, true),
+    ...merged,
+    nodes: graph.nodes,
+    connections: graph.connections,
+    ...(subAgentFlows.length > 0 || ours.subAgentFlows ? { subAgentFlows } : {}),
+  } as Workflow;
+
+  return { workflow, conflicts: ctx.conflicts };
+}
+
+function mergeGraph(
+  base: { nodes: WorkflowNode[]; connections: Connection[] },
+  ours: { nodes: WorkflowNode[]; connections: Connection[] },
+  theirs: { nodes: WorkflowNode[]; connections: Connection[] },
+  prefix: string,
+  ctx: MergeContext
+): { nodes: WorkflowNode[]; connections: Connection[] } {
+  const conflictsBefore = ctx.conflicts.length;
+  const nodes = mergeById(
+    base.nodes,
+    ours.nodes,
+    theirs.nodes,
+    `${prefix}nodes`,
+    ctx,
+    (b, o, t, path) => mergeObject(b, o, t, path, ctx) as WorkflowNode
+  );
+  // Conflict objects keep the node's id, so its connections stay in place
+  // until the conflict is resolved.
+  const nodeIds = new Set(nodes.map((n) => n.id).filter(Boolean));
+  const conflictedNodeIds = new Set(
+    ctx.conflicts
+      .slice(conflictsBefore)
+      .filter((c) => c.kind === 'delete-modify')
+      .map((c) => (c.base as WorkflowNode).id)
+  );
+
+  const { key, originalId } = matchConnections(
+    base.connections,
+    ours.connections,
+    theirs.connections
+  );
+  const keyed = (list: Connection[]) => list.map((c) => ({ ...c, id: key(c) }));
+  const connections = mergeById(
+    keyed(base.connections),
+    keyed(ours.connections),
+    keyed(theirs.connections),
+    `${prefix}connections`,
+    ctx,
+    (b, o, t, path) => mergeObject(b, o, t, path, ctx) as Connection,
+    undefined,
+    // Deleted along with a node that is now a conflict: keep it for the resolution
+    (c) => conflictedNodeIds.has(c.from) || conflictedNodeIds.has(c.to)
+  )
+    .map((c) => {
+      const { id, ...rest } = c;
+      const original = originalId.get(id);
+      return (original ? { id: original, ...rest } : rest) as Connection;
+    })
+    .filter((c) => {
+      if (!c.from || !c.to || (nodeIds.has(c.from) && nodeIds.has(c.to))) return true;
+      ctx.conflicts.push({
+        path: `${prefix}connections[${c.id || connectionKey(c)}]`,
+        kind: 'dangling-connection',
+        base: undefined,
+        ours: c,
+        theirs: undefined,
+      });
+      return false;
+    });
+
+  return { nodes, connections };
+}
+
+/**
+ * How connections are matched across the three sides: by id when the base
+ * has that id, otherwise by endpoints — so a connection without an id, or
+ * the same edge added on both sides under different ids, is one entity.
+ * `originalId` maps a match key back to the id written to the result
+ * (ours first); connections that never had an id get none.
+ */
+function matchConnections(
+  base: Connection[],
+  ours: Connection[],
+  theirs: Connection[]
+): { key: (c: Connection) => string; originalId: Map<string, string> } {
+  const baseIds = new Set(base.map((c) => c.id).filter(Boolean));
+  const key = (c: Connection) => (c.id && baseIds.has(c.id) ? c.id : connectionKey(c));
+  const originalId = new Map<string, string>();
+  for (const c of [...ours, ...theirs, ...base]) {
+    if (c.id && !originalId.has(key(c))) originalId.set(key(c), c.id);
+  }
+  return { key, originalId };
+}
+
+/**
+ * Merge two lists of `{ id }` entities. Order follows `ours`, with entities
+ * only `theirs` added appended in their order. An entity both sides added
+ * is merged against `emptyBase(entity)`, or kept as is when they agree. An
+ * entity one side deleted and the other left untouched is dropped, unless
+ * `keepDeleted` says otherwise. A delete-modify conflict object keeps the
+ * entity's `id`.
+ */
+function mergeById<T extends { id: string }>(
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  path: string,
+  ctx: MergeContext,
+  mergeEntity: (base: T, ours: T, theirs: T, path: string) => T,
+  emptyBase: (entity: T) => T = () => ({}) as T,
+  keepDeleted: (entity: T) => boolean = () => false
+): T[] {
+  const baseById = new Map(base.map((e) => [e.id, e]));
+  const oursById = new Map(ours.map((e) => [e.id, e]));
+  const theirsById = new Map(theirs.map((e) => [e.id, e]));
+  const ids = [
+    ...ours.map((e) => e.id),
+    ...theirs.map((e) => e.id).filter((id) => !oursById.has(id)),
+  ];
+  const result: T[] = [];
+
+  for (const id of new Set(ids)) {
+    const entityPath = `${path}[${id}]`;
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+
+    if (o && t) {
+      if (!b && deepEqual(o, t)) {
+        // Added identically on both sides.
+        result.push(o);
+        continue;
+      }
+      result.push(mergeEntity(b ?? emptyBase(o), o, t, entityPath));
+      continue;
+    }
+    const kept = (o ?? t) as T;
+    if (!b) {
+      // Added on one side only.
+      result.push(kept);
+      continue;
+    }
+    if (deepEqual(b, kept)) {
+      // Deleted on one side, untouched on the other.
+      if (keepDeleted(kept)) result.push(kept);
+      continue;
+    }
+    // Deleted on one side, edited on the other.
+    ctx.conflicts.push({
+      path: entityPath,
+      kind: 'delete-modify',
+      base: b,
+      ours: o ?? undefined,
+      theirs: t ?? undefined,
+    });
+    result.push(
+      ctx.style === 'markers'
+        ? ({ id, ...conflictMarker(b, o ?? ABSENT, t ?? ABSENT) } as unknown as T)
+        : kept
+    );
+  }
+  return result;
+}
+
+function mergeObject(
+  base: object,
+  ours: object,
+  theirs: object,
+  path: string,
+  ctx: MergeContext
+): object {
+  const b = base as Record<string, unknown>;
+  const o = ours as Record<string, unknown>;
+  const t = theirs as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(o), ...Object.keys(t), ...Object.keys(b)]);
+
+  for (const key of keys) {
+    const value = mergeValue(
+      key in b ? b[key] : ABSENT,
+      key in o ? o[key] : ABSENT,
+      key in t ? t[key] : ABSENT,
+      path ? `${path}.${key}` : key,
+      ctx
+    );
+    if (value !== ABSENT) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function mergeValue(base: Side, ours: Side, theirs: Side, path: string, ctx: MergeContext): Side {
+  if (deepEqual(ours, theirs)) return ours;
+  if (deepEqual(base, ours)) return theirs;
+  if (deepEqual(base, theirs)) return ours;
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    return mergeObject(isPlainObject(base) ? base : {}, ours, theirs, path, ctx);
+  }
+  ctx.conflicts.push({
+    path,
+    kind: 'field',
+    base: base === ABSENT ? undefined : base,
+    ours: ours === ABSENT ? undefined : ours,
+    theirs: theirs === ABSENT ? undefined : theirs,
+  });
+  return ctx.style === 'markers' ? conflictMarker(base, ours, theirs) : ours;
+}
+
+function conflictMarker(base: Side, ours: Side, theirs: Side): Record<string, unknown> {
+  // JSON has no `undefined`; a missing side is written as null.
+  const side = (value: Side) => (value === ABSENT ? null : value);
+  return {
+    [CONFLICT_MARKER_KEYS.ours]: side(ours),
+    [CONFLICT_MARKER_KEYS.base]: side(base),
+    [CONFLICT_MARKER_KEYS.theirs]: side(theirs),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function describeNode(node: WorkflowNode): { id: string; name: string; type: string } {
+  return { id: node.id, name: node.name || node.id, type: node.type as string };
+}
+
+/** Connections without a stable id are matched on their endpoints. */
+function connectionKey(c: Connection): string {
+  return `${c.from}:${portOf(c.fromPort)}→${c.to}:${portOf(c.toPort)}`;
+}
+
+/** Single-port handles are spelled several ways across versions (`out`, `output`, omitted). */
+function portOf(port: string | undefined): string {
+  return port && port !== 'out' && port !== 'output' && port !== 'input' && port !== 'in'
+    ? port
+    : '';
+}
+
+/** Shallow copy of `value` without the `keys` (or with only them, when `only` is set). */
+function pick(value: object, keys: ReadonlySet<string>, only = false): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => keys.has(key) === only));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const aKeys = Object.keys(a).filter((k) => a[k] !== undefined);
+    const bKeys = Object.keys(b).filter((k) => b[k] !== undefined);
+    return aKeys.length === bKeys.length && aKeys.every((k) => deepEqual(a[k], b[k]));
+  }
+  return false;
+}
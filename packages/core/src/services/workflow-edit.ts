@@ -0,0 +1,325 @@
+/**
+ * Granular graph edits on a workflow: add / update / remove nodes, connect /
+ * disconnect them, and move nodes in or out of a group.
+ *
+ * Each function returns a new workflow and leaves its input untouched. They
+ * only check that the edit itself makes sense (ids exist, no duplicates,
+ * group targets are groups); whether the resulting workflow is valid is
+ * left to `validateAIGeneratedWorkflow`, so callers can chain several edits
+ * before validating. Child positions are relative to their group, matching
+ * the canvas, so moving a node in or out of a group converts its position.
+ */
+
+import {
+  type Connection,
+  NodeType,
+  type Position,
+  type Workflow,
+  type WorkflowNode,
+} from '../types/workflow-definition.js';
+
+/** Thrown when an edit refers to nodes or connections that don't fit the workflow. */
+export class WorkflowEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowEditError';
+  }
+}
+
+export interface NewNodeInput {
+  /** Generated from the type when omitted. */
+  id?: string;
+  type: NodeType;
+  name: string;
+  /** Relative to the group when `parentId` is set. */
+  position: Position;
+  data: Record<string, unknown>;
+  parentId?: string;
+  style?: { width?: number; height?: number };
+}
+
+/** Fields to change on an existing node; `data` is merged into the node's data. */
+export interface NodeUpdateInput {
+  name?: string;
+  position?: Position;
+  data?: Record<string, unknown>;
+}
+
+export interface NewConnectionInput {
+  from: string;
+  to: string;
+  /** Default `'output'`; branching nodes use their branch handle ids. */
+  fromPort?: string;
+  /** Default `'input'`. */
+  toPort?: string;
+  /** Option label for AskUserQuestion branches. */
+  condition?: string;
+}
+
+/**
+ * Identifies connections to remove: either by `id`, or by endpoints
+ * (`from` and/or `to`, optionally narrowed by `fromPort`).
+ */
+export interface ConnectionSelector {
+  id?: string;
+  from?: string;
+  to?: string;
+  fromPort?: string;
+}
+
+const DEFAULT_FROM_PORT = 'output';
+const DEFAULT_TO_PORT = 'input';
+
+function uniqueSuffix(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+}
+
+function cloneWorkflow(workflow: Workflow): Workflow {
+  return JSON.parse(JSON.stringify(workflow)) as Workflow;
+}
+
+function requireNodes(workflow: Workflow, ids: string[]): void {
+  const known = new Set(workflow.nodes.map((n) => n.id));
+  const missing = ids.filter((id) => !known.has(id));
+  if (missing.length > 0) {
+    throw new WorkflowEditError(`Nodes not found: ${[...new Set(missing)].join(', ')}.`);
+  }
+}
+
+function requireGroup(workflow: Workflow, groupId: string): WorkflowNode {
+  const group = workflow.nodes.find((n) => n.id === groupId);
+  if (!group) {
+    throw new WorkflowEditError(`Group node not found: ${groupId}.`);
+  }
+  if (group.type !== NodeType.Group) {
+    throw new WorkflowEditError(`Node ${groupId} is a ${group.type} node, not a group.`);
+  }
+  return group;
+}
+
+/**
+ * Append nodes. Ids must not clash with existing nodes; omitted ids are
+ * generated. Returns the ids in input order.
+ */
+export function addWorkflowNodes(
+  workflow: Workflow,
+  nodes: NewNodeInput[]
+): { workflow: Workflow; nodeIds: string[] } {
+  const result = cloneWorkflow(workflow);
+  const taken = new Set(result.nodes.map((n) => n.id));
+  const nodeIds: string[] = [];
+
+  for (const input of nodes) {
+    const id = input.id ?? `${input.type}-${uniqueSuffix()}`;
+    if (taken.has(id)) {
+      throw new WorkflowEditError(`Node id already exists: ${id}.`);
+    }
+    taken.add(id);
+    nodeIds.push(id);
+  }
+
+  const added = nodes.map(
+    (input, index) =>
+      ({
+        id: nodeIds[index],
+        type: input.type,
+        name: input.name,
+        position: input.position,
+        data: input.data,
+        ...(input.parentId ? { parentId: input.parentId } : {}),
+        ...(input.style ? { style: input.style } : {}),
+      }) as WorkflowNode
+  );
+  result.nodes.push(...added);
+
+  // Parents may be groups added in the same call.
+  for (const node of added) {
+    if (node.parentId) {
+      if (node.type === NodeType.Group) {
+        throw new WorkflowEditError(`Group node ${node.id} cannot be nested in another group.`);
+      }
+      requireGroup(result, node.parentId);
+    }
+  }
+
+  return { workflow: result, nodeIds };
+}
+
+/**
+ * Rename, move or change the data of one node. `data` is merged key by key,
+ * so only the keys being changed need to be given; the node type is fixed.
+ */
+export function updateWorkflowNode(
+  workflow: Workflow,
+  nodeId: string,
+  changes: NodeUpdateInput
+): Workflow {
+  requireNodes(workflow, [nodeId]);
+  const result = cloneWorkflow(workflow);
+  const node = result.nodes.find((n) => n.id === nodeId) as WorkflowNode;
+
+  if (changes.name !== undefined) node.name = changes.name;
+  if (changes.position !== undefined) node.position = changes.position;
+  if (changes.data !== undefined) {
+    node.data = { ...node.data, ...changes.data } as WorkflowNode['data'];
+  }
+
+  return result;
+}
+
+/**
+ * Remove nodes and every connection touching them. Removing a group
+ * releases its children (converted to absolute positions) rather than
+ * deleting them.
+ */
+export function removeWorkflowNodes(
+  workflow: Workflow,
+  nodeIds: string[]
+): { workflow: Workflow; removedConnectionIds: string[] } {
+  requireNodes(workflow, nodeIds);
+  const result = cloneWorkflow(workflow);
+  const removing = new Set(nodeIds);
+
+  const removedGroups = result.nodes.filter(
+    (n) => removing.has(n.id) && n.type === NodeType.Group
+  );
+  for (const group of removedGroups) {
+    for (const child of result.nodes) {
+      if (child.parentId === group.id && !removing.has(child.id)) {
+        delete child.parentId;
+        child.position = {
+          x: child.position.x + group.position.x,
+          y: child.position.y + group.position.y,
+        };
+      }
+    }
+  }
+
+  const removedConnectionIds = result.connections
+    .filter((c) => removing.has(c.from) || removing.has(c.to))
+    .map((c) => c.id);
+  result.nodes = result.nodes.filter((n) => !removing.has(n.id));
+  result.connections = result.connections.filter(
+    (c) => !removing.has(c.from) && !removing.has(c.to)
+  );
+
+  return { workflow: result, removedConnectionIds };
+}
+
+/**
+ * Add connections between existing nodes. A connection identical to an
+ * existing one (same endpoints and ports) is rejected. Returns the new
+ * connection ids in input order.
+ */
+export function connectWorkflowNodes(
+  workflow: Workflow,
+  connections: NewConnectionInput[]
+): { workflow: Workflow; connectionIds: string[] } {
+  requireNodes(workflow, connections.flatMap((c) => [c.from, c.to]));
+  const result = cloneWorkflow(workflow);
+  const connectionIds: string[] = [];
+
+  for (const input of connections) {
+    if (input.from === input.to) {
+      throw new WorkflowEditError(`Cannot connect node ${input.from} to itself.`);
+    }
+    const connection: Connection = {
+      id: `conn-${uniqueSuffix()}`,
+      from: input.from,
+      to: input.to,
+      fromPort: input.fromPort ?? DEFAULT_FROM_PORT,
+      toPort: input.toPort ?? DEFAULT_TO_PORT,
+      ...(input.condition ? { condition: input.condition } : {}),
+    };
+    const duplicate = result.connections.some(
+      (c) =>
+        c.from === connection.from &&
+        c.to === connection.to &&
+        c.fromPort === connection.fromPort &&
+        c.toPort === connection.toPort
+    );
+    if (duplicate) {
+      throw new WorkflowEditError(
+        `Connection ${connection.from}:${connection.fromPort} -> ${connection.to}:${connection.toPort} already exists.`
+      );
+    }
+    result.connections.push(connection);
+    connectionIds.push(connection.id);
+  }
+
+  return { workflow: result, connectionIds };
+}
+
+function matchesSelector(connection: Connection, selector: ConnectionSelector): boolean {
+  if (selector.id !== undefined) return connection.id === selector.id;
+  return (
+    (selector.from === undefined || connection.from === selector.from) &&
+    (selector.to === undefined || connection.to === selector.to) &&
+    (selector.fromPort === undefined || connection.fromPort === selector.fromPort)
+  );
+}
+
+/**
+ * Remove the connections matched by each selector. Every selector must
+ * name an `id`, `from` or `to` and match at least one connection.
+ */
+export function disconnectWorkflowNodes(
+  workflow: Workflow,
+  selectors: ConnectionSelector[]
+): { workflow: Workflow; removedConnectionIds: string[] } {
+  const removed = new Set<string>();
+
+  for (const selector of selectors) {
+    if (selector.id === undefined && selector.from === undefined && selector.to === undefined) {
+      throw new WorkflowEditError('Each connection selector needs an id, from or to.');
+    }
+    const matches = workflow.connections.filter((c) => matchesSelector(c, selector));
+    if (matches.length === 0) {
+      throw new WorkflowEditError(`No connection matches ${JSON.stringify(selector)}.`);
+    }
+    for (const match of matches) removed.add(match.id);
+  }
+
+  const result = cloneWorkflow(workflow);
+  result.connections = result.connections.filter((c) => !removed.has(c.id));
+  return { workflow: result, removedConnectionIds: [...removed] };
+}
+
+/**
+ * Move nodes into `groupId`, or out of their group when `groupId` is null.
+ * Positions are converted between absolute and group-relative coordinates
+ * so nodes stay where they are on the canvas.
+ */
+export function moveNodesIntoGroup(
+  workflow: Workflow,
+  nodeIds: string[],
+  groupId: string | null
+): Workflow {
+  requireNodes(workflow, nodeIds);
+  const result = cloneWorkflow(workflow);
+  const target = groupId === null ? undefined : requireGroup(result, groupId);
+  const byId = new Map(result.nodes.map((n) => [n.id, n]));
+
+  for (const nodeId of nodeIds) {
+    const node = byId.get(nodeId) as WorkflowNode;
+    if (node.type === NodeType.Group) {
+      throw new WorkflowEditError(`Group node ${nodeId} cannot be nested in another group.`);
+    }
+    if (node.parentId === target?.id) continue;
+
+    const currentParent = node.parentId ? byId.get(node.parentId) : undefined;
+    const absolute = {
+      x: node.position.x + (currentParent?.position.x ?? 0),
+      y: node.position.y + (currentParent?.position.y ?? 0),
+    };
+    if (target) {
+      node.parentId = target.id;
+      node.position = { x: absolute.x - target.position.x, y: absolute.y - target.position.y };
+    } else {
+      delete node.parentId;
+      node.position = absolute;
+    }
+  }
+
+  return result;
+}
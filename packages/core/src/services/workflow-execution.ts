@@ -0,0 +1,738 @@
+/**
+ * Headless workflow execution engine.
+ *
+ * Walks a workflow graph from its Start node and hands every executable node
+ * (SubAgent / Prompt / Skill / Codex / MCP) to a pluggable {@link AgentRunner}.
+ * Branching nodes (IfElse / Switch / legacy Branch / AskUserQuestion) ask the
+ * runner which output port to follow; Loop nodes ask whether their exit
+ * condition holds, up to `maxIterations`; Parallel nodes follow every branch
+ * (one after another — the engine runs a single step at a time) and a Join
+ * node waits until no queued branch can still reach it; SubAgentFlow nodes
+ * walk the referenced flow recursively. Progress is reported as a stream of
+ * {@link WorkflowExecutionEvent}s so callers can render per-node status.
+ *
+ * The engine itself performs no I/O: the runner owns every side effect. The
+ * CLI (`ccwf run`) plugs in a Claude Code-backed runner; tests and dry runs
+ * plug in {@link createScriptedAgentRunner}.
+ */
+
+import type {
+  AskUserQuestionNode,
+  BranchNode,
+  CodexNode,
+  Connection,
+  IfElseNode,
+  LoopNode,
+  McpNode,
+  PromptNode,
+  SkillNode,
+  SubAgentFlowNode,
+  SubAgentNode,
+  SwitchNode,
+  Workflow,
+  WorkflowNode,
+} from '../types/workflow-definition.js';
+
+// ---------------------------------------------------------------------------
+// Runner contract
+// ---------------------------------------------------------------------------
+
+/** Node types the engine delegates to {@link AgentRunner.runStep}. */
+export type ExecutableNodeKind = 'subAgent' | 'prompt' | 'skill' | 'codex' | 'mcp';
+
+/** Node types the engine delegates to {@link AgentRunner.chooseBranch}. */
+export type BranchingNodeKind = 'ifElse' | 'switch' | 'branch' | 'askUserQuestion' | 'loop';
+
+/** Output produced by one executed node, kept as context for later steps. */
+export interface NodeOutput {
+  nodeId: string;
+  nodeName: string;
+  output: string;
+}
+
+export interface AgentStepRequest {
+  node: WorkflowNode;
+  kind: ExecutableNodeKind;
+  /** Instruction text assembled from the node data. */
+  prompt: string;
+  /** Agent definition for SubAgent nodes (what the agent IS). */
+  systemPrompt?: string;
+  /** Model requested by the node, if any (`inherit` is normalised away). */
+  model?: string;
+  /** Comma-separated tool allow-list requested by the node, if any. */
+  tools?: string;
+  /** Outputs of previously executed nodes, oldest first. */
+  history: readonly NodeOutput[];
+}
+
+export interface AgentStepResult {
+  output: string;
+}
+
+export interface BranchOption {
+  /** Zero-based output port index (`branch-<index>` handle). */
+  index: number;
+  label: string;
+  condition: string;
+}
+
+export interface BranchDecisionRequest {
+  node: WorkflowNode;
+  kind: BranchingNodeKind;
+  /** What is being evaluated (evaluationTarget or the question text). */
+  question: string;
+  options: readonly BranchOption[];
+  /** Outputs of previously executed nodes, oldest first. */
+  history: readonly NodeOutput[];
+}
+
+/**
+ * Side-effecting half of the engine. Implementations decide how a step is
+ * actually performed (spawn an agent CLI, call an API, return canned text).
+ */
+export interface AgentRunner {
+  runStep(request: AgentStepRequest): Promise<AgentStepResult>;
+  /** Return the {@link BranchOption.index} of the branch to follow. */
+  chooseBranch(request: BranchDecisionRequest): Promise<number>;
+}
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+interface NodeEventBase {
+  timestamp: string;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  /** Set when the node lives inside a Sub-Agent Flow. */
+  subAgentFlowId?: string;
+}
+
+export type WorkflowExecutionEvent =
+  | { type: 'run-started'; timestamp: string; workflowName: string }
+  | ({ type: 'node-started' } & NodeEventBase)
+  | ({ type: 'node-completed'; durationMs: number; output?: string } & NodeEventBase)
+  | ({ type: 'node-skipped'; reason: string } & NodeEventBase)
+  | ({ type: 'node-failed'; error: string } & NodeEventBase)
+  | ({
+      type: 'branch-selected';
+      branchIndex: number;
+      label: string;
+      /** `loop`: forced by a Loop node (first iteration or iteration limit). */
+      source: 'runner' | 'preset' | 'loop';
+    } & NodeEventBase)
+  | {
+      type: 'run-completed';
+      timestamp: string;
+      status: 'succeeded' | 'failed';
+      steps: number;
+      durationMs: number;
+      error?: string;
+    };
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+export interface ExecuteWorkflowOptions {
+  runner: AgentRunner;
+  /** Receives every event as it happens. */
+  onEvent?: (event: WorkflowExecutionEvent) => void;
+  /**
+   * Upper bound on visited nodes (including nodes inside Sub-Agent Flows).
+   * Guards against back-edges looping forever. Default: 200.
+   */
+  maxSteps?: number;
+  /**
+   * Pre-recorded answers for AskUserQuestion nodes, keyed by node ID or node
+   * name, valued by option label (case-insensitive) or zero-based index.
+   * Headless runs have no user to ask; unanswered questions go to the runner.
+   */
+  answers?: Record<string, string>;
+  /** Aborts the run before the next node starts. */
+  signal?: AbortSignal;
+}
+
+export interface WorkflowExecutionResult {
+  status: 'succeeded' | 'failed';
+  /** Outputs of every executed node, in execution order. */
+  outputs: NodeOutput[];
+  steps: number;
+  error?: string;
+  /** ID of the node that failed, when the failure is attributable to one. */
+  failedNodeId?: string;
+}
+
+export const DEFAULT_MAX_EXECUTION_STEPS = 200;
+
+/** Error raised while walking the graph; carries the offending node ID. */
+export class WorkflowExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly nodeId?: string
+  ) {
+    super(message);
+    this.name = 'WorkflowExecutionError';
+  }
+}
+
+interface ExecutionContext {
+  workflow: Workflow;
+  options: ExecuteWorkflowOptions;
+  maxSteps: number;
+  steps: number;
+  outputs: NodeOutput[];
+  /** Completed body iterations per active Loop node, keyed by flow + node ID. */
+  loopIterations: Map<string, number>;
+}
+
+/**
+ * Execute `workflow` headlessly. Never throws for node-level failures — they
+ * are reported through the result (and a `node-failed` event) instead.
+ */
+export async function executeWorkflow(
+  workflow: Workflow,
+  options: ExecuteWorkflowOptions
+): Promise<WorkflowExecutionResult> {
+  const startedAt = Date.now();
+  const ctx: ExecutionContext = {
+    workflow,
+    options,
+    maxSteps: options.maxSteps ?? DEFAULT_MAX_EXECUTION_STEPS,
+    steps: 0,
+    outputs: [],
+    loopIterations: new Map(),
+  };
+
+  emit(ctx, { type: 'run-started', timestamp: now(), workflowName: workflow.name });
+
+  let result: WorkflowExecutionResult;
+  try {
+    await walkFlow(ctx, workflow.nodes, workflow.connections);
+    result = { status: 'succeeded', outputs: ctx.outputs, steps: ctx.steps };
+  } catch (error) {
+    result = {
+      status: 'failed',
+      outputs: ctx.outputs,
+      steps: ctx.steps,
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof WorkflowExecutionError && error.nodeId
+        ? { failedNodeId: error.nodeId }
+        : {}),
+    };
+  }
+
+  emit(ctx, {
+    type: 'run-completed',
+    timestamp: now(),
+    status: result.status,
+    steps: result.steps,
+    durationMs: Date.now() - startedAt,
+    ...(result.error ? { error: result.error } : {}),
+  });
+  return result;
+}
+
+/**
+ * Walk one graph (the main workflow or a Sub-Agent Flow) from its Start node.
+ * Returns the output of the last executed node, used as the Sub-Agent Flow
+ * node's own output.
+ */
+async function walkFlow(
+  ctx: ExecutionContext,
+  nodes: WorkflowNode[],
+  connections: Connection[],
+  subAgentFlowId?: string
+): Promise<string> {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const start = nodes.find((n) => n.type === 'start');
+  if (!start) {
+    throw new WorkflowExecutionError(
+      subAgentFlowId
+        ? `Sub-Agent Flow "${subAgentFlowId}" has no Start node`
+        : 'Workflow has no Start node'
+    );
+  }
+
+  // FIFO worklist. A node already waiting in the queue is not enqueued twice,
+  // so converging paths execute the join node once.
+  const queue: string[] = [start.id];
+  let lastOutput = '';
+
+  while (queue.length > 0) {
+    if (ctx.options.signal?.aborted) {
+      throw new WorkflowExecutionError('Execution aborted');
+    }
+    const nodeId = queue.shift() as string;
+    const node = nodesById.get(nodeId);
+    if (!node) {
+      throw new WorkflowExecutionError(`Connection points to missing node "${nodeId}"`, nodeId);
+    }
+    if (node.type === 'join' && isAwaitingBranches(node.id, queue, connections)) {
+      queue.push(node.id);
+      continue;
+    }
+
+    ctx.steps++;
+    if (ctx.steps > ctx.maxSteps) {
+      throw new WorkflowExecutionError(
+        `Exceeded the maximum of ${ctx.maxSteps} execution steps (is there a loop without an exit?)`,
+        node.id
+      );
+    }
+
+    const outcome = await visitNode(ctx, node, subAgentFlowId);
+    if (outcome.output !== undefined) {
+      lastOutput = outcome.output;
+    }
+    if (node.type === 'end') {
+      continue;
+    }
+
+    const outgoing = connections.filter(
+      (c) =>
+        c.from === node.id &&
+        (outcome.branchIndex === undefined || portIndex(c.fromPort) === outcome.branchIndex)
+    );
+    if (outgoing.length === 0 && outcome.branchIndex !== undefined) {
+      throw new WorkflowExecutionError(
+        `Node "${node.name || node.id}" selected branch ${outcome.branchIndex}, but that output port is not connected`,
+        node.id
+      );
+    }
+    for (const conn of outgoing) {
+      if (!queue.includes(conn.to)) {
+        queue.push(conn.to);
+      }
+    }
+  }
+
+  return lastOutput;
+}
+
+interface VisitOutcome {
+  output?: string;
+  /** Set for branching nodes: only connections from this port are followed. */
+  branchIndex?: number;
+}
+
+async function visitNode(
+  ctx: ExecutionContext,
+  node: WorkflowNode,
+  subAgentFlowId: string | undefined
+): Promise<VisitOutcome> {
+  const base = {
+    nodeId: node.id,
+    nodeName: node.name,
+    nodeType: node.type as string,
+    ...(subAgentFlowId ? { subAgentFlowId } : {}),
+  };
+
+  if (node.type === 'branchSession') {
+    emit(ctx, {
+      type: 'node-skipped',
+      timestamp: now(),
+      ...base,
+      reason: 'Branch Session checkpoints need an interactive Claude Code session',
+    });
+    return {};
+  }
+
+  const startedAt = Date.now();
+  emit(ctx, { type: 'node-started', timestamp: now(), ...base });
+
+  try {
+    const outcome = await performNode(ctx, node, base);
+    emit(ctx, {
+      type: 'node-completed',
+      timestamp: now(),
+      ...base,
+      durationMs: Date.now() - startedAt,
+      ...(outcome.output !== undefined ? { output: outcome.output } : {}),
+    });
+    return outcome;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    emit(ctx, { type: 'node-failed', timestamp: now(), ...base, error: message });
+    if (error instanceof WorkflowExecutionError && error.nodeId) {
+      throw error;
+    }
+    throw new WorkflowExecutionError(message, node.id);
+  }
+}
+
+async function performNode(
+  ctx: ExecutionContext,
+  node: WorkflowNode,
+  base: Omit<NodeEventBase, 'timestamp'>
+): Promise<VisitOutcome> {
+  const executable = buildStepRequest(node, ctx.outputs);
+  if (executable) {
+    const { output } = await ctx.options.runner.runStep(executable);
+    ctx.outputs.push({ nodeId: node.id, nodeName: node.name, output });
+    return { output };
+  }
+
+  if (node.type === 'loop') {
+    return performLoop(ctx, node as LoopNode, base);
+  }
+
+  const decision = buildBranchRequest(node, ctx.outputs);
+  if (decision) {
+    // Multi-select and AI-suggested questions have a single output port.
+    if (decision.options.length === 0) {
+      return {};
+    }
+    const preset = resolvePresetAnswer(ctx.options.answers, node, decision.options);
+    const branchIndex = preset ?? (await ctx.options.runner.chooseBranch(decision));
+    const chosen = decision.options.find((o) => o.index === branchIndex);
+    if (!chosen) {
+      throw new WorkflowExecutionError(
+        `Runner chose branch ${branchIndex}, which is not one of ${decision.options.map((o) => o.index).join(', ')}`,
+        node.id
+      );
+    }
+    emit(ctx, {
+      type: 'branch-selected',
+      timestamp: now(),
+      ...base,
+      branchIndex,
+      label: chosen.label,
+      source: preset !== undefined ? 'preset' : 'runner',
+    });
+    return { branchIndex };
+  }
+
+  if (node.type === 'subAgentFlow') {
+    const data = (node as SubAgentFlowNode).data;
+    const flow = ctx.workflow.subAgentFlows?.find((f) => f.id === data.subAgentFlowId);
+    if (!flow) {
+      throw new WorkflowExecutionError(
+        `Sub-Agent Flow "${data.subAgentFlowId}" is not defined in this workflow`,
+        node.id
+      );
+    }
+    const output = await walkFlow(ctx, flow.nodes, flow.connections, flow.id);
+    ctx.outputs.push({ nodeId: node.id, nodeName: node.name, output });
+    return { output };
+  }
+
+  // start / end / group and unknown types are pass-through.
+  return {};
+}
+
+/**
+ * Loop nodes are entered once from upstream and then once more every time the
+ * body path leads back. The first visit always runs the body; later visits ask
+ * the runner whether the exit condition holds, and the iteration limit forces
+ * the exit. Leaving the loop resets its counter so an enclosing loop can run
+ * it again.
+ */
+async function performLoop(
+  ctx: ExecutionContext,
+  node: LoopNode,
+  base: Omit<NodeEventBase, 'timestamp'>
+): Promise<VisitOutcome> {
+  const key = `${base.subAgentFlowId ?? ''}/${node.id}`;
+  const completed = ctx.loopIterations.get(key) ?? 0;
+  const { maxIterations, exitCondition } = node.data;
+
+  let branchIndex: number;
+  let source: 'runner' | 'loop' = 'loop';
+  if (completed === 0) {
+    branchIndex = 0;
+  } else if (completed >= maxIterations) {
+    branchIndex = 1;
+  } else {
+    branchIndex = await ctx.options.runner.chooseBranch({
+      node,
+      kind: 'loop',
+      question: `whether the loop exit condition holds after iteration ${completed} of ${maxIterations}`,
+      options: [
+        { index: 0, label: 'Body', condition: `Otherwise (run iteration ${completed + 1})` },
+        { index: 1, label: 'Exit', condition: exitCondition },
+      ],
+      history: ctx.outputs,
+    });
+    source = 'runner';
+    if (branchIndex !== 0 && branchIndex !== 1) {
+      throw new WorkflowExecutionError(
+        `Runner chose branch ${branchIndex}, which is not one of 0, 1`,
+        node.id
+      );
+    }
+  }
+
+  if (branchIndex === 0) {
+    ctx.loopIterations.set(key, completed + 1);
+  } else {
+    ctx.loopIterations.delete(key);
+  }
+  emit(ctx, {
+    type: 'branch-selected',
+    timestamp: now(),
+    ...base,
+    branchIndex,
+    label:
+      branchIndex === 0
+        ? `Body (iteration ${completed + 1}/${maxIterations})`
+        : completed >= maxIterations
+          ? `Exit (iteration limit ${maxIterations} reached)`
+          : 'Exit',
+    source,
+  });
+  return { branchIndex };
+}
+
+// ---------------------------------------------------------------------------
+// Request builders
+// ---------------------------------------------------------------------------
+
+function buildStepRequest(
+  node: WorkflowNode,
+  history: readonly NodeOutput[]
+): AgentStepRequest | null {
+  switch (node.type) {
+    case 'subAgent': {
+      const data = (node as SubAgentNode).data;
+      return {
+        node,
+        kind: 'subAgent',
+        prompt: data.prompt || data.description || node.name,
+        systemPrompt: data.agentDefinition || undefined,
+        model: data.model && data.model !== 'inherit' ? data.model : undefined,
+        tools: data.tools || undefined,
+        history,
+      };
+    }
+    case 'prompt': {
+      const data = (node as PromptNode).data;
+      return {
+        node,
+        kind: 'prompt',
+        prompt: substituteVariables(data.prompt, data.variables),
+        history,
+      };
+    }
+    case 'skill': {
+      const data = (node as SkillNode).data;
+      const skillName = data.pluginName ? `${data.pluginName}:${data.name}` : data.name;
+      let prompt: string;
+      if (data.executionMode === 'load') {
+        prompt = `Load the "${skillName}" skill into context as knowledge only. Do not execute it.`;
+      } else if (data.executionPrompt) {
+        prompt = `Run the "${skillName}" skill: ${data.executionPrompt}`;
+      } else {
+        prompt = `Run the "${skillName}" skill.`;
+      }
+      return { node, kind: 'skill', prompt, tools: data.allowedTools || undefined, history };
+    }
+    case 'codex': {
+      const data = (node as CodexNode).data;
+      return { node, kind: 'codex', prompt: data.prompt, model: data.model || undefined, history };
+    }
+    case 'mcp':
+      return { node, kind: 'mcp', prompt: buildMcpPrompt(node as McpNode), history };
+    default:
+      return null;
+  }
+}
+
+function buildMcpPrompt(node: McpNode): string {
+  const { data } = node;
+  switch (data.mode ?? 'manualParameterConfig') {
+    case 'aiToolSelection':
+      return `Using the MCP server "${data.serverId}", pick the most suitable tool and complete this task: ${data.aiToolSelectionConfig?.taskDescription ?? ''}`;
+    case 'aiParameterConfig':
+      return `Call the MCP tool "${data.toolName}" on server "${data.serverId}". Choose parameter values that satisfy: ${data.aiParameterConfig?.description ?? ''}`;
+    default:
+      return `Call the MCP tool "${data.toolName}" on server "${data.serverId}" with these parameters: ${JSON.stringify(data.parameterValues ?? {})}`;
+  }
+}
+
+function buildBranchRequest(
+  node: WorkflowNode,
+  history: readonly NodeOutput[]
+): BranchDecisionRequest | null {
+  switch (node.type) {
+    case 'ifElse':
+    case 'switch': {
+      const data = (node as IfElseNode | SwitchNode).data;
+      return {
+        node,
+        kind: node.type,
+        question: data.evaluationTarget || 'the result of the previous step',
+        options: data.branches.map((b, index) => ({
+          index,
+          label: b.label,
+          condition: b.condition,
+        })),
+        history,
+      };
+    }
+    case 'branch': {
+      const data = (node as BranchNode).data;
+      return {
+        node,
+        kind: 'branch',
+        question: 'the result of the previous step',
+        options: data.branches.map((b, index) => ({
+          index,
+          label: b.label,
+          condition: b.condition,
+        })),
+        history,
+      };
+    }
+    case 'askUserQuestion': {
+      const data = (node as AskUserQuestionNode).data;
+      const singlePort = data.multiSelect || data.useAiSuggestions;
+      return {
+        node,
+        kind: 'askUserQuestion',
+        question: data.questionText,
+        options: singlePort
+          ? []
+          : data.options.map((o, index) => ({
+              index,
+              label: o.label,
+              condition: o.description,
+            })),
+        history,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function resolvePresetAnswer(
+  answers: Record<string, string> | undefined,
+  node: WorkflowNode,
+  options: readonly BranchOption[]
+): number | undefined {
+  if (!answers || node.type !== 'askUserQuestion') return undefined;
+  const answer = answers[node.id] ?? answers[node.name];
+  if (answer === undefined) return undefined;
+  const byLabel = options.find((o) => o.label.toLowerCase() === answer.trim().toLowerCase());
+  if (byLabel) return byLabel.index;
+  const index = Number.parseInt(answer, 10);
+  if (options.some((o) => o.index === index)) return index;
+  throw new WorkflowExecutionError(
+    `Preset answer "${answer}" matches none of: ${options.map((o) => o.label).join(', ')}`,
+    node.id
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * A Join runs once every branch has arrived: defer it while another queued
+ * node can still reach it. Nodes the Join itself leads to (a loop around the
+ * Parallel/Join pair) do not count, so a cycle cannot defer it forever.
+ */
+function isAwaitingBranches(
+  joinId: string,
+  queue: readonly string[],
+  connections: Connection[]
+): boolean {
+  return queue.some(
+    (queuedId) =>
+      queuedId !== joinId &&
+      canReach(queuedId, joinId, connections) &&
+      !canReach(joinId, queuedId, connections)
+  );
+}
+
+function canReach(fromId: string, targetId: string, connections: Connection[]): boolean {
+  const visited = new Set<string>();
+  const stack = [fromId];
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    for (const conn of connections) {
+      if (conn.from !== current) continue;
+      if (conn.to === targetId) return true;
+      stack.push(conn.to);
+    }
+  }
+  return false;
+}
+
+/** `branch-2` → 2. Ports without a numeric suffix map to `undefined`. */
+function portIndex(port: string | undefined): number | undefined {
+  const match = port?.match(/^branch-(\d+)$/);
+  return match ? Number.parseInt(match[1], 10) : undefined;
+}
+
+/** Replace `{{name}}` placeholders with the Prompt node's variable values. */
+function substituteVariables(prompt: string, variables?: Record<string, string>): string {
+  if (!variables) return prompt;
+  return prompt.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (placeholder, name: string) =>
+    variables[name] ? variables[name] : placeholder
+  );
+}
+
+function emit(ctx: ExecutionContext, event: WorkflowExecutionEvent): void {
+  ctx.options.onEvent?.(event);
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Scripted runner (tests / dry runs)
+// ---------------------------------------------------------------------------
+
+export interface ScriptedAgentRunnerOptions {
+  /** Canned step outputs keyed by node ID or node name. */
+  outputs?: Record<string, string>;
+  /**
+   * Canned branch choices keyed by node ID or node name, valued by option
+   * label or index. Unscripted branching nodes take their first option.
+   */
+  branches?: Record<string, string | number>;
+  /** Per-node failures keyed by node ID or node name (the value is the error message). */
+  failures?: Record<string, string>;
+}
+
+/**
+ * A deterministic {@link AgentRunner} that never talks to a model. Useful for
+ * exercising graph traversal in tests and for `ccwf run --runner dry-run`.
+ */
+export function createScriptedAgentRunner(options: ScriptedAgentRunnerOptions = {}): AgentRunner {
+  const lookup = <T>(table: Record<string, T> | undefined, node: WorkflowNode): T | undefined =>
+    table?.[node.id] ?? table?.[node.name];
+
+  return {
+    async runStep(request) {
+      const failure = lookup(options.failures, request.node);
+      if (failure !== undefined) {
+        throw new Error(failure);
+      }
+      return {
+        output: lookup(options.outputs, request.node) ?? `[${request.kind}] ${request.node.name}`,
+      };
+    },
+    async chooseBranch(request) {
+      const failure = lookup(options.failures, request.node);
+      if (failure !== undefined) {
+        throw new Error(failure);
+      }
+      const scripted = lookup(options.branches, request.node);
+      if (typeof scripted === 'number') {
+        return scripted;
+      }
+      if (typeof scripted === 'string') {
+        const match = request.options.find((o) => o.label.toLowerCase() === scripted.toLowerCase());
+        if (match) return match.index;
+      }
+      return request.options[0].index;
+    },
+  };
+}
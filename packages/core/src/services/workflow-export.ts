@@ -8,10 +8,12 @@
  */
 
 import type { SubAgentFlow, SubAgentFlowNode, SubAgentNode, Workflow } from '../types/workflow-definition.js';
+import { stampExportContents } from './export-marker.js';
 import {
   generateExecutionInstructions,
   generateMermaidFlowchart,
 } from './workflow-prompt-generator.js';
+import { parametersArgumentHint } from './workflow-template.js';
 
 // ---------------------------------------------------------------------------
 // Filename helpers
@@ -122,7 +124,7 @@ export function generateSubAgentFlowAgentFile(
   subAgentFlow: SubAgentFlow,
   agentFileName: string,
   referencingNode?: SubAgentFlowNode,
-  options?: { highlightEnabled?: boolean }
+  options?: { highlightEnabled?: boolean; progressMarkers?: boolean }
 ): string {
   const agentName = agentFileName;
 
@@ -176,15 +178,22 @@ export function generateSubAgentFlowAgentFile(
   const executionLogic = generateExecutionInstructions(pseudoWorkflow, {
     provider: 'claude-code',
     highlightEnabled: options?.highlightEnabled,
+    progressMarkers: options?.progressMarkers,
   });
 
-  return `${frontmatter.join('\n')}${mermaidFlowchart}\n\n${executionLogic}`;
+  // A sub-agent's own output never reaches the caller's transcript; only its
+  // final response does, so the markers are repeated there.
+  const markerReport = options?.progressMarkers
+    ? '\nEnd your final response with every progress marker you printed, one per line, in the order you printed them.\n'
+    : '';
+
+  return `${frontmatter.join('\n')}${mermaidFlowchart}\n\n${executionLogic}${markerReport}`;
 }
 
 /** Generate the `.claude/commands/<workflow>.md` SlashCommand file content. */
 export function generateSlashCommandFile(
   workflow: Workflow,
-  options?: { highlightEnabled?: boolean }
+  options?: { highlightEnabled?: boolean; progressMarkers?: boolean }
 ): string {
   const frontmatterLines = [
     '---',
@@ -207,8 +216,11 @@ export function generateSlashCommandFile(
     frontmatterLines.push('disable-model-invocation: true');
   }
 
-  if (workflow.slashCommandOptions?.argumentHint) {
-    frontmatterLines.push(`argument-hint: ${workflow.slashCommandOptions.argumentHint}`);
+  // An explicit hint wins; otherwise template parameters advertise themselves.
+  const argumentHint =
+    workflow.slashCommandOptions?.argumentHint || parametersArgumentHint(workflow.parameters);
+  if (argumentHint) {
+    frontmatterLines.push(`argument-hint: ${argumentHint}`);
   }
 
   const hooks = workflow.slashCommandOptions?.hooks;
@@ -247,6 +259,7 @@ export function generateSlashCommandFile(
     subAgentFlows: workflow.subAgentFlows,
     provider: 'claude-code',
     highlightEnabled: options?.highlightEnabled,
+    progressMarkers: options?.progressMarkers,
   });
 
   return `${frontmatter}${mermaidFlowchart}\n\n${executionLogic}`;
@@ -320,6 +333,11 @@ export interface PlannedExportFile {
 
 export interface PlanWorkflowExportOptions {
   highlightEnabled?: boolean;
+  /**
+   * Emit node progress markers in the workflow entry and the Sub-Agent Flow
+   * agent files (see `generateExecutionInstructions`).
+   */
+  progressMarkers?: boolean;
 }
 
 const AGENTS_DIR = '.claude/agents';
@@ -334,12 +352,23 @@ const AGENTS_DIR = '.claude/agents';
 // frontmatter is deferred to a later phase.
 const SKILLS_DIR = '.claude/skills';
 
+/**
+ * Directories `planWorkflowExportFiles` writes under, plus the legacy
+ * `.claude/commands/` location older exports used for the workflow entry.
+ */
+export const CLAUDE_CODE_EXPORT_DIRS = {
+  agentsDir: AGENTS_DIR,
+  skillsDir: SKILLS_DIR,
+  legacyCommandsDir: '.claude/commands',
+} as const;
+
 /**
  * Plan the set of files `ccwf run` (and the VSCode extension's export flow)
  * needs to write for a given workflow.
  *
  * Skips Sub-Agent nodes that already reference an external file
  * (`commandFilePath`, `pluginName`, `builtInType`) — these are already on disk.
+ * Every file ends with a content-hash marker (see `./export-marker.ts`).
  */
 export function planWorkflowExportFiles(
   workflow: Workflow,
@@ -358,7 +387,7 @@ export function planWorkflowExportFiles(
     const fileName = nodeNameToFileName(node.name);
     planned.push({
       relativePath: `${AGENTS_DIR}/${fileName}.md`,
-      contents: generateSubAgentFile(node),
+      contents: stampExportContents(generateSubAgentFile(node)),
       kind: 'subAgent',
       sourceName: node.name,
     });
@@ -378,7 +407,9 @@ export function planWorkflowExportFiles(
       );
       planned.push({
         relativePath: `${AGENTS_DIR}/${fileName}.md`,
-        contents: generateSubAgentFlowAgentFile(subAgentFlow, fileName, referencingNode, options),
+        contents: stampExportContents(
+          generateSubAgentFlowAgentFile(subAgentFlow, fileName, referencingNode, options)
+        ),
         kind: 'subAgentFlow',
         sourceName: subAgentFlow.name,
       });
@@ -389,7 +420,7 @@ export function planWorkflowExportFiles(
   // workflow's entry sits at `.claude/skills/<workflow-name>/SKILL.md`.
   planned.push({
     relativePath: `${SKILLS_DIR}/${workflowBaseName}/SKILL.md`,
-    contents: generateSlashCommandFile(workflow, options),
+    contents: stampExportContents(generateSlashCommandFile(workflow, options)),
     kind: 'slashCommand',
     sourceName: workflow.name,
   });
@@ -0,0 +1,781 @@
+/**
+ * Import hand-written Claude Code slash commands (`.claude/commands/*.md`)
+ * and skills (`SKILL.md`) as workflows — the reverse of
+ * `generateSlashCommandFile`.
+ *
+ * - Frontmatter (`allowed-tools`, `model`, `context`, `hooks`,
+ *   `argument-hint`, `disable-model-invocation`) becomes
+ *   `SlashCommandOptions`; `description` / `name` become the workflow's.
+ * - The body is split into steps — by `##` / `###` headings, else by a
+ *   top-level numbered list, else kept whole — chained Start → steps → End.
+ *   A step that delegates to a sub-agent ("use the code-reviewer subagent",
+ *   `@agent-code-reviewer`, `subagent_type: …`) becomes a SubAgent node,
+ *   linked to its `.claude/agents/` file when the caller supplies it; every
+ *   other step becomes a Prompt node holding the step text verbatim.
+ * - A tour walks the steps in order.
+ *
+ * The report lists what was mapped, dropped and kept as plain text, and
+ * checks the round trip: the workflow is exported again with
+ * `generateSlashCommandFile` and compared with the source. No file I/O —
+ * callers read the command and agent files.
+ */
+
+import { SUB_AGENT_MODEL_VALUES } from '../schema/nodes/sub-agent-schema.js';
+import {
+  type BuiltInSubAgentType,
+  type Connection,
+  type EndNode,
+  type HookAction,
+  type HookEntry,
+  type HookType,
+  NodeType,
+  type PromptNode,
+  type SlashCommandOptions,
+  SUB_AGENT_COLORS,
+  type StartNode,
+  type SubAgentData,
+  type SubAgentNode,
+  type TourStep,
+  VALIDATION_RULES,
+  type Workflow,
+  type WorkflowHooks,
+  type WorkflowNode,
+} from '../types/workflow-definition.js';
+import {
+  type FrontmatterValue,
+  FrontmatterParseError,
+  parseMarkdownFrontmatter,
+} from '../utils/markdown-frontmatter.js';
+import { CURRENT_SCHEMA_VERSION } from '../utils/migrate-workflow.js';
+import { stripExportMarker } from './export-marker.js';
+import { generateSlashCommandFile, nodeNameToFileName } from './workflow-export.js';
+
+export type ImportSourceKind = 'command' | 'skill';
+
+/** A `.claude/agents/<name>.md` file the imported body may refer to. */
+export interface SubAgentFileSource {
+  /** File contents. */
+  content: string;
+  /** Project-relative path, stored as the SubAgent node's `commandFilePath`. */
+  filePath: string;
+}
+
+export interface WorkflowImportOptions {
+  /** `skill` for SKILL.md (its `name` names the workflow). Defaults to `command`. */
+  kind?: ImportSourceKind;
+  /** File name without `.md` (commands) or the skill's directory name. */
+  sourceName?: string;
+  /** Workflow name; wins over the frontmatter `name` and `sourceName`. */
+  name?: string;
+  /** Agent files keyed by agent name, for linking SubAgent nodes. */
+  subAgentFiles?: Record<string, SubAgentFileSource>;
+  /** ID of the new workflow. Defaults to `workflow-<timestamp>`. */
+  id?: string;
+  /** Creation time. Defaults to now. */
+  now?: Date;
+}
+
+export interface ImportedStep {
+  nodeId: string;
+  nodeType: 'prompt' | 'subAgent';
+  /** Heading or first words of the step. */
+  title: string;
+  /** Agent a subAgent step delegates to. */
+  subAgent?: string;
+  /** Where that agent's definition comes from. */
+  agentSource?: 'file' | 'built-in' | 'plugin' | 'missing';
+}
+
+export interface WorkflowImportReport {
+  kind: ImportSourceKind;
+  /** Frontmatter keys carried into the workflow. */
+  mappedFields: string[];
+  /** Frontmatter keys (or values) with no workflow equivalent; re-export drops them. */
+  droppedFields: string[];
+  /** How the body was split into steps. */
+  segmentation: 'headings' | 'numbered-list' | 'whole-body';
+  steps: ImportedStep[];
+  /** Constructs kept as plain text and other caveats. */
+  notes: string[];
+  roundTrip: {
+    /** Mapped frontmatter that reads back differently from a re-export. */
+    frontmatterDifferences: string[];
+    /** Non-blank lines in the source body. */
+    bodyLines: number;
+    /** Of those, lines that appear verbatim in the re-export. */
+    preservedBodyLines: number;
+  };
+}
+
+export interface WorkflowImportResult {
+  workflow: Workflow;
+  report: WorkflowImportReport;
+}
+
+/** Thrown when the file cannot be read as a command / skill (broken frontmatter). */
+export class WorkflowImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowImportError';
+  }
+}
+
+const HOOK_TYPES: readonly HookType[] = ['PreToolUse', 'PostToolUse', 'Stop'];
+const BUILT_IN_AGENTS: Record<string, BuiltInSubAgentType> = {
+  'general-purpose': 'general-purpose',
+  explore: 'explore',
+  plan: 'plan',
+};
+/** Words the "use the X agent" pattern must not take for an agent name. */
+const NOT_AGENT_NAMES = new Set([
+  'a',
+  'an',
+  'another',
+  'each',
+  'one',
+  'same',
+  'sub',
+  'that',
+  'the',
+  'this',
+  'your',
+]);
+const STEP_SPACING_X = 300;
+const STEP_Y = 200;
+
+// ---------------------------------------------------------------------------
+// Frontmatter → SlashCommandOptions
+// ---------------------------------------------------------------------------
+
+interface MappedFrontmatter {
+  options: SlashCommandOptions;
+  name?: string;
+  description?: string;
+  mapped: string[];
+  dropped: string[];
+  notes: string[];
+}
+
+function asText(value: FrontmatterValue | undefined): string | undefined {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+function mapHooks(
+  value: FrontmatterValue,
+  notes: string[]
+): { hooks?: WorkflowHooks; ok: boolean } {
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false };
+  }
+  const hooks: WorkflowHooks = {};
+  for (const [hookType, entries] of Object.entries(value)) {
+    if (!HOOK_TYPES.includes(hookType as HookType)) {
+      notes.push(
+        `hooks.${hookType} is not supported (only ${HOOK_TYPES.join(', ')}); it was dropped.`
+      );
+      continue;
+    }
+    if (!Array.isArray(entries)) return { ok: false };
+    const mapped: HookEntry[] = [];
+    for (const entry of entries) {
+      if (typeof entry !== 'object' || Array.isArray(entry) || !Array.isArray(entry.hooks)) {
+        return { ok: false };
+      }
+      const actions: HookAction[] = [];
+      for (const action of entry.hooks) {
+        if (typeof action !== 'object' || Array.isArray(action)) return { ok: false };
+        const type = action.type === 'prompt' ? 'prompt' : 'command';
+        const command = asText(action.command) ?? asText(action.prompt);
+        if (!command) return { ok: false };
+        actions.push({ type, command, ...(action.once === true ? { once: true } : {}) });
+      }
+      const matcher = asText(entry.matcher);
+      mapped.push({ ...(matcher ? { matcher } : {}), hooks: actions });
+    }
+    if (mapped.length > 0) hooks[hookType as HookType] = mapped;
+  }
+  return { hooks: Object.keys(hooks).length > 0 ? hooks : undefined, ok: true };
+}
+
+function mapFrontmatter(fields: Record<string, FrontmatterValue>): MappedFrontmatter {
+  const result: MappedFrontmatter = { options: {}, mapped: [], dropped: [], notes: [] };
+  const { options } = result;
+
+  for (const [key, value] of Object.entries(fields)) {
+    const text = asText(value);
+    let mapped = true;
+    switch (key) {
+      case 'name':
+        if (text) result.name = text;
+        else mapped = false;
+        break;
+      case 'description':
+        if (text) result.description = text;
+        else mapped = false;
+        break;
+      case 'allowed-tools':
+        if (Array.isArray(value)) {
+          options.allowedTools = value
+            .map((tool) => asText(tool) ?? '')
+            .filter(Boolean)
+            .join(', ');
+        } else if (text) {
+          options.allowedTools = text;
+        } else {
+          mapped = false;
+        }
+        break;
+      case 'model':
+        if (text === 'default' || SUB_AGENT_MODEL_VALUES.some((model) => model === text)) {
+          options.model = text as SlashCommandOptions['model'];
+        } else {
+          mapped = false;
+          result.notes.push(
+            `model "${text ?? ''}" is not one of ${SUB_AGENT_MODEL_VALUES.join(', ')}; the workflow uses the default model.`
+          );
+        }
+        break;
+      case 'context':
+        if (text === 'fork' || text === 'default') options.context = text;
+        else mapped = false;
+        break;
+      case 'disable-model-invocation':
+        if (value === true || text === 'true') options.disableModelInvocation = true;
+        else if (!(value === false || text === 'false')) mapped = false;
+        break;
+      case 'argument-hint':
+        // `argument-hint: [message]` reads as a one-item YAML list
+        if (Array.isArray(value)) {
+          options.argumentHint = `[${value.map((item) => asText(item) ?? '').join(', ')}]`;
+        } else if (text) {
+          options.argumentHint = text;
+        } else {
+          mapped = false;
+        }
+        break;
+      case 'hooks': {
+        const { hooks, ok } = mapHooks(value, result.notes);
+        if (ok) {
+          if (hooks) options.hooks = hooks;
+        } else {
+          mapped = false;
+          result.notes.push('hooks could not be read as PreToolUse / PostToolUse / Stop entries.');
+        }
+        break;
+      }
+      default:
+        mapped = false;
+    }
+    (mapped ? result.mapped : result.dropped).push(key);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Body → steps
+// ---------------------------------------------------------------------------
+
+interface BodyStep {
+  title: string;
+  text: string;
+}
+
+/** Lines outside fenced code blocks, by index. */
+function unfencedLineIndexes(lines: string[]): Set<number> {
+  const indexes = new Set<number>();
+  let fence: string | undefined;
+  lines.forEach((line, index) => {
+    const marker = /^\s*(```|~~~)/.exec(line)?.[1];
+    if (fence) {
+      if (marker === fence) fence = undefined;
+    } else if (marker) {
+      fence = marker;
+    } else {
+      indexes.add(index);
+    }
+  });
+  return indexes;
+}
+
+function trimBlankLines(lines: string[]): string {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end).join('\n');
+}
+
+function splitAt(
+  lines: string[],
+  starts: { index: number; title: string; keepLine: boolean }[]
+): BodyStep[] {
+  const steps: BodyStep[] = [];
+  const preamble = trimBlankLines(lines.slice(0, starts[0].index));
+  if (preamble) steps.push({ title: 'Introduction', text: preamble });
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : lines.length;
+    const from = start.keepLine ? start.index : start.index + 1;
+    const text = trimBlankLines(lines.slice(from, end));
+    steps.push({ title: start.title, text: text || start.title });
+  });
+  return steps;
+}
+
+function segmentBody(lines: string[]): {
+  steps: BodyStep[];
+  segmentation: WorkflowImportReport['segmentation'];
+} {
+  const unfenced = unfencedLineIndexes(lines);
+
+  const headings = lines
+    .map((line, index) => ({ index, match: /^(#{2,3})\s+(.+?)\s*#*\s*$/.exec(line) }))
+    .filter((h) => unfenced.has(h.index) && h.match);
+  if (headings.length > 0) {
+    const level = Math.min(...headings.map((h) => h.match?.[1].length ?? 3));
+    const starts = headings
+      .filter((h) => h.match?.[1].length === level)
+      .map((h) => ({ index: h.index, title: h.match?.[2] ?? '', keepLine: false }));
+    const steps = splitAt(lines, starts);
+    if (steps.length > 1) return { steps, segmentation: 'headings' };
+  }
+
+  const items = lines
+    .map((line, index) => ({ index, match: /^\d+[.)]\s+(.+)$/.exec(line) }))
+    .filter((item) => unfenced.has(item.index) && item.match)
+    .map((item) => ({ index: item.index, title: item.match?.[1] ?? '', keepLine: true }));
+  if (items.length > 1) {
+    return { steps: splitAt(lines, items), segmentation: 'numbered-list' };
+  }
+
+  const text = trimBlankLines(lines);
+  return {
+    steps: text ? [{ title: firstWords(text), text }] : [],
+    segmentation: 'whole-body',
+  };
+}
+
+/** The first few words of `text`, without Markdown emphasis. */
+function firstWords(text: string, count = 6): string {
+  const line = text.split('\n').find((l) => l.trim() !== '') ?? '';
+  return line
+    .replace(/^[#>*\-\s\d.)]+/, '')
+    .replace(/[*_`]/g, '')
+    .split(/\s+/)
+    .slice(0, count)
+    .join(' ');
+}
+
+/** A node name (NAME_PATTERN, ≤ NAME_MAX_LENGTH) that is not in `taken`. */
+function uniqueNodeName(title: string, fallback: string, taken: Set<string>): string {
+  const max = VALIDATION_RULES.NODE.NAME_MAX_LENGTH - 3;
+  let base = nodeNameToFileName(title).replace(/-+/g, '-').replace(/^-|-$/g, '');
+  if (base.length > max) base = base.slice(0, max).replace(/-[^-]*$/, '') || base.slice(0, max);
+  if (!base) base = fallback;
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}-${n}`;
+  taken.add(name);
+  return name;
+}
+
+/** Agent names a step delegates to, in order of appearance. */
+function findAgentReferences(text: string): string[] {
+  const patterns = [
+    /subagent_type\s*[:=]\s*["'`]?([\w:-]+)/gi,
+    /@agent-([\w:-]+)/gi,
+    /\b(?:use|launch|invoke|run|call|spawn|delegate to|hand off to)\s+(?:the\s+)?`?([\w-]+(?::[\w-]+)?)`?\s+(?:sub-?agent|agent)\b/gi,
+    /\bsub-?agent\s+`([\w:-]+)`/gi,
+  ];
+  const found: { name: string; at: number }[] = [];
+  for (const pattern of patterns) {
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      const name = match[1];
+      if (!NOT_AGENT_NAMES.has(name.toLowerCase())) found.push({ name, at: match.index });
+    }
+  }
+  const names = found.sort((a, b) => a.at - b.at).map((f) => f.name);
+  return [...new Set(names)];
+}
+
+function lookupAgentFile(
+  name: string,
+  files: Record<string, SubAgentFileSource> | undefined
+): SubAgentFileSource | undefined {
+  if (!files) return undefined;
+  const key = Object.keys(files).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key ? files[key] : undefined;
+}
+
+/** SubAgent data from a `.claude/agents/*.md` file, as the canvas links one. */
+function subAgentDataFromFile(file: SubAgentFileSource, step: BodyStep): SubAgentData {
+  let fields: Record<string, FrontmatterValue> = {};
+  let body = file.content;
+  try {
+    ({ fields, body } = parseMarkdownFrontmatter(file.content));
+  } catch {
+    // Keep the raw file as the definition
+  }
+  const tools = Array.isArray(fields.tools)
+    ? fields.tools.map((tool) => asText(tool) ?? '').join(', ')
+    : asText(fields.tools);
+  const model = asText(fields.model);
+  const color = asText(fields.color);
+  const memory = asText(fields.memory);
+  return {
+    description: asText(fields.description) || step.title,
+    agentDefinition: body.trim(),
+    prompt: step.text,
+    agentType: 'claudeCode',
+    ...(tools ? { tools } : {}),
+    ...(model && SUB_AGENT_MODEL_VALUES.some((m) => m === model)
+      ? { model: model as SubAgentData['model'] }
+      : {}),
+    ...(color && color in SUB_AGENT_COLORS ? { color: color as SubAgentData['color'] } : {}),
+    ...(memory === 'user' || memory === 'project' || memory === 'local' ? { memory } : {}),
+    outputPorts: 1,
+    commandFilePath: file.filePath,
+    commandScope: 'project',
+  };
+}
+
+function bodyNotes(body: string): string[] {
+  const notes: string[] = [];
+  if (/## Workflow Execution Guide/.test(body)) {
+    notes.push(
+      'This file looks like a cc-wf-studio export; import the original workflow JSON instead when you have it.'
+    );
+  }
+  if (/!`[^`]+`/.test(body)) {
+    notes.push(
+      'Shell pre-execution lines (!`command`) are kept as prompt text; check that they still run where you expect in the exported command.'
+    );
+  }
+  if (/\$ARGUMENTS|\$\d\b/.test(body)) {
+    notes.push(
+      '$ARGUMENTS / $1… placeholders are kept verbatim and still receive the command arguments.'
+    );
+  }
+  if (/(^|\s)@[\w./-]+\.\w+/.test(body)) {
+    notes.push('@file references are kept as text in the prompts.');
+  }
+  if (/AskUserQuestion/.test(body)) {
+    notes.push(
+      'AskUserQuestion instructions stay inside Prompt nodes; replace them with an AskUserQuestion node to branch on the answer.'
+    );
+  }
+  return notes;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a workflow from the text of a slash command or SKILL.md file.
+ *
+ * @throws WorkflowImportError when the frontmatter is not closed or not valid YAML
+ */
+export function importSlashCommandMarkdown(
+  content: string,
+  options: WorkflowImportOptions = {}
+): WorkflowImportResult {
+  let frontmatter: ReturnType<typeof parseMarkdownFrontmatter>;
+  try {
+    // A file ccwf exported carries a content-hash marker that is not part of the command
+    frontmatter = parseMarkdownFrontmatter(stripExportMarker(content));
+  } catch (error) {
+    if (error instanceof FrontmatterParseError) throw new WorkflowImportError(error.message);
+    throw error;
+  }
+
+  const kind = options.kind ?? 'command';
+  const mapping = mapFrontmatter(frontmatter.fields);
+  const notes = [...mapping.notes];
+
+  const workflowName =
+    [options.name, mapping.name, options.sourceName]
+      .map((candidate) =>
+        candidate
+          ? nodeNameToFileName(candidate).slice(0, VALIDATION_RULES.WORKFLOW.NAME_MAX_LENGTH)
+          : ''
+      )
+      .find((candidate) => VALIDATION_RULES.WORKFLOW.NAME_PATTERN.test(candidate)) ??
+    'imported-workflow';
+
+  // The H1 title is the command's heading, not a step
+  const bodyLines = frontmatter.body.split(/\r?\n/);
+  const firstContent = bodyLines.findIndex((line) => line.trim() !== '');
+  if (firstContent !== -1 && /^#\s+/.test(bodyLines[firstContent])) {
+    notes.push(`The title heading "${bodyLines[firstContent].trim()}" was dropped.`);
+    bodyLines.splice(firstContent, 1);
+  }
+  const { steps, segmentation } = segmentBody(bodyLines);
+  if (steps.length === 0) notes.push('The body is empty; the workflow has no steps.');
+  if (segmentation === 'headings') {
+    notes.push('Step headings become node names and are not repeated in the prompts.');
+  }
+  notes.push(...bodyNotes(frontmatter.body));
+
+  const startNode: StartNode = {
+    id: 'start-1',
+    type: NodeType.Start,
+    name: 'start',
+    position: { x: 100, y: STEP_Y },
+    data: {},
+  };
+  const nodes: WorkflowNode[] = [startNode];
+  const importedSteps: ImportedStep[] = [];
+  const takenNames = new Set(['start', 'end']);
+  let promptCount = 0;
+  let subAgentCount = 0;
+
+  steps.forEach((step, i) => {
+    const position = { x: 100 + (i + 1) * STEP_SPACING_X, y: STEP_Y };
+    const agents = findAgentReferences(step.text);
+    if (agents.length === 0) {
+      const node: PromptNode = {
+        id: `prompt-${++promptCount}`,
+        type: NodeType.Prompt,
+        name: uniqueNodeName(step.title, `step-${i + 1}`, takenNames),
+        position,
+        data: { prompt: step.text },
+      };
+      nodes.push(node);
+      importedSteps.push({ nodeId: node.id, nodeType: 'prompt', title: step.title });
+      return;
+    }
+
+    const [reference] = agents;
+    if (agents.length > 1) {
+      notes.push(
+        `Step "${step.title}" mentions several agents (${agents.join(', ')}); it became a SubAgent node for ${reference}.`
+      );
+    }
+    const [pluginName, agentName] = reference.includes(':')
+      ? reference.split(':', 2)
+      : [undefined, reference];
+    const file = pluginName ? undefined : lookupAgentFile(agentName, options.subAgentFiles);
+    const builtInType = pluginName ? undefined : BUILT_IN_AGENTS[agentName.toLowerCase()];
+
+    let data: SubAgentData;
+    let agentSource: ImportedStep['agentSource'];
+    if (file) {
+      data = subAgentDataFromFile(file, step);
+      agentSource = 'file';
+    } else {
+      data = {
+        description: step.title,
+        agentDefinition: '',
+        prompt: step.text,
+        agentType: 'claudeCode',
+        outputPorts: 1,
+        ...(builtInType ? { builtInType } : {}),
+        ...(pluginName ? { pluginName } : {}),
+      };
+      agentSource = builtInType ? 'built-in' : pluginName ? 'plugin' : 'missing';
+      if (agentSource === 'missing') {
+        notes.push(
+          `No agent file was found for "${agentName}"; its SubAgent node has an empty definition. Link it to the agent on the canvas before exporting.`
+        );
+      }
+    }
+    // Node names become agent file names on export, so they must stay unique
+    // even when several steps use the same agent.
+    let name: string;
+    if (VALIDATION_RULES.NODE.NAME_PATTERN.test(agentName) && !takenNames.has(agentName)) {
+      name = agentName;
+      takenNames.add(name);
+    } else {
+      name = uniqueNodeName(agentName, `agent-${subAgentCount + 1}`, takenNames);
+      if (name !== agentName) {
+        notes.push(
+          `Step "${step.title}" uses "${agentName}", whose name is taken or not a valid node name; its SubAgent node is named "${name}".`
+        );
+      }
+    }
+    const node: SubAgentNode = {
+      id: `subagent-${++subAgentCount}`,
+      type: NodeType.SubAgent,
+      name,
+      position,
+      data,
+    };
+    nodes.push(node);
+    importedSteps.push({
+      nodeId: node.id,
+      nodeType: 'subAgent',
+      title: step.title,
+      subAgent: reference,
+      agentSource,
+    });
+  });
+
+  const endNode: EndNode = {
+    id: 'end-1',
+    type: NodeType.End,
+    name: 'end',
+    position: { x: 100 + (steps.length + 1) * STEP_SPACING_X, y: STEP_Y },
+    data: {},
+  };
+  nodes.push(endNode);
+
+  const connections: Connection[] = nodes.slice(1).map((node, i) => ({
+    id: `conn-${i + 1}`,
+    from: nodes[i].id,
+    to: node.id,
+    fromPort: 'output',
+    toPort: 'input',
+  }));
+
+  const now = options.now ?? new Date();
+  const workflow: Workflow = {
+    id: options.id ?? `workflow-${now.getTime()}`,
+    name: workflowName,
+    ...(mapping.description ? { description: mapping.description } : {}),
+    version: '1.0.0',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    nodes,
+    connections,
+    createdAt: now,
+    updatedAt: now,
+    ...(Object.keys(mapping.options).length > 0 ? { slashCommandOptions: mapping.options } : {}),
+  };
+  workflow.tour = generateImportTour(workflow, kind, steps, importedSteps);
+
+  return {
+    workflow,
+    report: {
+      kind,
+      mappedFields: mapping.mapped,
+      droppedFields: mapping.dropped,
+      segmentation,
+      steps: importedSteps,
+      notes,
+      roundTrip: checkRoundTrip(workflow, mapping, frontmatter.body),
+    },
+  };
+}
+
+function summarize(text: string, max = 200): string {
+  const paragraph = text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .find((p) => p !== '' && !p.startsWith('```'));
+  if (!paragraph) return '';
+  return paragraph.length > max ? `${paragraph.slice(0, max - 1)}…` : paragraph;
+}
+
+function generateImportTour(
+  workflow: Workflow,
+  kind: ImportSourceKind,
+  steps: BodyStep[],
+  imported: ImportedStep[]
+): TourStep[] {
+  const source = kind === 'skill' ? 'Claude Code skill' : 'Claude Code slash command';
+  const tour: TourStep[] = [
+    {
+      order: 1,
+      title: 'Overview',
+      description: [
+        `Imported from the ${source} "${workflow.name}": ${imported.length} step(s), run one after another.`,
+        workflow.description ?? '',
+      ]
+        .filter(Boolean)
+        .join(' '),
+      nodeIds: ['start-1'],
+    },
+  ];
+  imported.forEach((step, i) => {
+    const summary = summarize(steps[i].text);
+    tour.push({
+      order: tour.length + 1,
+      title: step.title,
+      description:
+        step.nodeType === 'subAgent'
+          ? `Delegates to the ${step.subAgent} sub-agent. ${summary}`.trim()
+          : summary || step.title,
+      nodeIds: [step.nodeId],
+    });
+  });
+  tour.push({
+    order: tour.length + 1,
+    title: 'Done',
+    description: 'The workflow ends after the last step.',
+    nodeIds: ['end-1'],
+  });
+  return tour;
+}
+
+/** Export the workflow again and read it back: what survives the trip. */
+function checkRoundTrip(
+  workflow: Workflow,
+  source: MappedFrontmatter,
+  sourceBody: string
+): WorkflowImportReport['roundTrip'] {
+  const exported = generateSlashCommandFile(workflow);
+  const reparsed = parseMarkdownFrontmatter(exported);
+  const again = mapFrontmatter(reparsed.fields);
+
+  const frontmatterDifferences: string[] = [];
+  if (source.description !== undefined && again.description !== source.description) {
+    frontmatterDifferences.push('description');
+  }
+  const keys = new Set([...Object.keys(source.options), ...Object.keys(again.options)]);
+  for (const key of keys) {
+    const before = source.options[key as keyof SlashCommandOptions];
+    const after = again.options[key as keyof SlashCommandOptions];
+    // `context: default` is written as no context line at all
+    if (key === 'context' && before === 'default' && after === undefined) continue;
+    if (JSON.stringify(before) !== JSON.stringify(after)) frontmatterDifferences.push(key);
+  }
+
+  const exportedLines = new Set(reparsed.body.split(/\r?\n/).map((line) => line.trim()));
+  const sourceLines = sourceBody
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+  return {
+    frontmatterDifferences,
+    bodyLines: sourceLines.length,
+    preservedBodyLines: sourceLines.filter((line) => exportedLines.has(line)).length,
+  };
+}
+
+/** Plain-text rendering of an import report, for the CLI and the editor. */
+export function formatWorkflowImportReport(report: WorkflowImportReport): string {
+  const lines: string[] = [];
+  const segmentation = {
+    headings: 'one step per heading',
+    'numbered-list': 'one step per numbered item',
+    'whole-body': 'the whole body as one step',
+  }[report.segmentation];
+  lines.push(`Steps (${segmentation}):`);
+  for (const step of report.steps) {
+    const detail =
+      step.nodeType === 'subAgent'
+        ? `SubAgent ${step.subAgent} (${step.agentSource === 'file' ? 'linked to its agent file' : step.agentSource})`
+        : 'Prompt';
+    lines.push(`  - ${step.nodeId}: ${step.title} → ${detail}`);
+  }
+  lines.push(`Frontmatter mapped: ${report.mappedFields.join(', ') || '(none)'}`);
+  if (report.droppedFields.length > 0) {
+    lines.push(`Frontmatter dropped: ${report.droppedFields.join(', ')}`);
+  }
+  const { roundTrip } = report;
+  const percent =
+    roundTrip.bodyLines === 0
+      ? 100
+      : Math.round((roundTrip.preservedBodyLines / roundTrip.bodyLines) * 100);
+  lines.push(
+    `Round trip: ${roundTrip.preservedBodyLines}/${roundTrip.bodyLines} body lines preserved verbatim (${percent}%); ` +
+      (roundTrip.frontmatterDifferences.length > 0
+        ? `frontmatter differs in ${roundTrip.frontmatterDifferences.join(', ')}.`
+        : 'frontmatter identical.')
+  );
+  if (report.notes.length > 0) {
+    lines.push('Notes:');
+    for (const note of report.notes) lines.push(`  - ${note}`);
+  }
+  return lines.join('\n');
+}
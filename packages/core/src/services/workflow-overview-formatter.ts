@@ -21,7 +21,9 @@ import type {
   CodexNode,
   Connection,
   IfElseNode,
+  LoopNode,
   McpNode,
+  ParallelNode,
   PromptNode,
   SkillNode,
   SubAgentFlowNode,
@@ -30,7 +32,7 @@ import type {
   Workflow,
   WorkflowNode,
 } from '../types/workflow-definition.js';
-import { sanitizeNodeId } from './workflow-prompt-generator.js';
+import { loopPortLabel, sanitizeNodeId } from './workflow-prompt-generator.js';
 
 const SEPARATOR = '\n---\n';
 
@@ -207,6 +209,15 @@ function formatNode(
     case 'branch':
       lines.push(formatBranch(node as BranchNode));
       break;
+    case 'loop':
+      lines.push(formatLoop(node as LoopNode));
+      break;
+    case 'parallel':
+      lines.push(formatParallel(node as ParallelNode));
+      break;
+    case 'join':
+      lines.push('**Type**: JOIN (waits for every parallel branch)');
+      break;
     case 'skill':
       lines.push(formatSkill(node as SkillNode));
       break;
@@ -376,6 +387,26 @@ function formatBranch(node: BranchNode): string {
   return `**Type**: ${branchType} (legacy)`;
 }
 
+// ----- loop ---------------------------------------------------------------
+
+function formatLoop(node: LoopNode): string {
+  const out: string[] = ['**Type**: LOOP'];
+  if (node.data.exitCondition?.trim()) {
+    out.push('');
+    out.push(`**Exit condition**: ${escapeInline(node.data.exitCondition.trim())}`);
+  }
+  out.push('');
+  out.push(`**Max iterations**: ${node.data.maxIterations}`);
+  return out.join('\n');
+}
+
+// ----- parallel -----------------------------------------------------------
+
+function formatParallel(node: ParallelNode): string {
+  const count = node.data.branches?.length ?? 0;
+  return `**Type**: PARALLEL (${count} concurrent branches)`;
+}
+
 // ----- skill --------------------------------------------------------------
 
 function formatSkill(node: SkillNode): string {
@@ -510,6 +541,7 @@ function getNextEdges(node: WorkflowNode, workflow: Workflow): NextEdge[] {
 
 function resolvePortLabel(node: WorkflowNode, fromPort?: string): string | undefined {
   if (!fromPort) return undefined;
+  if ((node.type as string) === 'loop') return loopPortLabel(fromPort);
   const m = fromPort.match(/^branch-(\d+)$/);
   if (!m) return undefined;
   const idx = Number.parseInt(m[1], 10);
@@ -518,8 +550,8 @@ function resolvePortLabel(node: WorkflowNode, fromPort?: string): string | undef
     const opt = (node as AskUserQuestionNode).data.options?.[idx];
     return opt?.label;
   }
-  if (type === 'ifElse' || type === 'switch' || type === 'branch') {
-    const branches = (node as IfElseNode | SwitchNode | BranchNode).data.branches;
+  if (type === 'ifElse' || type === 'switch' || type === 'branch' || type === 'parallel') {
+    const branches = (node as IfElseNode | SwitchNode | BranchNode | ParallelNode).data.branches;
     return branches?.[idx]?.label;
   }
   return undefined;
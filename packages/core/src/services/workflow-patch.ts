@@ -0,0 +1,199 @@
+/**
+ * Workflow patches: a list of typed edit operations an AI (or any other
+ * client) returns instead of a whole regenerated workflow.
+ *
+ * ```json
+ * [
+ *   { "op": "updateNode", "nodeId": "prompt-1", "data": { "prompt": "Summarize {{file}}" } },
+ *   { "op": "addNode", "id": "end-2", "type": "end", "name": "Done", "position": { "x": 900, "y": 200 }, "data": { "label": "Done" } },
+ *   { "op": "connect", "from": "prompt-1", "to": "end-2" }
+ * ]
+ * ```
+ *
+ * Operations are applied one at a time, in order, with the graph edits in
+ * `./workflow-edit.ts`, so an operation can refer to a node added by an
+ * earlier one, and nodes no operation names are left exactly as they were.
+ * Applying a subset (some operations rejected by the user) works the same
+ * way. Whether the result is a valid workflow is still checked separately
+ * with `validateAIGeneratedWorkflow`.
+ */
+
+import { z } from 'zod';
+import { NodeType, type Workflow } from '../types/workflow-definition.js';
+import {
+  addWorkflowNodes,
+  connectWorkflowNodes,
+  disconnectWorkflowNodes,
+  removeWorkflowNodes,
+  updateWorkflowNode,
+  WorkflowEditError,
+} from './workflow-edit.js';
+
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+
+const nodeDataSchema = z.record(z.string(), z.unknown());
+
+export const workflowPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('addNode'),
+    /** Required so later operations can connect to the node. */
+    id: z.string().min(1),
+    type: z.enum(NodeType),
+    name: z.string().min(1),
+    position: positionSchema,
+    data: nodeDataSchema,
+    parentId: z.string().optional(),
+  }),
+  z
+    .object({
+      op: z.literal('updateNode'),
+      nodeId: z.string().min(1),
+      name: z.string().min(1).optional(),
+      position: positionSchema.optional(),
+      /** Merged into the node's data: only the changed keys. */
+      data: nodeDataSchema.optional(),
+    })
+    .refine((op) => op.name !== undefined || op.position !== undefined || op.data !== undefined, {
+      message: 'updateNode needs a name, position or data',
+    }),
+  z.object({
+    op: z.literal('removeNode'),
+    nodeId: z.string().min(1),
+  }),
+  z.object({
+    op: z.literal('connect'),
+    from: z.string().min(1),
+    to: z.string().min(1),
+    fromPort: z.string().optional(),
+    toPort: z.string().optional(),
+    condition: z.string().optional(),
+  }),
+  z
+    .object({
+      op: z.literal('disconnect'),
+      id: z.string().optional(),
+      from: z.string().optional(),
+      to: z.string().optional(),
+      fromPort: z.string().optional(),
+    })
+    .refine((op) => op.id !== undefined || op.from !== undefined || op.to !== undefined, {
+      message: 'disconnect needs an id, from or to',
+    }),
+]);
+
+export const workflowPatchSchema = z.array(workflowPatchOperationSchema);
+
+export type WorkflowPatchOperation = z.infer<typeof workflowPatchOperationSchema>;
+export type WorkflowPatchOperationKind = WorkflowPatchOperation['op'];
+
+/**
+ * Thrown when a patch does not match the schema, or an operation does not
+ * fit the workflow it is applied to. `operationIndex` is the 0-based index
+ * of the offending operation, when there is one.
+ */
+export class WorkflowPatchError extends Error {
+  constructor(
+    message: string,
+    readonly operationIndex?: number
+  ) {
+    super(message);
+    this.name = 'WorkflowPatchError';
+  }
+}
+
+/** Check an untrusted value (e.g. from an AI response) against the patch schema. */
+export function parseWorkflowPatch(value: unknown): WorkflowPatchOperation[] {
+  const result = workflowPatchSchema.safeParse(value);
+  if (result.success) return result.data;
+
+  const issue = result.error.issues[0];
+  const [index, ...rest] = issue.path;
+  const operationIndex = typeof index === 'number' ? index : undefined;
+  const at = rest.length > 0 ? ` (at ${rest.join('.')})` : '';
+  throw new WorkflowPatchError(
+    operationIndex === undefined
+      ? `Patch must be an array of operations: ${issue.message}`
+      : `Operation ${operationIndex + 1}: ${issue.message}${at}`,
+    operationIndex
+  );
+}
+
+/** Apply one operation; throws `WorkflowEditError` when it does not fit the workflow. */
+export function applyWorkflowPatchOperation(
+  workflow: Workflow,
+  operation: WorkflowPatchOperation
+): Workflow {
+  switch (operation.op) {
+    case 'addNode': {
+      const { op: _op, ...node } = operation;
+      return addWorkflowNodes(workflow, [node]).workflow;
+    }
+    case 'updateNode':
+      return updateWorkflowNode(workflow, operation.nodeId, {
+        name: operation.name,
+        position: operation.position,
+        data: operation.data,
+      });
+    case 'removeNode':
+      return removeWorkflowNodes(workflow, [operation.nodeId]).workflow;
+    case 'connect': {
+      const { op: _op, ...connection } = operation;
+      return connectWorkflowNodes(workflow, [connection]).workflow;
+    }
+    case 'disconnect': {
+      const { op: _op, ...selector } = operation;
+      return disconnectWorkflowNodes(workflow, [selector]).workflow;
+    }
+  }
+}
+
+/**
+ * Apply operations in order. The first one that does not fit stops the
+ * patch with a `WorkflowPatchError` naming it; the input is never modified.
+ */
+export function applyWorkflowPatch(
+  workflow: Workflow,
+  operations: WorkflowPatchOperation[]
+): Workflow {
+  let result = workflow;
+  operations.forEach((operation, index) => {
+    try {
+      result = applyWorkflowPatchOperation(result, operation);
+    } catch (error) {
+      if (error instanceof WorkflowEditError) {
+        throw new WorkflowPatchError(
+          `Operation ${index + 1} (${operation.op}): ${error.message}`,
+          index
+        );
+      }
+      throw error;
+    }
+  });
+  return result;
+}
+
+/**
+ * What an AI must be told when its patch is sent back for repair. Every
+ * attempt is applied to the original workflow, so a reply with only the
+ * corrective operations would silently drop the edits the user asked for.
+ */
+export const WORKFLOW_PATCH_REPAIR_INSTRUCTIONS: readonly string[] = [
+  'None of your previous operations were applied; the workflow above is unchanged',
+  'Return the complete list of operations again: every edit the user asked for, with the failing operations fixed',
+  'Do not return only the corrective operations; any operation left out of the list is lost',
+];
+
+/** Node ids an operation refers to, e.g. to find the operations that build on a rejected one. */
+export function getWorkflowPatchOperationNodeIds(operation: WorkflowPatchOperation): string[] {
+  switch (operation.op) {
+    case 'addNode':
+      return operation.parentId ? [operation.id, operation.parentId] : [operation.id];
+    case 'updateNode':
+    case 'removeNode':
+      return [operation.nodeId];
+    case 'connect':
+      return [operation.from, operation.to];
+    case 'disconnect':
+      return [operation.from, operation.to].filter((id): id is string => id !== undefined);
+  }
+}
@@ -8,13 +8,17 @@
  */
 
 import { CC_ONLY_MODELS } from '../schema/nodes/sub-agent-schema.js';
+import { exportProviderToTarget } from '../schema/targets.js';
+import { PARALLEL_EXECUTION_TARGETS } from '../schema/warnings.js';
 import type {
   AskUserQuestionNode,
   BranchNode,
   BranchSessionNode,
   CodexNode,
   IfElseNode,
+  LoopNode,
   McpNode,
+  ParallelNode,
   PromptNode,
   SkillNode,
   SubAgentNode,
@@ -22,6 +26,8 @@ import type {
   Workflow,
   WorkflowNode,
 } from '../types/workflow-definition.js';
+import { LOOP_BODY_PORT, LOOP_EXIT_PORT } from '../types/workflow-definition.js';
+import { matchParallelJoin } from '../utils/parallel-join.js';
 
 /**
  * Common interface for Mermaid generation
@@ -96,6 +102,16 @@ export function escapeLabel(label: string): string {
     .replace(/\|/g, '#124;');
 }
 
+/**
+ * Edge label for a Loop node output port (`Body` / `Exit`), or undefined for
+ * any other port.
+ */
+export function loopPortLabel(port: string | undefined): string | undefined {
+  if (port === LOOP_BODY_PORT) return 'Body';
+  if (port === LOOP_EXIT_PORT) return 'Exit';
+  return undefined;
+}
+
 /**
  * Generate Mermaid flowchart from workflow or subworkflow
  */
@@ -186,6 +202,37 @@ export function generateMermaidFlowchart(source: MermaidSource): string {
       }
       return `${indent}${nodeId}{Switch:<br/>Conditional Branch}`;
     }
+    if (nodeType === 'loop') {
+      const loopNode = node as LoopNode;
+      // Hexagon keeps loops distinct from the diamond-shaped branch nodes.
+      if (concise) {
+        const title = titleOf(loopNode, 'Loop');
+        return `${indent}${nodeId}{{${escapeLabel(`${upperType('Loop')}: ${title}`)}}}`;
+      }
+      const condition = loopNode.data.exitCondition?.split('\n')[0] || 'exit condition';
+      const until = condition.length > 30 ? `${condition.substring(0, 27)}...` : condition;
+      return `${indent}${nodeId}{{${escapeLabel(`Loop: until ${until}`)}<br/>${escapeLabel(`max ${loopNode.data.maxIterations}`)}}}`;
+    }
+    // Trapezoid (fan-out) / inverted trapezoid (fan-in); their delimiters are
+    // slashes, so those are escaped on top of escapeLabel.
+    const escapeTrapezoid = (label: string): string =>
+      escapeLabel(label).replace(/\//g, '#47;').replace(/\\/g, '#92;');
+    if (nodeType === 'parallel') {
+      const parallelNode = node as ParallelNode;
+      if (concise) {
+        const title = titleOf(parallelNode, 'Parallel');
+        return `${indent}${nodeId}[/${escapeTrapezoid(`${upperType('Parallel')}: ${title}`)}\\]`;
+      }
+      const count = parallelNode.data.branches?.length ?? 0;
+      return `${indent}${nodeId}[/Parallel:<br/>${count} branches\\]`;
+    }
+    if (nodeType === 'join') {
+      if (concise) {
+        const title = titleOf(node, 'Join');
+        return `${indent}${nodeId}[\\${escapeTrapezoid(`${upperType('Join')}: ${title}`)}/]`;
+      }
+      return `${indent}${nodeId}[\\Join:<br/>Wait for all branches/]`;
+    }
     if (nodeType === 'prompt') {
       const promptNode = node as PromptNode;
       if (concise) {
@@ -320,6 +367,16 @@ export function generateMermaidFlowchart(source: MermaidSource): string {
       } else {
         lines.push(`    ${fromId} --> ${toId}`);
       }
+    } else if (sourceNode?.type === 'parallel' && conn.fromPort) {
+      const branchIndex = Number.parseInt(conn.fromPort.replace('branch-', ''), 10);
+      const branch = (sourceNode as ParallelNode).data.branches?.[branchIndex];
+      if (branch) {
+        lines.push(`    ${fromId} -->|${escapeLabel(branch.label)}| ${toId}`);
+      } else {
+        lines.push(`    ${fromId} --> ${toId}`);
+      }
+    } else if (sourceNode?.type === 'loop' && loopPortLabel(conn.fromPort)) {
+      lines.push(`    ${fromId} -->|${loopPortLabel(conn.fromPort)}| ${toId}`);
     } else {
       lines.push(`    ${fromId} --> ${toId}`);
     }
@@ -385,7 +442,7 @@ function formatManualParameterConfigMode(node: McpNode): string[] {
 /**
  * Format MCP node in AI Parameter Config Mode
  */
-function formatAiParameterConfigMode(node: McpNode, provider: ExportProvider): string[] {
+function formatAiParameterConfigMode(node: McpNode, agentName: string): string[] {
   const sections: string[] = [];
   const nodeId = sanitizeNodeId(node.id);
 
@@ -465,7 +522,6 @@ function formatAiParameterConfigMode(node: McpNode, provider: ExportProvider): s
 
   sections.push('**Execution Method**:');
   sections.push('');
-  const agentName = getAgentName(provider);
   sections.push(
     `${agentName} should interpret the natural language description above and set appropriate parameter values based on the parameter schema. Use your best judgment to map the user intent to concrete parameter values that satisfy the constraints.`
   );
@@ -477,7 +533,7 @@ function formatAiParameterConfigMode(node: McpNode, provider: ExportProvider): s
 /**
  * Format MCP node in AI Tool Selection Mode
  */
-function formatAiToolSelectionMode(node: McpNode, provider: ExportProvider): string[] {
+function formatAiToolSelectionMode(node: McpNode, agentName: string): string[] {
   const sections: string[] = [];
   const nodeId = sanitizeNodeId(node.id);
 
@@ -508,7 +564,6 @@ function formatAiToolSelectionMode(node: McpNode, provider: ExportProvider): str
 
   sections.push('**Execution Method**:');
   sections.push('');
-  const agentName = getAgentName(provider);
   sections.push(
     `${agentName} should analyze the task description above and query the MCP server "${node.data.serverId}" at runtime to get the current list of tools. Then, select the most appropriate tool and determine the appropriate parameter values based on the task requirements.`
   );
@@ -587,6 +642,31 @@ function getAskUserQuestionDescription(provider: ExportProvider): string {
   }
 }
 
+/**
+ * Get the provider-specific description for trapezoid (Parallel) nodes.
+ * Providers outside PARALLEL_EXECUTION_TARGETS run the branches sequentially.
+ */
+function getParallelDescription(provider: ExportProvider): string {
+  const label = '- **Trapezoid nodes (Parallel: ...)**';
+  switch (provider) {
+    case 'claude-code':
+      return `${label}: Run every branch concurrently — launch the Task tool calls for all branches in one message — and wait for all of them at the matching Join node`;
+    case 'codex':
+      return `${label}: Run every branch concurrently — call spawn_agent for all branches before waiting on any of them — and wait for all of them at the matching Join node`;
+    case 'copilot':
+    case 'copilot-cli':
+    case 'gemini':
+    case 'roo-code':
+    case 'antigravity':
+    case 'cursor':
+      return `${label}: Run the branches one after another, in the order listed in Parallel Node Details, each up to the matching Join node`;
+    default: {
+      const _exhaustiveCheck: never = provider;
+      throw new Error(`Unknown provider: ${_exhaustiveCheck}`);
+    }
+  }
+}
+
 /**
  * Get the provider-specific agent name for MCP execution method descriptions.
  */
@@ -643,6 +723,26 @@ function getShellToolDescription(provider: ExportProvider): string {
   }
 }
 
+/**
+ * Wording overrides for agents without a built-in `ExportProvider` — the
+ * config-defined custom export targets. Every field left unset keeps the
+ * wording of the provider passed alongside it.
+ */
+export interface ExecutionWording {
+  /** Agent name used in MCP execution-method descriptions (e.g. "Acme Agent"). */
+  agentName?: string;
+  /** How to run Sub-Agent nodes (text after the "Rectangle nodes (Sub-Agent: ...)" label). */
+  subAgent?: string;
+  /** How to ask the user (text after the "Diamond nodes (AskUserQuestion:...)" label). */
+  askUserQuestion?: string;
+  /** How to run Parallel branches (text after the "Trapezoid nodes (Parallel: ...)" label). */
+  parallel?: string;
+  /** Phrase placed before "the `codex exec` command", e.g. "Use the run_shell tool to run". */
+  shell?: string;
+  /** Whether Parallel branches run concurrently (Parallel Node Details wording). */
+  parallelExecution?: boolean;
+}
+
 /**
  * Options for generating execution instructions
  */
@@ -653,10 +753,24 @@ export interface ExecutionInstructionsOptions {
   subAgentFlows?: Workflow['subAgentFlows'];
   /** Provider type for generating provider-specific descriptions */
   provider: ExportProvider;
+  /** Overrides on top of `provider`'s wording (custom export targets) */
+  wording?: ExecutionWording;
   /** Whether group node highlight tracking is enabled (default: true) */
   highlightEnabled?: boolean;
+  /**
+   * Ask the agent to print `[ccwf:node <id> start|done|failed]` markers so an
+   * observer can map the session transcript to nodes (default: false).
+   * See `NodeProgressTracker` in ./execution-progress.
+   */
+  progressMarkers?: boolean;
 }
 
+/**
+ * Heading every generated execution guide starts with. Also used by
+ * `ccwf check` to recognise exported files on disk.
+ */
+export const WORKFLOW_EXECUTION_GUIDE_HEADING = '## Workflow Execution Guide';
+
 /**
  * Generate workflow execution instructions
  */
@@ -665,11 +779,11 @@ export function generateExecutionInstructions(
   options: ExecutionInstructionsOptions
 ): string {
   const { nodes } = workflow;
-  const { provider } = options;
+  const { provider, wording } = options;
   const sections: string[] = [];
 
   // Introduction
-  sections.push('## Workflow Execution Guide');
+  sections.push(WORKFLOW_EXECUTION_GUIDE_HEADING);
   sections.push('');
   sections.push(
     'Follow the Mermaid flowchart above to execute the workflow. Each node type has specific execution methods as described below.'
@@ -679,19 +793,60 @@ export function generateExecutionInstructions(
   // Node type explanations
   sections.push('### Execution Methods by Node Type');
   sections.push('');
-  sections.push(getSubAgentDescription(provider));
-  sections.push(getAskUserQuestionDescription(provider));
+  sections.push(
+    wording?.subAgent
+      ? `- **Rectangle nodes (Sub-Agent: ...)**: ${wording.subAgent}`
+      : getSubAgentDescription(provider)
+  );
+  sections.push(
+    wording?.askUserQuestion
+      ? `- **Diamond nodes (AskUserQuestion:...)**: ${wording.askUserQuestion}`
+      : getAskUserQuestionDescription(provider)
+  );
   sections.push(
     '- **Diamond nodes (Branch/Switch:...)**: Automatically branch based on the results of previous processing (see details section)'
   );
   sections.push(
     '- **Rectangle nodes (Prompt nodes)**: Execute the prompts described in the details section below'
   );
+  sections.push(
+    '- **Hexagon nodes (Loop: ...)**: Repeat the steps on the Body edge until the exit condition holds or the iteration limit is reached, then follow the Exit edge (see Loop Node Details)'
+  );
+  sections.push(
+    wording?.parallel
+      ? `- **Trapezoid nodes (Parallel: ...)**: ${wording.parallel}`
+      : getParallelDescription(provider)
+  );
+  sections.push(
+    '- **Inverted trapezoid nodes (Join: ...)**: Wait until every branch of the matching Parallel node has finished, then continue with all branch results'
+  );
   sections.push(
     '- **Rectangle nodes (Branch-Session: ...)**: Human-in-the-loop checkpoints — pause the workflow and guide the user into a Claude Code branch session (see Branch Session Node Details)'
   );
   sections.push('');
 
+  // Workflow template parameters (exported without being instantiated)
+  const parameters = workflow.parameters ?? [];
+  if (parameters.length > 0) {
+    sections.push('### Workflow Parameters');
+    sections.push('');
+    sections.push(
+      `This workflow is parameterized. Read the values from the arguments it was invoked with (\`$ARGUMENTS\`), in this order: ${parameters.map((p) => `\`${p.name}\``).join(', ')}. Use the default for any value that is omitted; if a parameter without a default is missing, ask the user for it before starting. Wherever \`{{name}}\` appears in the node details below, substitute that parameter's value.`
+    );
+    sections.push('');
+    sections.push('| Parameter | Type | Default | Description |');
+    sections.push('|-----------|------|---------|-------------|');
+    const escapeCell = (v: string) => v.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    for (const param of parameters) {
+      const defaultValue =
+        param.default === undefined ? '(required)' : `\`${String(param.default)}\``;
+      sections.push(
+        `| ${escapeCell(param.name)} | ${param.type} | ${escapeCell(defaultValue)} | ${escapeCell(param.description ?? '')} |`
+      );
+    }
+    sections.push('');
+  }
+
   // Group Node Execution Tracking (skipped when highlight is disabled)
   const highlightEnabled = options.highlightEnabled !== false;
   const groupNodes = nodes.filter((n) => (n.type as string) === 'group');
@@ -721,6 +876,32 @@ export function generateExecutionInstructions(
     sections.push('');
   }
 
+  // Node progress markers (opt-in; consumed by the editor's execution tracking)
+  if (options.progressMarkers) {
+    const trackableNodes = nodes.filter(
+      (n) => n.type !== 'start' && n.type !== 'end' && (n.type as string) !== 'group'
+    );
+    if (trackableNodes.length > 0) {
+      sections.push('### Progress Markers');
+      sections.push('');
+      sections.push(
+        'This run is observed by the workflow editor. Print a marker on its own line when you start and when you finish each node below, using the node ID exactly as shown:'
+      );
+      sections.push('');
+      sections.push('- `[ccwf:node <node-id> start]` — right before executing the node');
+      sections.push('- `[ccwf:node <node-id> done]` — right after the node completes');
+      sections.push('- `[ccwf:node <node-id> failed]` — if the node cannot be completed');
+      sections.push('');
+      sections.push('| Node ID | Name |');
+      sections.push('|---------|------|');
+      const escapeCell = (v: string) => v.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+      for (const node of trackableNodes) {
+        sections.push(`| ${escapeCell(sanitizeNodeId(node.id))} | ${escapeCell(node.name)} |`);
+      }
+      sections.push('');
+    }
+  }
+
   // Collect nodes by type
   const subAgentNodes = nodes.filter((n) => n.type === 'subAgent') as SubAgentNode[];
   const promptNodes = nodes.filter((n) => n.type === 'prompt') as PromptNode[];
@@ -736,6 +917,8 @@ export function generateExecutionInstructions(
   const branchNodes = nodes.filter((n) => n.type === 'branch') as BranchNode[];
   const ifElseNodes = nodes.filter((n) => n.type === 'ifElse') as IfElseNode[];
   const switchNodes = nodes.filter((n) => n.type === 'switch') as SwitchNode[];
+  const loopNodes = nodes.filter((n) => n.type === 'loop') as LoopNode[];
+  const parallelNodes = nodes.filter((n) => n.type === 'parallel') as ParallelNode[];
   const subAgentFlowNodes = nodes.filter((n) => n.type === 'subAgentFlow');
 
   // Sub-Agent node details
@@ -835,10 +1018,16 @@ export function generateExecutionInstructions(
           nodeSections = formatManualParameterConfigMode(node);
           break;
         case 'aiParameterConfig':
-          nodeSections = formatAiParameterConfigMode(node, provider);
+          nodeSections = formatAiParameterConfigMode(
+            node,
+            wording?.agentName ?? getAgentName(provider)
+          );
           break;
         case 'aiToolSelection':
-          nodeSections = formatAiToolSelectionMode(node, provider);
+          nodeSections = formatAiToolSelectionMode(
+            node,
+            wording?.agentName ?? getAgentName(provider)
+          );
           break;
         default:
           nodeSections = formatManualParameterConfigMode(node);
@@ -853,7 +1042,7 @@ export function generateExecutionInstructions(
     sections.push('## Codex Agent Nodes');
     sections.push('');
     sections.push(
-      `Execute these nodes using the OpenAI Codex CLI. ${getShellToolDescription(provider)} the \`codex exec\` command with the specified parameters.`
+      `Execute these nodes using the OpenAI Codex CLI. ${wording?.shell ?? getShellToolDescription(provider)} the \`codex exec\` command with the specified parameters.`
     );
     sections.push('');
     for (const node of codexNodes) {
@@ -1117,5 +1306,97 @@ export function generateExecutionInstructions(
     }
   }
 
+  // Parallel node details
+  if (parallelNodes.length > 0) {
+    const concurrent =
+      wording?.parallelExecution ??
+      PARALLEL_EXECUTION_TARGETS.has(exportProviderToTarget(provider));
+    sections.push('### Parallel Node Details');
+    sections.push('');
+    for (const node of parallelNodes) {
+      const nodeId = sanitizeNodeId(node.id);
+      const { joinId } = matchParallelJoin(node, nodes, workflow.connections);
+      const joinRef = joinId ? `\`${sanitizeNodeId(joinId)}\`` : 'the matching Join node';
+      sections.push(`#### ${nodeId}(${node.data.label || 'Parallel'})`);
+      sections.push('');
+      sections.push('**Branches**:');
+      node.data.branches.forEach((branch, index) => {
+        const starts =
+          workflow.connections
+            .filter((c) => c.from === node.id && c.fromPort === `branch-${index}`)
+            .map((c) => `\`${sanitizeNodeId(c.to)}\``)
+            .join(', ') || '(not connected)';
+        sections.push(`${index + 1}. ${branch.label}: starts at ${starts}`);
+      });
+      sections.push('');
+      sections.push(`**Join**: ${joinRef}`);
+      sections.push('');
+      sections.push('**Execution method**:');
+      if (concurrent) {
+        sections.push(
+          '1. Start all branches at the same time. Branches are independent: do not pass results between them.'
+        );
+        sections.push(`2. Each branch runs until it reaches ${joinRef}.`);
+        sections.push(
+          `3. Wait until every branch has finished, then continue from ${joinRef} with the results of all branches.`
+        );
+      } else {
+        sections.push(
+          `1. Run the branches one at a time in the order listed above, each up to ${joinRef}. Branches are independent: do not pass results between them.`
+        );
+        sections.push(
+          `2. After the last branch, continue from ${joinRef} with the results of all branches.`
+        );
+      }
+      sections.push('');
+    }
+  }
+
+  // Loop node details
+  if (loopNodes.length > 0) {
+    sections.push('### Loop Node Details');
+    sections.push('');
+    sections.push(
+      'A Loop node repeats the path that starts at its Body edge. That path leads back into the Loop node; each return completes one iteration.'
+    );
+    sections.push('');
+    for (const node of loopNodes) {
+      const nodeId = sanitizeNodeId(node.id);
+      const targetsOf = (port: string) =>
+        workflow.connections
+          .filter((c) => c.from === node.id && c.fromPort === port)
+          .map((c) => `\`${sanitizeNodeId(c.to)}\``)
+          .join(', ') || '(not connected)';
+      sections.push(`#### ${nodeId}(${node.data.label || 'Loop'})`);
+      sections.push('');
+      sections.push(`**Exit condition**: ${node.data.exitCondition}`);
+      sections.push('');
+      sections.push(`**Max iterations**: ${node.data.maxIterations}`);
+      sections.push('');
+      sections.push(`**Body starts at**: ${targetsOf(LOOP_BODY_PORT)}`);
+      sections.push('');
+      sections.push(`**Exit continues at**: ${targetsOf(LOOP_EXIT_PORT)}`);
+      sections.push('');
+      sections.push('**Execution method**:');
+      sections.push(
+        '1. On first arrival, set the iteration counter to 1 and execute the body path until it returns to this node.'
+      );
+      sections.push(
+        '2. On each return, evaluate the exit condition against the latest results. If it holds, follow the Exit edge.'
+      );
+      sections.push(
+        `3. Otherwise, if fewer than ${node.data.maxIterations} iterations have run, increment the counter and execute the body path again.`
+      );
+      sections.push(
+        '4. If the limit is reached without the condition holding, stop repeating, follow the Exit edge, and tell the user the exit condition was not met.'
+      );
+      sections.push('');
+      sections.push(
+        `State the iteration each time the body starts (e.g. "${nodeId}: iteration 2/${node.data.maxIterations}").`
+      );
+      sections.push('');
+    }
+  }
+
   return sections.join('\n');
 }
@@ -0,0 +1,363 @@
+/**
+ * Static SVG / HTML rendering of a workflow's canvas layout.
+ *
+ * Unlike `generateMermaidFlowchart`, nothing is re-laid-out: every node is
+ * drawn at its saved `position` (children of a Group are relative to the
+ * group, as on the canvas), Sub-Agent colours come from `SUB_AGENT_COLORS`,
+ * and Groups are drawn as dashed containers behind their members.
+ *
+ * The output is a plain string with no external references (no fonts,
+ * scripts or images), so it can be produced on headless CI and embedded in
+ * PR descriptions or documentation as-is. Node sizes are estimates of the
+ * canvas' rendered sizes — the canvas measures them in the DOM, which is not
+ * available here.
+ */
+
+import {
+  type Connection,
+  NodeType,
+  SUB_AGENT_COLORS,
+  type Workflow,
+  type WorkflowNode,
+} from '../types/workflow-definition.js';
+
+export type WorkflowRenderTheme = 'light' | 'dark';
+
+export interface WorkflowRenderOptions {
+  /** Colour scheme, mirroring VSCode's light / dark themes. @default 'light' */
+  theme?: WorkflowRenderTheme;
+}
+
+interface ThemePalette {
+  background: string;
+  nodeFill: string;
+  border: string;
+  foreground: string;
+  muted: string;
+  edge: string;
+  groupFill: string;
+}
+
+const THEMES: Record<WorkflowRenderTheme, ThemePalette> = {
+  light: {
+    background: '#ffffff',
+    nodeFill: '#ffffff',
+    border: '#d0d7de',
+    foreground: '#1f2328',
+    muted: '#656d76',
+    edge: '#8c959f',
+    groupFill: 'rgba(128, 128, 128, 0.05)',
+  },
+  dark: {
+    background: '#1e1e1e',
+    nodeFill: '#252526',
+    border: '#454545',
+    foreground: '#cccccc',
+    muted: '#9d9d9d',
+    edge: '#6e7681',
+    groupFill: 'rgba(128, 128, 128, 0.08)',
+  },
+};
+
+/** Border colours the canvas gives specific node types; others use the theme border. */
+const TYPE_BORDER_COLORS: Partial<Record<NodeType, string>> = {
+  [NodeType.Start]: '#10b981',
+  [NodeType.End]: '#ef4444',
+  [NodeType.Prompt]: '#3b82f6',
+  [NodeType.BranchSession]: '#14b8a6',
+  [NodeType.SubAgentFlow]: '#892CE2',
+};
+
+const TYPE_LABELS: Record<NodeType, string> = {
+  [NodeType.SubAgent]: 'Sub-Agent',
+  [NodeType.AskUserQuestion]: 'Ask User Question',
+  [NodeType.Branch]: 'Branch',
+  [NodeType.IfElse]: 'If / Else',
+  [NodeType.Switch]: 'Switch',
+  [NodeType.Loop]: 'Loop',
+  [NodeType.Parallel]: 'Parallel',
+  [NodeType.Join]: 'Join',
+  [NodeType.Start]: 'Start',
+  [NodeType.End]: 'End',
+  [NodeType.Prompt]: 'Prompt',
+  [NodeType.Skill]: 'Skill',
+  [NodeType.Mcp]: 'MCP Tool',
+  [NodeType.SubAgentFlow]: 'Sub-Agent Flow',
+  [NodeType.Codex]: 'Codex',
+  [NodeType.BranchSession]: 'Branch Session',
+  [NodeType.Group]: 'Group',
+};
+
+/** Approximate canvas widths (the components' min-widths). */
+const NODE_WIDTHS: Partial<Record<NodeType, number>> = {
+  [NodeType.Start]: 120,
+  [NodeType.End]: 120,
+  [NodeType.Join]: 140,
+  [NodeType.Loop]: 180,
+  [NodeType.Parallel]: 180,
+};
+const DEFAULT_NODE_WIDTH = 200;
+const NODE_HEIGHT = 64;
+const TERMINAL_NODE_HEIGHT = 44;
+/** Size the palette gives a new Group when the file carries no `style`. */
+const DEFAULT_GROUP_SIZE = { width: 400, height: 300 };
+const PADDING = 40;
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif";
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LaidOutNode {
+  node: WorkflowNode;
+  box: Box;
+}
+
+/**
+ * Render the workflow's main canvas as a standalone SVG document.
+ */
+export function renderWorkflowSvg(workflow: Workflow, options: WorkflowRenderOptions = {}): string {
+  const palette = THEMES[options.theme ?? 'light'];
+  const laidOut = layoutNodes(workflow.nodes);
+  const byId = new Map(laidOut.map((entry) => [entry.node.id, entry]));
+
+  const bounds = boundsOf(laidOut.map((entry) => entry.box));
+  const offsetX = PADDING - bounds.x;
+  const offsetY = PADDING - bounds.y;
+  const width = Math.ceil(bounds.width + PADDING * 2);
+  const height = Math.ceil(bounds.height + PADDING * 2);
+
+  const groups = laidOut.filter((entry) => entry.node.type === NodeType.Group);
+  const nodes = laidOut.filter((entry) => entry.node.type !== NodeType.Group);
+
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT_FAMILY)}" role="img" aria-label="${escapeXml(workflow.name || 'Workflow')}">`,
+    `<title>${escapeXml(workflow.name || 'Workflow')}</title>`,
+    '<defs>',
+    `<marker id="ccwf-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${palette.edge}"/></marker>`,
+    '</defs>',
+    `<rect width="100%" height="100%" fill="${palette.background}"/>`,
+    `<g transform="translate(${round(offsetX)} ${round(offsetY)})">`,
+  ];
+
+  for (const group of groups) {
+    lines.push(renderGroup(group, palette));
+  }
+  for (const connection of workflow.connections) {
+    const edge = renderEdge(connection, workflow.connections, byId, palette);
+    if (edge) lines.push(edge);
+  }
+  for (const entry of nodes) {
+    lines.push(renderNode(entry, palette));
+  }
+
+  lines.push('</g>', '</svg>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render a self-contained HTML page: title, description and the inline SVG.
+ */
+export function renderWorkflowHtml(
+  workflow: Workflow,
+  options: WorkflowRenderOptions = {}
+): string {
+  const palette = THEMES[options.theme ?? 'light'];
+  const title = escapeXml(workflow.name || 'Workflow');
+  const description = workflow.description?.trim()
+    ? `<p>${escapeXml(workflow.description.trim())}</p>\n`
+    : '';
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>body{margin:24px;background:${palette.background};color:${palette.foreground};font-family:${FONT_FAMILY}}p{color:${palette.muted}}.canvas{overflow:auto}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    `${description}<div class="canvas">`,
+    renderWorkflowSvg(workflow, options).trimEnd(),
+    '</div>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+// ----- layout -------------------------------------------------------------
+
+function layoutNodes(nodes: WorkflowNode[]): LaidOutNode[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const absolute = new Map<string, { x: number; y: number }>();
+
+  // Children are stored relative to their group; resolve (cycle-safe) to canvas coordinates.
+  const resolve = (node: WorkflowNode, seen: Set<string>): { x: number; y: number } => {
+    const cached = absolute.get(node.id);
+    if (cached) return cached;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    let position = { x: node.position.x, y: node.position.y };
+    if (parent && !seen.has(parent.id)) {
+      seen.add(node.id);
+      const origin = resolve(parent, seen);
+      position = { x: origin.x + position.x, y: origin.y + position.y };
+    }
+    absolute.set(node.id, position);
+    return position;
+  };
+
+  return nodes.map((node) => {
+    const { x, y } = resolve(node, new Set());
+    return { node, box: { x, y, ...sizeOf(node) } };
+  });
+}
+
+function sizeOf(node: WorkflowNode): { width: number; height: number } {
+  if (node.type === NodeType.Group) {
+    return {
+      width: node.style?.width ?? DEFAULT_GROUP_SIZE.width,
+      height: node.style?.height ?? DEFAULT_GROUP_SIZE.height,
+    };
+  }
+  const terminal = node.type === NodeType.Start || node.type === NodeType.End;
+  return {
+    width: node.style?.width ?? NODE_WIDTHS[node.type] ?? DEFAULT_NODE_WIDTH,
+    height: node.style?.height ?? (terminal ? TERMINAL_NODE_HEIGHT : NODE_HEIGHT),
+  };
+}
+
+function boundsOf(boxes: Box[]): Box {
+  if (boxes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  const minX = Math.min(...boxes.map((b) => b.x));
+  const minY = Math.min(...boxes.map((b) => b.y));
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// ----- drawing ------------------------------------------------------------
+
+function renderGroup({ node, box }: LaidOutNode, palette: ThemePalette): string {
+  const label = titleOf(node).toUpperCase();
+  return [
+    `<g data-node-id="${escapeXml(node.id)}" data-node-type="group">`,
+    `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="8" fill="${palette.groupFill}" stroke="${palette.border}" stroke-width="2" stroke-dasharray="6 4"/>`,
+    `<text x="${round(box.x + 12)}" y="${round(box.y + 20)}" font-size="12" font-weight="600" letter-spacing="0.5" fill="${palette.muted}">${escapeXml(truncate(label, box.width - 24, 12))}</text>`,
+    '</g>',
+  ].join('\n');
+}
+
+function renderNode({ node, box }: LaidOutNode, palette: ThemePalette): string {
+  const border = TYPE_BORDER_COLORS[node.type] ?? palette.border;
+  const parts = [
+    `<g data-node-id="${escapeXml(node.id)}" data-node-type="${escapeXml(node.type)}">`,
+    `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="8" fill="${palette.nodeFill}" stroke="${border}" stroke-width="2"/>`,
+  ];
+
+  const accent = accentColorOf(node);
+  if (accent) {
+    parts.push(
+      `<rect x="${round(box.x + 1)}" y="${round(box.y + 1)}" width="6" height="${round(box.height - 2)}" rx="3" fill="${accent}"/>`
+    );
+  }
+
+  const textX = box.x + 12;
+  const maxTextWidth = box.width - 24;
+  if (node.type === NodeType.Start || node.type === NodeType.End) {
+    parts.push(
+      `<text x="${round(box.x + box.width / 2)}" y="${round(box.y + box.height / 2 + 5)}" text-anchor="middle" font-size="13" font-weight="600" fill="${palette.foreground}">${escapeXml(truncate(titleOf(node), maxTextWidth, 13))}</text>`
+    );
+  } else {
+    parts.push(
+      `<text x="${round(textX)}" y="${round(box.y + 22)}" font-size="11" font-weight="600" letter-spacing="0.5" fill="${palette.muted}">${escapeXml(TYPE_LABELS[node.type].toUpperCase())}</text>`,
+      `<text x="${round(textX)}" y="${round(box.y + 44)}" font-size="13" font-weight="500" fill="${palette.foreground}">${escapeXml(truncate(titleOf(node), maxTextWidth, 13))}</text>`
+    );
+  }
+
+  parts.push('</g>');
+  return parts.join('\n');
+}
+
+function renderEdge(
+  connection: Connection,
+  connections: Connection[],
+  byId: Map<string, LaidOutNode>,
+  palette: ThemePalette
+): string | undefined {
+  const source = byId.get(connection.from);
+  const target = byId.get(connection.to);
+  if (!source || !target) return undefined;
+
+  // Spread a node's output handles down its right edge, one slot per distinct port.
+  const ports = [
+    ...new Set(connections.filter((c) => c.from === connection.from).map((c) => c.fromPort)),
+  ].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const slot = (ports.indexOf(connection.fromPort) + 1) / (ports.length + 1);
+
+  const sx = source.box.x + source.box.width;
+  const sy = source.box.y + source.box.height * slot;
+  const tx = target.box.x;
+  const ty = target.box.y + target.box.height / 2;
+  const bend = Math.max(40, Math.abs(tx - sx) / 2);
+  const path = `M ${round(sx)} ${round(sy)} C ${round(sx + bend)} ${round(sy)}, ${round(tx - bend)} ${round(ty)}, ${round(tx)} ${round(ty)}`;
+
+  const parts = [
+    `<path d="${path}" fill="none" stroke="${palette.edge}" stroke-width="1.5" marker-end="url(#ccwf-arrow)"/>`,
+  ];
+  if (connection.condition) {
+    parts.push(
+      `<text x="${round((sx + tx) / 2)}" y="${round((sy + ty) / 2 - 6)}" text-anchor="middle" font-size="11" fill="${palette.muted}" stroke="${palette.background}" stroke-width="3" paint-order="stroke">${escapeXml(connection.condition)}</text>`
+    );
+  }
+  return parts.join('\n');
+}
+
+// ----- helpers ------------------------------------------------------------
+
+function titleOf(node: WorkflowNode): string {
+  switch (node.type) {
+    case NodeType.SubAgent:
+      return node.data.description?.trim() || node.name || 'Untitled Sub-Agent';
+    case NodeType.Mcp:
+      return [node.data.serverId, node.data.toolName].filter(Boolean).join(' / ') || node.name;
+    case NodeType.Group:
+      return node.data.label?.trim() || 'Group';
+    default: {
+      // Prefer data.label, fall back to node.name, finally to the type label.
+      const label = (node as { data?: { label?: string } }).data?.label?.trim();
+      return label || node.name?.trim() || TYPE_LABELS[node.type];
+    }
+  }
+}
+
+function accentColorOf(node: WorkflowNode): string | undefined {
+  if (node.type === NodeType.SubAgent && node.data.color) {
+    return SUB_AGENT_COLORS[node.data.color];
+  }
+  return undefined;
+}
+
+/** Cut `text` to roughly fit `maxWidth` px at `fontSize` (no font metrics available). */
+function truncate(text: string, maxWidth: number, fontSize: number): string {
+  const maxChars = Math.max(4, Math.floor(maxWidth / (fontSize * 0.58)));
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,272 @@
+/**
+ * Workflow Template Parameters
+ *
+ * A workflow may declare `parameters` (name, type, default, description) and
+ * reference them as `{{name}}` in node prompts, Skill execution prompts, Loop
+ * exit conditions and MCP parameter values. Two ways to consume such a template:
+ *
+ * - Instantiate it (`instantiateWorkflowTemplate`): substitute concrete values
+ *   and produce an ordinary workflow. Used by "New from Template" on the
+ *   canvas and `ccwf new --template`.
+ * - Export it as-is: the generated command takes the values from
+ *   `$ARGUMENTS` (see `generateExecutionInstructions`) and advertises them
+ *   via `argument-hint` (`parametersArgumentHint`).
+ *
+ * Placeholders that name no workflow parameter are left untouched, so Prompt
+ * node `variables` keep working; a Prompt node's own variable wins over a
+ * workflow parameter of the same name.
+ */
+
+import type {
+  CodexNodeData,
+  LoopNodeData,
+  McpNodeData,
+  PromptNodeData,
+  SkillNodeData,
+  SubAgentData,
+  Workflow,
+  WorkflowNode,
+  WorkflowParameter,
+} from '../types/workflow-definition.js';
+
+/** `{{name}}` placeholder, tolerant of inner whitespace. */
+export const PARAMETER_PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type WorkflowParameterValue = string | number | boolean;
+
+/** Thrown when supplied values do not satisfy a template's declarations. */
+export class WorkflowTemplateError extends Error {
+  constructor(
+    message: string,
+    /** Name of the offending parameter, when there is one */
+    readonly parameter?: string
+  ) {
+    super(message);
+    this.name = 'WorkflowTemplateError';
+  }
+}
+
+/**
+ * Build an `argument-hint` from the declared parameters, e.g.
+ * `[repo] [branch]`, in declaration order.
+ */
+export function parametersArgumentHint(parameters: WorkflowParameter[] | undefined): string {
+  return (parameters ?? []).map((p) => `[${p.name}]`).join(' ');
+}
+
+/**
+ * Merge supplied values with declared defaults and coerce them to each
+ * parameter's type. String inputs (from a CLI flag or a text field) are
+ * accepted for every type: `"42"` for number, `"true"`/`"false"` for boolean.
+ *
+ * @throws WorkflowTemplateError on unknown names, missing required values or
+ *   values that cannot be coerced
+ */
+export function resolveParameterValues(
+  parameters: WorkflowParameter[] | undefined,
+  provided: Record<string, WorkflowParameterValue | undefined> = {}
+): Record<string, WorkflowParameterValue> {
+  const declared = parameters ?? [];
+  const known = new Set(declared.map((p) => p.name));
+  for (const name of Object.keys(provided)) {
+    if (!known.has(name)) {
+      throw new WorkflowTemplateError(
+        declared.length > 0
+          ? `Unknown parameter "${name}". Declared: ${[...known].join(', ')}`
+          : `Unknown parameter "${name}". This workflow declares no parameters`,
+        name
+      );
+    }
+  }
+
+  const values: Record<string, WorkflowParameterValue> = {};
+  for (const param of declared) {
+    const raw = provided[param.name] ?? param.default;
+    if (raw === undefined) {
+      throw new WorkflowTemplateError(
+        `Missing value for required parameter "${param.name}"`,
+        param.name
+      );
+    }
+    values[param.name] = coerceParameterValue(param, raw);
+  }
+  return values;
+}
+
+function coerceParameterValue(
+  param: WorkflowParameter,
+  raw: WorkflowParameterValue
+): WorkflowParameterValue {
+  switch (param.type) {
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (String(raw).trim() === '' || !Number.isFinite(value)) {
+        throw new WorkflowTemplateError(
+          `Parameter "${param.name}" must be a number (got "${raw}")`,
+          param.name
+        );
+      }
+      return value;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const text = String(raw).trim().toLowerCase();
+      if (text === 'true') return true;
+      if (text === 'false') return false;
+      throw new WorkflowTemplateError(
+        `Parameter "${param.name}" must be true or false (got "${raw}")`,
+        param.name
+      );
+    }
+    default:
+      return String(raw);
+  }
+}
+
+/**
+ * Replace `{{name}}` placeholders whose name is in `values`; others are kept.
+ */
+export function substituteParameters(
+  text: string,
+  values: Record<string, WorkflowParameterValue>
+): string {
+  return text.replace(PARAMETER_PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    hasValue(values, name) ? String(values[name]) : placeholder
+  );
+}
+
+function hasValue(values: Record<string, WorkflowParameterValue>, name: string): boolean {
+  return Object.keys(values).includes(name);
+}
+
+/**
+ * MCP parameter values keep their JSON types: a value that is exactly one
+ * placeholder becomes the typed parameter value, other strings are
+ * substituted as text, and arrays / objects are walked recursively.
+ */
+function substituteInValue(
+  value: unknown,
+  values: Record<string, WorkflowParameterValue>
+): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*(\w+)\s*\}\}$/);
+    if (whole && hasValue(values, whole[1])) return values[whole[1]];
+    return substituteParameters(value, values);
+  }
+  if (Array.isArray(value)) return value.map((item) => substituteInValue(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteInValue(item, values)])
+    );
+  }
+  return value;
+}
+
+function substituteInNode(
+  node: WorkflowNode,
+  values: Record<string, WorkflowParameterValue>
+): WorkflowNode {
+  switch (node.type) {
+    case 'subAgent': {
+      const data = node.data as SubAgentData;
+      return { ...node, data: { ...data, prompt: substituteParameters(data.prompt, values) } };
+    }
+    case 'prompt': {
+      const data = node.data as PromptNodeData;
+      const own = data.variables ?? {};
+      const outer = Object.fromEntries(Object.entries(values).filter(([name]) => !(name in own)));
+      return { ...node, data: { ...data, prompt: substituteParameters(data.prompt, outer) } };
+    }
+    case 'codex': {
+      const data = node.data as CodexNodeData;
+      return { ...node, data: { ...data, prompt: substituteParameters(data.prompt, values) } };
+    }
+    case 'skill': {
+      const data = node.data as SkillNodeData;
+      if (!data.executionPrompt) return node;
+      return {
+        ...node,
+        data: { ...data, executionPrompt: substituteParameters(data.executionPrompt, values) },
+      };
+    }
+    case 'loop': {
+      const data = node.data as LoopNodeData;
+      return {
+        ...node,
+        data: { ...data, exitCondition: substituteParameters(data.exitCondition, values) },
+      };
+    }
+    case 'mcp': {
+      const data = node.data as McpNodeData;
+      if (!data.parameterValues) return node;
+      return {
+        ...node,
+        data: {
+          ...data,
+          parameterValues: substituteInValue(data.parameterValues, values) as Record<
+            string,
+            unknown
+          >,
+        },
+      };
+    }
+    default:
+      return node;
+  }
+}
+
+/**
+ * Substitute resolved values into every node of the workflow and its
+ * Sub-Agent Flows. The input is not mutated; `parameters` is kept.
+ */
+export function applyWorkflowParameters(
+  workflow: Workflow,
+  values: Record<string, WorkflowParameterValue>
+): Workflow {
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map((node) => substituteInNode(node, values)),
+    ...(workflow.subAgentFlows && {
+      subAgentFlows: workflow.subAgentFlows.map((flow) => ({
+        ...flow,
+        nodes: flow.nodes.map((node) => substituteInNode(node, values)),
+      })),
+    }),
+  };
+}
+
+export interface InstantiateTemplateOptions {
+  /** Name of the new workflow. Defaults to the template's name. */
+  name?: string;
+  /** ID of the new workflow. Defaults to `workflow-<timestamp>`. */
+  id?: string;
+  /** Creation time. Defaults to now. */
+  now?: Date;
+}
+
+/**
+ * Create a standalone workflow from a template: resolve and substitute the
+ * values, then drop `parameters` and the template's conversation history.
+ *
+ * @throws WorkflowTemplateError when `values` do not satisfy the declarations
+ */
+export function instantiateWorkflowTemplate(
+  template: Workflow,
+  values: Record<string, WorkflowParameterValue | undefined>,
+  options: InstantiateTemplateOptions = {}
+): Workflow {
+  const resolved = resolveParameterValues(template.parameters, values);
+  const {
+    parameters: _parameters,
+    conversationHistory: _history,
+    ...rest
+  } = applyWorkflowParameters(structuredClone(template), resolved);
+  const now = options.now ?? new Date();
+  return {
+    ...rest,
+    id: options.id ?? `workflow-${now.getTime()}`,
+    name: options.name ?? template.name,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -152,6 +152,21 @@ export interface PreservedManualParameterConfig {
   timestamp: string;
 }
 
+/**
+ * Sample output of an MCP tool
+ *
+ * Result of a "Try it" call from the MCP node edit dialog, saved on the node
+ * as an example of what the tool returns.
+ */
+export interface McpToolSampleOutput {
+  /** The tool's result: its structured content as JSON, or its text content */
+  output: string;
+  /** Parameter values the tool was called with */
+  parameterValues: Record<string, unknown>;
+  /** Timestamp when the tool was called (ISO 8601 format) */
+  capturedAt: string;
+}
+
 /**
  * MCP node data
  *
@@ -186,6 +201,8 @@ export interface McpNodeData {
   aiToolSelectionConfig?: AiToolSelectionConfig;
   /** Preserved manual parameter configuration (stores data when switching away from manual parameter config mode) */
   preservedManualParameterConfig?: PreservedManualParameterConfig;
+  /** Sample output saved from a "Try it" call (manual parameter config mode) */
+  sampleOutput?: McpToolSampleOutput;
 }
 
 /**
@@ -16,6 +16,9 @@ export enum NodeType {
   Branch = 'branch', // Legacy: 後方互換性のため維持
   IfElse = 'ifElse', // New: 2分岐専用
   Switch = 'switch', // New: 多分岐専用
+  Loop = 'loop', // New: repeat a body until an exit condition holds
+  Parallel = 'parallel', // New: run several branches concurrently
+  Join = 'join', // New: wait for every branch of a Parallel node
   Start = 'start',
   End = 'end',
   Prompt = 'prompt',
@@ -69,6 +72,30 @@ export interface SlashCommandOptions {
   argumentHint?: string;
 }
 
+// ============================================================================
+// Template Parameters
+// ============================================================================
+
+/** Value types a workflow template parameter can take */
+export type WorkflowParameterType = 'string' | 'number' | 'boolean';
+
+/**
+ * Workflow-level template parameter
+ *
+ * Referenced as `{{name}}` in node prompts, Skill execution prompts and MCP
+ * parameter values. A parameter without a `default` is required.
+ * @see ../services/workflow-template.ts
+ */
+export interface WorkflowParameter {
+  /** Placeholder name. Must match VALIDATION_RULES.PARAMETER.NAME_PATTERN */
+  name: string;
+  type: WorkflowParameterType;
+  /** Value used when none is supplied. Must match `type` */
+  default?: string | number | boolean;
+  /** Shown next to the input when the template is instantiated */
+  description?: string;
+}
+
 // ============================================================================
 // Hooks Configuration Types (Claude Code Docs compliant)
 // https://code.claude.com/docs/en/hooks
@@ -210,6 +237,55 @@ export interface SwitchNodeData {
   outputPorts: number; // Variable: 2-N output ports
 }
 
+/**
+ * Loop node: repeats the nodes reachable from its body port until the exit
+ * condition holds or `maxIterations` is reached, then continues from the exit
+ * port. The body is closed by a connection back into the Loop node's input.
+ *
+ * Ports: `branch-0` = body, `branch-1` = exit (see LOOP_BODY_PORT / LOOP_EXIT_PORT).
+ */
+export interface LoopNodeData {
+  label?: string;
+  /** Natural language condition that ends the loop (e.g. "All tests pass") */
+  exitCondition: string;
+  /** Upper bound on body runs; the loop exits when it is reached */
+  maxIterations: number;
+  outputPorts: 2; // Fixed: body + exit
+}
+
+/** Output port that starts the loop body */
+export const LOOP_BODY_PORT = 'branch-0';
+/** Output port followed once the loop ends */
+export const LOOP_EXIT_PORT = 'branch-1';
+
+/**
+ * One concurrent branch of a Parallel node
+ */
+export interface ParallelBranch {
+  id?: string;
+  /** Short name shown on the edge (e.g. "Lint", "Tests") */
+  label: string;
+}
+
+/**
+ * Parallel node: starts every branch at once (`branch-0` … `branch-N`). All
+ * branches must meet again at one Join node, which waits for all of them.
+ * Agents without concurrent execution run the branches one after another.
+ */
+export interface ParallelNodeData {
+  label?: string;
+  branches: ParallelBranch[];
+  outputPorts: number; // Variable: 2-N output ports
+}
+
+/**
+ * Join node: the point where the branches of a Parallel node meet. It
+ * continues only once every branch has finished.
+ */
+export interface JoinNodeData {
+  label?: string;
+}
+
 export interface SkillNodeData {
   /** Skill name (extracted from SKILL.md frontmatter) */
   name: string;
@@ -364,6 +440,12 @@ export interface McpNodeData {
   preservedManualParameterConfig?: {
     parameterValues: Record<string, unknown>;
   };
+  /** Sample output saved from a "Try it" call (manual parameter config mode) */
+  sampleOutput?: {
+    output: string;
+    parameterValues: Record<string, unknown>;
+    capturedAt: string;
+  };
 }
 
 /**
@@ -468,6 +550,21 @@ export interface SwitchNode extends BaseNode {
   data: SwitchNodeData;
 }
 
+export interface LoopNode extends BaseNode {
+  type: NodeType.Loop;
+  data: LoopNodeData;
+}
+
+export interface ParallelNode extends BaseNode {
+  type: NodeType.Parallel;
+  data: ParallelNodeData;
+}
+
+export interface JoinNode extends BaseNode {
+  type: NodeType.Join;
+  data: JoinNodeData;
+}
+
 export interface SkillNode extends BaseNode {
   type: NodeType.Skill;
   data: SkillNodeData;
@@ -508,6 +605,9 @@ export type WorkflowNode =
   | BranchNode // Legacy: kept for backward compatibility
   | IfElseNode
   | SwitchNode
+  | LoopNode
+  | ParallelNode
+  | JoinNode
   | StartNode
   | EndNode
   | PromptNode
@@ -568,6 +668,16 @@ export interface ConversationMessage {
     | 'UNKNOWN_ERROR';
   /** Tool execution information (e.g., "Bash: npm run build") */
   toolInfo?: string | null;
+  /** Automatic repair rounds run before the AI's workflow passed validation */
+  repairs?: RefinementRepair[];
+}
+
+/**
+ * One automatic repair round: the validation errors sent back to the AI.
+ * Repair rounds do not count against ConversationHistory.maxIterations.
+ */
+export interface RefinementRepair {
+  errors: { code: string; message: string; field?: string }[];
 }
 
 /**
@@ -624,12 +734,19 @@ export interface Workflow {
   description?: string;
   version: string;
   /**
-   * スキーマバージョン (省略可能)
+   * Schema version of the workflow file format (optional).
+   *
+   * - omitted: treated as "1.0.0" (original format, no newer node types)
+   * - "1.1.0": adds Start / End / Prompt nodes
+   * - "1.2.0": adds Sub-Agent Flow nodes
+   * - "1.3.0": adds workflow template `parameters`
+   * - "1.4.0": adds Loop nodes
+   * - "1.5.0": adds Parallel and Join nodes
+   * - "1.6.0": adds `sampleOutput` on MCP nodes (current, see `CURRENT_SCHEMA_VERSION`)
    *
-   * ワークフローファイル形式のバージョンを示します。
-   * - 省略時: "1.0.0" (既存形式、新規ノードタイプ非対応)
-   * - "1.1.0": Start/End/Promptノードをサポート
-   * - "1.2.0": SubWorkflowノードをサポート
+   * Loaders run `migrateWorkflow`, which upgrades older files step by step via
+   * the `WORKFLOW_MIGRATIONS` registry. Any change to the persisted data shape
+   * must bump `CURRENT_SCHEMA_VERSION` and register a migration step.
    *
    * @default "1.0.0"
    */
@@ -645,6 +762,8 @@ export interface Workflow {
   subAgentFlows?: SubAgentFlow[];
   /** Optional Slash Command export options (includes hooks) */
   slashCommandOptions?: SlashCommandOptions;
+  /** Optional template parameters, referenced as `{{name}}` in prompts */
+  parameters?: WorkflowParameter[];
   /** Optional guided tour walking a reader through this workflow */
   tour?: TourStep[];
 }
@@ -661,6 +780,13 @@ export const VALIDATION_RULES = {
     NAME_PATTERN: /^[a-z0-9_-]+$/, // Lowercase only (for cross-platform file system compatibility)
     VERSION_PATTERN: /^\d+\.\d+\.\d+$/,
   },
+  PARAMETER: {
+    NAME_MIN_LENGTH: 1,
+    NAME_MAX_LENGTH: 50,
+    NAME_PATTERN: /^[A-Za-z_][A-Za-z0-9_]*$/, // Usable inside a {{placeholder}}
+    DESCRIPTION_MAX_LENGTH: 200,
+    MAX_COUNT: 20,
+  },
   NODE: {
     NAME_MIN_LENGTH: 1,
     NAME_MAX_LENGTH: 50,
@@ -709,6 +835,24 @@ export const VALIDATION_RULES = {
     MIN_BRANCHES: 2,
     MAX_BRANCHES: 10,
   },
+  LOOP: {
+    LABEL_MAX_LENGTH: 50,
+    EXIT_CONDITION_MIN_LENGTH: 1,
+    EXIT_CONDITION_MAX_LENGTH: 500,
+    MIN_ITERATIONS: 1,
+    MAX_ITERATIONS: 100,
+    DEFAULT_MAX_ITERATIONS: 3,
+    OUTPUT_PORTS: 2, // Fixed: body + exit
+  },
+  PARALLEL: {
+    LABEL_MAX_LENGTH: 50,
+    BRANCH_LABEL_MAX_LENGTH: 50,
+    MIN_BRANCHES: 2,
+    MAX_BRANCHES: 10,
+  },
+  JOIN: {
+    LABEL_MAX_LENGTH: 50,
+  },
   SKILL: {
     NAME_MIN_LENGTH: 1,
     NAME_MAX_LENGTH: 64,
@@ -0,0 +1,258 @@
+/**
+ * YAML frontmatter of Markdown files (`.claude/commands/*.md`, `SKILL.md`,
+ * `.claude/agents/*.md`).
+ *
+ * Core has no YAML dependency, so this reads the subset those files use:
+ * nested block mappings and sequences, `key: value` scalars (plain, single-
+ * or double-quoted, `true` / `false`), flow sequences (`[Read, Write]`) and
+ * `|` / `>` block scalars. Anchors, tags and multi-document streams are not
+ * supported. Other scalars stay strings.
+ */
+
+export type FrontmatterValue =
+  | string
+  | boolean
+  | FrontmatterValue[]
+  | { [key: string]: FrontmatterValue };
+
+export interface MarkdownFrontmatter {
+  /** Top-level keys in file order; empty when the file has no frontmatter. */
+  fields: Record<string, FrontmatterValue>;
+  /** Everything after the closing `---` (the whole file without frontmatter). */
+  body: string;
+}
+
+/** Thrown when a frontmatter block is not closed or is not valid for the supported subset. */
+export class FrontmatterParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrontmatterParseError';
+  }
+}
+
+interface YamlLine {
+  /** 1-based line number inside the frontmatter block. */
+  lineNumber: number;
+  indent: number;
+  text: string;
+}
+
+/**
+ * Split a Markdown file into its frontmatter fields and body.
+ *
+ * @throws FrontmatterParseError when the opening `---` has no closing line or
+ *   the YAML is outside the supported subset
+ */
+export function parseMarkdownFrontmatter(content: string): MarkdownFrontmatter {
+  const text = content.replace(/^\uFEFF/, '');
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== '---') {
+    return { fields: {}, body: text };
+  }
+  const close = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  if (close === -1) {
+    throw new FrontmatterParseError('Frontmatter is not closed (missing the second "---" line)');
+  }
+
+  const rawLines = lines.slice(1, close);
+  const parsed = rawLines.length > 0 ? parseYamlBlock(rawLines) : {};
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new FrontmatterParseError('Frontmatter must be a mapping of keys to values');
+  }
+  return { fields: parsed, body: lines.slice(close + 1).join('\n') };
+}
+
+function parseYamlBlock(rawLines: string[]): FrontmatterValue {
+  const parser = new YamlBlockParser(rawLines);
+  const first = parser.peek();
+  if (!first) return {};
+  const value = parser.parseNode(first.indent);
+  const rest = parser.peek();
+  if (rest) {
+    throw new FrontmatterParseError(
+      `Unexpected indentation at frontmatter line ${rest.lineNumber}`
+    );
+  }
+  return value;
+}
+
+class YamlBlockParser {
+  private index = 0;
+
+  constructor(private readonly rawLines: string[]) {}
+
+  /** Next line that carries content (blank and comment lines are skipped). */
+  peek(): YamlLine | undefined {
+    while (this.index < this.rawLines.length) {
+      const raw = this.rawLines[this.index];
+      const trimmed = raw.trim();
+      if (trimmed !== '' && !trimmed.startsWith('#')) {
+        if (/^\s*\t/.test(raw)) {
+          throw new FrontmatterParseError(
+            `Tabs are not allowed for indentation (frontmatter line ${this.index + 1})`
+          );
+        }
+        return {
+          lineNumber: this.index + 1,
+          indent: raw.length - raw.trimStart().length,
+          text: trimmed,
+        };
+      }
+      this.index++;
+    }
+    return undefined;
+  }
+
+  parseNode(indent: number): FrontmatterValue {
+    const line = this.peek();
+    if (!line) return '';
+    return isSequenceItem(line.text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): FrontmatterValue[] {
+    const items: FrontmatterValue[] = [];
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (!isSequenceItem(line.text)) break;
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        this.index++;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseNode(next.indent) : '');
+      } else if (splitKeyValue(rest)) {
+        // `- key: value` opens a mapping whose keys line up with `key`
+        const itemIndent = indent + (line.text.length - rest.length);
+        this.rawLines[this.index] = `${' '.repeat(itemIndent)}${rest}`;
+        items.push(this.parseMapping(itemIndent));
+      } else {
+        this.index++;
+        items.push(parseScalar(rest, line.lineNumber));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: FrontmatterValue } {
+    const mapping: { [key: string]: FrontmatterValue } = {};
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (isSequenceItem(line.text)) break;
+      const entry = splitKeyValue(line.text);
+      if (!entry) {
+        throw new FrontmatterParseError(
+          `Expected "key: value" at frontmatter line ${line.lineNumber}`
+        );
+      }
+      this.index++;
+      const [key, rest] = entry;
+
+      if (rest === '') {
+        const next = this.peek();
+        if (next && next.indent > indent) {
+          mapping[key] = this.parseNode(next.indent);
+        } else if (next && next.indent === indent && isSequenceItem(next.text)) {
+          // A sequence may sit at its key's indentation
+          mapping[key] = this.parseSequence(indent);
+        } else {
+          mapping[key] = '';
+        }
+      } else if (/^[|>][+-]?$/.test(rest)) {
+        mapping[key] = this.parseBlockScalar(indent, rest);
+      } else {
+        let value = parseScalar(rest, line.lineNumber);
+        // A plain scalar may continue on more-indented lines, folded with spaces
+        for (let next = this.peek(); next && next.indent > indent; next = this.peek()) {
+          if (typeof value !== 'string' || /^["'[]/.test(rest)) break;
+          value = `${value} ${next.text}`;
+          this.index++;
+        }
+        mapping[key] = value;
+      }
+    }
+    return mapping;
+  }
+
+  /** `|` keeps line breaks, `>` folds them into spaces; `-` strips the final newline. */
+  private parseBlockScalar(parentIndent: number, indicator: string): string {
+    const collected: string[] = [];
+    let blockIndent: number | undefined;
+    while (this.index < this.rawLines.length) {
+      const raw = this.rawLines[this.index];
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.trim() !== '' && indent <= parentIndent) break;
+      if (raw.trim() !== '' && blockIndent === undefined) blockIndent = indent;
+      collected.push(raw.trim() === '' ? '' : raw.slice(blockIndent ?? indent));
+      this.index++;
+    }
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+    }
+    const text = indicator.startsWith('>')
+      ? collected.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ')
+      : collected.join('\n');
+    return indicator.endsWith('-') ? text : `${text}\n`;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/** `key: value` → [key, value]; undefined for anything that is not a mapping entry. */
+function splitKeyValue(text: string): [string, string] | undefined {
+  const quoted = /^(["'])(.*?)\1\s*:(?:\s+(.*))?$/.exec(text);
+  if (quoted) return [quoted[2], (quoted[3] ?? '').trim()];
+  const plain = /^([^\s"'#[\]{},][^:#]*?)\s*:(?:\s+(.*))?$/.exec(text);
+  if (plain) return [plain[1], (plain[2] ?? '').trim()];
+  return undefined;
+}
+
+function parseScalar(text: string, lineNumber: number): FrontmatterValue {
+  if (text.startsWith('"')) {
+    const match = /^"((?:[^"\\]|\\.)*)"\s*(?:#.*)?$/.exec(text);
+    if (!match) {
+      throw new FrontmatterParseError(`Unterminated string at frontmatter line ${lineNumber}`);
+    }
+    return match[1].replace(/\\(.)/g, (_match: string, char: string) => {
+      if (char === 'n') return '\n';
+      if (char === 't') return '\t';
+      return char;
+    });
+  }
+  if (text.startsWith("'")) {
+    const match = /^'((?:[^']|'')*)'\s*(?:#.*)?$/.exec(text);
+    if (!match) {
+      throw new FrontmatterParseError(`Unterminated string at frontmatter line ${lineNumber}`);
+    }
+    return match[1].replace(/''/g, "'");
+  }
+  // `[a, b]` is a flow list; `[pr] [priority]` (an argument hint) stays a string
+  const flow = /^\[([^[\]]*)\]\s*(?:#.*)?$/.exec(text);
+  if (flow) {
+    return splitFlowItems(flow[1]).map((item) => parseScalar(item, lineNumber));
+  }
+
+  const plain = text.replace(/\s+#.*$/, '');
+  if (plain === 'true') return true;
+  if (plain === 'false') return false;
+  return plain;
+}
+
+/** Split the inside of `[a, "b, c"]` on top-level commas. */
+function splitFlowItems(inner: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim() !== '') items.push(current.trim());
+  return items;
+}
@@ -0,0 +1,309 @@
+/**
+ * MCP server catalog snapshot: `ccwf.mcp-lock.json` at the project root.
+ *
+ * Records, per MCP server, the tools it offered and their input JSON
+ * schemas, so MCP nodes can be checked without the servers running (CI,
+ * offline). `ccwf mcp-snapshot` writes it from the live servers; `ccwf
+ * validate` checks every MCP node against it. This module only parses,
+ * serializes and checks; the hosts read and write the file.
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "servers": {
+ *     "github": {
+ *       "tools": {
+ *         "create_issue": {
+ *           "description": "Create an issue",
+ *           "inputSchema": { "type": "object", "properties": { "title": { "type": "string" } } }
+ *         }
+ *       }
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * There is no timestamp, so re-running the snapshot only changes the file
+ * when a server's tools did.
+ */
+
+import { z } from 'zod';
+import {
+  type McpNodeData,
+  NodeType,
+  type ToolParameter,
+  type Workflow,
+  type WorkflowNode,
+} from '../types/workflow-definition.js';
+import { type JsonSchema, parseJsonSchema, validateParameterValue } from './schema-parser.js';
+import type { ValidationError } from './validate-workflow.js';
+
+export const MCP_SNAPSHOT_FILE = 'ccwf.mcp-lock.json';
+
+const MCP_SNAPSHOT_VERSION = 1;
+
+const snapshotToolSchema = z.object({
+  description: z.string().optional(),
+  /** The tool's `inputSchema` as listed by the server. */
+  inputSchema: z.record(z.string(), z.unknown()),
+});
+
+export const mcpSnapshotSchema = z.object({
+  version: z.literal(MCP_SNAPSHOT_VERSION),
+  servers: z.record(
+    z.string(),
+    z.object({
+      tools: z.record(z.string(), snapshotToolSchema),
+    })
+  ),
+});
+
+export type McpSnapshot = z.infer<typeof mcpSnapshotSchema>;
+export type McpSnapshotServer = McpSnapshot['servers'][string];
+export type McpSnapshotTool = z.infer<typeof snapshotToolSchema>;
+
+/** Thrown when `ccwf.mcp-lock.json` is not valid JSON or does not match the schema. */
+export class McpSnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'McpSnapshotError';
+  }
+}
+
+export function createMcpSnapshot(servers: McpSnapshot['servers'] = {}): McpSnapshot {
+  return { version: MCP_SNAPSHOT_VERSION, servers };
+}
+
+/** Parse the text of a `ccwf.mcp-lock.json`. */
+export function parseMcpSnapshot(text: string): McpSnapshot {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new McpSnapshotError(
+      `${MCP_SNAPSHOT_FILE} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = mcpSnapshotSchema.safeParse(raw);
+  if (!result.success) {
+    const detail = result.error.issues
+      .map((issue) =>
+        issue.path.length > 0 ? `${issue.message} (at ${issue.path.join('.')})` : issue.message
+      )
+      .join('; ');
+    throw new McpSnapshotError(`${MCP_SNAPSHOT_FILE} is invalid: ${detail}`);
+  }
+  return result.data;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+  );
+}
+
+/**
+ * Text of a `ccwf.mcp-lock.json`. Keys below `servers` are sorted at every
+ * level so the file diffs cleanly whatever order a server lists its tools in.
+ */
+export function serializeMcpSnapshot(snapshot: McpSnapshot): string {
+  const ordered = { version: snapshot.version, servers: sortKeys(snapshot.servers) };
+  return `${JSON.stringify(ordered, null, 2)}\n`;
+}
+
+/**
+ * What changed between two snapshots, one line per server or tool, e.g.
+ * `github: create_issue schema changed`. Empty when they match.
+ */
+export function diffMcpSnapshots(before: McpSnapshot, after: McpSnapshot): string[] {
+  const changes: string[] = [];
+  const serverIds = [...new Set([...Object.keys(before.servers), ...Object.keys(after.servers)])];
+  for (const serverId of serverIds.sort()) {
+    const old = before.servers[serverId];
+    const current = after.servers[serverId];
+    if (!old || !current) {
+      changes.push(`${serverId}: server ${old ? 'removed' : 'added'}`);
+      continue;
+    }
+    const toolNames = [...new Set([...Object.keys(old.tools), ...Object.keys(current.tools)])];
+    for (const toolName of toolNames.sort()) {
+      const oldTool = old.tools[toolName];
+      const tool = current.tools[toolName];
+      if (!oldTool || !tool) {
+        changes.push(`${serverId}: ${toolName} ${oldTool ? 'removed' : 'added'}`);
+      } else if (
+        JSON.stringify(sortKeys(oldTool.inputSchema)) !== JSON.stringify(sortKeys(tool.inputSchema))
+      ) {
+        changes.push(`${serverId}: ${toolName} schema changed`);
+      } else if (oldTool.description !== tool.description) {
+        changes.push(`${serverId}: ${toolName} description changed`);
+      }
+    }
+  }
+  return changes;
+}
+
+/** Server ids used by the workflow's MCP nodes (Sub-Agent Flows included), sorted. */
+export function collectMcpServerIds(workflow: Workflow): string[] {
+  const ids = new Set<string>();
+  for (const { node } of mcpNodesOf(workflow)) {
+    const { serverId } = node.data as Partial<McpNodeData>;
+    if (serverId) ids.add(serverId);
+  }
+  return [...ids].sort();
+}
+
+export interface McpSnapshotCheckResult {
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+/**
+ * Check the workflow's MCP nodes against a snapshot:
+ *
+ * - the server and the tool must be in it (`MCP_SERVER_NOT_IN_SNAPSHOT`,
+ *   `MCP_TOOL_NOT_IN_SNAPSHOT`; AI Tool Selection nodes pick their tool at
+ *   run time, so only the server is checked);
+ * - in manual parameter mode every parameter value must satisfy the
+ *   snapshot schema, and no value may be set for a parameter the tool no
+ *   longer has (`MCP_PARAMETER_INVALID`, `MCP_PARAMETER_UNKNOWN`);
+ * - parameters stored on the node that differ from the snapshot are a
+ *   warning (`MCP_PARAMETERS_OUTDATED`): the node was configured against an
+ *   older version of the tool.
+ */
+export function checkMcpNodesAgainstSnapshot(
+  workflow: Workflow,
+  snapshot: McpSnapshot
+): McpSnapshotCheckResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+
+  for (const { node, nodeId, fieldPrefix } of mcpNodesOf(workflow)) {
+    const data = node.data as Partial<McpNodeData>;
+    if (!data.serverId) continue;
+    const at = (field: string) => ({ nodeId, field: `${fieldPrefix}.data.${field}` });
+
+    const server = snapshot.servers[data.serverId];
+    if (!server) {
+      errors.push({
+        code: 'MCP_SERVER_NOT_IN_SNAPSHOT',
+        message: `MCP server "${data.serverId}" is not in ${MCP_SNAPSHOT_FILE}`,
+        severity: 'error',
+        ...at('serverId'),
+      });
+      continue;
+    }
+
+    const mode = data.mode ?? 'manualParameterConfig';
+    if (mode === 'aiToolSelection' || !data.toolName) continue;
+
+    const tool = server.tools[data.toolName];
+    if (!tool) {
+      errors.push({
+        code: 'MCP_TOOL_NOT_IN_SNAPSHOT',
+        message: `MCP server "${data.serverId}" has no tool "${data.toolName}" in ${MCP_SNAPSHOT_FILE}`,
+        severity: 'error',
+        ...at('toolName'),
+      });
+      continue;
+    }
+
+    const parameters = parseJsonSchema(tool.inputSchema as JsonSchema);
+    const outdated = describeParameterDrift(data.parameters ?? [], parameters);
+    if (outdated) {
+      warnings.push({
+        code: 'MCP_PARAMETERS_OUTDATED',
+        message: `Parameters of ${data.serverId}/${data.toolName} changed since the node was configured: ${outdated}`,
+        severity: 'warning',
+        ...at('parameters'),
+      });
+    }
+
+    // AI Parameter Config nodes have their values filled in at run time
+    if (mode !== 'manualParameterConfig') continue;
+
+    const values = data.parameterValues ?? {};
+    for (const param of parameters) {
+      const result = validateParameterValue(values[param.name], param);
+      if (!result.valid) {
+        errors.push({
+          code: 'MCP_PARAMETER_INVALID',
+          message: `${data.serverId}/${data.toolName} parameter "${param.name}": ${result.error}`,
+          severity: 'error',
+          ...at(`parameterValues.${param.name}`),
+        });
+      }
+    }
+    const known = new Set(parameters.map((param) => param.name));
+    for (const name of Object.keys(values)) {
+      if (!known.has(name)) {
+        errors.push({
+          code: 'MCP_PARAMETER_UNKNOWN',
+          message: `${data.serverId}/${data.toolName} has no parameter "${name}"`,
+          severity: 'error',
+          ...at(`parameterValues.${name}`),
+        });
+      }
+    }
+  }
+
+  return { errors, warnings };
+}
+
+interface FoundMcpNode {
+  node: WorkflowNode;
+  /** `<flowId>/<nodeId>` inside a Sub-Agent Flow, as in the graph analysis. */
+  nodeId: string;
+  fieldPrefix: string;
+}
+
+function mcpNodesOf(workflow: Workflow): FoundMcpNode[] {
+  const found: FoundMcpNode[] = [];
+  for (const node of workflow.nodes ?? []) {
+    if (node.type === NodeType.Mcp) {
+      found.push({ node, nodeId: node.id, fieldPrefix: `nodes[${node.id}]` });
+    }
+  }
+  for (const flow of workflow.subAgentFlows ?? []) {
+    for (const node of flow.nodes ?? []) {
+      if (node.type === NodeType.Mcp) {
+        found.push({
+          node,
+          nodeId: `${flow.id}/${node.id}`,
+          fieldPrefix: `subAgentFlows[${flow.id}].nodes[${node.id}]`,
+        });
+      }
+    }
+  }
+  return found;
+}
+
+/** Added, removed and changed parameters, or undefined when they match. */
+function describeParameterDrift(
+  stored: ToolParameter[],
+  current: Pick<ToolParameter, 'name' | 'type' | 'required'>[]
+): string | undefined {
+  const before = new Map(stored.map((param) => [param.name, param]));
+  const after = new Map(current.map((param) => [param.name, param]));
+  const changes: string[] = [];
+
+  for (const [name, param] of after) {
+    const old = before.get(name);
+    if (!old) {
+      changes.push(`added ${name}${param.required ? ' (required)' : ''}`);
+    } else if (old.type !== param.type) {
+      changes.push(`${name} is now ${param.type} (was ${old.type})`);
+    } else if (old.required !== param.required) {
+      changes.push(`${name} is now ${param.required ? 'required' : 'optional'}`);
+    }
+  }
+  for (const name of before.keys()) {
+    if (!after.has(name)) changes.push(`removed ${name}`);
+  }
+  return changes.length > 0 ? changes.join(', ') : undefined;
+}
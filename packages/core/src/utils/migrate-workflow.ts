@@ -1,24 +1,157 @@
 /**
  * Workflow Migration Utility
  *
- * Migrates older workflow formats to current version.
- * Handles backward compatibility for workflow structure changes.
+ * Migrates older workflow formats to the current schema version.
+ *
+ * Every change to the persisted workflow shape gets one registered step in
+ * {@link WORKFLOW_MIGRATIONS}, keyed by the `schemaVersion` it upgrades
+ * from. Loading a file runs the chain from the file's version up to
+ * {@link CURRENT_SCHEMA_VERSION}; each step reports the concrete edits it
+ * made so callers (`ccwf migrate`, the MCP server) can tell the user.
  */
 
 import type { Workflow } from '../types/workflow-definition.js';
 
+/** Schema version written by the current editor and exporters. */
+export const CURRENT_SCHEMA_VERSION = '1.6.0';
+
+/** Version assumed for files that predate the `schemaVersion` field. */
+export const LEGACY_SCHEMA_VERSION = '1.0.0';
+
+/**
+ * One registered upgrade step.
+ *
+ * `migrate` receives a private copy of the workflow and may mutate it in
+ * place; call `change` once per user-visible edit (e.g. "nodes[x]: renamed
+ * data.foo to data.bar"). It must not set `schemaVersion` — the runner does.
+ */
+export interface WorkflowMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate(workflow: Workflow, change: (description: string) => void): Workflow | undefined;
+}
+
+export interface AppliedMigrationStep {
+  from: string;
+  to: string;
+  description: string;
+  changes: string[];
+}
+
+export interface WorkflowMigrationReport {
+  /** Version found in the input (`LEGACY_SCHEMA_VERSION` when absent). */
+  fromVersion: string;
+  /** Version of the returned workflow. */
+  toVersion: string;
+  /** True when at least one step ran. */
+  migrated: boolean;
+  steps: AppliedMigrationStep[];
+  /**
+   * Set when the input declares a version this build has no path from —
+   * typically a file saved by a newer release. The workflow is returned as-is.
+   */
+  unsupportedVersion?: string;
+}
+
+/**
+ * Ordered migration registry. Each entry's `from` must equal the previous
+ * entry's `to`, and the last `to` must equal `CURRENT_SCHEMA_VERSION`.
+ *
+ * The steps so far only bump the version: each release added node types or
+ * optional fields (listed on `Workflow.schemaVersion`) without changing the
+ * shape of existing data, so older files are already valid at the newer
+ * version.
+ */
+export const WORKFLOW_MIGRATIONS: readonly WorkflowMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Start / End / Prompt node support (no data changes)',
+    migrate: () => undefined,
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Sub-Agent Flow support (no data changes)',
+    migrate: () => undefined,
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Workflow template parameters (no data changes)',
+    migrate: () => undefined,
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Loop node support (no data changes)',
+    migrate: () => undefined,
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Parallel / Join node support (no data changes)',
+    migrate: () => undefined,
+  },
+  {
+    from: '1.5.0',
+    to: '1.6.0',
+    description: 'MCP tool sample output (no data changes)',
+    migrate: () => undefined,
+  },
+];
+
+/**
+ * Run every migration step between the workflow's `schemaVersion` and
+ * {@link CURRENT_SCHEMA_VERSION}. The input is never mutated.
+ */
+export function migrateWorkflowWithReport(workflow: Workflow): {
+  workflow: Workflow;
+  report: WorkflowMigrationReport;
+} {
+  const fromVersion = workflow.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+  const report: WorkflowMigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    migrated: false,
+    steps: [],
+  };
+
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    return { workflow, report };
+  }
+  const startIndex = WORKFLOW_MIGRATIONS.findIndex((m) => m.from === fromVersion);
+  if (startIndex === -1) {
+    return { workflow, report: { ...report, unsupportedVersion: fromVersion } };
+  }
+
+  let current = structuredClone(workflow);
+  for (const migration of WORKFLOW_MIGRATIONS.slice(startIndex)) {
+    const changes: string[] = [];
+    current = migration.migrate(current, (change) => changes.push(change)) ?? current;
+    current.schemaVersion = migration.to;
+    report.steps.push({
+      from: migration.from,
+      to: migration.to,
+      description: migration.description,
+      changes,
+    });
+  }
+
+  report.toVersion = CURRENT_SCHEMA_VERSION;
+  report.migrated = true;
+  return { workflow: current, report };
+}
+
 /**
  * Apply all workflow migrations
  *
- * Runs all migration functions in sequence.
- * Add new migration functions here as the schema evolves.
+ * Convenience wrapper for loaders that don't surface the report.
  *
  * @param workflow - The workflow to migrate
- * @returns Fully migrated workflow
+ * @returns Fully migrated workflow (the input itself when already current)
  */
 export function migrateWorkflow(workflow: Workflow): Workflow {
-  // All legacy migrations have been removed after sufficient deprecation periods.
-  // Add future migrations here...
-
-  return workflow;
+  return migrateWorkflowWithReport(workflow).workflow;
 }
@@ -1,14 +1,19 @@
 /**
  * Load-time normalization of array-item IDs on node data.
  *
- * askUserQuestion options and branch/ifElse/switch branches carry optional
+ * askUserQuestion options and branch/ifElse/switch/parallel branches carry optional
  * `id` fields used as stable React keys. Older workflow files (and
  * AI-authored ones) may omit them. The webview backfills them ONCE when a
  * workflow is deserialized — replacing the legacy pattern of normalizing
  * during render, which mutated state in the render phase.
  */
 
-import type { BranchCondition, QuestionOption, SwitchCondition } from '../types/workflow-definition.js';
+import type {
+  BranchCondition,
+  ParallelBranch,
+  QuestionOption,
+  SwitchCondition,
+} from '../types/workflow-definition.js';
 
 export function generateOptionId(): string {
   return `opt-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
@@ -54,9 +59,12 @@ export function ensureNodeDataItemIds(
     return changed ? { ...data, options: items } : data;
   }
 
-  if ((nodeType === 'branch' || nodeType === 'switch') && Array.isArray(data.branches)) {
+  if (
+    (nodeType === 'branch' || nodeType === 'switch' || nodeType === 'parallel') &&
+    Array.isArray(data.branches)
+  ) {
     const { items, changed } = withItemIds(
-      data.branches as (BranchCondition | SwitchCondition)[],
+      data.branches as (BranchCondition | SwitchCondition | ParallelBranch)[],
       generateBranchId,
     );
     return changed ? { ...data, branches: items } : data;
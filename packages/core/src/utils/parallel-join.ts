@@ -0,0 +1,100 @@
+/**
+ * Parallel → Join matching.
+ *
+ * A Parallel node's branches must meet again at a single Join node. The match
+ * is derived from the graph rather than stored: each branch is walked until it
+ * reaches a Join at the same nesting depth (a nested Parallel/Join pair along
+ * the way is passed through). Validation, the prompt generator and the
+ * execution engine all use this one definition.
+ */
+
+import {
+  type Connection,
+  NodeType,
+  type WorkflowNode,
+} from '../types/workflow-definition.js';
+
+export interface ParallelJoinMatch {
+  /** Join node that every branch reaches, or undefined when there is none */
+  joinId?: string;
+  /**
+   * Joins reached by each branch, indexed by output port (`branch-<index>`).
+   * An empty list means the branch never reaches a Join (or is not connected).
+   */
+  branchJoins: string[][];
+}
+
+/**
+ * Find the Join node matching `parallel`. `branchCount` defaults to the
+ * node's declared branches.
+ */
+export function matchParallelJoin(
+  parallel: WorkflowNode,
+  nodes: readonly WorkflowNode[],
+  connections: readonly Connection[],
+  branchCount = parallelBranchCount(parallel)
+): ParallelJoinMatch {
+  const typeById = new Map(nodes.map((n) => [n.id, n.type]));
+  const branchJoins: string[][] = [];
+
+  for (let index = 0; index < branchCount; index++) {
+    const starts = connections
+      .filter((c) => c.from === parallel.id && c.fromPort === `branch-${index}`)
+      .map((c) => c.to);
+    branchJoins.push(findJoins(starts, typeById, connections, nodes.length));
+  }
+
+  const [first = [], ...rest] = branchJoins;
+  const joinId =
+    branchJoins.length > 0
+      ? first.find((id) => rest.every((joins) => joins.includes(id)))
+      : undefined;
+  return { joinId, branchJoins };
+}
+
+function parallelBranchCount(node: WorkflowNode): number {
+  const branches = (node.data as { branches?: unknown }).branches;
+  return Array.isArray(branches) ? branches.length : 0;
+}
+
+/**
+ * Joins reached at nesting depth 0 from `starts`, in discovery order. The
+ * depth cap stops runaway nesting on malformed graphs (cycles through a
+ * Parallel without a Join).
+ */
+function findJoins(
+  starts: string[],
+  typeById: Map<string, NodeType>,
+  connections: readonly Connection[],
+  maxDepth: number
+): string[] {
+  const found: string[] = [];
+  const visited = new Set<string>();
+  const queue = starts.map((id) => ({ id, depth: 0 }));
+
+  while (queue.length > 0) {
+    const { id, depth } = queue.shift() as { id: string; depth: number };
+    const key = `${id}@${depth}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    let nextDepth = depth;
+    const type = typeById.get(id);
+    if (type === NodeType.Join) {
+      if (depth === 0) {
+        if (!found.includes(id)) found.push(id);
+        continue;
+      }
+      nextDepth = depth - 1;
+    } else if (type === NodeType.Parallel) {
+      nextDepth = depth + 1;
+      if (nextDepth > maxDepth) continue;
+    }
+
+    for (const conn of connections) {
+      if (conn.from === id) queue.push({ id: conn.to, depth: nextDepth });
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,233 @@
+/**
+ * Project configuration: `ccwf.config.json` at the project root.
+ *
+ * Shared by the CLI, the MCP server and the VSCode extension. This module
+ * only parses and validates; each host reads the file from its own project
+ * root. A missing file means the defaults ({@link EMPTY_PROJECT_CONFIG}).
+ *
+ * ```json
+ * {
+ *   "sensitiveData": {
+ *     "patterns": [
+ *       { "name": "acme-api-key", "pattern": "acme_[a-z0-9]{32}", "envVar": "ACME_API_KEY" }
+ *     ]
+ *   },
+ *   "exportTargets": {
+ *     "acme": {
+ *       "displayName": "Acme Agent",
+ *       "skillPath": ".acme/skills/{name}/SKILL.md",
+ *       "tools": { "askUserQuestion": "ask_human", "shell": "run_shell" }
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * `exportTargets` declares agents that have no built-in exporter; see
+ * `planCustomTargetFiles` in `services/agent-skill-export`.
+ */
+
+import { z } from 'zod';
+import { NODE_PROPERTY_SCHEMAS } from '../schema/node-schema-registry.js';
+import { AGENT_SKILL_PROVIDERS } from '../services/agent-skill-export.js';
+import type { NodeType } from '../types/workflow-definition.js';
+import type { CustomSensitivePattern } from './sensitive-data-detector.js';
+
+export const PROJECT_CONFIG_FILE = 'ccwf.config.json';
+
+/** Supported regular expression flags, each at most once. */
+const PATTERN_FLAGS = /^(?:([gimsu])(?!.*\1))*$/;
+
+const customSensitivePatternSchema = z
+  .object({
+    name: z.string().min(1),
+    pattern: z.string().min(1),
+    flags: z
+      .string()
+      .regex(PATTERN_FLAGS, 'Only the g, i, m, s and u flags are supported, each at most once')
+      .optional(),
+    severity: z.enum(['low', 'medium', 'high']).optional(),
+    envVar: z
+      .string()
+      .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must be an environment variable name')
+      .optional(),
+  })
+  .superRefine(({ pattern, flags }, ctx) => {
+    // Bad flags are already reported on `flags`.
+    if (flags !== undefined && !PATTERN_FLAGS.test(flags)) return;
+    // Compiled together: `u` makes some escapes that are fine without it invalid.
+    try {
+      new RegExp(pattern, flags);
+    } catch (error) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+        path: ['pattern'],
+      });
+    }
+  });
+
+/** Agent ids the exporters already know; a custom target may not reuse one. */
+const BUILT_IN_AGENT_IDS: readonly string[] = ['claude-code', ...AGENT_SKILL_PROVIDERS];
+
+const projectPathSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (value) =>
+      !value.startsWith('/') &&
+      !/^[A-Za-z]:/.test(value) &&
+      !value.split(/[\\/]/).includes('..'),
+    { message: 'Must be a relative path inside the project' }
+  );
+
+const toolNameSchema = z.string().min(1);
+const instructionSchema = z.string().min(1);
+
+const customExportTargetSchema = z.object({
+  /** Name used in messages and in the generated instructions. Defaults to the id. */
+  displayName: z.string().min(1).optional(),
+  /** Built-in agent whose wording and field support fill every gap. */
+  extends: z.enum(AGENT_SKILL_PROVIDERS).optional(),
+  /** Where the SKILL.md goes; `{name}` is the workflow's file name. */
+  skillPath: projectPathSchema
+    .refine((value) => value.includes('{name}'), {
+      message: 'Must contain the {name} placeholder',
+    })
+    .optional(),
+  /** When set, Sub-Agent (and Sub-Agent Flow) files are also written here. */
+  agentsDir: projectPathSchema.optional(),
+  /** Frontmatter keys and value templates (`{name}`, `{description}`, `{workflowName}`). */
+  frontmatter: z
+    .record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_-]*$/, 'Must be a YAML key'), z.string())
+    .optional(),
+  /** The agent's names for the tools the instructions refer to. */
+  tools: z
+    .object({
+      subAgent: toolNameSchema.optional(),
+      askUserQuestion: toolNameSchema.optional(),
+      shell: toolNameSchema.optional(),
+    })
+    .optional(),
+  /** Full wording for the per-node-type execution methods; wins over `tools`. */
+  instructions: z
+    .object({
+      subAgent: instructionSchema.optional(),
+      askUserQuestion: instructionSchema.optional(),
+      parallel: instructionSchema.optional(),
+      shell: instructionSchema.optional(),
+    })
+    .optional(),
+  /** Whether the agent can run Parallel branches concurrently. */
+  parallelExecution: z.boolean().optional(),
+  /**
+   * Node fields the agent understands, per node type. Listed node types
+   * report every other set field as ignored on export; unlisted ones follow
+   * `extends`.
+   */
+  supportedFields: z
+    .record(z.string(), z.array(z.string()))
+    .superRefine((fields, ctx) => {
+      for (const [nodeType, names] of Object.entries(fields)) {
+        const schema = NODE_PROPERTY_SCHEMAS[nodeType as NodeType];
+        if (!schema) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Unknown node type or node type without fields: ${nodeType}`,
+            path: [nodeType],
+          });
+          continue;
+        }
+        names.forEach((name, index) => {
+          if (!(name in schema)) {
+            ctx.addIssue({
+              code: 'custom',
+              message: `Unknown ${nodeType} field: ${name}`,
+              path: [nodeType, index],
+            });
+          }
+        });
+      }
+    })
+    .optional(),
+});
+
+export const projectConfigSchema = z.object({
+  sensitiveData: z
+    .object({
+      /** Checked in addition to the built-in secret patterns. */
+      patterns: z.array(customSensitivePatternSchema).optional(),
+    })
+    .optional(),
+  /** Export targets for agents without a built-in exporter, keyed by agent id. */
+  exportTargets: z
+    .record(z.string(), customExportTargetSchema)
+    .superRefine((targets, ctx) => {
+      for (const id of Object.keys(targets)) {
+        if (!/^[a-z0-9][a-z0-9._-]*$/.test(id)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Invalid target id "${id}": use lowercase letters, digits, ".", "_" and "-"`,
+            path: [id],
+          });
+        } else if (BUILT_IN_AGENT_IDS.includes(id)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Target id "${id}" clashes with a built-in agent`,
+            path: [id],
+          });
+        }
+      }
+    })
+    .optional(),
+});
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+/** A config-defined export target together with its id (its `exportTargets` key). */
+export type CustomExportTarget = z.infer<typeof customExportTargetSchema> & { id: string };
+
+export const EMPTY_PROJECT_CONFIG: ProjectConfig = {};
+
+/** Thrown when `ccwf.config.json` is not valid JSON or does not match the schema. */
+export class ProjectConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectConfigError';
+  }
+}
+
+/**
+ * Parse the text of a `ccwf.config.json`. Unknown top-level keys are
+ * ignored so older tools keep reading newer configs.
+ */
+export function parseProjectConfig(text: string): ProjectConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectConfigError(
+      `${PROJECT_CONFIG_FILE} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = projectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const detail = result.error.issues
+      .map((issue) =>
+        issue.path.length > 0 ? `${issue.message} (at ${issue.path.join('.')})` : issue.message
+      )
+      .join('; ');
+    throw new ProjectConfigError(`${PROJECT_CONFIG_FILE} is invalid: ${detail}`);
+  }
+  return result.data;
+}
+
+/** Custom secret patterns declared in the config. */
+export function getCustomSensitivePatterns(config: ProjectConfig): CustomSensitivePattern[] {
+  return config.sensitiveData?.patterns ?? [];
+}
+
+/** Custom export targets declared in the config, in declaration order. */
+export function getCustomExportTargets(config: ProjectConfig): CustomExportTarget[] {
+  return Object.entries(config.exportTargets ?? {}).map(([id, target]) => ({ ...target, id }));
+}
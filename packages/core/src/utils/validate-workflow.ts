@@ -9,8 +9,12 @@ import { NODE_PROPERTY_SCHEMAS } from '../schema/node-schema-registry.js';
 import {
   type Connection,
   type HookType,
+  LOOP_BODY_PORT,
+  LOOP_EXIT_PORT,
+  type LoopNodeData,
   type McpNodeData,
   NodeType,
+  type ParallelNodeData,
   type SkillNodeData,
   type SubAgentFlow,
   type SubAgentFlowNodeData,
@@ -19,17 +23,28 @@ import {
   type Workflow,
   type WorkflowHooks,
   type WorkflowNode,
+  type WorkflowParameter,
 } from '../types/workflow-definition.js';
+import { matchParallelJoin } from './parallel-join.js';
+import { analyzeWorkflowGraph } from './workflow-graph-analysis.js';
+
+export type ValidationSeverity = 'error' | 'warning';
 
 export interface ValidationError {
   code: string;
   message: string;
   field?: string;
+  /** Omitted on structural checks, which are always errors */
+  severity?: ValidationSeverity;
+  /** Node the finding points at (set by the graph analysis pass) */
+  nodeId?: string;
 }
 
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
+  /** Advisory findings; they do not affect `valid` */
+  warnings: ValidationError[];
 }
 
 /**
@@ -55,12 +70,14 @@ export function validateAIGeneratedWorkflow(
   options: ValidateOptions = {}
 ): ValidationResult {
   const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
 
   // Type check: Is it an object?
   if (typeof workflow !== 'object' || workflow === null) {
     return {
       valid: false,
       errors: [{ code: 'INVALID_TYPE', message: 'Workflow must be an object' }],
+      warnings,
     };
   }
 
@@ -103,7 +120,7 @@ export function validateAIGeneratedWorkflow(
       field: 'nodes',
     });
     // Cannot continue validation without nodes
-    return { valid: false, errors };
+    return { valid: false, errors, warnings };
   }
 
   if (!Array.isArray(wf.connections)) {
@@ -159,7 +176,15 @@ export function validateAIGeneratedWorkflow(
     });
   }
 
-  // SubAgentFlow reference validation
+  // Graph analysis: reachability, dead ends, open branch ports, closed cycles
+  // and SubAgentFlow references (only if connections array exists)
+  if (Array.isArray(wf.connections)) {
+    for (const finding of analyzeWorkflowGraph(wf as Workflow)) {
+      (finding.severity === 'warning' ? warnings : errors).push(finding);
+    }
+  }
+
+  // SubAgentFlow definition validation
   const subAgentFlowErrors = validateSubAgentFlowReferences(wf as Workflow);
   errors.push(...subAgentFlowErrors);
 
@@ -173,17 +198,23 @@ export function validateAIGeneratedWorkflow(
     errors.push(...hooksErrors);
   }
 
+  // Template parameters validation
+  if (wf.parameters !== undefined) {
+    errors.push(...validateWorkflowParameters(wf.parameters));
+  }
+
   return {
     valid: errors.length === 0,
     errors,
+    warnings,
   };
 }
 
 /**
- * Validate SubAgentFlow references in workflow
+ * Validate SubAgentFlow definitions in workflow
  *
- * Ensures all subAgentFlow nodes have corresponding SubAgentFlow definitions
- * and all SubAgentFlow definitions are valid.
+ * Ensures all SubAgentFlow definitions are valid. Missing definitions for
+ * subAgentFlow nodes are reported by the graph analysis pass.
  *
  * @param workflow - Workflow to validate
  * @returns Array of validation errors
@@ -197,21 +228,6 @@ function validateSubAgentFlowReferences(workflow: Workflow): ValidationError[] {
     return errors; // No SubAgentFlow nodes, nothing to validate
   }
 
-  const subAgentFlowIds = new Set((workflow.subAgentFlows || []).map((sf) => sf.id));
-
-  // Check each subAgentFlow node has a corresponding definition
-  for (const node of subAgentFlowNodes) {
-    const refData = node.data as SubAgentFlowNodeData;
-
-    if (!subAgentFlowIds.has(refData.subAgentFlowId)) {
-      errors.push({
-        code: 'SUBAGENTFLOW_MISSING_DEFINITION',
-        message: `SubAgentFlow node "${node.id}" references non-existent SubAgentFlow "${refData.subAgentFlowId}"`,
-        field: `nodes[${node.id}].data.subAgentFlowId`,
-      });
-    }
-  }
-
   // Validate each SubAgentFlow definition
   for (const subAgentFlow of workflow.subAgentFlows || []) {
     const subAgentFlowErrors = validateSubAgentFlow(subAgentFlow);
@@ -358,6 +374,16 @@ function validateNodes(nodes: WorkflowNode[]): ValidationError[] {
       errors.push(...switchErrors);
     }
 
+    // Validate Loop nodes
+    if (node.type === NodeType.Loop) {
+      errors.push(...validateLoopNode(node));
+    }
+
+    // Validate Parallel nodes
+    if (node.type === NodeType.Parallel) {
+      errors.push(...validateParallelNode(node));
+    }
+
     // Validate SubAgentFlow nodes (Feature: 089-subworkflow)
     if (node.type === NodeType.SubAgentFlow) {
       const subAgentFlowErrors = validateSubAgentFlowNode(node);
@@ -481,6 +507,194 @@ function validateSwitchNode(node: WorkflowNode): ValidationError[] {
   return errors;
 }
 
+/**
+ * Validate Loop node required fields
+ *
+ * Value bounds are covered by the schema pass (validateNodeSchemaFields),
+ * which skips absent fields; this enforces presence.
+ *
+ * @param node - Loop node to validate
+ * @returns Array of validation errors
+ */
+function validateLoopNode(node: WorkflowNode): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const loopData = node.data as Partial<LoopNodeData>;
+
+  if (typeof loopData.exitCondition !== 'string' || !loopData.exitCondition.trim()) {
+    errors.push({
+      code: 'LOOP_MISSING_EXIT_CONDITION',
+      message: 'Loop node must have an exit condition',
+      field: `nodes[${node.id}].data.exitCondition`,
+    });
+  }
+
+  if (loopData.maxIterations === undefined) {
+    errors.push({
+      code: 'LOOP_MISSING_MAX_ITERATIONS',
+      message: `Loop node must set maxIterations (${VALIDATION_RULES.LOOP.MIN_ITERATIONS}-${VALIDATION_RULES.LOOP.MAX_ITERATIONS})`,
+      field: `nodes[${node.id}].data.maxIterations`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate how Loop nodes are wired: both ports connected, and the body
+ * leads back into the Loop node so there is something to repeat.
+ *
+ * @param connections - All connections in the workflow
+ * @param nodes - All nodes in the workflow
+ * @returns Array of validation errors
+ */
+function validateLoopConnections(
+  connections: Connection[],
+  nodes: WorkflowNode[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const node of nodes) {
+    if (node.type !== NodeType.Loop) continue;
+
+    const outgoing = connections.filter((c) => c.from === node.id);
+    const bodyTargets = outgoing.filter((c) => c.fromPort === LOOP_BODY_PORT).map((c) => c.to);
+    if (bodyTargets.length === 0) {
+      errors.push({
+        code: 'LOOP_BODY_NOT_CONNECTED',
+        message: `Loop node "${node.id}" body port (${LOOP_BODY_PORT}) must be connected`,
+        field: `nodes[${node.id}]`,
+      });
+    }
+    if (!outgoing.some((c) => c.fromPort === LOOP_EXIT_PORT)) {
+      errors.push({
+        code: 'LOOP_EXIT_NOT_CONNECTED',
+        message: `Loop node "${node.id}" exit port (${LOOP_EXIT_PORT}) must be connected`,
+        field: `nodes[${node.id}]`,
+      });
+    }
+
+    if (bodyTargets.length > 0 && !reachesNode(bodyTargets, node.id, connections)) {
+      errors.push({
+        code: 'LOOP_BODY_NOT_CLOSED',
+        message: `Loop node "${node.id}" body never connects back to the loop node`,
+        field: `nodes[${node.id}]`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate Parallel node branches
+ *
+ * @param node - Parallel node to validate
+ * @returns Array of validation errors
+ */
+function validateParallelNode(node: WorkflowNode): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const parallelData = node.data as Partial<ParallelNodeData>;
+  const { MIN_BRANCHES, MAX_BRANCHES } = VALIDATION_RULES.PARALLEL;
+
+  if (!Array.isArray(parallelData.branches)) {
+    errors.push({
+      code: 'PARALLEL_MISSING_BRANCHES',
+      message: 'Parallel node must have branches array',
+      field: `nodes[${node.id}].data.branches`,
+    });
+    return errors;
+  }
+
+  if (
+    parallelData.branches.length < MIN_BRANCHES ||
+    parallelData.branches.length > MAX_BRANCHES
+  ) {
+    errors.push({
+      code: 'PARALLEL_INVALID_BRANCH_COUNT',
+      message: `Parallel node must have ${MIN_BRANCHES}-${MAX_BRANCHES} branches`,
+      field: `nodes[${node.id}].data.branches`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate how Parallel and Join nodes are wired: every branch is connected
+ * and reaches the same Join node, and every Join closes some Parallel node.
+ *
+ * @param connections - All connections in the workflow
+ * @param nodes - All nodes in the workflow
+ * @returns Array of validation errors
+ */
+function validateParallelConnections(
+  connections: Connection[],
+  nodes: WorkflowNode[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const matchedJoins = new Set<string>();
+
+  for (const node of nodes) {
+    if (node.type !== NodeType.Parallel) continue;
+
+    const { joinId, branchJoins } = matchParallelJoin(node, nodes, connections);
+    branchJoins.forEach((joins, index) => {
+      const port = `branch-${index}`;
+      if (!connections.some((c) => c.from === node.id && c.fromPort === port)) {
+        errors.push({
+          code: 'PARALLEL_BRANCH_NOT_CONNECTED',
+          message: `Parallel node "${node.id}" branch port (${port}) must be connected`,
+          field: `nodes[${node.id}]`,
+        });
+      } else if (joins.length === 0) {
+        errors.push({
+          code: 'PARALLEL_BRANCH_MISSING_JOIN',
+          message: `Parallel node "${node.id}" branch ${port} never reaches a Join node`,
+          field: `nodes[${node.id}]`,
+        });
+      }
+    });
+
+    if (joinId) {
+      matchedJoins.add(joinId);
+    } else if (branchJoins.length > 0 && branchJoins.every((joins) => joins.length > 0)) {
+      errors.push({
+        code: 'PARALLEL_JOIN_MISMATCH',
+        message: `Parallel node "${node.id}" branches reach different Join nodes (${[...new Set(branchJoins.flat())].join(', ')}); all branches must meet at one Join`,
+        field: `nodes[${node.id}]`,
+      });
+    }
+  }
+
+  for (const node of nodes) {
+    if (node.type === NodeType.Join && !matchedJoins.has(node.id)) {
+      errors.push({
+        code: 'JOIN_WITHOUT_PARALLEL',
+        message: `Join node "${node.id}" is not where the branches of any Parallel node meet`,
+        field: `nodes[${node.id}]`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/** Whether `targetId` is reachable from any of `fromIds` along connections. */
+function reachesNode(fromIds: string[], targetId: string, connections: Connection[]): boolean {
+  const visited = new Set<string>();
+  const stack = [...fromIds];
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (current === targetId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    for (const conn of connections) {
+      if (conn.from === current) stack.push(conn.to);
+    }
+  }
+  return false;
+}
+
 /**
  * Validate SubAgentFlow node structure and fields
  *
@@ -1024,6 +1238,12 @@ function validateConnections(connections: Connection[], nodes: WorkflowNode[]):
     }
   }
 
+  // Loop nodes: both ports wired and the body closed by a back-edge
+  errors.push(...validateLoopConnections(connections, nodes));
+
+  // Parallel nodes: every branch meets at one Join
+  errors.push(...validateParallelConnections(connections, nodes));
+
   // Check for cycles (simplified check - full cycle detection would be more complex)
   // For MVP, we'll rely on the AI to generate acyclic workflows
 
@@ -1195,3 +1415,107 @@ function validateHooks(hooks: WorkflowHooks): ValidationError[] {
 
   return errors;
 }
+
+/**
+ * Validate workflow template parameter declarations
+ *
+ * Checks names (placeholder-safe, unique), types, and that each `default`
+ * matches its declared type. Exported so the canvas parameter editor can
+ * show the same errors before saving.
+ *
+ * @param parameters - The workflow's `parameters` array
+ * @returns Array of validation errors
+ */
+export function validateWorkflowParameters(parameters: unknown): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const rules = VALIDATION_RULES.PARAMETER;
+  const validTypes = ['string', 'number', 'boolean'];
+
+  if (!Array.isArray(parameters)) {
+    return [
+      {
+        code: 'PARAMETERS_INVALID_TYPE',
+        message: 'Workflow parameters must be an array',
+        field: 'parameters',
+      },
+    ];
+  }
+
+  if (parameters.length > rules.MAX_COUNT) {
+    errors.push({
+      code: 'PARAMETERS_TOO_MANY',
+      message: `Workflow declares more than ${rules.MAX_COUNT} parameters`,
+      field: 'parameters',
+    });
+  }
+
+  const seen = new Set<string>();
+  for (let i = 0; i < parameters.length; i++) {
+    const param = parameters[i] as Partial<WorkflowParameter> | null;
+    if (!param || typeof param !== 'object') {
+      errors.push({
+        code: 'PARAMETER_INVALID',
+        message: `parameters[${i}] must be an object`,
+        field: `parameters[${i}]`,
+      });
+      continue;
+    }
+
+    const key = typeof param.name === 'string' && param.name ? param.name : String(i);
+    if (typeof param.name !== 'string' || param.name.length < rules.NAME_MIN_LENGTH) {
+      errors.push({
+        code: 'PARAMETER_MISSING_NAME',
+        message: `parameters[${i}] must have a name`,
+        field: `parameters[${key}].name`,
+      });
+    } else if (param.name.length > rules.NAME_MAX_LENGTH) {
+      errors.push({
+        code: 'PARAMETER_NAME_TOO_LONG',
+        message: `Parameter name "${param.name}" exceeds ${rules.NAME_MAX_LENGTH} characters`,
+        field: `parameters[${key}].name`,
+      });
+    } else if (!rules.NAME_PATTERN.test(param.name)) {
+      errors.push({
+        code: 'PARAMETER_INVALID_NAME',
+        message: `Parameter name "${param.name}" must start with a letter or underscore and contain only letters, numbers, and underscores`,
+        field: `parameters[${key}].name`,
+      });
+    } else if (seen.has(param.name)) {
+      errors.push({
+        code: 'PARAMETER_DUPLICATE_NAME',
+        message: `Parameter "${param.name}" is declared more than once`,
+        field: `parameters[${key}].name`,
+      });
+    } else {
+      seen.add(param.name);
+    }
+
+    if (!param.type || !validTypes.includes(param.type)) {
+      errors.push({
+        code: 'PARAMETER_INVALID_TYPE',
+        message: `Parameter "${key}" type must be one of: ${validTypes.join(', ')}`,
+        field: `parameters[${key}].type`,
+      });
+    } else if (param.default !== undefined && typeof param.default !== param.type) {
+      errors.push({
+        code: 'PARAMETER_DEFAULT_TYPE_MISMATCH',
+        message: `Parameter "${key}" default must be a ${param.type}`,
+        field: `parameters[${key}].default`,
+      });
+    }
+
+    if (
+      param.description !== undefined &&
+      (typeof param.description !== 'string' ||
+        param.description.length > rules.DESCRIPTION_MAX_LENGTH)
+    ) {
+      errors.push({
+        code: 'PARAMETER_DESC_TOO_LONG',
+        message: `Parameter "${key}" description must be a string of at most ${rules.DESCRIPTION_MAX_LENGTH} characters`,
+        field: `parameters[${key}].description`,
+      });
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,278 @@
+/**
+ * Workflow Graph Analysis
+ *
+ * Flow-level checks on top of the structural validation in
+ * validate-workflow.ts: which nodes run, and whether every run can finish.
+ * Each finding carries a severity and the node it points at, so `ccwf
+ * validate` can print it and the canvas can highlight the node.
+ *
+ * - UNREACHABLE_NODE (warning): no path from Start; the node never runs.
+ * - BRANCH_PORT_NOT_CONNECTED (error): an IfElse / Switch / AskUserQuestion
+ *   output port leads nowhere.
+ * - DEAD_END (error): a reachable node other than End has no outgoing
+ *   connection.
+ * - CYCLE_WITHOUT_EXIT (error): reachable nodes that only connect among
+ *   themselves, so execution can never leave them.
+ * - SUBAGENTFLOW_MISSING_DEFINITION (error): a SubAgentFlow node references
+ *   a flow that is not in `subAgentFlows`.
+ *
+ * Dead-end and cycle checks only cover nodes reachable from Start; an
+ * orphaned node is reported once, as unreachable.
+ *
+ * Each Sub-Agent Flow is analysed the same way. Its findings name the flow:
+ * `field` starts with `subAgentFlows[<flowId>].` and `nodeId` is
+ * `<flowId>/<nodeId>`.
+ */
+
+import {
+  type AskUserQuestionData,
+  type Connection,
+  NodeType,
+  type SubAgentFlowNodeData,
+  type SwitchNodeData,
+  type Workflow,
+  type WorkflowNode,
+} from '../types/workflow-definition.js';
+import type { ValidationError } from './validate-workflow.js';
+
+type GraphInput = Pick<Workflow, 'nodes' | 'connections' | 'subAgentFlows'>;
+
+export interface AnalyzeWorkflowGraphOptions {
+  /**
+   * Also analyse every Sub-Agent Flow. Default: true. The canvas turns it
+   * off because it shows one graph at a time.
+   */
+  subAgentFlows?: boolean;
+}
+
+/**
+ * Analyze the workflow graph and its Sub-Agent Flows. Returns both errors
+ * and warnings; callers split them on `severity`.
+ */
+export function analyzeWorkflowGraph(
+  workflow: GraphInput,
+  options: AnalyzeWorkflowGraphOptions = {}
+): ValidationError[] {
+  const subAgentFlows = workflow.subAgentFlows ?? [];
+  const findings = [
+    ...findMissingSubAgentFlows(workflow.nodes, subAgentFlows),
+    ...analyzeGraph(workflow.nodes, workflow.connections ?? []),
+  ];
+  if (options.subAgentFlows === false) {
+    return findings;
+  }
+  for (const flow of subAgentFlows) {
+    for (const finding of analyzeGraph(flow.nodes ?? [], flow.connections ?? [])) {
+      findings.push({
+        ...finding,
+        message: `SubAgentFlow "${flow.name}": ${finding.message}`,
+        ...(finding.field ? { field: `subAgentFlows[${flow.id}].${finding.field}` } : {}),
+        ...(finding.nodeId ? { nodeId: `${flow.id}/${finding.nodeId}` } : {}),
+      });
+    }
+  }
+  return findings;
+}
+
+/** Reachability, open branch ports, dead ends and closed cycles of one graph. */
+function analyzeGraph(allNodes: WorkflowNode[], connections: Connection[]): ValidationError[] {
+  const findings: ValidationError[] = [];
+  const nodes = allNodes.filter((n) => n.type !== NodeType.Group);
+  const nodeIds = new Set(nodes.map((n) => n.id));
+
+  const successors = new Map<string, string[]>();
+  for (const conn of connections) {
+    if (!nodeIds.has(conn.from) || !nodeIds.has(conn.to)) continue;
+    const targets = successors.get(conn.from) ?? [];
+    targets.push(conn.to);
+    successors.set(conn.from, targets);
+  }
+
+  const starts = nodes.filter((n) => n.type === NodeType.Start).map((n) => n.id);
+  if (starts.length === 0) {
+    // MISSING_START_NODE is reported by validation; nothing to walk from.
+    return findings;
+  }
+
+  const reachable = collectReachable(starts, successors);
+
+  for (const node of nodes) {
+    if (node.type === NodeType.Start || reachable.has(node.id)) continue;
+    findings.push({
+      code: 'UNREACHABLE_NODE',
+      message: `Node "${node.id}" is not reachable from the Start node and will never run`,
+      field: `nodes[${node.id}]`,
+      severity: 'warning',
+      nodeId: node.id,
+    });
+  }
+
+  for (const node of nodes) {
+    if (!reachable.has(node.id)) continue;
+
+    const openPorts = findUnconnectedBranchPorts(node, connections);
+    for (const port of openPorts) {
+      findings.push({
+        code: 'BRANCH_PORT_NOT_CONNECTED',
+        message: `Node "${node.id}" output port ${port} is not connected to any node`,
+        field: `nodes[${node.id}]`,
+        severity: 'error',
+        nodeId: node.id,
+      });
+    }
+
+    if (
+      openPorts.length === 0 &&
+      node.type !== NodeType.End &&
+      (successors.get(node.id) ?? []).length === 0
+    ) {
+      findings.push({
+        code: 'DEAD_END',
+        message: `Node "${node.id}" has no outgoing connection, so this path never reaches an End node`,
+        field: `nodes[${node.id}]`,
+        severity: 'error',
+        nodeId: node.id,
+      });
+    }
+  }
+
+  for (const cycle of findClosedCycles(nodes, reachable, successors)) {
+    findings.push({
+      code: 'CYCLE_WITHOUT_EXIT',
+      message: `Nodes ${cycle.map((id) => `"${id}"`).join(', ')} form a cycle with no connection leaving it, so execution can never reach an End node`,
+      field: `nodes[${cycle[0]}]`,
+      severity: 'error',
+      nodeId: cycle[0],
+    });
+  }
+
+  return findings;
+}
+
+function findMissingSubAgentFlows(
+  nodes: WorkflowNode[],
+  subAgentFlows: NonNullable<Workflow['subAgentFlows']>
+): ValidationError[] {
+  const flowIds = new Set(subAgentFlows.map((sf) => sf.id));
+  const findings: ValidationError[] = [];
+
+  for (const node of nodes) {
+    if (node.type !== NodeType.SubAgentFlow) continue;
+    const refData = node.data as SubAgentFlowNodeData;
+    if (!flowIds.has(refData.subAgentFlowId)) {
+      findings.push({
+        code: 'SUBAGENTFLOW_MISSING_DEFINITION',
+        message: `SubAgentFlow node "${node.id}" references non-existent SubAgentFlow "${refData.subAgentFlowId}"`,
+        field: `nodes[${node.id}].data.subAgentFlowId`,
+        severity: 'error',
+        nodeId: node.id,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function collectReachable(starts: string[], successors: Map<string, string[]>): Set<string> {
+  const reachable = new Set<string>();
+  const stack = [...starts];
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (reachable.has(current)) continue;
+    reachable.add(current);
+    stack.push(...(successors.get(current) ?? []));
+  }
+  return reachable;
+}
+
+/**
+ * Branch ports (`branch-<index>`) of a branching node without an outgoing
+ * connection. AskUserQuestion in AI-suggestion or multi-select mode has a
+ * single `output` port, which the dead-end check covers.
+ */
+function findUnconnectedBranchPorts(node: WorkflowNode, connections: Connection[]): string[] {
+  let portCount = 0;
+  if (node.type === NodeType.IfElse || node.type === NodeType.Switch) {
+    const branches = (node.data as Partial<SwitchNodeData>).branches;
+    portCount = Array.isArray(branches) ? branches.length : 0;
+  } else if (node.type === NodeType.AskUserQuestion) {
+    const data = node.data as Partial<AskUserQuestionData>;
+    if (!data.useAiSuggestions && !data.multiSelect && Array.isArray(data.options)) {
+      portCount = data.options.length;
+    }
+  }
+
+  const open: string[] = [];
+  for (let index = 0; index < portCount; index++) {
+    const port = `branch-${index}`;
+    if (!connections.some((c) => c.from === node.id && c.fromPort === port)) {
+      open.push(port);
+    }
+  }
+  return open;
+}
+
+/**
+ * Strongly connected components (Tarjan) among reachable nodes that contain
+ * a cycle and have no edge leaving the component. Node IDs in each cycle are
+ * listed in workflow order.
+ */
+function findClosedCycles(
+  nodes: WorkflowNode[],
+  reachable: Set<string>,
+  successors: Map<string, string[]>
+): string[][] {
+  const order = new Map(nodes.map((n, i) => [n.id, i]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const connect = (id: string): void => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id) ?? []) {
+      if (!index.has(next)) {
+        connect(next);
+        lowLink.set(id, Math.min(lowLink.get(id) as number, lowLink.get(next) as number));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id) as number, index.get(next) as number));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const node of nodes) {
+    if (reachable.has(node.id) && !index.has(node.id)) connect(node.id);
+  }
+
+  return components
+    .filter((component) => {
+      const members = new Set(component);
+      const isCycle =
+        component.length > 1 || (successors.get(component[0]) ?? []).includes(component[0]);
+      const hasExit = component.some((id) =>
+        (successors.get(id) ?? []).some((next) => !members.has(next))
+      );
+      return isCycle && !hasExit;
+    })
+    .map((component) =>
+      component.sort((a, b) => (order.get(a) as number) - (order.get(b) as number))
+    );
+}
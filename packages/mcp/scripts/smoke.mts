@@ -7,12 +7,19 @@
  *   pnpm --filter @cc-wf-studio/mcp run smoke
  */
 
+import { spawn } from 'node:child_process';
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { planSubAgentFiles } from '../dist/file-adapter.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const BIN_PATH = path.resolve(__dirname, '../dist/mcp.js');
@@ -35,8 +42,17 @@ const EXPECTED_TOOLS = [
   'get_workflow_schema',
   'apply_workflow',
   'list_available_agents',
+  'list_mcp_tools',
   'update_nodes',
+  'add_nodes',
+  'remove_nodes',
+  'connect',
+  'disconnect',
+  'move_into_group',
   'highlight_group_node',
+  'validate_workflow',
+  'render_workflow',
+  'export_workflow',
 ];
 
 async function main(): Promise<void> {
@@ -79,6 +95,131 @@ async function main(): Promise<void> {
     }
     console.log(`OK get_current_workflow returned workflow id=${parsed.workflow.id} revision=${parsed.revision.slice(0, 20)}…`);
 
+    const updatedUris: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updatedUris.push(notification.params.uri);
+    });
+    await client.subscribeResource({ uri: 'ccwf://workflow/current' });
+
+    // Insert a Prompt node between Start and End: add it wired in, then drop
+    // the direct edge. Both edits must validate on their own.
+    const added = await client.callTool({
+      name: 'add_nodes',
+      arguments: {
+        nodes: [
+          {
+            id: 'prompt-1',
+            type: 'prompt',
+            name: 'Greet',
+            position: { x: 100, y: 0 },
+            data: { prompt: 'Say hello' },
+          },
+        ],
+        connections: [
+          { from: 'start-1', to: 'prompt-1' },
+          { from: 'prompt-1', to: 'end-1' },
+        ],
+      },
+    });
+    const addedParsed = JSON.parse((added.content as { type: string; text: string }[])[0].text);
+    if (!addedParsed.success || addedParsed.nodeIds?.[0] !== 'prompt-1') {
+      throw new Error(`add_nodes failed: ${JSON.stringify(addedParsed)}`);
+    }
+    const disconnected = await client.callTool({
+      name: 'disconnect',
+      arguments: { remove: [{ from: 'start-1', to: 'end-1' }] },
+    });
+    const disconnectedParsed = JSON.parse(
+      (disconnected.content as { type: string; text: string }[])[0].text
+    );
+    if (!disconnectedParsed.success) {
+      throw new Error(`disconnect failed: ${JSON.stringify(disconnectedParsed)}`);
+    }
+    const onDisk = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+    if (onDisk.nodes.length !== 3 || onDisk.connections.length !== 2) {
+      throw new Error(`Unexpected workflow after edits: ${JSON.stringify(onDisk)}`);
+    }
+    console.log('OK add_nodes + disconnect inserted a node between Start and End');
+
+    const resource = await client.readResource({ uri: 'ccwf://workflow/current' });
+    const resourceText = (resource.contents[0] as { text: string }).text;
+    if (JSON.parse(resourceText).nodes.length !== 3) {
+      throw new Error(`ccwf://workflow/current is out of date: ${resourceText}`);
+    }
+    if (!updatedUris.includes('ccwf://workflow/current')) {
+      throw new Error('Expected a resources/updated notification after the edits');
+    }
+    const schema = await client.readResource({ uri: 'ccwf://schema' });
+    if (!(schema.contents[0] as { text: string }).text) {
+      throw new Error('ccwf://schema is empty');
+    }
+    console.log('OK resources: workflow + schema readable, update notification received');
+
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const reply = await client.callTool({ name, arguments: args });
+      return JSON.parse((reply.content as { type: string; text: string }[])[0].text);
+    };
+
+    const validated = await call('validate_workflow', {});
+    const invalid = await call('validate_workflow', {
+      workflow: JSON.stringify({ ...FIXTURE, connections: [] }),
+    });
+    if (!validated.valid || invalid.valid || invalid.errors.length === 0) {
+      throw new Error(`validate_workflow failed: ${JSON.stringify({ validated, invalid })}`);
+    }
+
+    const rendered = await call('render_workflow', { provider: 'codex' });
+    if (!rendered.mermaid?.includes('flowchart') || !rendered.executionInstructions) {
+      throw new Error(`render_workflow failed: ${JSON.stringify(rendered)}`);
+    }
+
+    const dryRun = await call('export_workflow', {});
+    const skillPath = '.claude/skills/smoke-test/SKILL.md';
+    if (!dryRun.success || !dryRun.files.some((f: { path: string }) => f.path === skillPath)) {
+      throw new Error(`export_workflow dry run failed: ${JSON.stringify(dryRun)}`);
+    }
+    const exported = await call('export_workflow', { dryRun: false });
+    // Unedited exports are replaced; a hand-edited one is a conflict
+    const reexported = await call('export_workflow', { dryRun: false });
+    const skillAbsPath = path.join(tmpDir, ...skillPath.split('/'));
+    await fs.appendFile(skillAbsPath, '\nHand edit.\n');
+    const conflict = await call('export_workflow', { dryRun: false });
+    if (
+      !exported.success ||
+      !reexported.success ||
+      conflict.success ||
+      conflict.conflicts?.length !== 1
+    ) {
+      throw new Error(`export_workflow failed: ${JSON.stringify({ exported, reexported, conflict })}`);
+    }
+    console.log(
+      'OK validate_workflow, render_workflow, export_workflow (dry run, write, re-export, edit conflict)'
+    );
+
+    const token = `ghp_${'x'.repeat(36)}`;
+    const blocked = await call('update_nodes', {
+      nodes: [{ id: 'prompt-1', data: { prompt: `Use ${token}` } }],
+    });
+    const promptOf = (workflow: { nodes: { id: string; data: { prompt?: string } }[] }) =>
+      workflow.nodes.find((n) => n.id === 'prompt-1')?.data;
+    const withSecret = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+    (promptOf(withSecret) as { prompt: string }).prompt = `Use ${token}`;
+    const redacted = await call('apply_workflow', {
+      workflow: JSON.stringify(withSecret),
+      secrets: 'redact',
+    });
+    const afterRedact = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+    if (
+      blocked.success ||
+      blocked.sensitiveData?.[0]?.type !== 'GITHUB_TOKEN' ||
+      !redacted.success ||
+      redacted.redactedSecrets?.[0]?.envVar !== 'GITHUB_TOKEN' ||
+      promptOf(afterRedact)?.prompt !== 'Use ${GITHUB_TOKEN}'
+    ) {
+      throw new Error(`Secret screening failed: ${JSON.stringify({ blocked, redacted })}`);
+    }
+    console.log('OK secrets: update_nodes blocked, apply_workflow secrets:"redact" wrote ${GITHUB_TOKEN}');
+
     const highlight = await client.callTool({
       name: 'highlight_group_node',
       arguments: { groupNodeId: 'foo' },
@@ -98,7 +239,384 @@ async function main(): Promise<void> {
   }
 }
 
-main().catch((error) => {
-  process.stderr.write(`SMOKE FAILED: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
-  process.exit(1);
-});
+/** `--dir` mode: list / create / open / delete plus a `workflowId`-targeted edit. */
+async function smokeDirectoryMode(): Promise<void> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ccwf-mcp-smoke-dir-'));
+  const workflowsDir = path.join(tmpDir, 'workflows');
+  await fs.mkdir(workflowsDir);
+  await fs.writeFile(
+    path.join(workflowsDir, 'first.json'),
+    JSON.stringify(FIXTURE, null, 2),
+    'utf-8'
+  );
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [BIN_PATH, '--dir', workflowsDir, '--project-root', tmpDir],
+  });
+  const client = new Client({ name: 'smoke-client', version: '0.0.0' });
+  await client.connect(transport);
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const reply = await client.callTool({ name, arguments: args });
+    return JSON.parse((reply.content as { type: string; text: string }[])[0].text);
+  };
+
+  try {
+    const listed = await call('list_workflows', {});
+    if (!listed.success || listed.workflows?.[0]?.workflowId !== 'first') {
+      throw new Error(`list_workflows failed: ${JSON.stringify(listed)}`);
+    }
+    const { resources } = await client.listResources();
+    if (!resources.some((r) => r.uri === 'ccwf://workflows/first')) {
+      throw new Error(`Missing ccwf://workflows/first resource: ${JSON.stringify(resources)}`);
+    }
+
+    const created = await call('create_workflow', {
+      workflow: JSON.stringify({ ...FIXTURE, id: 'second-wf', name: 'second' }),
+    });
+    if (!created.success || created.workflowId !== 'second') {
+      throw new Error(`create_workflow failed: ${JSON.stringify(created)}`);
+    }
+
+    const renamed = await call('update_nodes', {
+      workflowId: 'first',
+      nodes: [{ id: 'end-1', name: 'Done' }],
+    });
+    if (!renamed.success) {
+      throw new Error(`update_nodes with workflowId failed: ${JSON.stringify(renamed)}`);
+    }
+    const first = JSON.parse(await fs.readFile(path.join(workflowsDir, 'first.json'), 'utf-8'));
+    if (first.nodes[1].name !== 'Done') {
+      throw new Error(`update_nodes did not target "first": ${JSON.stringify(first)}`);
+    }
+
+    const current = await call('get_current_workflow', {});
+    if (current.workflow?.id !== 'second-wf') {
+      throw new Error(`create_workflow should open the new workflow: ${JSON.stringify(current)}`);
+    }
+
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    await client.subscribeResource({ uri: 'ccwf://workflow/current' });
+    await client.subscribeResource({ uri: 'ccwf://workflows/second' });
+    const deleted = await call('delete_workflow', { workflowId: 'second' });
+    const afterDelete = await call('get_current_workflow', {});
+    if (!deleted.success || afterDelete.success) {
+      throw new Error(`delete_workflow failed: ${JSON.stringify({ deleted, afterDelete })}`);
+    }
+    // Sent before the reply, so no wait for the directory watcher.
+    if (
+      !updated.includes('ccwf://workflow/current') ||
+      !updated.includes('ccwf://workflows/second')
+    ) {
+      throw new Error(
+        `Deleting the open workflow did not notify subscribers: ${JSON.stringify(updated)}`
+      );
+    }
+    console.log('OK --dir mode: list_workflows, workflow resources, create_workflow, workflowId edits, delete_workflow');
+  } finally {
+    await client.close().catch(() => {});
+    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/** `--create-agent-files`: inline SubAgent nodes get `.claude/agents/*.md`, clashes are reported. */
+async function smokeAgentFiles(): Promise<void> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ccwf-mcp-smoke-agents-'));
+  const fixturePath = path.join(tmpDir, 'workflow.json');
+  await fs.writeFile(fixturePath, JSON.stringify(FIXTURE, null, 2), 'utf-8');
+  const agentsDir = path.join(tmpDir, '.claude', 'agents');
+  await fs.mkdir(agentsDir, { recursive: true });
+  await fs.writeFile(path.join(agentsDir, 'planner.md'), 'hand-written\n', 'utf-8');
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [BIN_PATH, '--file', fixturePath, '--project-root', tmpDir, '--create-agent-files'],
+  });
+  const client = new Client({ name: 'smoke-client', version: '0.0.0' });
+  await client.connect(transport);
+
+  const subAgent = (id: string, name: string, x: number) => ({
+    id,
+    type: 'subAgent',
+    name,
+    position: { x, y: 0 },
+    data: {
+      description: `${name} agent`,
+      agentDefinition: `You are the ${name}.`,
+      prompt: 'Do the work.',
+      outputPorts: 1,
+    },
+  });
+
+  const workflow = JSON.stringify({
+    ...FIXTURE,
+    nodes: [
+      (FIXTURE.nodes as unknown[])[0],
+      subAgent('agent-1', 'reviewer', 100),
+      subAgent('agent-2', 'planner', 200),
+      { ...(FIXTURE.nodes as Record<string, unknown>[])[1], position: { x: 300, y: 0 } },
+    ],
+    connections: [
+      { id: 'c-1', from: 'start-1', to: 'agent-1' },
+      { id: 'c-2', from: 'agent-1', to: 'agent-2' },
+      { id: 'c-3', from: 'agent-2', to: 'end-1' },
+    ],
+  });
+
+  try {
+    const reviewerPath = path.join(agentsDir, 'reviewer.md');
+
+    // A refused apply must not leave agent files behind.
+    const refused = await client.callTool({
+      name: 'apply_workflow',
+      arguments: { workflow, revision: 'sha256:stale' },
+    });
+    const refusedParsed = JSON.parse((refused.content as { type: string; text: string }[])[0].text);
+    const leftover = await fs.access(reviewerPath).then(
+      () => true,
+      () => false
+    );
+    if (refusedParsed.success || refusedParsed.autoCreatedFiles || leftover) {
+      throw new Error(
+        `Refused apply wrote agent files: ${JSON.stringify(refusedParsed)} (file on disk: ${leftover})`
+      );
+    }
+
+    const reply = await client.callTool({
+      name: 'apply_workflow',
+      arguments: { workflow },
+    });
+    const parsed = JSON.parse((reply.content as { type: string; text: string }[])[0].text);
+    const collision = parsed.subAgentFileCollisions?.[0];
+    if (
+      !parsed.success ||
+      parsed.autoCreatedFiles?.[0] !== reviewerPath ||
+      collision?.nodeId !== 'agent-2' ||
+      collision?.reason !== 'exists'
+    ) {
+      throw new Error(`apply_workflow with --create-agent-files failed: ${JSON.stringify(parsed)}`);
+    }
+    await fs.access(reviewerPath);
+    if ((await fs.readFile(path.join(agentsDir, 'planner.md'), 'utf-8')) !== 'hand-written\n') {
+      throw new Error('An existing agent file was overwritten');
+    }
+    const onDisk = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+    const [reviewer, planner] = [onDisk.nodes[1].data, onDisk.nodes[2].data];
+    if (reviewer.commandFilePath !== reviewerPath || planner.commandFilePath !== undefined) {
+      throw new Error(`Unexpected SubAgent nodes after apply: ${JSON.stringify(onDisk.nodes)}`);
+    }
+    console.log(
+      'OK --create-agent-files: nothing written on a refused apply, agent file written, existing file reported as collision'
+    );
+  } finally {
+    await client.close().catch(() => {});
+    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Agent-file planning also covers inline SubAgent nodes inside Sub-Agent
+ * Flows. Validation rejects those today, so the planner is called directly.
+ */
+async function smokeSubAgentFlowPlanning(): Promise<void> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ccwf-mcp-smoke-flows-'));
+  const subAgent = (id: string, name: string) => ({
+    id,
+    type: 'subAgent',
+    name,
+    position: { x: 100, y: 0 },
+    data: { description: `${name} agent`, prompt: 'Do the work.', outputPorts: 1 },
+  });
+  const workflow = {
+    ...FIXTURE,
+    nodes: [...(FIXTURE.nodes as unknown[]), subAgent('agent-1', 'reviewer')],
+    subAgentFlows: [
+      {
+        id: 'flow-1',
+        name: 'research',
+        nodes: [subAgent('agent-1', 'researcher'), subAgent('agent-2', 'reviewer')],
+        connections: [],
+      },
+    ],
+  };
+
+  try {
+    const planned = await planSubAgentFiles(tmpDir, workflow as never);
+    const summary = planned
+      .map((f) => `${f.subAgentFlowId ?? 'main'}/${f.nodeId}:${f.collision ?? 'new'}`)
+      .join(',');
+    if (summary !== 'main/agent-1:new,flow-1/agent-1:new,flow-1/agent-2:duplicate') {
+      throw new Error(`Unexpected agent-file plan: ${summary}`);
+    }
+    const researcher = workflow.subAgentFlows[0].nodes[0].data as { commandFilePath?: string };
+    if (researcher.commandFilePath !== planned[1].filePath) {
+      throw new Error(`Flow node not pointed at its file: ${JSON.stringify(researcher)}`);
+    }
+    console.log('OK agent-file planning: Sub-Agent Flow nodes planned, a name clash with the main graph reported');
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * `list_mcp_tools`: servers come from the project's `.mcp.json`, tools are
+ * fetched live once and then served from the MCP tool cache.
+ */
+async function smokeListMcpTools(): Promise<void> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ccwf-mcp-smoke-mcp-tools-'));
+  const fixturePath = path.join(tmpDir, 'workflow.json');
+  await fs.writeFile(fixturePath, JSON.stringify(FIXTURE, null, 2), 'utf-8');
+  // The server lists itself: a second ccwf-mcp on the same fixture.
+  const mcpServers = {
+    self: { command: process.execPath, args: [BIN_PATH, '--file', fixturePath] },
+  };
+  await fs.writeFile(path.join(tmpDir, '.mcp.json'), JSON.stringify({ mcpServers }), 'utf-8');
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [BIN_PATH, '--file', fixturePath, '--project-root', tmpDir],
+    env: { ...getDefaultEnvironment(), CCWF_CACHE_DIR: path.join(tmpDir, 'cache') },
+  });
+  const client = new Client({ name: 'smoke-client', version: '0.0.0' });
+  await client.connect(transport);
+
+  const call = async (args: Record<string, unknown>) => {
+    const reply = await client.callTool({ name: 'list_mcp_tools', arguments: args });
+    return JSON.parse((reply.content as { type: string; text: string }[])[0].text);
+  };
+
+  try {
+    const servers = await call({});
+    const self = servers.servers?.find((s: { serverId: string }) => s.serverId === 'self');
+    if (!servers.success || self?.type !== 'stdio') {
+      throw new Error(`list_mcp_tools did not list the project server: ${JSON.stringify(servers)}`);
+    }
+
+    const live = await call({ serverId: 'self' });
+    const names = (live.tools ?? []).map((t: { name: string }) => t.name);
+    if (!live.success || live.source !== 'live' || !names.includes('apply_workflow')) {
+      throw new Error(`list_mcp_tools did not fetch the tools: ${JSON.stringify(live)}`);
+    }
+    const cached = await call({ serverId: 'self' });
+    if (cached.source !== 'cache' || cached.totalCount !== live.totalCount) {
+      throw new Error(
+        `Second list_mcp_tools call was not served from the cache: ${JSON.stringify(cached)}`
+      );
+    }
+    const unknown = await call({ serverId: 'missing' });
+    if (unknown.success || !String(unknown.error).includes('"missing"')) {
+      throw new Error(`Unknown server not reported: ${JSON.stringify(unknown)}`);
+    }
+    console.log('OK list_mcp_tools: project servers listed, tools fetched once then served from the cache');
+  } finally {
+    await client.close().catch(() => {});
+    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/** Resolve once `check` passes; fail after `timeoutMs`. */
+async function waitFor(check: () => boolean, what: string, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+/**
+ * `--http` mode: bearer token enforced, tools reachable over Streamable HTTP,
+ * and a subscription sees writes from another session and outside edits.
+ */
+async function smokeHttpMode(): Promise<void> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ccwf-mcp-smoke-http-'));
+  const fixturePath = path.join(tmpDir, 'workflow.json');
+  await fs.writeFile(fixturePath, JSON.stringify(FIXTURE, null, 2), 'utf-8');
+
+  const token = 'smoke-token';
+  const child = spawn(
+    process.execPath,
+    [BIN_PATH, '--file', fixturePath, '--http', '--port', '0', '--token', token],
+    { stdio: ['ignore', 'ignore', 'pipe'] }
+  );
+  const client = new Client({ name: 'smoke-client', version: '0.0.0' });
+  const writer = new Client({ name: 'smoke-writer', version: '0.0.0' });
+
+  try {
+    const url = await new Promise<string>((resolve, reject) => {
+      let stderr = '';
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+        const match = /listening on (\S+)/.exec(stderr);
+        if (match) resolve(match[1]);
+      });
+      child.on('exit', (code) => reject(new Error(`--http server exited (${code}): ${stderr}`)));
+    });
+
+    const unauthorized = await fetch(url, { method: 'POST', body: '{}' });
+    if (unauthorized.status !== 401) {
+      throw new Error(`Expected 401 without a token, got ${unauthorized.status}`);
+    }
+
+    const connect = (c: Client) =>
+      c.connect(
+        new StreamableHTTPClientTransport(new URL(url), {
+          requestInit: { headers: { Authorization: `Bearer ${token}` } },
+        })
+      );
+    await connect(client);
+    const { tools } = await client.listTools();
+    const reply = await client.callTool({ name: 'get_current_workflow', arguments: {} });
+    const parsed = JSON.parse((reply.content as { type: string; text: string }[])[0].text);
+    if (tools.length < EXPECTED_TOOLS.length || parsed.workflow?.id !== FIXTURE.id) {
+      throw new Error(`--http mode failed: ${JSON.stringify(parsed)}`);
+    }
+    console.log(`OK --http mode: 401 without token, ${tools.length} tools over Streamable HTTP`);
+
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+    await client.subscribeResource({ uri: 'ccwf://workflow/current' });
+    // Open the SSE stream that carries notifications outside a request.
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    await connect(writer);
+    const renamed = await writer.callTool({
+      name: 'update_nodes',
+      arguments: { nodes: [{ id: 'end-1', name: 'Done' }] },
+    });
+    if (!JSON.parse((renamed.content as { type: string; text: string }[])[0].text).success) {
+      throw new Error(`update_nodes from a second session failed: ${JSON.stringify(renamed)}`);
+    }
+    await waitFor(() => updates.length === 1, 'the update from the other session');
+    // The file watcher must not report the server's own write a second time.
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    if (updates.length !== 1) {
+      throw new Error(`Expected one update for one write, got ${updates.length}`);
+    }
+
+    await fs.writeFile(fixturePath, JSON.stringify({ ...FIXTURE, name: 'edited' }, null, 2));
+    await waitFor(() => updates.length === 2, 'the update from an outside edit');
+    console.log("OK --http mode: subscriber notified of another session's write and an outside edit");
+  } finally {
+    await writer.close().catch(() => {});
+    await client.close().catch(() => {});
+    child.kill();
+    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+main()
+  .then(smokeDirectoryMode)
+  .then(smokeAgentFiles)
+  .then(smokeSubAgentFlowPlanning)
+  .then(smokeListMcpTools)
+  .then(smokeHttpMode)
+  .catch((error) => {
+    process.stderr.write(`SMOKE FAILED: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+    process.exit(1);
+  });
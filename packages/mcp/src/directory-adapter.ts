@@ -0,0 +1,306 @@
+/**
+ * Directory-mode WorkflowIoAdapter + WorkflowLibrary.
+ *
+ * Serves every `*.json` workflow directly inside a folder (typically
+ * `.vscode/workflows`). Backs `ccwf-mcp --dir <path>`.
+ *
+ * Behavioural notes:
+ *   - A `workflowId` is the file name without `.json`, the same id the
+ *     VSCode extension uses for its workflow list. Sub-directories are not
+ *     scanned.
+ *   - Each workflow is read and written through its own `FileWorkflowAdapter`,
+ *     so revisions, migrations and atomic writes behave exactly as in file
+ *     mode.
+ *   - The `WorkflowIoAdapter` methods act on the "open" workflow (set by
+ *     `openWorkflow` / `createWorkflow`). Nothing is open at startup;
+ *     `getCurrentWorkflow` then returns `{ workflow: null }`.
+ *   - `watchWorkflows` watches the directory: outside edits are reported per
+ *     `workflowId`, and files that appear or disappear as `listChanged`.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { PlannedExportFile, ProjectConfig, Workflow } from '@cc-wf-studio/core';
+import { writeExportFilesToRoot } from './export.js';
+import {
+  computeRevision,
+  FileWorkflowAdapter,
+  listAgentFiles,
+  readWorkflowSchemaToon,
+  watchDirectory,
+} from './file-adapter.js';
+import { getClaudeMcpServerTools, listClaudeMcpServers } from './mcp-servers.js';
+import { readProjectConfig } from './project-config.js';
+import type {
+  ApplyWorkflowOptions,
+  ApplyWorkflowResult,
+  CreateWorkflowResult,
+  DeleteWorkflowResult,
+  GetCurrentWorkflowResult,
+  GetWorkflowSchemaResult,
+  HighlightResult,
+  ListAvailableAgentsResult,
+  ListMcpToolsResult,
+  McpServerSummary,
+  PlannedSubAgentFile,
+  WorkflowChange,
+  WorkflowIoAdapter,
+  WorkflowLibrary,
+  WorkflowSummary,
+  WriteExportFilesOptions,
+  WriteExportFilesResult,
+} from './types.js';
+
+export interface DirectoryWorkflowAdapterOptions {
+  /** Directory holding the workflow JSON files. */
+  dirPath: string;
+  /** Base directory used to resolve project-scope sub-agent files. Defaults to `process.cwd()`. */
+  projectRoot?: string;
+  /** Passed to each workflow's `FileWorkflowAdapter`. Default: false. */
+  createSubAgentFiles?: boolean;
+}
+
+const WORKFLOW_EXTENSION = '.json';
+
+const NO_OPEN_WORKFLOW_ERROR =
+  'No workflow is open. Call open_workflow or create_workflow first, or pass workflowId.';
+
+export class DirectoryWorkflowAdapter implements WorkflowIoAdapter, WorkflowLibrary {
+  private readonly dirPath: string;
+  private readonly projectRoot: string;
+  private readonly createSubAgentFiles: boolean;
+  private readonly fileAdapters = new Map<string, FileWorkflowAdapter>();
+  private openWorkflowId: string | null = null;
+
+  constructor(options: DirectoryWorkflowAdapterOptions) {
+    this.dirPath = path.resolve(options.dirPath);
+    this.projectRoot = options.projectRoot ?? process.cwd();
+    this.createSubAgentFiles = options.createSubAgentFiles ?? false;
+  }
+
+  // --- WorkflowIoAdapter (the open workflow) ----------------------------
+
+  async getCurrentWorkflow(): Promise<GetCurrentWorkflowResult> {
+    if (this.openWorkflowId === null) return { workflow: null };
+    return this.fileAdapter(this.openWorkflowId).getCurrentWorkflow();
+  }
+
+  async applyWorkflow(
+    workflow: Workflow,
+    opts: ApplyWorkflowOptions
+  ): Promise<ApplyWorkflowResult> {
+    if (this.openWorkflowId === null) {
+      return { success: false, error: NO_OPEN_WORKFLOW_ERROR };
+    }
+    return this.fileAdapter(this.openWorkflowId).applyWorkflow(workflow, opts);
+  }
+
+  async highlightGroupNode(_groupNodeId: string | null): Promise<HighlightResult> {
+    return {
+      success: true,
+      note: 'highlight_group_node is canvas-only; no-op in directory mode',
+    };
+  }
+
+  async getWorkflowSchemaToon(): Promise<GetWorkflowSchemaResult> {
+    return readWorkflowSchemaToon();
+  }
+
+  async listAvailableAgents(includeContent: boolean): Promise<ListAvailableAgentsResult> {
+    return listAgentFiles(this.projectRoot, includeContent);
+  }
+
+  async planAndPersistSubAgentFiles(workflow: Workflow): Promise<PlannedSubAgentFile[]> {
+    // Same rules as file mode; applyWorkflow refuses anyway when nothing is open.
+    if (this.openWorkflowId === null) return [];
+    return this.fileAdapter(this.openWorkflowId).planAndPersistSubAgentFiles(workflow);
+  }
+
+  async writeExportFiles(
+    files: PlannedExportFile[],
+    opts: WriteExportFilesOptions
+  ): Promise<WriteExportFilesResult> {
+    return writeExportFilesToRoot(this.projectRoot, files, opts);
+  }
+
+  async getProjectConfig(): Promise<ProjectConfig> {
+    return readProjectConfig(this.projectRoot);
+  }
+
+  async listMcpServers(): Promise<McpServerSummary[]> {
+    return listClaudeMcpServers(this.projectRoot);
+  }
+
+  async listMcpTools(serverId: string, opts: { refresh: boolean }): Promise<ListMcpToolsResult> {
+    return getClaudeMcpServerTools(this.projectRoot, serverId, opts);
+  }
+
+  watchWorkflows(listener: (change: WorkflowChange) => void): () => void {
+    this.workflowIds()
+      .then((ids) => Promise.all(ids.map((id) => this.fileAdapter(id).syncRevision())))
+      .catch(() => {});
+    return watchDirectory(this.dirPath, (fileName) => {
+      if (!isWorkflowFileName(fileName)) return;
+      const workflowId = fileName.slice(0, -WORKFLOW_EXTENSION.length);
+      this.fileAdapter(workflowId)
+        .syncRevision()
+        .then(
+          (sync) => {
+            if (!sync.exists) this.fileAdapters.delete(workflowId);
+            if (!sync.changed) return;
+            listener({
+              workflowId,
+              ...(sync.existed !== sync.exists ? { listChanged: true } : {}),
+            });
+          },
+          () => {}
+        );
+    });
+  }
+
+  // --- WorkflowLibrary ---------------------------------------------------
+
+  async listWorkflows(): Promise<WorkflowSummary[]> {
+    const summaries: WorkflowSummary[] = [];
+    for (const workflowId of await this.workflowIds()) {
+      const isOpen = workflowId === this.openWorkflowId;
+      try {
+        const result = await this.fileAdapter(workflowId).getCurrentWorkflow();
+        if (!result.workflow) continue;
+        summaries.push({
+          workflowId,
+          name: result.workflow.name,
+          ...(result.workflow.description ? { description: result.workflow.description } : {}),
+          nodeCount: result.workflow.nodes?.length ?? 0,
+          revision: result.revision,
+          isOpen,
+        });
+      } catch (error) {
+        summaries.push({
+          workflowId,
+          isOpen,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return summaries;
+  }
+
+  async adapterFor(workflowId?: string): Promise<WorkflowIoAdapter> {
+    if (workflowId === undefined) {
+      if (this.openWorkflowId === null) {
+        throw new Error(NO_OPEN_WORKFLOW_ERROR);
+      }
+      return this.fileAdapter(this.openWorkflowId);
+    }
+    await this.requireWorkflow(workflowId);
+    return this.fileAdapter(workflowId);
+  }
+
+  async openWorkflow(workflowId: string): Promise<void> {
+    await this.requireWorkflow(workflowId);
+    this.openWorkflowId = workflowId;
+  }
+
+  getOpenWorkflowId(): string | null {
+    return this.openWorkflowId;
+  }
+
+  async createWorkflow(workflow: Workflow, workflowId: string): Promise<CreateWorkflowResult> {
+    assertWorkflowId(workflowId);
+    const serialised = `${JSON.stringify(workflow, null, 2)}\n`;
+    await fs.mkdir(this.dirPath, { recursive: true });
+    try {
+      // `wx` refuses to overwrite, even if the file appeared since we looked.
+      await fs.writeFile(this.filePath(workflowId), serialised, {
+        encoding: 'utf-8',
+        flag: 'wx',
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return { success: false, error: `Workflow "${workflowId}" already exists.` };
+      }
+      throw error;
+    }
+    // Seen by the watcher as our own write, not as an outside change.
+    await this.fileAdapter(workflowId).syncRevision();
+    this.openWorkflowId = workflowId;
+    return { success: true, workflowId, revision: computeRevision(serialised) };
+  }
+
+  async deleteWorkflow(
+    workflowId: string,
+    expectedRevision?: string
+  ): Promise<DeleteWorkflowResult> {
+    await this.requireWorkflow(workflowId);
+    const filePath = this.filePath(workflowId);
+    if (expectedRevision) {
+      const currentRevision = computeRevision(await fs.readFile(filePath, 'utf-8'));
+      if (currentRevision !== expectedRevision) {
+        return {
+          success: false,
+          error: `Revision conflict: file has changed since it was last read (expected ${expectedRevision}, found ${currentRevision}).`,
+        };
+      }
+    }
+    await fs.rm(filePath);
+    this.fileAdapters.delete(workflowId);
+    if (this.openWorkflowId === workflowId) this.openWorkflowId = null;
+    return { success: true };
+  }
+
+  // ---------------------------------------------------------------------
+
+  private filePath(workflowId: string): string {
+    return path.join(this.dirPath, `${workflowId}${WORKFLOW_EXTENSION}`);
+  }
+
+  private fileAdapter(workflowId: string): FileWorkflowAdapter {
+    let adapter = this.fileAdapters.get(workflowId);
+    if (!adapter) {
+      adapter = new FileWorkflowAdapter({
+        filePath: this.filePath(workflowId),
+        projectRoot: this.projectRoot,
+        createSubAgentFiles: this.createSubAgentFiles,
+      });
+      this.fileAdapters.set(workflowId, adapter);
+    }
+    return adapter;
+  }
+
+  private async workflowIds(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.dirPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return entries
+      .filter(isWorkflowFileName)
+      .map((entry) => entry.slice(0, -WORKFLOW_EXTENSION.length))
+      .sort();
+  }
+
+  private async requireWorkflow(workflowId: string): Promise<void> {
+    assertWorkflowId(workflowId);
+    if (!(await this.workflowIds()).includes(workflowId)) {
+      throw new Error(
+        `Workflow "${workflowId}" not found. Use list_workflows to see available IDs.`
+      );
+    }
+  }
+}
+
+function isWorkflowFileName(fileName: string): boolean {
+  return fileName.endsWith(WORKFLOW_EXTENSION) && !fileName.startsWith('.');
+}
+
+/** Ids name a file directly inside the directory: no separators, no dot files. */
+function assertWorkflowId(workflowId: string): void {
+  if (workflowId.length === 0 || /[/\\]/.test(workflowId) || workflowId.startsWith('.')) {
+    throw new Error(
+      `Invalid workflowId "${workflowId}": use a file name without ".json" and without path separators.`
+    );
+  }
+}
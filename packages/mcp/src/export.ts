@@ -0,0 +1,116 @@
+/**
+ * Export planning and writing for the `export_workflow` tool.
+ *
+ * Planning mirrors `ccwf export --agent <name>`: Claude Code uses
+ * `planWorkflowExportFiles` (`.claude/agents` + `.claude/skills`), the other
+ * agents use `planAgentSkillFiles` (`<root>/skills/<workflow>/SKILL.md`).
+ * `writeExportFilesToRoot` is what the bundled adapters use to implement
+ * `WorkflowIoAdapter.writeExportFiles`; other adapters may reuse it.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  type AgentSkillProvider,
+  collectParallelFallbackWarnings,
+  exportProviderToTarget,
+  inspectExportedFile,
+  type PlannedExportFile,
+  planAgentSkillFiles,
+  planWorkflowExportFiles,
+  type Workflow,
+  workflowContainsClaudeCodeOnlyNodes,
+} from '@cc-wf-studio/core';
+import type { WriteExportFilesOptions, WriteExportFilesResult } from './types.js';
+
+export const EXPORT_AGENTS = [
+  'claude-code',
+  'antigravity',
+  'codex',
+  'copilot',
+  'cursor',
+  'gemini',
+  'roo-code',
+] as const;
+export type ExportAgent = (typeof EXPORT_AGENTS)[number];
+
+export interface ExportPlan {
+  /** Files to write, relative to the project root. */
+  files: PlannedExportFile[];
+  /** Export warnings for this agent. */
+  warnings: string[];
+}
+
+/** Plan the files exporting `workflow` for `agent` produces. Pure. */
+export function planExportForAgent(workflow: Workflow, agent: ExportAgent): ExportPlan {
+  const warnings: string[] = [];
+  if (agent !== 'claude-code' && workflowContainsClaudeCodeOnlyNodes(workflow)) {
+    warnings.push(
+      `This workflow contains Claude Code-only node(s) (e.g. branchSession); ${agent} cannot execute those steps.`
+    );
+  }
+  warnings.push(...collectParallelFallbackWarnings(workflow, exportProviderToTarget(agent)));
+
+  const files =
+    agent === 'claude-code'
+      ? planWorkflowExportFiles(workflow)
+      : planAgentSkillFiles(workflow, agent as AgentSkillProvider);
+  return { files, warnings };
+}
+
+/**
+ * Write planned files under `rootDir`. Refuses the whole export (writing
+ * nothing) when a file already exists and `overwrite` is false, or when a
+ * planned path would land outside `rootDir`. An existing file that is ccwf's
+ * unedited output (its content-hash marker still matches) is replaced
+ * without `overwrite`.
+ */
+export async function writeExportFilesToRoot(
+  rootDir: string,
+  files: PlannedExportFile[],
+  opts: WriteExportFilesOptions
+): Promise<WriteExportFilesResult> {
+  const root = path.resolve(rootDir);
+  const targets: { absPath: string; contents: string }[] = [];
+  for (const file of files) {
+    const absPath = path.join(root, ...file.relativePath.split('/'));
+    if (path.relative(root, absPath).startsWith('..') || path.isAbsolute(file.relativePath)) {
+      return { success: false, error: `Refusing to write outside ${root}: ${file.relativePath}` };
+    }
+    targets.push({ absPath, contents: file.contents });
+  }
+
+  if (!opts.overwrite) {
+    const conflicts: string[] = [];
+    for (const { absPath } of targets) {
+      const existing = await readIfExists(absPath);
+      if (existing !== undefined && inspectExportedFile(existing) !== 'unchanged') {
+        conflicts.push(absPath);
+      }
+    }
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        conflicts,
+        error: `${conflicts.length} existing file(s) were edited or not written by ccwf. Pass overwrite: true to replace them.`,
+      };
+    }
+  }
+
+  const writtenPaths: string[] = [];
+  for (const { absPath, contents } of targets) {
+    await fs.mkdir(path.dirname(absPath), { recursive: true });
+    await fs.writeFile(absPath, contents, 'utf-8');
+    writtenPaths.push(absPath);
+  }
+  return { success: true, writtenPaths };
+}
+
+async function readIfExists(target: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(target, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
@@ -6,8 +6,9 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerWorkflowResources, type WorkflowResourceRegistry } from './resources.js';
 import { registerWorkflowTools } from './tools.js';
-import type { WorkflowIoAdapter } from './types.js';
+import type { WorkflowIoAdapter, WorkflowLibrary } from './types.js';
 
 export interface CreateWorkflowMcpServerOptions {
   /**
@@ -16,6 +17,22 @@ export interface CreateWorkflowMcpServerOptions {
    */
   name?: string;
   version?: string;
+  /**
+   * Multi-workflow capability (directory mode). Adds the workflow library
+   * tools and enables the per-workflow tools' `workflowId` argument.
+   */
+  library?: WorkflowLibrary;
+  /**
+   * Resource subscriptions shared by every server built for this adapter, e.g.
+   * one per HTTP session. Without it, only this server's own tool writes
+   * reach its subscribers.
+   */
+  resources?: WorkflowResourceRegistry;
+  /**
+   * Advertise `resources/subscribe`. Default: true. Pass false for servers
+   * behind a stateless HTTP handler, which cannot deliver notifications.
+   */
+  subscribe?: boolean;
 }
 
 const DEFAULT_SERVER_NAME = 'cc-workflow-studio';
@@ -24,8 +41,9 @@ const DEFAULT_SERVER_VERSION = '1.0.0';
 /**
  * Build a configured `McpServer` for the given IO adapter.
  *
- * The returned instance has all 6 workflow tools registered. It is not
- * connected to a transport yet — call `server.connect(transport)` separately.
+ * The returned instance has all workflow tools and resources registered. It
+ * is not connected to a transport yet — call `server.connect(transport)`
+ * separately.
  */
 export function createWorkflowMcpServer(
   adapter: WorkflowIoAdapter,
@@ -43,6 +61,10 @@ export function createWorkflowMcpServer(
     }
   );
 
-  registerWorkflowTools(server, adapter);
+  const resources = registerWorkflowResources(server, adapter, options.library, {
+    registry: options.resources,
+    subscribe: options.subscribe,
+  });
+  registerWorkflowTools(server, adapter, options.library, resources);
   return server;
 }
@@ -7,21 +7,46 @@
  *
  * Behavioural notes:
  *   - `revision` is `sha256:<hex>` of the file's UTF-8 contents.
+ *   - `getCurrentWorkflow` runs schema migrations in memory and reports them
+ *     via `migration`; the upgraded shape is written on the next apply.
  *   - `applyWorkflow` performs an atomic temp-file + rename write, and refuses
  *     the write when `expectedRevision` doesn't match the current file hash.
  *   - `highlightGroupNode` is a no-op success (returns a diagnostic note).
- *   - `planAndPersistSubAgentFiles` returns `[]` — file-mode does NOT
- *     auto-create `.claude/agents/*.md` files in this initial release.
+ *   - `planAndPersistSubAgentFiles` returns `[]` unless `createSubAgentFiles`
+ *     is set. With it, inline SubAgent nodes are planned to get
+ *     `.claude/agents/<name>.md` under `projectRoot` with the canvas rules
+ *     (see `planSubAgentFiles`); `applyWorkflow` writes them only once the
+ *     revision check passed, and removes them again if the workflow write
+ *     fails.
  *   - `listAvailableAgents` walks `process.cwd()/.claude/agents` and
  *     `~/.claude/agents`, treating each `.md` as a single sub-agent.
+ *   - `writeExportFiles` writes under `projectRoot`.
+ *   - `listMcpServers` / `listMcpTools` read the Claude Code MCP config of
+ *     `projectRoot` and list tools through the shared MCP tool cache.
+ *   - `watchWorkflows` watches the file's directory and reports changes whose
+ *     content differs from what this adapter last wrote or saw, so the
+ *     server's own writes are not reported twice.
  */
 
 import { createHash } from 'node:crypto';
+import { type FSWatcher, watch as watchFs } from 'node:fs';
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import type { Workflow } from '@cc-wf-studio/core';
+import {
+  CLAUDE_CODE_EXPORT_DIRS,
+  generateSubAgentFile,
+  migrateWorkflowWithReport,
+  nodeNameToFileName,
+  type PlannedExportFile,
+  type ProjectConfig,
+  type SubAgentNode,
+  type Workflow,
+} from '@cc-wf-studio/core';
+import { writeExportFilesToRoot } from './export.js';
+import { getClaudeMcpServerTools, listClaudeMcpServers } from './mcp-servers.js';
+import { readProjectConfig } from './project-config.js';
 import type {
   AgentCommandInfo,
   ApplyWorkflowOptions,
@@ -30,8 +55,13 @@ import type {
   GetWorkflowSchemaResult,
   HighlightResult,
   ListAvailableAgentsResult,
+  ListMcpToolsResult,
+  McpServerSummary,
   PlannedSubAgentFile,
+  WorkflowChange,
   WorkflowIoAdapter,
+  WriteExportFilesOptions,
+  WriteExportFilesResult,
 } from './types.js';
 
 export interface FileWorkflowAdapterOptions {
@@ -39,15 +69,29 @@ export interface FileWorkflowAdapterOptions {
   filePath: string;
   /** Base directory used to resolve project-scope sub-agent files. Defaults to `process.cwd()`. */
   projectRoot?: string;
+  /** Write `.claude/agents/*.md` for inline SubAgent nodes on apply, like the canvas. Default: false. */
+  createSubAgentFiles?: boolean;
+}
+
+/** Result of `FileWorkflowAdapter.syncRevision`. */
+export interface RevisionSync {
+  /** The file differs from the last revision this adapter wrote or saw. */
+  changed: boolean;
+  existed: boolean;
+  exists: boolean;
 }
 
 export class FileWorkflowAdapter implements WorkflowIoAdapter {
   private readonly filePath: string;
   private readonly projectRoot: string;
+  private readonly createSubAgentFiles: boolean;
+  /** Last revision written or seen by `syncRevision`; `null` when the file was missing. */
+  private lastRevision: string | null = null;
 
   constructor(options: FileWorkflowAdapterOptions) {
     this.filePath = path.resolve(options.filePath);
     this.projectRoot = options.projectRoot ?? process.cwd();
+    this.createSubAgentFiles = options.createSubAgentFiles ?? false;
   }
 
   async getCurrentWorkflow(): Promise<GetCurrentWorkflowResult> {
@@ -61,10 +105,11 @@ export class FileWorkflowAdapter implements WorkflowIoAdapter {
       }
       throw error;
     }
-    const workflow = JSON.parse(raw) as Workflow;
+    const { workflow, report } = migrateWorkflowWithReport(JSON.parse(raw) as Workflow);
     return {
       workflow,
       revision: computeRevision(raw),
+      ...(report.migrated ? { migration: report } : {}),
     };
   }
 
@@ -84,11 +129,20 @@ export class FileWorkflowAdapter implements WorkflowIoAdapter {
       }
     }
 
+    const created = this.createSubAgentFiles
+      ? await writePlannedSubAgentFiles(workflow, opts.plannedFiles ?? [])
+      : [];
     const serialised = `${JSON.stringify(workflow, null, 2)}\n`;
-    await this.atomicWrite(serialised);
+    try {
+      await this.atomicWrite(serialised);
+    } catch (error) {
+      await Promise.all(created.map((filePath) => fs.rm(filePath, { force: true })));
+      throw error;
+    }
+    this.lastRevision = computeRevision(serialised);
     return {
       success: true,
-      revision: computeRevision(serialised),
+      revision: this.lastRevision,
     };
   }
 
@@ -100,35 +154,67 @@ export class FileWorkflowAdapter implements WorkflowIoAdapter {
   }
 
   async getWorkflowSchemaToon(): Promise<GetWorkflowSchemaResult> {
-    try {
-      const url = import.meta.resolve('@cc-wf-studio/core/resources/workflow-schema.toon');
-      const schemaPath = fileURLToPath(url);
-      const schema = await fs.readFile(schemaPath, 'utf-8');
-      return { success: true, schema };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
-    }
+    return readWorkflowSchemaToon();
   }
 
   async listAvailableAgents(includeContent: boolean): Promise<ListAvailableAgentsResult> {
-    const userDir = path.join(os.homedir(), '.claude', 'agents');
-    const projectDir = path.join(this.projectRoot, '.claude', 'agents');
+    return listAgentFiles(this.projectRoot, includeContent);
+  }
 
-    const [user, project] = await Promise.all([
-      scanAgentDir(userDir, 'user', includeContent),
-      scanAgentDir(projectDir, 'project', includeContent),
-    ]);
+  async planAndPersistSubAgentFiles(workflow: Workflow): Promise<PlannedSubAgentFile[]> {
+    // Off by default: AI clients then supply complete commandFilePath on
+    // SubAgent nodes, or leave them inline for export to materialise.
+    if (!this.createSubAgentFiles) return [];
+    return planSubAgentFiles(this.projectRoot, workflow);
+  }
+
+  async writeExportFiles(
+    files: PlannedExportFile[],
+    opts: WriteExportFilesOptions
+  ): Promise<WriteExportFilesResult> {
+    return writeExportFilesToRoot(this.projectRoot, files, opts);
+  }
+
+  async getProjectConfig(): Promise<ProjectConfig> {
+    return readProjectConfig(this.projectRoot);
+  }
 
-    return { user, project };
+  async listMcpServers(): Promise<McpServerSummary[]> {
+    return listClaudeMcpServers(this.projectRoot);
   }
 
-  async planAndPersistSubAgentFiles(_workflow: Workflow): Promise<PlannedSubAgentFile[]> {
-    // File mode defers auto-creation. AI clients should supply complete
-    // commandFilePath on SubAgent nodes when running through the stdio bin.
-    return [];
+  async listMcpTools(serverId: string, opts: { refresh: boolean }): Promise<ListMcpToolsResult> {
+    return getClaudeMcpServerTools(this.projectRoot, serverId, opts);
+  }
+
+  watchWorkflows(listener: (change: WorkflowChange) => void): () => void {
+    const fileName = path.basename(this.filePath);
+    this.syncRevision().catch(() => {});
+    return watchDirectory(path.dirname(this.filePath), (changed) => {
+      if (changed !== fileName) return;
+      this.syncRevision().then(
+        (sync) => {
+          if (sync.changed) listener({});
+        },
+        () => {}
+      );
+    });
+  }
+
+  /**
+   * Re-read the file and remember its revision. Watchers use it to tell
+   * outside edits from the echo of this adapter's own writes.
+   */
+  async syncRevision(): Promise<RevisionSync> {
+    const content = await this.safeRead();
+    const revision = content === null ? null : computeRevision(content);
+    const previous = this.lastRevision;
+    this.lastRevision = revision;
+    return {
+      changed: revision !== previous,
+      existed: previous !== null,
+      exists: revision !== null,
+    };
   }
 
   // ---------------------------------------------------------------------
@@ -151,10 +237,187 @@ export class FileWorkflowAdapter implements WorkflowIoAdapter {
   }
 }
 
-function computeRevision(content: string): string {
+// The helpers below are shared with `DirectoryWorkflowAdapter`; they are not
+// part of the package's public API.
+
+export function computeRevision(content: string): string {
   return `sha256:${createHash('sha256').update(content).digest('hex')}`;
 }
 
+/** Quiet period before a file's change is reported; editors save in several steps. */
+const WATCH_DEBOUNCE_MS = 50;
+
+/**
+ * Watch the files directly inside `dirPath` and call `onChange` once per
+ * burst of events on a file. The watcher does not keep the process alive;
+ * a directory that does not exist is not watched.
+ */
+export function watchDirectory(dirPath: string, onChange: (fileName: string) => void): () => void {
+  let watcher: FSWatcher;
+  try {
+    watcher = watchFs(dirPath, { persistent: false });
+  } catch {
+    return () => {};
+  }
+  const timers = new Map<string, NodeJS.Timeout>();
+  watcher.on('change', (_event, fileName) => {
+    if (typeof fileName !== 'string') return;
+    clearTimeout(timers.get(fileName));
+    const timer = setTimeout(() => {
+      timers.delete(fileName);
+      onChange(fileName);
+    }, WATCH_DEBOUNCE_MS);
+    timers.set(fileName, timer.unref());
+  });
+  watcher.on('error', () => watcher.close());
+  return () => {
+    watcher.close();
+    for (const timer of timers.values()) clearTimeout(timer);
+    timers.clear();
+  };
+}
+
+export async function readWorkflowSchemaToon(): Promise<GetWorkflowSchemaResult> {
+  try {
+    const url = import.meta.resolve('@cc-wf-studio/core/resources/workflow-schema.toon');
+    const schemaPath = fileURLToPath(url);
+    const schema = await fs.readFile(schemaPath, 'utf-8');
+    return { success: true, schema };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Plan `<projectRoot>/.claude/agents/<name>.md` for every inline SubAgent
+ * node (no `commandFilePath`, `pluginName` or `builtInType`), including the
+ * ones inside Sub-Agent Flows, and point the
+ * node at it (`commandFilePath` absolute, `commandScope: 'project'`), the
+ * way the canvas's "create sub-agent" flow does. Unlike the canvas, existing
+ * files are never overwritten: a file with other contents, or a second node
+ * mapping to the same name, is reported as a collision and the node stays
+ * inline. A file with identical contents is reused. Nothing is written here;
+ * see `writePlannedSubAgentFiles`.
+ */
+export async function planSubAgentFiles(
+  projectRoot: string,
+  workflow: Workflow
+): Promise<PlannedSubAgentFile[]> {
+  const agentsDir = path.join(projectRoot, ...CLAUDE_CODE_EXPORT_DIRS.agentsDir.split('/'));
+  const planned: PlannedSubAgentFile[] = [];
+  const claimed = new Set<string>();
+
+  for (const { subAgent, subAgentFlowId } of subAgentNodes(workflow)) {
+    const { commandFilePath, pluginName, builtInType } = subAgent.data;
+    if (commandFilePath || pluginName || builtInType) continue;
+
+    const filePath = path.join(agentsDir, `${nodeNameToFileName(subAgent.name)}.md`);
+    const entry = {
+      nodeId: subAgent.id,
+      nodeName: subAgent.name,
+      filePath,
+      ...(subAgentFlowId !== undefined ? { subAgentFlowId } : {}),
+    };
+    if (claimed.has(filePath)) {
+      planned.push({ ...entry, collision: 'duplicate' });
+      continue;
+    }
+    claimed.add(filePath);
+
+    const existing = await readIfExists(filePath);
+    if (existing !== null && existing !== generateSubAgentFile(subAgent)) {
+      planned.push({ ...entry, collision: 'exists' });
+      continue;
+    }
+    subAgent.data.commandFilePath = filePath;
+    subAgent.data.commandScope = 'project';
+    planned.push(entry);
+  }
+  return planned;
+}
+
+/** SubAgent nodes of the main graph, then of each Sub-Agent Flow. */
+function subAgentNodes(workflow: Workflow): { subAgent: SubAgentNode; subAgentFlowId?: string }[] {
+  const graphs = [
+    { nodes: workflow.nodes },
+    ...(workflow.subAgentFlows ?? []).map((flow) => ({
+      nodes: flow.nodes,
+      subAgentFlowId: flow.id,
+    })),
+  ];
+  return graphs.flatMap(({ nodes, subAgentFlowId }) =>
+    nodes
+      .filter((node) => node.type === 'subAgent')
+      .map((node) => ({ subAgent: node as SubAgentNode, subAgentFlowId }))
+  );
+}
+
+/**
+ * Create the files `planSubAgentFiles` planned for `workflow` (collisions
+ * and files that already exist are skipped).
+ *
+ * @returns Paths of the files created, so a failed apply can remove them
+ */
+async function writePlannedSubAgentFiles(
+  workflow: Workflow,
+  plannedFiles: PlannedSubAgentFile[]
+): Promise<string[]> {
+  const created: string[] = [];
+  try {
+    for (const planned of plannedFiles) {
+      if (planned.collision) continue;
+      const node = subAgentNodes(workflow).find(
+        ({ subAgent, subAgentFlowId }) =>
+          subAgent.id === planned.nodeId && subAgentFlowId === planned.subAgentFlowId
+      )?.subAgent;
+      if (!node) continue;
+      await fs.mkdir(path.dirname(planned.filePath), { recursive: true });
+      try {
+        // 'wx' never replaces a file that appeared since planning.
+        await fs.writeFile(planned.filePath, generateSubAgentFile(node), {
+          encoding: 'utf-8',
+          flag: 'wx',
+        });
+        created.push(planned.filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+    }
+  } catch (error) {
+    await Promise.all(created.map((filePath) => fs.rm(filePath, { force: true })));
+    throw error;
+  }
+  return created;
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/** `~/.claude/agents` (user) and `<projectRoot>/.claude/agents` (project). */
+export async function listAgentFiles(
+  projectRoot: string,
+  includeContent: boolean
+): Promise<ListAvailableAgentsResult> {
+  const userDir = path.join(os.homedir(), '.claude', 'agents');
+  const projectDir = path.join(projectRoot, '.claude', 'agents');
+
+  const [user, project] = await Promise.all([
+    scanAgentDir(userDir, 'user', includeContent),
+    scanAgentDir(projectDir, 'project', includeContent),
+  ]);
+
+  return { user, project };
+}
+
 async function scanAgentDir(
   dir: string,
   scope: 'user' | 'project',
@@ -0,0 +1,303 @@
+/**
+ * Streamable HTTP transport for the cc-wf-studio MCP server.
+ *
+ * Shared by the VSCode extension (canvas mode, port 6282) and
+ * `ccwf-mcp --http` / `ccwf mcp --http` (file and directory mode). The
+ * request handler serves `/mcp` only and applies the same guards everywhere:
+ *
+ *   - DNS rebinding protection: the Host header must be `127.0.0.1` or
+ *     `localhost`, and a browser Origin must be a local `http:` origin.
+ *   - Optional bearer token: with `token` set, every request needs
+ *     `Authorization: Bearer <token>`.
+ *
+ * Stateless mode (the default) builds a fresh `McpServer` per request.
+ * With `sessions`, each MCP session (`Mcp-Session-Id`) keeps its own server
+ * and transport, so resource notifications reach the client over the SSE
+ * stream (`GET /mcp`).
+ */
+
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import * as http from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+export type HttpLogLevel = 'INFO' | 'WARN' | 'ERROR';
+
+export interface WorkflowMcpHttpOptions {
+  /** Build the server for one request (stateless) or one session. */
+  createServer: () => McpServer;
+  /** Require `Authorization: Bearer <token>` on every request. */
+  token?: string;
+  /** Keep a server per MCP session instead of per request. Default: false. */
+  sessions?: boolean;
+  /** Diagnostics sink. Default: silent. */
+  log?: (level: HttpLogLevel, message: string, data?: Record<string, unknown>) => void;
+}
+
+export interface WorkflowMcpHttpHandler {
+  (req: http.IncomingMessage, res: http.ServerResponse): Promise<void>;
+  /** Close every open session (no-op in stateless mode). */
+  closeSessions(): Promise<void>;
+}
+
+export const MCP_HTTP_PATH = '/mcp';
+export const MCP_HTTP_HOST = '127.0.0.1';
+/** Default port of `ccwf-mcp --http`; one above the extension's 6282 so both can run. */
+export const DEFAULT_MCP_HTTP_PORT = 6283;
+/** Environment variable `ccwf-mcp --http` reads the bearer token from when `--token` is absent. */
+export const MCP_TOKEN_ENV = 'CCWF_MCP_TOKEN';
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function isLocalOrigin(origin: string): boolean {
+  try {
+    const originUrl = new URL(origin);
+    const originHost = originUrl.hostname.toLowerCase();
+    return (
+      (originHost === '127.0.0.1' || originHost === 'localhost') &&
+      originUrl.protocol === 'http:'
+    );
+  } catch {
+    return false;
+  }
+}
+
+function hasToken(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Build the `/mcp` request handler. Mount it on any `http.Server`. */
+export function createWorkflowMcpHttpHandler(
+  options: WorkflowMcpHttpOptions
+): WorkflowMcpHttpHandler {
+  const log = options.log ?? (() => {});
+  const sessions = new Map<string, Session>();
+
+  const handleStateless = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> => {
+    // Per-request server (stateless transport, connect() is one-shot).
+    const server = options.createServer();
+    try {
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } finally {
+      await server.close().catch(() => {});
+    }
+  };
+
+  const handleSession = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJson(res, 404, {
+          jsonrpc: '2.0',
+          error: { code: -32001, message: 'Session not found' },
+          id: null,
+        });
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    // No session yet: only an initialize request may open one. The transport
+    // rejects anything else, in which case the server is discarded.
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+        log('INFO', 'MCP Server: Session opened', { sessionId: id });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        log('INFO', 'MCP Server: Session closed', { sessionId: transport.sessionId });
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+    if (!transport.sessionId) {
+      await server.close().catch(() => {});
+    }
+  };
+
+  const handler = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    // DNS rebinding protection: validate Host header
+    const host = (req.headers.host || '').split(':')[0];
+    if (host !== '127.0.0.1' && host !== 'localhost') {
+      log('WARN', 'MCP Server: Rejected request with invalid Host header', {
+        host: req.headers.host,
+      });
+      sendJson(res, 403, { error: 'Forbidden' });
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !isLocalOrigin(origin)) {
+      log('WARN', 'MCP Server: Rejected request with invalid Origin header', { origin });
+      sendJson(res, 403, { error: 'Forbidden' });
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${MCP_HTTP_HOST}`);
+    if (url.pathname !== MCP_HTTP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (options.token !== undefined && !hasToken(req, options.token)) {
+      log('WARN', 'MCP Server: Rejected request without a valid bearer token');
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (req.method !== 'POST' && req.method !== 'GET' && req.method !== 'DELETE') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    try {
+      if (options.sessions) {
+        await handleSession(req, res);
+      } else {
+        await handleStateless(req, res);
+      }
+    } catch (error) {
+      log('ERROR', 'MCP Server: Failed to handle request', {
+        method: req.method,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  };
+
+  return Object.assign(handler, {
+    closeSessions: async (): Promise<void> => {
+      const open = [...sessions.values()];
+      sessions.clear();
+      await Promise.all(open.map((session) => session.server.close().catch(() => {})));
+    },
+  });
+}
+
+export interface StartWorkflowMcpHttpServerOptions extends WorkflowMcpHttpOptions {
+  /** Port on 127.0.0.1; 0 picks a free one. */
+  port: number;
+}
+
+export interface RunningWorkflowMcpHttpServer {
+  /** Actual port (differs from the requested one when it was 0). */
+  port: number;
+  /** `http://127.0.0.1:<port>/mcp` */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Listen on `127.0.0.1:<port>` with the `/mcp` handler. Used by the
+ * standalone bin; the VSCode extension mounts the handler itself to add its
+ * port fallback.
+ */
+export async function startWorkflowMcpHttpServer(
+  options: StartWorkflowMcpHttpServerOptions
+): Promise<RunningWorkflowMcpHttpServer> {
+  const handler = createWorkflowMcpHttpHandler(options);
+  const httpServer = http.createServer((req, res) => {
+    void handler(req, res);
+  });
+
+  const port = await new Promise<number>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, MCP_HTTP_HOST, () => {
+      const address = httpServer.address();
+      if (address && typeof address !== 'string') {
+        resolve(address.port);
+      } else {
+        reject(new Error('Failed to get server address'));
+      }
+    });
+  });
+
+  return {
+    port,
+    url: `http://${MCP_HTTP_HOST}:${port}${MCP_HTTP_PATH}`,
+    close: async () => {
+      await handler.closeSessions();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+export interface ServeWorkflowMcpHttpOptions {
+  /** Build the server for one MCP session. */
+  createServer: () => McpServer;
+  /** Port on 127.0.0.1; 0 picks a free one. */
+  port: number;
+  /** Bearer token; falls back to `$CCWF_MCP_TOKEN`. */
+  token?: string;
+  /** Command name used in the "listening on" line, e.g. `ccwf-mcp`. */
+  name: string;
+}
+
+/**
+ * Command-line HTTP mode shared by `ccwf-mcp --http` and `ccwf mcp --http`:
+ * start a session-mode server, report warnings and errors on stderr, print
+ * where it listens, and close it cleanly on SIGINT / SIGTERM.
+ */
+export async function serveWorkflowMcpHttp(
+  options: ServeWorkflowMcpHttpOptions
+): Promise<RunningWorkflowMcpHttpServer> {
+  const token = options.token || process.env[MCP_TOKEN_ENV] || undefined;
+  const running = await startWorkflowMcpHttpServer({
+    createServer: options.createServer,
+    port: options.port,
+    token,
+    sessions: true,
+    log: (level, message, data) => {
+      if (level !== 'INFO') {
+        const details = data ? ` ${JSON.stringify(data)}` : '';
+        process.stderr.write(`[${level}] ${message}${details}\n`);
+      }
+    },
+  });
+  process.stderr.write(
+    `${options.name} listening on ${running.url}${token ? ' (bearer token required)' : ''}\n`
+  );
+
+  const shutdown = (): void => {
+    running.close().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+  return running;
+}
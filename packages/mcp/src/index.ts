@@ -10,17 +10,83 @@ export type {
   AgentCommandInfo,
   ApplyWorkflowOptions,
   ApplyWorkflowResult,
+  CreateWorkflowResult,
+  DeleteWorkflowResult,
   GetCurrentWorkflowResult,
   GetWorkflowSchemaResult,
   HighlightResult,
   ListAvailableAgentsResult,
+  ListMcpToolsResult,
+  McpServerSummary,
   PlannedSubAgentFile,
+  WorkflowChange,
   WorkflowIoAdapter,
+  WorkflowLibrary,
+  WorkflowSummary,
+  WriteExportFilesOptions,
+  WriteExportFilesResult,
 } from './types.js';
 
 export { registerWorkflowTools } from './tools.js';
+export {
+  CURRENT_WORKFLOW_URI,
+  registerWorkflowResources,
+  type RegisterWorkflowResourcesOptions,
+  WORKFLOW_SCHEMA_URI,
+  type WorkflowResourceNotifier,
+  WorkflowResourceRegistry,
+  workflowResourceUri,
+} from './resources.js';
+export {
+  EXPORT_AGENTS,
+  type ExportAgent,
+  type ExportPlan,
+  planExportForAgent,
+  writeExportFilesToRoot,
+} from './export.js';
 export {
   createWorkflowMcpServer,
   type CreateWorkflowMcpServerOptions,
 } from './factory.js';
+export { readProjectConfig } from './project-config.js';
+export {
+  type CachedMcpTool,
+  clearMcpCache,
+  getMcpCacheDir,
+  getMcpToolsCached,
+  hashMcpCacheKey,
+  MCP_CACHE_MAX_AGE_MS,
+  MCP_CACHE_TTL_MS,
+  type McpCacheKind,
+  type McpCacheOptions,
+  type McpCacheResult,
+  type McpServerConnection,
+  withMcpCache,
+} from './mcp-cache.js';
+export {
+  fetchMcpServerTools,
+  getClaudeMcpServerTools,
+  getMcpServerToolsCached,
+  listClaudeMcpServers,
+  type McpServerConfig,
+  readClaudeMcpServers,
+} from './mcp-servers.js';
 export { FileWorkflowAdapter, type FileWorkflowAdapterOptions } from './file-adapter.js';
+export {
+  createWorkflowMcpHttpHandler,
+  DEFAULT_MCP_HTTP_PORT,
+  type HttpLogLevel,
+  MCP_HTTP_PATH,
+  MCP_TOKEN_ENV,
+  type RunningWorkflowMcpHttpServer,
+  type ServeWorkflowMcpHttpOptions,
+  serveWorkflowMcpHttp,
+  startWorkflowMcpHttpServer,
+  type StartWorkflowMcpHttpServerOptions,
+  type WorkflowMcpHttpHandler,
+  type WorkflowMcpHttpOptions,
+} from './http.js';
+export {
+  DirectoryWorkflowAdapter,
+  type DirectoryWorkflowAdapterOptions,
+} from './directory-adapter.js';
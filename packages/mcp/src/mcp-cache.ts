@@ -0,0 +1,217 @@
+/**
+ * Disk cache for what MCP servers report (tool lists with their input
+ * schemas, the server list), so a restart does not mean spawning every
+ * server again. The VSCode extension reads and fills it when the MCP node
+ * dialog lists servers and tools; `ccwf mcp-snapshot` fills it with every
+ * tool list it fetches; the `list_mcp_tools` tool of `ccwf-mcp` reads and
+ * fills it like the dialog does.
+ *
+ * Entries live in `~/.cache/cc-wf-studio/mcp/` (`$XDG_CACHE_HOME`, or
+ * `CCWF_CACHE_DIR` to move it), one file per entry, keyed by a hash of what
+ * was asked — for tools, the server's connection config — so editing a
+ * server's command, env or headers starts a fresh entry. Secrets only go
+ * into the hash, never into a file.
+ *
+ * Reads are stale-while-revalidate: an entry younger than `ttlMs` is
+ * returned as is; an older one (up to `maxAgeMs`) is returned at once and
+ * refreshed in the background; anything older, or missing, is fetched.
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+/** Entries younger than this are served without asking the server. */
+export const MCP_CACHE_TTL_MS = 60 * 60 * 1000;
+/** Entries older than this are ignored. */
+export const MCP_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type McpCacheKind = 'tools' | 'servers';
+
+/** What decides which server a tools entry belongs to; only its hash is stored. */
+export interface McpServerConnection {
+  type: 'stdio' | 'http' | 'sse';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+/** A tool as `tools/list` returns it. */
+export interface CachedMcpTool {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpCacheOptions<T> {
+  /** Fetch even when a fresh entry exists (a "refresh" click). */
+  refresh?: boolean;
+  ttlMs?: number;
+  maxAgeMs?: number;
+  /** Called with the new value after a background refresh of a stale entry. */
+  onBackgroundRefresh?: (value: T) => void;
+}
+
+export interface McpCacheResult<T> {
+  value: T;
+  fetchedAt: Date;
+  /** `cache` fresh entry, `stale` old entry being refreshed, `live` just fetched. */
+  source: 'cache' | 'stale' | 'live';
+}
+
+interface CacheFile<T> {
+  version: 1;
+  kind: McpCacheKind;
+  /** Server id (tools) or workspace path (servers), for clearing. */
+  label: string;
+  fetchedAt: string;
+  value: T;
+}
+
+/** Fetches in flight, by entry path, so concurrent callers share one connection. */
+const inFlight = new Map<string, Promise<unknown>>();
+
+export function getMcpCacheDir(): string {
+  if (process.env.CCWF_CACHE_DIR) return path.join(process.env.CCWF_CACHE_DIR, 'mcp');
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'cc-wf-studio', 'mcp');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+}
+
+/** Cache key for any JSON value; key order does not matter. */
+export function hashMcpCacheKey(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex').slice(0, 24);
+}
+
+function entryPath(kind: McpCacheKind, key: string): string {
+  return path.join(getMcpCacheDir(), `${kind}-${key}.json`);
+}
+
+async function readEntry<T>(filePath: string): Promise<CacheFile<T> | undefined> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheFile<T>;
+    return parsed.version === 1 && typeof parsed.fetchedAt === 'string' ? parsed : undefined;
+  } catch {
+    // Missing or unreadable: a cache miss
+    return undefined;
+  }
+}
+
+async function writeEntry<T>(filePath: string, file: CacheFile<T>): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Write then rename, so a reader in another process never sees half a file
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(file), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+function fetchAndStore<T>(
+  filePath: string,
+  kind: McpCacheKind,
+  label: string,
+  fetch: () => Promise<T>
+): Promise<CacheFile<T>> {
+  const pending = inFlight.get(filePath);
+  if (pending) return pending as Promise<CacheFile<T>>;
+
+  const promise = (async () => {
+    const value = await fetch();
+    const file: CacheFile<T> = {
+      version: 1,
+      kind,
+      label,
+      fetchedAt: new Date().toISOString(),
+      value,
+    };
+    // A cache that cannot be written is only slower
+    await writeEntry(filePath, file).catch(() => {});
+    return file;
+  })().finally(() => inFlight.delete(filePath));
+  inFlight.set(filePath, promise);
+  return promise;
+}
+
+/**
+ * `fetch`'s value through the disk cache. Errors from `fetch` are thrown
+ * (and nothing is cached); a failed background refresh leaves the stale
+ * entry in place for the next call to retry.
+ */
+export async function withMcpCache<T>(
+  kind: McpCacheKind,
+  key: string,
+  label: string,
+  fetch: () => Promise<T>,
+  options: McpCacheOptions<T> = {}
+): Promise<McpCacheResult<T>> {
+  const filePath = entryPath(kind, key);
+
+  if (!options.refresh) {
+    const entry = await readEntry<T>(filePath);
+    const age = entry ? Date.now() - Date.parse(entry.fetchedAt) : Number.NaN;
+    if (entry && age >= 0 && age < (options.ttlMs ?? MCP_CACHE_TTL_MS)) {
+      return { value: entry.value, fetchedAt: new Date(entry.fetchedAt), source: 'cache' };
+    }
+    if (entry && age >= 0 && age < (options.maxAgeMs ?? MCP_CACHE_MAX_AGE_MS)) {
+      fetchAndStore(filePath, kind, label, fetch).then(
+        (file) => options.onBackgroundRefresh?.(file.value),
+        () => {}
+      );
+      return { value: entry.value, fetchedAt: new Date(entry.fetchedAt), source: 'stale' };
+    }
+  }
+
+  const file = await fetchAndStore(filePath, kind, label, fetch);
+  return { value: file.value, fetchedAt: new Date(file.fetchedAt), source: 'live' };
+}
+
+/** A server's tools through the disk cache, keyed by its connection config. */
+export function getMcpToolsCached(
+  serverId: string,
+  connection: McpServerConnection,
+  fetch: () => Promise<CachedMcpTool[]>,
+  options?: McpCacheOptions<CachedMcpTool[]>
+): Promise<McpCacheResult<CachedMcpTool[]>> {
+  return withMcpCache('tools', hashMcpCacheKey(connection), serverId, fetch, options);
+}
+
+/**
+ * Delete cache entries: all of them, or those of one kind and/or label
+ * (e.g. every tools entry of one server id). Returns how many were deleted.
+ */
+export async function clearMcpCache(
+  filter: { kind?: McpCacheKind; label?: string } = {}
+): Promise<number> {
+  const dir = getMcpCacheDir();
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return 0;
+  }
+
+  let deleted = 0;
+  for (const name of names) {
+    if (!name.endsWith('.json')) continue;
+    if (filter.kind && !name.startsWith(`${filter.kind}-`)) continue;
+    const filePath = path.join(dir, name);
+    if (filter.label !== undefined && (await readEntry(filePath))?.label !== filter.label) continue;
+    try {
+      await fs.unlink(filePath);
+      deleted++;
+    } catch {
+      // Already gone (another process cleared it)
+    }
+  }
+  return deleted;
+}
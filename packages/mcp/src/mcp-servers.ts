@@ -0,0 +1,199 @@
+/**
+ * Claude Code MCP server configs, and listing a server's tools through the
+ * MCP tool cache (`./mcp-cache.ts`). Used by the `list_mcp_tools` tool of
+ * the file and directory adapters, and by `ccwf mcp-snapshot`.
+ *
+ * Servers are looked up the way Claude Code (and the VSCode extension's
+ * `mcp-config-reader`) resolves them, first match wins:
+ *
+ * 1. `<project>/.mcp.json`
+ * 2. `~/.mcp.json`
+ * 3. `~/.claude.json` → `projects[<project>].mcpServers`
+ * 4. `~/.claude.json` → `mcpServers`
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  type CachedMcpTool,
+  getMcpToolsCached,
+  type McpCacheOptions,
+  type McpCacheResult,
+} from './mcp-cache.js';
+import type { McpServerSummary } from './types.js';
+
+export interface McpServerConfig {
+  type: 'stdio' | 'http' | 'sse';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  /** Config file the server was found in, for messages. */
+  configPath: string;
+}
+
+type RawServers = Record<string, Partial<McpServerConfig>>;
+
+const CONNECT_TIMEOUT_MS = 15_000;
+
+async function readJson(filePath: string): Promise<Record<string, unknown> | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as Record<string, unknown>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw new Error(
+      `Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/** Infer a missing `type` from `command` / `url`; `streamable-http` is `http`. */
+function normalizeServerConfig(
+  raw: Partial<McpServerConfig>,
+  configPath: string
+): McpServerConfig | undefined {
+  const declared = raw.type as string | undefined;
+  const type = declared === 'streamable-http' ? 'http' : declared;
+  if (type === 'stdio' || type === 'http' || type === 'sse') return { ...raw, type, configPath };
+  if (type) return undefined;
+  if (raw.command) return { ...raw, type: 'stdio', configPath };
+  if (raw.url) return { ...raw, type: 'http', configPath };
+  return undefined;
+}
+
+/**
+ * Every Claude Code MCP server visible from `projectRoot`, keyed by server
+ * id. Entries without a usable `command` or `url` are skipped.
+ */
+export async function readClaudeMcpServers(
+  projectRoot: string
+): Promise<Record<string, McpServerConfig>> {
+  const projectPath = path.join(projectRoot, '.mcp.json');
+  const userPath = path.join(os.homedir(), '.mcp.json');
+  const legacyPath = path.join(os.homedir(), '.claude.json');
+  const legacy = await readJson(legacyPath);
+  const projects = legacy?.projects as Record<string, { mcpServers?: RawServers }> | undefined;
+
+  const sources: [RawServers | undefined, string][] = [
+    [(await readJson(projectPath))?.mcpServers as RawServers | undefined, projectPath],
+    [(await readJson(userPath))?.mcpServers as RawServers | undefined, userPath],
+    [projects?.[projectRoot]?.mcpServers, legacyPath],
+    [legacy?.mcpServers as RawServers | undefined, legacyPath],
+  ];
+
+  const servers: Record<string, McpServerConfig> = {};
+  for (const [raw, configPath] of sources) {
+    for (const [serverId, config] of Object.entries(raw ?? {})) {
+      if (serverId in servers) continue;
+      const normalized = normalizeServerConfig(config, configPath);
+      if (normalized) servers[serverId] = normalized;
+    }
+  }
+  return servers;
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), CONNECT_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Connect to a server and list its tools with their input schemas. `sse`
+ * servers are reached over Streamable HTTP, which most of them also serve.
+ */
+export async function fetchMcpServerTools(config: McpServerConfig): Promise<CachedMcpTool[]> {
+  const client = new Client({ name: 'cc-wf-studio', version: '1.0.0' }, { capabilities: {} });
+  let transport: StdioClientTransport | StreamableHTTPClientTransport;
+  if (config.type === 'stdio') {
+    if (!config.command) throw new Error(`no command configured (${config.configPath})`);
+    transport = new StdioClientTransport({
+      command: config.command,
+      args: config.args ?? [],
+      env: {
+        ...(Object.fromEntries(
+          Object.entries(process.env).filter(([, value]) => value !== undefined)
+        ) as Record<string, string>),
+        ...config.env,
+      },
+      stderr: 'ignore',
+    });
+  } else {
+    if (!config.url) throw new Error(`no url configured (${config.configPath})`);
+    transport = new StreamableHTTPClientTransport(new URL(config.url), {
+      requestInit: { headers: config.headers },
+    });
+  }
+
+  try {
+    await withTimeout(
+      client.connect(transport),
+      `connection timed out after ${CONNECT_TIMEOUT_MS / 1000}s`
+    );
+    const tools: CachedMcpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined, {
+        timeout: CONNECT_TIMEOUT_MS,
+      });
+      for (const tool of page.tools) {
+        tools.push({
+          name: tool.name,
+          ...(tool.description ? { description: tool.description } : {}),
+          inputSchema: tool.inputSchema,
+        });
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  } finally {
+    await client.close().catch(() => {});
+  }
+}
+
+/**
+ * A server's tools through the MCP tool cache, keyed by its connection
+ * config; fetched live on a miss, on an expired entry or with `refresh`.
+ */
+export function getMcpServerToolsCached(
+  serverId: string,
+  config: McpServerConfig,
+  options?: McpCacheOptions<CachedMcpTool[]>
+): Promise<McpCacheResult<CachedMcpTool[]>> {
+  const { type, command, args, env, url, headers } = config;
+  return getMcpToolsCached(
+    serverId,
+    { type, command, args, env, url, headers },
+    () => fetchMcpServerTools(config),
+    options
+  );
+}
+
+/** The servers of `readClaudeMcpServers`, sorted by id. */
+export async function listClaudeMcpServers(projectRoot: string): Promise<McpServerSummary[]> {
+  return Object.entries(await readClaudeMcpServers(projectRoot))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([serverId, { type, configPath }]) => ({ serverId, type, configPath }));
+}
+
+/** Tools of a server configured for `projectRoot`. Throws for an unknown server. */
+export async function getClaudeMcpServerTools(
+  projectRoot: string,
+  serverId: string,
+  options?: McpCacheOptions<CachedMcpTool[]>
+): Promise<McpCacheResult<CachedMcpTool[]>> {
+  const config = (await readClaudeMcpServers(projectRoot))[serverId];
+  if (!config) {
+    throw new Error(
+      `MCP server "${serverId}" is not configured in .mcp.json, ~/.mcp.json or ~/.claude.json.`
+    );
+  }
+  return getMcpServerToolsCached(serverId, config, options);
+}
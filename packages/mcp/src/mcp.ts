@@ -1,12 +1,17 @@
 #!/usr/bin/env node
 /**
- * `ccwf-mcp` — standalone stdio MCP server backed by a workflow file.
+ * `ccwf-mcp` — standalone MCP server backed by a workflow file or a
+ * directory of workflows. Speaks stdio by default, Streamable HTTP on
+ * 127.0.0.1 with `--http`.
  *
  * Usage:
  *   npx @cc-wf-studio/mcp --file path/to/workflow.json
+ *   npx @cc-wf-studio/mcp --dir .vscode/workflows
+ *   npx @cc-wf-studio/mcp --dir .vscode/workflows --http --port 6283 --token <secret>
  *
- * Reads/writes the supplied file in place. See the file-adapter for behaviour
- * details (sha256 revisions, no auto-create of sub-agent .md files, …).
+ * Reads/writes the workflow files in place. See the file-adapter and
+ * directory-adapter for behaviour details (sha256 revisions, sub-agent .md
+ * files only with `--create-agent-files`, …).
  */
 
 import { readFileSync } from 'node:fs';
@@ -14,8 +19,11 @@ import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { parseArgs } from 'node:util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { DirectoryWorkflowAdapter } from './directory-adapter.js';
 import { createWorkflowMcpServer } from './factory.js';
 import { FileWorkflowAdapter } from './file-adapter.js';
+import { DEFAULT_MCP_HTTP_PORT, MCP_TOKEN_ENV, serveWorkflowMcpHttp } from './http.js';
+import { WorkflowResourceRegistry } from './resources.js';
 
 // Read version from package.json so `ccwf-mcp --version` stays in sync with
 // the published npm version. The compiled entry sits at `<pkg>/dist/mcp.js`,
@@ -25,14 +33,27 @@ const { version: pkgVersion } = JSON.parse(readFileSync(pkgJsonPath, 'utf8')) as
   version: string;
 };
 
-const USAGE = `Usage: ccwf-mcp --file <path-to-workflow.json> [--project-root <dir>]`;
+const USAGE = `Usage: ccwf-mcp (--file <path-to-workflow.json> | --dir <workflows-dir>) [--project-root <dir>]
+                [--create-agent-files] [--http [--port <n>] [--token <token>]]
+
+  --create-agent-files
+             On apply, write <project-root>/.claude/agents/<name>.md for inline
+             SubAgent nodes (as the canvas does). Existing files are never replaced.
+  --http     Serve Streamable HTTP on http://127.0.0.1:<port>/mcp instead of stdio.
+  --port     HTTP port (default ${DEFAULT_MCP_HTTP_PORT}; 0 picks a free one).
+  --token    Require "Authorization: Bearer <token>". Defaults to $${MCP_TOKEN_ENV}.`;
 
 async function main(): Promise<void> {
   let parsed: ReturnType<typeof parseArgs<typeof argSpec>>;
   const argSpec = {
     options: {
       file: { type: 'string' as const },
+      dir: { type: 'string' as const },
       'project-root': { type: 'string' as const },
+      'create-agent-files': { type: 'boolean' as const },
+      http: { type: 'boolean' as const },
+      port: { type: 'string' as const },
+      token: { type: 'string' as const },
       help: { type: 'boolean' as const, short: 'h' },
       version: { type: 'boolean' as const, short: 'V' },
     },
@@ -56,20 +77,61 @@ async function main(): Promise<void> {
   }
 
   const filePath = parsed.values.file;
-  if (typeof filePath !== 'string' || filePath.length === 0) {
-    process.stderr.write(`error: --file is required\n${USAGE}\n`);
+  const dirPath = parsed.values.dir;
+  const hasFile = typeof filePath === 'string' && filePath.length > 0;
+  const hasDir = typeof dirPath === 'string' && dirPath.length > 0;
+  if (hasFile === hasDir) {
+    process.stderr.write(`error: exactly one of --file or --dir is required\n${USAGE}\n`);
     process.exit(2);
   }
   const projectRoot = parsed.values['project-root'];
+  const projectRootOption = typeof projectRoot === 'string' ? projectRoot : undefined;
+  const createSubAgentFiles = parsed.values['create-agent-files'] === true;
 
-  const adapter = new FileWorkflowAdapter({
-    filePath,
-    projectRoot: typeof projectRoot === 'string' ? projectRoot : undefined,
-  });
+  let createServer: () => ReturnType<typeof createWorkflowMcpServer>;
+  if (hasDir) {
+    const adapter = new DirectoryWorkflowAdapter({
+      dirPath: dirPath as string,
+      projectRoot: projectRootOption,
+      createSubAgentFiles,
+    });
+    const resources = new WorkflowResourceRegistry(adapter);
+    resources.watch(adapter);
+    createServer = () => createWorkflowMcpServer(adapter, { library: adapter, resources });
+  } else {
+    const adapter = new FileWorkflowAdapter({
+      filePath: filePath as string,
+      projectRoot: projectRootOption,
+      createSubAgentFiles,
+    });
+    const resources = new WorkflowResourceRegistry();
+    resources.watch(adapter);
+    createServer = () => createWorkflowMcpServer(adapter, { resources });
+  }
 
-  const server = createWorkflowMcpServer(adapter);
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  if (!parsed.values.http) {
+    if (parsed.values.port !== undefined || parsed.values.token !== undefined) {
+      process.stderr.write(`error: --port and --token require --http\n${USAGE}\n`);
+      process.exit(2);
+    }
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+    return;
+  }
+
+  const portOption = parsed.values.port;
+  const port = typeof portOption === 'string' ? Number(portOption) : DEFAULT_MCP_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    process.stderr.write(`error: --port must be an integer between 0 and 65535\n${USAGE}\n`);
+    process.exit(2);
+  }
+  const tokenOption = parsed.values.token;
+  await serveWorkflowMcpHttp({
+    createServer,
+    port,
+    token: typeof tokenOption === 'string' ? tokenOption : undefined,
+    name: 'ccwf-mcp',
+  });
 }
 
 main().catch((error) => {
@@ -0,0 +1,26 @@
+/**
+ * Read `ccwf.config.json` from a project root. Parsing and the schema live
+ * in `@cc-wf-studio/core` (`parseProjectConfig`); this is the fs half that
+ * the bundled adapters, the CLI and the VSCode extension share.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  EMPTY_PROJECT_CONFIG,
+  PROJECT_CONFIG_FILE,
+  type ProjectConfig,
+  parseProjectConfig,
+} from '@cc-wf-studio/core';
+
+/** Parsed config, or the defaults when the file does not exist. */
+export async function readProjectConfig(projectRoot: string): Promise<ProjectConfig> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.join(projectRoot, PROJECT_CONFIG_FILE), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return EMPTY_PROJECT_CONFIG;
+    throw error;
+  }
+  return parseProjectConfig(text);
+}
@@ -0,0 +1,204 @@
+/**
+ * Resource registrations for the cc-wf-studio MCP server.
+ *
+ *   - `ccwf://schema`            — workflow schema (TOON), same as get_workflow_schema
+ *   - `ccwf://workflow/current`  — the current (canvas / file / open) workflow JSON
+ *   - `ccwf://workflows/{id}`    — directory mode only: every workflow in the folder
+ *
+ * Workflow resources support `resources/subscribe`. Subscriptions live in a
+ * `WorkflowResourceRegistry` that every server built for one adapter shares
+ * (one server per HTTP session), so a write made in one session notifies
+ * subscribers in all of them. The tools report their writes to the
+ * registry; `watch()` adds the adapter's outside changes (editor saves,
+ * other processes). The registry sends `notifications/resources/updated`
+ * for subscribed URIs, and `list_changed` when directory-mode workflows are
+ * created or deleted.
+ */
+
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { WorkflowChange, WorkflowIoAdapter, WorkflowLibrary } from './types.js';
+
+export const WORKFLOW_SCHEMA_URI = 'ccwf://schema';
+export const CURRENT_WORKFLOW_URI = 'ccwf://workflow/current';
+const WORKFLOW_URI_PREFIX = 'ccwf://workflows/';
+
+/** URI of one workflow of a directory-mode library. */
+export function workflowResourceUri(workflowId: string): string {
+  return `${WORKFLOW_URI_PREFIX}${encodeURIComponent(workflowId)}`;
+}
+
+export interface WorkflowResourceNotifier {
+  /** A workflow was written. Omit `workflowId` for the current / open workflow. */
+  workflowChanged(workflowId?: string): void;
+  /** Workflows were created or deleted (directory mode). */
+  workflowListChanged(): void;
+}
+
+/** Notifier for servers without resources (e.g. bare `registerWorkflowTools`). */
+export const NOOP_RESOURCE_NOTIFIER: WorkflowResourceNotifier = {
+  workflowChanged: () => {},
+  workflowListChanged: () => {},
+};
+
+/**
+ * Resource subscriptions of every server attached to it. Create one per
+ * adapter and pass it to each `createWorkflowMcpServer` call.
+ */
+export class WorkflowResourceRegistry implements WorkflowResourceNotifier {
+  private readonly subscriptions = new Map<McpServer, Set<string>>();
+
+  constructor(private readonly library?: WorkflowLibrary) {}
+
+  /**
+   * Notify subscribers of the adapter's outside changes. Adapters without
+   * `watchWorkflows` report nothing. Returns a function that stops watching.
+   */
+  watch(adapter: WorkflowIoAdapter): () => void {
+    return (
+      adapter.watchWorkflows?.((change: WorkflowChange) => {
+        if (change.listChanged) this.workflowListChanged();
+        this.workflowChanged(change.workflowId);
+      }) ?? (() => {})
+    );
+  }
+
+  /**
+   * Serve `server`'s subscribe / unsubscribe requests until it closes. Without
+   * `subscribe`, the server only receives `list_changed`.
+   */
+  attach(server: McpServer, subscribe: boolean): void {
+    const uris = new Set<string>();
+    this.subscriptions.set(server, uris);
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+      this.subscriptions.delete(server);
+      onclose?.();
+    };
+    if (!subscribe) return;
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      uris.add(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      uris.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  workflowChanged(workflowId?: string): void {
+    const openId = this.library?.getOpenWorkflowId() ?? null;
+    const id = workflowId ?? openId;
+    if (id !== null) this.sendUpdated(workflowResourceUri(id));
+    if (workflowId === undefined || workflowId === openId) this.sendUpdated(CURRENT_WORKFLOW_URI);
+  }
+
+  workflowListChanged(): void {
+    for (const server of this.subscriptions.keys()) {
+      server.sendResourceListChanged();
+    }
+  }
+
+  private sendUpdated(uri: string): void {
+    for (const [server, uris] of this.subscriptions) {
+      if (!uris.has(uri) || !server.isConnected()) continue;
+      // Notifications are best-effort; a closed transport is not the tool's failure.
+      server.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+  }
+}
+
+export interface RegisterWorkflowResourcesOptions {
+  /** Subscriptions shared with other servers. Default: a registry of this server alone. */
+  registry?: WorkflowResourceRegistry;
+  /**
+   * Advertise and serve `resources/subscribe`. Default: true. Turn it off
+   * for stateless HTTP, where no stream outlives a request to carry the
+   * notifications.
+   */
+  subscribe?: boolean;
+}
+
+/**
+ * Register the schema and workflow resources, plus subscribe / unsubscribe
+ * handlers. Must run before the server connects to a transport.
+ */
+export function registerWorkflowResources(
+  server: McpServer,
+  adapter: WorkflowIoAdapter,
+  library?: WorkflowLibrary,
+  options: RegisterWorkflowResourcesOptions = {}
+): WorkflowResourceNotifier {
+  const subscribe = options.subscribe ?? true;
+  server.server.registerCapabilities({ resources: { subscribe, listChanged: true } });
+
+  server.resource(
+    'workflow-schema',
+    WORKFLOW_SCHEMA_URI,
+    {
+      description: 'Workflow schema documentation in TOON format (same as get_workflow_schema).',
+      mimeType: 'text/plain',
+    },
+    async (uri) => {
+      const result = await adapter.getWorkflowSchemaToon();
+      if (!result.success) throw new Error(result.error);
+      return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: result.schema }] };
+    }
+  );
+
+  server.resource(
+    'current-workflow',
+    CURRENT_WORKFLOW_URI,
+    {
+      description: library
+        ? 'The open workflow JSON (see open_workflow).'
+        : 'The current workflow JSON.',
+      mimeType: 'application/json',
+    },
+    async (uri) => readWorkflowResource(uri.href, adapter)
+  );
+
+  if (library) {
+    server.resource(
+      'workflow',
+      new ResourceTemplate(`${WORKFLOW_URI_PREFIX}{workflowId}`, {
+        list: async () => ({
+          resources: (await library.listWorkflows()).map((summary) => ({
+            uri: workflowResourceUri(summary.workflowId),
+            name: summary.name ?? summary.workflowId,
+            mimeType: 'application/json',
+          })),
+        }),
+      }),
+      { description: 'A workflow JSON from the served directory.', mimeType: 'application/json' },
+      async (uri, { workflowId }) =>
+        readWorkflowResource(
+          uri.href,
+          await library.adapterFor(decodeURIComponent(String(workflowId)))
+        )
+    );
+  }
+
+  const registry = options.registry ?? new WorkflowResourceRegistry(library);
+  registry.attach(server, subscribe);
+  return registry;
+}
+
+async function readWorkflowResource(uri: string, adapter: WorkflowIoAdapter) {
+  const result = await adapter.getCurrentWorkflow();
+  if (!result.workflow) {
+    throw new Error('No workflow is available.');
+  }
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(result.workflow, null, 2),
+      },
+    ],
+  };
+}
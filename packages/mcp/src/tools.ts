@@ -4,19 +4,36 @@
  * Each tool delegates IO to the supplied `WorkflowIoAdapter`. The MCP request
  * shape (name, description, zod schema, response envelope) is preserved
  * byte-for-byte from the previous in-process VSCode implementation so AI
- * clients connected via the existing skill continue to work.
+ * clients connected via the existing skill continue to work; arguments added
+ * since (e.g. `workflowId`) are optional.
  */
 
 import {
   type BaseNode,
+  addWorkflowNodes,
+  connectWorkflowNodes,
+  detectSensitiveData,
+  disconnectWorkflowNodes,
+  EMPTY_PROJECT_CONFIG,
+  type ExportProvider,
+  generateExecutionInstructions,
+  generateMermaidFlowchart,
+  getCustomSensitivePatterns,
+  moveNodesIntoGroup,
   NodeType,
+  redactSensitiveData,
+  removeWorkflowNodes,
+  type SensitiveDataRedaction,
   validateAIGeneratedWorkflow,
   type Workflow,
+  WorkflowEditError,
   type WorkflowNode,
 } from '@cc-wf-studio/core';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import type { WorkflowIoAdapter } from './types.js';
+import { EXPORT_AGENTS, planExportForAgent } from './export.js';
+import { NOOP_RESOURCE_NOTIFIER, type WorkflowResourceNotifier } from './resources.js';
+import type { PlannedSubAgentFile, WorkflowIoAdapter, WorkflowLibrary } from './types.js';
 
 type ToolReply = {
   content: { type: 'text'; text: string }[];
@@ -35,41 +52,332 @@ const fail = (payload: unknown, isError = true): ToolReply => ({
 const errorMessage = (error: unknown): string =>
   error instanceof Error ? error.message : String(error);
 
+interface ToolContext {
+  /** Adapter for workflow-independent calls (schema, agents, highlight). */
+  adapter: WorkflowIoAdapter;
+  /**
+   * Adapter a per-workflow call acts on: the library's workflow for an
+   * explicit `workflowId`, `adapter` otherwise.
+   */
+  resolve: (workflowId?: string) => Promise<WorkflowIoAdapter>;
+  /** Error text when there is no workflow to act on. */
+  noWorkflowMessage: string;
+  /** Resource change notifications for successful writes. */
+  resources: WorkflowResourceNotifier;
+}
+
+/**
+ * Register the workflow tools. With a `library` (directory mode), also
+ * register `list_workflows` / `open_workflow` / `create_workflow` /
+ * `delete_workflow` and honour the per-workflow tools' `workflowId`.
+ * `resources` (from `registerWorkflowResources`) is told about every write.
+ */
 export function registerWorkflowTools(
   server: McpServer,
-  adapter: WorkflowIoAdapter
+  adapter: WorkflowIoAdapter,
+  library?: WorkflowLibrary,
+  resources: WorkflowResourceNotifier = NOOP_RESOURCE_NOTIFIER
 ): void {
-  registerGetCurrentWorkflow(server, adapter);
-  registerGetWorkflowSchema(server, adapter);
-  registerApplyWorkflow(server, adapter);
-  registerListAvailableAgents(server, adapter);
-  registerUpdateNodes(server, adapter);
-  registerHighlightGroupNode(server, adapter);
+  const ctx: ToolContext = {
+    adapter,
+    resolve: async (workflowId) => {
+      if (workflowId === undefined) return adapter;
+      if (!library) {
+        throw new Error(
+          'workflowId is only supported when the server serves a workflow directory (ccwf-mcp --dir).'
+        );
+      }
+      return library.adapterFor(workflowId);
+    },
+    noWorkflowMessage: library ? NO_OPEN_WORKFLOW : NO_ACTIVE_WORKFLOW,
+    resources,
+  };
+
+  registerGetCurrentWorkflow(server, ctx);
+  registerGetWorkflowSchema(server, ctx);
+  registerApplyWorkflow(server, ctx);
+  registerListAvailableAgents(server, ctx);
+  registerListMcpTools(server, ctx);
+  registerUpdateNodes(server, ctx);
+  registerAddNodes(server, ctx);
+  registerRemoveNodes(server, ctx);
+  registerConnect(server, ctx);
+  registerDisconnect(server, ctx);
+  registerMoveIntoGroup(server, ctx);
+  registerHighlightGroupNode(server, ctx);
+  registerValidateWorkflow(server, ctx);
+  registerRenderWorkflow(server, ctx);
+  registerExportWorkflow(server, ctx);
+
+  if (library) {
+    registerListWorkflows(server, library);
+    registerOpenWorkflow(server, library);
+    registerCreateWorkflow(server, library, ctx);
+    registerDeleteWorkflow(server, library, resources);
+  }
 }
 
-function registerGetCurrentWorkflow(server: McpServer, adapter: WorkflowIoAdapter): void {
+const NO_ACTIVE_WORKFLOW =
+  'No active workflow. Please open a workflow in CC Workflow Studio first.';
+
+const NO_OPEN_WORKFLOW =
+  'No workflow is open. Call list_workflows and open_workflow (or create_workflow), or pass workflowId.';
+
+const workflowIdArg = z
+  .string()
+  .optional()
+  .describe(
+    'Directory mode only: ID of the workflow to act on (see list_workflows). Defaults to the open workflow.'
+  );
+
+const editDescriptionArg = z
+  .string()
+  .optional()
+  .describe(
+    'A brief description of the changes being made. Shown to the user in the review dialog.'
+  );
+
+const editRevisionArg = z
+  .string()
+  .optional()
+  .describe(
+    'Workflow revision from get_current_workflow for conflict detection. If omitted, the revision from the internal fetch is used.'
+  );
+
+const connectionArg = z.object({
+  from: z.string().describe('Source node ID'),
+  to: z.string().describe('Target node ID'),
+  fromPort: z
+    .string()
+    .optional()
+    .describe(
+      'Source handle. Default "output". Branching nodes use their branch handles (see get_workflow_schema portNamingRules).'
+    ),
+  toPort: z.string().optional().describe('Target handle. Default "input".'),
+  condition: z
+    .string()
+    .optional()
+    .describe('Option label, for connections leaving an AskUserQuestion branch.'),
+});
+
+const SECRETS_MODES = ['block', 'redact', 'allow'] as const;
+type SecretsMode = (typeof SECRETS_MODES)[number];
+
+const secretsArg = z
+  .enum(SECRETS_MODES)
+  .optional()
+  .describe(
+    'What to do with possible secrets (API keys, tokens, passwords, project patterns from ccwf.config.json) in the workflow: "block" (default) refuses the write, "redact" replaces them with ${ENV_VAR} placeholders, "allow" writes them as-is.'
+  );
+
+/**
+ * Pre-write secret check. In "block" mode, secrets already present in
+ * `knownWorkflow` (the version being replaced) are tolerated, so a token the
+ * user pasted on the canvas does not lock the AI out of unrelated edits.
+ * Returns the workflow to write, or the reply refusing the write.
+ */
+async function screenSecrets(
+  adapter: WorkflowIoAdapter,
+  workflow: unknown,
+  mode: SecretsMode,
+  knownWorkflow?: Workflow | null
+): Promise<{ workflow: unknown; redactions: SensitiveDataRedaction[] } | { reply: ToolReply }> {
+  if (mode === 'allow') return { workflow, redactions: [] };
+
+  const config = (await adapter.getProjectConfig?.()) ?? EMPTY_PROJECT_CONFIG;
+  const customPatterns = getCustomSensitivePatterns(config);
+  let content = JSON.stringify(workflow);
+  let redactions: SensitiveDataRedaction[] = [];
+  if (mode === 'redact') {
+    ({ content, redactions } = redactSensitiveData(content, { customPatterns }));
+  }
+
+  const findings = detectSensitiveData(content, {
+    customPatterns,
+    ...(mode === 'block' && knownWorkflow ? { knownContent: JSON.stringify(knownWorkflow) } : {}),
+  });
+  if (findings.length > 0) {
+    return {
+      reply: fail({
+        success: false,
+        error:
+          mode === 'redact'
+            ? `${findings.length} possible secret(s) could not be redacted automatically. Replace them with \${ENV_VAR} references.`
+            : `The workflow contains ${findings.length} possible secret(s). Replace them with \${ENV_VAR} references, or send the workflow to apply_workflow / create_workflow with secrets: "redact" to do it automatically ("allow" writes them as-is).`,
+        sensitiveData: findings.map(({ position: _position, ...finding }) => finding),
+      }),
+    };
+  }
+  return { workflow: redactions.length > 0 ? JSON.parse(content) : workflow, redactions };
+}
+
+/** `redactedSecrets` reply field: the placeholders the user has to define. */
+function redactionFields(redactions: SensitiveDataRedaction[]): Record<string, unknown> {
+  if (redactions.length === 0) return {};
+  return {
+    redactedSecrets: redactions.map(({ envVar, type, patternName, maskedValue }) => ({
+      envVar,
+      type,
+      ...(patternName ? { patternName } : {}),
+      maskedValue,
+    })),
+    note: 'Secrets were replaced with ${ENV_VAR} placeholders. Set these environment variables before running the exported workflow.',
+  };
+}
+
+/** `autoCreatedFiles` / `subAgentFileCollisions` reply fields for an apply. */
+function subAgentFileFields(plannedFiles: PlannedSubAgentFile[]): Record<string, unknown> {
+  const created = plannedFiles.filter((f) => !f.collision);
+  const collisions = plannedFiles.filter((f) => f.collision);
+  return {
+    ...(created.length > 0 ? { autoCreatedFiles: created.map((f) => f.filePath) } : {}),
+    ...(collisions.length > 0
+      ? {
+          subAgentFileCollisions: collisions.map(
+            ({ nodeId, nodeName, subAgentFlowId, filePath, collision }) => ({
+              nodeId,
+              nodeName,
+              ...(subAgentFlowId !== undefined ? { subAgentFlowId } : {}),
+              filePath,
+              reason: collision,
+            })
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Screen `workflow` for secrets and validate it, then persist it through
+ * the same sub-agent file, revision locking and review-dialog path as
+ * `apply_workflow`. `extra` fields are merged into the reply.
+ */
+async function validateAndApply(
+  adapter: WorkflowIoAdapter,
+  candidate: unknown,
+  options: {
+    description?: string;
+    expectedRevision?: string;
+    onApplied?: () => void;
+    /** Default 'block'. */
+    secrets?: SecretsMode;
+    /** The workflow being replaced; its secrets pass in 'block' mode. */
+    knownWorkflow?: Workflow | null;
+  },
+  extra: Record<string, unknown> = {}
+): Promise<ToolReply> {
+  const screened = await screenSecrets(
+    adapter,
+    candidate,
+    options.secrets ?? 'block',
+    options.knownWorkflow
+  );
+  if ('reply' in screened) return screened.reply;
+  const { workflow, redactions } = screened;
+
+  const validation = validateAIGeneratedWorkflow(workflow);
+  if (!validation.valid) {
+    return fail({
+      success: false,
+      error: 'Validation failed',
+      validationErrors: validation.errors,
+    });
+  }
+
+  // Sub-agent files are only planned for a valid workflow. Adapters that
+  // materialise them set commandFilePath / commandScope on the nodes, which
+  // keeps the workflow valid, and write the files as part of a successful
+  // apply. Canvas and default file mode return [].
+  const plannedFiles = await adapter.planAndPersistSubAgentFiles(workflow as Workflow);
+
+  const applyResult = await adapter.applyWorkflow(workflow as Workflow, {
+    description: options.description,
+    plannedFiles: plannedFiles.filter((f) => !f.collision),
+    expectedRevision: options.expectedRevision,
+  });
+  if (applyResult.success) options.onApplied?.();
+
+  return ok({
+    success: applyResult.success,
+    ...(applyResult.success ? extra : {}),
+    ...(applyResult.revision ? { revision: applyResult.revision } : {}),
+    ...(applyResult.error ? { error: applyResult.error } : {}),
+    ...(applyResult.success ? subAgentFileFields(plannedFiles) : {}),
+    ...(applyResult.success ? redactionFields(redactions) : {}),
+  });
+}
+
+/**
+ * Shared body of the granular graph-editing tools: fetch the current
+ * workflow, run `edit` on it and apply the result. `WorkflowEditError`s
+ * (unknown ids, duplicates, …) are reported without touching the workflow.
+ */
+async function applyGraphEdit(
+  ctx: ToolContext,
+  edit: (workflow: Workflow) => { workflow: Workflow; reply?: Record<string, unknown> },
+  options: { workflowId?: string; description?: string; revision?: string }
+): Promise<ToolReply> {
+  try {
+    const adapter = await ctx.resolve(options.workflowId);
+    const current = await adapter.getCurrentWorkflow();
+    if (!current.workflow) {
+      return fail({ success: false, error: ctx.noWorkflowMessage });
+    }
+
+    let edited: { workflow: Workflow; reply?: Record<string, unknown> };
+    try {
+      edited = edit(current.workflow);
+    } catch (error) {
+      if (error instanceof WorkflowEditError) {
+        return fail({
+          success: false,
+          error: `${error.message} Use get_current_workflow to see available node and connection IDs.`,
+        });
+      }
+      throw error;
+    }
+
+    return await validateAndApply(
+      adapter,
+      edited.workflow,
+      {
+        description: options.description,
+        expectedRevision: options.revision ?? current.revision,
+        onApplied: () => ctx.resources.workflowChanged(options.workflowId),
+        knownWorkflow: current.workflow,
+      },
+      edited.reply
+    );
+  } catch (error) {
+    return fail({ success: false, error: errorMessage(error) });
+  }
+}
+
+function registerGetCurrentWorkflow(server: McpServer, ctx: ToolContext): void {
   server.tool(
     'get_current_workflow',
     'Get the currently active workflow from CC Workflow Studio canvas. Returns the workflow JSON and whether it is stale (from cache when the editor is closed).',
-    {},
-    async () => {
+    { workflowId: workflowIdArg },
+    async ({ workflowId }) => {
       try {
+        const adapter = await ctx.resolve(workflowId);
         const result = await adapter.getCurrentWorkflow();
         if (!result.workflow) {
-          return fail(
-            {
-              success: false,
-              error:
-                'No active workflow. Please open a workflow in CC Workflow Studio first.',
-            },
-            false
-          );
+          return fail({ success: false, error: ctx.noWorkflowMessage }, false);
         }
         return ok({
           success: true,
           isStale: result.isStale,
           revision: result.revision,
           workflow: result.workflow,
+          ...(result.migration
+            ? {
+                migration: {
+                  notice: `The stored workflow was upgraded from schema ${result.migration.fromVersion} to ${result.migration.toVersion} on load. The returned workflow is already upgraded; the next apply_workflow persists it.`,
+                  ...result.migration,
+                },
+              }
+            : {}),
         });
       } catch (error) {
         return fail({ success: false, error: errorMessage(error) });
@@ -78,7 +386,7 @@ function registerGetCurrentWorkflow(server: McpServer, adapter: WorkflowIoAdapte
   );
 }
 
-function registerGetWorkflowSchema(server: McpServer, adapter: WorkflowIoAdapter): void {
+function registerGetWorkflowSchema(server: McpServer, { adapter }: ToolContext): void {
   server.tool(
     'get_workflow_schema',
     'Get the workflow schema documentation in optimized TOON format. Use this to understand the valid structure for creating or modifying workflows.',
@@ -99,7 +407,7 @@ function registerGetWorkflowSchema(server: McpServer, adapter: WorkflowIoAdapter
   );
 }
 
-function registerApplyWorkflow(server: McpServer, adapter: WorkflowIoAdapter): void {
+function registerApplyWorkflow(server: McpServer, ctx: ToolContext): void {
   server.tool(
     'apply_workflow',
     'Apply a workflow to the CC Workflow Studio canvas. The workflow is validated before being applied. If the user has review mode enabled, they will see a diff preview and must accept changes before they are applied. If rejected, an error with message "User rejected the changes" is returned. The editor must be open. SubAgent nodes without commandFilePath will have .md files auto-created in .claude/agents/.',
@@ -117,9 +425,12 @@ function registerApplyWorkflow(server: McpServer, adapter: WorkflowIoAdapter): v
         .describe(
           'Workflow revision from get_current_workflow for conflict detection. If provided and the workflow has been modified since, the apply will be rejected or a warning shown.'
         ),
+      workflowId: workflowIdArg,
+      secrets: secretsArg,
     },
-    async ({ workflow: workflowJson, description, revision }) => {
+    async ({ workflow: workflowJson, description, revision, workflowId, secrets = 'block' }) => {
       try {
+        const adapter = await ctx.resolve(workflowId);
         let parsedWorkflow: unknown;
         try {
           parsedWorkflow = JSON.parse(workflowJson);
@@ -130,34 +441,13 @@ function registerApplyWorkflow(server: McpServer, adapter: WorkflowIoAdapter): v
           });
         }
 
-        // Plan + persist sub-agent files first so commandFilePath is set
-        // before validation. File-mode adapters may return [] here.
-        const plannedFiles = await adapter.planAndPersistSubAgentFiles(
-          parsedWorkflow as Workflow
-        );
-
-        const validation = validateAIGeneratedWorkflow(parsedWorkflow);
-        if (!validation.valid) {
-          return fail({
-            success: false,
-            error: 'Validation failed',
-            validationErrors: validation.errors,
-          });
-        }
-
-        const applyResult = await adapter.applyWorkflow(parsedWorkflow as Workflow, {
+        return await validateAndApply(adapter, parsedWorkflow, {
           description,
-          plannedFiles,
           expectedRevision: revision,
-        });
-
-        return ok({
-          success: applyResult.success,
-          ...(applyResult.revision ? { revision: applyResult.revision } : {}),
-          ...(applyResult.error ? { error: applyResult.error } : {}),
-          ...(plannedFiles.length > 0
-            ? { autoCreatedFiles: plannedFiles.map((f) => f.filePath) }
-            : {}),
+          onApplied: () => ctx.resources.workflowChanged(workflowId),
+          secrets,
+          knownWorkflow:
+            secrets === 'block' ? (await adapter.getCurrentWorkflow()).workflow : undefined,
         });
       } catch (error) {
         return fail({ success: false, error: errorMessage(error) });
@@ -166,10 +456,7 @@ function registerApplyWorkflow(server: McpServer, adapter: WorkflowIoAdapter): v
   );
 }
 
-function registerListAvailableAgents(
-  server: McpServer,
-  adapter: WorkflowIoAdapter
-): void {
+function registerListAvailableAgents(server: McpServer, { adapter }: ToolContext): void {
   server.tool(
     'list_available_agents',
     'List available .claude/agents/*.md agent files that can be referenced as sub-agent nodes in workflows. Returns both user-scope (~/.claude/agents/) and project-scope (.claude/agents/) agents.',
@@ -208,10 +495,53 @@ function registerListAvailableAgents(
   );
 }
 
-function registerUpdateNodes(server: McpServer, adapter: WorkflowIoAdapter): void {
+function registerListMcpTools(server: McpServer, { adapter }: ToolContext): void {
+  server.tool(
+    'list_mcp_tools',
+    'List the MCP servers configured for the project (.mcp.json, ~/.mcp.json, ~/.claude.json), or, with serverId, that server\'s tools with their input schemas. Use it to fill in an MCP node: data.serverId, data.toolName and data.parameterValues. Tools come from the MCP tool cache shared with the VSCode extension and `ccwf mcp-snapshot`; the server is only started on a cache miss or with refresh: true.',
+    {
+      serverId: z
+        .string()
+        .optional()
+        .describe('Server whose tools to list. Omit to list the configured servers.'),
+      refresh: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('If true, ask the server even when the cache has its tools. Default: false.'),
+    },
+    async ({ serverId, refresh }) => {
+      if (!adapter.listMcpServers || !adapter.listMcpTools) {
+        return fail({
+          success: false,
+          error: 'This server cannot list MCP tools. Use the MCP node dialog on the canvas.',
+        });
+      }
+      try {
+        if (serverId === undefined) {
+          const servers = await adapter.listMcpServers();
+          return ok({ success: true, servers, totalCount: servers.length });
+        }
+        const result = await adapter.listMcpTools(serverId, { refresh: refresh ?? false });
+        return ok({
+          success: true,
+          serverId,
+          tools: result.value,
+          totalCount: result.value.length,
+          source: result.source,
+          fetchedAt: result.fetchedAt.toISOString(),
+        });
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
+
+function registerUpdateNodes(server: McpServer, ctx: ToolContext): void {
   server.tool(
     'update_nodes',
-    'Update specific nodes in the current workflow by ID. More efficient than apply_workflow for partial changes. Fetches the current workflow, merges the specified node changes, validates the result, and applies to the canvas. Only updates existing nodes — use apply_workflow to add or remove nodes.',
+    'Update specific nodes in the current workflow by ID. More efficient than apply_workflow for partial changes. Fetches the current workflow, merges the specified node changes, validates the result, and applies to the canvas. Only updates existing nodes — use add_nodes / remove_nodes to add or remove nodes.',
     {
       nodes: z
         .array(
@@ -251,28 +581,16 @@ function registerUpdateNodes(server: McpServer, adapter: WorkflowIoAdapter): voi
         .describe(
           'Array of node updates. Each must include an id and at least one of: name, position, data, type, parentId, or style.'
         ),
-      description: z
-        .string()
-        .optional()
-        .describe(
-          'A brief description of the changes being made. Shown to the user in the review dialog.'
-        ),
-      revision: z
-        .string()
-        .optional()
-        .describe(
-          'Workflow revision from get_current_workflow for conflict detection. If omitted, the revision from the internal fetch is used.'
-        ),
+      workflowId: workflowIdArg,
+      description: editDescriptionArg,
+      revision: editRevisionArg,
     },
-    async ({ nodes: nodeUpdates, description, revision }) => {
+    async ({ nodes: nodeUpdates, workflowId, description, revision }) => {
       try {
+        const adapter = await ctx.resolve(workflowId);
         const current = await adapter.getCurrentWorkflow();
         if (!current.workflow) {
-          return fail({
-            success: false,
-            error:
-              'No active workflow. Please open a workflow in CC Workflow Studio first.',
-          });
+          return fail({ success: false, error: ctx.noWorkflowMessage });
         }
 
         const currentNodeIds = new Set(current.workflow.nodes.map((n) => n.id));
@@ -332,30 +650,11 @@ function registerUpdateNodes(server: McpServer, adapter: WorkflowIoAdapter): voi
           if (update.style !== undefined) node.style = update.style;
         }
 
-        const plannedFiles = await adapter.planAndPersistSubAgentFiles(updatedWorkflow);
-
-        const validation = validateAIGeneratedWorkflow(updatedWorkflow);
-        if (!validation.valid) {
-          return fail({
-            success: false,
-            error: 'Validation failed',
-            validationErrors: validation.errors,
-          });
-        }
-
-        const applyResult = await adapter.applyWorkflow(updatedWorkflow, {
+        return await validateAndApply(adapter, updatedWorkflow, {
           description,
-          plannedFiles,
           expectedRevision: revision ?? current.revision,
-        });
-
-        return ok({
-          success: applyResult.success,
-          ...(applyResult.revision ? { revision: applyResult.revision } : {}),
-          ...(applyResult.error ? { error: applyResult.error } : {}),
-          ...(plannedFiles.length > 0
-            ? { autoCreatedFiles: plannedFiles.map((f) => f.filePath) }
-            : {}),
+          onApplied: () => ctx.resources.workflowChanged(workflowId),
+          knownWorkflow: current.workflow,
         });
       } catch (error) {
         return fail({ success: false, error: errorMessage(error) });
@@ -364,10 +663,194 @@ function registerUpdateNodes(server: McpServer, adapter: WorkflowIoAdapter): voi
   );
 }
 
-function registerHighlightGroupNode(
-  server: McpServer,
-  adapter: WorkflowIoAdapter
-): void {
+function registerAddNodes(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'add_nodes',
+    'Add nodes to the current workflow, optionally wiring them up in the same edit. Much cheaper than resending the whole workflow via apply_workflow. The result is validated and applied like apply_workflow (review dialog, revision check). Returns the IDs of the new nodes and connections.',
+    {
+      nodes: z
+        .array(
+          z.object({
+            id: z
+              .string()
+              .optional()
+              .describe('Node ID. Must be unique; generated from the type when omitted.'),
+            type: z.nativeEnum(NodeType).describe('Node type'),
+            name: z.string().describe('Display name'),
+            position: z
+              .object({ x: z.number(), y: z.number() })
+              .describe('Canvas position (relative to the group when parentId is set)'),
+            data: z
+              .record(z.string(), z.unknown())
+              .describe('Node data matching the type schema (see get_workflow_schema)'),
+            parentId: z.string().optional().describe('Group node ID to place the node in.'),
+            style: z
+              .object({
+                width: z.number().optional(),
+                height: z.number().optional(),
+              })
+              .optional()
+              .describe('Node dimensions (mainly for group nodes).'),
+          })
+        )
+        .min(1)
+        .describe('Nodes to add.'),
+      connections: z
+        .array(connectionArg)
+        .optional()
+        .describe(
+          'Connections to create in the same edit. May reference the new node IDs, so a node can be added and wired without an intermediate invalid state.'
+        ),
+      workflowId: workflowIdArg,
+      description: editDescriptionArg,
+      revision: editRevisionArg,
+    },
+    async ({ nodes, connections, workflowId, description, revision }) =>
+      applyGraphEdit(
+        ctx,
+        (workflow) => {
+          const added = addWorkflowNodes(workflow, nodes);
+          const connected = connectWorkflowNodes(added.workflow, connections ?? []);
+          return {
+            workflow: connected.workflow,
+            reply: { nodeIds: added.nodeIds, connectionIds: connected.connectionIds },
+          };
+        },
+        { workflowId, description, revision }
+      )
+  );
+}
+
+function registerRemoveNodes(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'remove_nodes',
+    'Remove nodes from the current workflow by ID, together with every connection touching them. Removing a group node keeps its children (moved out of the group). Pass connections to bridge the gap in the same edit, e.g. to reconnect the removed node\'s predecessor and successor. Validated and applied like apply_workflow.',
+    {
+      nodeIds: z.array(z.string()).min(1).describe('IDs of the nodes to remove.'),
+      connections: z
+        .array(connectionArg)
+        .optional()
+        .describe('Connections to create after the removal, in the same edit.'),
+      workflowId: workflowIdArg,
+      description: editDescriptionArg,
+      revision: editRevisionArg,
+    },
+    async ({ nodeIds, connections, workflowId, description, revision }) =>
+      applyGraphEdit(
+        ctx,
+        (workflow) => {
+          const removed = removeWorkflowNodes(workflow, nodeIds);
+          const connected = connectWorkflowNodes(removed.workflow, connections ?? []);
+          return {
+            workflow: connected.workflow,
+            reply: {
+              removedConnectionIds: removed.removedConnectionIds,
+              connectionIds: connected.connectionIds,
+            },
+          };
+        },
+        { workflowId, description, revision }
+      )
+  );
+}
+
+function registerConnect(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'connect',
+    'Connect existing nodes in the current workflow. Validated and applied like apply_workflow. Returns the new connection IDs.',
+    {
+      connections: z.array(connectionArg).min(1).describe('Connections to create.'),
+      workflowId: workflowIdArg,
+      description: editDescriptionArg,
+      revision: editRevisionArg,
+    },
+    async ({ connections, workflowId, description, revision }) =>
+      applyGraphEdit(
+        ctx,
+        (workflow) => {
+          const connected = connectWorkflowNodes(workflow, connections);
+          return {
+            workflow: connected.workflow,
+            reply: { connectionIds: connected.connectionIds },
+          };
+        },
+        { workflowId, description, revision }
+      )
+  );
+}
+
+function registerDisconnect(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'disconnect',
+    'Remove connections from the current workflow, selected by connection ID or by endpoints. Pass connections to rewire in the same edit (e.g. insert a node between two others). Validated and applied like apply_workflow.',
+    {
+      remove: z
+        .array(
+          z.object({
+            id: z.string().optional().describe('Connection ID'),
+            from: z.string().optional().describe('Source node ID'),
+            to: z.string().optional().describe('Target node ID'),
+            fromPort: z
+              .string()
+              .optional()
+              .describe('Narrow a from/to match to this source handle'),
+          })
+        )
+        .min(1)
+        .describe(
+          'Connection selectors. Each needs an id, from or to and must match at least one connection; all matches are removed.'
+        ),
+      connections: z
+        .array(connectionArg)
+        .optional()
+        .describe('Connections to create after the removal, in the same edit.'),
+      workflowId: workflowIdArg,
+      description: editDescriptionArg,
+      revision: editRevisionArg,
+    },
+    async ({ remove, connections, workflowId, description, revision }) =>
+      applyGraphEdit(
+        ctx,
+        (workflow) => {
+          const disconnected = disconnectWorkflowNodes(workflow, remove);
+          const connected = connectWorkflowNodes(disconnected.workflow, connections ?? []);
+          return {
+            workflow: connected.workflow,
+            reply: {
+              removedConnectionIds: disconnected.removedConnectionIds,
+              connectionIds: connected.connectionIds,
+            },
+          };
+        },
+        { workflowId, description, revision }
+      )
+  );
+}
+
+function registerMoveIntoGroup(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'move_into_group',
+    'Move nodes into a group node, or out of their group. Positions are converted so the nodes stay where they are on the canvas. Validated and applied like apply_workflow.',
+    {
+      nodeIds: z.array(z.string()).min(1).describe('IDs of the nodes to move.'),
+      groupNodeId: z
+        .string()
+        .nullable()
+        .describe('Target group node ID. Pass null to move the nodes out of their group.'),
+      workflowId: workflowIdArg,
+      description: editDescriptionArg,
+      revision: editRevisionArg,
+    },
+    async ({ nodeIds, groupNodeId, workflowId, description, revision }) =>
+      applyGraphEdit(
+        ctx,
+        (workflow) => ({ workflow: moveNodesIntoGroup(workflow, nodeIds, groupNodeId) }),
+        { workflowId, description, revision }
+      )
+  );
+}
+
+function registerHighlightGroupNode(server: McpServer, { adapter }: ToolContext): void {
   server.tool(
     'highlight_group_node',
     'Highlight a group node on the CC Workflow Studio canvas to indicate it is currently being executed. Call this before executing nodes within a group to visually track progress.',
@@ -393,3 +876,318 @@ function registerHighlightGroupNode(
     }
   );
 }
+
+// ---------------------------------------------------------------------------
+// Deliverables (validate / render / export)
+// ---------------------------------------------------------------------------
+
+const RENDER_PROVIDERS = [
+  'claude-code',
+  'copilot',
+  'copilot-cli',
+  'codex',
+  'gemini',
+  'roo-code',
+  'antigravity',
+  'cursor',
+] as const satisfies readonly ExportProvider[];
+
+function registerValidateWorkflow(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'validate_workflow',
+    'Validate a workflow without applying it: schema checks plus graph analysis (unreachable nodes, dead ends, cycles without exit, …). Validates the current workflow unless a workflow JSON string is passed. Returns structured errors and warnings, each with a code, message and (where applicable) field or nodeId.',
+    {
+      workflow: z
+        .string()
+        .optional()
+        .describe('Workflow JSON string to validate instead of the current workflow.'),
+      workflowId: workflowIdArg,
+    },
+    async ({ workflow: workflowJson, workflowId }) => {
+      try {
+        let target: unknown;
+        if (workflowJson !== undefined) {
+          try {
+            target = JSON.parse(workflowJson);
+          } catch {
+            return fail({
+              success: false,
+              error: 'Invalid JSON: Failed to parse workflow string',
+            });
+          }
+        } else {
+          const current = await (await ctx.resolve(workflowId)).getCurrentWorkflow();
+          if (!current.workflow) {
+            return fail({ success: false, error: ctx.noWorkflowMessage }, false);
+          }
+          target = current.workflow;
+        }
+
+        const validation = validateAIGeneratedWorkflow(target);
+        return ok({
+          success: true,
+          valid: validation.valid,
+          errors: validation.errors,
+          warnings: validation.warnings,
+        });
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
+
+function registerRenderWorkflow(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'render_workflow',
+    'Render the current workflow the way it is exported: the Mermaid flowchart (a fenced ```mermaid block) and the execution instructions for the chosen agent. Use it to review the deliverable before export_workflow.',
+    {
+      provider: z
+        .enum(RENDER_PROVIDERS)
+        .optional()
+        .default('claude-code')
+        .describe('Agent the execution instructions are written for. Default: claude-code.'),
+      workflowId: workflowIdArg,
+    },
+    async ({ provider, workflowId }) => {
+      try {
+        const current = await (await ctx.resolve(workflowId)).getCurrentWorkflow();
+        if (!current.workflow) {
+          return fail({ success: false, error: ctx.noWorkflowMessage }, false);
+        }
+        const workflow = current.workflow;
+        return ok({
+          success: true,
+          name: workflow.name,
+          provider,
+          mermaid: generateMermaidFlowchart(workflow),
+          executionInstructions: generateExecutionInstructions(workflow, {
+            provider: provider ?? 'claude-code',
+          }),
+        });
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
+
+function registerExportWorkflow(server: McpServer, ctx: ToolContext): void {
+  server.tool(
+    'export_workflow',
+    'Export the current workflow as agent files, like `ccwf export --agent <agent>`: Sub-Agent files under .claude/agents plus the workflow skill under .claude/skills for claude-code, <root>/skills/<workflow>/SKILL.md for the other agents. The workflow is validated first. With dryRun (the default) nothing is written and the planned files are returned with their contents; otherwise they are written to the project root. Existing files are only replaced with overwrite: true.',
+    {
+      agent: z
+        .enum(EXPORT_AGENTS)
+        .optional()
+        .default('claude-code')
+        .describe('Target agent. Default: claude-code.'),
+      dryRun: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe('If true (default), return the planned files without writing them.'),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          'Replace files that already exist. Default: false (the export is refused when an existing file was edited since export or not written by ccwf; unedited exports are replaced).'
+        ),
+      workflowId: workflowIdArg,
+    },
+    async ({ agent, dryRun, overwrite, workflowId }) => {
+      try {
+        const adapter = await ctx.resolve(workflowId);
+        const current = await adapter.getCurrentWorkflow();
+        if (!current.workflow) {
+          return fail({ success: false, error: ctx.noWorkflowMessage }, false);
+        }
+
+        const validation = validateAIGeneratedWorkflow(current.workflow);
+        if (!validation.valid) {
+          return fail({
+            success: false,
+            error: 'Validation failed',
+            validationErrors: validation.errors,
+          });
+        }
+
+        const targetAgent = agent ?? 'claude-code';
+        const plan = planExportForAgent(current.workflow, targetAgent);
+        if (dryRun ?? true) {
+          return ok({
+            success: true,
+            agent: targetAgent,
+            dryRun: true,
+            files: plan.files.map((f) => ({
+              path: f.relativePath,
+              kind: f.kind,
+              contents: f.contents,
+            })),
+            warnings: plan.warnings,
+          });
+        }
+
+        if (!adapter.writeExportFiles) {
+          return fail({
+            success: false,
+            error:
+              'This server cannot write export files. Call export_workflow with dryRun: true and write the returned files yourself.',
+          });
+        }
+        const result = await adapter.writeExportFiles(plan.files, {
+          overwrite: overwrite ?? false,
+        });
+        const reply = {
+          success: result.success,
+          agent: targetAgent,
+          dryRun: false,
+          files: plan.files.map((f) => ({ path: f.relativePath, kind: f.kind })),
+          warnings: plan.warnings,
+          ...(result.writtenPaths ? { writtenPaths: result.writtenPaths } : {}),
+          ...(result.conflicts ? { conflicts: result.conflicts } : {}),
+          ...(result.error ? { error: result.error } : {}),
+        };
+        return result.success ? ok(reply) : fail(reply);
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Directory mode (WorkflowLibrary)
+// ---------------------------------------------------------------------------
+
+function registerListWorkflows(server: McpServer, library: WorkflowLibrary): void {
+  server.tool(
+    'list_workflows',
+    'List the workflows in the served directory. Each entry has the workflowId to pass to open_workflow or to any workflow tool, plus name, node count, revision and whether it is the open workflow.',
+    {},
+    async () => {
+      try {
+        const workflows = await library.listWorkflows();
+        return ok({ success: true, workflows, totalCount: workflows.length });
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
+
+function registerOpenWorkflow(server: McpServer, library: WorkflowLibrary): void {
+  server.tool(
+    'open_workflow',
+    'Open a workflow from the served directory. Workflow tools called without workflowId act on the open workflow. Returns the workflow and its revision, like get_current_workflow.',
+    {
+      workflowId: z.string().describe('Workflow ID from list_workflows (file name without .json)'),
+    },
+    async ({ workflowId }) => {
+      try {
+        await library.openWorkflow(workflowId);
+        const result = await (await library.adapterFor(workflowId)).getCurrentWorkflow();
+        if (!result.workflow) {
+          return fail({ success: false, error: `Workflow "${workflowId}" not found.` });
+        }
+        return ok({
+          success: true,
+          workflowId,
+          revision: result.revision,
+          workflow: result.workflow,
+          ...(result.migration ? { migration: result.migration } : {}),
+        });
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
+
+function registerCreateWorkflow(
+  server: McpServer,
+  library: WorkflowLibrary,
+  { adapter, resources }: ToolContext
+): void {
+  server.tool(
+    'create_workflow',
+    'Create a new workflow file in the served directory and open it. The workflow is validated first. Fails if a workflow with the same ID already exists.',
+    {
+      workflow: z.string().describe('The workflow JSON string'),
+      workflowId: z
+        .string()
+        .optional()
+        .describe('File name without .json. Defaults to the workflow name.'),
+      secrets: secretsArg,
+    },
+    async ({ workflow: workflowJson, workflowId, secrets = 'block' }) => {
+      try {
+        let parsedWorkflow: unknown;
+        try {
+          parsedWorkflow = JSON.parse(workflowJson);
+        } catch {
+          return fail({
+            success: false,
+            error: 'Invalid JSON: Failed to parse workflow string',
+          });
+        }
+
+        const screened = await screenSecrets(adapter, parsedWorkflow, secrets);
+        if ('reply' in screened) return screened.reply;
+
+        const validation = validateAIGeneratedWorkflow(screened.workflow);
+        if (!validation.valid) {
+          return fail({
+            success: false,
+            error: 'Validation failed',
+            validationErrors: validation.errors,
+          });
+        }
+
+        const workflow = screened.workflow as Workflow;
+        const result = await library.createWorkflow(workflow, workflowId ?? workflow.name);
+        if (!result.success) return fail(result);
+        resources.workflowListChanged();
+        resources.workflowChanged();
+        return ok({ ...result, ...redactionFields(screened.redactions) });
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
+
+function registerDeleteWorkflow(
+  server: McpServer,
+  library: WorkflowLibrary,
+  resources: WorkflowResourceNotifier
+): void {
+  server.tool(
+    'delete_workflow',
+    'Delete a workflow file from the served directory. If it was the open workflow, no workflow is open afterwards.',
+    {
+      workflowId: z.string().describe('Workflow ID from list_workflows'),
+      revision: z
+        .string()
+        .optional()
+        .describe(
+          'Workflow revision for conflict detection. If provided and the file has changed since, the delete is rejected.'
+        ),
+    },
+    async ({ workflowId, revision }) => {
+      try {
+        // Deleting the open workflow closes it, so ask before deleting.
+        const wasOpen = library.getOpenWorkflowId() === workflowId;
+        const result = await library.deleteWorkflow(workflowId, revision);
+        if (!result.success) return fail(result);
+        resources.workflowListChanged();
+        resources.workflowChanged(workflowId);
+        if (wasOpen) resources.workflowChanged();
+        return ok({ success: true, workflowId });
+      } catch (error) {
+        return fail({ success: false, error: errorMessage(error) });
+      }
+    }
+  );
+}
@@ -1,18 +1,26 @@
 /**
  * Types and adapter interface for the transport-agnostic MCP server core.
  *
- * The factory in `./factory.ts` registers the 6 cc-wf-studio MCP tools on
+ * The factory in `./factory.ts` registers the cc-wf-studio MCP tools on
  * an `McpServer` instance, delegating all side-effects (read/write workflow,
  * highlight, list agents, etc.) to a `WorkflowIoAdapter` implementation.
  *
- * Two adapters live downstream of this package:
+ * Three adapters live downstream of this package:
  *   - `CanvasWorkflowAdapter` in packages/vscode — drives the live webview via
  *     postMessage RPC. Backs the in-process HTTP MCP server on port 6282.
  *   - `FileWorkflowAdapter` in this package — reads/writes a single `.json`
- *     workflow file. Backs the `ccwf-mcp` stdio bin.
+ *     workflow file. Backs the `ccwf-mcp --file` stdio bin.
+ *   - `DirectoryWorkflowAdapter` in this package — serves every workflow in a
+ *     folder and also implements `WorkflowLibrary`. Backs `ccwf-mcp --dir`.
  */
 
-import type { Workflow } from '@cc-wf-studio/core';
+import type {
+  PlannedExportFile,
+  ProjectConfig,
+  Workflow,
+  WorkflowMigrationReport,
+} from '@cc-wf-studio/core';
+import type { CachedMcpTool, McpCacheResult } from './mcp-cache.js';
 
 /**
  * Information about a discovered sub-agent definition file (`.claude/agents/*.md`
@@ -27,14 +35,22 @@ export interface AgentCommandInfo {
 }
 
 /**
- * A sub-agent `.md` file that the adapter materialised while applying a
- * workflow. Returned from `planAndPersistSubAgentFiles` so the tool layer
+ * A sub-agent `.md` file that the adapter materialises (or refuses to, see
+ * `collision`) while applying a workflow. Returned from `planAndPersistSubAgentFiles` so the tool layer
  * can surface the list to the caller for transparency.
  */
 export interface PlannedSubAgentFile {
   nodeId: string;
   nodeName: string;
   filePath: string;
+  /** Set when the node sits inside a Sub-Agent Flow (`subAgentFlows[].id`). */
+  subAgentFlowId?: string;
+  /**
+   * Set when the file was NOT written and the node stays inline:
+   *   - `exists`: a different file is already at `filePath`
+   *   - `duplicate`: an earlier node of the same workflow claimed `filePath`
+   */
+  collision?: 'exists' | 'duplicate';
 }
 
 export type GetCurrentWorkflowResult =
@@ -48,6 +64,11 @@ export type GetCurrentWorkflowResult =
       revision: string;
       /** True when the canvas is closed and the workflow comes from cache. */
       isStale?: boolean;
+      /**
+       * Set when the stored workflow was on an older schema and has been
+       * upgraded in memory. The upgrade persists on the next apply.
+       */
+      migration?: WorkflowMigrationReport;
     }
   | { workflow: null };
 
@@ -87,6 +108,44 @@ export interface ListAvailableAgentsResult {
   project: AgentCommandInfo[];
 }
 
+export interface WriteExportFilesOptions {
+  /**
+   * Replace files that already exist instead of refusing the export. Files
+   * that are ccwf's unedited output are replaced either way.
+   */
+  overwrite: boolean;
+}
+
+export interface WriteExportFilesResult {
+  success: boolean;
+  /** Absolute paths of every file written. */
+  writtenPaths?: string[];
+  /** Existing files that were edited or not written by ccwf; set when the export was refused for them. */
+  conflicts?: string[];
+  /** Populated on failure. */
+  error?: string;
+}
+
+/** An MCP server MCP nodes can use, as `list_mcp_tools` lists it. */
+export interface McpServerSummary {
+  /** What an MCP node's `serverId` takes. */
+  serverId: string;
+  type: 'stdio' | 'http' | 'sse';
+  /** Config file the server was found in. */
+  configPath: string;
+}
+
+/** A server's tools for `list_mcp_tools`, as the MCP tool cache returns them. */
+export type ListMcpToolsResult = McpCacheResult<CachedMcpTool[]>;
+
+/** A workflow changed outside the server (see `WorkflowIoAdapter.watchWorkflows`). */
+export interface WorkflowChange {
+  /** Directory mode: the changed workflow. Absent for the current workflow. */
+  workflowId?: string;
+  /** A workflow appeared or disappeared (directory mode). */
+  listChanged?: boolean;
+}
+
 /**
  * Surface contract the factory needs to drive the MCP tools.
  *
@@ -117,11 +176,108 @@ export interface WorkflowIoAdapter {
   listAvailableAgents(includeContent: boolean): Promise<ListAvailableAgentsResult>;
 
   /**
-   * For SubAgent nodes that lack `commandFilePath`, plan + write `.claude/agents/*.md`
+   * For SubAgent nodes that lack `commandFilePath`, plan `.claude/agents/*.md`
    * files and return their metadata. May mutate the workflow in-place to set
-   * `commandFilePath`/`commandScope` on each newly-planned node so subsequent
-   * validation passes. File-mode adapters can return an empty array to skip
-   * auto-creation entirely.
+   * `commandFilePath`/`commandScope` on each newly-planned node. Called
+   * after validation, only for valid workflows; the result is passed to
+   * `applyWorkflow` as `plannedFiles`. Adapters that write the files must
+   * do so only when that apply succeeds (the file adapter writes them inside
+   * `applyWorkflow`). Adapters can return an empty array to skip
+   * auto-creation entirely (the file-mode default).
    */
   planAndPersistSubAgentFiles(workflow: Workflow): Promise<PlannedSubAgentFile[]>;
+
+  /**
+   * Write planned export files (relative to the project root). Optional:
+   * without it, `export_workflow` only supports dry runs. Nothing is written
+   * when a file exists and `overwrite` is false.
+   */
+  writeExportFiles?(
+    files: PlannedExportFile[],
+    opts: WriteExportFilesOptions
+  ): Promise<WriteExportFilesResult>;
+
+  /**
+   * The project's `ccwf.config.json` (custom secret patterns, …). Optional:
+   * without it, built-in defaults apply. Throws `ProjectConfigError` for an
+   * invalid file.
+   */
+  getProjectConfig?(): Promise<ProjectConfig>;
+
+  /**
+   * Report workflow changes the server did not make itself (editor saves,
+   * other processes). Optional: without it, only the tools' own writes
+   * notify resource subscribers. Returns a function that stops watching.
+   */
+  watchWorkflows?(listener: (change: WorkflowChange) => void): () => void;
+
+  /**
+   * MCP servers configured for the project. Optional, together with
+   * `listMcpTools`: without them, `list_mcp_tools` is not available.
+   */
+  listMcpServers?(): Promise<McpServerSummary[]>;
+
+  /**
+   * A server's tools through the shared MCP tool cache (`getMcpToolsCached`),
+   * fetched from the server on a miss or with `refresh`. Throws for a server
+   * that is not configured.
+   */
+  listMcpTools?(serverId: string, opts: { refresh: boolean }): Promise<ListMcpToolsResult>;
+}
+
+/** One entry of `list_workflows`. */
+export interface WorkflowSummary {
+  /** File name without `.json`; what the `workflowId` tool argument takes. */
+  workflowId: string;
+  /** Workflow `name`; absent when the file can't be parsed. */
+  name?: string;
+  description?: string;
+  nodeCount?: number;
+  revision?: string;
+  /** True for the workflow tools act on when no `workflowId` is passed. */
+  isOpen: boolean;
+  /** Set when the file isn't valid workflow JSON. */
+  error?: string;
+}
+
+export interface CreateWorkflowResult {
+  success: boolean;
+  workflowId?: string;
+  revision?: string;
+  /** Populated on failure (e.g. the file already exists). */
+  error?: string;
+}
+
+export interface DeleteWorkflowResult {
+  success: boolean;
+  /** Populated on failure (unknown workflow, revision conflict, …). */
+  error?: string;
+}
+
+/**
+ * Optional multi-workflow capability. When the factory receives a library,
+ * it registers `list_workflows` / `open_workflow` / `create_workflow` /
+ * `delete_workflow`, and the per-workflow tools honour their optional
+ * `workflowId` argument.
+ */
+export interface WorkflowLibrary {
+  listWorkflows(): Promise<WorkflowSummary[]>;
+
+  /**
+   * Adapter for one workflow. Without `workflowId`, the open workflow.
+   * Throws when the workflow does not exist (or none is open).
+   */
+  adapterFor(workflowId?: string): Promise<WorkflowIoAdapter>;
+
+  /** Make `workflowId` the workflow tools act on by default. Throws when unknown. */
+  openWorkflow(workflowId: string): Promise<void>;
+
+  /** ID of the open workflow, or `null` when none is open. */
+  getOpenWorkflowId(): string | null;
+
+  /** Write a new workflow file. Never overwrites an existing one. */
+  createWorkflow(workflow: Workflow, workflowId: string): Promise<CreateWorkflowResult>;
+
+  /** Delete a workflow file; honours `expectedRevision` like `applyWorkflow`. */
+  deleteWorkflow(workflowId: string, expectedRevision?: string): Promise<DeleteWorkflowResult>;
 }
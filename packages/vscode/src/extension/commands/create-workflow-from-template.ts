@@ -0,0 +1,69 @@
+/**
+ * Claude Code Workflow Studio - Create Workflow From Template Command
+ *
+ * Instantiates a saved workflow that declares template parameters and sends
+ * the result to the Webview as an unsaved workflow (LOAD_WORKFLOW).
+ */
+
+import { instantiateWorkflowTemplate, migrateWorkflow } from '@cc-wf-studio/core';
+import type { Webview } from 'vscode';
+import type {
+  CreateWorkflowFromTemplatePayload,
+  LoadWorkflowPayload,
+} from '../../shared/types/messages';
+import type { FileService } from '../services/file-service';
+
+/**
+ * Create a workflow from a template and send it to webview
+ *
+ * @param fileService - File service instance
+ * @param webview - Webview to send response to
+ * @param payload - Template ID, new workflow name and parameter values
+ * @param requestId - Request ID for response matching
+ */
+export async function createWorkflowFromTemplate(
+  fileService: FileService,
+  webview: Webview,
+  payload: CreateWorkflowFromTemplatePayload,
+  requestId?: string
+): Promise<void> {
+  try {
+    const filePath = fileService.getWorkflowFilePath(payload.workflowId);
+    if (!(await fileService.fileExists(filePath))) {
+      webview.postMessage({
+        type: 'ERROR',
+        requestId,
+        payload: {
+          code: 'LOAD_FAILED',
+          message: `Workflow "${payload.workflowId}" not found`,
+        },
+      });
+      return;
+    }
+
+    const content = await fileService.readFile(filePath);
+    const template = migrateWorkflow(JSON.parse(content));
+    const workflow = instantiateWorkflowTemplate(template, payload.values, {
+      name: payload.name,
+    });
+
+    const response: LoadWorkflowPayload = { workflow };
+    webview.postMessage({
+      type: 'LOAD_WORKFLOW',
+      requestId,
+      payload: response,
+    });
+
+    console.log(`Workflow created from template: ${payload.workflowId} → ${payload.name}`);
+  } catch (error) {
+    webview.postMessage({
+      type: 'ERROR',
+      requestId,
+      payload: {
+        code: 'LOAD_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to create workflow from template',
+        details: error,
+      },
+    });
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Claude Code Workflow Studio - Custom Export Target Handlers
+ *
+ * Handles listing and exporting to the agents declared under `exportTargets`
+ * in the workspace's ccwf.config.json
+ */
+
+import { customTargetDisplayName } from '@cc-wf-studio/core';
+import * as vscode from 'vscode';
+import type {
+  CustomExportTargetsListPayload,
+  CustomTargetOperationFailedPayload,
+  ExportForCustomTargetPayload,
+  ExportForCustomTargetSuccessPayload,
+} from '../../shared/types/messages';
+import {
+  checkExistingCustomTargetSkill,
+  exportWorkflowForCustomTarget,
+  listCustomExportTargets,
+} from '../services/custom-target-export-service';
+import type { FileService } from '../services/file-service';
+
+/**
+ * Handle List Custom Export Targets request
+ *
+ * An invalid ccwf.config.json yields an empty list with an error message
+ * rather than a failure, so the export menu keeps working.
+ *
+ * @param fileService - File service instance
+ * @param webview - Webview for sending responses
+ * @param requestId - Optional request ID for response correlation
+ */
+export async function handleListCustomExportTargets(
+  fileService: FileService,
+  webview: vscode.Webview,
+  requestId?: string
+): Promise<void> {
+  let payload: CustomExportTargetsListPayload;
+  try {
+    const targets = await listCustomExportTargets(fileService);
+    payload = {
+      targets: targets.map((target) => ({
+        id: target.id,
+        displayName: customTargetDisplayName(target),
+      })),
+    };
+  } catch (error) {
+    payload = {
+      targets: [],
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+  webview.postMessage({
+    type: 'CUSTOM_EXPORT_TARGETS_LIST',
+    requestId,
+    payload,
+  });
+}
+
+/**
+ * Handle Export for Custom Target request
+ *
+ * Exports workflow to the target's skillPath (plus agentsDir, when set)
+ *
+ * @param fileService - File service instance
+ * @param webview - Webview for sending responses
+ * @param payload - Export payload
+ * @param requestId - Optional request ID for response correlation
+ */
+export async function handleExportForCustomTarget(
+  fileService: FileService,
+  webview: vscode.Webview,
+  payload: ExportForCustomTargetPayload,
+  requestId?: string
+): Promise<void> {
+  const postFailed = (
+    errorCode: CustomTargetOperationFailedPayload['errorCode'],
+    errorMessage: string
+  ) => {
+    const failedPayload: CustomTargetOperationFailedPayload = {
+      errorCode,
+      errorMessage,
+      timestamp: new Date().toISOString(),
+    };
+    webview.postMessage({
+      type: 'EXPORT_FOR_CUSTOM_TARGET_FAILED',
+      requestId,
+      payload: failedPayload,
+    });
+  };
+
+  try {
+    const { workflow, targetId } = payload;
+
+    // Re-read the config so edits made since the menu opened are honoured
+    const target = (await listCustomExportTargets(fileService)).find((t) => t.id === targetId);
+    if (!target) {
+      postFailed('TARGET_NOT_FOUND', `Export target "${targetId}" not found in ccwf.config.json`);
+      return;
+    }
+
+    // Check for existing skill and ask for confirmation
+    const existingSkillPath = await checkExistingCustomTargetSkill(workflow, target, fileService);
+    if (existingSkillPath) {
+      const result = await vscode.window.showWarningMessage(
+        `Skill already exists: ${existingSkillPath}\n\nOverwrite?`,
+        { modal: true },
+        'Overwrite'
+      );
+      if (result !== 'Overwrite') {
+        webview.postMessage({
+          type: 'EXPORT_FOR_CUSTOM_TARGET_CANCELLED',
+          requestId,
+        });
+        return;
+      }
+    }
+
+    const exportResult = await exportWorkflowForCustomTarget(workflow, target, fileService, {
+      highlightEnabled: payload.highlightEnabled,
+    });
+
+    if (!exportResult.success) {
+      postFailed(
+        'EXPORT_FAILED',
+        exportResult.errors?.join(', ') || 'Failed to export workflow as skill'
+      );
+      return;
+    }
+
+    // Send success response
+    const successPayload: ExportForCustomTargetSuccessPayload = {
+      skillName: exportResult.skillName,
+      skillPath: exportResult.skillPath,
+      warnings: exportResult.warnings,
+      timestamp: new Date().toISOString(),
+    };
+
+    webview.postMessage({
+      type: 'EXPORT_FOR_CUSTOM_TARGET_SUCCESS',
+      requestId,
+      payload: successPayload,
+    });
+
+    const displayName = customTargetDisplayName(target);
+    if (exportResult.warnings.length > 0) {
+      vscode.window.showWarningMessage(
+        `Exported workflow for ${displayName}: ${exportResult.skillPath}\n\n${exportResult.warnings.join('\n')}`
+      );
+    } else {
+      vscode.window.showInformationMessage(
+        `Exported workflow for ${displayName}: ${exportResult.skillPath}`
+      );
+    }
+  } catch (error) {
+    postFailed('UNKNOWN_ERROR', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -2,15 +2,25 @@
  * Claude Code Workflow Studio - Export Workflow Command
  *
  * Exports workflow to .claude format (agents/*.md and commands/*.md)
+ *
+ * Exported files carry a content-hash marker. Re-exporting replaces files
+ * that still match it; for files edited by hand since (or not written by
+ * ccwf) the user chooses to overwrite them, keep them, or pull the edits
+ * back into the workflow on the canvas.
  */
 
 import * as path from 'node:path';
-import { validateAIGeneratedWorkflow } from '@cc-wf-studio/core';
+import {
+  planWorkflowExportFiles,
+  pullBackExportEdits,
+  validateAIGeneratedWorkflow,
+} from '@cc-wf-studio/core';
 import type { Webview } from 'vscode';
 import * as vscode from 'vscode';
 import type {
   ExportSuccessPayload,
   ExportWorkflowPayload,
+  LoadWorkflowPayload,
   Workflow,
 } from '../../shared/types/messages';
 import {
@@ -24,6 +34,104 @@ import {
   promptAndNormalizeSkills,
 } from '../services/skill-normalization-service';
 
+type ExportOptions = { highlightEnabled?: boolean; progressMarkers?: boolean };
+
+/**
+ * Outcome of asking the user about hand-edited export files
+ */
+type ExistingFilesResolution =
+  | { cancelled: true }
+  | {
+      cancelled: false;
+      /** Workflow to export (with pulled edits applied) */
+      workflow: Workflow;
+      /** Planned relative paths to leave untouched */
+      skipPaths: string[];
+      /** Fields pulled back into the workflow, e.g. `reviewer: agentDefinition` */
+      pulled: string[];
+    };
+
+/**
+ * Ask what to do with export files that were edited by hand or not written by
+ * ccwf: overwrite them, keep them (skip writing), or pull the edits back into
+ * the workflow. Files with edits that cannot be pulled back (diagram,
+ * execution guide wording, …) are kept rather than losing them.
+ */
+async function resolveExistingFiles(
+  workflow: Workflow,
+  fileService: FileService,
+  options?: ExportOptions
+): Promise<ExistingFilesResolution> {
+  const existingFiles = await checkExistingFiles(workflow, fileService, options);
+  if (existingFiles.length === 0) {
+    return { cancelled: false, workflow, skipPaths: [], pulled: [] };
+  }
+
+  const fileList = existingFiles
+    .map(
+      (f) =>
+        `  - ${f.filePath} (${f.state === 'edited' ? 'edited since export' : 'not written by ccwf'})`
+    )
+    .join('\n');
+  const overwrite = 'Overwrite';
+  const keep = 'Keep My Edits';
+  const pull = 'Pull Edits into Workflow';
+  const answer = await vscode.window.showWarningMessage(
+    `The following files already exist and were changed outside the editor:\n${fileList}\n\nOverwrite them, keep them as they are, or pull the edits back into the workflow?`,
+    { modal: true },
+    overwrite,
+    keep,
+    pull
+  );
+
+  if (answer === overwrite) {
+    return { cancelled: false, workflow, skipPaths: [], pulled: [] };
+  }
+  if (answer === keep) {
+    return {
+      cancelled: false,
+      workflow,
+      skipPaths: existingFiles.map((f) => f.planned.relativePath),
+      pulled: [],
+    };
+  }
+  if (answer !== pull) {
+    return { cancelled: true };
+  }
+
+  const replan = (wf: Workflow) => planWorkflowExportFiles(wf, options);
+  let updated = workflow;
+  const pulled: string[] = [];
+  const skipPaths: string[] = [];
+  for (const existing of existingFiles) {
+    // Compare against the plan of the workflow as updated so far
+    const planned = replan(updated).find((f) => f.relativePath === existing.planned.relativePath);
+    if (!planned) continue;
+    const result = pullBackExportEdits(updated, planned, existing.contents, replan);
+    updated = result.workflow;
+    pulled.push(...result.pulled);
+    if (!result.complete) skipPaths.push(existing.planned.relativePath);
+  }
+  if (skipPaths.length > 0) {
+    vscode.window.showWarningMessage(
+      `Some edits could not be pulled back into the workflow; these files were left as they are:\n${skipPaths.join('\n')}`
+    );
+  }
+  return { cancelled: false, workflow: updated, skipPaths, pulled };
+}
+
+/**
+ * Load a workflow with pulled-back edits into the canvas; saving it is left
+ * to the user.
+ */
+function loadPulledWorkflow(webview: Webview, workflow: Workflow, pulled: string[]): void {
+  const payload: LoadWorkflowPayload = { workflow };
+  webview.postMessage({ type: 'LOAD_WORKFLOW', payload });
+  vscode.window.showInformationMessage(
+    `Pulled ${pulled.length} edit(s) into workflow "${workflow.name}": ${pulled.join(', ')}. Save the workflow to keep them.`
+  );
+}
+
 /**
  * Export workflow to .claude format
  *
@@ -71,33 +179,31 @@ export async function handleExportWorkflow(
       }
     }
 
-    // Check if files already exist (unless overwrite is confirmed)
+    // Check for hand-edited files (unless overwrite is confirmed)
+    const exportOptions = { highlightEnabled: payload.highlightEnabled };
+    let workflow = payload.workflow;
+    let skipPaths: string[] = [];
     if (!payload.overwriteExisting) {
-      const existingFiles = await checkExistingFiles(payload.workflow, fileService);
-
-      if (existingFiles.length > 0) {
-        // Show warning dialog for overwrite confirmation
-        const fileList = existingFiles.map((f) => `  - ${f}`).join('\n');
-        const answer = await vscode.window.showWarningMessage(
-          `The following files already exist:\n${fileList}\n\nDo you want to overwrite them?`,
-          { modal: true },
-          'Overwrite'
-        );
-
-        if (answer !== 'Overwrite') {
-          // User cancelled - send cancellation message (not an error)
-          webview.postMessage({
-            type: 'EXPORT_CANCELLED',
-            requestId,
-          });
-          return;
-        }
+      const resolution = await resolveExistingFiles(workflow, fileService, exportOptions);
+      if (resolution.cancelled) {
+        // User cancelled - send cancellation message (not an error)
+        webview.postMessage({
+          type: 'EXPORT_CANCELLED',
+          requestId,
+        });
+        return;
+      }
+      workflow = resolution.workflow;
+      skipPaths = resolution.skipPaths;
+      if (resolution.pulled.length > 0) {
+        loadPulledWorkflow(webview, workflow, resolution.pulled);
       }
     }
 
     // Export workflow
-    const exportedFiles = await exportWorkflow(payload.workflow, fileService, {
-      highlightEnabled: payload.highlightEnabled,
+    const exportedFiles = await exportWorkflow(workflow, fileService, {
+      ...exportOptions,
+      skipPaths,
     });
 
     // Validate exported files
@@ -133,7 +239,7 @@ export async function handleExportWorkflow(
 
     // Show success notification
     vscode.window.showInformationMessage(
-      `Workflow "${payload.workflow.name}" exported successfully! ${exportedFiles.length} files created and validated.`
+      `Workflow "${workflow.name}" exported successfully! ${exportedFiles.length} files created and validated.`
     );
   } catch (error) {
     // Send error response
@@ -161,6 +267,8 @@ export interface ExportForExecutionResult {
   success: boolean;
   cancelled?: boolean;
   exportedFiles?: string[];
+  /** The workflow with hand edits pulled back from exported files, when the user chose to */
+  pulledWorkflow?: Workflow;
   error?: string;
 }
 
@@ -181,7 +289,7 @@ export interface ExportForExecutionResult {
 export async function handleExportWorkflowForExecution(
   workflow: Workflow,
   fileService: FileService,
-  options?: { highlightEnabled?: boolean }
+  options?: ExportOptions
 ): Promise<ExportForExecutionResult> {
   try {
     // Validate workflow structure before export
@@ -221,29 +329,21 @@ export async function handleExportWorkflowForExecution(
       }
     }
 
-    // Check if files already exist
-    const existingFiles = await checkExistingFiles(workflow, fileService);
-
-    if (existingFiles.length > 0) {
-      // Show warning dialog for overwrite confirmation
-      const fileList = existingFiles.map((f) => `  - ${f}`).join('\n');
-      const answer = await vscode.window.showWarningMessage(
-        `The following files already exist:\n${fileList}\n\nDo you want to overwrite them?`,
-        { modal: true },
-        'Overwrite'
-      );
-
-      if (answer !== 'Overwrite') {
-        // User cancelled
-        return {
-          success: false,
-          cancelled: true,
-        };
-      }
+    // Check for hand-edited files
+    const resolution = await resolveExistingFiles(workflow, fileService, options);
+    if (resolution.cancelled) {
+      // User cancelled
+      return {
+        success: false,
+        cancelled: true,
+      };
     }
 
     // Export workflow
-    const exportedFiles = await exportWorkflow(workflow, fileService, options);
+    const exportedFiles = await exportWorkflow(resolution.workflow, fileService, {
+      ...options,
+      skipPaths: resolution.skipPaths,
+    });
 
     // Validate exported files
     const validationErrors: string[] = [];
@@ -270,6 +370,7 @@ export async function handleExportWorkflowForExecution(
     return {
       success: true,
       exportedFiles,
+      ...(resolution.pulled.length > 0 ? { pulledWorkflow: resolution.workflow } : {}),
     };
   } catch (error) {
     return {
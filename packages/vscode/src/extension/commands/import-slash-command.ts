@@ -0,0 +1,153 @@
+/**
+ * Claude Code Workflow Studio - Import Slash Command
+ *
+ * Turns a hand-written Claude Code slash command (`.claude/commands/<name>.md`)
+ * or skill (`<name>/SKILL.md`) into a workflow, saves it under
+ * `.vscode/workflows/` and opens it in the editor. The mapping is core's
+ * `importSlashCommandMarkdown`, the same one `ccwf import` uses.
+ */
+
+import * as path from 'node:path';
+import {
+  formatWorkflowImportReport,
+  importSlashCommandMarkdown,
+  type SubAgentFileSource,
+} from '@cc-wf-studio/core';
+import * as vscode from 'vscode';
+import { getOutputChannel, log } from '../extension';
+import { FileService } from '../services/file-service';
+import { loadWorkflowIntoEditor, prepareEditorForLoad } from './open-editor';
+
+const AGENTS_DIR = path.join('.claude', 'agents');
+
+/**
+ * `.claude/agents/*.md` in the workspace, keyed by agent (file) name
+ */
+async function readAgentFiles(
+  fileService: FileService
+): Promise<Record<string, SubAgentFileSource>> {
+  const agentsDir = path.join(fileService.getWorkspacePath(), AGENTS_DIR);
+  let entries: [string, vscode.FileType][];
+  try {
+    entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(agentsDir));
+  } catch {
+    return {};
+  }
+
+  const files: Record<string, SubAgentFileSource> = {};
+  for (const [entry, type] of entries) {
+    if (type !== vscode.FileType.File || !entry.endsWith('.md')) continue;
+    files[entry.slice(0, -'.md'.length)] = {
+      content: await fileService.readFile(path.join(agentsDir, entry)),
+      filePath: `.claude/agents/${entry}`,
+    };
+  }
+  return files;
+}
+
+/**
+ * Resolve the file to import: the explorer selection, the active Markdown
+ * editor, or a file picker
+ */
+async function pickSourceFile(
+  uri: vscode.Uri | undefined,
+  fileService: FileService
+): Promise<vscode.Uri | undefined> {
+  if (uri) return uri;
+
+  const activeDocument = vscode.window.activeTextEditor?.document;
+  if (activeDocument?.uri.scheme === 'file' && activeDocument.fileName.endsWith('.md')) {
+    return activeDocument.uri;
+  }
+
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    defaultUri: vscode.Uri.file(path.join(fileService.getWorkspacePath(), '.claude', 'commands')),
+    filters: { Markdown: ['md'] },
+    openLabel: 'Import',
+    title: 'Import Slash Command or Skill',
+  });
+  return picked?.[0];
+}
+
+/**
+ * Register the import command
+ *
+ * @param context - VSCode extension context
+ */
+export function registerImportSlashCommandCommand(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cc-wf-studio.importSlashCommand', async (uri?: vscode.Uri) => {
+      try {
+        const fileService = new FileService();
+        const sourceUri = await pickSourceFile(uri, fileService);
+        if (!sourceUri) return;
+
+        const sourcePath = sourceUri.fsPath;
+        const isSkill = path.basename(sourcePath).toLowerCase() === 'skill.md';
+        const { workflow, report } = importSlashCommandMarkdown(
+          await fileService.readFile(sourcePath),
+          {
+            kind: isSkill ? 'skill' : 'command',
+            sourceName: isSkill
+              ? path.basename(path.dirname(sourcePath))
+              : path.basename(sourcePath, path.extname(sourcePath)),
+            subAgentFiles: await readAgentFiles(fileService),
+          }
+        );
+
+        await fileService.ensureWorkflowsDirectory();
+        const workflowPath = fileService.getWorkflowFilePath(workflow.name);
+        if (await fileService.fileExists(workflowPath)) {
+          const answer = await vscode.window.showWarningMessage(
+            `Workflow already exists: ${workflowPath}\n\nOverwrite?`,
+            { modal: true },
+            'Overwrite'
+          );
+          if (answer !== 'Overwrite') return;
+        }
+        await fileService.writeFile(workflowPath, JSON.stringify(workflow, null, 2));
+
+        const reportText = formatWorkflowImportReport(report);
+        log('INFO', 'Imported slash command as workflow', {
+          source: sourcePath,
+          workflowPath,
+        });
+        getOutputChannel().appendLine(reportText);
+
+        // Same hand-off as the workflow preview editor's "Open in Editor"
+        await vscode.commands.executeCommand('cc-wf-studio.openEditor');
+        prepareEditorForLoad(workflow.name);
+        setTimeout(async () => {
+          if (!(await loadWorkflowIntoEditor(workflow.name))) {
+            log('ERROR', 'Failed to load imported workflow into editor', {
+              workflowId: workflow.name,
+            });
+          }
+        }, 600);
+
+        const showReport = 'Show Report';
+        const message = `Imported ${path.basename(sourcePath)} as workflow "${workflow.name}"`;
+        const choice =
+          report.droppedFields.length > 0 || report.notes.length > 0
+            ? await vscode.window.showWarningMessage(
+                `${message} (${report.droppedFields.length + report.notes.length} items need review)`,
+                showReport
+              )
+            : await vscode.window.showInformationMessage(message, showReport);
+        if (choice === showReport) {
+          const document = await vscode.workspace.openTextDocument({
+            content: reportText,
+            language: 'plaintext',
+          });
+          await vscode.window.showTextDocument(document, { preview: true });
+        }
+      } catch (error) {
+        // WorkflowImportError messages already say what is wrong with the file
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        log('ERROR', 'Failed to import slash command', { error: message });
+        vscode.window.showErrorMessage(`Failed to import slash command: ${message}`);
+      }
+    })
+  );
+}
@@ -52,6 +52,8 @@ export async function loadWorkflowList(
             name: workflow.name || filename.replace('.json', ''),
             description: workflow.description,
             updatedAt: workflow.updatedAt || new Date().toISOString(),
+            ...(Array.isArray(workflow.parameters) &&
+              workflow.parameters.length > 0 && { parameters: workflow.parameters }),
           });
         } catch (error) {
           console.error(`Failed to parse workflow file ${filename}:`, error);
@@ -11,8 +11,10 @@
  */
 
 import type { McpServerReference } from '@cc-wf-studio/core/mcp';
+import { hashMcpCacheKey, withMcpCache } from '@cc-wf-studio/mcp';
 import * as vscode from 'vscode';
 import type {
+  CallMcpToolPayload,
   CheckMcpBearerTokenPayload,
   DeleteMcpBearerTokenPayload,
   GetMcpToolSchemaPayload,
@@ -20,28 +22,127 @@ import type {
   ListMcpServersPayload,
   McpCacheRefreshedPayload,
   McpServersResultPayload,
+  McpToolCallResultPayload,
   McpToolSchemaResultPayload,
   McpToolsResultPayload,
   RefreshMcpCachePayload,
   SaveMcpBearerTokenPayload,
 } from '../../shared/types/messages';
 import { log } from '../extension';
+import { invalidateAllCache, invalidateServerCache } from '../services/mcp-cache-service';
 import {
-  getCachedServerList,
-  invalidateAllCache,
-  setCachedServerList,
-} from '../services/mcp-cache-service';
-import { getToolSchema, getTools, listServers } from '../services/mcp-cli-service';
+  executeTool,
+  getToolSchema,
+  getTools,
+  listServers,
+  type McpExecutionError,
+} from '../services/mcp-cli-service';
 import {
   getAllMcpServersWithSource,
   type McpServerWithSource,
 } from '../services/mcp-config-reader';
 
+/**
+ * Thrown from the cache's fetch callback when no server could be listed at all
+ */
+class ListServersFailure extends Error {
+  constructor(readonly error: McpExecutionError | undefined) {
+    super(error?.message);
+  }
+}
+
+/**
+ * Execute 'claude mcp list' and merge in the servers from every config source
+ * (Claude Code, Copilot CLI, Codex CLI, ...)
+ *
+ * Environment variables are dropped: the list goes to the disk cache, and the
+ * Webview does not need them.
+ *
+ * @param workspaceFolder - Workspace folder for project-scoped MCP servers
+ * @param configServers - Servers from the config files
+ * @returns Merged server list
+ */
+async function collectMcpServers(
+  workspaceFolder: string | undefined,
+  configServers: McpServerWithSource[]
+): Promise<McpServerReference[]> {
+  const result = await listServers(workspaceFolder);
+
+  // Build config server lookup map for supplementing CLI results with accurate type/url
+  const configServerMap = new Map<string, McpServerWithSource>();
+  for (const configServer of configServers) {
+    const key = `${configServer.source || 'claude'}:${configServer.id}`;
+    if (!configServerMap.has(key)) {
+      configServerMap.set(key, configServer);
+    }
+  }
+
+  // Convert McpServerWithSource to McpServerReference
+  // Note: status is omitted because config readers can't determine connection status
+  const convertToServerReference = (server: McpServerWithSource): McpServerReference => ({
+    id: server.id,
+    name: server.id, // Use ID as name since config files don't have separate name
+    scope: 'user', // Config file servers are always user scope
+    // status is intentionally omitted - only Claude Code CLI can determine connection status
+    command: server.command || '',
+    args: server.args || [],
+    type: server.type || 'stdio',
+    url: server.url,
+    source: server.source,
+  });
+
+  // Combine CLI results and config file servers
+  // Use id + source combination as unique key to allow same server ID from different sources
+  const mergedServers: McpServerReference[] = [];
+  const seenServerKeys = new Set<string>();
+
+  // Helper to create unique key from id and source
+  const getServerKey = (id: string, source: string | undefined) => `${source || 'claude'}:${id}`;
+
+  if (result.success && result.data) {
+    // Add CLI results first (they have accurate status info)
+    // Supplement type/url from config files (CLI parser may hardcode type to 'stdio')
+    for (const { environment: _environment, ...server } of result.data) {
+      const key = getServerKey(server.id, server.source);
+      if (!seenServerKeys.has(key)) {
+        const configMatch = configServerMap.get(key);
+        if (configMatch) {
+          // Use config file's type and url (more accurate than CLI parser)
+          server.type = configMatch.type || server.type;
+          server.url = configMatch.url || server.url;
+        }
+        mergedServers.push(server);
+        seenServerKeys.add(key);
+      }
+    }
+  }
+
+  // Add servers from config files (Copilot CLI, Codex CLI, etc.)
+  // Same ID from different sources will be included
+  for (const configServer of configServers) {
+    const key = getServerKey(configServer.id, configServer.source);
+    if (!seenServerKeys.has(key)) {
+      mergedServers.push(convertToServerReference(configServer));
+      seenServerKeys.add(key);
+    }
+  }
+
+  // If no servers found at all, report error
+  if (mergedServers.length === 0 && !result.success) {
+    throw new ListServersFailure(result.error);
+  }
+
+  return mergedServers;
+}
+
 /**
  * Handle LIST_MCP_SERVERS request from Webview (T018)
  *
  * Executes 'claude mcp list' CLI command to retrieve all configured MCP servers.
- * Supports optional scope filtering and cache optimization.
+ * The result goes through the disk cache, keyed by the workspace and the
+ * server configs, so the (slow) health check of every server only runs when
+ * the cache entry is stale; a stale list is returned at once and refreshed
+ * in the background.
  *
  * @param payload - Server list request payload
  * @param webview - VSCode Webview instance
@@ -63,144 +164,29 @@ export async function handleListMcpServers(
     // Get workspace folder for project-scoped MCP servers
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 
-    // Check cache first
-    const cached = getCachedServerList();
-    if (cached) {
-      const executionTimeMs = Date.now() - startTime;
-      log('INFO', 'LIST_MCP_SERVERS cache hit', {
-        requestId,
-        serverCount: cached.length,
-        executionTimeMs,
-      });
-
-      // Apply scope filter if specified
-      const filteredServers = payload.options?.filterByScope
-        ? cached.filter((server) => payload.options?.filterByScope?.includes(server.scope))
-        : cached;
-
-      const resultPayload: McpServersResultPayload = {
-        success: true,
-        servers: filteredServers,
-        timestamp: new Date().toISOString(),
-        executionTimeMs,
-      };
-
-      webview.postMessage({
-        type: 'MCP_SERVERS_RESULT',
-        requestId,
-        payload: resultPayload,
-      });
-      return;
-    }
-
-    // Cache miss - execute CLI command with workspace folder
-    const result = await listServers(workspaceFolder);
-
     // Get servers from all config sources (Claude Code, Copilot CLI, Codex CLI)
     const configServers = getAllMcpServersWithSource(workspaceFolder);
 
-    // Build config server lookup map for supplementing CLI results with accurate type/url
-    const configServerMap = new Map<string, McpServerWithSource>();
-    for (const configServer of configServers) {
-      const key = `${configServer.source || 'claude'}:${configServer.id}`;
-      if (!configServerMap.has(key)) {
-        configServerMap.set(key, configServer);
-      }
-    }
-
-    // Convert McpServerWithSource to McpServerReference
-    // Note: status is omitted because config readers can't determine connection status
-    const convertToServerReference = (server: McpServerWithSource): McpServerReference => ({
-      id: server.id,
-      name: server.id, // Use ID as name since config files don't have separate name
-      scope: 'user', // Config file servers are always user scope
-      // status is intentionally omitted - only Claude Code CLI can determine connection status
-      command: server.command || '',
-      args: server.args || [],
-      type: server.type || 'stdio',
-      url: server.url,
-      environment: server.env,
-      source: server.source,
-    });
-
-    // Combine CLI results and config file servers
-    // Use id + source combination as unique key to allow same server ID from different sources
-    const mergedServers: McpServerReference[] = [];
-    const seenServerKeys = new Set<string>();
-
-    // Helper to create unique key from id and source
-    const getServerKey = (id: string, source: string | undefined) => `${source || 'claude'}:${id}`;
-
-    if (result.success && result.data) {
-      // Add CLI results first (they have accurate status info)
-      // Supplement type/url from config files (CLI parser may hardcode type to 'stdio')
-      for (const server of result.data) {
-        const key = getServerKey(server.id, server.source);
-        if (!seenServerKeys.has(key)) {
-          const configMatch = configServerMap.get(key);
-          if (configMatch) {
-            // Use config file's type and url (more accurate than CLI parser)
-            server.type = configMatch.type || server.type;
-            server.url = configMatch.url || server.url;
-          }
-          mergedServers.push(server);
-          seenServerKeys.add(key);
-        }
-      }
-    }
-
-    // Add servers from config files (Copilot CLI, Codex CLI, etc.)
-    // Same ID from different sources will be included
-    for (const configServer of configServers) {
-      const key = getServerKey(configServer.id, configServer.source);
-      if (!seenServerKeys.has(key)) {
-        mergedServers.push(convertToServerReference(configServer));
-        seenServerKeys.add(key);
-      }
-    }
-
+    const cached = await withMcpCache(
+      'servers',
+      hashMcpCacheKey({ workspaceFolder, configServers }),
+      workspaceFolder ?? '',
+      () => collectMcpServers(workspaceFolder, configServers)
+    );
     const executionTimeMs = Date.now() - startTime;
 
-    // If no servers found at all, report error
-    if (mergedServers.length === 0 && !result.success) {
-      log('ERROR', 'LIST_MCP_SERVERS failed', {
-        requestId,
-        errorCode: result.error?.code,
-        errorMessage: result.error?.message,
-        errorDetails: result.error?.details,
-        executionTimeMs,
-      });
-
-      const errorPayload: McpServersResultPayload = {
-        success: false,
-        error: result.error,
-        timestamp: new Date().toISOString(),
-        executionTimeMs,
-      };
-
-      webview.postMessage({
-        type: 'MCP_SERVERS_RESULT',
-        requestId,
-        payload: errorPayload,
-      });
-      return;
-    }
-
-    // Success - cache and return
-    setCachedServerList(mergedServers);
-
     log('INFO', 'LIST_MCP_SERVERS completed successfully', {
       requestId,
-      serverCount: mergedServers.length,
-      cliServerCount: result.data?.length ?? 0,
+      serverCount: cached.value.length,
       configServerCount: configServers.length,
+      cache: cached.source,
       executionTimeMs,
     });
 
     // Apply scope filter if specified
     const filteredServers = payload.options?.filterByScope
-      ? mergedServers.filter((server) => payload.options?.filterByScope?.includes(server.scope))
-      : mergedServers;
+      ? cached.value.filter((server) => payload.options?.filterByScope?.includes(server.scope))
+      : cached.value;
 
     const successPayload: McpServersResultPayload = {
       success: true,
@@ -217,20 +203,33 @@ export async function handleListMcpServers(
   } catch (error) {
     const executionTimeMs = Date.now() - startTime;
 
-    log('ERROR', 'LIST_MCP_SERVERS unexpected error', {
-      requestId,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      executionTimeMs,
-    });
+    if (error instanceof ListServersFailure) {
+      log('ERROR', 'LIST_MCP_SERVERS failed', {
+        requestId,
+        errorCode: error.error?.code,
+        errorMessage: error.error?.message,
+        errorDetails: error.error?.details,
+        executionTimeMs,
+      });
+    } else {
+      log('ERROR', 'LIST_MCP_SERVERS unexpected error', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTimeMs,
+      });
+    }
 
     const errorPayload: McpServersResultPayload = {
       success: false,
-      error: {
-        code: 'MCP_UNKNOWN_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error occurred',
-        details: error instanceof Error ? error.stack : undefined,
-      },
+      error:
+        error instanceof ListServersFailure
+          ? error.error
+          : {
+              code: 'MCP_UNKNOWN_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error occurred',
+              details: error instanceof Error ? error.stack : undefined,
+            },
       timestamp: new Date().toISOString(),
       executionTimeMs,
     };
@@ -472,18 +471,81 @@ export async function handleGetMcpToolSchema(
   }
 }
 
+/**
+ * Handle CALL_MCP_TOOL request from Webview ("Try it")
+ *
+ * Calls the tool once with the node's parameter values through the MCP SDK
+ * client and returns its output, so parameters can be checked without a
+ * full agent run.
+ *
+ * @param payload - Tool call request payload
+ * @param webview - VSCode Webview instance
+ * @param requestId - Request ID for response matching
+ */
+export async function handleCallMcpTool(
+  payload: CallMcpToolPayload,
+  webview: vscode.Webview,
+  requestId: string,
+  secretStorage?: vscode.SecretStorage
+): Promise<void> {
+  log('INFO', 'CALL_MCP_TOOL request started', {
+    requestId,
+    serverId: payload.serverId,
+    toolName: payload.toolName,
+  });
+
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const result = await executeTool(
+    payload.serverId,
+    payload.toolName,
+    payload.parameterValues ?? {},
+    workspaceFolder,
+    secretStorage
+  );
+
+  if (!result.success) {
+    log('ERROR', 'CALL_MCP_TOOL failed', {
+      requestId,
+      serverId: payload.serverId,
+      toolName: payload.toolName,
+      errorCode: result.error?.code,
+      errorMessage: result.error?.message,
+      errorDetails: result.error?.details,
+      executionTimeMs: result.executionTimeMs,
+    });
+  }
+
+  const resultPayload: McpToolCallResultPayload = {
+    success: result.success,
+    serverId: payload.serverId,
+    toolName: payload.toolName,
+    output: result.data,
+    error: result.error,
+    timestamp: new Date().toISOString(),
+    executionTimeMs: result.executionTimeMs,
+  };
+
+  webview.postMessage({
+    type: 'MCP_TOOL_CALL_RESULT',
+    requestId,
+    payload: resultPayload,
+  });
+}
+
 /**
  * Handle REFRESH_MCP_CACHE request from Webview
  *
- * Invalidates all in-memory MCP cache (server list, tools, schemas).
- * Useful when MCP servers are added/removed after initial load.
+ * Deletes the cached tools of one server (`serverId`), or the whole MCP
+ * cache including the server list — also on disk, so tool lists stored by
+ * `ccwf mcp-snapshot` are dropped too. Useful when MCP servers are added/removed or a server's
+ * tools changed.
  *
  * @param payload - Cache refresh request payload
  * @param webview - VSCode Webview instance
  * @param requestId - Request ID for response matching
  */
 export async function handleRefreshMcpCache(
-  _payload: RefreshMcpCachePayload,
+  payload: RefreshMcpCachePayload,
   webview: vscode.Webview,
   requestId: string
 ): Promise<void> {
@@ -491,11 +553,15 @@ export async function handleRefreshMcpCache(
 
   log('INFO', 'REFRESH_MCP_CACHE request started', {
     requestId,
+    serverId: payload.serverId,
   });
 
   try {
-    // Invalidate all MCP cache
-    invalidateAllCache();
+    if (payload.serverId) {
+      await invalidateServerCache(payload.serverId);
+    } else {
+      await invalidateAllCache();
+    }
 
     const executionTimeMs = Date.now() - startTime;
 
@@ -550,8 +616,7 @@ export async function handleSaveMcpBearerToken(
   log('INFO', 'SAVE_MCP_BEARER_TOKEN request', { serverId: payload.serverId });
   await secretStorage.store(`mcp-bearer-token-${payload.serverId}`, payload.token);
   // Invalidate cache so the next GET_MCP_TOOLS call retries with the new token
-  const { invalidateServerCache } = await import('../services/mcp-cache-service');
-  invalidateServerCache(payload.serverId);
+  await invalidateServerCache(payload.serverId);
   log('INFO', 'Bearer token saved and cache invalidated', { serverId: payload.serverId });
 }
 
@@ -570,8 +635,7 @@ export async function handleDeleteMcpBearerToken(
   log('INFO', 'DELETE_MCP_BEARER_TOKEN request', { serverId: payload.serverId });
   try {
     await secretStorage.delete(`mcp-bearer-token-${payload.serverId}`);
-    const { invalidateServerCache } = await import('../services/mcp-cache-service');
-    invalidateServerCache(payload.serverId);
+    await invalidateServerCache(payload.serverId);
     log('INFO', 'Bearer token deleted and cache invalidated', { serverId: payload.serverId });
     webview.postMessage({
       type: 'DELETE_MCP_BEARER_TOKEN_RESULT',
@@ -7,7 +7,11 @@
 
 import * as crypto from 'node:crypto';
 import * as path from 'node:path';
-import { migrateWorkflow, validateWorkflowFile } from '@cc-wf-studio/core';
+import {
+  generateProgressMarkerPrompt,
+  migrateWorkflow,
+  validateWorkflowFile,
+} from '@cc-wf-studio/core';
 import * as vscode from 'vscode';
 import type {
   AiEditingProvider,
@@ -75,7 +79,12 @@ import {
   handleRunForCopilot,
   handleRunForCopilotCli,
 } from './copilot-handlers';
+import { createWorkflowFromTemplate } from './create-workflow-from-template';
 import { handleExportForCursor, handleRunForCursor } from './cursor-handlers';
+import {
+  handleExportForCustomTarget,
+  handleListCustomExportTargets,
+} from './custom-target-handlers';
 import { handleExportWorkflow, handleExportWorkflowForExecution } from './export-workflow';
 import { handleExportForGeminiCli, handleRunForGeminiCli } from './gemini-handlers';
 import {
@@ -86,6 +95,7 @@ import {
 import { loadWorkflow } from './load-workflow';
 import { loadWorkflowList } from './load-workflow-list';
 import {
+  handleCallMcpTool,
   handleCheckMcpBearerToken,
   handleDeleteMcpBearerToken,
   handleGetMcpToolSchema,
@@ -503,7 +513,8 @@ export function registerOpenEditorCommand(
                 try {
                   const highlightEnabled = message.payload.highlightEnabled !== false;
 
-                  // First, export the workflow to .claude format
+                  // First, export the workflow to .claude format. Progress markers
+                  // are run-only, so they go in the launch prompt, not the export.
                   const exportResult = await handleExportWorkflowForExecution(
                     message.payload.workflow,
                     fileService,
@@ -530,6 +541,14 @@ export function registerOpenEditorCommand(
                     break;
                   }
 
+                  // Edits pulled back from hand-edited export files go to the canvas
+                  if (exportResult.pulledWorkflow) {
+                    webview.postMessage({
+                      type: 'LOAD_WORKFLOW',
+                      payload: { workflow: exportResult.pulledWorkflow },
+                    });
+                  }
+
                   // Auto-start MCP server if not running (for highlight_group_node support)
                   const workspacePath = fileService.getWorkspacePath();
                   try {
@@ -553,6 +572,7 @@ export function registerOpenEditorCommand(
                     workflowName: message.payload.workflow.name,
                     workingDirectory: workspacePath,
                     sessionId,
+                    appendSystemPrompt: generateProgressMarkerPrompt(message.payload.workflow),
                   });
 
                   executionSessionManager.start(
@@ -561,7 +581,8 @@ export function registerOpenEditorCommand(
                     message.payload.workflow.name,
                     workspacePath,
                     webview,
-                    result.terminal
+                    result.terminal,
+                    message.payload.workflow
                   );
 
                   // Start Commentary AI if enabled
@@ -1031,6 +1052,33 @@ export function registerOpenEditorCommand(
               }
               break;
 
+            case 'LIST_CUSTOM_EXPORT_TARGETS':
+              // List export targets declared in ccwf.config.json
+              await handleListCustomExportTargets(fileService, webview, message.requestId);
+              break;
+
+            case 'EXPORT_FOR_CUSTOM_TARGET':
+              // Export workflow for a ccwf.config.json export target
+              if (message.payload?.workflow && message.payload.targetId) {
+                await handleExportForCustomTarget(
+                  fileService,
+                  webview,
+                  message.payload,
+                  message.requestId
+                );
+              } else {
+                webview.postMessage({
+                  type: 'EXPORT_FOR_CUSTOM_TARGET_FAILED',
+                  requestId: message.requestId,
+                  payload: {
+                    errorCode: 'UNKNOWN_ERROR',
+                    errorMessage: 'Workflow and target are required',
+                    timestamp: new Date().toISOString(),
+                  },
+                });
+              }
+              break;
+
             case 'LOAD_WORKFLOW_LIST':
               // Load workflow list
               await loadWorkflowList(fileService, webview, message.requestId);
@@ -1059,6 +1107,26 @@ export function registerOpenEditorCommand(
               }
               break;
 
+            case 'CREATE_WORKFLOW_FROM_TEMPLATE':
+              if (message.payload?.workflowId && message.payload.name) {
+                await createWorkflowFromTemplate(
+                  fileService,
+                  webview,
+                  message.payload,
+                  message.requestId
+                );
+              } else {
+                webview.postMessage({
+                  type: 'ERROR',
+                  requestId: message.requestId,
+                  payload: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Template workflow ID and name are required',
+                  },
+                });
+              }
+              break;
+
             case 'LIST_SAMPLE_WORKFLOWS':
               await listSampleWorkflows(context.extensionPath, webview, message.requestId);
               break;
@@ -1350,6 +1418,27 @@ export function registerOpenEditorCommand(
               }
               break;
 
+            case 'CALL_MCP_TOOL':
+              // Call a tool once with the node's parameter values ("Try it")
+              if (message.payload?.serverId && message.payload?.toolName) {
+                await handleCallMcpTool(
+                  message.payload,
+                  webview,
+                  message.requestId || '',
+                  context.secrets
+                );
+              } else {
+                webview.postMessage({
+                  type: 'ERROR',
+                  requestId: message.requestId,
+                  payload: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Server ID and Tool Name are required',
+                  },
+                });
+              }
+              break;
+
             case 'SAVE_MCP_BEARER_TOKEN':
               if (message.payload?.serverId && message.payload?.token) {
                 await handleSaveMcpBearerToken(message.payload, context.secrets);
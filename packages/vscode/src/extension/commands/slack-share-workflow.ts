@@ -7,6 +7,12 @@
  * Based on specs/001-slack-workflow-sharing/contracts/extension-host-api-contracts.md
  */
 
+import {
+  detectSensitiveData,
+  EMPTY_PROJECT_CONFIG,
+  getCustomSensitivePatterns,
+} from '@cc-wf-studio/core';
+import { readProjectConfig } from '@cc-wf-studio/mcp';
 import * as vscode from 'vscode';
 import type { ShareWorkflowToSlackPayload } from '../../shared/types/messages';
 import { log } from '../extension';
@@ -17,7 +23,7 @@ import type {
   ShareWorkflowFailedEvent,
   ShareWorkflowSuccessEvent,
 } from '../types/slack-messages';
-import { detectSensitiveData } from '../utils/sensitive-data-detector';
+import { getWorkspaceRoot } from '../utils/path-utils';
 import { handleSlackError, type SlackErrorInfo } from '../utils/slack-error-handler';
 import type { WorkflowMessageBlock } from '../utils/slack-message-builder';
 
@@ -52,7 +58,11 @@ export async function handleShareWorkflowToSlack(
 
     // Step 1: Detect sensitive data (if not overriding warning)
     if (!payload.overrideSensitiveWarning) {
-      const findings = detectSensitiveData(workflowContent);
+      const workspaceRoot = getWorkspaceRoot();
+      const config = workspaceRoot ? await readProjectConfig(workspaceRoot) : EMPTY_PROJECT_CONFIG;
+      const findings = detectSensitiveData(workflowContent, {
+        customPatterns: getCustomSensitivePatterns(config),
+      });
 
       if (findings.length > 0) {
         log('WARN', 'Sensitive data detected in workflow', {
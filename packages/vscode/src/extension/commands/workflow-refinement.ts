@@ -5,7 +5,7 @@
  * Based on: /specs/001-ai-workflow-refinement/quickstart.md Section 2.2
  */
 
-import type { ConversationMessage } from '@cc-wf-studio/core';
+import type { ConversationMessage, RefinementRepair } from '@cc-wf-studio/core';
 import type * as vscode from 'vscode';
 import type {
   CancelRefinementPayload,
@@ -23,8 +23,13 @@ import { log } from '../extension';
 import { cancelAiRequest } from '../services/ai-provider';
 import {
   DEFAULT_REFINEMENT_TIMEOUT_MS,
+  MAX_REFINEMENT_REPAIR_ATTEMPTS,
+  MIN_REFINEMENT_REPAIR_TIME_MS,
+  type RefinementResult,
   refineSubAgentFlow,
   refineWorkflow,
+  type SubAgentFlowRefinementResult,
+  type ValidationErrorInfo,
 } from '../services/refinement-service';
 
 /**
@@ -60,6 +65,7 @@ export async function handleRefineWorkflow(
     codexModel = '',
     codexReasoningEffort = 'low',
     useCodex = false,
+    outputMode = 'workflow',
   } = payload;
   const startTime = Date.now();
 
@@ -85,6 +91,7 @@ export async function handleRefineWorkflow(
     copilotModel,
     codexModel,
     codexReasoningEffort,
+    outputMode,
   });
 
   // Route to SubAgentFlow refinement if targetType is 'subAgentFlow'
@@ -139,25 +146,80 @@ export async function handleRefineWorkflow(
     };
 
     // Execute refinement with streaming
-    const result = await refineWorkflow(
-      currentWorkflow,
-      conversationHistory,
-      userMessage,
-      extensionPath,
-      useSkills,
-      effectiveTimeoutMs,
-      requestId,
-      workspaceRoot,
-      onProgress,
-      model,
-      allowedTools,
+    const runRefinement = (
+      validationErrors: ValidationErrorInfo[] | undefined,
+      sessionId: string | undefined,
+      attemptTimeoutMs: number
+    ) =>
+      refineWorkflow(
+        currentWorkflow,
+        { ...conversationHistory, sessionId },
+        userMessage,
+        extensionPath,
+        useSkills,
+        attemptTimeoutMs,
+        requestId,
+        workspaceRoot,
+        onProgress,
+        model,
+        allowedTools,
+        validationErrors,
+        provider,
+        copilotModel,
+        codexModel,
+        codexReasoningEffort,
+        useCodex,
+        outputMode
+      );
+
+    let result: RefinementResult = await runRefinement(
       previousValidationErrors,
-      provider,
-      copilotModel,
-      codexModel,
-      codexReasoningEffort,
-      useCodex
+      conversationHistory.sessionId,
+      effectiveTimeoutMs
     );
+    let executionTimeMs = result.executionTimeMs;
+    let sessionReconnected = result.sessionReconnected ?? false;
+
+    // Self-repair: send validation errors back to the AI instead of the user.
+    // Every round refines the original workflow, so in patch mode the prompt
+    // asks for the complete operation list again.
+    const repairs: RefinementRepair[] = [];
+    while (
+      !result.success &&
+      result.error?.code === 'VALIDATION_ERROR' &&
+      result.validationErrors &&
+      result.validationErrors.length > 0 &&
+      repairs.length < MAX_REFINEMENT_REPAIR_ATTEMPTS
+    ) {
+      // 0 means no timeout; otherwise repairs share what is left of it
+      const remainingMs =
+        effectiveTimeoutMs > 0 ? effectiveTimeoutMs - (Date.now() - startTime) : 0;
+      if (effectiveTimeoutMs > 0 && remainingMs < MIN_REFINEMENT_REPAIR_TIME_MS) {
+        log('WARN', 'Not enough time left for a repair round', {
+          requestId,
+          workflowId,
+          remainingMs,
+        });
+        break;
+      }
+
+      repairs.push({ errors: result.validationErrors });
+      log('INFO', 'Refined workflow failed validation, starting repair round', {
+        requestId,
+        workflowId,
+        attempt: repairs.length,
+        maxAttempts: MAX_REFINEMENT_REPAIR_ATTEMPTS,
+        validationErrors: result.validationErrors,
+      });
+
+      result = await runRefinement(
+        result.validationErrors,
+        result.newSessionId || conversationHistory.sessionId,
+        remainingMs
+      );
+      executionTimeMs += result.executionTimeMs;
+      sessionReconnected = sessionReconnected || (result.sessionReconnected ?? false);
+    }
 
     // Check if AI is asking for clarification
     if (result.success && result.clarificationMessage && !result.refinedWorkflow) {
@@ -166,7 +228,7 @@ export async function handleRefineWorkflow(
         requestId,
         workflowId,
         messagePreview: result.clarificationMessage.substring(0, 100),
-        executionTimeMs: result.executionTimeMs,
+        executionTimeMs,
       });
 
       // Create AI clarification message
@@ -204,9 +266,9 @@ export async function handleRefineWorkflow(
       sendRefinementClarification(webview, requestId, {
         aiMessage,
         updatedConversationHistory: updatedHistory,
-        executionTimeMs: result.executionTimeMs,
+        executionTimeMs,
         timestamp: new Date().toISOString(),
-        sessionReconnected: result.sessionReconnected,
+        sessionReconnected,
       });
       return;
     }
@@ -219,7 +281,8 @@ export async function handleRefineWorkflow(
         errorCode: result.error?.code,
         errorMessage: result.error?.message,
         validationErrors: result.validationErrors,
-        executionTimeMs: result.executionTimeMs,
+        repairAttempts: repairs.length,
+        executionTimeMs,
       });
 
       sendRefinementFailed(webview, requestId, {
@@ -227,7 +290,7 @@ export async function handleRefineWorkflow(
           code: 'UNKNOWN_ERROR',
           message: 'Unknown error occurred during refinement',
         },
-        executionTimeMs: result.executionTimeMs,
+        executionTimeMs,
         timestamp: new Date().toISOString(),
         validationErrors: result.validationErrors,
       });
@@ -241,6 +304,7 @@ export async function handleRefineWorkflow(
       content: result.aiMessage || 'Workflow has been updated.', // AI message or fallback
       translationKey: result.aiMessage ? undefined : 'refinement.success.defaultMessage',
       timestamp: new Date().toISOString(),
+      ...(repairs.length > 0 && { repairs }),
     };
 
     // Create user message
@@ -266,18 +330,20 @@ export async function handleRefineWorkflow(
     log('INFO', 'Workflow refinement successful', {
       requestId,
       workflowId,
-      executionTimeMs: result.executionTimeMs,
+      executionTimeMs,
+      repairAttempts: repairs.length,
       newIteration: updatedHistory.currentIteration,
       totalMessages: updatedHistory.messages.length,
     });
 
     sendRefinementSuccess(webview, requestId, {
       refinedWorkflow: result.refinedWorkflow,
+      patchOperations: result.patchOperations,
       aiMessage,
       updatedConversationHistory: updatedHistory,
-      executionTimeMs: result.executionTimeMs,
+      executionTimeMs,
       timestamp: new Date().toISOString(),
-      sessionReconnected: result.sessionReconnected,
+      sessionReconnected,
     });
   } catch (error) {
     const executionTimeMs = Date.now() - startTime;
@@ -326,6 +392,7 @@ async function handleRefineSubAgentFlow(
     subAgentFlowId,
     model = 'sonnet',
     allowedTools,
+    previousValidationErrors,
     provider = 'claude-code',
     copilotModel = 'gpt-4o',
     codexModel = '',
@@ -417,23 +484,73 @@ async function handleRefineSubAgentFlow(
     }
 
     // Execute SubAgentFlow refinement
-    const result = await refineSubAgentFlow(
-      { nodes: subAgentFlow.nodes, connections: subAgentFlow.connections },
-      conversationHistory,
-      userMessage,
-      extensionPath,
-      useSkills,
-      effectiveTimeoutMs,
-      requestId,
-      workspaceRoot,
-      model,
-      allowedTools,
-      provider,
-      copilotModel,
-      codexModel,
-      codexReasoningEffort,
-      useCodex
+    const runRefinement = (
+      validationErrors: ValidationErrorInfo[] | undefined,
+      attemptTimeoutMs: number
+    ) =>
+      refineSubAgentFlow(
+        { nodes: subAgentFlow.nodes, connections: subAgentFlow.connections },
+        conversationHistory,
+        userMessage,
+        extensionPath,
+        useSkills,
+        attemptTimeoutMs,
+        requestId,
+        workspaceRoot,
+        model,
+        allowedTools,
+        provider,
+        copilotModel,
+        codexModel,
+        codexReasoningEffort,
+        useCodex,
+        validationErrors
+      );
+
+    let result: SubAgentFlowRefinementResult = await runRefinement(
+      previousValidationErrors,
+      effectiveTimeoutMs
     );
+    let executionTimeMs = result.executionTimeMs;
+    let sessionReconnected = result.sessionReconnected ?? false;
+
+    // Self-repair: send validation errors back to the AI instead of the user
+    const repairs: RefinementRepair[] = [];
+    while (
+      !result.success &&
+      (result.error?.code === 'VALIDATION_ERROR' ||
+        result.error?.code === 'PROHIBITED_NODE_TYPE') &&
+      result.validationErrors &&
+      result.validationErrors.length > 0 &&
+      repairs.length < MAX_REFINEMENT_REPAIR_ATTEMPTS
+    ) {
+      // 0 means no timeout; otherwise repairs share what is left of it
+      const remainingMs =
+        effectiveTimeoutMs > 0 ? effectiveTimeoutMs - (Date.now() - startTime) : 0;
+      if (effectiveTimeoutMs > 0 && remainingMs < MIN_REFINEMENT_REPAIR_TIME_MS) {
+        log('WARN', 'Not enough time left for a SubAgentFlow repair round', {
+          requestId,
+          workflowId,
+          subAgentFlowId,
+          remainingMs,
+        });
+        break;
+      }
+
+      repairs.push({ errors: result.validationErrors });
+      log('INFO', 'Refined SubAgentFlow failed validation, starting repair round', {
+        requestId,
+        workflowId,
+        subAgentFlowId,
+        attempt: repairs.length,
+        maxAttempts: MAX_REFINEMENT_REPAIR_ATTEMPTS,
+        validationErrors: result.validationErrors,
+      });
+
+      result = await runRefinement(result.validationErrors, remainingMs);
+      executionTimeMs += result.executionTimeMs;
+      sessionReconnected = sessionReconnected || (result.sessionReconnected ?? false);
+    }
 
     // Check if AI is asking for clarification
     if (result.success && result.clarificationMessage && !result.refinedInnerWorkflow) {
@@ -442,7 +559,7 @@ async function handleRefineSubAgentFlow(
         workflowId,
         subAgentFlowId,
         messagePreview: result.clarificationMessage.substring(0, 100),
-        executionTimeMs: result.executionTimeMs,
+        executionTimeMs,
       });
 
       // Create AI clarification message
@@ -481,9 +598,9 @@ async function handleRefineSubAgentFlow(
       sendRefinementClarification(webview, requestId, {
         aiMessage,
         updatedConversationHistory: updatedHistory,
-        executionTimeMs: result.executionTimeMs,
+        executionTimeMs,
         timestamp: new Date().toISOString(),
-        sessionReconnected: result.sessionReconnected,
+        sessionReconnected,
       });
       return;
     }
@@ -496,7 +613,9 @@ async function handleRefineSubAgentFlow(
         subAgentFlowId,
         errorCode: result.error?.code,
         errorMessage: result.error?.message,
-        executionTimeMs: result.executionTimeMs,
+        validationErrors: result.validationErrors,
+        repairAttempts: repairs.length,
+        executionTimeMs,
       });
 
       sendRefinementFailed(webview, requestId, {
@@ -504,8 +623,9 @@ async function handleRefineSubAgentFlow(
           code: 'UNKNOWN_ERROR',
           message: 'Unknown error occurred during SubAgentFlow refinement',
         },
-        executionTimeMs: result.executionTimeMs,
+        executionTimeMs,
         timestamp: new Date().toISOString(),
+        validationErrors: result.validationErrors,
       });
       return;
     }
@@ -519,6 +639,7 @@ async function handleRefineSubAgentFlow(
         ? undefined
         : 'subAgentFlow.refinement.success.defaultMessage',
       timestamp: new Date().toISOString(),
+      ...(repairs.length > 0 && { repairs }),
     };
 
     // Create user message
@@ -542,7 +663,7 @@ async function handleRefineSubAgentFlow(
       requestId,
       workflowId,
       subAgentFlowId,
-      executionTimeMs: result.executionTimeMs,
+      executionTimeMs,
       newIteration: updatedHistory.currentIteration,
       totalMessages: updatedHistory.messages.length,
     });
@@ -553,9 +674,9 @@ async function handleRefineSubAgentFlow(
       refinedInnerWorkflow: result.refinedInnerWorkflow,
       aiMessage,
       updatedConversationHistory: updatedHistory,
-      executionTimeMs: result.executionTimeMs,
+      executionTimeMs,
       timestamp: new Date().toISOString(),
-      sessionReconnected: result.sessionReconnected,
+      sessionReconnected,
     });
   } catch (error) {
     const executionTimeMs = Date.now() - startTime;
@@ -5,6 +5,7 @@
  */
 
 import * as vscode from 'vscode';
+import { registerImportSlashCommandCommand } from './commands/import-slash-command';
 import { registerOpenEditorCommand } from './commands/open-editor';
 import { handleConnectSlackManual } from './commands/slack-connect-manual';
 import { WorkflowPreviewEditorProvider } from './editors/workflow-preview-editor-provider';
@@ -77,6 +78,7 @@ export function activate(context: vscode.ExtensionContext): void {
 
   // Register commands
   registerOpenEditorCommand(context);
+  registerImportSlashCommandCommand(context);
 
   // Register custom editor provider for workflow preview
   context.subscriptions.push(WorkflowPreviewEditorProvider.register(context));
@@ -9,7 +9,7 @@
 
 import * as path from 'node:path';
 import type { AgentSkillProvider, Workflow } from '@cc-wf-studio/core';
-import { agentSkillFilePath, planAgentSkillFiles } from '@cc-wf-studio/core';
+import { agentSkillFilePath, inspectExportedFile, planAgentSkillFiles } from '@cc-wf-studio/core';
 import type { FileService } from './file-service';
 
 export interface AgentSkillIoResult {
@@ -21,6 +21,11 @@ export interface AgentSkillIoResult {
   errors?: string[];
 }
 
+/**
+ * Path of an existing SKILL.md that would be overwritten, or null. A file
+ * that is ccwf's unedited output (its content-hash marker still matches) is
+ * replaced without asking.
+ */
 export async function checkExistingAgentSkill(
   workflow: Workflow,
   agent: AgentSkillProvider,
@@ -28,7 +33,19 @@ export async function checkExistingAgentSkill(
 ): Promise<string | null> {
   const workspacePath = fileService.getWorkspacePath();
   const skillPath = path.join(workspacePath, ...agentSkillFilePath(workflow, agent).split('/'));
-  return (await fileService.fileExists(skillPath)) ? skillPath : null;
+  return checkEditedFile(skillPath, fileService);
+}
+
+/**
+ * `filePath` when it exists and is not ccwf's unedited output, else null
+ */
+export async function checkEditedFile(
+  filePath: string,
+  fileService: FileService
+): Promise<string | null> {
+  if (!(await fileService.fileExists(filePath))) return null;
+  const state = inspectExportedFile(await fileService.readFile(filePath));
+  return state === 'unchanged' ? null : filePath;
 }
 
 export async function exportWorkflowAsAgentSkill(
@@ -23,6 +23,8 @@ export interface CommentaryEvent {
 export type CommentaryEventCallback = (events: CommentaryEvent[]) => void;
 export type ClaudeTurnStatus = 'running' | 'waiting' | 'failed';
 export type ClaudeTurnStatusCallback = (status: ClaudeTurnStatus, timestamp: string) => void;
+/** Receives every parsed transcript entry, unfiltered (used for node-level tracking). */
+export type TranscriptEntryCallback = (entry: Record<string, unknown>) => void;
 
 /**
  * Resolve the JSONL file path for a given session ID.
@@ -64,6 +66,7 @@ export class CommentaryJsonlWatcher {
   private readonly workspacePath: string;
   private readonly callback: CommentaryEventCallback;
   private readonly statusCallback?: ClaudeTurnStatusCallback;
+  private readonly entryCallback?: TranscriptEntryCallback;
   private readonly pollIntervalMs: number;
 
   constructor(
@@ -71,13 +74,15 @@ export class CommentaryJsonlWatcher {
     workspacePath: string,
     callback: CommentaryEventCallback,
     pollIntervalMs = 500,
-    statusCallback?: ClaudeTurnStatusCallback
+    statusCallback?: ClaudeTurnStatusCallback,
+    entryCallback?: TranscriptEntryCallback
   ) {
     this.sessionId = sessionId;
     this.workspacePath = workspacePath;
     this.callback = callback;
     this.pollIntervalMs = pollIntervalMs;
     this.statusCallback = statusCallback;
+    this.entryCallback = entryCallback;
 
     log('INFO', 'CommentaryJsonlWatcher initialized', {
       sessionId,
@@ -146,6 +151,7 @@ export class CommentaryJsonlWatcher {
       for (const line of newLines) {
         try {
           const parsed = JSON.parse(line);
+          this.entryCallback?.(parsed);
           this.notifyTurnStatus(parsed);
           const event = this.filterEvent(parsed);
           if (event) events.push(event);
@@ -7,7 +7,11 @@
 
 import * as path from 'node:path';
 import type { Workflow } from '@cc-wf-studio/core';
-import { generateExecutionInstructions, generateMermaidFlowchart } from '@cc-wf-studio/core';
+import {
+  generateExecutionInstructions,
+  generateMermaidFlowchart,
+  parametersArgumentHint,
+} from '@cc-wf-studio/core';
 import { escapeYamlString, nodeNameToFileName } from './export-service';
 import type { FileService } from './file-service';
 import { getMcpServerConfig } from './mcp-config-reader';
@@ -345,11 +349,11 @@ function generateCopilotPromptFile(
     frontmatterLines.push(`description: ${escapeYamlString(workflow.name)}`);
   }
 
-  // Add argument-hint if configured (with YAML escaping)
-  if (workflow.slashCommandOptions?.argumentHint) {
-    frontmatterLines.push(
-      `argument-hint: ${escapeYamlString(workflow.slashCommandOptions.argumentHint)}`
-    );
+  // Add argument-hint if configured, else derived from template parameters (with YAML escaping)
+  const argumentHint =
+    workflow.slashCommandOptions?.argumentHint || parametersArgumentHint(workflow.parameters);
+  if (argumentHint) {
+    frontmatterLines.push(`argument-hint: ${escapeYamlString(argumentHint)}`);
   }
 
   // Add agent mode
@@ -0,0 +1,95 @@
+/**
+ * Custom Target Export — export to the agents declared under `exportTargets`
+ * in the workspace's `ccwf.config.json`.
+ *
+ * Planning lives in core (`planCustomTargetFiles`), the same planner
+ * `ccwf export --agent <id>` uses; this service reads the config and walks
+ * the plan via `FileService`, like `agent-skill-export-helper.ts` does for the
+ * built-in providers.
+ */
+
+import * as path from 'node:path';
+import type { CustomExportTarget, Workflow } from '@cc-wf-studio/core';
+import {
+  collectIgnoredFieldWarnings,
+  collectParallelFallbackWarnings,
+  customTargetSkillFilePath,
+  getCustomExportTargets,
+  planCustomTargetFiles,
+} from '@cc-wf-studio/core';
+import { readProjectConfig } from '@cc-wf-studio/mcp';
+import { type AgentSkillIoResult, checkEditedFile } from './agent-skill-export-helper';
+import type { FileService } from './file-service';
+
+export interface CustomTargetExportResult extends AgentSkillIoResult {
+  /** Fields and features the target does not support (empty on failure). */
+  warnings: string[];
+}
+
+/**
+ * Custom export targets declared in the workspace's `ccwf.config.json`.
+ * Throws `ProjectConfigError` when the config is invalid.
+ */
+export async function listCustomExportTargets(
+  fileService: FileService
+): Promise<CustomExportTarget[]> {
+  return getCustomExportTargets(await readProjectConfig(fileService.getWorkspacePath()));
+}
+
+/** Like `checkExistingAgentSkill`: null when there is no file or it is unedited. */
+export async function checkExistingCustomTargetSkill(
+  workflow: Workflow,
+  target: CustomExportTarget,
+  fileService: FileService
+): Promise<string | null> {
+  const workspacePath = fileService.getWorkspacePath();
+  const skillPath = path.join(
+    workspacePath,
+    ...customTargetSkillFilePath(workflow, target).split('/')
+  );
+  return checkEditedFile(skillPath, fileService);
+}
+
+export async function exportWorkflowForCustomTarget(
+  workflow: Workflow,
+  target: CustomExportTarget,
+  fileService: FileService,
+  options?: { highlightEnabled?: boolean }
+): Promise<CustomTargetExportResult> {
+  try {
+    const workspacePath = fileService.getWorkspacePath();
+    const plan = planCustomTargetFiles(workflow, target, options);
+    const skillFile = plan[0];
+    let skillAbsPath = '';
+
+    const ensuredDirs = new Set<string>();
+    for (const planned of plan) {
+      const absPath = path.join(workspacePath, ...planned.relativePath.split('/'));
+      const dir = path.dirname(absPath);
+      if (!ensuredDirs.has(dir)) {
+        await fileService.createDirectory(dir);
+        ensuredDirs.add(dir);
+      }
+      await fileService.writeFile(absPath, planned.contents);
+      if (planned === skillFile) skillAbsPath = absPath;
+    }
+
+    return {
+      success: true,
+      skillPath: skillAbsPath,
+      skillName: skillFile?.sourceName ?? workflow.name,
+      warnings: [
+        ...collectIgnoredFieldWarnings(workflow, target),
+        ...collectParallelFallbackWarnings(workflow, target),
+      ],
+    };
+  } catch (error) {
+    return {
+      success: false,
+      skillPath: '',
+      skillName: '',
+      warnings: [],
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+    };
+  }
+}
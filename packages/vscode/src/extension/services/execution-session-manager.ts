@@ -1,3 +1,10 @@
+import {
+  getTrackableNodes,
+  NodeProgressTracker,
+  type NodeProgressUpdate,
+  stripNodeProgressMarkers,
+  type Workflow,
+} from '@cc-wf-studio/core';
 import * as vscode from 'vscode';
 import type { ExecutionSessionPayload } from '../../shared/types/messages';
 import { CommentaryJsonlWatcher } from './commentary-jsonl-watcher';
@@ -7,10 +14,15 @@ import { CommentaryJsonlWatcher } from './commentary-jsonl-watcher';
  *
  * Claude Code is launched with a known session id. Its local JSONL transcript
  * supplies activity while VS Code terminal lifecycle supplies the coarse run
- * lifecycle. This intentionally does not claim node-level completion.
+ * lifecycle. When the run belongs to a workflow, transcript entries are also
+ * mapped to node IDs by `NodeProgressTracker` (progress markers plus
+ * Task / Skill / MCP tool calls), so the panel and canvas can show which node
+ * is running, finished, or failed.
  */
 export class ExecutionSessionManager {
   private watcher: CommentaryJsonlWatcher | null = null;
+  private tracker: NodeProgressTracker | null = null;
+  private nodeNames = new Map<string, string>();
   private terminalDisposable: vscode.Disposable | null = null;
   private session: ExecutionSessionPayload | null = null;
   private webview: vscode.Webview | null = null;
@@ -22,7 +34,8 @@ export class ExecutionSessionManager {
     workflowName: string,
     workspacePath: string,
     webview: vscode.Webview,
-    terminal: vscode.Terminal
+    terminal: vscode.Terminal,
+    workflow?: Workflow
   ): void {
     this.stop(false);
     this.webview = webview;
@@ -37,6 +50,16 @@ export class ExecutionSessionManager {
       startedAt: now,
       updatedAt: now,
     };
+    if (workflow) {
+      const trackableNodes = getTrackableNodes(workflow);
+      this.tracker = new NodeProgressTracker(workflow);
+      this.nodeNames = new Map(trackableNodes.map((n) => [n.id, n.name]));
+      this.session = {
+        ...this.session,
+        nodeStatuses: {},
+        trackedNodeCount: trackableNodes.length,
+      };
+    }
     this.postUpdate();
 
     this.watcher = new CommentaryJsonlWatcher(
@@ -50,7 +73,7 @@ export class ExecutionSessionManager {
           updatedAt: latest.timestamp,
           lastActivity: {
             type: latest.type,
-            summary: latest.content.replace(/\s+/g, ' ').slice(0, 160),
+            summary: stripNodeProgressMarkers(latest.content).replace(/\s+/g, ' ').slice(0, 160),
           },
         };
         this.postUpdate();
@@ -64,6 +87,16 @@ export class ExecutionSessionManager {
           updatedAt: timestamp,
           ...(status === 'running' ? { lastActivity: undefined } : {}),
         };
+        if (status === 'failed' && this.tracker) {
+          this.applyNodeUpdates(this.tracker.failRunningNodes(timestamp));
+        }
+        this.postUpdate();
+      },
+      (entry) => {
+        if (!this.tracker || !this.session) return;
+        const updates = this.tracker.ingest(entry);
+        if (updates.length === 0) return;
+        this.applyNodeUpdates(updates);
         this.postUpdate();
       }
     );
@@ -86,14 +119,18 @@ export class ExecutionSessionManager {
     this.terminalDisposable?.dispose();
     this.terminalDisposable = null;
     if (markEnded && this.session) {
+      const now = new Date().toISOString();
+      // A node still running when the terminal closes never finished.
+      if (this.tracker) this.applyNodeUpdates(this.tracker.failRunningNodes(now));
       this.session = {
         ...this.session,
         status: 'ended',
-        updatedAt: new Date().toISOString(),
+        updatedAt: now,
       };
       this.postUpdate();
     }
     this.terminal = null;
+    this.tracker = null;
     if (!markEnded) this.session = null;
   }
 
@@ -102,6 +139,29 @@ export class ExecutionSessionManager {
     this.webview = null;
   }
 
+  /** Fold tracker updates into the session payload and recompute the current node. */
+  private applyNodeUpdates(updates: NodeProgressUpdate[]): void {
+    if (!this.session || updates.length === 0) return;
+    const nodeStatuses = { ...this.session.nodeStatuses };
+    let currentNodeId = this.session.currentNode?.id;
+    for (const update of updates) {
+      nodeStatuses[update.nodeId] = update.status;
+      if (update.status === 'running') currentNodeId = update.nodeId;
+    }
+    if (currentNodeId && nodeStatuses[currentNodeId] !== 'running') {
+      // The current node finished: fall back to any other node still running.
+      currentNodeId = Object.keys(nodeStatuses).find((id) => nodeStatuses[id] === 'running');
+    }
+    this.session = {
+      ...this.session,
+      nodeStatuses,
+      currentNode: currentNodeId
+        ? { id: currentNodeId, name: this.nodeNames.get(currentNodeId) ?? currentNodeId }
+        : undefined,
+      updatedAt: updates[updates.length - 1].timestamp,
+    };
+  }
+
   private postUpdate(): void {
     if (this.session) {
       this.webview?.postMessage({ type: 'EXECUTION_SESSION_UPDATED', payload: this.session });
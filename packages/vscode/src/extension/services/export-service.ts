@@ -12,8 +12,8 @@
  */
 
 import * as path from 'node:path';
-import type { Workflow } from '@cc-wf-studio/core';
-import { planWorkflowExportFiles } from '@cc-wf-studio/core';
+import type { PlannedExportFile, Workflow } from '@cc-wf-studio/core';
+import { inspectExportedFile, planWorkflowExportFiles } from '@cc-wf-studio/core';
 import type { FileService } from './file-service';
 
 /** Convert a forward-slash relative path (from the planner) to an OS-native one. */
@@ -22,21 +22,39 @@ function joinRelative(workspacePath: string, relativePath: string): string {
 }
 
 /**
- * Check if any planned export files already exist on disk.
+ * A planned export file that exists on disk and is not ccwf's unedited output
+ */
+export interface ExistingExportFile {
+  planned: PlannedExportFile;
+  filePath: string;
+  /** `edited` since the last export, or `unmarked` (not written by ccwf) */
+  state: 'edited' | 'unmarked';
+  /** Contents on disk */
+  contents: string;
+}
+
+/**
+ * Check if any planned export files already exist on disk. Files whose
+ * content-hash marker still matches are ccwf's own output and are replaced
+ * without asking, so they are not reported.
  *
- * @returns Array of existing absolute file paths (empty if no conflicts)
+ * @returns Existing files that were edited or not written by ccwf (empty if no conflicts)
  */
 export async function checkExistingFiles(
   workflow: Workflow,
-  fileService: FileService
-): Promise<string[]> {
-  const existingFiles: string[] = [];
+  fileService: FileService,
+  options?: { highlightEnabled?: boolean; progressMarkers?: boolean }
+): Promise<ExistingExportFile[]> {
+  const existingFiles: ExistingExportFile[] = [];
   const workspacePath = fileService.getWorkspacePath();
 
-  for (const planned of planWorkflowExportFiles(workflow)) {
+  for (const planned of planWorkflowExportFiles(workflow, options)) {
     const filePath = joinRelative(workspacePath, planned.relativePath);
-    if (await fileService.fileExists(filePath)) {
-      existingFiles.push(filePath);
+    if (!(await fileService.fileExists(filePath))) continue;
+    const contents = await fileService.readFile(filePath);
+    const state = inspectExportedFile(contents);
+    if (state !== 'unchanged') {
+      existingFiles.push({ planned, filePath, state, contents });
     }
   }
 
@@ -46,17 +64,23 @@ export async function checkExistingFiles(
 /**
  * Export workflow to .claude format.
  *
+ * `skipPaths` lists planned relative paths to leave untouched (hand-edited
+ * files the user chose to keep).
+ *
  * @returns Array of exported absolute file paths
  */
 export async function exportWorkflow(
   workflow: Workflow,
   fileService: FileService,
-  options?: { highlightEnabled?: boolean }
+  options?: { highlightEnabled?: boolean; progressMarkers?: boolean; skipPaths?: string[] }
 ): Promise<string[]> {
   const exportedFiles: string[] = [];
   const workspacePath = fileService.getWorkspacePath();
 
-  const plan = planWorkflowExportFiles(workflow, options);
+  const skipPaths = new Set(options?.skipPaths);
+  const plan = planWorkflowExportFiles(workflow, options).filter(
+    (planned) => !skipPaths.has(planned.relativePath)
+  );
 
   // Ensure .claude/agents and .claude/commands exist before writing anything.
   await fileService.createDirectory(path.join(workspacePath, '.claude'));
@@ -1,21 +1,21 @@
 /**
  * MCP Cache Service
  *
- * In-memory caching for MCP server and tool information to improve performance.
- * Cache strategy: No automatic refresh - user must manually refresh (per contracts/mcp-cli.schema.json)
+ * Caching for MCP server and tool information to improve performance.
+ *
+ * - Server list and tools: disk cache in `@cc-wf-studio/mcp` (survives
+ *   restarts; `ccwf mcp-snapshot` fills it too), keyed by server config hash,
+ *   with a TTL and background refresh of stale entries. Read through
+ *   `handleListMcpServers` and `getTools()`.
+ * - Server details: short-lived in-memory cache.
+ *
+ * The Refresh actions in the MCP server list invalidate both.
  */
 
-import type { McpServerReference, McpToolReference } from '@cc-wf-studio/core/mcp';
+import type { McpServerReference } from '@cc-wf-studio/core/mcp';
+import { clearMcpCache } from '@cc-wf-studio/mcp';
 import { log } from '../extension';
 
-/**
- * Cache entry for MCP servers
- */
-interface ServerCacheEntry {
-  servers: McpServerReference[];
-  timestamp: number;
-}
-
 /**
  * Cache entry for MCP server details
  */
@@ -24,37 +24,12 @@ interface ServerDetailsCacheEntry {
   timestamp: number;
 }
 
-/**
- * Cache entry for MCP tools
- */
-interface ToolsCacheEntry {
-  tools: McpToolReference[];
-  timestamp: number;
-}
-
-/**
- * Cache entry for MCP tool schema
- */
-interface ToolSchemaCacheEntry {
-  schema: McpToolReference;
-  timestamp: number;
-}
-
 /**
  * In-memory cache storage
  */
 const cache = {
-  /** Server list cache (from 'claude mcp list') */
-  serverList: null as ServerCacheEntry | null,
-
   /** Server details cache (from 'claude mcp get <server-name>') */
   serverDetails: new Map<string, ServerDetailsCacheEntry>(),
-
-  /** Tools cache per server (from 'claude mcp list-tools <server-name>') */
-  tools: new Map<string, ToolsCacheEntry>(),
-
-  /** Tool schema cache (from 'claude mcp get-tool-schema <server-name> <tool-name>') */
-  toolSchemas: new Map<string, ToolSchemaCacheEntry>(),
 };
 
 /**
@@ -65,10 +40,7 @@ const cache = {
  * within a single user interaction session.
  */
 const CACHE_TTL_MS = {
-  SERVER_LIST: 30000, // 30 seconds
   SERVER_DETAILS: 30000, // 30 seconds
-  TOOLS: 30000, // 30 seconds
-  TOOL_SCHEMA: 60000, // 60 seconds (schemas are more stable)
 };
 
 /**
@@ -78,46 +50,6 @@ function isCacheValid(timestamp: number, ttlMs: number): boolean {
   return Date.now() - timestamp < ttlMs;
 }
 
-/**
- * Get cached server list
- *
- * @returns Cached servers or null if cache miss/expired
- */
-export function getCachedServerList(): McpServerReference[] | null {
-  if (!cache.serverList) {
-    return null;
-  }
-
-  if (!isCacheValid(cache.serverList.timestamp, CACHE_TTL_MS.SERVER_LIST)) {
-    log('INFO', 'Server list cache expired');
-    cache.serverList = null;
-    return null;
-  }
-
-  log('INFO', 'Server list cache hit', {
-    serverCount: cache.serverList.servers.length,
-    ageMs: Date.now() - cache.serverList.timestamp,
-  });
-
-  return cache.serverList.servers;
-}
-
-/**
- * Set cached server list
- *
- * @param servers - Server list to cache
- */
-export function setCachedServerList(servers: McpServerReference[]): void {
-  cache.serverList = {
-    servers,
-    timestamp: Date.now(),
-  };
-
-  log('INFO', 'Cached server list', {
-    serverCount: servers.length,
-  });
-}
-
 /**
  * Get cached server details
  *
@@ -160,126 +92,22 @@ export function setCachedServerDetails(serverId: string, details: McpServerRefer
   log('INFO', 'Cached server details', { serverId });
 }
 
-/**
- * Get cached tools for a server
- *
- * @param serverId - Server identifier
- * @returns Cached tools or null if cache miss/expired
- */
-export function getCachedTools(serverId: string): McpToolReference[] | null {
-  const entry = cache.tools.get(serverId);
-
-  if (!entry) {
-    return null;
-  }
-
-  if (!isCacheValid(entry.timestamp, CACHE_TTL_MS.TOOLS)) {
-    log('INFO', 'Tools cache expired', { serverId });
-    cache.tools.delete(serverId);
-    return null;
-  }
-
-  log('INFO', 'Tools cache hit', {
-    serverId,
-    toolCount: entry.tools.length,
-    ageMs: Date.now() - entry.timestamp,
-  });
-
-  return entry.tools;
-}
-
-/**
- * Set cached tools for a server
- *
- * @param serverId - Server identifier
- * @param tools - Tools to cache
- */
-export function setCachedTools(serverId: string, tools: McpToolReference[]): void {
-  cache.tools.set(serverId, {
-    tools,
-    timestamp: Date.now(),
-  });
-
-  log('INFO', 'Cached tools', {
-    serverId,
-    toolCount: tools.length,
-  });
-}
-
-/**
- * Get cached tool schema
- *
- * @param serverId - Server identifier
- * @param toolName - Tool name
- * @returns Cached schema or null if cache miss/expired
- */
-export function getCachedToolSchema(serverId: string, toolName: string): McpToolReference | null {
-  const cacheKey = `${serverId}::${toolName}`;
-  const entry = cache.toolSchemas.get(cacheKey);
-
-  if (!entry) {
-    return null;
-  }
-
-  if (!isCacheValid(entry.timestamp, CACHE_TTL_MS.TOOL_SCHEMA)) {
-    log('INFO', 'Tool schema cache expired', { serverId, toolName });
-    cache.toolSchemas.delete(cacheKey);
-    return null;
-  }
-
-  log('INFO', 'Tool schema cache hit', {
-    serverId,
-    toolName,
-    ageMs: Date.now() - entry.timestamp,
-  });
-
-  return entry.schema;
-}
-
-/**
- * Set cached tool schema
- *
- * @param serverId - Server identifier
- * @param toolName - Tool name
- * @param schema - Tool schema to cache
- */
-export function setCachedToolSchema(
-  serverId: string,
-  toolName: string,
-  schema: McpToolReference
-): void {
-  const cacheKey = `${serverId}::${toolName}`;
-
-  cache.toolSchemas.set(cacheKey, {
-    schema,
-    timestamp: Date.now(),
-  });
-
-  log('INFO', 'Cached tool schema', { serverId, toolName });
-}
-
 /**
  * Invalidate all cache entries for a specific server
  *
- * Useful when server configuration changes are detected.
+ * Useful when server configuration changes are detected, or to re-list one
+ * server's tools.
  *
  * @param serverId - Server identifier
  */
-export function invalidateServerCache(serverId: string): void {
+export async function invalidateServerCache(serverId: string): Promise<void> {
   log('INFO', 'Invalidating cache for server', { serverId });
 
   // Remove server details
   cache.serverDetails.delete(serverId);
 
-  // Remove tools
-  cache.tools.delete(serverId);
-
-  // Remove tool schemas
-  for (const [cacheKey] of cache.toolSchemas) {
-    if (cacheKey.startsWith(`${serverId}::`)) {
-      cache.toolSchemas.delete(cacheKey);
-    }
-  }
+  // Remove tools (every config this server id had)
+  await clearMcpCache({ kind: 'tools', label: serverId });
 
   // Note: Do NOT invalidate server list cache here, as it's shared across all servers
 }
@@ -289,65 +117,9 @@ export function invalidateServerCache(serverId: string): void {
  *
  * Useful for manual "Refresh" operations in UI.
  */
-export function invalidateAllCache(): void {
+export async function invalidateAllCache(): Promise<void> {
   log('INFO', 'Invalidating all MCP cache');
 
-  cache.serverList = null;
   cache.serverDetails.clear();
-  cache.tools.clear();
-  cache.toolSchemas.clear();
-}
-
-/**
- * Get cache statistics for debugging
- *
- * @returns Cache statistics
- */
-export function getCacheStats(): {
-  serverList: { cached: boolean; ageMs?: number };
-  serverDetails: { count: number; entries: Array<{ serverId: string; ageMs: number }> };
-  tools: { count: number; entries: Array<{ serverId: string; toolCount: number; ageMs: number }> };
-  toolSchemas: {
-    count: number;
-    entries: Array<{ serverId: string; toolName: string; ageMs: number }>;
-  };
-} {
-  const now = Date.now();
-
-  return {
-    serverList: cache.serverList
-      ? {
-          cached: true,
-          ageMs: now - cache.serverList.timestamp,
-        }
-      : {
-          cached: false,
-        },
-    serverDetails: {
-      count: cache.serverDetails.size,
-      entries: Array.from(cache.serverDetails.entries()).map(([serverId, entry]) => ({
-        serverId,
-        ageMs: now - entry.timestamp,
-      })),
-    },
-    tools: {
-      count: cache.tools.size,
-      entries: Array.from(cache.tools.entries()).map(([serverId, entry]) => ({
-        serverId,
-        toolCount: entry.tools.length,
-        ageMs: now - entry.timestamp,
-      })),
-    },
-    toolSchemas: {
-      count: cache.toolSchemas.size,
-      entries: Array.from(cache.toolSchemas.entries()).map(([cacheKey, entry]) => {
-        const [serverId, toolName] = cacheKey.split('::');
-        return {
-          serverId,
-          toolName,
-          ageMs: now - entry.timestamp,
-        };
-      }),
-    },
-  };
+  await clearMcpCache();
 }
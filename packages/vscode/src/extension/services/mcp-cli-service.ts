@@ -12,10 +12,11 @@
  */
 
 import type { McpServerReference, McpToolReference } from '@cc-wf-studio/core/mcp';
+import { type CachedMcpTool, getMcpToolsCached } from '@cc-wf-studio/mcp';
 import nanoSpawn from 'nano-spawn';
+import type { McpToolCallOutput } from '../../shared/types/messages';
 import { log } from '../extension';
 import { getClaudeSpawnCommand } from './claude-cli-path';
-import { getCachedTools, setCachedTools } from './mcp-cache-service';
 
 /**
  * Prompt the user for a Bearer token via VSCode InputBox.
@@ -83,7 +84,8 @@ export type McpErrorCode =
   | 'MCP_INVALID_CONFIG'
   | 'MCP_CONNECTION_TIMEOUT'
   | 'MCP_CONNECTION_ERROR'
-  | 'MCP_AUTH_REQUIRED';
+  | 'MCP_AUTH_REQUIRED'
+  | 'MCP_TOOL_CALL_FAILED';
 
 export interface McpExecutionError {
   code: McpErrorCode;
@@ -616,13 +618,13 @@ function parseMcpGetOutput(output: string, serverId: string): McpServerReference
  *
  * @param serverId - Server identifier
  * @param workspacePath - Optional workspace path for project-scoped servers
- * @returns List of available tools
+ * @returns List of available tools, with their raw input schemas
  */
 export async function listTools(
   serverId: string,
   workspacePath?: string,
   secretStorage?: import('vscode').SecretStorage
-): Promise<McpExecutionResult<McpToolReference[]>> {
+): Promise<McpExecutionResult<CachedMcpTool[]>> {
   const startTime = Date.now();
 
   // Import MCP SDK services
@@ -823,11 +825,23 @@ export async function listTools(
   }
 }
 
+/**
+ * Thrown from the cache's fetch callback so a failed listTools() result
+ * reaches the caller unchanged
+ */
+class ListToolsFailure extends Error {
+  constructor(readonly result: McpExecutionResult<CachedMcpTool[]>) {
+    super(result.error?.message);
+  }
+}
+
 /**
  * Get tools for a server (with caching)
  *
- * This function wraps listTools() and adds caching support per T045.
- * Cache strategy: 30 seconds TTL (defined in mcp-cache-service.ts)
+ * Wraps listTools() with the disk cache from `@cc-wf-studio/mcp` (which
+ * `ccwf mcp-snapshot` also fills), keyed by the server's connection config. A fresh
+ * entry is served without spawning the server; a stale one is served at once
+ * and refreshed in the background.
  *
  * @param serverId - Server identifier
  * @param workspacePath - Optional workspace path for project-scoped servers
@@ -838,33 +852,67 @@ export async function getTools(
   workspacePath?: string,
   secretStorage?: import('vscode').SecretStorage
 ): Promise<McpExecutionResult<McpToolReference[]>> {
-  // Check cache first
-  const cachedTools = getCachedTools(serverId);
+  const startTime = Date.now();
+  const { getMcpServerConfig } = await import('./mcp-config-reader');
+  const { toMcpToolReference } = await import('./mcp-sdk-client');
 
-  if (cachedTools) {
-    log('INFO', 'getTools - cache hit', {
+  const serverConfig = getMcpServerConfig(serverId, workspacePath);
+  if (!serverConfig) {
+    // Not cacheable; listTools() reports the missing server
+    const result = await listTools(serverId, workspacePath, secretStorage);
+    return { ...result, data: result.data?.map((tool) => toMcpToolReference(serverId, tool)) };
+  }
+
+  // The stored Bearer token is part of the key, so saving a new one misses the cache
+  const token = secretStorage ? await secretStorage.get(`mcp-bearer-token-${serverId}`) : undefined;
+  const { type, command, args, env, url, headers } = serverConfig;
+
+  try {
+    const cached = await getMcpToolsCached(
       serverId,
-      toolCount: cachedTools.length,
-    });
+      {
+        type,
+        command,
+        args,
+        env,
+        url,
+        headers: token ? { ...headers, Authorization: `Bearer ${token}` } : headers,
+      },
+      async () => {
+        log('INFO', 'getTools - cache miss, fetching from server', { serverId });
+        const result = await listTools(serverId, workspacePath, secretStorage);
+        if (!result.success || !result.data) throw new ListToolsFailure(result);
+        return result.data;
+      },
+      {
+        onBackgroundRefresh: (tools) =>
+          log('INFO', 'getTools - refreshed stale cache entry', {
+            serverId,
+            toolCount: tools.length,
+          }),
+      }
+    );
+
+    if (cached.source !== 'live') {
+      log('INFO', 'getTools - cache hit', {
+        serverId,
+        toolCount: cached.value.length,
+        stale: cached.source === 'stale',
+        ageMs: Date.now() - cached.fetchedAt.getTime(),
+      });
+    }
 
     return {
       success: true,
-      data: cachedTools,
-      executionTimeMs: 0, // Cache hit, no execution time
+      data: cached.value.map((tool) => toMcpToolReference(serverId, tool)),
+      executionTimeMs: Date.now() - startTime,
     };
+  } catch (error) {
+    if (error instanceof ListToolsFailure) {
+      return { ...error.result, data: undefined };
+    }
+    throw error;
   }
-
-  // Cache miss - fetch from MCP server
-  log('INFO', 'getTools - cache miss, fetching from server', { serverId });
-
-  const result = await listTools(serverId, workspacePath, secretStorage);
-
-  // Cache successful results
-  if (result.success && result.data) {
-    setCachedTools(serverId, result.data);
-  }
-
-  return result;
 }
 
 // parseMcpListToolsOutput function removed - now using MCP SDK directly
@@ -872,8 +920,8 @@ export async function getTools(
 /**
  * Get JSON schema for a specific tool's parameters
  *
- * Uses MCP SDK to connect directly to the server and retrieve tool schema.
- * This is more efficient than listing all tools when we only need one.
+ * Looks the tool up in getTools(), so it shares the tool cache: opening a
+ * configured MCP node does not connect to the server again.
  *
  * @param serverId - Server identifier
  * @param toolName - Tool name
@@ -893,211 +941,133 @@ export async function getToolSchema(
     toolName,
   });
 
-  // Import MCP SDK services
-  const { getMcpServerConfig } = await import('./mcp-config-reader');
-  const { listToolsFromMcpServer, listToolsFromMcpServerHttp } = await import('./mcp-sdk-client');
-
-  // Get server configuration from .claude.json
-  const serverConfig = getMcpServerConfig(serverId, workspacePath);
+  const result = await getTools(serverId, workspacePath, secretStorage);
+  if (!result.success || !result.data) {
+    return {
+      success: false,
+      error: result.error,
+      executionTimeMs: Date.now() - startTime,
+    };
+  }
 
-  if (!serverConfig) {
+  const tool = result.data.find((t) => t.name === toolName);
+  if (!tool) {
     return {
       success: false,
       error: {
-        code: 'MCP_SERVER_NOT_FOUND',
-        message: `MCP server '${serverId}' not found in configuration`,
-        details: 'Check ~/.claude.json for available MCP servers',
+        code: 'MCP_PARSE_ERROR',
+        message: `Tool '${toolName}' not found in server '${serverId}'`,
+        details: `Available tools: ${result.data.map((t) => t.name).join(', ')}`,
       },
       executionTimeMs: Date.now() - startTime,
     };
   }
 
-  // Route by transport type
-  if (serverConfig.type === 'http') {
-    if (!serverConfig.url) {
-      return {
-        success: false,
-        error: {
-          code: 'MCP_INVALID_CONFIG',
-          message: `MCP server '${serverId}' has HTTP transport but no URL configured`,
-          details: 'Missing url in server configuration',
-        },
-        executionTimeMs: Date.now() - startTime,
-      };
-    }
-
-    try {
-      // Build headers: static config headers + Bearer token from SecretStorage
-      const headers: Record<string, string> = { ...serverConfig.headers };
-      if (secretStorage) {
-        const storedToken = await secretStorage.get(`mcp-bearer-token-${serverId}`);
-        if (storedToken) {
-          headers.Authorization = `Bearer ${storedToken}`;
-        }
-      }
-
-      const tools = await listToolsFromMcpServerHttp(serverId, serverConfig.url, {
-        headers: Object.keys(headers).length > 0 ? headers : undefined,
-      });
-      const tool = tools.find((t) => t.name === toolName);
-
-      if (!tool) {
-        return {
-          success: false,
-          error: {
-            code: 'MCP_PARSE_ERROR',
-            message: `Tool '${toolName}' not found in server '${serverId}'`,
-            details: `Available tools: ${tools.map((t) => t.name).join(', ')}`,
-          },
-          executionTimeMs: Date.now() - startTime,
-        };
-      }
-
-      log('INFO', 'GET_TOOL_SCHEMA completed successfully via HTTP', {
-        serverId,
-        toolName,
-        parameterCount: tool.parameters?.length || 0,
-        executionTimeMs: Date.now() - startTime,
-      });
+  log('INFO', 'GET_TOOL_SCHEMA completed successfully', {
+    serverId,
+    toolName,
+    parameterCount: tool.parameters?.length || 0,
+    executionTimeMs: Date.now() - startTime,
+  });
 
-      return {
-        success: true,
-        data: tool,
-        executionTimeMs: Date.now() - startTime,
-      };
-    } catch (error) {
-      const executionTimeMs = Date.now() - startTime;
+  return {
+    success: true,
+    data: tool,
+    executionTimeMs: Date.now() - startTime,
+  };
+}
 
-      if (error instanceof Error && error.message.includes('timeout')) {
-        return {
-          success: false,
-          error: {
-            code: 'MCP_CONNECTION_TIMEOUT',
-            message: `Connection to MCP server '${serverId}' timed out`,
-            details: error.message,
-          },
-          executionTimeMs,
-        };
-      }
+/**
+ * Execute an MCP tool with parameters
+ *
+ * Connects to the server through the MCP SDK client (the same routing as
+ * listTools()) and calls the tool once. Used by the MCP node dialogs' "Try it"
+ * action, so a wrong parameter shows up before a full agent run.
+ *
+ * @param serverId - Server identifier
+ * @param toolName - Tool name
+ * @param parameters - Tool parameters
+ * @param workspacePath - Optional workspace path for project-scoped servers
+ * @returns Tool execution result (a tool-reported error is a successful call with `isError`)
+ */
+export async function executeTool(
+  serverId: string,
+  toolName: string,
+  parameters: Record<string, unknown>,
+  workspacePath?: string,
+  secretStorage?: import('vscode').SecretStorage
+): Promise<McpExecutionResult<McpToolCallOutput>> {
+  const startTime = Date.now();
 
-      // 401 Unauthorized: return MCP_AUTH_REQUIRED so the webview can show token input UI
-      if (isUnauthorizedError(error)) {
-        log('INFO', 'HTTP MCP server returned 401, auth required', { serverId, toolName });
-        return {
-          success: false,
-          error: {
-            code: 'MCP_AUTH_REQUIRED',
-            message: `MCP server '${serverId}' requires authentication.`,
-            details: serverConfig.url,
-          },
-          executionTimeMs,
-        };
-      }
+  // Import MCP SDK services
+  const { getMcpServerConfig } = await import('./mcp-config-reader');
+  const { callMcpTool, connectToMcpServer, connectToMcpServerHttp } = await import(
+    './mcp-sdk-client'
+  );
 
-      return {
-        success: false,
-        error: {
-          code: 'MCP_CONNECTION_ERROR',
-          message: `Failed to connect to MCP server '${serverId}' via HTTP`,
-          details: error instanceof Error ? error.message : String(error),
-        },
-        executionTimeMs,
-      };
-    }
-  }
+  const serverConfig = getMcpServerConfig(serverId, workspacePath);
 
-  if (serverConfig.type === 'sse') {
+  if (!serverConfig) {
     return {
       success: false,
       error: {
-        code: 'MCP_UNSUPPORTED_TRANSPORT',
-        message: `MCP server '${serverId}' uses SSE transport which is deprecated`,
-        details: 'SSE transport is deprecated. Please migrate to HTTP (Streamable HTTP) transport.',
+        code: 'MCP_SERVER_NOT_FOUND',
+        message: `MCP server '${serverId}' not found in configuration`,
+        details: 'Check ~/.claude.json for available MCP servers',
       },
       executionTimeMs: Date.now() - startTime,
     };
   }
 
-  if (serverConfig.type !== 'stdio') {
+  if (serverConfig.type === 'sse') {
     return {
       success: false,
       error: {
         code: 'MCP_UNSUPPORTED_TRANSPORT',
-        message: `MCP server '${serverId}' uses unsupported transport type: ${serverConfig.type}`,
-        details: 'Supported transport types: stdio, http',
+        message: `MCP server '${serverId}' uses SSE transport which is deprecated`,
+        details: 'SSE transport is deprecated. Please migrate to HTTP (Streamable HTTP) transport.',
       },
       executionTimeMs: Date.now() - startTime,
     };
   }
 
-  // stdio transport
-  if (!serverConfig.command || !serverConfig.args) {
+  const { url, command, args } = serverConfig;
+  if (serverConfig.type === 'http' ? !url : !command || !args) {
     return {
       success: false,
       error: {
         code: 'MCP_INVALID_CONFIG',
-        message: `MCP server '${serverId}' has invalid stdio configuration`,
-        details: 'Missing command or args in server configuration',
+        message: `MCP server '${serverId}' has invalid ${serverConfig.type} configuration`,
+        details:
+          serverConfig.type === 'http'
+            ? 'Missing url in server configuration'
+            : 'Missing command or args in server configuration',
       },
       executionTimeMs: Date.now() - startTime,
     };
   }
 
-  // Connect to MCP server and list tools
+  let client: Awaited<ReturnType<typeof connectToMcpServer>>;
   try {
-    const tools = await listToolsFromMcpServer(
-      serverId,
-      serverConfig.command,
-      serverConfig.args,
-      serverConfig.env || {}
-    );
-
-    // Find the specific tool
-    const tool = tools.find((t) => t.name === toolName);
-
-    if (!tool) {
-      log('ERROR', 'Tool not found in MCP server', {
-        serverId,
-        toolName,
-        availableTools: tools.map((t) => t.name),
-        executionTimeMs: Date.now() - startTime,
+    if (serverConfig.type === 'http' && url) {
+      // Build headers: static config headers + Bearer token from SecretStorage
+      const headers: Record<string, string> = { ...serverConfig.headers };
+      if (secretStorage) {
+        const storedToken = await secretStorage.get(`mcp-bearer-token-${serverId}`);
+        if (storedToken) {
+          headers.Authorization = `Bearer ${storedToken}`;
+        }
+      }
+      client = await connectToMcpServerHttp(url, {
+        headers: Object.keys(headers).length > 0 ? headers : undefined,
       });
-
-      return {
-        success: false,
-        error: {
-          code: 'MCP_PARSE_ERROR',
-          message: `Tool '${toolName}' not found in server '${serverId}'`,
-          details: `Available tools: ${tools.map((t) => t.name).join(', ')}`,
-        },
-        executionTimeMs: Date.now() - startTime,
-      };
+    } else {
+      client = await connectToMcpServer(command ?? '', args ?? [], serverConfig.env || {});
     }
-
-    log('INFO', 'GET_TOOL_SCHEMA completed successfully', {
-      serverId,
-      toolName,
-      parameterCount: tool.parameters?.length || 0,
-      executionTimeMs: Date.now() - startTime,
-    });
-
-    return {
-      success: true,
-      data: tool,
-      executionTimeMs: Date.now() - startTime,
-    };
   } catch (error) {
     const executionTimeMs = Date.now() - startTime;
 
-    // Check if it's a connection timeout
     if (error instanceof Error && error.message.includes('timeout')) {
-      log('ERROR', 'MCP server connection timeout', {
-        serverId,
-        toolName,
-        error: error.message,
-        executionTimeMs,
-      });
-
       return {
         success: false,
         error: {
@@ -1109,14 +1079,19 @@ export async function getToolSchema(
       };
     }
 
-    // General connection error
-    log('ERROR', 'Failed to connect to MCP server for tool schema', {
-      serverId,
-      toolName,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      executionTimeMs,
-    });
+    // 401 Unauthorized: return MCP_AUTH_REQUIRED so the webview can show token input UI
+    if (isUnauthorizedError(error)) {
+      log('INFO', 'HTTP MCP server returned 401, auth required', { serverId, toolName });
+      return {
+        success: false,
+        error: {
+          code: 'MCP_AUTH_REQUIRED',
+          message: `MCP server '${serverId}' requires authentication.`,
+          details: serverConfig.url,
+        },
+        executionTimeMs,
+      };
+    }
 
     return {
       success: false,
@@ -1128,38 +1103,41 @@ export async function getToolSchema(
       executionTimeMs,
     };
   }
-}
 
-/**
- * Execute an MCP tool with parameters
- *
- * NOTE: This is a placeholder - actual implementation depends on Claude Code CLI
- * supporting 'claude mcp run <server-name> <tool-name> [params]' command.
- *
- * @param serverId - Server identifier
- * @param toolName - Tool name
- * @param parameters - Tool parameters
- * @returns Tool execution result
- */
-export async function executeTool(
-  serverId: string,
-  toolName: string,
-  parameters: Record<string, unknown>
-): Promise<McpExecutionResult<unknown>> {
-  // TODO: Implement when 'claude mcp run' is available
-  log('WARN', 'executeTool() not yet implemented - placeholder', {
-    serverId,
-    toolName,
-    parameters,
-  });
+  try {
+    const output = await callMcpTool(client, serverId, toolName, parameters);
 
-  return {
-    success: false,
-    error: {
-      code: 'MCP_UNKNOWN_ERROR',
-      message: 'Tool execution not yet implemented',
-      details: 'Waiting for Claude Code CLI support for executing tools',
-    },
-    executionTimeMs: 0,
-  };
+    return {
+      success: true,
+      data: output,
+      executionTimeMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    // Protocol-level failure: unknown tool, arguments rejected by the server, timeout
+    log('ERROR', 'MCP tool call failed', {
+      serverId,
+      toolName,
+      error: error instanceof Error ? error.message : String(error),
+      executionTimeMs: Date.now() - startTime,
+    });
+
+    return {
+      success: false,
+      error: {
+        code: 'MCP_TOOL_CALL_FAILED',
+        message: `Tool '${toolName}' on MCP server '${serverId}' failed`,
+        details: error instanceof Error ? error.message : String(error),
+      },
+      executionTimeMs: Date.now() - startTime,
+    };
+  } finally {
+    try {
+      await client.close();
+    } catch (closeError) {
+      log('WARN', 'Failed to close MCP server connection', {
+        serverId,
+        error: closeError instanceof Error ? closeError.message : String(closeError),
+      });
+    }
+  }
 }
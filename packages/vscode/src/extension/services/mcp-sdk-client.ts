@@ -5,15 +5,23 @@
  * Purpose: Connect to MCP servers using @modelcontextprotocol/sdk and retrieve tools
  *
  * This service provides direct connection to MCP servers instead of using Claude Code CLI,
- * allowing us to retrieve tool lists directly from the MCP protocol.
+ * allowing us to retrieve tool lists directly from the MCP protocol, and to call
+ * a tool for the MCP node dialogs' "Try it" action.
  */
 
 import type { McpToolReference, ToolParameter } from '@cc-wf-studio/core/mcp';
+import type { CachedMcpTool } from '@cc-wf-studio/mcp';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { McpToolCallOutput } from '../../shared/types/messages';
 import { log } from '../extension';
 
+/**
+ * Timeout for a single tool call (tools may do real work, unlike tools/list)
+ */
+const TOOL_CALL_TIMEOUT_MS = 60000;
+
 /**
  * Connect to an MCP server using stdio transport
  *
@@ -133,6 +141,22 @@ function convertJsonSchemaToToolParameters(inputSchema: {
   });
 }
 
+/**
+ * Convert a tool as listed by the server (or read from the tool cache) to our internal format
+ *
+ * @param serverId - Server identifier
+ * @param tool - Tool from tools/list
+ * @returns Tool reference with parsed parameters
+ */
+export function toMcpToolReference(serverId: string, tool: CachedMcpTool): McpToolReference {
+  return {
+    serverId,
+    name: tool.name,
+    description: tool.description || '',
+    parameters: convertJsonSchemaToToolParameters(tool.inputSchema),
+  };
+}
+
 /**
  * List all tools available from a specific MCP server using SDK
  *
@@ -140,14 +164,14 @@ function convertJsonSchemaToToolParameters(inputSchema: {
  * @param command - Command to execute
  * @param args - Command arguments
  * @param env - Environment variables
- * @returns List of available tools
+ * @returns List of available tools, with their raw input schemas
  */
 export async function listToolsFromMcpServer(
   serverId: string,
   command: string,
   args: string[],
   env: Record<string, string>
-): Promise<McpToolReference[]> {
+): Promise<CachedMcpTool[]> {
   const startTime = Date.now();
 
   log('INFO', 'Listing tools from MCP server via SDK', {
@@ -171,12 +195,11 @@ export async function listToolsFromMcpServer(
       executionTimeMs: Date.now() - startTime,
     });
 
-    // Convert MCP tools to our internal format
+    // Keep the raw input schemas: they are what the disk cache stores
     return response.tools.map((tool) => ({
-      serverId,
       name: tool.name,
-      description: tool.description || '',
-      parameters: tool.inputSchema ? convertJsonSchemaToToolParameters(tool.inputSchema) : [],
+      description: tool.description,
+      inputSchema: tool.inputSchema,
     }));
   } catch (error) {
     log('ERROR', 'Failed to list tools from MCP server', {
@@ -266,7 +289,7 @@ export async function connectToMcpServerHttp(
  *
  * @param serverId - Server identifier
  * @param url - Server URL
- * @returns List of available tools
+ * @returns List of available tools, with their raw input schemas
  */
 export async function listToolsFromMcpServerHttp(
   serverId: string,
@@ -274,7 +297,7 @@ export async function listToolsFromMcpServerHttp(
   options?: {
     headers?: Record<string, string>;
   }
-): Promise<McpToolReference[]> {
+): Promise<CachedMcpTool[]> {
   const startTime = Date.now();
 
   log('INFO', 'Listing tools from MCP server via HTTP', {
@@ -298,10 +321,9 @@ export async function listToolsFromMcpServerHttp(
     });
 
     return response.tools.map((tool) => ({
-      serverId,
       name: tool.name,
-      description: tool.description || '',
-      parameters: tool.inputSchema ? convertJsonSchemaToToolParameters(tool.inputSchema) : [],
+      description: tool.description,
+      inputSchema: tool.inputSchema,
     }));
   } catch (error) {
     log('ERROR', 'Failed to list tools from MCP server via HTTP', {
@@ -326,3 +348,55 @@ export async function listToolsFromMcpServerHttp(
     }
   }
 }
+
+/**
+ * Call a tool on a connected MCP server
+ *
+ * A tool that fails reports it in the result (`isError`); protocol errors
+ * (unknown tool, invalid arguments, timeout) are thrown.
+ *
+ * @param client - Connected MCP client (closed by the caller)
+ * @param serverId - Server identifier (for logging)
+ * @param toolName - Tool name
+ * @param toolArguments - Tool arguments
+ * @returns The tool's output
+ */
+export async function callMcpTool(
+  client: Client,
+  serverId: string,
+  toolName: string,
+  toolArguments: Record<string, unknown>
+): Promise<McpToolCallOutput> {
+  const startTime = Date.now();
+
+  log('INFO', 'Calling MCP tool via SDK', { serverId, toolName });
+
+  const result = await client.callTool({ name: toolName, arguments: toolArguments }, undefined, {
+    timeout: TOOL_CALL_TIMEOUT_MS,
+  });
+
+  // Servers on the 2024-10-07 protocol return `toolResult` instead of content
+  const content = Array.isArray(result.content)
+    ? (result.content as { type: string; text?: string }[])
+    : [{ type: 'text', text: JSON.stringify(result.toolResult, null, 2) }];
+  const output: McpToolCallOutput = {
+    isError: result.isError === true,
+    text: content
+      .filter((item) => item.type === 'text')
+      .map((item) => item.text ?? '')
+      .join('\n'),
+    omittedContentTypes: content.filter((item) => item.type !== 'text').map((item) => item.type),
+    ...(result.structuredContent
+      ? { structuredContent: result.structuredContent as Record<string, unknown> }
+      : {}),
+  };
+
+  log('INFO', 'MCP tool call completed', {
+    serverId,
+    toolName,
+    isError: output.isError,
+    executionTimeMs: Date.now() - startTime,
+  });
+
+  return output;
+}
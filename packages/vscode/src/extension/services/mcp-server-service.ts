@@ -6,7 +6,8 @@
  * tool handlers to live webview state via postMessage RPC.
  *
  * Architecture:
- * - HTTP server with `StreamableHTTPServerTransport` in stateless mode
+ * - HTTP server with the shared `/mcp` handler from `@cc-wf-studio/mcp`
+ *   (`StreamableHTTPServerTransport` in stateless mode, Host/Origin checks)
  * - Tool definitions and zod schemas live in `@cc-wf-studio/mcp`
  * - `requestCurrentWorkflow` / `applyWorkflow` send postMessage requests with a
  *   correlation id; responses come back through `handleWorkflowResponse` and
@@ -15,20 +16,29 @@
  */
 
 import * as http from 'node:http';
-import type { Workflow } from '@cc-wf-studio/core';
+import {
+  EMPTY_PROJECT_CONFIG,
+  type PlannedExportFile,
+  type ProjectConfig,
+  type Workflow,
+} from '@cc-wf-studio/core';
 import {
   type AgentCommandInfo,
   type ApplyWorkflowOptions,
   type ApplyWorkflowResult,
+  createWorkflowMcpHttpHandler,
   createWorkflowMcpServer,
   type GetCurrentWorkflowResult,
   type GetWorkflowSchemaResult,
   type HighlightResult,
   type ListAvailableAgentsResult,
   type PlannedSubAgentFile,
+  readProjectConfig,
   type WorkflowIoAdapter,
+  type WriteExportFilesOptions,
+  type WriteExportFilesResult,
+  writeExportFilesToRoot,
 } from '@cc-wf-studio/mcp';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import type * as vscode from 'vscode';
 import type {
   AiEditingProvider,
@@ -37,6 +47,7 @@ import type {
   McpConfigTarget,
 } from '../../shared/types/messages';
 import { log } from '../extension';
+import { getWorkspaceRoot } from '../utils/path-utils';
 import { scanAllCommands } from './command-service';
 import { getDefaultSchemaPath, loadWorkflowSchemaToon } from './schema-loader-service';
 
@@ -108,78 +119,14 @@ export class McpServerManager implements WorkflowIoAdapter {
 
   /** Build the HTTP server with the MCP request handler (not yet listening). */
   private buildHttpServer(): http.Server {
-    return http.createServer(async (req, res) => {
-      // DNS rebinding protection: validate Host header
-      const host = (req.headers.host || '').split(':')[0];
-      if (host !== '127.0.0.1' && host !== 'localhost') {
-        log('WARN', 'MCP Server: Rejected request with invalid Host header', {
-          host: req.headers.host,
-        });
-        res.writeHead(403, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Forbidden' }));
-        return;
-      }
-
-      const origin = req.headers.origin;
-      if (origin) {
-        let isLocalOrigin = false;
-        try {
-          const originUrl = new URL(origin);
-          const originHost = originUrl.hostname.toLowerCase();
-          isLocalOrigin =
-            (originHost === '127.0.0.1' || originHost === 'localhost') &&
-            originUrl.protocol === 'http:';
-        } catch {
-          isLocalOrigin = false;
-        }
-        if (!isLocalOrigin) {
-          log('WARN', 'MCP Server: Rejected request with invalid Origin header', {
-            origin,
-          });
-          res.writeHead(403, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Forbidden' }));
-          return;
-        }
-      }
-
-      const url = new URL(req.url || '/', 'http://127.0.0.1');
-
-      if (url.pathname !== '/mcp') {
-        res.writeHead(404, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Not found' }));
-        return;
-      }
-
-      if (req.method === 'POST' || req.method === 'GET' || req.method === 'DELETE') {
-        let mcpServer: ReturnType<typeof createWorkflowMcpServer> | undefined;
-        try {
-          // Per-request server (stateless transport, connect() is one-shot).
-          mcpServer = createWorkflowMcpServer(this);
-
-          const transport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: undefined,
-          });
-
-          await mcpServer.connect(transport);
-          await transport.handleRequest(req, res);
-        } catch (error) {
-          log('ERROR', 'MCP Server: Failed to handle request', {
-            method: req.method,
-            error: error instanceof Error ? error.message : String(error),
-          });
-          if (!res.headersSent) {
-            res.writeHead(500, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Internal server error' }));
-          }
-        } finally {
-          if (mcpServer) {
-            await mcpServer.close().catch(() => {});
-          }
-        }
-      } else {
-        res.writeHead(405, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Method not allowed' }));
-      }
+    const handler = createWorkflowMcpHttpHandler({
+      // Stateless handler: no stream outlives a request, so subscriptions
+      // could never be served and are not advertised.
+      createServer: () => createWorkflowMcpServer(this, { subscribe: false }),
+      log,
+    });
+    return http.createServer((req, res) => {
+      void handler(req, res);
     });
   }
 
@@ -443,6 +390,22 @@ export class McpServerManager implements WorkflowIoAdapter {
     return [];
   }
 
+  async writeExportFiles(
+    files: PlannedExportFile[],
+    opts: WriteExportFilesOptions
+  ): Promise<WriteExportFilesResult> {
+    const workspaceRoot = getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return { success: false, error: 'No workspace folder is open.' };
+    }
+    return writeExportFilesToRoot(workspaceRoot, files, opts);
+  }
+
+  async getProjectConfig(): Promise<ProjectConfig> {
+    const workspaceRoot = getWorkspaceRoot();
+    return workspaceRoot ? readProjectConfig(workspaceRoot) : EMPTY_PROJECT_CONFIG;
+  }
+
   // -----------------------------------------------------------------------
   // Webview response handlers (invoked from commands/open-editor.ts)
   // -----------------------------------------------------------------------
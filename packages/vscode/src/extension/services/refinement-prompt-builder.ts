@@ -3,10 +3,19 @@
  *
  * Builds AI prompts for workflow refinement in TOON format.
  * TOON format reduces token consumption by ~7% compared to freetext.
+ *
+ * In 'patch' output mode the AI is asked for a list of edit operations
+ * (see WorkflowPatchOperation in @cc-wf-studio/core) instead of the whole
+ * workflow, which keeps responses small on large workflows.
  */
 
-import type { ConversationHistory, Workflow } from '@cc-wf-studio/core';
+import {
+  type ConversationHistory,
+  WORKFLOW_PATCH_REPAIR_INSTRUCTIONS,
+  type Workflow,
+} from '@cc-wf-studio/core';
 import { encode } from '@toon-format/toon';
+import type { RefinementOutputMode } from '../../shared/types/messages';
 import { getCurrentLocale } from '../i18n/i18n-service';
 import {
   CLARIFICATION_TRIGGERS,
@@ -29,7 +38,8 @@ export class RefinementPromptBuilder {
     private schemaResult: SchemaLoadResult,
     private filteredSkills: SkillRelevanceScore[],
     private previousValidationErrors?: ValidationErrorInfo[],
-    private isCodexEnabled = false
+    private isCodexEnabled = false,
+    private outputMode: RefinementOutputMode = 'workflow'
   ) {}
 
   buildPrompt(): string {
@@ -44,7 +54,10 @@ export class RefinementPromptBuilder {
     return {
       responseLocale: locale,
       role: 'expert workflow designer for CC Workflow Studio',
-      task: 'Refine the existing workflow based on user feedback',
+      task:
+        this.outputMode === 'patch'
+          ? 'Refine the existing workflow based on user feedback by returning the edit operations to apply'
+          : 'Refine the existing workflow based on user feedback',
       // AI Editing Process Flow - MUST follow this process strictly
       // Generated from: resources/ai-editing-process-flow.md
       editingProcessFlow: {
@@ -110,6 +123,9 @@ export class RefinementPromptBuilder {
       branchingNodeSelection: {
         ifElse: '2-way conditional branching (true/false)',
         switch: '3+ way branching or multiple conditions',
+        loop: 'Repeat steps until an exit condition holds (branch-0 = body, looping back to the Loop node; branch-1 = exit)',
+        parallel:
+          'Run independent branches concurrently (branch-0..branch-N); every branch must end at the same Join node',
         rule: 'Each branch connects to exactly one downstream node',
       },
       availableSkills: this.filteredSkills.map((s) => ({
@@ -148,43 +164,8 @@ export class RefinementPromptBuilder {
         },
       }),
       workflowSchema: this.schemaResult.schemaString || JSON.stringify(this.schemaResult.schema),
-      outputFormat: {
-        description:
-          'You MUST output exactly ONE JSON object. Do NOT output multiple JSON blocks or explanatory text.',
-        successExample: {
-          status: 'success',
-          message: 'Brief description of what was changed',
-          values: {
-            workflow: {
-              id: 'workflow-id',
-              name: 'workflow-name',
-              nodes: ['... all nodes with data ...'],
-              connections: ['... all connections ...'],
-            },
-          },
-        },
-        clarificationExample: {
-          status: 'clarification',
-          message: 'Your answer or question here',
-        },
-        errorExample: {
-          status: 'error',
-          message: 'Error description',
-        },
-      },
-      criticalRules: [
-        'OUTPUT FORMAT: You MUST output exactly ONE JSON object - no explanatory text, no multiple JSON blocks',
-        'DO NOT output workflow JSON separately from status JSON - they must be combined in ONE response',
-        'DO NOT wrap JSON in markdown code blocks (```json) - output raw JSON only',
-        'For success: workflow MUST be nested inside values.workflow, not as a separate JSON block',
-        'Follow the editingProcessFlow steps in order - do NOT skip steps',
-        'For questions/understanding requests: use clarification status with your answer',
-        'For unclear edit requests: use clarification status to ask for details',
-        'For clear edit requests: use success status with the modified workflow inside values.workflow',
-        'CRITICAL: When outputting workflow, COPY unchanged nodes with their EXACT original data',
-        'NEVER regenerate or modify data for nodes that were not explicitly requested to change',
-        'status and message fields are REQUIRED in every response',
-      ],
+      outputFormat: this.getOutputFormat(),
+      criticalRules: this.getCriticalRules(),
       // Include previous validation errors for retry context
       ...(this.previousValidationErrors &&
         this.previousValidationErrors.length > 0 && {
@@ -200,8 +181,110 @@ export class RefinementPromptBuilder {
             'Pay special attention to node naming patterns and field requirements',
             'Node names must match pattern /^[a-zA-Z0-9_-]+$/ (no spaces, Japanese characters, or special chars)',
             'Ensure all required fields are present with valid values',
+            ...(this.outputMode === 'patch' ? WORKFLOW_PATCH_REPAIR_INSTRUCTIONS : []),
           ],
         }),
     };
   }
+
+  private getOutputFormat(): object {
+    const clarificationExample = {
+      status: 'clarification',
+      message: 'Your answer or question here',
+    };
+    const errorExample = {
+      status: 'error',
+      message: 'Error description',
+    };
+
+    if (this.outputMode === 'patch') {
+      return {
+        description:
+          'You MUST output exactly ONE JSON object. Do NOT output multiple JSON blocks or explanatory text.',
+        successExample: {
+          status: 'success',
+          message: 'Brief description of what was changed',
+          values: {
+            operations: [
+              { op: 'updateNode', nodeId: 'prompt-1', data: { prompt: 'New prompt text' } },
+              {
+                op: 'addNode',
+                id: 'prompt-2',
+                type: 'prompt',
+                name: 'summarize',
+                position: { x: 700, y: 200 },
+                data: { label: 'Summarize', prompt: 'Summarize the result' },
+              },
+              { op: 'disconnect', from: 'prompt-1', to: 'end-1' },
+              { op: 'connect', from: 'prompt-1', to: 'prompt-2' },
+              { op: 'connect', from: 'prompt-2', to: 'end-1' },
+            ],
+          },
+        },
+        operations: {
+          addNode:
+            'Add a node: unique id, type, name, position and complete data as defined in workflowSchema',
+          updateNode:
+            'Change an existing node: name, position and/or data; data contains ONLY the changed keys (merged into the existing data)',
+          removeNode: 'Delete a node by nodeId; its connections are removed with it',
+          connect:
+            'Connect two nodes: from, to, optional fromPort (default "output"; branching nodes use "branch-N") and toPort (default "input")',
+          disconnect:
+            'Remove connections by connection id, or by from and/or to (optionally fromPort)',
+        },
+        clarificationExample,
+        errorExample,
+      };
+    }
+
+    return {
+      description:
+        'You MUST output exactly ONE JSON object. Do NOT output multiple JSON blocks or explanatory text.',
+      successExample: {
+        status: 'success',
+        message: 'Brief description of what was changed',
+        values: {
+          workflow: {
+            id: 'workflow-id',
+            name: 'workflow-name',
+            nodes: ['... all nodes with data ...'],
+            connections: ['... all connections ...'],
+          },
+        },
+      },
+      clarificationExample,
+      errorExample,
+    };
+  }
+
+  private getCriticalRules(): string[] {
+    const commonRules = [
+      'OUTPUT FORMAT: You MUST output exactly ONE JSON object - no explanatory text, no multiple JSON blocks',
+      'DO NOT wrap JSON in markdown code blocks (```json) - output raw JSON only',
+      'Follow the editingProcessFlow steps in order - do NOT skip steps',
+      'For questions/understanding requests: use clarification status with your answer',
+      'For unclear edit requests: use clarification status to ask for details',
+    ];
+
+    if (this.outputMode === 'patch') {
+      return [
+        ...commonRules,
+        'For clear edit requests: use success status with the edit operations inside values.operations',
+        'Output ONLY the operations the request needs - NEVER re-add, update or remove nodes that should stay as they are',
+        'Operations are applied in order: add a node before connecting to it, disconnect before reconnecting',
+        'Use the exact node and connection ids from currentWorkflow',
+        'status and message fields are REQUIRED in every response',
+      ];
+    }
+
+    return [
+      ...commonRules,
+      'DO NOT output workflow JSON separately from status JSON - they must be combined in ONE response',
+      'For success: workflow MUST be nested inside values.workflow, not as a separate JSON block',
+      'For clear edit requests: use success status with the modified workflow inside values.workflow',
+      'CRITICAL: When outputting workflow, COPY unchanged nodes with their EXACT original data',
+      'NEVER regenerate or modify data for nodes that were not explicitly requested to change',
+      'status and message fields are REQUIRED in every response',
+    ];
+  }
 }
@@ -6,13 +6,17 @@
  */
 
 import {
+  applyWorkflowPatch,
   type ConversationHistory,
   NodeType,
+  parseWorkflowPatch,
   type SkillNodeData,
   type SubAgentFlow,
   type SubAgentFlowNodeData,
   validateAIGeneratedWorkflow,
   type Workflow,
+  WorkflowPatchError,
+  type WorkflowPatchOperation,
 } from '@cc-wf-studio/core';
 import type {
   AiCliProvider,
@@ -20,6 +24,7 @@ import type {
   CodexModel,
   CodexReasoningEffort,
   CopilotModel,
+  RefinementOutputMode,
   SkillReference,
 } from '../../shared/types/messages';
 import { log } from '../extension';
@@ -47,6 +52,8 @@ export interface ValidationErrorInfo {
 export interface RefinementResult {
   success: boolean;
   refinedWorkflow?: Workflow;
+  /** Patch mode: the operations that turned the current workflow into refinedWorkflow */
+  patchOperations?: WorkflowPatchOperation[];
   clarificationMessage?: string;
   aiMessage?: string; // AI's response message for display in chat UI
   error?: {
@@ -76,7 +83,10 @@ export interface RefinementResult {
 interface AIRefinementResponse {
   status: 'success' | 'error' | 'clarification';
   values?: {
-    workflow: Workflow;
+    /** 'workflow' output mode */
+    workflow?: Workflow;
+    /** 'patch' output mode; checked with parseWorkflowPatch */
+    operations?: unknown;
   };
   message?: string; // For clarification or error messages
 }
@@ -181,6 +191,8 @@ function parseSubAgentFlowResponse(output: string): AISubAgentFlowResponse | nul
  * @param schemaResult - Schema load result (JSON or TOON)
  * @param filteredSkills - Skills filtered by relevance (optional)
  * @param previousValidationErrors - Validation errors from previous failed attempt (optional, for retry)
+ * @param isCodexEnabled - Whether to include Codex Agent node guidelines
+ * @param outputMode - Ask for the whole workflow or for edit operations
  * @returns Object with prompt string and schema size
  */
 export function constructRefinementPrompt(
@@ -190,13 +202,15 @@ export function constructRefinementPrompt(
   schemaResult: SchemaLoadResult,
   filteredSkills: SkillRelevanceScore[] = [],
   previousValidationErrors?: ValidationErrorInfo[],
-  isCodexEnabled = false
+  isCodexEnabled = false,
+  outputMode: RefinementOutputMode = 'workflow'
 ): { prompt: string; schemaSize: number } {
   const schemaFormat = getConfiguredSchemaFormat();
 
   log('INFO', 'Constructing refinement prompt', {
     promptFormat: 'toon',
     schemaFormat: schemaFormat,
+    outputMode,
     userMessageLength: userMessage.length,
     conversationHistoryLength: conversationHistory.messages.length,
     filteredSkillsCount: filteredSkills.length,
@@ -211,7 +225,8 @@ export function constructRefinementPrompt(
     schemaResult,
     filteredSkills,
     previousValidationErrors,
-    isCodexEnabled
+    isCodexEnabled,
+    outputMode
   );
 
   const prompt = builder.buildPrompt();
@@ -232,6 +247,19 @@ export function constructRefinementPrompt(
  */
 export const DEFAULT_REFINEMENT_TIMEOUT_MS = 90000;
 
+/**
+ * Maximum automatic repair rounds after the AI's workflow fails validation
+ *
+ * Each round sends the errors back to the AI as previousValidationErrors,
+ * within the same timeout. Repair rounds do not count as user iterations.
+ */
+export const MAX_REFINEMENT_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Minimum time left in the timeout for a repair round to start (15 seconds)
+ */
+export const MIN_REFINEMENT_REPAIR_TIME_MS = 15000;
+
 /**
  * Execute workflow refinement via Claude Code CLI
  *
@@ -251,6 +279,8 @@ export const DEFAULT_REFINEMENT_TIMEOUT_MS = 90000;
  * @param copilotModel - Copilot model to use when provider is 'copilot' (default: 'gpt-4o')
  * @param codexModel - Codex model to use when provider is 'codex' (default: '' = inherit)
  * @param codexReasoningEffort - Reasoning effort level for Codex (default: 'minimal')
+ * @param useCodex - Whether to include Codex Agent node in the prompt (default: false)
+ * @param outputMode - 'patch' asks for edit operations instead of the whole workflow (default: 'workflow')
  * @returns Refinement result with success status and refined workflow or error
  */
 export async function refineWorkflow(
@@ -270,7 +300,8 @@ export async function refineWorkflow(
   copilotModel: CopilotModel = 'gpt-4o',
   codexModel: CodexModel = '',
   codexReasoningEffort: CodexReasoningEffort = 'low',
-  useCodex = false
+  useCodex = false,
+  outputMode: RefinementOutputMode = 'workflow'
 ): Promise<RefinementResult> {
   const startTime = Date.now();
 
@@ -288,6 +319,7 @@ export async function refineWorkflow(
     timeoutMs,
     schemaFormat,
     promptFormat: 'toon',
+    outputMode,
     collectMetrics,
   });
 
@@ -383,7 +415,8 @@ export async function refineWorkflow(
       schemaResult,
       filteredSkills,
       previousValidationErrors,
-      useCodex
+      useCodex,
+      outputMode
     );
 
     // Record prompt size for metrics
@@ -612,64 +645,140 @@ export async function refineWorkflow(
       };
     }
 
-    // status === 'success' - extract workflow
-    if (!aiResponse.values?.workflow) {
-      log('ERROR', 'AI success response missing workflow', {
-        requestId,
-        hasValues: !!aiResponse.values,
-        executionTimeMs: cliResult.executionTimeMs,
-      });
+    // status === 'success' - extract the workflow, or apply the edit operations
+    let refinedWorkflow: Workflow;
+    let patchOperations: WorkflowPatchOperation[] | undefined;
 
-      return {
-        success: false,
-        error: {
-          code: 'PARSE_ERROR',
-          message: 'Refinement failed - AI response missing workflow data',
-          details: 'Success response does not contain workflow in values',
-        },
-        executionTimeMs: cliResult.executionTimeMs,
-        newSessionId: cliResult.sessionId,
-        sessionReconnected,
-      };
-    }
+    if (outputMode === 'patch') {
+      if (aiResponse.values?.operations === undefined) {
+        log('ERROR', 'AI success response missing edit operations', {
+          requestId,
+          hasValues: !!aiResponse.values,
+          executionTimeMs: cliResult.executionTimeMs,
+        });
 
-    let refinedWorkflow = aiResponse.values.workflow;
+        return {
+          success: false,
+          error: {
+            code: 'PARSE_ERROR',
+            message: 'Refinement failed - AI response missing edit operations',
+            details: 'Success response does not contain operations in values',
+          },
+          executionTimeMs: cliResult.executionTimeMs,
+          newSessionId: cliResult.sessionId,
+          sessionReconnected,
+        };
+      }
 
-    // Fill in missing metadata from current workflow
-    refinedWorkflow = {
-      ...refinedWorkflow,
-      id: refinedWorkflow.id || currentWorkflow.id,
-      name: refinedWorkflow.name || currentWorkflow.name,
-      version: refinedWorkflow.version || currentWorkflow.version || '1.0.0',
-      createdAt: refinedWorkflow.createdAt || currentWorkflow.createdAt || new Date(),
-      updatedAt: new Date(),
-    };
+      // Each operation is checked and applied on its own, in order
+      try {
+        patchOperations = parseWorkflowPatch(aiResponse.values.operations);
+        refinedWorkflow = {
+          ...applyWorkflowPatch(currentWorkflow, patchOperations),
+          updatedAt: new Date(),
+        };
+      } catch (error) {
+        if (!(error instanceof WorkflowPatchError)) {
+          throw error;
+        }
+
+        log('ERROR', 'Refinement patch could not be applied', {
+          requestId,
+          operationIndex: error.operationIndex,
+          errorMessage: error.message,
+          executionTimeMs: cliResult.executionTimeMs,
+        });
 
-    if (!refinedWorkflow.id || !refinedWorkflow.nodes || !refinedWorkflow.connections) {
-      log('ERROR', 'Parsed workflow is not valid', {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Refinement edit operations could not be applied - please try again',
+            details: error.message,
+          },
+          validationErrors: [
+            {
+              code: 'PATCH_OPERATION_INVALID',
+              message: error.message,
+              field:
+                error.operationIndex === undefined
+                  ? 'operations'
+                  : `operations[${error.operationIndex}]`,
+            },
+          ],
+          executionTimeMs: cliResult.executionTimeMs,
+          newSessionId: cliResult.sessionId,
+          sessionReconnected,
+        };
+      }
+
+      log('INFO', 'Refinement patch applied', {
         requestId,
-        hasId: !!refinedWorkflow.id,
-        hasNodes: !!refinedWorkflow.nodes,
-        hasConnections: !!refinedWorkflow.connections,
-        executionTimeMs: cliResult.executionTimeMs,
+        operationCount: patchOperations.length,
+        operations: patchOperations.map((operation) => operation.op),
       });
+    } else {
+      if (!aiResponse.values?.workflow) {
+        log('ERROR', 'AI success response missing workflow', {
+          requestId,
+          hasValues: !!aiResponse.values,
+          executionTimeMs: cliResult.executionTimeMs,
+        });
 
-      return {
-        success: false,
-        error: {
-          code: 'PARSE_ERROR',
-          message: 'Refinement failed - AI output does not match Workflow format',
-          details: 'Missing required workflow fields (id, nodes, or connections)',
-        },
-        executionTimeMs: cliResult.executionTimeMs,
-        newSessionId: cliResult.sessionId,
-        sessionReconnected,
+        return {
+          success: false,
+          error: {
+            code: 'PARSE_ERROR',
+            message: 'Refinement failed - AI response missing workflow data',
+            details: 'Success response does not contain workflow in values',
+          },
+          executionTimeMs: cliResult.executionTimeMs,
+          newSessionId: cliResult.sessionId,
+          sessionReconnected,
+        };
+      }
+
+      refinedWorkflow = aiResponse.values.workflow;
+
+      // Fill in missing metadata from current workflow
+      refinedWorkflow = {
+        ...refinedWorkflow,
+        id: refinedWorkflow.id || currentWorkflow.id,
+        name: refinedWorkflow.name || currentWorkflow.name,
+        version: refinedWorkflow.version || currentWorkflow.version || '1.0.0',
+        createdAt: refinedWorkflow.createdAt || currentWorkflow.createdAt || new Date(),
+        updatedAt: new Date(),
       };
+
+      if (!refinedWorkflow.id || !refinedWorkflow.nodes || !refinedWorkflow.connections) {
+        log('ERROR', 'Parsed workflow is not valid', {
+          requestId,
+          hasId: !!refinedWorkflow.id,
+          hasNodes: !!refinedWorkflow.nodes,
+          hasConnections: !!refinedWorkflow.connections,
+          executionTimeMs: cliResult.executionTimeMs,
+        });
+
+        return {
+          success: false,
+          error: {
+            code: 'PARSE_ERROR',
+            message: 'Refinement failed - AI output does not match Workflow format',
+            details: 'Missing required workflow fields (id, nodes, or connections)',
+          },
+          executionTimeMs: cliResult.executionTimeMs,
+          newSessionId: cliResult.sessionId,
+          sessionReconnected,
+        };
+      }
     }
 
     // Step 7: Resolve skill paths for skill nodes (only if useSkills is true)
     if (useSkills) {
       refinedWorkflow = await resolveSkillPaths(refinedWorkflow, availableSkills);
+      if (patchOperations) {
+        patchOperations = syncPatchWithResolvedSkills(patchOperations, refinedWorkflow);
+      }
 
       log('INFO', 'Skill paths resolved', {
         requestId,
@@ -745,6 +854,7 @@ export async function refineWorkflow(
     return {
       success: true,
       refinedWorkflow,
+      patchOperations,
       aiMessage: aiResponse.message,
       executionTimeMs,
       newSessionId: cliResult.sessionId,
@@ -831,6 +941,36 @@ async function resolveSkillPaths(
   };
 }
 
+/**
+ * Carry resolved skill data back into the patch operations
+ *
+ * resolveSkillPaths() fixes skill nodes in the patched workflow; the
+ * operations that add or change those nodes get the resolved data too, so
+ * applying them again (e.g. only the ones the user accepted) gives the same
+ * nodes.
+ *
+ * @param operations - Patch operations from the AI response
+ * @param workflow - Patched workflow after skill path resolution
+ * @returns Operations with resolved skill node data
+ */
+function syncPatchWithResolvedSkills(
+  operations: WorkflowPatchOperation[],
+  workflow: Workflow
+): WorkflowPatchOperation[] {
+  const nodesById = new Map(workflow.nodes.map((node) => [node.id, node]));
+
+  return operations.map((operation) => {
+    if (operation.op !== 'addNode' && !(operation.op === 'updateNode' && operation.data)) {
+      return operation;
+    }
+    const node = nodesById.get(operation.op === 'addNode' ? operation.id : operation.nodeId);
+    if (node?.type !== NodeType.Skill) {
+      return operation;
+    }
+    return { ...operation, data: { ...node.data } };
+  });
+}
+
 /**
  * Create a minimal SubAgentFlow structure (Start → End only)
  *
@@ -964,6 +1104,8 @@ export interface SubAgentFlowRefinementResult {
     message: string;
     details?: string;
   };
+  /** Validation errors when code is VALIDATION_ERROR or PROHIBITED_NODE_TYPE */
+  validationErrors?: ValidationErrorInfo[];
   executionTimeMs: number;
   /** New session ID from CLI (for session continuation) */
   newSessionId?: string;
@@ -988,6 +1130,8 @@ const SUBAGENTFLOW_PROHIBITED_NODE_TYPES = ['subAgent', 'subAgentFlow', 'askUser
  * @param userMessage - User's current refinement request
  * @param schemaResult - Schema load result (JSON or TOON)
  * @param filteredSkills - Skills filtered by relevance (optional)
+ * @param isCodexEnabled - Whether to include Codex Agent node guidelines
+ * @param previousValidationErrors - Validation errors from previous failed attempt (optional, for retry)
  * @returns Object with prompt string and schema size
  */
 export function constructSubAgentFlowRefinementPrompt(
@@ -996,7 +1140,8 @@ export function constructSubAgentFlowRefinementPrompt(
   userMessage: string,
   schemaResult: SchemaLoadResult,
   filteredSkills: SkillRelevanceScore[] = [],
-  isCodexEnabled = false
+  isCodexEnabled = false,
+  previousValidationErrors?: ValidationErrorInfo[]
 ): { prompt: string; schemaSize: number } {
   // Get last 6 messages (3 rounds of user-AI conversation)
   const recentMessages = conversationHistory.messages.slice(-6);
@@ -1080,6 +1225,27 @@ Codex Agent is a specialized node for executing OpenAI Codex CLI within workflow
 `
     : '';
 
+  // Construct error recovery section (only when retrying after failed validation)
+  const errorRecoverySection =
+    previousValidationErrors && previousValidationErrors.length > 0
+      ? `
+
+**Previous Attempt Failed Validation**:
+${JSON.stringify(
+  previousValidationErrors.map((e) => ({ code: e.code, message: e.message, field: e.field })),
+  null,
+  2
+)}
+
+**Error Recovery Instructions**:
+- The previous attempt failed validation with the errors listed above
+- Please carefully review the errors and fix them in your output
+- Pay special attention to node naming patterns, field requirements and prohibited node types
+- Ensure all required fields are present with valid values
+
+`
+      : '';
+
   const prompt = `You are an expert workflow designer for CC Workflow Studio.
 
 **Task**: Refine a Sub-Agent Flow based on user's feedback.
@@ -1129,7 +1295,7 @@ ${userMessage}
 - Use ifElse node for 2-way conditional branching (true/false)
 - Use switch node for 3+ way branching or multiple conditions
 - Each branch output should connect to exactly one downstream node
-${skillsSection}${codexSection}
+${skillsSection}${codexSection}${errorRecoverySection}
 ${schemaSection}
 
 **Output Format**: You MUST output a structured JSON response in exactly this format:
@@ -1204,6 +1370,8 @@ function validateSubAgentFlowNodes(innerWorkflow: InnerWorkflow): {
  * @param copilotModel - Copilot model to use when provider is 'copilot' (default: 'gpt-4o')
  * @param codexModel - Codex model to use when provider is 'codex' (default: '' = inherit)
  * @param codexReasoningEffort - Reasoning effort level for Codex (default: 'minimal')
+ * @param useCodex - Whether to include Codex Agent node in the prompt (default: false)
+ * @param previousValidationErrors - Validation errors from previous failed attempt (for retry with error context)
  * @returns SubAgentFlow refinement result
  */
 export async function refineSubAgentFlow(
@@ -1221,7 +1389,8 @@ export async function refineSubAgentFlow(
   copilotModel: CopilotModel = 'gpt-4o',
   codexModel: CodexModel = '',
   codexReasoningEffort: CodexReasoningEffort = 'low',
-  useCodex = false
+  useCodex = false,
+  previousValidationErrors?: ValidationErrorInfo[]
 ): Promise<SubAgentFlowRefinementResult> {
   const startTime = Date.now();
 
@@ -1240,6 +1409,7 @@ export async function refineSubAgentFlow(
     schemaFormat,
     promptFormat: 'toon',
     collectMetrics,
+    hasPreviousErrors: !!previousValidationErrors && previousValidationErrors.length > 0,
   });
 
   try {
@@ -1302,14 +1472,15 @@ export async function refineSubAgentFlow(
       sizeBytes: schemaResult.sizeBytes,
     });
 
-    // Step 2: Construct SubAgentFlow-specific refinement prompt
+    // Step 2: Construct SubAgentFlow-specific refinement prompt (with error context if retrying)
     const { prompt, schemaSize } = constructSubAgentFlowRefinementPrompt(
       innerWorkflow,
       conversationHistory,
       userMessage,
       schemaResult,
       filteredSkills,
-      useCodex
+      useCodex,
+      previousValidationErrors
     );
 
     // Record prompt size for metrics
@@ -1483,6 +1654,10 @@ export async function refineSubAgentFlow(
           message: 'Sub-Agent Flow cannot contain SubAgent, SubAgentFlow, or AskUserQuestion nodes',
           details: `Prohibited nodes found: ${nodeValidation.prohibitedNodes.join(', ')}`,
         },
+        validationErrors: nodeValidation.prohibitedNodes.map((node) => ({
+          code: 'PROHIBITED_NODE_TYPE',
+          message: `Node type not allowed in a Sub-Agent Flow: ${node}`,
+        })),
         executionTimeMs: cliResult.executionTimeMs,
       };
     }
@@ -1503,6 +1678,47 @@ export async function refineSubAgentFlow(
           message: `Sub-Agent Flow cannot exceed ${getMaxNodes()} nodes`,
           details: `Current count: ${refinedInnerWorkflow.nodes.length}`,
         },
+        validationErrors: [
+          {
+            code: 'MAX_NODES_EXCEEDED',
+            message: `Sub-Agent Flow has ${refinedInnerWorkflow.nodes.length} nodes; the maximum is ${getMaxNodes()}`,
+            field: 'nodes',
+          },
+        ],
+        executionTimeMs: cliResult.executionTimeMs,
+      };
+    }
+
+    // Step 7.5: Validate structure (node fields, connections) like a full workflow
+    const validation = validateAIGeneratedWorkflow({
+      id: 'sub-agent-flow',
+      name: 'sub-agent-flow',
+      version: '1.0.0',
+      nodes: refinedInnerWorkflow.nodes,
+      connections: refinedInnerWorkflow.connections,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    if (!validation.valid) {
+      log('ERROR', 'Refined SubAgentFlow failed validation', {
+        requestId,
+        validationErrors: validation.errors,
+        executionTimeMs: cliResult.executionTimeMs,
+      });
+
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Refined Sub-Agent Flow failed validation - please try again',
+          details: validation.errors.map((e) => e.message).join('; '),
+        },
+        validationErrors: validation.errors.map((e) => ({
+          code: e.code,
+          message: e.message,
+          field: e.field,
+        })),
         executionTimeMs: cliResult.executionTimeMs,
       };
     }
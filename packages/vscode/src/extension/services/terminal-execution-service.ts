@@ -16,6 +16,11 @@ export interface TerminalExecutionOptions {
   workingDirectory: string;
   /** Session ID for JSONL tracking (Commentary AI) */
   sessionId?: string;
+  /**
+   * Run-only instructions passed with `--append-system-prompt` (e.g. node
+   * progress markers). Must be safe inside a double-quoted shell argument.
+   */
+  appendSystemPrompt?: string;
 }
 
 /**
@@ -56,10 +61,13 @@ export function executeSlashCommandInTerminal(
 
   // Build command with optional session-id for JSONL tracking
   const sessionIdFlag = options.sessionId ? ` --session-id "${options.sessionId}"` : '';
+  const systemPromptFlag = options.appendSystemPrompt
+    ? ` --append-system-prompt "${options.appendSystemPrompt}"`
+    : '';
 
   // Execute the Claude Code CLI with the slash command
   // Using double quotes to handle workflow names with spaces
-  terminal.sendText(`claude "/${options.workflowName}"${sessionIdFlag}`);
+  terminal.sendText(`claude "/${options.workflowName}"${sessionIdFlag}${systemPromptFlag}`);
 
   return {
     terminalName,
@@ -51,43 +51,8 @@ export interface SlackWorkspaceConnection {
 // 2. SensitiveDataFinding & SensitiveDataType
 // ============================================================================
 
-/**
- * Types of sensitive data that can be detected
- */
-export enum SensitiveDataType {
-  AWS_ACCESS_KEY = 'AWS_ACCESS_KEY',
-  AWS_SECRET_KEY = 'AWS_SECRET_KEY',
-  API_KEY = 'API_KEY',
-  TOKEN = 'TOKEN',
-  SLACK_TOKEN = 'SLACK_TOKEN',
-  GITHUB_TOKEN = 'GITHUB_TOKEN',
-  PRIVATE_KEY = 'PRIVATE_KEY',
-  PASSWORD = 'PASSWORD',
-  CUSTOM = 'CUSTOM', // User-defined pattern
-}
-
-/**
- * Sensitive data detection result
- *
- * Contains masked values and severity information.
- * Original values are never stored.
- */
-export interface SensitiveDataFinding {
-  /** Type of sensitive data detected */
-  type: SensitiveDataType;
-
-  /** Masked value (first 4 + last 4 chars only, e.g., 'AKIA...X7Z9') */
-  maskedValue: string;
-
-  /** Character offset in file */
-  position: number;
-
-  /** Surrounding context (max 100 chars) */
-  context?: string;
-
-  /** Severity level (high = AWS keys, medium = API keys, low = passwords) */
-  severity: 'low' | 'medium' | 'high';
-}
+// Moved to @cc-wf-studio/core together with the detector.
+export { type SensitiveDataFinding, SensitiveDataType } from '@cc-wf-studio/core';
 
 // ============================================================================
 // 3. SlackChannel
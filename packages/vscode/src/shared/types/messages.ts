@@ -6,10 +6,14 @@
 
 import type {
   Connection,
+  NodeExecutionStatus,
   SubAgentModel,
   TourStep,
   Workflow,
   WorkflowNode,
+  WorkflowParameter,
+  WorkflowParameterValue,
+  WorkflowPatchOperation,
 } from '@cc-wf-studio/core';
 
 // Re-export Workflow for convenience
@@ -55,6 +59,8 @@ export interface WorkflowListPayload {
     name: string;
     description?: string;
     updatedAt: string; // ISO 8601
+    /** Template parameters, when the workflow declares any */
+    parameters?: WorkflowParameter[];
   }>;
 }
 
@@ -172,6 +178,19 @@ export interface LoadWorkflowRequestPayload {
   workflowId: string;
 }
 
+/**
+ * Create a new workflow from a saved template (a workflow that declares
+ * parameters). Answered with LOAD_WORKFLOW carrying the instantiated workflow.
+ */
+export interface CreateWorkflowFromTemplatePayload {
+  /** Template workflow ID (filename without .json extension) */
+  workflowId: string;
+  /** Name of the new workflow */
+  name: string;
+  /** Parameter values keyed by parameter name; omitted ones use defaults */
+  values: Record<string, WorkflowParameterValue>;
+}
+
 /**
  * Confirm workflow load payload
  * Sent from Webview to Extension after user confirms loading (or no unsaved changes)
@@ -228,6 +247,15 @@ export interface ExecutionSessionPayload {
     type: 'assistant' | 'tool_use' | 'error';
     summary: string;
   };
+  /**
+   * Per-node status keyed by node ID, for workflow runs launched from the
+   * editor. Absent for sessions that are not tied to a workflow (AI Edit).
+   */
+  nodeStatuses?: Record<string, NodeExecutionStatus>;
+  /** Most recently started node that is still running. */
+  currentNode?: { id: string; name: string };
+  /** Number of nodes tracked for this run (excludes Start / End / Group). */
+  trackedNodeCount?: number;
 }
 
 /** Identifies the execution session whose terminal should receive focus. */
@@ -504,6 +532,13 @@ export interface CopilotModelsListPayload {
   unavailableReason?: string;
 }
 
+/**
+ * What the AI returns when refining a workflow
+ * - workflow: the whole refined workflow (default)
+ * - patch: a list of edit operations, reviewed one by one before they are applied
+ */
+export type RefinementOutputMode = 'workflow' | 'patch';
+
 export interface RefineWorkflowPayload {
   /** ID of the workflow being refined */
   workflowId: string;
@@ -541,11 +576,18 @@ export interface RefineWorkflowPayload {
   codexReasoningEffort?: CodexReasoningEffort;
   /** Whether to include Codex Agent node in AI prompt (default: false) */
   useCodex?: boolean;
+  /** Ask for edit operations instead of a whole workflow (default: 'workflow') */
+  outputMode?: RefinementOutputMode;
 }
 
 export interface RefinementSuccessPayload {
   /** The refined workflow (full Workflow object) */
   refinedWorkflow: Workflow;
+  /**
+   * Patch mode: the operations that turn the current workflow into
+   * refinedWorkflow, for the user to accept or reject one by one
+   */
+  patchOperations?: WorkflowPatchOperation[];
   /** AI's response message */
   aiMessage: ConversationMessage;
   /** Updated conversation history with new messages */
@@ -743,7 +785,8 @@ export interface McpToolsResultPayload {
       | 'MCP_INVALID_CONFIG'
       | 'MCP_CONNECTION_TIMEOUT'
       | 'MCP_CONNECTION_ERROR'
-      | 'MCP_AUTH_REQUIRED';
+      | 'MCP_AUTH_REQUIRED'
+      | 'MCP_TOOL_CALL_FAILED';
     message: string;
     details?: string;
   };
@@ -809,7 +852,70 @@ export interface McpToolSchemaResultPayload {
       | 'MCP_CONNECTION_ERROR'
       | 'MCP_UNSUPPORTED_TRANSPORT'
       | 'MCP_INVALID_CONFIG'
-      | 'MCP_AUTH_REQUIRED';
+      | 'MCP_AUTH_REQUIRED'
+      | 'MCP_TOOL_CALL_FAILED';
+    message: string;
+    details?: string;
+  };
+  /** Request timestamp */
+  timestamp: string; // ISO 8601
+  /** Execution time in milliseconds */
+  executionTimeMs: number;
+}
+
+/**
+ * Call MCP tool request payload ("Try it" in the MCP node dialogs)
+ */
+export interface CallMcpToolPayload {
+  /** MCP server identifier */
+  serverId: string;
+  /** Tool name */
+  toolName: string;
+  /** Arguments to call the tool with (the node's parameterValues) */
+  parameterValues: Record<string, unknown>;
+}
+
+/**
+ * Result of an MCP tool call, as returned by the server
+ */
+export interface McpToolCallOutput {
+  /** Whether the tool reported an error (`isError` in the MCP result) */
+  isError: boolean;
+  /** Text content items of the result, joined with newlines */
+  text: string;
+  /** Structured content, when the tool declares an output schema */
+  structuredContent?: Record<string, unknown>;
+  /** Types of content items that are not shown (e.g. 'image', 'resource') */
+  omittedContentTypes: string[];
+}
+
+/**
+ * MCP tool call result payload
+ */
+export interface McpToolCallResultPayload {
+  /** Whether the call reached the tool (a tool-reported error is still a success) */
+  success: boolean;
+  /** Server identifier */
+  serverId: string;
+  /** Tool name */
+  toolName: string;
+  /** Tool output (if success) */
+  output?: McpToolCallOutput;
+  /** Error information (if failure) */
+  error?: {
+    code:
+      | 'MCP_CLI_NOT_FOUND'
+      | 'MCP_CLI_TIMEOUT'
+      | 'MCP_SERVER_NOT_FOUND'
+      | 'MCP_PARSE_ERROR'
+      | 'MCP_UNKNOWN_ERROR'
+      | 'MCP_CONNECTION_FAILED'
+      | 'MCP_CONNECTION_TIMEOUT'
+      | 'MCP_CONNECTION_ERROR'
+      | 'MCP_UNSUPPORTED_TRANSPORT'
+      | 'MCP_INVALID_CONFIG'
+      | 'MCP_AUTH_REQUIRED'
+      | 'MCP_TOOL_CALL_FAILED';
     message: string;
     details?: string;
   };
@@ -885,10 +991,13 @@ export interface McpErrorPayload {
 /**
  * Refresh MCP cache request payload
  *
- * Invalidates all in-memory MCP cache (server list, tools, schemas).
+ * Invalidates the MCP cache (server list, tools), in memory and on disk.
  * Useful when MCP servers are added/removed after initial load.
  */
-export type RefreshMcpCachePayload = Record<string, never>;
+export interface RefreshMcpCachePayload {
+  /** Only refresh this server's tools (default: everything) */
+  serverId?: string;
+}
 
 /**
  * MCP cache refreshed result payload
@@ -1184,6 +1293,7 @@ export type ExtensionMessage =
   | Message<McpServersResultPayload, 'MCP_SERVERS_RESULT'>
   | Message<McpToolsResultPayload, 'MCP_TOOLS_RESULT'>
   | Message<McpToolSchemaResultPayload, 'MCP_TOOL_SCHEMA_RESULT'>
+  | Message<McpToolCallResultPayload, 'MCP_TOOL_CALL_RESULT'>
   | Message<McpNodeValidationResultPayload, 'MCP_NODE_VALIDATION_RESULT'>
   | Message<McpErrorPayload, 'MCP_ERROR'>
   | Message<McpCacheRefreshedPayload, 'MCP_CACHE_REFRESHED'>
@@ -1264,6 +1374,10 @@ export type ExtensionMessage =
   | Message<RunForCursorSuccessPayload, 'RUN_FOR_CURSOR_SUCCESS'>
   | Message<void, 'RUN_FOR_CURSOR_CANCELLED'>
   | Message<CursorOperationFailedPayload, 'RUN_FOR_CURSOR_FAILED'>
+  | Message<CustomExportTargetsListPayload, 'CUSTOM_EXPORT_TARGETS_LIST'>
+  | Message<ExportForCustomTargetSuccessPayload, 'EXPORT_FOR_CUSTOM_TARGET_SUCCESS'>
+  | Message<void, 'EXPORT_FOR_CUSTOM_TARGET_CANCELLED'>
+  | Message<CustomTargetOperationFailedPayload, 'EXPORT_FOR_CUSTOM_TARGET_FAILED'>
   | Message<GetCurrentWorkflowRequestPayload, 'GET_CURRENT_WORKFLOW_REQUEST'>
   | Message<ApplyWorkflowFromMcpPayload, 'APPLY_WORKFLOW_FROM_MCP'>
   | Message<McpServerStatusPayload, 'MCP_SERVER_STATUS'>
@@ -2110,6 +2224,68 @@ export interface CursorOperationFailedPayload {
   timestamp: string; // ISO 8601
 }
 
+// ============================================================================
+// Custom Export Target Payloads (ccwf.config.json "exportTargets")
+// ============================================================================
+
+/**
+ * Custom export target summary, for the export menu
+ */
+export interface CustomExportTargetSummary {
+  /** Target id (its key under "exportTargets") */
+  id: string;
+  /** Name shown in the menu */
+  displayName: string;
+}
+
+/**
+ * Custom export targets list payload
+ */
+export interface CustomExportTargetsListPayload {
+  /** Targets declared in ccwf.config.json, in declaration order */
+  targets: CustomExportTargetSummary[];
+  /** Set when ccwf.config.json could not be read */
+  errorMessage?: string;
+}
+
+/**
+ * Export for custom target payload
+ */
+export interface ExportForCustomTargetPayload {
+  /** Workflow to export */
+  workflow: Workflow;
+  /** Target id (its key under "exportTargets") */
+  targetId: string;
+  /** Whether group node highlight tracking is enabled */
+  highlightEnabled?: boolean;
+}
+
+/**
+ * Export for custom target success payload
+ */
+export interface ExportForCustomTargetSuccessPayload {
+  /** Skill name */
+  skillName: string;
+  /** Skill file path */
+  skillPath: string;
+  /** Fields and features the target does not support */
+  warnings: string[];
+  /** Timestamp */
+  timestamp: string; // ISO 8601
+}
+
+/**
+ * Custom target operation failed payload
+ */
+export interface CustomTargetOperationFailedPayload {
+  /** Error code */
+  errorCode: 'TARGET_NOT_FOUND' | 'EXPORT_FAILED' | 'UNKNOWN_ERROR';
+  /** Error message */
+  errorMessage: string;
+  /** Timestamp */
+  timestamp: string; // ISO 8601
+}
+
 // ============================================================================
 // AI Editing Skill Payloads (MCP-based AI editing)
 // ============================================================================
@@ -2451,6 +2627,7 @@ export type WebviewMessage =
   | Message<ConfirmOverwritePayload, 'CONFIRM_OVERWRITE'>
   | Message<void, 'LOAD_WORKFLOW_LIST'>
   | Message<LoadWorkflowRequestPayload, 'LOAD_WORKFLOW'>
+  | Message<CreateWorkflowFromTemplatePayload, 'CREATE_WORKFLOW_FROM_TEMPLATE'>
   | Message<StateUpdatePayload, 'STATE_UPDATE'>
   | Message<void, 'BROWSE_COMMANDS'>
   | Message<CreateSubAgentPayload, 'CREATE_SUB_AGENT'>
@@ -2463,6 +2640,7 @@ export type WebviewMessage =
   | Message<ListMcpServersPayload, 'LIST_MCP_SERVERS'>
   | Message<GetMcpToolsPayload, 'GET_MCP_TOOLS'>
   | Message<GetMcpToolSchemaPayload, 'GET_MCP_TOOL_SCHEMA'>
+  | Message<CallMcpToolPayload, 'CALL_MCP_TOOL'>
   | Message<SaveMcpBearerTokenPayload, 'SAVE_MCP_BEARER_TOKEN'>
   | Message<DeleteMcpBearerTokenPayload, 'DELETE_MCP_BEARER_TOKEN'>
   | Message<CheckMcpBearerTokenPayload, 'CHECK_MCP_BEARER_TOKEN'>
@@ -2504,6 +2682,8 @@ export type WebviewMessage =
   | Message<RunForAntigravityPayload, 'RUN_FOR_ANTIGRAVITY'>
   | Message<ExportForCursorPayload, 'EXPORT_FOR_CURSOR'>
   | Message<RunForCursorPayload, 'RUN_FOR_CURSOR'>
+  | Message<void, 'LIST_CUSTOM_EXPORT_TARGETS'>
+  | Message<ExportForCustomTargetPayload, 'EXPORT_FOR_CUSTOM_TARGET'>
   | Message<GetCurrentWorkflowResponsePayload, 'GET_CURRENT_WORKFLOW_RESPONSE'>
   | Message<ApplyWorkflowFromMcpResponsePayload, 'APPLY_WORKFLOW_FROM_MCP_RESPONSE'>
   | Message<StartMcpServerPayload, 'START_MCP_SERVER'>
@@ -114,6 +114,7 @@ const App: React.FC = () => {
       updateMessageLoadingState: refinementStore.updateMessageLoadingState,
       updateMessageErrorState: refinementStore.updateMessageErrorState,
       updateMessageToolInfo: refinementStore.updateMessageToolInfo,
+      updateMessageRepairs: refinementStore.updateMessageRepairs,
       removeMessage: refinementStore.removeMessage,
       clearHistory: refinementStore.clearHistory,
       startProcessing: refinementStore.startProcessing,
@@ -318,6 +319,7 @@ const App: React.FC = () => {
       const { nodes: loadedNodes, edges: loadedEdges } = deserializeWorkflow(pending.workflow);
       setCanvas(loadedNodes, loadedEdges);
       setWorkflowName(pending.workflow.name);
+      useWorkflowStore.getState().setWorkflowParameters(pending.workflow.parameters ?? []);
       setActiveWorkflow(pending.workflow, { clearHistory: false });
       vscode.postMessage({
         type: 'APPLY_WORKFLOW_FROM_MCP_RESPONSE',
@@ -483,6 +485,7 @@ const App: React.FC = () => {
           setCanvas(loadedNodes, loadedEdges);
           setWorkflowName(workflow.name);
           setWorkflowDescription(workflow.description || '');
+          useWorkflowStore.getState().setWorkflowParameters(workflow.parameters ?? []);
           setActiveWorkflow(workflow);
         }
         // Start tour after sample workflow is loaded (first-time user flow)
@@ -514,7 +517,8 @@ const App: React.FC = () => {
               activeWorkflow.conversationHistory,
               subAgentFlows,
               undefined,
-              activeWorkflow.tour
+              activeWorkflow.tour,
+              useWorkflowStore.getState().workflowParameters
             )
           : null;
         // Preserve original ID
@@ -540,7 +544,9 @@ const App: React.FC = () => {
           useWorkflowStore.getState().setHighlightedGroupNodeId(payload.groupNodeId);
         }
       } else if (message.type === 'EXECUTION_SESSION_UPDATED') {
-        setExecutionSession(message.payload as ExecutionSessionPayload);
+        const session = message.payload as ExecutionSessionPayload;
+        setExecutionSession(session);
+        useWorkflowStore.getState().setNodeExecutionStatuses(session.nodeStatuses ?? {});
       } else if (message.type === 'ANTIGRAVITY_MCP_REFRESH_NEEDED') {
         const refreshPayload = message.payload as AntigravityMcpRefreshNeededPayload | undefined;
         setMcpRefreshSkillName(refreshPayload?.skillName || 'cc-workflow-ai-editor');
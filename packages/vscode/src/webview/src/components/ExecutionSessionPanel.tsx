@@ -29,11 +29,17 @@ export const ExecutionSessionPanel: React.FC<{ session: ExecutionSessionPayload
           : session.status === 'failed'
             ? t('executionSession.failed')
             : t('executionSession.ended');
-  const activityText =
+  const nodeStatuses = Object.values(session.nodeStatuses ?? {});
+  const completedCount = nodeStatuses.filter((status) => status === 'completed').length;
+  const failedCount = nodeStatuses.filter((status) => status === 'failed').length;
+  const activitySummary =
     session.lastActivity?.summary ??
     (session.provider === 'codex'
       ? t('executionSession.codexTerminal')
       : t('executionSession.waiting'));
+  const activityText = session.currentNode
+    ? `${session.currentNode.name} — ${activitySummary}`
+    : activitySummary;
   const activityLabel = (
     <span
       style={{
@@ -83,6 +89,20 @@ export const ExecutionSessionPanel: React.FC<{ session: ExecutionSessionPayload
         <span style={{ color: running ? '#89d185' : 'var(--vscode-descriptionForeground)' }}>
           {running ? '●' : '○'} {statusLabel}
         </span>
+        {session.trackedNodeCount ? (
+          <span style={{ fontWeight: 400, color: 'var(--vscode-descriptionForeground)' }}>
+            {t('executionSession.progress', {
+              completed: completedCount,
+              total: session.trackedNodeCount,
+            })}
+            {failedCount > 0 && (
+              <span style={{ color: 'var(--vscode-errorForeground)' }}>
+                {' · '}
+                {t('executionSession.progressFailed', { count: failedCount })}
+              </span>
+            )}
+          </span>
+        ) : null}
       </div>
       <div
         style={{
@@ -97,7 +117,7 @@ export const ExecutionSessionPanel: React.FC<{ session: ExecutionSessionPayload
       >
         <Terminal size={13} style={{ flexShrink: 0 }} />
         {session.lastActivity?.summary ? (
-          <StyledTooltip content={session.lastActivity.summary} side="top" delayDuration={150}>
+          <StyledTooltip content={activityText} side="top" delayDuration={150}>
             {activityLabel}
           </StyledTooltip>
         ) : (
@@ -0,0 +1,121 @@
+/**
+ * Canvas panel listing graph analysis findings (unreachable nodes, dead ends,
+ * open branch ports, cycles without exit). Collapsed to a count by default;
+ * clicking a finding selects its node and pans the canvas to it.
+ */
+
+import type { ValidationError } from '@cc-wf-studio/core';
+import { AlertTriangle, CircleAlert } from 'lucide-react';
+import type React from 'react';
+import { useState } from 'react';
+import { useTranslation } from '../i18n/i18n-context';
+import { useWorkflowStore } from '../stores/workflow-store';
+
+export const GraphIssuesPanel: React.FC<{ findings: ValidationError[] }> = ({ findings }) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { setSelectedNodeId, requestFocusNode } = useWorkflowStore();
+
+  if (findings.length === 0) return null;
+
+  const errorCount = findings.filter((f) => f.severity !== 'warning').length;
+  const SummaryIcon = errorCount > 0 ? CircleAlert : AlertTriangle;
+  const severityColor = (finding: ValidationError) =>
+    finding.severity === 'warning'
+      ? 'var(--vscode-editorWarning-foreground)'
+      : 'var(--vscode-errorForeground)';
+
+  return (
+    <div
+      style={{
+        maxWidth: '420px',
+        backgroundColor: 'var(--vscode-editor-background)',
+        border: '1px solid var(--vscode-panel-border)',
+        borderRadius: '6px',
+        fontSize: '12px',
+        color: 'var(--vscode-foreground)',
+        opacity: 0.95,
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        aria-expanded={isExpanded}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          width: '100%',
+          padding: '6px 10px',
+          background: 'none',
+          border: 'none',
+          color: 'inherit',
+          fontSize: 'inherit',
+          fontWeight: 600,
+          cursor: 'pointer',
+        }}
+      >
+        <SummaryIcon
+          size={14}
+          color={
+            errorCount > 0
+              ? 'var(--vscode-errorForeground)'
+              : 'var(--vscode-editorWarning-foreground)'
+          }
+        />
+        {t('graphIssues.title', { count: findings.length })}
+      </button>
+      {isExpanded && (
+        <ul
+          style={{
+            listStyle: 'none',
+            margin: 0,
+            padding: '0 6px 6px',
+            maxHeight: '180px',
+            overflowY: 'auto',
+          }}
+        >
+          {findings.map((finding) => (
+            <li key={`${finding.code}-${finding.nodeId}-${finding.field}`}>
+              <button
+                type="button"
+                disabled={!finding.nodeId}
+                onClick={() => {
+                  if (!finding.nodeId) return;
+                  setSelectedNodeId(finding.nodeId);
+                  requestFocusNode(finding.nodeId);
+                }}
+                style={{
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: '6px',
+                  width: '100%',
+                  padding: '4px',
+                  background: 'none',
+                  border: 'none',
+                  borderRadius: '3px',
+                  color: 'inherit',
+                  fontSize: '11px',
+                  textAlign: 'left',
+                  cursor: finding.nodeId ? 'pointer' : 'default',
+                }}
+              >
+                <span
+                  style={{
+                    flexShrink: 0,
+                    width: '6px',
+                    height: '6px',
+                    marginTop: '5px',
+                    borderRadius: '50%',
+                    backgroundColor: severityColor(finding),
+                  }}
+                />
+                {finding.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -11,6 +11,7 @@ import {
   generateBranchId,
   generateOptionId,
   NodeType,
+  VALIDATION_RULES,
 } from '@cc-wf-studio/core';
 import type { CommandReference } from '@shared/types/messages';
 import {
@@ -18,10 +19,13 @@ import {
   GitBranch,
   GitBranchPlus,
   GitFork,
+  Merge,
   MessageSquare,
   PanelLeftClose,
   Plug,
+  Repeat,
   ShieldQuestion,
+  Split,
   Square,
   SquareDashed,
   Terminal,
@@ -381,6 +385,49 @@ export const NodePalette: React.FC<NodePaletteProps> = ({ onCollapse }) => {
     addNode(newNode);
   };
 
+  const handleAddLoop = () => {
+    const position = calculateNonOverlappingPosition(250, 280);
+    const newNode = {
+      id: `loop-${Date.now()}`,
+      type: 'loop' as const,
+      position,
+      data: {
+        exitCondition: t('default.loopExitCondition'),
+        maxIterations: VALIDATION_RULES.LOOP.DEFAULT_MAX_ITERATIONS,
+        outputPorts: 2 as const,
+      },
+    };
+    addNode(newNode);
+  };
+
+  const handleAddParallel = () => {
+    const position = calculateNonOverlappingPosition(250, 280);
+    const newNode = {
+      id: `parallel-${Date.now()}`,
+      type: 'parallel' as const,
+      position,
+      data: {
+        branches: [
+          { id: generateBranchId(), label: t('default.parallelBranch1') },
+          { id: generateBranchId(), label: t('default.parallelBranch2') },
+        ],
+        outputPorts: 2,
+      },
+    };
+    addNode(newNode);
+  };
+
+  const handleAddJoin = () => {
+    const position = calculateNonOverlappingPosition(250, 280);
+    const newNode = {
+      id: `join-${Date.now()}`,
+      type: 'join' as const,
+      position,
+      data: {},
+    };
+    addNode(newNode);
+  };
+
   // Feature: 089-subworkflow - Create new Sub-Agent Flow and enter edit mode
   const handleAddSubAgentFlowRef = () => {
     const timestamp = Date.now();
@@ -960,6 +1007,138 @@ export const NodePalette: React.FC<NodePaletteProps> = ({ onCollapse }) => {
         )}
       </button>
 
+      {/* Loop Node Button */}
+      <button
+        type="button"
+        onClick={handleAddLoop}
+        style={{
+          width: '100%',
+          padding: isCompact ? '8px' : '12px',
+          marginBottom: isCompact ? '8px' : '12px',
+          backgroundColor: 'var(--vscode-button-background)',
+          color: 'var(--vscode-button-foreground)',
+          border: '1px solid var(--vscode-button-border)',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: isCompact ? '11px' : '13px',
+          fontWeight: 500,
+          textAlign: 'left',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '4px',
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.backgroundColor = 'var(--vscode-button-hoverBackground)';
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = 'var(--vscode-button-background)';
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 600 }}>
+          <Repeat size={14} />
+          {t('node.loop.title')}
+        </div>
+        {!isCompact && (
+          <div
+            style={{
+              fontSize: '11px',
+              color: 'var(--vscode-button-foreground)',
+              opacity: 0.8,
+            }}
+          >
+            {t('node.loop.description')}
+          </div>
+        )}
+      </button>
+
+      {/* Parallel Node Button */}
+      <button
+        type="button"
+        onClick={handleAddParallel}
+        style={{
+          width: '100%',
+          padding: isCompact ? '8px' : '12px',
+          marginBottom: isCompact ? '8px' : '12px',
+          backgroundColor: 'var(--vscode-button-background)',
+          color: 'var(--vscode-button-foreground)',
+          border: '1px solid var(--vscode-button-border)',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: isCompact ? '11px' : '13px',
+          fontWeight: 500,
+          textAlign: 'left',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '4px',
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.backgroundColor = 'var(--vscode-button-hoverBackground)';
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = 'var(--vscode-button-background)';
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 600 }}>
+          <Split size={14} />
+          {t('node.parallel.title')}
+        </div>
+        {!isCompact && (
+          <div
+            style={{
+              fontSize: '11px',
+              color: 'var(--vscode-button-foreground)',
+              opacity: 0.8,
+            }}
+          >
+            {t('node.parallel.description')}
+          </div>
+        )}
+      </button>
+
+      {/* Join Node Button */}
+      <button
+        type="button"
+        onClick={handleAddJoin}
+        style={{
+          width: '100%',
+          padding: isCompact ? '8px' : '12px',
+          marginBottom: isCompact ? '8px' : '12px',
+          backgroundColor: 'var(--vscode-button-background)',
+          color: 'var(--vscode-button-foreground)',
+          border: '1px solid var(--vscode-button-border)',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: isCompact ? '11px' : '13px',
+          fontWeight: 500,
+          textAlign: 'left',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '4px',
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.backgroundColor = 'var(--vscode-button-hoverBackground)';
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = 'var(--vscode-button-background)';
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 600 }}>
+          <Merge size={14} />
+          {t('node.join.title')}
+        </div>
+        {!isCompact && (
+          <div
+            style={{
+              fontSize: '11px',
+              color: 'var(--vscode-button-foreground)',
+              opacity: 0.8,
+            }}
+          >
+            {t('node.join.description')}
+          </div>
+        )}
+      </button>
+
       {/* AskUserQuestion Node Button - hidden in SubAgentFlow edit mode */}
       {!isEditingSubAgentFlow && (
         <button
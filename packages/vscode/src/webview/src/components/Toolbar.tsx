@@ -5,7 +5,7 @@
  */
 
 import { CLAUDE_CODE_ONLY_NODE_TYPES, type NodeType } from '@cc-wf-studio/core';
-import type { Workflow } from '@shared/types/messages';
+import type { CustomExportTargetSummary, Workflow } from '@shared/types/messages';
 import {
   BookOpen,
   FileDown,
@@ -31,8 +31,10 @@ import {
   exportForCopilot,
   exportForCopilotCli,
   exportForCursor,
+  exportForCustomTarget,
   exportForGeminiCli,
   exportForRooCode,
+  listCustomExportTargets,
   runAsSlashCommand,
   runForAntigravity,
   runForCodexCli,
@@ -56,6 +58,8 @@ import { ProcessingOverlay } from './common/ProcessingOverlay';
 import { StyledTooltipProvider } from './common/StyledTooltip';
 import { ClaudeApiUploadDialog } from './dialogs/ClaudeApiUploadDialog';
 import { ConfirmDialog } from './dialogs/ConfirmDialog';
+import { NewFromTemplateDialog } from './dialogs/NewFromTemplateDialog';
+import { TemplateParametersDialog } from './dialogs/TemplateParametersDialog';
 import { WhatsNewDialog } from './dialogs/WhatsNewDialog';
 import { CommentaryOptionsDropdown } from './toolbar/CommentaryOptionsDropdown';
 import { MoreActionsDropdown } from './toolbar/MoreActionsDropdown';
@@ -107,6 +111,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     mcpServerPort,
     slashCommandOptions,
     setSlashCommandOptions,
+    workflowParameters,
+    setWorkflowParameters,
     setSlashCommandContext,
     setSlashCommandModel,
     setSlashCommandAllowedTools,
@@ -165,6 +171,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   // Copilot Chat integration
   const [isCopilotChatExporting, setIsCopilotChatExporting] = useState(false);
   const [isCopilotChatRunning, setIsCopilotChatRunning] = useState(false);
+  // Custom export targets (ccwf.config.json "exportTargets")
+  const [customExportTargets, setCustomExportTargets] = useState<CustomExportTargetSummary[]>([]);
   // Claude Code-only node warning (shown before exporting/running for non-Claude targets)
   const [showClaudeOnlyConfirm, setShowClaudeOnlyConfirm] = useState(false);
   const pendingClaudeOnlyActionRef = useRef<(() => Promise<void>) | null>(null);
@@ -231,6 +239,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   const [isClaudeApiUploadDialogOpen, setIsClaudeApiUploadDialogOpen] = useState(false);
   // What's New
   const [isWhatsNewDialogOpen, setIsWhatsNewDialogOpen] = useState(false);
+  const [isTemplateParametersDialogOpen, setIsTemplateParametersDialogOpen] = useState(false);
+  const [isNewFromTemplateDialogOpen, setIsNewFromTemplateDialogOpen] = useState(false);
   const [unreadReleaseCount, setUnreadReleaseCount] = useState(initialUnreadReleaseCount);
 
   useEffect(() => {
@@ -284,7 +294,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     try {
       // Issue #89: Get subAgentFlows from store
       // Issue #413: Get slashCommandOptions from store
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       // Phase 5 (T024): Serialize workflow with conversation history and subAgentFlows
@@ -297,7 +307,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         activeWorkflow?.conversationHistory,
         subAgentFlows,
         slashCommandOptions,
-        activeWorkflow?.tour
+        activeWorkflow?.tour,
+        workflowParameters
       );
 
       // Validate workflow before saving
@@ -352,6 +363,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             disableModelInvocation: workflow.slashCommandOptions?.disableModelInvocation,
             argumentHint: workflow.slashCommandOptions?.argumentHint,
           });
+          setWorkflowParameters(workflow.parameters ?? []);
           // Set as active workflow to preserve conversation history
           setActiveWorkflow(workflow);
         }
@@ -384,6 +396,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     setWorkflowName,
     setWorkflowDescription,
     setSlashCommandOptions,
+    setWorkflowParameters,
   ]);
 
   const handleLoadWorkflow = () => {
@@ -416,7 +429,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     try {
       // Issue #89: Get subAgentFlows from store for export
       // Issue #413: Get slashCommandOptions from store for export
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       // Serialize workflow with subAgentFlows and slashCommandOptions
@@ -427,7 +440,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined, // conversationHistory not needed for export
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       // Validate workflow before export
@@ -481,7 +496,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     try {
       // Issue #89: Get subAgentFlows from store for run
       // Issue #413: Get slashCommandOptions from store for run
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       // Serialize workflow with subAgentFlows and slashCommandOptions
@@ -492,7 +507,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined, // conversationHistory not needed for run
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       // Validate workflow before run
@@ -545,7 +562,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCopilotChatExporting(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -555,7 +572,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -593,7 +612,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCopilotChatRunning(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -603,7 +622,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -641,7 +662,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCopilotCliExporting(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -651,7 +672,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -689,7 +712,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCopilotCliRunning(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -699,7 +722,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -741,7 +766,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCodexExporting(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -751,7 +776,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -789,7 +816,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCodexRunning(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -799,7 +826,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -841,7 +870,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsRooCodeExporting(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -851,7 +880,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -889,7 +920,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsRooCodeRunning(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -899,7 +930,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -941,7 +974,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsGeminiExporting(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -951,7 +984,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -989,7 +1024,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsGeminiRunning(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -999,7 +1034,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -1041,7 +1078,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsAntigravityExporting(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -1051,7 +1088,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -1089,7 +1128,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsAntigravityRunning(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -1099,7 +1138,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -1141,7 +1182,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCursorExporting(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -1151,7 +1192,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -1170,6 +1213,67 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     }
   };
 
+  // Re-read ccwf.config.json each time the More Actions menu opens
+  const refreshCustomExportTargets = () => {
+    listCustomExportTargets()
+      .then((result) => {
+        setCustomExportTargets(result.targets);
+        if (result.errorMessage) {
+          console.warn('Failed to read custom export targets:', result.errorMessage);
+        }
+      })
+      .catch(() => setCustomExportTargets([]));
+  };
+
+  const handleCustomTargetExport = async (targetId: string) => {
+    if (!workflowName.trim()) {
+      onError({
+        code: 'VALIDATION_ERROR',
+        message: t('toolbar.error.workflowNameRequiredForExport'),
+      });
+      return;
+    }
+
+    if (!WORKFLOW_NAME_PATTERN.test(workflowName)) {
+      onError({
+        code: 'VALIDATION_ERROR',
+        message: t('toolbar.error.workflowNameInvalid'),
+      });
+      return;
+    }
+
+    try {
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
+        useWorkflowStore.getState();
+
+      const workflow = serializeWorkflow(
+        nodes,
+        edges,
+        workflowName,
+        workflowDescription || undefined,
+        undefined,
+        subAgentFlows,
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
+      );
+
+      validateWorkflow(workflow);
+
+      const { isHighlightEnabled } = useWorkflowStore.getState();
+      const result = await exportForCustomTarget(workflow, targetId, {
+        highlightEnabled: isHighlightEnabled,
+      });
+      console.log(`Workflow exported as skill for ${targetId}:`, result.skillPath);
+    } catch (error) {
+      onError({
+        code: 'EXPORT_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to export for custom target',
+        details: error,
+      });
+    }
+  };
+
   const handleCursorRun = async () => {
     if (!workflowName.trim()) {
       onError({
@@ -1189,7 +1293,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
     setIsCursorRunning(true);
     try {
-      const { subAgentFlows, workflowDescription, slashCommandOptions } =
+      const { subAgentFlows, workflowDescription, slashCommandOptions, workflowParameters } =
         useWorkflowStore.getState();
 
       const workflow = serializeWorkflow(
@@ -1199,7 +1303,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         workflowDescription || undefined,
         undefined,
         subAgentFlows,
-        slashCommandOptions
+        slashCommandOptions,
+        undefined, // tour not needed for export
+        workflowParameters
       );
 
       validateWorkflow(workflow);
@@ -1311,7 +1417,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
       activeWorkflow?.conversationHistory,
       subAgentFlows,
       slashCommandOptions,
-      activeWorkflow?.tour
+      activeWorkflow?.tour,
+      workflowParameters
     );
     setActiveWorkflow(currentWorkflow);
 
@@ -1335,6 +1442,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     activeWorkflow?.tour,
     subAgentFlows,
     slashCommandOptions,
+    workflowParameters,
     setActiveWorkflow,
     loadConversationHistory,
     initConversation,
@@ -2627,9 +2735,18 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               onToggleCommentary={toggleCommentaryFeature}
               onOpenWhatsNew={() => setIsWhatsNewDialogOpen(true)}
               onOpenSampleWorkflows={onOpenSampleWorkflows ?? (() => undefined)}
+              onOpenTemplateParameters={() => setIsTemplateParametersDialogOpen(true)}
+              onNewFromTemplate={() => setIsNewFromTemplateDialogOpen(true)}
+              customExportTargets={customExportTargets}
+              onExportToCustomTarget={(targetId) =>
+                guardClaudeCodeOnly(() => handleCustomTargetExport(targetId))
+              }
               unreadReleaseCount={unreadReleaseCount}
               open={moreActionsOpen}
-              onOpenChange={onMoreActionsOpenChange}
+              onOpenChange={(open) => {
+                if (open) refreshCustomExportTargets();
+                onMoreActionsOpenChange?.(open);
+              }}
             />
           </div>
         </div>
@@ -2673,6 +2790,18 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           }}
         />
 
+        {/* Template Parameters Dialog */}
+        <TemplateParametersDialog
+          isOpen={isTemplateParametersDialogOpen}
+          onClose={() => setIsTemplateParametersDialogOpen(false)}
+        />
+
+        {/* New from Template Dialog */}
+        <NewFromTemplateDialog
+          isOpen={isNewFromTemplateDialogOpen}
+          onClose={() => setIsNewFromTemplateDialogOpen(false)}
+        />
+
         {/* What's New Dialog */}
         <WhatsNewDialog
           isOpen={isWhatsNewDialogOpen}
@@ -5,6 +5,7 @@
  * Based on: /specs/001-cc-wf-studio/research.md section 3.4
  */
 
+import { analyzeWorkflowGraph, type WorkflowNode } from '@cc-wf-studio/core';
 import { PanelLeftOpen } from 'lucide-react';
 import type React from 'react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -31,6 +32,7 @@ import { FeatureAnnouncementBanner } from './common/FeatureAnnouncementBanner';
 import { DescriptionPanel } from './DescriptionPanel';
 // Custom edge with delete button
 import { DeletableEdge } from './edges/DeletableEdge';
+import { GraphIssuesPanel } from './GraphIssuesPanel';
 import { MinimapContainer } from './MinimapContainer';
 import { AskUserQuestionNodeComponent } from './nodes/AskUserQuestionNode';
 import { BranchNodeComponent } from './nodes/BranchNode';
@@ -40,7 +42,10 @@ import { CodexNodeComponent } from './nodes/CodexNode';
 import { EndNode } from './nodes/EndNode';
 import { GroupNodeComponent } from './nodes/GroupNode';
 import { IfElseNodeComponent } from './nodes/IfElseNode';
+import { JoinNodeComponent } from './nodes/JoinNode';
+import { LoopNodeComponent } from './nodes/LoopNode';
 import { McpNodeComponent } from './nodes/McpNode/McpNode';
+import { ParallelNodeComponent } from './nodes/ParallelNode';
 import { PromptNode } from './nodes/PromptNode';
 import { SkillNodeComponent } from './nodes/SkillNode';
 import { StartNode } from './nodes/StartNode';
@@ -61,6 +66,9 @@ const nodeTypes: NodeTypes = {
   branch: BranchNodeComponent, // Legacy: 後方互換性のため維持
   ifElse: IfElseNodeComponent,
   switch: SwitchNodeComponent,
+  loop: LoopNodeComponent,
+  parallel: ParallelNodeComponent,
+  join: JoinNodeComponent,
   // 新規ノードタイプ
   start: StartNode,
   end: EndNode,
@@ -144,9 +152,11 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
     scrollMode,
     onNodeDragStop,
     highlightedGroupNodeId,
+    nodeExecutionStatuses,
     minimapDisplayMode,
     isMinimapShown,
     setMinimapShown,
+    subAgentFlows,
   } = useWorkflowStore();
 
   // Edge animation toggle (respects prefers-reduced-motion by default)
@@ -202,6 +212,60 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
     });
   }, [edges, nodes, selectedNodeId, highlightedGroupNodeId, isEdgeAnimationEnabled]);
 
+  // Graph analysis findings (unreachable nodes, dead ends, open branch ports,
+  // cycles without exit) of the graph on screen, for the issues panel and
+  // node outlines.
+  const graphFindings = useMemo(
+    () =>
+      analyzeWorkflowGraph(
+        {
+          nodes: nodes.map((node) => ({
+            id: node.id,
+            type: node.type,
+            data: node.data,
+          })) as WorkflowNode[],
+          connections: edges.map((edge) => ({
+            id: edge.id,
+            from: edge.source,
+            to: edge.target,
+            fromPort: edge.sourceHandle || 'default',
+            toPort: edge.targetHandle || 'default',
+          })),
+          subAgentFlows,
+        },
+        { subAgentFlows: false }
+      ),
+    [nodes, edges, subAgentFlows]
+  );
+
+  // Node-level execution status from the observed Claude Code run (see
+  // ExecutionSessionManager), falling back to the worst graph finding.
+  // Applied as a wrapper class; styles in main.css.
+  const displayNodes = useMemo(() => {
+    const findingSeverity = new Map<string, 'error' | 'warning'>();
+    for (const finding of graphFindings) {
+      if (!finding.nodeId || findingSeverity.get(finding.nodeId) === 'error') continue;
+      findingSeverity.set(finding.nodeId, finding.severity ?? 'error');
+    }
+    if (Object.keys(nodeExecutionStatuses).length === 0 && findingSeverity.size === 0) {
+      return nodes;
+    }
+    return nodes.map((node) => {
+      const status = nodeExecutionStatuses[node.id];
+      const severity = findingSeverity.get(node.id);
+      if (!status && !severity) return node;
+      // Keep the graph-analysis outline visible while the node runs.
+      const className = [
+        node.className,
+        severity && `node-graph-${severity}`,
+        status && `node-execution-${status}`,
+      ]
+        .filter(Boolean)
+        .join(' ');
+      return { ...node, className };
+    });
+  }, [nodes, nodeExecutionStatuses, graphFindings]);
+
   /**
    * 接続制約の検証
    *
@@ -415,7 +479,7 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
       {/* Canvas area */}
       <div style={{ flex: 1, position: 'relative' }}>
         <ReactFlow
-          nodes={nodes}
+          nodes={displayNodes}
           edges={animatedEdges}
           onNodesChange={handleNodesChange}
           onEdgesChange={handleEdgesChange}
@@ -473,6 +537,11 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
                           return 'var(--vscode-charts-yellow)';
                         case 'switch':
                           return 'var(--vscode-charts-yellow)';
+                        case 'loop':
+                          return 'var(--vscode-charts-blue)';
+                        case 'parallel':
+                        case 'join':
+                          return 'var(--vscode-charts-blue)';
                         case 'start':
                           return 'var(--vscode-charts-green)';
                         case 'end':
@@ -515,6 +584,11 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
             />
           </Panel>
 
+          {/* Graph analysis findings */}
+          <Panel position="bottom-center">
+            <GraphIssuesPanel findings={graphFindings} />
+          </Panel>
+
           {/* Description Panel for workflow description */}
           <Panel position="top-right">
             <DescriptionPanel />
@@ -5,6 +5,7 @@
  * Based on: /specs/001-ai-workflow-refinement/quickstart.md Section 3.2
  * Updated: Phase 3.7 - Added loading state for AI messages
  * Updated: Phase 3.8 - Added error state display
+ * Updated: Automatic repair rounds shown under AI messages
  */
 
 import type { ConversationMessage } from '@cc-wf-studio/core';
@@ -38,6 +39,10 @@ export function MessageBubble({ message, onRetry }: MessageBubbleProps) {
   const errorMessage = errorMessageInfo ? t(errorMessageInfo.messageKey) : '';
   const isRetryable = errorMessageInfo?.isRetryable ?? false;
 
+  // Validation errors the AI fixed in automatic repair rounds
+  const repairs = !isUser && !isError ? (message.repairs ?? []) : [];
+  const repairedErrors = repairs.flatMap((repair) => repair.errors);
+
   return (
     <div
       style={{
@@ -146,6 +151,32 @@ export function MessageBubble({ message, onRetry }: MessageBubbleProps) {
           </>
         )}
 
+        {/* Automatic repair rounds */}
+        {repairs.length > 0 && (
+          <details
+            style={{
+              marginTop: '6px',
+              fontSize: `${fontSizes.small}px`,
+              opacity: 0.8,
+            }}
+          >
+            <summary style={{ cursor: 'pointer' }}>
+              {t('refinement.repair.summary', {
+                count: repairedErrors.length,
+                rounds: repairs.length,
+              })}
+            </summary>
+            <ul style={{ margin: '4px 0 0', paddingLeft: '18px' }}>
+              {repairedErrors.map((error, index) => (
+                // biome-ignore lint/suspicious/noArrayIndexKey: the same error can repeat across rounds
+                <li key={index}>
+                  {error.field ? `${error.field}: ${error.message}` : error.message}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
         {/* Timestamp (hide when loading or error) */}
         {!isLoading && !isError && (
           <div
@@ -3,6 +3,7 @@
  *
  * Consolidates AI refinement settings into a single dropdown menu:
  * - Use Skills toggle
+ * - Review-changes (patch output) toggle
  * - Model selector
  * - Allowed Tools selector
  * - Clear History action
@@ -17,6 +18,7 @@ import {
   ChevronLeft,
   Cpu,
   ExternalLink,
+  ListChecks,
   Loader2,
   RotateCcw,
   Trash2,
@@ -53,15 +55,23 @@ const FONT_SIZES = {
 interface SettingsDropdownProps {
   onClearHistoryClick: () => void;
   hasMessages: boolean;
+  /** Show the output mode toggle (main workflow refinement only) */
+  showOutputMode?: boolean;
 }
 
-export function SettingsDropdown({ onClearHistoryClick, hasMessages }: SettingsDropdownProps) {
+export function SettingsDropdown({
+  onClearHistoryClick,
+  hasMessages,
+  showOutputMode = false,
+}: SettingsDropdownProps) {
   const { t } = useTranslation();
   const {
     useSkills,
     toggleUseSkills,
     useCodexNodes,
     toggleUseCodexNodes,
+    outputMode,
+    setOutputMode,
     isProcessing,
     selectedModel,
     setSelectedModel,
@@ -226,6 +236,43 @@ export function SettingsDropdown({ onClearHistoryClick, hasMessages }: SettingsD
             <span>{t('refinement.chat.useSkillsCheckbox')}</span>
           </DropdownMenu.CheckboxItem>
 
+          {/* Output Mode Toggle Item - AI returns edit operations to review one by one */}
+          {showOutputMode && (
+            <DropdownMenu.CheckboxItem
+              checked={outputMode === 'patch'}
+              onCheckedChange={(checked) => setOutputMode(checked ? 'patch' : 'workflow')}
+              disabled={isProcessing}
+              style={{
+                padding: '8px 12px',
+                fontSize: `${FONT_SIZES.small}px`,
+                color: 'var(--vscode-foreground)',
+                cursor: isProcessing ? 'not-allowed' : 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                outline: 'none',
+                borderRadius: '2px',
+                opacity: isProcessing ? 0.5 : 1,
+              }}
+            >
+              <div
+                style={{
+                  width: '14px',
+                  height: '14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+              >
+                <DropdownMenu.ItemIndicator>
+                  <Check size={14} />
+                </DropdownMenu.ItemIndicator>
+              </div>
+              <ListChecks size={14} />
+              <span>{t('refinement.chat.reviewChangesCheckbox')}</span>
+            </DropdownMenu.CheckboxItem>
+          )}
+
           {/* Use Codex Nodes Toggle Item - Only shown when Codex is enabled */}
           {isCodexEnabled && (
             <DropdownMenu.CheckboxItem
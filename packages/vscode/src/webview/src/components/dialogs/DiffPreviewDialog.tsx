@@ -1,3 +1,4 @@
+import type { WorkflowPatchOperation, WorkflowPatchOperationKind } from '@cc-wf-studio/core';
 import * as Dialog from '@radix-ui/react-dialog';
 import type { Workflow } from '@shared/types/messages';
 import { X } from 'lucide-react';
@@ -10,12 +11,50 @@ import { WorkflowOverview } from '../overview/WorkflowOverview';
 
 const PREVIEW_RATIO_STORAGE_KEY = 'cc-wf-studio.overviewMermaidPanelRatio.preview';
 
+const OPERATION_LABEL_KEYS = {
+  addNode: 'dialog.diffPreview.operation.addNode',
+  updateNode: 'dialog.diffPreview.operation.updateNode',
+  removeNode: 'dialog.diffPreview.operation.removeNode',
+  connect: 'dialog.diffPreview.operation.connect',
+  disconnect: 'dialog.diffPreview.operation.disconnect',
+} as const satisfies Record<WorkflowPatchOperationKind, string>;
+
+/**
+ * One-line summary of what an operation touches
+ */
+function describeOperation(operation: WorkflowPatchOperation): string {
+  switch (operation.op) {
+    case 'addNode':
+      return `${operation.name} (${operation.type})`;
+    case 'updateNode': {
+      const fields = [
+        ...(operation.name !== undefined ? ['name'] : []),
+        ...(operation.position !== undefined ? ['position'] : []),
+        ...Object.keys(operation.data ?? {}),
+      ];
+      return `${operation.nodeId}: ${fields.join(', ')}`;
+    }
+    case 'removeNode':
+      return operation.nodeId;
+    case 'connect':
+      return `${operation.from} → ${operation.to}`;
+    case 'disconnect':
+      return operation.id ?? `${operation.from ?? '*'} → ${operation.to ?? '*'}`;
+  }
+}
+
 interface DiffPreviewDialogProps {
   isOpen: boolean;
   workflow?: Workflow | null;
   diffSummary: WorkflowDiffSummary | null;
   description?: string;
   hasRevisionConflict?: boolean;
+  /** Edit operations from a patch-mode refinement, each accepted or rejected on its own */
+  operations?: WorkflowPatchOperation[];
+  acceptedOperations?: boolean[];
+  onToggleOperation?: (index: number) => void;
+  /** Why the accepted operations cannot be applied; disables Accept */
+  operationsError?: string | null;
   onAccept: () => void;
   onReject: () => void;
   onRetry?: () => void;
@@ -27,6 +66,10 @@ export const DiffPreviewDialog: React.FC<DiffPreviewDialogProps> = ({
   diffSummary,
   description,
   hasRevisionConflict,
+  operations,
+  acceptedOperations,
+  onToggleOperation,
+  operationsError,
   onAccept,
   onReject,
   onRetry,
@@ -129,6 +172,70 @@ export const DiffPreviewDialog: React.FC<DiffPreviewDialogProps> = ({
               </div>
             )}
 
+            {/* Patch operations */}
+            {operations && operations.length > 0 && (
+              <div
+                style={{
+                  fontSize: '13px',
+                  lineHeight: '1.6',
+                  color: 'var(--vscode-foreground)',
+                  maxHeight: '200px',
+                  overflowY: 'auto',
+                  marginBottom: '12px',
+                }}
+              >
+                <div
+                  style={{
+                    fontWeight: 500,
+                    marginBottom: '4px',
+                    color: 'var(--vscode-descriptionForeground)',
+                  }}
+                >
+                  {t('dialog.diffPreview.operations')}:
+                </div>
+                {operations.map((operation, index) => (
+                  <label
+                    // biome-ignore lint/suspicious/noArrayIndexKey: operations have no id and keep their order
+                    key={index}
+                    style={{
+                      paddingLeft: '8px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '6px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={acceptedOperations?.[index] ?? true}
+                      onChange={() => onToggleOperation?.(index)}
+                    />
+                    <span>{t(OPERATION_LABEL_KEYS[operation.op])}</span>
+                    <span
+                      style={{
+                        color: 'var(--vscode-descriptionForeground)',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {describeOperation(operation)}
+                    </span>
+                  </label>
+                ))}
+                {operationsError && (
+                  <div
+                    style={{
+                      marginTop: '8px',
+                      color: 'var(--vscode-errorForeground)',
+                    }}
+                  >
+                    {t('dialog.diffPreview.operationsInvalid', { error: operationsError })}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Diff details */}
             <div
               style={{
@@ -451,17 +558,20 @@ export const DiffPreviewDialog: React.FC<DiffPreviewDialogProps> = ({
                   <button
                     type="button"
                     onClick={onAccept}
+                    disabled={!!operationsError}
                     style={{
                       padding: '6px 16px',
                       backgroundColor: 'var(--vscode-button-background)',
                       color: 'var(--vscode-button-foreground)',
                       border: 'none',
                       borderRadius: '2px',
-                      cursor: 'pointer',
+                      cursor: operationsError ? 'not-allowed' : 'pointer',
                       fontSize: '13px',
                       fontWeight: 500,
+                      opacity: operationsError ? 0.5 : 1,
                     }}
                     onMouseEnter={(e) => {
+                      if (operationsError) return;
                       e.currentTarget.style.backgroundColor =
                         'var(--vscode-button-hoverBackground)';
                     }}
@@ -13,7 +13,7 @@
  * 3. Final config (only for aiParameterConfig / manualParameterConfig)
  */
 
-import type { McpNodeData } from '@cc-wf-studio/core/mcp';
+import type { McpNodeData, McpToolSampleOutput } from '@cc-wf-studio/core/mcp';
 import * as Dialog from '@radix-ui/react-dialog';
 import { useEffect, useState } from 'react';
 import { EditWizardStep, useMcpEditWizard } from '../../hooks/useMcpEditWizard';
@@ -39,6 +39,7 @@ export function McpNodeEditDialog({ isOpen, nodeId, onClose }: McpNodeEditDialog
   const [searchQuery, setSearchQuery] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [showValidation, setShowValidation] = useState(false);
+  const [sampleOutput, setSampleOutput] = useState<McpToolSampleOutput | undefined>(undefined);
 
   const wizard = useMcpEditWizard();
 
@@ -46,6 +47,13 @@ export function McpNodeEditDialog({ isOpen, nodeId, onClose }: McpNodeEditDialog
   const node = nodes.find((n) => n.id === nodeId);
   const nodeData = node?.data as McpNodeData | undefined;
 
+  // The saved sample no longer describes the node once another tool is selected
+  const currentSampleOutput =
+    wizard.state.selectedTool?.name === nodeData?.toolName ||
+    sampleOutput !== nodeData?.sampleOutput
+      ? sampleOutput
+      : undefined;
+
   /**
    * Initialize wizard from node data when dialog opens
    */
@@ -53,6 +61,7 @@ export function McpNodeEditDialog({ isOpen, nodeId, onClose }: McpNodeEditDialog
   useEffect(() => {
     if (isOpen && nodeData) {
       wizard.initializeFromNodeData(nodeData);
+      setSampleOutput(nodeData.sampleOutput);
       setSearchQuery('');
       setError(null);
       setShowValidation(false);
@@ -96,6 +105,7 @@ export function McpNodeEditDialog({ isOpen, nodeId, onClose }: McpNodeEditDialog
           toolName: wizard.state.selectedTool.name,
           toolDescription: wizard.state.selectedTool.description || '',
           parameterValues: wizard.state.manualParameterValues,
+          sampleOutput: currentSampleOutput,
         });
         break;
       }
@@ -245,6 +255,8 @@ export function McpNodeEditDialog({ isOpen, nodeId, onClose }: McpNodeEditDialog
               setError(null);
             }}
             showValidation={showValidation}
+            sampleOutput={currentSampleOutput}
+            onSaveSampleOutput={setSampleOutput}
           />
         );
 
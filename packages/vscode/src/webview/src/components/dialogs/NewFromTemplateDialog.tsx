@@ -0,0 +1,368 @@
+/**
+ * NewFromTemplateDialog Component
+ *
+ * Lists saved workflows that declare template parameters, collects a value
+ * for each parameter and asks the Extension Host to instantiate the chosen
+ * template. The result arrives as LOAD_WORKFLOW and opens as a new, unsaved
+ * workflow (handled by the Toolbar).
+ */
+
+import {
+  resolveParameterValues,
+  VALIDATION_RULES,
+  type WorkflowParameter,
+  WorkflowTemplateError,
+} from '@cc-wf-studio/core';
+import * as Dialog from '@radix-ui/react-dialog';
+import type { ExtensionMessage, WorkflowListPayload } from '@shared/types/messages';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../../i18n/i18n-context';
+import { vscode } from '../../main';
+
+interface NewFromTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type TemplateItem = WorkflowListPayload['workflows'][number] & {
+  parameters: WorkflowParameter[];
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '4px 6px',
+  backgroundColor: 'var(--vscode-input-background)',
+  color: 'var(--vscode-input-foreground)',
+  border: '1px solid var(--vscode-input-border)',
+  borderRadius: '2px',
+  fontSize: '12px',
+  boxSizing: 'border-box',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '4px',
+  fontSize: '12px',
+  color: 'var(--vscode-foreground)',
+};
+
+function initialValues(parameters: WorkflowParameter[]): Record<string, string> {
+  return Object.fromEntries(
+    parameters.map((param) => [
+      param.name,
+      param.default === undefined ? '' : String(param.default),
+    ])
+  );
+}
+
+/**
+ * NewFromTemplateDialog component
+ */
+export const NewFromTemplateDialog: React.FC<NewFromTemplateDialogProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [templates, setTemplates] = useState<TemplateItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [name, setName] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = templates.find((template) => template.id === selectedId);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    const requestId = `req-${Date.now()}-${Math.random()}`;
+
+    const handler = (event: MessageEvent) => {
+      const message: ExtensionMessage = event.data;
+      if (message.requestId !== requestId) return;
+      if (message.type === 'WORKFLOW_LIST_LOADED') {
+        const items = (message.payload?.workflows ?? []).filter(
+          (workflow): workflow is TemplateItem => (workflow.parameters?.length ?? 0) > 0
+        );
+        setTemplates(items);
+        if (items.length > 0) {
+          setSelectedId(items[0].id);
+          setValues(initialValues(items[0].parameters));
+        }
+        setIsLoading(false);
+      } else if (message.type === 'ERROR') {
+        setError(message.payload?.message ?? null);
+        setIsLoading(false);
+      }
+    };
+
+    window.addEventListener('message', handler);
+    vscode.postMessage({ type: 'LOAD_WORKFLOW_LIST', requestId });
+
+    return () => {
+      window.removeEventListener('message', handler);
+    };
+  }, [isOpen]);
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!isOpen) {
+      setTemplates([]);
+      setIsLoading(true);
+      setSelectedId('');
+      setName('');
+      setValues({});
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSelectTemplate = (id: string) => {
+    setSelectedId(id);
+    setValues(initialValues(templates.find((template) => template.id === id)?.parameters ?? []));
+    setError(null);
+  };
+
+  const handleCreate = () => {
+    if (!selected) return;
+    if (!VALIDATION_RULES.WORKFLOW.NAME_PATTERN.test(name)) {
+      setError(
+        'Workflow name must contain only lowercase letters (a-z), numbers, hyphens, and underscores.'
+      );
+      return;
+    }
+    let resolved: ReturnType<typeof resolveParameterValues>;
+    try {
+      // A blank field means "not provided": the default applies, or a
+      // required parameter is reported as missing.
+      const provided = Object.fromEntries(Object.entries(values).filter(([, v]) => v !== ''));
+      resolved = resolveParameterValues(selected.parameters, provided);
+    } catch (e) {
+      if (!(e instanceof WorkflowTemplateError)) throw e;
+      setError(e.message);
+      return;
+    }
+    vscode.postMessage({
+      type: 'CREATE_WORKFLOW_FROM_TEMPLATE',
+      requestId: `req-${Date.now()}-${Math.random()}`,
+      payload: { workflowId: selected.id, name, values: resolved },
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay
+          style={{
+            position: 'fixed',
+            inset: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 9999,
+          }}
+        >
+          <Dialog.Content
+            style={{
+              backgroundColor: 'var(--vscode-editor-background)',
+              border: '1px solid var(--vscode-panel-border)',
+              borderRadius: '6px',
+              padding: '24px',
+              width: '480px',
+              maxWidth: '90vw',
+              maxHeight: '80vh',
+              display: 'flex',
+              flexDirection: 'column',
+              boxShadow: '0 8px 24px rgba(0, 0, 0, 0.4)',
+              outline: 'none',
+            }}
+            onEscapeKeyDown={onClose}
+          >
+            <Dialog.Title
+              style={{
+                fontSize: '16px',
+                fontWeight: 600,
+                color: 'var(--vscode-foreground)',
+                marginBottom: '8px',
+              }}
+            >
+              {t('newFromTemplate.title')}
+            </Dialog.Title>
+
+            <Dialog.Description
+              style={{
+                fontSize: '12px',
+                color: 'var(--vscode-descriptionForeground)',
+                marginBottom: '16px',
+                lineHeight: '1.5',
+              }}
+            >
+              {t('newFromTemplate.description')}
+            </Dialog.Description>
+
+            <div
+              style={{
+                flex: 1,
+                overflowY: 'auto',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '12px',
+              }}
+            >
+              {isLoading ? (
+                <div
+                  style={{
+                    padding: '24px',
+                    textAlign: 'center',
+                    color: 'var(--vscode-descriptionForeground)',
+                    fontSize: '13px',
+                  }}
+                >
+                  {t('newFromTemplate.loading')}
+                </div>
+              ) : templates.length === 0 ? (
+                <div
+                  style={{
+                    padding: '24px',
+                    textAlign: 'center',
+                    color: 'var(--vscode-descriptionForeground)',
+                    fontSize: '13px',
+                    lineHeight: '1.5',
+                  }}
+                >
+                  {t('newFromTemplate.noTemplates')}
+                </div>
+              ) : (
+                <>
+                  <label style={labelStyle}>
+                    {t('newFromTemplate.template')}
+                    <select
+                      value={selectedId}
+                      onChange={(e) => handleSelectTemplate(e.target.value)}
+                      style={inputStyle}
+                    >
+                      {templates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label style={labelStyle}>
+                    {t('newFromTemplate.name')}
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      maxLength={VALIDATION_RULES.WORKFLOW.NAME_MAX_LENGTH}
+                      style={inputStyle}
+                    />
+                  </label>
+
+                  {selected?.parameters.map((param) => (
+                    <div key={param.name} style={labelStyle}>
+                      <label htmlFor={`template-param-${param.name}`}>
+                        <code>{param.name}</code>
+                        {param.description && (
+                          <span style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                            {' '}
+                            — {param.description}
+                          </span>
+                        )}
+                      </label>
+                      {param.type === 'boolean' ? (
+                        <input
+                          id={`template-param-${param.name}`}
+                          type="checkbox"
+                          checked={values[param.name] === 'true'}
+                          onChange={(e) =>
+                            setValues({ ...values, [param.name]: String(e.target.checked) })
+                          }
+                          style={{ alignSelf: 'flex-start' }}
+                        />
+                      ) : (
+                        <input
+                          id={`template-param-${param.name}`}
+                          type={param.type === 'number' ? 'number' : 'text'}
+                          value={values[param.name] ?? ''}
+                          onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+                          placeholder={
+                            param.default === undefined
+                              ? t('templateParameters.defaultRequired')
+                              : undefined
+                          }
+                          style={inputStyle}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+
+            {error && (
+              <div
+                style={{
+                  marginTop: '12px',
+                  padding: '8px',
+                  fontSize: '12px',
+                  color: 'var(--vscode-errorForeground)',
+                  backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
+                  border: '1px solid var(--vscode-inputValidation-errorBorder)',
+                  borderRadius: '2px',
+                }}
+              >
+                {error}
+              </div>
+            )}
+
+            <div
+              style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '16px' }}
+            >
+              <button
+                type="button"
+                onClick={onClose}
+                style={{
+                  padding: '6px 16px',
+                  backgroundColor: 'var(--vscode-button-secondaryBackground)',
+                  color: 'var(--vscode-button-secondaryForeground)',
+                  border: 'none',
+                  borderRadius: '2px',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                }}
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={!selected}
+                style={{
+                  padding: '6px 16px',
+                  backgroundColor: 'var(--vscode-button-background)',
+                  color: 'var(--vscode-button-foreground)',
+                  border: 'none',
+                  borderRadius: '2px',
+                  cursor: selected ? 'pointer' : 'not-allowed',
+                  opacity: selected ? 1 : 0.5,
+                  fontSize: '12px',
+                }}
+              >
+                {t('newFromTemplate.create')}
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Overlay>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
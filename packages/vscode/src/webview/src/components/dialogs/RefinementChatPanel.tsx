@@ -9,10 +9,20 @@
  * Updated: Phase 3.3 - Added resizable width functionality
  * Updated: Phase 3.7 - Added immediate loading message display
  * Updated: SubAgentFlow support - Unified panel for both workflow types
+ * Updated: Patch output mode - Edit operations reviewed one by one before applying
  */
 
+import {
+  applyWorkflowPatch,
+  getWorkflowPatchOperationNodeIds,
+  type SubAgentFlowNodeData,
+  validateAIGeneratedWorkflow,
+  type Workflow,
+  type WorkflowPatchOperation,
+} from '@cc-wf-studio/core';
+import type { RefinementSuccessPayload } from '@shared/types/messages';
 import { ChevronDown, ChevronRight, PanelRightClose, Sparkles } from 'lucide-react';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ResponsiveFontProvider } from '../../contexts/ResponsiveFontContext';
 import { useResizablePanel } from '../../hooks/useResizablePanel';
 import { useResponsiveFontSizes } from '../../hooks/useResponsiveFontSizes';
@@ -28,6 +38,7 @@ import {
 import { useRefinementStore } from '../../stores/refinement-store';
 import { useWorkflowStore } from '../../stores/workflow-store';
 import type { RefinementChatState } from '../../types/refinement-chat-state';
+import { computeWorkflowDiff } from '../../utils/workflow-diff';
 import { McpServerSection } from '../chat/McpServerSection';
 import { MessageInput } from '../chat/MessageInput';
 import { MessageList } from '../chat/MessageList';
@@ -36,6 +47,7 @@ import { WarningBanner } from '../chat/WarningBanner';
 import { ResizeHandle } from '../common/ResizeHandle';
 import { AlertDialog } from './AlertDialog';
 import { ConfirmDialog } from './ConfirmDialog';
+import { DiffPreviewDialog } from './DiffPreviewDialog';
 
 // Resizable panel configuration
 const PANEL_MIN_WIDTH = 280;
@@ -43,6 +55,77 @@ const PANEL_MAX_WIDTH = 600;
 const PANEL_DEFAULT_WIDTH = 320;
 const PANEL_STORAGE_KEY = 'cc-wf-studio.refinementPanelWidth';
 
+/**
+ * Patch-mode refinement result waiting for the user's review
+ */
+interface PendingPatch {
+  /** Workflow the operations were generated against */
+  baseWorkflow: Workflow;
+  /** Workflow with every operation applied (carries resolved SubAgentFlows) */
+  refinedWorkflow: Workflow;
+  operations: WorkflowPatchOperation[];
+  accepted: boolean[];
+}
+
+/**
+ * Toggle one operation. Rejecting an addNode also rejects the later
+ * operations that use the node; accepting an operation accepts the
+ * addNode operations it depends on.
+ */
+function togglePatchOperation(
+  operations: WorkflowPatchOperation[],
+  accepted: boolean[],
+  index: number
+): boolean[] {
+  const next = [...accepted];
+  next[index] = !accepted[index];
+
+  if (!next[index]) {
+    const rejected = new Set<string>();
+    operations.forEach((operation, i) => {
+      if (i === index && operation.op === 'addNode') rejected.add(operation.id);
+      if (i > index && getWorkflowPatchOperationNodeIds(operation).some((id) => rejected.has(id))) {
+        next[i] = false;
+        if (operation.op === 'addNode') rejected.add(operation.id);
+      }
+    });
+  } else {
+    const needed = new Set(getWorkflowPatchOperationNodeIds(operations[index]));
+    for (let i = index - 1; i >= 0; i--) {
+      const operation = operations[i];
+      if (operation.op === 'addNode' && needed.has(operation.id)) {
+        next[i] = true;
+        for (const id of getWorkflowPatchOperationNodeIds(operation)) needed.add(id);
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Apply the accepted operations to the base workflow, keeping the
+ * SubAgentFlows the result still uses
+ */
+function buildPatchedWorkflow(pending: PendingPatch): Workflow {
+  const patched = applyWorkflowPatch(
+    pending.baseWorkflow,
+    pending.operations.filter((_, i) => pending.accepted[i])
+  );
+  const usedFlowIds = new Set(
+    patched.nodes
+      .filter((node) => node.type === 'subAgentFlow')
+      .map((node) => (node.data as SubAgentFlowNodeData).subAgentFlowId)
+  );
+  const baseFlowIds = new Set((pending.baseWorkflow.subAgentFlows ?? []).map((flow) => flow.id));
+  return {
+    ...patched,
+    subAgentFlows: (pending.refinedWorkflow.subAgentFlows ?? []).filter(
+      (flow) => baseFlowIds.has(flow.id) || usedFlowIds.has(flow.id)
+    ),
+    updatedAt: pending.refinedWorkflow.updatedAt,
+  };
+}
+
 /**
  * Props for RefinementChatPanel
  *
@@ -84,6 +167,7 @@ export function RefinementChatPanel({
     updateMessageLoadingState,
     updateMessageErrorState,
     updateMessageToolInfo,
+    updateMessageRepairs,
     removeMessage,
     clearHistory,
     startProcessing,
@@ -104,12 +188,22 @@ export function RefinementChatPanel({
     selectedCodexReasoningEffort,
     allowedTools,
     selectedProvider,
+    outputMode,
   } = useRefinementStore();
 
-  const { activeWorkflow, updateWorkflow, subAgentFlows, updateSubAgentFlow, setCanvas } =
-    useWorkflowStore();
+  const {
+    activeWorkflow,
+    updateWorkflow,
+    subAgentFlows,
+    updateSubAgentFlow,
+    setCanvas,
+    nodes,
+    edges,
+    workflowName,
+  } = useWorkflowStore();
 
   const [isConfirmClearOpen, setIsConfirmClearOpen] = useState(false);
+  const [pendingPatch, setPendingPatch] = useState<PendingPatch | null>(null);
   const [isSessionWarningOpen, setIsSessionWarningOpen] = useState(false);
 
   // Track previous sessionStatus to detect changes to 'reconnected'
@@ -146,6 +240,73 @@ export function RefinementChatPanel({
     prevSessionStatusRef.current = sessionStatus;
   }, [sessionStatus]);
 
+  // Patch mode: the accepted operations applied, or why they cannot be
+  const patchPreview = useMemo(() => {
+    if (!pendingPatch) return null;
+    try {
+      const workflow = buildPatchedWorkflow(pendingPatch);
+      const validation = validateAIGeneratedWorkflow(workflow);
+      return {
+        workflow,
+        error: validation.valid ? null : validation.errors.map((e) => e.message).join('; '),
+      };
+    } catch (error) {
+      return { workflow: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [pendingPatch]);
+
+  const patchDiffSummary = useMemo(
+    () =>
+      pendingPatch && patchPreview
+        ? computeWorkflowDiff(
+            nodes,
+            edges,
+            workflowName || 'Untitled',
+            patchPreview.workflow ?? pendingPatch.baseWorkflow
+          )
+        : null,
+    [pendingPatch, patchPreview, nodes, edges, workflowName]
+  );
+
+  // Apply a successful main workflow refinement, or hold patch operations for review
+  const applyRefinementResult = (baseWorkflow: Workflow, payload: RefinementSuccessPayload) => {
+    if (payload.patchOperations && payload.patchOperations.length > 0) {
+      setPendingPatch({
+        baseWorkflow,
+        refinedWorkflow: payload.refinedWorkflow,
+        operations: payload.patchOperations,
+        accepted: payload.patchOperations.map(() => true),
+      });
+      return;
+    }
+    updateWorkflow(payload.refinedWorkflow);
+  };
+
+  const handleAcceptPatch = () => {
+    if (!patchPreview?.workflow || patchPreview.error) return;
+    // Conversation history keeps syncing into activeWorkflow while the dialog is open
+    updateWorkflow({
+      ...patchPreview.workflow,
+      conversationHistory: activeWorkflow?.conversationHistory,
+    });
+    setPendingPatch(null);
+  };
+
+  const handleRejectPatch = () => {
+    setPendingPatch(null);
+  };
+
+  const handleTogglePatchOperation = (index: number) => {
+    setPendingPatch((pending) =>
+      pending
+        ? {
+            ...pending,
+            accepted: togglePatchOperation(pending.operations, pending.accepted, index),
+          }
+        : pending
+    );
+  };
+
   // Handle sending refinement request
   const handleSend = async (message: string) => {
     if (!conversationHistory || !activeWorkflow) {
@@ -269,11 +430,12 @@ export function RefinementChatPanel({
           selectedCopilotModel,
           selectedCodexModel,
           selectedCodexReasoningEffort,
-          useCodexNodes
+          useCodexNodes,
+          outputMode
         );
 
         if (result.type === 'success') {
-          updateWorkflow(result.payload.refinedWorkflow);
+          applyRefinementResult(activeWorkflow, result.payload);
 
           if (hasReceivedProgress && latestExplanatoryText) {
             // Streaming occurred with explanatory text
@@ -283,11 +445,17 @@ export function RefinementChatPanel({
 
             // Only add completion message as new bubble if it differs from explanatory text
             // (Codex may return the same message for both, causing duplicates)
+            let repairsMessageId = aiMessageId;
             if (result.payload.aiMessage.content !== latestExplanatoryText) {
               const completionMessageId = `ai-completion-${Date.now()}-${Math.random()}`;
               addLoadingAiMessage(completionMessageId);
               updateMessageContent(completionMessageId, result.payload.aiMessage.content);
               updateMessageLoadingState(completionMessageId, false);
+              repairsMessageId = completionMessageId;
+            }
+            // Automatic repair rounds run by the extension before the workflow validated
+            if (result.payload.aiMessage.repairs) {
+              updateMessageRepairs(repairsMessageId, result.payload.aiMessage.repairs);
             }
 
             // Preserve frontend messages (don't overwrite with server history)
@@ -472,11 +640,12 @@ export function RefinementChatPanel({
           selectedCopilotModel,
           selectedCodexModel,
           selectedCodexReasoningEffort,
-          useCodexNodes
+          useCodexNodes,
+          outputMode
         );
 
         if (result.type === 'success') {
-          updateWorkflow(result.payload.refinedWorkflow);
+          applyRefinementResult(activeWorkflow, result.payload);
 
           if (hasReceivedProgress && latestExplanatoryText) {
             // Streaming occurred with explanatory text
@@ -486,11 +655,17 @@ export function RefinementChatPanel({
 
             // Only add completion message as new bubble if it differs from explanatory text
             // (Codex may return the same message for both, causing duplicates)
+            let repairsMessageId = aiMessageId;
             if (result.payload.aiMessage.content !== latestExplanatoryText) {
               const completionMessageId = `ai-completion-${Date.now()}-${Math.random()}`;
               addLoadingAiMessage(completionMessageId);
               updateMessageContent(completionMessageId, result.payload.aiMessage.content);
               updateMessageLoadingState(completionMessageId, false);
+              repairsMessageId = completionMessageId;
+            }
+            // Automatic repair rounds run by the extension before the workflow validated
+            if (result.payload.aiMessage.repairs) {
+              updateMessageRepairs(repairsMessageId, result.payload.aiMessage.repairs);
             }
 
             // Preserve frontend messages (don't overwrite with server history)
@@ -818,6 +993,7 @@ export function RefinementChatPanel({
                   {/* Settings button inside legacy section */}
                   <div style={{ padding: '4px 16px 0' }}>
                     <SettingsDropdown
+                      showOutputMode
                       onClearHistoryClick={handleClearHistoryClick}
                       hasMessages={
                         conversationHistory ? conversationHistory.messages.length > 0 : false
@@ -879,6 +1055,19 @@ export function RefinementChatPanel({
           onCancel={handleCancelClear}
         />
 
+        {/* Patch Review Dialog */}
+        <DiffPreviewDialog
+          isOpen={pendingPatch !== null}
+          workflow={patchPreview?.workflow ?? null}
+          diffSummary={patchDiffSummary}
+          operations={pendingPatch?.operations}
+          acceptedOperations={pendingPatch?.accepted}
+          onToggleOperation={handleTogglePatchOperation}
+          operationsError={patchPreview?.error}
+          onAccept={handleAcceptPatch}
+          onReject={handleRejectPatch}
+        />
+
         {/* Session Reconnection Warning Dialog */}
         <AlertDialog
           isOpen={isSessionWarningOpen}
@@ -45,7 +45,10 @@ import { BranchNodeComponent } from '../nodes/BranchNode';
 import { CodexNodeComponent } from '../nodes/CodexNode';
 import { EndNode } from '../nodes/EndNode';
 import { IfElseNodeComponent } from '../nodes/IfElseNode';
+import { JoinNodeComponent } from '../nodes/JoinNode';
+import { LoopNodeComponent } from '../nodes/LoopNode';
 import { McpNodeComponent } from '../nodes/McpNode/McpNode';
+import { ParallelNodeComponent } from '../nodes/ParallelNode';
 import { PromptNode } from '../nodes/PromptNode';
 import { SkillNodeComponent } from '../nodes/SkillNode';
 import { StartNode } from '../nodes/StartNode';
@@ -64,6 +67,9 @@ const nodeTypes: NodeTypes = {
   branch: BranchNodeComponent,
   ifElse: IfElseNodeComponent,
   switch: SwitchNodeComponent,
+  loop: LoopNodeComponent,
+  parallel: ParallelNodeComponent,
+  join: JoinNodeComponent,
   start: StartNode,
   end: EndNode,
   prompt: PromptNode,
@@ -756,6 +762,11 @@ const SubAgentFlowDialogContent: React.FC<SubAgentFlowDialogProps> = ({ isOpen,
                                 case 'ifElse':
                                 case 'switch':
                                   return 'var(--vscode-charts-yellow)';
+                                case 'loop':
+                                  return 'var(--vscode-charts-blue)';
+                                case 'parallel':
+                                case 'join':
+                                  return 'var(--vscode-charts-blue)';
                                 case 'start':
                                   return 'var(--vscode-charts-green)';
                                 case 'end':
@@ -0,0 +1,382 @@
+/**
+ * TemplateParametersDialog Component
+ *
+ * Edits the workflow's template parameter declarations (name, type, default,
+ * description). Nodes reference them as {{name}}; see core's
+ * workflow-template service for how they are substituted.
+ */
+
+import {
+  validateWorkflowParameters,
+  type WorkflowParameter,
+  type WorkflowParameterType,
+} from '@cc-wf-studio/core';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../../i18n/i18n-context';
+import { useWorkflowStore } from '../../stores/workflow-store';
+
+interface TemplateParametersDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Editable row; the default is kept as text until the dialog is applied */
+interface ParameterDraft {
+  name: string;
+  type: WorkflowParameterType;
+  defaultValue: string;
+  description: string;
+}
+
+const PARAMETER_TYPES: WorkflowParameterType[] = ['string', 'number', 'boolean'];
+
+function toDraft(param: WorkflowParameter): ParameterDraft {
+  return {
+    name: param.name,
+    type: param.type,
+    defaultValue: param.default === undefined ? '' : String(param.default),
+    description: param.description ?? '',
+  };
+}
+
+function fromDraft(draft: ParameterDraft): WorkflowParameter {
+  const name = draft.name.trim();
+  const description = draft.description.trim();
+  const text = draft.defaultValue.trim();
+  let defaultValue: WorkflowParameter['default'];
+  if (text !== '') {
+    if (draft.type === 'number') {
+      // Non-numeric text is kept as a string so validation reports the mismatch
+      defaultValue = Number.isFinite(Number(text)) ? Number(text) : text;
+    } else if (draft.type === 'boolean') {
+      defaultValue = text === 'true';
+    } else {
+      defaultValue = draft.defaultValue;
+    }
+  }
+  return {
+    name,
+    type: draft.type,
+    ...(defaultValue !== undefined && { default: defaultValue }),
+    ...(description && { description }),
+  };
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  backgroundColor: 'var(--vscode-input-background)',
+  color: 'var(--vscode-input-foreground)',
+  border: '1px solid var(--vscode-input-border)',
+  borderRadius: '2px',
+  fontSize: '12px',
+  minWidth: 0,
+  boxSizing: 'border-box',
+};
+
+/**
+ * TemplateParametersDialog component
+ */
+export const TemplateParametersDialog: React.FC<TemplateParametersDialogProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { workflowParameters, setWorkflowParameters } = useWorkflowStore();
+  const [drafts, setDrafts] = useState<ParameterDraft[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Start from the current declarations every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts(workflowParameters.map(toDraft));
+      setErrors([]);
+    }
+  }, [isOpen, workflowParameters]);
+
+  const updateDraft = (index: number, patch: Partial<ParameterDraft>) => {
+    setDrafts((current) =>
+      current.map((draft, i) => {
+        if (i !== index) return draft;
+        const next = { ...draft, ...patch };
+        // A boolean default can only be empty, true or false
+        if (patch.type === 'boolean' && !['', 'true', 'false'].includes(next.defaultValue)) {
+          next.defaultValue = '';
+        }
+        return next;
+      })
+    );
+  };
+
+  const handleApply = () => {
+    const parameters = drafts.map(fromDraft);
+    const validationErrors = validateWorkflowParameters(parameters);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors.map((error) => error.message));
+      return;
+    }
+    setWorkflowParameters(parameters);
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay
+          style={{
+            position: 'fixed',
+            inset: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 9999,
+          }}
+        >
+          <Dialog.Content
+            style={{
+              backgroundColor: 'var(--vscode-editor-background)',
+              border: '1px solid var(--vscode-panel-border)',
+              borderRadius: '6px',
+              padding: '24px',
+              width: '680px',
+              maxWidth: '90vw',
+              maxHeight: '80vh',
+              display: 'flex',
+              flexDirection: 'column',
+              boxShadow: '0 8px 24px rgba(0, 0, 0, 0.4)',
+              outline: 'none',
+            }}
+            onEscapeKeyDown={onClose}
+          >
+            <Dialog.Title
+              style={{
+                fontSize: '16px',
+                fontWeight: 600,
+                color: 'var(--vscode-foreground)',
+                marginBottom: '8px',
+              }}
+            >
+              {t('templateParameters.title')}
+            </Dialog.Title>
+
+            <Dialog.Description
+              style={{
+                fontSize: '12px',
+                color: 'var(--vscode-descriptionForeground)',
+                marginBottom: '16px',
+                lineHeight: '1.5',
+              }}
+            >
+              {t('templateParameters.description')}
+            </Dialog.Description>
+
+            <div
+              style={{
+                flex: 1,
+                overflowY: 'auto',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px',
+              }}
+            >
+              {drafts.length === 0 ? (
+                <div
+                  style={{
+                    padding: '24px',
+                    textAlign: 'center',
+                    color: 'var(--vscode-descriptionForeground)',
+                    fontSize: '13px',
+                  }}
+                >
+                  {t('templateParameters.empty')}
+                </div>
+              ) : (
+                <>
+                  <div
+                    style={{
+                      display: 'grid',
+                      gridTemplateColumns: '1fr 90px 1fr 1.5fr 28px',
+                      gap: '6px',
+                      fontSize: '11px',
+                      color: 'var(--vscode-descriptionForeground)',
+                    }}
+                  >
+                    <span>{t('templateParameters.name')}</span>
+                    <span>{t('templateParameters.type')}</span>
+                    <span>{t('templateParameters.default')}</span>
+                    <span>{t('templateParameters.descriptionField')}</span>
+                    <span />
+                  </div>
+                  {drafts.map((draft, index) => (
+                    <div
+                      // biome-ignore lint/suspicious/noArrayIndexKey: rows have no stable id while names are being edited
+                      key={index}
+                      style={{
+                        display: 'grid',
+                        gridTemplateColumns: '1fr 90px 1fr 1.5fr 28px',
+                        gap: '6px',
+                        alignItems: 'center',
+                      }}
+                    >
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => updateDraft(index, { name: e.target.value })}
+                        aria-label={t('templateParameters.name')}
+                        style={{ ...inputStyle, fontFamily: 'var(--vscode-editor-font-family)' }}
+                      />
+                      <select
+                        value={draft.type}
+                        onChange={(e) =>
+                          updateDraft(index, { type: e.target.value as WorkflowParameterType })
+                        }
+                        aria-label={t('templateParameters.type')}
+                        style={inputStyle}
+                      >
+                        {PARAMETER_TYPES.map((type) => (
+                          <option key={type} value={type}>
+                            {type}
+                          </option>
+                        ))}
+                      </select>
+                      {draft.type === 'boolean' ? (
+                        <select
+                          value={draft.defaultValue}
+                          onChange={(e) => updateDraft(index, { defaultValue: e.target.value })}
+                          aria-label={t('templateParameters.default')}
+                          style={inputStyle}
+                        >
+                          <option value="">—</option>
+                          <option value="true">true</option>
+                          <option value="false">false</option>
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          value={draft.defaultValue}
+                          onChange={(e) => updateDraft(index, { defaultValue: e.target.value })}
+                          placeholder={t('templateParameters.defaultRequired')}
+                          aria-label={t('templateParameters.default')}
+                          style={inputStyle}
+                        />
+                      )}
+                      <input
+                        type="text"
+                        value={draft.description}
+                        onChange={(e) => updateDraft(index, { description: e.target.value })}
+                        aria-label={t('templateParameters.descriptionField')}
+                        style={inputStyle}
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDrafts((current) => current.filter((_, i) => i !== index))
+                        }
+                        aria-label={t('templateParameters.remove')}
+                        title={t('templateParameters.remove')}
+                        style={{
+                          display: 'inline-flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          padding: '4px',
+                          backgroundColor: 'transparent',
+                          color: 'var(--vscode-foreground)',
+                          border: 'none',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </>
+              )}
+
+              <button
+                type="button"
+                onClick={() =>
+                  setDrafts((current) => [
+                    ...current,
+                    { name: '', type: 'string', defaultValue: '', description: '' },
+                  ])
+                }
+                style={{
+                  alignSelf: 'flex-start',
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  padding: '4px 10px',
+                  backgroundColor: 'var(--vscode-button-secondaryBackground)',
+                  color: 'var(--vscode-button-secondaryForeground)',
+                  border: 'none',
+                  borderRadius: '2px',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                }}
+              >
+                <Plus size={12} />
+                {t('templateParameters.add')}
+              </button>
+            </div>
+
+            {errors.length > 0 && (
+              <div
+                style={{
+                  marginTop: '12px',
+                  padding: '8px',
+                  fontSize: '12px',
+                  color: 'var(--vscode-errorForeground)',
+                  backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
+                  border: '1px solid var(--vscode-inputValidation-errorBorder)',
+                  borderRadius: '2px',
+                }}
+              >
+                {errors.map((message) => (
+                  <div key={message}>{message}</div>
+                ))}
+              </div>
+            )}
+
+            <div
+              style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '16px' }}
+            >
+              <button
+                type="button"
+                onClick={onClose}
+                style={{
+                  padding: '6px 16px',
+                  backgroundColor: 'var(--vscode-button-secondaryBackground)',
+                  color: 'var(--vscode-button-secondaryForeground)',
+                  border: 'none',
+                  borderRadius: '2px',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                }}
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={handleApply}
+                style={{
+                  padding: '6px 16px',
+                  backgroundColor: 'var(--vscode-button-background)',
+                  color: 'var(--vscode-button-foreground)',
+                  border: 'none',
+                  borderRadius: '2px',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                }}
+              >
+                {t('templateParameters.save')}
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Overlay>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
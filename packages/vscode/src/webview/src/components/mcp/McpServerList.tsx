@@ -9,6 +9,7 @@
  */
 
 import type { McpServerReference } from '@shared/types/messages';
+import { RefreshCw } from 'lucide-react';
 import { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from '../../i18n/i18n-context';
 import { listMcpServers, refreshMcpCache } from '../../services/mcp-service';
@@ -86,6 +87,7 @@ export function McpServerList({
   const { t } = useTranslation();
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [refreshingServerKey, setRefreshingServerKey] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [servers, setServers] = useState<McpServerReference[]>([]);
   const [filterText, setFilterText] = useState('');
@@ -139,6 +141,22 @@ export function McpServerList({
     }
   };
 
+  /**
+   * Handle a server row's refresh button: drop that server's cached tools,
+   * so they are listed from the server when it is selected
+   */
+  const handleRefreshServer = async (server: McpServerReference) => {
+    setRefreshingServerKey(getServerKey(server.id, server.source));
+
+    try {
+      await refreshMcpCache({ serverId: server.id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('mcp.error.refreshFailed'));
+    } finally {
+      setRefreshingServerKey(null);
+    }
+  };
+
   // Filter servers by name - must be before early returns for hooks rule
   const filterLower = filterText.toLowerCase().trim();
   const filteredServers = filterLower
@@ -343,90 +361,117 @@ export function McpServerList({
                 const serverKey = getServerKey(server.id, server.source);
                 const selectedKey = getServerKey(selectedServerId || '', selectedServerSource);
                 const isSelected = selectedServerId && serverKey === selectedKey;
+                const isRefreshingServer = refreshingServerKey === serverKey;
 
                 return (
-                  <button
+                  <div
                     key={serverKey}
-                    type="button"
-                    onClick={() => onServerSelect(server)}
                     style={{
-                      width: '100%',
-                      padding: '12px',
-                      backgroundColor: isSelected
-                        ? 'var(--vscode-list-activeSelectionBackground)'
-                        : 'transparent',
-                      color: isSelected
-                        ? 'var(--vscode-list-activeSelectionForeground)'
-                        : 'var(--vscode-foreground)',
-                      border: 'none',
+                      display: 'flex',
+                      alignItems: 'stretch',
                       borderBottom: '1px solid var(--vscode-panel-border)',
-                      textAlign: 'left',
-                      cursor: 'pointer',
-                      transition: 'all 0.15s ease',
-                    }}
-                    onMouseEnter={(e) => {
-                      if (!isSelected) {
-                        e.currentTarget.style.backgroundColor =
-                          'var(--vscode-list-hoverBackground)';
-                      }
-                    }}
-                    onMouseLeave={(e) => {
-                      if (!isSelected) {
-                        e.currentTarget.style.backgroundColor = 'transparent';
-                      }
                     }}
                   >
-                    <div
+                    <button
+                      type="button"
+                      onClick={() => onServerSelect(server)}
                       style={{
-                        display: 'flex',
-                        justifyContent: 'space-between',
-                        alignItems: 'center',
+                        flex: 1,
+                        padding: '12px',
+                        backgroundColor: isSelected
+                          ? 'var(--vscode-list-activeSelectionBackground)'
+                          : 'transparent',
+                        color: isSelected
+                          ? 'var(--vscode-list-activeSelectionForeground)'
+                          : 'var(--vscode-foreground)',
+                        border: 'none',
+                        textAlign: 'left',
+                        cursor: 'pointer',
+                        transition: 'all 0.15s ease',
+                      }}
+                      onMouseEnter={(e) => {
+                        if (!isSelected) {
+                          e.currentTarget.style.backgroundColor =
+                            'var(--vscode-list-hoverBackground)';
+                        }
+                      }}
+                      onMouseLeave={(e) => {
+                        if (!isSelected) {
+                          e.currentTarget.style.backgroundColor = 'transparent';
+                        }
                       }}
                     >
-                      <div style={{ flex: 1 }}>
-                        <div
-                          style={{
-                            fontWeight: 500,
-                          }}
-                        >
-                          {server.name}
-                        </div>
-                      </div>
                       <div
                         style={{
                           display: 'flex',
-                          flexDirection: 'row',
+                          justifyContent: 'space-between',
                           alignItems: 'center',
-                          gap: '6px',
                         }}
                       >
-                        <span
+                        <div style={{ flex: 1 }}>
+                          <div
+                            style={{
+                              fontWeight: 500,
+                            }}
+                          >
+                            {server.name}
+                          </div>
+                        </div>
+                        <div
                           style={{
-                            fontSize: '11px',
-                            padding: '2px 6px',
-                            borderRadius: '3px',
-                            backgroundColor: getScopeColor(server.scope),
-                            color: getScopeForegroundColor(server.scope),
+                            display: 'flex',
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            gap: '6px',
                           }}
                         >
-                          {server.scope}
-                        </span>
-                        {server.status && (
                           <span
                             style={{
                               fontSize: '11px',
                               padding: '2px 6px',
                               borderRadius: '3px',
-                              backgroundColor: getStatusColor(server.status),
-                              color: getStatusForegroundColor(server.status),
+                              backgroundColor: getScopeColor(server.scope),
+                              color: getScopeForegroundColor(server.scope),
                             }}
                           >
-                            {server.status}
+                            {server.scope}
                           </span>
-                        )}
+                          {server.status && (
+                            <span
+                              style={{
+                                fontSize: '11px',
+                                padding: '2px 6px',
+                                borderRadius: '3px',
+                                backgroundColor: getStatusColor(server.status),
+                                color: getStatusForegroundColor(server.status),
+                              }}
+                            >
+                              {server.status}
+                            </span>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  </button>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRefreshServer(server)}
+                      disabled={isRefreshingServer}
+                      title={t('mcp.action.refreshServerTools')}
+                      aria-label={t('mcp.action.refreshServerTools')}
+                      style={{
+                        padding: '0 10px',
+                        backgroundColor: 'transparent',
+                        color: 'var(--vscode-descriptionForeground)',
+                        border: 'none',
+                        cursor: isRefreshingServer ? 'wait' : 'pointer',
+                        opacity: isRefreshingServer ? 0.5 : 1,
+                        display: 'flex',
+                        alignItems: 'center',
+                      }}
+                    >
+                      <RefreshCw size={14} />
+                    </button>
+                  </div>
                 );
               })}
             </div>
@@ -0,0 +1,239 @@
+/**
+ * MCP Tool "Try It" Component
+ *
+ * Feature: 001-mcp-node
+ * Purpose: Call the configured tool once with the node's parameter values and
+ * show its result, so a wrong parameter shows up before a full agent run
+ *
+ * The call goes through the Extension Host's MCP SDK client (CALL_MCP_TOOL).
+ * A successful result can be saved on the node as its sample output.
+ */
+
+import type { McpToolSampleOutput, ToolParameter } from '@cc-wf-studio/core/mcp';
+import { useEffect, useState } from 'react';
+import type { McpToolCallResultPayload } from '../../../../shared/types/messages';
+import { useTranslation } from '../../i18n/i18n-context';
+import { callMcpTool } from '../../services/mcp-service';
+import type { ExtendedToolParameter } from '../../utils/parameter-validator';
+import { validateAllParameters } from '../../utils/parameter-validator';
+import { IndeterminateProgressBar } from '../common/IndeterminateProgressBar';
+
+interface McpToolTryItProps {
+  serverId: string;
+  toolName: string;
+  parameters: ToolParameter[];
+  parameterValues: Record<string, unknown>;
+  /** Sample output already saved on the node */
+  sampleOutput?: McpToolSampleOutput;
+  /** Save a result as the node's sample output (hidden when omitted) */
+  onSaveSampleOutput?: (sampleOutput: McpToolSampleOutput) => void;
+}
+
+const resultStyle = {
+  margin: 0,
+  padding: '8px',
+  maxHeight: '200px',
+  overflow: 'auto',
+  fontSize: '12px',
+  fontFamily: 'var(--vscode-editor-font-family)',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  backgroundColor: 'var(--vscode-textCodeBlock-background)',
+  border: '1px solid var(--vscode-panel-border)',
+  borderRadius: '4px',
+  color: 'var(--vscode-foreground)',
+} as const;
+
+/**
+ * Tool result as shown and saved: structured content as JSON, else the text content
+ */
+function formatToolOutput(output: NonNullable<McpToolCallResultPayload['output']>): string {
+  return output.structuredContent ? JSON.stringify(output.structuredContent, null, 2) : output.text;
+}
+
+export function McpToolTryIt({
+  serverId,
+  toolName,
+  parameters,
+  parameterValues,
+  sampleOutput,
+  onSaveSampleOutput,
+}: McpToolTryItProps) {
+  const { t } = useTranslation();
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<McpToolCallResultPayload | null>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // A result belongs to the values it was called with
+  // biome-ignore lint/correctness/useExhaustiveDependencies: Reset when the call inputs change
+  useEffect(() => {
+    setResult(null);
+    setRequestError(null);
+    setSaved(false);
+  }, [serverId, toolName, parameterValues]);
+
+  const handleTry = async () => {
+    setResult(null);
+    setSaved(false);
+
+    const errors = validateAllParameters(parameterValues, parameters as ExtendedToolParameter[]);
+    if (Object.keys(errors).length > 0) {
+      setRequestError(t('mcp.tryIt.invalidParameters'));
+      return;
+    }
+
+    setRequestError(null);
+    setRunning(true);
+    try {
+      setResult(await callMcpTool({ serverId, toolName, parameterValues }));
+    } catch (err) {
+      setRequestError(err instanceof Error ? err.message : t('mcp.tryIt.failed'));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!result?.output || !onSaveSampleOutput) return;
+    onSaveSampleOutput({
+      output: formatToolOutput(result.output),
+      parameterValues,
+      capturedAt: result.timestamp,
+    });
+    setSaved(true);
+  };
+
+  const output = result?.success ? result.output : undefined;
+  const failure = requestError ?? (result && !result.success ? result.error : null);
+
+  return (
+    <div
+      style={{
+        marginTop: '16px',
+        paddingTop: '12px',
+        borderTop: '1px solid var(--vscode-panel-border)',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: '12px',
+          marginBottom: '8px',
+        }}
+      >
+        <div
+          style={{
+            fontSize: '12px',
+            color: 'var(--vscode-descriptionForeground)',
+          }}
+        >
+          {t('mcp.tryIt.description')}
+        </div>
+        <button
+          type="button"
+          onClick={handleTry}
+          disabled={running || !toolName}
+          style={{
+            padding: '6px 12px',
+            flexShrink: 0,
+            backgroundColor: 'var(--vscode-button-secondaryBackground)',
+            color: 'var(--vscode-button-secondaryForeground)',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: running ? 'not-allowed' : 'pointer',
+            fontSize: '13px',
+            opacity: running ? 0.6 : 1,
+          }}
+        >
+          {t('mcp.tryIt.button')}
+        </button>
+      </div>
+
+      {running && <IndeterminateProgressBar label={t('mcp.tryIt.running')} />}
+
+      {/* Request failed: connection, unknown tool, arguments rejected, timeout */}
+      {failure && !running && (
+        <div
+          style={{
+            padding: '8px 12px',
+            fontSize: '12px',
+            color: 'var(--vscode-errorForeground)',
+            backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
+            border: '1px solid var(--vscode-inputValidation-errorBorder)',
+            borderRadius: '4px',
+          }}
+        >
+          {typeof failure === 'string' ? (
+            failure
+          ) : (
+            <>
+              <div>{failure.message}</div>
+              {failure.details && <div style={{ marginTop: '4px' }}>{failure.details}</div>}
+            </>
+          )}
+        </div>
+      )}
+
+      {output && !running && (
+        <div>
+          <div
+            style={{
+              marginBottom: '4px',
+              fontSize: '12px',
+              fontWeight: 600,
+              color: output.isError ? 'var(--vscode-errorForeground)' : 'var(--vscode-foreground)',
+            }}
+          >
+            {output.isError ? t('mcp.tryIt.toolError') : t('mcp.tryIt.result')}
+          </div>
+          <pre style={resultStyle}>{formatToolOutput(output) || t('mcp.tryIt.emptyResult')}</pre>
+          {output.omittedContentTypes.length > 0 && (
+            <div
+              style={{
+                marginTop: '4px',
+                fontSize: '11px',
+                color: 'var(--vscode-descriptionForeground)',
+              }}
+            >
+              {t('mcp.tryIt.omittedContent', { types: output.omittedContentTypes.join(', ') })}
+            </div>
+          )}
+          {onSaveSampleOutput && !output.isError && (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saved}
+              style={{
+                marginTop: '8px',
+                padding: '4px 10px',
+                backgroundColor: 'var(--vscode-button-secondaryBackground)',
+                color: 'var(--vscode-button-secondaryForeground)',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: saved ? 'default' : 'pointer',
+                fontSize: '12px',
+              }}
+            >
+              {saved ? t('mcp.tryIt.sampleSaved') : t('mcp.tryIt.saveSample')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Previously saved sample, when there is no fresh result */}
+      {sampleOutput && !output && !running && (
+        <details style={{ fontSize: '12px', color: 'var(--vscode-descriptionForeground)' }}>
+          <summary style={{ cursor: 'pointer' }}>
+            {t('mcp.tryIt.savedSample', {
+              date: new Date(sampleOutput.capturedAt).toLocaleString(),
+            })}
+          </summary>
+          <pre style={{ ...resultStyle, marginTop: '4px' }}>{sampleOutput.output}</pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -4,14 +4,16 @@
  * Feature: 001-mcp-natural-language-mode
  * Purpose: Allow users to configure tool parameters in detail during node creation
  *
- * Displays parameter form for the selected tool using ParameterFormGenerator
+ * Displays parameter form for the selected tool using ParameterFormGenerator,
+ * followed by a "Try it" action that calls the tool with the entered values
  */
 
-import type { ToolParameter } from '@cc-wf-studio/core/mcp';
+import type { McpToolSampleOutput, ToolParameter } from '@cc-wf-studio/core/mcp';
 import { useEffect, useState } from 'react';
 import { useTranslation } from '../../i18n/i18n-context';
 import { getMcpToolSchema } from '../../services/mcp-service';
 import { IndeterminateProgressBar } from '../common/IndeterminateProgressBar';
+import { McpToolTryIt } from '../mcp/McpToolTryIt';
 import { ParameterFormGenerator } from '../mcp/ParameterFormGenerator';
 
 interface ParameterDetailedConfigStepProps {
@@ -20,6 +22,8 @@ interface ParameterDetailedConfigStepProps {
   parameterValues: Record<string, unknown>;
   onChange: (values: Record<string, unknown>) => void;
   showValidation?: boolean;
+  sampleOutput?: McpToolSampleOutput;
+  onSaveSampleOutput?: (sampleOutput: McpToolSampleOutput) => void;
 }
 
 /**
@@ -37,6 +41,8 @@ interface ParameterDetailedConfigStepProps {
  * @param props.parameterValues - Current parameter values
  * @param props.onChange - Callback when parameter values change
  * @param props.showValidation - Whether to show validation errors (default: false)
+ * @param props.sampleOutput - Sample output saved on the node (edit dialog)
+ * @param props.onSaveSampleOutput - Save a "Try it" result on the node (edit dialog)
  */
 export function ParameterDetailedConfigStep({
   serverId,
@@ -44,6 +50,8 @@ export function ParameterDetailedConfigStep({
   parameterValues,
   onChange,
   showValidation = false,
+  sampleOutput,
+  onSaveSampleOutput,
 }: ParameterDetailedConfigStepProps) {
   const { t } = useTranslation();
   const [loading, setLoading] = useState(false);
@@ -141,6 +149,14 @@ export function ParameterDetailedConfigStep({
             onChange={onChange}
             showValidation={showValidation}
           />
+          <McpToolTryIt
+            serverId={serverId}
+            toolName={toolName}
+            parameters={parameters}
+            parameterValues={parameterValues}
+            sampleOutput={sampleOutput}
+            onSaveSampleOutput={onSaveSampleOutput}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,77 @@
+/**
+ * Claude Code Workflow Studio - Join Node Component
+ *
+ * Custom React Flow node where a Parallel node's branches meet. It receives
+ * one connection per branch and continues once all of them have finished.
+ */
+
+import type { JoinNodeData } from '@cc-wf-studio/core';
+import { Merge } from 'lucide-react';
+import React from 'react';
+import { Handle, type NodeProps, Position } from 'reactflow';
+import { DeleteButton } from './DeleteButton';
+
+const handleStyle: React.CSSProperties = {
+  width: '12px',
+  height: '12px',
+  backgroundColor: 'var(--vscode-button-background)',
+  border: '2px solid var(--vscode-button-foreground)',
+};
+
+/**
+ * JoinNode Component
+ */
+export const JoinNodeComponent: React.FC<NodeProps<JoinNodeData>> = React.memo(
+  ({ id, data, selected }) => (
+    <div
+      className={`join-node ${selected ? 'selected' : ''}`}
+      style={{
+        position: 'relative',
+        padding: '12px',
+        borderRadius: '8px',
+        border: `2px solid ${selected ? 'var(--vscode-focusBorder)' : 'var(--vscode-panel-border)'}`,
+        backgroundColor: 'var(--vscode-editor-background)',
+        minWidth: '140px',
+        maxWidth: '240px',
+      }}
+    >
+      {/* Delete Button */}
+      <DeleteButton nodeId={id} selected={selected} />
+      {/* Node Header */}
+      <div
+        style={{
+          fontSize: '11px',
+          fontWeight: 600,
+          color: 'var(--vscode-descriptionForeground)',
+          marginBottom: '8px',
+          textTransform: 'uppercase',
+          letterSpacing: '0.5px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+        }}
+      >
+        <Merge size={18} />
+        {data.label || 'Join'}
+      </div>
+
+      <div
+        style={{
+          fontSize: '10px',
+          color: 'var(--vscode-descriptionForeground)',
+          fontStyle: 'italic',
+        }}
+      >
+        Waits for all branches
+      </div>
+
+      {/* Input Handle (one connection per parallel branch) */}
+      <Handle type="target" position={Position.Left} id="input" style={handleStyle} />
+
+      {/* Output Handle */}
+      <Handle type="source" position={Position.Right} id="output" style={handleStyle} />
+    </div>
+  )
+);
+
+JoinNodeComponent.displayName = 'JoinNode';
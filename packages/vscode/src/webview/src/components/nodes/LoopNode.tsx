@@ -0,0 +1,143 @@
+/**
+ * Claude Code Workflow Studio - Loop Node Component
+ *
+ * Custom React Flow node that repeats a body until an exit condition holds.
+ * branch-0 (Body) leads into the repeated steps, whose last step connects
+ * back to this node's input; branch-1 (Exit) continues after the loop.
+ */
+
+import type { LoopNodeData } from '@cc-wf-studio/core';
+import { Repeat } from 'lucide-react';
+import React, { useEffect } from 'react';
+import { Handle, type NodeProps, Position, useUpdateNodeInternals } from 'reactflow';
+import { DeleteButton } from './DeleteButton';
+
+const handleStyle: React.CSSProperties = {
+  width: '12px',
+  height: '12px',
+  backgroundColor: 'var(--vscode-button-background)',
+  border: '2px solid var(--vscode-button-foreground)',
+};
+
+/**
+ * LoopNode Component
+ */
+export const LoopNodeComponent: React.FC<NodeProps<LoopNodeData>> = React.memo(
+  ({ id, data, selected }) => {
+    const updateNodeInternals = useUpdateNodeInternals();
+
+    useEffect(() => {
+      updateNodeInternals(id);
+    }, [id, updateNodeInternals]);
+
+    const ports = [
+      { label: 'Body', detail: `up to ${data.maxIterations} iterations`, color: 'blue' },
+      { label: 'Exit', detail: data.exitCondition, color: 'green' },
+    ];
+
+    return (
+      <div
+        className={`loop-node ${selected ? 'selected' : ''}`}
+        style={{
+          position: 'relative',
+          padding: '12px',
+          borderRadius: '8px',
+          border: `2px solid ${selected ? 'var(--vscode-focusBorder)' : 'var(--vscode-panel-border)'}`,
+          backgroundColor: 'var(--vscode-editor-background)',
+          minWidth: '180px',
+          maxWidth: '280px',
+        }}
+      >
+        {/* Delete Button */}
+        <DeleteButton nodeId={id} selected={selected} />
+        {/* Node Header */}
+        <div
+          style={{
+            fontSize: '11px',
+            fontWeight: 600,
+            color: 'var(--vscode-descriptionForeground)',
+            marginBottom: '8px',
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+          }}
+        >
+          <Repeat size={18} />
+          {data.label || 'Loop'}
+        </div>
+
+        {/* Iteration Limit Badge */}
+        <div
+          style={{
+            fontSize: '10px',
+            color: 'var(--vscode-badge-foreground)',
+            backgroundColor: 'var(--vscode-badge-background)',
+            padding: '2px 6px',
+            borderRadius: '3px',
+            marginBottom: '12px',
+            display: 'inline-block',
+          }}
+        >
+          max {data.maxIterations}×
+        </div>
+
+        {/* Ports List */}
+        <div style={{ marginBottom: '8px' }}>
+          {ports.map((port) => (
+            <div
+              key={port.label}
+              style={{
+                fontSize: '11px',
+                marginBottom: '8px',
+                padding: '6px 8px',
+                backgroundColor: 'var(--vscode-textBlockQuote-background)',
+                borderLeft: `3px solid var(--vscode-charts-${port.color})`,
+                borderRadius: '3px',
+              }}
+            >
+              <div
+                style={{
+                  fontWeight: 600,
+                  color: 'var(--vscode-foreground)',
+                  marginBottom: '4px',
+                }}
+              >
+                {port.label}
+              </div>
+              <div
+                style={{
+                  fontSize: '10px',
+                  color: 'var(--vscode-descriptionForeground)',
+                  fontStyle: 'italic',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {port.detail || '(exit condition not set)'}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Input Handle (entry and body back-edge) */}
+        <Handle type="target" position={Position.Left} id="input" style={handleStyle} />
+
+        {/* Body / Exit Output Handles */}
+        {ports.map((port, i) => (
+          <Handle
+            key={port.label}
+            type="source"
+            position={Position.Right}
+            id={`branch-${i}`}
+            style={{ ...handleStyle, top: `${((i + 1) / 3) * 100}%` }}
+          />
+        ))}
+      </div>
+    );
+  }
+);
+
+LoopNodeComponent.displayName = 'LoopNode';
@@ -0,0 +1,125 @@
+/**
+ * Claude Code Workflow Studio - Parallel Node Component
+ *
+ * Custom React Flow node that fans out into independent branches which run
+ * concurrently. Each branch-N output leads to one branch; every branch ends
+ * at the same Join node.
+ */
+
+import type { ParallelNodeData } from '@cc-wf-studio/core';
+import { Split } from 'lucide-react';
+import React, { useEffect } from 'react';
+import { Handle, type NodeProps, Position, useUpdateNodeInternals } from 'reactflow';
+import { DeleteButton } from './DeleteButton';
+
+const handleStyle: React.CSSProperties = {
+  width: '12px',
+  height: '12px',
+  backgroundColor: 'var(--vscode-button-background)',
+  border: '2px solid var(--vscode-button-foreground)',
+};
+
+/**
+ * ParallelNode Component
+ */
+export const ParallelNodeComponent: React.FC<NodeProps<ParallelNodeData>> = React.memo(
+  ({ id, data, selected }) => {
+    const updateNodeInternals = useUpdateNodeInternals();
+    const branches = data.branches ?? [];
+
+    // Update React Flow's internal calculations when port count changes
+    useEffect(() => {
+      updateNodeInternals(id);
+    }, [id, updateNodeInternals]);
+
+    return (
+      <div
+        className={`parallel-node ${selected ? 'selected' : ''}`}
+        style={{
+          position: 'relative',
+          padding: '12px',
+          borderRadius: '8px',
+          border: `2px solid ${selected ? 'var(--vscode-focusBorder)' : 'var(--vscode-panel-border)'}`,
+          backgroundColor: 'var(--vscode-editor-background)',
+          minWidth: '180px',
+          maxWidth: '280px',
+        }}
+      >
+        {/* Delete Button */}
+        <DeleteButton nodeId={id} selected={selected} />
+        {/* Node Header */}
+        <div
+          style={{
+            fontSize: '11px',
+            fontWeight: 600,
+            color: 'var(--vscode-descriptionForeground)',
+            marginBottom: '8px',
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+          }}
+        >
+          <Split size={18} />
+          {data.label || 'Parallel'}
+        </div>
+
+        {/* Branch Count Badge */}
+        <div
+          style={{
+            fontSize: '10px',
+            color: 'var(--vscode-badge-foreground)',
+            backgroundColor: 'var(--vscode-badge-background)',
+            padding: '2px 6px',
+            borderRadius: '3px',
+            marginBottom: '12px',
+            display: 'inline-block',
+          }}
+        >
+          {branches.length} branches
+        </div>
+
+        {/* Branches List */}
+        <div style={{ marginBottom: '8px' }}>
+          {branches.map((branch, i) => (
+            <div
+              key={branch.id || i}
+              style={{
+                fontSize: '11px',
+                marginBottom: '8px',
+                padding: '6px 8px',
+                backgroundColor: 'var(--vscode-textBlockQuote-background)',
+                borderLeft: '3px solid var(--vscode-charts-blue)',
+                borderRadius: '3px',
+                fontWeight: 600,
+                color: 'var(--vscode-foreground)',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {branch.label}
+            </div>
+          ))}
+        </div>
+
+        {/* Input Handle */}
+        <Handle type="target" position={Position.Left} id="input" style={handleStyle} />
+
+        {/* Branch Output Handles */}
+        {branches.map((branch, i) => (
+          <Handle
+            key={branch.id || i}
+            type="source"
+            position={Position.Right}
+            id={`branch-${i}`}
+            style={{ ...handleStyle, top: `${((i + 1) / (branches.length + 1)) * 100}%` }}
+          />
+        ))}
+      </div>
+    );
+  }
+);
+
+ParallelNodeComponent.displayName = 'ParallelNode';
@@ -12,7 +12,10 @@ import { branchSessionPanelConfig } from './panels/branch-session-panel';
 import { codexPanelConfig } from './panels/codex-panel';
 import { groupPanelConfig } from './panels/group-panel';
 import { ifElsePanelConfig } from './panels/if-else-panel';
+import { joinPanelConfig } from './panels/join-panel';
+import { loopPanelConfig } from './panels/loop-panel';
 import { mcpPanelConfig } from './panels/mcp-panel';
+import { parallelPanelConfig } from './panels/parallel-panel';
 import { promptPanelConfig } from './panels/prompt-panel';
 import { skillPanelConfig } from './panels/skill-panel';
 import { subAgentFlowPanelConfig } from './panels/sub-agent-flow-panel';
@@ -30,6 +33,9 @@ export const NODE_PANELS: Record<string, NodePanelConfig> = {
   branch: branchPanelConfig,
   ifElse: ifElsePanelConfig,
   switch: switchPanelConfig,
+  loop: loopPanelConfig,
+  parallel: parallelPanelConfig,
+  join: joinPanelConfig,
   skill: skillPanelConfig,
   mcp: mcpPanelConfig,
   subAgentFlow: subAgentFlowPanelConfig,
@@ -0,0 +1,14 @@
+/**
+ * Join panel config: only an optional label; the branches it waits for come
+ * from the graph.
+ */
+
+import { NODE_PROPERTY_SCHEMAS, NodeType } from '@cc-wf-studio/core';
+import type { NodePanelConfig } from '../types';
+
+export const joinPanelConfig: NodePanelConfig = {
+  // biome-ignore lint/style/noNonNullAssertion: registered in core alongside this config
+  schema: NODE_PROPERTY_SCHEMAS[NodeType.Join]!,
+  mode: 'edit',
+  i18nNamespace: 'join',
+};
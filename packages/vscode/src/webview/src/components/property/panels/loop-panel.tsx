@@ -0,0 +1,53 @@
+/**
+ * Loop panel config: schema-driven fields plus a number input for
+ * maxIterations (the control registry has no numeric control), clamped to
+ * VALIDATION_RULES.LOOP bounds.
+ */
+
+import {
+  deriveLoopUpdate,
+  NODE_PROPERTY_SCHEMAS,
+  NodeType,
+  VALIDATION_RULES,
+} from '@cc-wf-studio/core';
+import type React from 'react';
+import { inputStyle, readonlyInputExtra } from '../field-styles';
+import type { ControlProps, NodePanelConfig } from '../types';
+
+const { MIN_ITERATIONS, MAX_ITERATIONS } = VALIDATION_RULES.LOOP;
+
+const MaxIterationsControl: React.FC<ControlProps> = ({
+  nodeId,
+  fieldName,
+  value,
+  readonly,
+  onChange,
+}) => (
+  <input
+    id={`schema-field-${nodeId}-${fieldName}`}
+    type="number"
+    className="nodrag"
+    min={MIN_ITERATIONS}
+    max={MAX_ITERATIONS}
+    step={1}
+    value={typeof value === 'number' ? value : MIN_ITERATIONS}
+    onChange={(e) => {
+      const parsed = Number.parseInt(e.target.value, 10);
+      if (Number.isNaN(parsed)) return;
+      onChange(Math.min(MAX_ITERATIONS, Math.max(MIN_ITERATIONS, parsed)));
+    }}
+    disabled={readonly}
+    style={{ ...inputStyle, ...(readonly ? readonlyInputExtra : {}) }}
+  />
+);
+
+export const loopPanelConfig: NodePanelConfig = {
+  // biome-ignore lint/style/noNonNullAssertion: registered in core alongside this config
+  schema: NODE_PROPERTY_SCHEMAS[NodeType.Loop]!,
+  derive: deriveLoopUpdate,
+  mode: 'edit',
+  i18nNamespace: 'loop',
+  customControls: {
+    maxIterations: MaxIterationsControl,
+  },
+};
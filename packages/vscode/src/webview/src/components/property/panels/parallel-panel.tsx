@@ -0,0 +1,35 @@
+/**
+ * Parallel panel config: label plus the branch list. New branches are
+ * appended by the array editor; core's deriveParallelUpdate syncs outputPorts.
+ */
+
+import {
+  deriveParallelUpdate,
+  generateBranchId,
+  NODE_PROPERTY_SCHEMAS,
+  NodeType,
+} from '@cc-wf-studio/core';
+import type React from 'react';
+import { ObjectArrayControl } from '../controls/ObjectArrayControl';
+import type { ControlProps, NodePanelConfig } from '../types';
+
+const ParallelBranchesControl: React.FC<ControlProps> = (props) => (
+  <ObjectArrayControl
+    {...props}
+    newItem={(existing) => ({
+      id: generateBranchId(),
+      label: `Branch ${existing.length + 1}`,
+    })}
+  />
+);
+
+export const parallelPanelConfig: NodePanelConfig = {
+  // biome-ignore lint/style/noNonNullAssertion: registered in core alongside this config
+  schema: NODE_PROPERTY_SCHEMAS[NodeType.Parallel]!,
+  derive: deriveParallelUpdate,
+  mode: 'edit',
+  i18nNamespace: 'parallel',
+  customControls: {
+    branches: ParallelBranchesControl,
+  },
+};
@@ -4,22 +4,27 @@
  * Consolidates additional toolbar actions into a single dropdown menu:
  * - Share to Slack
  * - Reset Workflow
+ * - Export to custom targets (ccwf.config.json)
  * - Help (Start Tour)
  */
 
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import type { CustomExportTargetSummary } from '@shared/types/messages';
 import {
   BookOpen,
   Bot,
   Check,
   ChevronLeft,
   Cloud,
+  FileOutput,
+  FilePlus,
   Focus,
   HelpCircle,
   Info,
   MessageSquare,
   MoreHorizontal,
   Share2,
+  SlidersHorizontal,
   Terminal,
   Trash2,
 } from 'lucide-react';
@@ -57,6 +62,11 @@ interface MoreActionsDropdownProps {
   onToggleCommentary: () => void;
   onOpenWhatsNew: () => void;
   onOpenSampleWorkflows: () => void;
+  onOpenTemplateParameters: () => void;
+  onNewFromTemplate: () => void;
+  /** Targets from ccwf.config.json; the sub-menu is hidden when empty */
+  customExportTargets: CustomExportTargetSummary[];
+  onExportToCustomTarget: (targetId: string) => void;
   unreadReleaseCount: number;
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
@@ -87,6 +97,10 @@ export function MoreActionsDropdown({
   onToggleCommentary,
   onOpenWhatsNew,
   onOpenSampleWorkflows,
+  onOpenTemplateParameters,
+  onNewFromTemplate,
+  customExportTargets,
+  onExportToCustomTarget,
   unreadReleaseCount,
   open,
   onOpenChange,
@@ -457,6 +471,65 @@ export function MoreActionsDropdown({
             </DropdownMenu.Portal>
           </DropdownMenu.Sub>
 
+          {/* Custom Export Targets Sub-menu */}
+          {customExportTargets.length > 0 && (
+            <DropdownMenu.Sub>
+              <DropdownMenu.SubTrigger
+                style={{
+                  padding: '8px 12px',
+                  fontSize: `${FONT_SIZES.small}px`,
+                  color: 'var(--vscode-foreground)',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  outline: 'none',
+                  borderRadius: '2px',
+                }}
+              >
+                <ChevronLeft size={14} />
+                <FileOutput size={14} />
+                <span>{t('toolbar.exportToCustomTarget')}</span>
+              </DropdownMenu.SubTrigger>
+
+              <DropdownMenu.Portal>
+                <DropdownMenu.SubContent
+                  sideOffset={4}
+                  style={{
+                    backgroundColor: 'var(--vscode-dropdown-background)',
+                    border: '1px solid var(--vscode-dropdown-border)',
+                    borderRadius: '4px',
+                    boxShadow: '0 4px 8px rgba(0, 0, 0, 0.3)',
+                    zIndex: 10000,
+                    minWidth: '160px',
+                    padding: '4px',
+                  }}
+                >
+                  {customExportTargets.map((target) => (
+                    <DropdownMenu.Item
+                      key={target.id}
+                      onSelect={() => onExportToCustomTarget(target.id)}
+                      style={{
+                        padding: '8px 12px',
+                        fontSize: `${FONT_SIZES.small}px`,
+                        color: 'var(--vscode-foreground)',
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '8px',
+                        outline: 'none',
+                        borderRadius: '2px',
+                      }}
+                    >
+                      <Bot size={14} />
+                      <span>{target.displayName}</span>
+                    </DropdownMenu.Item>
+                  ))}
+                </DropdownMenu.SubContent>
+              </DropdownMenu.Portal>
+            </DropdownMenu.Sub>
+          )}
+
           <DropdownMenu.Separator
             style={{
               height: '1px',
@@ -541,6 +614,44 @@ export function MoreActionsDropdown({
             <BookOpen size={14} />
             <span>{t('toolbar.sampleWorkflows')}</span>
           </DropdownMenu.Item>
+
+          {/* Template Parameters */}
+          <DropdownMenu.Item
+            onSelect={onOpenTemplateParameters}
+            style={{
+              padding: '8px 12px',
+              fontSize: `${FONT_SIZES.small}px`,
+              color: 'var(--vscode-foreground)',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              outline: 'none',
+              borderRadius: '2px',
+            }}
+          >
+            <SlidersHorizontal size={14} />
+            <span>{t('toolbar.templateParameters')}</span>
+          </DropdownMenu.Item>
+
+          {/* New from Template */}
+          <DropdownMenu.Item
+            onSelect={onNewFromTemplate}
+            style={{
+              padding: '8px 12px',
+              fontSize: `${FONT_SIZES.small}px`,
+              color: 'var(--vscode-foreground)',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              outline: 'none',
+              borderRadius: '2px',
+            }}
+          >
+            <FilePlus size={14} />
+            <span>{t('toolbar.newFromTemplate')}</span>
+          </DropdownMenu.Item>
         </DropdownMenu.Content>
       </DropdownMenu.Portal>
     </DropdownMenu.Root>
@@ -10,10 +10,13 @@ import {
   GitBranch,
   GitBranchPlus,
   GitFork,
+  Merge,
   MessageSquare,
   Play,
   Plug,
+  Repeat,
   ShieldQuestion,
+  Split,
   Square,
   SquareDashed,
   Terminal,
@@ -32,6 +35,9 @@ export const NODE_TYPE_ICONS: Record<string, LucideIcon> = {
   mcp: Plug,
   ifElse: GitBranch,
   switch: GitFork,
+  loop: Repeat,
+  parallel: Split,
+  join: Merge,
   askUserQuestion: ShieldQuestion,
   branch: GitBranch,
   group: SquareDashed,
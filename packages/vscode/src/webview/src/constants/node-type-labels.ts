@@ -12,6 +12,9 @@ export const NODE_TYPE_LABELS: Record<string, string> = {
   branch: 'Branch',
   ifElse: 'If/Else',
   switch: 'Switch',
+  loop: 'Loop',
+  parallel: 'Parallel',
+  join: 'Join',
   prompt: 'Prompt',
   start: 'Start',
   end: 'End',
@@ -5,7 +5,11 @@
  * Used by SubAgentFlowDialog to maintain isolated chat history from main workflow.
  */
 
-import type { ConversationHistory, ConversationMessage } from '@cc-wf-studio/core';
+import type {
+  ConversationHistory,
+  ConversationMessage,
+  RefinementRepair,
+} from '@cc-wf-studio/core';
 import { useCallback, useMemo, useState } from 'react';
 import type { SessionStatus } from '../stores/refinement-store';
 import type { RefinementChatState, RefinementErrorCode } from '../types/refinement-chat-state';
@@ -178,6 +182,20 @@ export function useLocalRefinementChatState(
     });
   }, []);
 
+  const updateMessageRepairs = useCallback(
+    (messageId: string, repairs: RefinementRepair[] | undefined) => {
+      setConversationHistory((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          messages: prev.messages.map((msg) => (msg.id === messageId ? { ...msg, repairs } : msg)),
+          updatedAt: new Date().toISOString(),
+        };
+      });
+    },
+    []
+  );
+
   const removeMessage = useCallback((messageId: string) => {
     setConversationHistory((prev) => {
       if (!prev) return prev;
@@ -255,6 +273,7 @@ export function useLocalRefinementChatState(
       updateMessageLoadingState,
       updateMessageErrorState,
       updateMessageToolInfo,
+      updateMessageRepairs,
       removeMessage,
       clearHistory,
       startProcessing,
@@ -276,6 +295,7 @@ export function useLocalRefinementChatState(
       updateMessageLoadingState,
       updateMessageErrorState,
       updateMessageToolInfo,
+      updateMessageRepairs,
       removeMessage,
       clearHistory,
       startProcessing,
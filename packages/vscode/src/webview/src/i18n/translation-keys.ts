@@ -103,6 +103,7 @@ export interface WebviewTranslationKeys {
 
   // Toolbar more actions dropdown
   'toolbar.moreActions': string;
+  'toolbar.exportToCustomTarget': string;
   'toolbar.help': string;
   'toolbar.whatsNew': string;
 
@@ -138,6 +139,12 @@ export interface WebviewTranslationKeys {
   'node.ifElse.description': string;
   'node.switch.title': string;
   'node.switch.description': string;
+  'node.loop.title': string;
+  'node.loop.description': string;
+  'node.parallel.title': string;
+  'node.parallel.description': string;
+  'node.join.title': string;
+  'node.join.description': string;
   'node.askUserQuestion.title': string;
   'node.askUserQuestion.description': string;
   'node.skill.title': string;
@@ -320,6 +327,9 @@ export interface WebviewTranslationKeys {
   'default.case2Condition': string;
   'default.defaultBranch': string;
   'default.defaultBranchCondition': string;
+  'default.loopExitCondition': string;
+  'default.parallelBranch1': string;
+  'default.parallelBranch2': string;
   'default.conditionPrefix': string;
   'default.conditionSuffix': string;
 
@@ -372,6 +382,13 @@ export interface WebviewTranslationKeys {
   'dialog.diffPreview.retryWithLatest': string;
   'dialog.diffPreview.previewOverview': string;
   'dialog.diffPreview.closeOverview': string;
+  'dialog.diffPreview.operations': string;
+  'dialog.diffPreview.operation.addNode': string;
+  'dialog.diffPreview.operation.updateNode': string;
+  'dialog.diffPreview.operation.removeNode': string;
+  'dialog.diffPreview.operation.connect': string;
+  'dialog.diffPreview.operation.disconnect': string;
+  'dialog.diffPreview.operationsInvalid': string;
 
   // Reset Workflow Confirmation Dialog
   'toolbar.resetWorkflow': string;
@@ -490,6 +507,7 @@ export interface WebviewTranslationKeys {
   'refinement.chat.clearButton': string;
   'refinement.chat.clearButton.tooltip': string;
   'refinement.chat.useSkillsCheckbox': string;
+  'refinement.chat.reviewChangesCheckbox': string;
   'refinement.chat.useCodexNodesCheckbox': string;
 
   // Timeout selector
@@ -541,6 +559,7 @@ export interface WebviewTranslationKeys {
 
   // Refinement Error Display (Phase 3.8)
   'refinement.error.retryButton': string;
+  'refinement.repair.summary': string;
 
   // Processing Overlay (Phase 3.10)
   'refinement.processingOverlay': string;
@@ -575,6 +594,7 @@ export interface WebviewTranslationKeys {
 
   // MCP Cache Actions
   'mcp.action.refresh': string;
+  'mcp.action.refreshServerTools': string;
   'mcp.refreshing': string;
   'mcp.error.refreshFailed': string;
 
@@ -654,6 +674,20 @@ export interface WebviewTranslationKeys {
   // Parameter Detailed Config Step
   'mcp.parameterDetailedConfig.title': string;
 
+  // MCP Tool "Try It"
+  'mcp.tryIt.description': string;
+  'mcp.tryIt.button': string;
+  'mcp.tryIt.running': string;
+  'mcp.tryIt.invalidParameters': string;
+  'mcp.tryIt.failed': string;
+  'mcp.tryIt.result': string;
+  'mcp.tryIt.toolError': string;
+  'mcp.tryIt.emptyResult': string;
+  'mcp.tryIt.omittedContent': string;
+  'mcp.tryIt.saveSample': string;
+  'mcp.tryIt.sampleSaved': string;
+  'mcp.tryIt.savedSample': string;
+
   // Natural Language Input
   'mcp.naturalLanguage.paramDescription.label': string;
   'mcp.naturalLanguage.paramDescription.placeholder': string;
@@ -917,6 +951,21 @@ export interface WebviewTranslationKeys {
   'switch.field.branches': string;
   'switch.field.branches.item': string;
   'switch.field.branches.add': string;
+  'loop.field.label': string;
+  'loop.field.label.placeholder': string;
+  'loop.field.exitCondition': string;
+  'loop.field.exitCondition.placeholder': string;
+  'loop.field.exitCondition.help': string;
+  'loop.field.maxIterations': string;
+  'loop.field.maxIterations.help': string;
+  'parallel.field.label': string;
+  'parallel.field.label.placeholder': string;
+  'parallel.field.branches': string;
+  'parallel.field.branches.item': string;
+  'parallel.field.branches.add': string;
+  'parallel.field.branches.help': string;
+  'join.field.label': string;
+  'join.field.label.placeholder': string;
   // Schema-driven property panel field labels (prompt/branchSession/codex/group)
   'prompt.field.label': string;
   'prompt.field.label.placeholder': string;
@@ -1006,10 +1055,13 @@ export interface WebviewTranslationKeys {
   'executionSession.ended': string;
   'executionSession.waiting': string;
   'executionSession.metadata': string;
+  'graphIssues.title': string;
   'executionSession.waitingForInput': string;
   'executionSession.aborted': string;
   'executionSession.failed': string;
   'executionSession.codexTerminal': string;
+  'executionSession.progress': string;
+  'executionSession.progressFailed': string;
 
   // Sample Workflows
   'toolbar.sampleWorkflows': string;
@@ -1023,4 +1075,26 @@ export interface WebviewTranslationKeys {
   'sample.dailyDevFlowWithWorktree.description': string;
   'sample.dailyDevWithBranch.name': string;
   'sample.dailyDevWithBranch.description': string;
+
+  // Workflow Templates
+  'toolbar.templateParameters': string;
+  'toolbar.newFromTemplate': string;
+  'templateParameters.title': string;
+  'templateParameters.description': string;
+  'templateParameters.empty': string;
+  'templateParameters.name': string;
+  'templateParameters.type': string;
+  'templateParameters.default': string;
+  'templateParameters.defaultRequired': string;
+  'templateParameters.descriptionField': string;
+  'templateParameters.add': string;
+  'templateParameters.remove': string;
+  'templateParameters.save': string;
+  'newFromTemplate.title': string;
+  'newFromTemplate.description': string;
+  'newFromTemplate.loading': string;
+  'newFromTemplate.noTemplates': string;
+  'newFromTemplate.template': string;
+  'newFromTemplate.name': string;
+  'newFromTemplate.create': string;
 }
@@ -111,6 +111,7 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
 
   // Toolbar more actions dropdown
   'toolbar.moreActions': 'More',
+  'toolbar.exportToCustomTarget': 'Export to Custom Target',
   'toolbar.help': 'Help',
   'toolbar.whatsNew': "What's New",
   'whatsNew.title': "What's New",
@@ -144,6 +145,12 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   'node.ifElse.description': 'Binary conditional branch (True/False)',
   'node.switch.title': 'Switch',
   'node.switch.description': 'Multi-way conditional branch (2-N cases)',
+  'node.loop.title': 'Loop',
+  'node.loop.description': 'Repeat steps until an exit condition holds',
+  'node.parallel.title': 'Parallel',
+  'node.parallel.description': 'Run independent branches at the same time',
+  'node.join.title': 'Join',
+  'node.join.description': 'Wait for every parallel branch to finish',
   'node.askUserQuestion.title': 'Ask User Question',
   'node.askUserQuestion.description': 'Branch based on user choice',
   'node.skill.title': 'Skill',
@@ -338,6 +345,9 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   'default.case2Condition': 'When condition 2 is met',
   'default.defaultBranch': 'default',
   'default.defaultBranchCondition': 'Other cases',
+  'default.loopExitCondition': 'The result meets the requirements',
+  'default.parallelBranch1': 'Branch A',
+  'default.parallelBranch2': 'Branch B',
   'default.conditionPrefix': 'When condition ',
   'default.conditionSuffix': ' is met',
 
@@ -399,6 +409,13 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   'dialog.diffPreview.retryWithLatest': 'Retry with Latest',
   'dialog.diffPreview.previewOverview': 'Preview',
   'dialog.diffPreview.closeOverview': 'Close Preview',
+  'dialog.diffPreview.operations': 'Changes',
+  'dialog.diffPreview.operation.addNode': 'Add node',
+  'dialog.diffPreview.operation.updateNode': 'Update node',
+  'dialog.diffPreview.operation.removeNode': 'Remove node',
+  'dialog.diffPreview.operation.connect': 'Connect',
+  'dialog.diffPreview.operation.disconnect': 'Disconnect',
+  'dialog.diffPreview.operationsInvalid': 'The selected changes cannot be applied: {error}',
 
   // Reset Workflow Confirmation Dialog
   'toolbar.resetWorkflow': 'Reset Workflow',
@@ -530,6 +547,7 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   'refinement.chat.clearButton': 'Clear Conversation',
   'refinement.chat.clearButton.tooltip': 'Clear conversation history and start fresh',
   'refinement.chat.useSkillsCheckbox': 'Include Skills',
+  'refinement.chat.reviewChangesCheckbox': 'Review Changes One by One',
   'refinement.chat.useCodexNodesCheckbox': 'Include Codex Nodes',
 
   // Timeout selector
@@ -592,6 +610,8 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
 
   // Refinement Error Display (Phase 3.8)
   'refinement.error.retryButton': 'Retry',
+  'refinement.repair.summary':
+    'Fixed {count} validation issue(s) automatically ({rounds} repair round(s))',
 
   // Processing Overlay (Phase 3.10)
   'refinement.processingOverlay': 'AI is processing your request...',
@@ -630,6 +650,7 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
 
   // MCP Cache Actions
   'mcp.action.refresh': 'Refresh',
+  'mcp.action.refreshServerTools': "Reload this server's tools",
   'mcp.refreshing': 'Refreshing...',
   'mcp.error.refreshFailed': 'Failed to refresh MCP cache',
 
@@ -712,6 +733,21 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   // Parameter Detailed Config Step
   'mcp.parameterDetailedConfig.title': 'Configure Tool Parameters',
 
+  // MCP Tool "Try It"
+  'mcp.tryIt.description':
+    'Call the tool once with these values. The call is real: a tool that changes data will change it.',
+  'mcp.tryIt.button': 'Try It',
+  'mcp.tryIt.running': 'Calling tool...',
+  'mcp.tryIt.invalidParameters': 'Fix the parameter errors above before trying the tool.',
+  'mcp.tryIt.failed': 'Tool call failed',
+  'mcp.tryIt.result': 'Result',
+  'mcp.tryIt.toolError': 'The tool returned an error',
+  'mcp.tryIt.emptyResult': '(empty result)',
+  'mcp.tryIt.omittedContent': 'Not shown: {types} content',
+  'mcp.tryIt.saveSample': 'Save as Sample Output',
+  'mcp.tryIt.sampleSaved': 'Saved as sample output (kept when you save the node)',
+  'mcp.tryIt.savedSample': 'Sample output ({date})',
+
   // Natural Language Input
   'mcp.naturalLanguage.paramDescription.label': 'Parameter Content',
   'mcp.naturalLanguage.paramDescription.placeholder':
@@ -991,6 +1027,23 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   'switch.field.branches': 'Branches ({count})',
   'switch.field.branches.item': 'Branch {number}',
   'switch.field.branches.add': '+ Add Branch',
+  'loop.field.label': 'Label',
+  'loop.field.label.placeholder': 'Enter label',
+  'loop.field.exitCondition': 'Exit Condition',
+  'loop.field.exitCondition.placeholder': 'e.g., All tests pass',
+  'loop.field.exitCondition.help': 'Checked after each iteration; the loop exits once it holds',
+  'loop.field.maxIterations': 'Max Iterations',
+  'loop.field.maxIterations.help':
+    'The loop exits after this many iterations even if the condition does not hold',
+  'parallel.field.label': 'Label',
+  'parallel.field.label.placeholder': 'Enter label',
+  'parallel.field.branches': 'Branches ({count})',
+  'parallel.field.branches.item': 'Branch {number}',
+  'parallel.field.branches.add': '+ Add Branch',
+  'parallel.field.branches.help':
+    'Branches must not depend on each other. Connect the last step of every branch to the same Join node.',
+  'join.field.label': 'Label',
+  'join.field.label.placeholder': 'Enter label',
   'prompt.field.label': 'Label',
   'prompt.field.label.placeholder': 'Enter label',
   'prompt.field.prompt': 'Prompt',
@@ -1092,10 +1145,13 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   'executionSession.ended': 'Ended',
   'executionSession.waiting': 'Waiting for Claude Code activity…',
   'executionSession.metadata': 'Session {{sessionId}} · updated {{time}}',
+  'graphIssues.title': 'Flow issues ({{count}})',
   'executionSession.waitingForInput': 'Idle / awaiting input',
   'executionSession.aborted': 'Cancelled',
   'executionSession.failed': 'Failed',
   'executionSession.codexTerminal': 'Interactive Codex terminal',
+  'executionSession.progress': '{{completed}}/{{total}} nodes',
+  'executionSession.progressFailed': '{{count}} failed',
 
   // Sample Workflows
   'toolbar.sampleWorkflows': 'Sample Workflows',
@@ -1112,4 +1168,29 @@ export const enWebviewTranslations: WebviewTranslationKeys = {
   'sample.dailyDevWithBranch.name': 'Daily Dev with Branch Session',
   'sample.dailyDevWithBranch.description':
     'Daily development with a human-in-the-loop checkpoint: hear the goal, plan, implement, then review and fix together with the AI in a Claude Code branch session. The long interactive review consumes context in the branch — not in the parent — keeping the parent session lean and cost-efficient through completion. Best for medium-to-large tasks. Claude Code only.',
+
+  // Workflow Templates
+  'toolbar.templateParameters': 'Template Parameters',
+  'toolbar.newFromTemplate': 'New from Template',
+  'templateParameters.title': 'Template Parameters',
+  'templateParameters.description':
+    'Declare values that prompts, Skill execution prompts and MCP parameters reference as {{ name }} placeholders. Exported commands read them from $ARGUMENTS; "New from Template" fills them in.',
+  'templateParameters.empty': 'No parameters declared.',
+  'templateParameters.name': 'Name',
+  'templateParameters.type': 'Type',
+  'templateParameters.default': 'Default',
+  'templateParameters.defaultRequired': 'Leave empty to make it required',
+  'templateParameters.descriptionField': 'Description',
+  'templateParameters.add': 'Add Parameter',
+  'templateParameters.remove': 'Remove',
+  'templateParameters.save': 'Apply',
+  'newFromTemplate.title': 'New from Template',
+  'newFromTemplate.description':
+    'Pick a saved workflow that declares template parameters, fill in the values, and open the result as a new unsaved workflow.',
+  'newFromTemplate.loading': 'Loading templates...',
+  'newFromTemplate.noTemplates':
+    'No saved workflow declares template parameters yet. Add some via More → Template Parameters and save the workflow.',
+  'newFromTemplate.template': 'Template',
+  'newFromTemplate.name': 'New workflow name',
+  'newFromTemplate.create': 'Create',
 };
@@ -111,6 +111,7 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
 
   // Toolbar more actions dropdown
   'toolbar.moreActions': 'その他',
+  'toolbar.exportToCustomTarget': 'カスタムターゲットにエクスポート',
   'toolbar.help': 'ヘルプ',
   'toolbar.whatsNew': '更新情報',
   'whatsNew.title': '更新情報',
@@ -144,6 +145,12 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   'node.ifElse.description': '2分岐条件分岐（真/偽）',
   'node.switch.title': 'Switch',
   'node.switch.description': '複数分岐条件分岐（2-N個）',
+  'node.loop.title': 'Loop',
+  'node.loop.description': '終了条件を満たすまでステップを繰り返す',
+  'node.parallel.title': 'Parallel',
+  'node.parallel.description': '独立したブランチを同時に実行',
+  'node.join.title': 'Join',
+  'node.join.description': 'すべての並列ブランチの完了を待つ',
   'node.askUserQuestion.title': 'Ask User Question',
   'node.askUserQuestion.description': 'ユーザーの選択に基づいて分岐',
   'node.skill.title': 'Skill',
@@ -337,6 +344,9 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   'default.case2Condition': '条件2の場合',
   'default.defaultBranch': 'default',
   'default.defaultBranchCondition': '上記以外',
+  'default.loopExitCondition': '結果が要件を満たしている',
+  'default.parallelBranch1': 'ブランチA',
+  'default.parallelBranch2': 'ブランチB',
   'default.conditionPrefix': '条件',
   'default.conditionSuffix': 'の場合',
 
@@ -398,6 +408,13 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   'dialog.diffPreview.retryWithLatest': '最新で再試行',
   'dialog.diffPreview.previewOverview': 'プレビュー',
   'dialog.diffPreview.closeOverview': 'プレビューを閉じる',
+  'dialog.diffPreview.operations': '変更内容',
+  'dialog.diffPreview.operation.addNode': 'ノードを追加',
+  'dialog.diffPreview.operation.updateNode': 'ノードを更新',
+  'dialog.diffPreview.operation.removeNode': 'ノードを削除',
+  'dialog.diffPreview.operation.connect': '接続',
+  'dialog.diffPreview.operation.disconnect': '接続を解除',
+  'dialog.diffPreview.operationsInvalid': '選択した変更は適用できません: {error}',
 
   // Reset Workflow Confirmation Dialog
   'toolbar.resetWorkflow': 'ワークフローをリセット',
@@ -528,6 +545,7 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   'refinement.chat.clearButton': '会話をクリア',
   'refinement.chat.clearButton.tooltip': '会話履歴をクリアして最初からやり直します',
   'refinement.chat.useSkillsCheckbox': 'Skillを含める',
+  'refinement.chat.reviewChangesCheckbox': '変更を個別に確認',
   'refinement.chat.useCodexNodesCheckbox': 'Codex Agentノードを含める',
 
   // Timeout selector
@@ -590,6 +608,7 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
 
   // Refinement Error Display (Phase 3.8)
   'refinement.error.retryButton': 'リトライ',
+  'refinement.repair.summary': '{count} 件の検証エラーを自動修正しました（修正 {rounds} 回）',
 
   // Processing Overlay (Phase 3.10)
   'refinement.processingOverlay': 'AIが処理中です...',
@@ -627,6 +646,7 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
 
   // MCP Cache Actions
   'mcp.action.refresh': '再読み込み',
+  'mcp.action.refreshServerTools': 'このサーバーのツールを再読み込み',
   'mcp.refreshing': '再読み込み中...',
   'mcp.error.refreshFailed': 'MCPキャッシュの再読み込みに失敗しました',
 
@@ -709,6 +729,21 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   // Parameter Detailed Config Step
   'mcp.parameterDetailedConfig.title': 'ツールパラメータの設定',
 
+  // MCP Tool "Try It"
+  'mcp.tryIt.description':
+    'この値でツールを 1 回呼び出します。実際に実行されるため、データを変更するツールは変更を行います。',
+  'mcp.tryIt.button': '試す',
+  'mcp.tryIt.running': 'ツールを呼び出し中...',
+  'mcp.tryIt.invalidParameters': 'ツールを試す前に、上のパラメータエラーを修正してください。',
+  'mcp.tryIt.failed': 'ツールの呼び出しに失敗しました',
+  'mcp.tryIt.result': '結果',
+  'mcp.tryIt.toolError': 'ツールがエラーを返しました',
+  'mcp.tryIt.emptyResult': '(空の結果)',
+  'mcp.tryIt.omittedContent': '表示されていない内容: {types}',
+  'mcp.tryIt.saveSample': 'サンプル出力として保存',
+  'mcp.tryIt.sampleSaved': 'サンプル出力として保存しました(ノードの保存時に反映されます)',
+  'mcp.tryIt.savedSample': 'サンプル出力 ({date})',
+
   // Natural Language Input
   'mcp.naturalLanguage.paramDescription.label': 'パラメータ内容',
   'mcp.naturalLanguage.paramDescription.placeholder':
@@ -985,6 +1020,22 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   'switch.field.branches': '分岐（{count}）',
   'switch.field.branches.item': '分岐 {number}',
   'switch.field.branches.add': '+ 分岐を追加',
+  'loop.field.label': 'ラベル',
+  'loop.field.label.placeholder': 'ラベルを入力',
+  'loop.field.exitCondition': '終了条件',
+  'loop.field.exitCondition.placeholder': '例：すべてのテストが成功する',
+  'loop.field.exitCondition.help': '各反復の後に評価され、満たされるとループを抜けます',
+  'loop.field.maxIterations': '最大反復回数',
+  'loop.field.maxIterations.help': '条件を満たさなくても、この回数を繰り返すとループを抜けます',
+  'parallel.field.label': 'ラベル',
+  'parallel.field.label.placeholder': 'ラベルを入力',
+  'parallel.field.branches': 'ブランチ ({count})',
+  'parallel.field.branches.item': 'ブランチ {number}',
+  'parallel.field.branches.add': '+ ブランチを追加',
+  'parallel.field.branches.help':
+    'ブランチ同士は互いに依存してはいけません。各ブランチの最後のステップを同じJoinノードに接続してください。',
+  'join.field.label': 'ラベル',
+  'join.field.label.placeholder': 'ラベルを入力',
   'prompt.field.label': 'ラベル',
   'prompt.field.label.placeholder': 'ラベルを入力',
   'prompt.field.prompt': 'プロンプト',
@@ -1086,10 +1137,13 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   'executionSession.ended': '終了',
   'executionSession.waiting': 'Claude Code の活動を待機中…',
   'executionSession.metadata': 'セッション {{sessionId}} · 更新 {{time}}',
+  'graphIssues.title': 'フローの問題 ({{count}})',
   'executionSession.waitingForInput': '停止中・入力待ち',
   'executionSession.aborted': '中止',
   'executionSession.failed': '失敗',
   'executionSession.codexTerminal': 'Codex対話ターミナル',
+  'executionSession.progress': '{{completed}}/{{total}} ノード',
+  'executionSession.progressFailed': '{{count}} 件失敗',
 
   // Sample Workflows
   'toolbar.sampleWorkflows': 'サンプルワークフロー',
@@ -1107,4 +1161,29 @@ export const jaWebviewTranslations: WebviewTranslationKeys = {
   'sample.dailyDevWithBranch.name': 'ブランチセッションを使った日常開発',
   'sample.dailyDevWithBranch.description':
     'ヒアリング→計画→実装ののち、レビュー・修正をClaude Codeのブランチセッションに分離して人とAIが共同で行う日常開発フロー。対話の長いレビュー作業のコンテキスト消費を分岐先に隔離し、親セッションを軽く保ったまま完了までループできる。長くコンテキストを消費する中〜大規模タスク向け。Claude Code限定。',
+
+  // Workflow Templates
+  'toolbar.templateParameters': 'テンプレートパラメータ',
+  'toolbar.newFromTemplate': 'テンプレートから新規作成',
+  'templateParameters.title': 'テンプレートパラメータ',
+  'templateParameters.description':
+    'プロンプト、Skill の実行プロンプト、MCP パラメータ内で {{ name }} 形式で参照する値を宣言します。エクスポートしたコマンドは $ARGUMENTS から値を受け取り、「テンプレートから新規作成」では値を埋め込みます。',
+  'templateParameters.empty': 'パラメータは宣言されていません。',
+  'templateParameters.name': '名前',
+  'templateParameters.type': '型',
+  'templateParameters.default': 'デフォルト',
+  'templateParameters.defaultRequired': '空欄にすると必須になります',
+  'templateParameters.descriptionField': '説明',
+  'templateParameters.add': 'パラメータを追加',
+  'templateParameters.remove': '削除',
+  'templateParameters.save': '適用',
+  'newFromTemplate.title': 'テンプレートから新規作成',
+  'newFromTemplate.description':
+    'テンプレートパラメータを宣言した保存済みワークフローを選び、値を入力すると、未保存の新しいワークフローとして開きます。',
+  'newFromTemplate.loading': 'テンプレートを読み込み中...',
+  'newFromTemplate.noTemplates':
+    'テンプレートパラメータを宣言した保存済みワークフローがありません。「その他」→「テンプレートパラメータ」で追加し、ワークフローを保存してください。',
+  'newFromTemplate.template': 'テンプレート',
+  'newFromTemplate.name': '新しいワークフロー名',
+  'newFromTemplate.create': '作成',
 };
@@ -110,6 +110,7 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
 
   // Toolbar more actions dropdown
   'toolbar.moreActions': '더보기',
+  'toolbar.exportToCustomTarget': '사용자 지정 대상으로 내보내기',
   'toolbar.help': '도움말',
   'toolbar.whatsNew': '새 소식',
   'whatsNew.title': '새 소식',
@@ -144,6 +145,12 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   'node.ifElse.description': '이진 조건 분기 (참/거짓)',
   'node.switch.title': 'Switch',
   'node.switch.description': '다중 조건 분기 (2-N 케이스)',
+  'node.loop.title': 'Loop',
+  'node.loop.description': '종료 조건을 만족할 때까지 단계를 반복',
+  'node.parallel.title': 'Parallel',
+  'node.parallel.description': '독립적인 브랜치를 동시에 실행',
+  'node.join.title': 'Join',
+  'node.join.description': '모든 병렬 브랜치가 끝날 때까지 대기',
   'node.askUserQuestion.title': 'Ask User Question',
   'node.askUserQuestion.description': '사용자 선택에 따라 분기',
   'node.skill.title': 'Skill',
@@ -337,6 +344,9 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   'default.case2Condition': '조건 2가 충족될 때',
   'default.defaultBranch': 'default',
   'default.defaultBranchCondition': '기타',
+  'default.loopExitCondition': '결과가 요구 사항을 충족함',
+  'default.parallelBranch1': '브랜치 A',
+  'default.parallelBranch2': '브랜치 B',
   'default.conditionPrefix': '조건 ',
   'default.conditionSuffix': '이 충족될 때',
 
@@ -397,6 +407,13 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   'dialog.diffPreview.retryWithLatest': '최신으로 재시도',
   'dialog.diffPreview.previewOverview': '미리보기',
   'dialog.diffPreview.closeOverview': '미리보기 닫기',
+  'dialog.diffPreview.operations': '변경 사항',
+  'dialog.diffPreview.operation.addNode': '노드 추가',
+  'dialog.diffPreview.operation.updateNode': '노드 업데이트',
+  'dialog.diffPreview.operation.removeNode': '노드 삭제',
+  'dialog.diffPreview.operation.connect': '연결',
+  'dialog.diffPreview.operation.disconnect': '연결 해제',
+  'dialog.diffPreview.operationsInvalid': '선택한 변경 사항을 적용할 수 없습니다: {error}',
 
   // Reset Workflow Confirmation Dialog
   'toolbar.resetWorkflow': '워크플로우 초기화',
@@ -524,6 +541,7 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   'refinement.chat.clearButton': '대화 지우기',
   'refinement.chat.clearButton.tooltip': '대화 기록을 지우고 처음부터 시작합니다',
   'refinement.chat.useSkillsCheckbox': 'Skill 포함',
+  'refinement.chat.reviewChangesCheckbox': '변경 사항 개별 검토',
   'refinement.chat.useCodexNodesCheckbox': 'Codex Agent 노드 포함',
 
   // Timeout selector
@@ -586,6 +604,7 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
 
   // Refinement Error Display (Phase 3.8)
   'refinement.error.retryButton': '다시 시도',
+  'refinement.repair.summary': '검증 오류 {count}건을 자동으로 수정했습니다 (수정 {rounds}회)',
 
   // Processing Overlay (Phase 3.10)
   'refinement.processingOverlay': 'AI가 처리 중입니다...',
@@ -622,6 +641,7 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
 
   // MCP Cache Actions
   'mcp.action.refresh': '새로 고침',
+  'mcp.action.refreshServerTools': '이 서버의 도구 새로 고침',
   'mcp.refreshing': '새로 고침 중...',
   'mcp.error.refreshFailed': 'MCP 캐시 새로 고침에 실패했습니다',
 
@@ -704,6 +724,21 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   // Parameter Detailed Config Step
   'mcp.parameterDetailedConfig.title': '도구 매개변수 구성',
 
+  // MCP Tool "Try It"
+  'mcp.tryIt.description':
+    '이 값으로 도구를 한 번 호출합니다. 실제로 실행되므로 데이터를 변경하는 도구는 변경을 수행합니다.',
+  'mcp.tryIt.button': '사용해 보기',
+  'mcp.tryIt.running': '도구 호출 중...',
+  'mcp.tryIt.invalidParameters': '도구를 사용해 보기 전에 위의 매개변수 오류를 수정하세요.',
+  'mcp.tryIt.failed': '도구 호출에 실패했습니다',
+  'mcp.tryIt.result': '결과',
+  'mcp.tryIt.toolError': '도구가 오류를 반환했습니다',
+  'mcp.tryIt.emptyResult': '(빈 결과)',
+  'mcp.tryIt.omittedContent': '표시되지 않은 콘텐츠: {types}',
+  'mcp.tryIt.saveSample': '샘플 출력으로 저장',
+  'mcp.tryIt.sampleSaved': '샘플 출력으로 저장했습니다(노드를 저장하면 반영됩니다)',
+  'mcp.tryIt.savedSample': '샘플 출력 ({date})',
+
   // Natural Language Input
   'mcp.naturalLanguage.paramDescription.label': '매개변수 내용',
   'mcp.naturalLanguage.paramDescription.placeholder':
@@ -979,6 +1014,22 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   'switch.field.branches': '분기 ({count})',
   'switch.field.branches.item': '분기 {number}',
   'switch.field.branches.add': '+ 분기 추가',
+  'loop.field.label': '레이블',
+  'loop.field.label.placeholder': '레이블 입력',
+  'loop.field.exitCondition': '종료 조건',
+  'loop.field.exitCondition.placeholder': '예: 모든 테스트 통과',
+  'loop.field.exitCondition.help': '각 반복 후에 평가되며, 충족되면 루프를 종료합니다',
+  'loop.field.maxIterations': '최대 반복 횟수',
+  'loop.field.maxIterations.help': '조건이 충족되지 않아도 이 횟수만큼 반복하면 루프를 종료합니다',
+  'parallel.field.label': '레이블',
+  'parallel.field.label.placeholder': '레이블 입력',
+  'parallel.field.branches': '브랜치 ({count})',
+  'parallel.field.branches.item': '브랜치 {number}',
+  'parallel.field.branches.add': '+ 브랜치 추가',
+  'parallel.field.branches.help':
+    '브랜치는 서로 의존하면 안 됩니다. 각 브랜치의 마지막 단계를 같은 Join 노드에 연결하세요.',
+  'join.field.label': '레이블',
+  'join.field.label.placeholder': '레이블 입력',
   'prompt.field.label': '레이블',
   'prompt.field.label.placeholder': '레이블 입력',
   'prompt.field.prompt': '프롬프트',
@@ -1077,10 +1128,13 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   'executionSession.ended': '종료됨',
   'executionSession.waiting': 'Claude Code 활동을 기다리는 중…',
   'executionSession.metadata': '세션 {{sessionId}} · 업데이트 {{time}}',
+  'graphIssues.title': '흐름 문제 ({{count}})',
   'executionSession.waitingForInput': '유휴・입력 대기 중',
   'executionSession.aborted': '취소됨',
   'executionSession.failed': '실패',
   'executionSession.codexTerminal': 'Codex 대화형 터미널',
+  'executionSession.progress': '{{completed}}/{{total}} 노드',
+  'executionSession.progressFailed': '{{count}}개 실패',
 
   // Sample Workflows
   'toolbar.sampleWorkflows': '샘플 워크플로우',
@@ -1097,4 +1151,29 @@ export const koWebviewTranslations: WebviewTranslationKeys = {
   'sample.dailyDevWithBranch.name': '브랜치 세션을 활용한 일일 개발',
   'sample.dailyDevWithBranch.description':
     '인터뷰→계획→구현 후, 리뷰·수정을 Claude Code 브랜치 세션으로 분리하여 사람과 AI가 함께 수행하는 일일 개발 플로우. 긴 대화형 리뷰의 컨텍스트 소비를 분기 쪽에 격리하여 부모 세션을 가볍게 유지한 채 완료까지 반복할 수 있다. 컨텍스트를 오래 소비하는 중~대규모 작업에 적합. Claude Code 전용.',
+
+  // Workflow Templates
+  'toolbar.templateParameters': '템플릿 매개변수',
+  'toolbar.newFromTemplate': '템플릿에서 새로 만들기',
+  'templateParameters.title': '템플릿 매개변수',
+  'templateParameters.description':
+    '프롬프트, Skill 실행 프롬프트, MCP 매개변수에서 {{ name }} 형식으로 참조하는 값을 선언합니다. 내보낸 명령은 $ARGUMENTS에서 값을 읽고, "템플릿에서 새로 만들기"는 값을 채워 넣습니다.',
+  'templateParameters.empty': '선언된 매개변수가 없습니다.',
+  'templateParameters.name': '이름',
+  'templateParameters.type': '유형',
+  'templateParameters.default': '기본값',
+  'templateParameters.defaultRequired': '비워 두면 필수 항목이 됩니다',
+  'templateParameters.descriptionField': '설명',
+  'templateParameters.add': '매개변수 추가',
+  'templateParameters.remove': '삭제',
+  'templateParameters.save': '적용',
+  'newFromTemplate.title': '템플릿에서 새로 만들기',
+  'newFromTemplate.description':
+    '템플릿 매개변수를 선언한 저장된 워크플로우를 선택하고 값을 입력하면, 저장되지 않은 새 워크플로우로 열립니다.',
+  'newFromTemplate.loading': '템플릿 불러오는 중...',
+  'newFromTemplate.noTemplates':
+    '템플릿 매개변수를 선언한 저장된 워크플로우가 없습니다. 더보기 → 템플릿 매개변수에서 추가한 후 워크플로우를 저장하세요.',
+  'newFromTemplate.template': '템플릿',
+  'newFromTemplate.name': '새 워크플로우 이름',
+  'newFromTemplate.create': '만들기',
 };
@@ -107,6 +107,7 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
 
   // Toolbar more actions dropdown
   'toolbar.moreActions': '更多',
+  'toolbar.exportToCustomTarget': '导出到自定义目标',
   'toolbar.help': '帮助',
   'toolbar.whatsNew': '更新内容',
   'whatsNew.title': '更新内容',
@@ -140,6 +141,12 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   'node.ifElse.description': '二元条件分支（真/假）',
   'node.switch.title': 'Switch',
   'node.switch.description': '多路条件分支（2-N 种情况）',
+  'node.loop.title': 'Loop',
+  'node.loop.description': '重复执行步骤直到满足退出条件',
+  'node.parallel.title': 'Parallel',
+  'node.parallel.description': '同时运行相互独立的分支',
+  'node.join.title': 'Join',
+  'node.join.description': '等待所有并行分支完成',
   'node.askUserQuestion.title': 'Ask User Question',
   'node.askUserQuestion.description': '根据用户选择分支',
   'node.skill.title': 'Skill',
@@ -326,6 +333,9 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   'default.case2Condition': '满足条件 2 时',
   'default.defaultBranch': 'default',
   'default.defaultBranchCondition': '其他情况',
+  'default.loopExitCondition': '结果满足要求',
+  'default.parallelBranch1': '分支 A',
+  'default.parallelBranch2': '分支 B',
   'default.conditionPrefix': '满足条件 ',
   'default.conditionSuffix': ' 时',
 
@@ -383,6 +393,13 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   'dialog.diffPreview.retryWithLatest': '使用最新重试',
   'dialog.diffPreview.previewOverview': '预览',
   'dialog.diffPreview.closeOverview': '关闭预览',
+  'dialog.diffPreview.operations': '更改',
+  'dialog.diffPreview.operation.addNode': '添加节点',
+  'dialog.diffPreview.operation.updateNode': '更新节点',
+  'dialog.diffPreview.operation.removeNode': '删除节点',
+  'dialog.diffPreview.operation.connect': '连接',
+  'dialog.diffPreview.operation.disconnect': '断开连接',
+  'dialog.diffPreview.operationsInvalid': '无法应用所选更改：{error}',
 
   // Reset Workflow Confirmation Dialog
   'toolbar.resetWorkflow': '重置工作流',
@@ -507,6 +524,7 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   'refinement.chat.clearButton': '清除对话',
   'refinement.chat.clearButton.tooltip': '清除对话历史记录并重新开始',
   'refinement.chat.useSkillsCheckbox': '包含Skill',
+  'refinement.chat.reviewChangesCheckbox': '逐项审查更改',
   'refinement.chat.useCodexNodesCheckbox': '包含Codex Agent节点',
 
   // Timeout selector
@@ -564,6 +582,7 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
 
   // Refinement Error Display (Phase 3.8)
   'refinement.error.retryButton': '重试',
+  'refinement.repair.summary': '已自动修复 {count} 个验证问题（修复 {rounds} 轮）',
 
   // Processing Overlay (Phase 3.10)
   'refinement.processingOverlay': 'AI正在处理您的请求...',
@@ -600,6 +619,7 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
 
   // MCP Cache Actions
   'mcp.action.refresh': '刷新',
+  'mcp.action.refreshServerTools': '重新加载此服务器的工具',
   'mcp.refreshing': '正在刷新...',
   'mcp.error.refreshFailed': 'MCP 缓存刷新失败',
 
@@ -682,6 +702,20 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   // Parameter Detailed Config Step
   'mcp.parameterDetailedConfig.title': '配置工具参数',
 
+  // MCP Tool "Try It"
+  'mcp.tryIt.description': '使用这些值调用一次工具。调用是真实的：会修改数据的工具将实际修改数据。',
+  'mcp.tryIt.button': '试用',
+  'mcp.tryIt.running': '正在调用工具...',
+  'mcp.tryIt.invalidParameters': '请先修正上方的参数错误，再试用工具。',
+  'mcp.tryIt.failed': '工具调用失败',
+  'mcp.tryIt.result': '结果',
+  'mcp.tryIt.toolError': '工具返回了错误',
+  'mcp.tryIt.emptyResult': '(空结果)',
+  'mcp.tryIt.omittedContent': '未显示的内容：{types}',
+  'mcp.tryIt.saveSample': '保存为示例输出',
+  'mcp.tryIt.sampleSaved': '已保存为示例输出(保存节点后生效)',
+  'mcp.tryIt.savedSample': '示例输出 ({date})',
+
   // Natural Language Input
   'mcp.naturalLanguage.paramDescription.label': '参数内容',
   'mcp.naturalLanguage.paramDescription.placeholder':
@@ -949,6 +983,22 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   'switch.field.branches': '分支（{count}）',
   'switch.field.branches.item': '分支 {number}',
   'switch.field.branches.add': '+ 添加分支',
+  'loop.field.label': '标签',
+  'loop.field.label.placeholder': '输入标签',
+  'loop.field.exitCondition': '退出条件',
+  'loop.field.exitCondition.placeholder': '例如：所有测试通过',
+  'loop.field.exitCondition.help': '每次迭代后检查，满足时退出循环',
+  'loop.field.maxIterations': '最大迭代次数',
+  'loop.field.maxIterations.help': '即使条件未满足，达到此次数后也会退出循环',
+  'parallel.field.label': '标签',
+  'parallel.field.label.placeholder': '输入标签',
+  'parallel.field.branches': '分支 ({count})',
+  'parallel.field.branches.item': '分支 {number}',
+  'parallel.field.branches.add': '+ 添加分支',
+  'parallel.field.branches.help':
+    '分支之间不能相互依赖。请将每个分支的最后一步连接到同一个 Join 节点。',
+  'join.field.label': '标签',
+  'join.field.label.placeholder': '输入标签',
   'prompt.field.label': '标签',
   'prompt.field.label.placeholder': '输入标签',
   'prompt.field.prompt': '提示词',
@@ -1044,10 +1094,13 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   'executionSession.ended': '已结束',
   'executionSession.waiting': '正在等待 Claude Code 活动…',
   'executionSession.metadata': '会话 {{sessionId}} · 更新于 {{time}}',
+  'graphIssues.title': '流程问题 ({{count}})',
   'executionSession.waitingForInput': '空闲・等待输入',
   'executionSession.aborted': '已取消',
   'executionSession.failed': '失败',
   'executionSession.codexTerminal': 'Codex 交互终端',
+  'executionSession.progress': '{{completed}}/{{total}} 个节点',
+  'executionSession.progressFailed': '{{count}} 个失败',
 
   // Sample Workflows
   'toolbar.sampleWorkflows': '示例工作流',
@@ -1064,4 +1117,29 @@ export const zhCNWebviewTranslations: WebviewTranslationKeys = {
   'sample.dailyDevWithBranch.name': '使用分支会话的日常开发',
   'sample.dailyDevWithBranch.description':
     '访谈→计划→实现后，将评审与修改分离到 Claude Code 分支会话中由人与AI共同完成的日常开发流程。冗长的交互式评审在分支中消耗上下文，父会话保持轻量并可循环至完成。适合长期消耗上下文的中大型任务。仅限 Claude Code。',
+
+  // Workflow Templates
+  'toolbar.templateParameters': '模板参数',
+  'toolbar.newFromTemplate': '从模板新建',
+  'templateParameters.title': '模板参数',
+  'templateParameters.description':
+    '声明在提示词、Skill 执行提示词和 MCP 参数中以 {{ name }} 形式引用的值。导出的命令从 $ARGUMENTS 读取这些值；“从模板新建”会直接填入。',
+  'templateParameters.empty': '尚未声明参数。',
+  'templateParameters.name': '名称',
+  'templateParameters.type': '类型',
+  'templateParameters.default': '默认值',
+  'templateParameters.defaultRequired': '留空则为必填',
+  'templateParameters.descriptionField': '描述',
+  'templateParameters.add': '添加参数',
+  'templateParameters.remove': '删除',
+  'templateParameters.save': '应用',
+  'newFromTemplate.title': '从模板新建',
+  'newFromTemplate.description':
+    '选择一个声明了模板参数的已保存工作流，填写参数值，结果将作为新的未保存工作流打开。',
+  'newFromTemplate.loading': '正在加载模板...',
+  'newFromTemplate.noTemplates':
+    '还没有声明模板参数的已保存工作流。请通过“更多”→“模板参数”添加并保存工作流。',
+  'newFromTemplate.template': '模板',
+  'newFromTemplate.name': '新工作流名称',
+  'newFromTemplate.create': '创建',
 };
@@ -107,6 +107,7 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
 
   // Toolbar more actions dropdown
   'toolbar.moreActions': '更多',
+  'toolbar.exportToCustomTarget': '匯出到自訂目標',
   'toolbar.help': '說明',
   'toolbar.whatsNew': '更新內容',
   'whatsNew.title': '更新內容',
@@ -140,6 +141,12 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   'node.ifElse.description': '二元條件分支（真/假）',
   'node.switch.title': 'Switch',
   'node.switch.description': '多路條件分支（2-N 種情況）',
+  'node.loop.title': 'Loop',
+  'node.loop.description': '重複執行步驟直到滿足結束條件',
+  'node.parallel.title': 'Parallel',
+  'node.parallel.description': '同時執行彼此獨立的分支',
+  'node.join.title': 'Join',
+  'node.join.description': '等待所有平行分支完成',
   'node.askUserQuestion.title': 'Ask User Question',
   'node.askUserQuestion.description': '根據使用者選擇分支',
   'node.skill.title': 'Skill',
@@ -327,6 +334,9 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   'default.case2Condition': '滿足條件 2 時',
   'default.defaultBranch': 'default',
   'default.defaultBranchCondition': '其他情況',
+  'default.loopExitCondition': '結果符合要求',
+  'default.parallelBranch1': '分支 A',
+  'default.parallelBranch2': '分支 B',
   'default.conditionPrefix': '滿足條件 ',
   'default.conditionSuffix': ' 時',
 
@@ -385,6 +395,13 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   'dialog.diffPreview.retryWithLatest': '使用最新重試',
   'dialog.diffPreview.previewOverview': '預覽',
   'dialog.diffPreview.closeOverview': '關閉預覽',
+  'dialog.diffPreview.operations': '變更',
+  'dialog.diffPreview.operation.addNode': '新增節點',
+  'dialog.diffPreview.operation.updateNode': '更新節點',
+  'dialog.diffPreview.operation.removeNode': '刪除節點',
+  'dialog.diffPreview.operation.connect': '連接',
+  'dialog.diffPreview.operation.disconnect': '中斷連接',
+  'dialog.diffPreview.operationsInvalid': '無法套用所選變更：{error}',
 
   // Reset Workflow Confirmation Dialog
   'toolbar.resetWorkflow': '重設工作流程',
@@ -509,6 +526,7 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   'refinement.chat.clearButton': '清除對話',
   'refinement.chat.clearButton.tooltip': '清除對話歷史記錄並重新開始',
   'refinement.chat.useSkillsCheckbox': '包含Skill',
+  'refinement.chat.reviewChangesCheckbox': '逐項審查變更',
   'refinement.chat.useCodexNodesCheckbox': '包含Codex Agent節點',
 
   // Timeout selector
@@ -566,6 +584,7 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
 
   // Refinement Error Display (Phase 3.8)
   'refinement.error.retryButton': '重試',
+  'refinement.repair.summary': '已自動修復 {count} 個驗證問題（修復 {rounds} 輪）',
 
   // Processing Overlay (Phase 3.10)
   'refinement.processingOverlay': 'AI正在處理您的請求...',
@@ -602,6 +621,7 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
 
   // MCP Cache Actions
   'mcp.action.refresh': '重新整理',
+  'mcp.action.refreshServerTools': '重新載入此伺服器的工具',
   'mcp.refreshing': '正在重新整理...',
   'mcp.error.refreshFailed': 'MCP 快取重新整理失敗',
 
@@ -684,6 +704,20 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   // Parameter Detailed Config Step
   'mcp.parameterDetailedConfig.title': '設定工具參數',
 
+  // MCP Tool "Try It"
+  'mcp.tryIt.description': '使用這些值呼叫一次工具。呼叫是真實的：會修改資料的工具將實際修改資料。',
+  'mcp.tryIt.button': '試用',
+  'mcp.tryIt.running': '正在呼叫工具...',
+  'mcp.tryIt.invalidParameters': '請先修正上方的參數錯誤，再試用工具。',
+  'mcp.tryIt.failed': '工具呼叫失敗',
+  'mcp.tryIt.result': '結果',
+  'mcp.tryIt.toolError': '工具傳回了錯誤',
+  'mcp.tryIt.emptyResult': '(空結果)',
+  'mcp.tryIt.omittedContent': '未顯示的內容：{types}',
+  'mcp.tryIt.saveSample': '儲存為範例輸出',
+  'mcp.tryIt.sampleSaved': '已儲存為範例輸出(儲存節點後生效)',
+  'mcp.tryIt.savedSample': '範例輸出 ({date})',
+
   // Natural Language Input
   'mcp.naturalLanguage.paramDescription.label': '參數內容',
   'mcp.naturalLanguage.paramDescription.placeholder':
@@ -952,6 +986,22 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   'switch.field.branches': '分支（{count}）',
   'switch.field.branches.item': '分支 {number}',
   'switch.field.branches.add': '+ 新增分支',
+  'loop.field.label': '標籤',
+  'loop.field.label.placeholder': '輸入標籤',
+  'loop.field.exitCondition': '結束條件',
+  'loop.field.exitCondition.placeholder': '例如：所有測試通過',
+  'loop.field.exitCondition.help': '每次迭代後檢查，滿足時結束迴圈',
+  'loop.field.maxIterations': '最大迭代次數',
+  'loop.field.maxIterations.help': '即使條件未滿足，達到此次數後也會結束迴圈',
+  'parallel.field.label': '標籤',
+  'parallel.field.label.placeholder': '輸入標籤',
+  'parallel.field.branches': '分支 ({count})',
+  'parallel.field.branches.item': '分支 {number}',
+  'parallel.field.branches.add': '+ 新增分支',
+  'parallel.field.branches.help':
+    '分支之間不能互相依賴。請將每個分支的最後一步連接到同一個 Join 節點。',
+  'join.field.label': '標籤',
+  'join.field.label.placeholder': '輸入標籤',
   'prompt.field.label': '標籤',
   'prompt.field.label.placeholder': '輸入標籤',
   'prompt.field.prompt': '提示詞',
@@ -1047,10 +1097,13 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   'executionSession.ended': '已結束',
   'executionSession.waiting': '正在等待 Claude Code 活動…',
   'executionSession.metadata': '工作階段 {{sessionId}} · 更新於 {{time}}',
+  'graphIssues.title': '流程問題 ({{count}})',
   'executionSession.waitingForInput': '閒置・等待輸入',
   'executionSession.aborted': '已取消',
   'executionSession.failed': '失敗',
   'executionSession.codexTerminal': 'Codex 互動式終端機',
+  'executionSession.progress': '{{completed}}/{{total}} 個節點',
+  'executionSession.progressFailed': '{{count}} 個失敗',
 
   // Sample Workflows
   'toolbar.sampleWorkflows': '範例工作流程',
@@ -1067,4 +1120,29 @@ export const zhTWWebviewTranslations: WebviewTranslationKeys = {
   'sample.dailyDevWithBranch.name': '使用分支工作階段的日常開發',
   'sample.dailyDevWithBranch.description':
     '訪談→計畫→實作後，將審查與修改分離到 Claude Code 分支工作階段中由人與AI共同完成的日常開發流程。冗長的互動式審查在分支中消耗脈絡，父工作階段保持輕量並可循環至完成。適合長期消耗脈絡的中大型任務。僅限 Claude Code。',
+
+  // Workflow Templates
+  'toolbar.templateParameters': '範本參數',
+  'toolbar.newFromTemplate': '從範本新建',
+  'templateParameters.title': '範本參數',
+  'templateParameters.description':
+    '宣告在提示詞、Skill 執行提示詞和 MCP 參數中以 {{ name }} 形式引用的值。匯出的命令從 $ARGUMENTS 讀取這些值；「從範本新建」會直接填入。',
+  'templateParameters.empty': '尚未宣告參數。',
+  'templateParameters.name': '名稱',
+  'templateParameters.type': '類型',
+  'templateParameters.default': '預設值',
+  'templateParameters.defaultRequired': '留空則為必填',
+  'templateParameters.descriptionField': '描述',
+  'templateParameters.add': '新增參數',
+  'templateParameters.remove': '刪除',
+  'templateParameters.save': '套用',
+  'newFromTemplate.title': '從範本新建',
+  'newFromTemplate.description':
+    '選擇一個宣告了範本參數的已儲存工作流程，填寫參數值，結果將作為新的未儲存工作流程開啟。',
+  'newFromTemplate.loading': '正在載入範本...',
+  'newFromTemplate.noTemplates':
+    '還沒有宣告範本參數的已儲存工作流程。請透過「更多」→「範本參數」新增並儲存工作流程。',
+  'newFromTemplate.template': '範本',
+  'newFromTemplate.name': '新工作流程名稱',
+  'newFromTemplate.create': '建立',
 };
@@ -8,11 +8,13 @@
  */
 
 import type {
+  CallMcpToolPayload,
   GetMcpToolSchemaPayload,
   GetMcpToolsPayload,
   ListMcpServersPayload,
   McpCacheRefreshedPayload,
   McpServersResultPayload,
+  McpToolCallResultPayload,
   McpToolReference,
   McpToolSchemaResultPayload,
   McpToolsResultPayload,
@@ -29,6 +31,11 @@ declare const vscode: {
  */
 const REQUEST_TIMEOUT = 30000; // 30 seconds
 
+/**
+ * Timeout for CALL_MCP_TOOL: the Extension Host allows the tool itself 60 seconds
+ */
+const TOOL_CALL_TIMEOUT = 90000; // 90 seconds
+
 /**
  * List all configured MCP servers
  *
@@ -189,6 +196,51 @@ export async function getMcpToolSchema(
   });
 }
 
+/**
+ * Call an MCP tool once with the given parameter values ("Try it")
+ *
+ * Sends CALL_MCP_TOOL message to Extension Host and waits for MCP_TOOL_CALL_RESULT response.
+ * A tool that reports an error still resolves with `success: true` and `output.isError`.
+ *
+ * @param payload - Server ID, tool name and parameter values
+ * @returns Promise resolving to tool call result
+ */
+export async function callMcpTool(payload: CallMcpToolPayload): Promise<McpToolCallResultPayload> {
+  return new Promise((resolve, reject) => {
+    const requestId = `call-tool-${Date.now()}-${Math.random()}`;
+
+    const handler = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.requestId !== requestId) {
+        return; // Not our response
+      }
+
+      if (message.type === 'MCP_TOOL_CALL_RESULT') {
+        window.removeEventListener('message', handler);
+        resolve(message.payload);
+      } else if (message.type === 'ERROR') {
+        window.removeEventListener('message', handler);
+        reject(new Error(message.payload?.message || 'MCP tool call failed'));
+      }
+    };
+
+    window.addEventListener('message', handler);
+
+    // Send request to Extension Host
+    vscode.postMessage({
+      type: 'CALL_MCP_TOOL',
+      requestId,
+      payload,
+    });
+
+    // Timeout handling
+    setTimeout(() => {
+      window.removeEventListener('message', handler);
+      reject(new Error('Request timeout: CALL_MCP_TOOL took longer than 90 seconds'));
+    }, TOOL_CALL_TIMEOUT);
+  });
+}
+
 /**
  * Search and filter tools by query
  *
@@ -221,10 +273,11 @@ export function filterTools(tools: McpToolReference[], query: string): McpToolRe
 /**
  * Refresh MCP cache
  *
- * Sends REFRESH_MCP_CACHE message to Extension Host to invalidate all cached data.
+ * Sends REFRESH_MCP_CACHE message to Extension Host to invalidate all cached data,
+ * or only one server's tools (`serverId`).
  * Useful when MCP servers are added/removed after initial load.
  *
- * @param payload - Cache refresh request payload (empty)
+ * @param payload - Cache refresh request payload
  * @returns Promise resolving to cache refresh result
  *
  * @example
@@ -14,6 +14,7 @@ import type {
   CopilotModel,
   ExtensionMessage,
   RefinementClarificationPayload,
+  RefinementOutputMode,
   RefinementProgressPayload,
   RefinementSuccessPayload,
   RefineWorkflowPayload,
@@ -97,6 +98,7 @@ export type RefinementProgressCallback = (payload: RefinementProgressPayload) =>
  * @param provider - AI CLI provider to use (default: 'claude-code')
  * @param copilotModel - Copilot model to use when provider is 'copilot' (default: 'gpt-4o')
  * @param codexModel - Codex model to use when provider is 'codex' (default: '' = inherit)
+ * @param outputMode - 'patch' to get edit operations back for review instead of a whole workflow (default: 'workflow')
  * @returns Promise that resolves to the refinement result (success or clarification)
  * @throws {WorkflowRefinementError} If refinement fails
  */
@@ -116,7 +118,8 @@ export function refineWorkflow(
   copilotModel: CopilotModel = 'gpt-4o',
   codexModel: CodexModel = '',
   codexReasoningEffort: CodexReasoningEffort = 'low',
-  useCodex = false
+  useCodex = false,
+  outputMode: RefinementOutputMode = 'workflow'
 ): Promise<RefinementResult> {
   return new Promise((resolve, reject) => {
     // Register response handler
@@ -178,6 +181,7 @@ export function refineWorkflow(
       codexModel,
       codexReasoningEffort,
       useCodex,
+      outputMode,
     };
 
     vscode.postMessage({
@@ -8,6 +8,7 @@
 import type {
   AiEditingProvider,
   CheckAnthropicApiKeyResultPayload,
+  CustomExportTargetsListPayload,
   DeleteCustomSkillSuccessPayload,
   EditorContentUpdatedPayload,
   ExecuteSkillProgressPayload,
@@ -23,6 +24,8 @@ import type {
   ExportForCopilotSuccessPayload,
   ExportForCursorPayload,
   ExportForCursorSuccessPayload,
+  ExportForCustomTargetPayload,
+  ExportForCustomTargetSuccessPayload,
   ExportForGeminiCliPayload,
   ExportForGeminiCliSuccessPayload,
   ExportForRooCodePayload,
@@ -1110,6 +1113,103 @@ export function runForCursor(
   });
 }
 
+// ============================================================================
+// Custom Export Targets (ccwf.config.json)
+// ============================================================================
+
+/**
+ * List the export targets declared under "exportTargets" in ccwf.config.json
+ *
+ * @returns Promise that resolves with the targets (empty when there is no config)
+ */
+export function listCustomExportTargets(): Promise<CustomExportTargetsListPayload> {
+  return new Promise((resolve, reject) => {
+    const requestId = `req-${Date.now()}-${Math.random()}`;
+
+    const handler = (event: MessageEvent) => {
+      const message: ExtensionMessage = event.data;
+
+      if (message.requestId === requestId && message.type === 'CUSTOM_EXPORT_TARGETS_LIST') {
+        window.removeEventListener('message', handler);
+        resolve(message.payload as CustomExportTargetsListPayload);
+      }
+    };
+
+    window.addEventListener('message', handler);
+
+    vscode.postMessage({
+      type: 'LIST_CUSTOM_EXPORT_TARGETS',
+      requestId,
+    });
+
+    // Timeout after 30 seconds
+    setTimeout(() => {
+      window.removeEventListener('message', handler);
+      reject(new Error('Request timed out'));
+    }, 30000);
+  });
+}
+
+/**
+ * Export workflow for a custom export target
+ *
+ * Exports the workflow to the target's skillPath from ccwf.config.json
+ *
+ * @param workflow - Workflow to export
+ * @param targetId - Target id (its key under "exportTargets")
+ * @returns Promise that resolves with export result
+ */
+export function exportForCustomTarget(
+  workflow: Workflow,
+  targetId: string,
+  options?: { highlightEnabled?: boolean }
+): Promise<ExportForCustomTargetSuccessPayload> {
+  return new Promise((resolve, reject) => {
+    const requestId = `req-${Date.now()}-${Math.random()}`;
+
+    const handler = (event: MessageEvent) => {
+      const message: ExtensionMessage = event.data;
+
+      if (message.requestId === requestId) {
+        window.removeEventListener('message', handler);
+
+        if (message.type === 'EXPORT_FOR_CUSTOM_TARGET_SUCCESS') {
+          resolve(message.payload as ExportForCustomTargetSuccessPayload);
+        } else if (message.type === 'EXPORT_FOR_CUSTOM_TARGET_CANCELLED') {
+          // User cancelled - resolve with empty result
+          resolve({
+            skillName: '',
+            skillPath: '',
+            warnings: [],
+            timestamp: new Date().toISOString(),
+          });
+        } else if (message.type === 'EXPORT_FOR_CUSTOM_TARGET_FAILED') {
+          reject(new Error(message.payload?.errorMessage || 'Failed to export for custom target'));
+        }
+      }
+    };
+
+    window.addEventListener('message', handler);
+
+    const payload: ExportForCustomTargetPayload = {
+      workflow,
+      targetId,
+      highlightEnabled: options?.highlightEnabled,
+    };
+    vscode.postMessage({
+      type: 'EXPORT_FOR_CUSTOM_TARGET',
+      requestId,
+      payload,
+    });
+
+    // Timeout after 30 seconds
+    setTimeout(() => {
+      window.removeEventListener('message', handler);
+      reject(new Error('Request timed out'));
+    }, 30000);
+  });
+}
+
 // ============================================================================
 // One-Click AI Agent Launch
 // ============================================================================
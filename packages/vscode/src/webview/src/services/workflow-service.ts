@@ -15,6 +15,7 @@ import {
   VALIDATION_RULES,
   type Workflow,
   type WorkflowNode,
+  type WorkflowParameter,
 } from '@cc-wf-studio/core';
 import type { Edge, Node } from 'reactflow';
 
@@ -28,6 +29,8 @@ import type { Edge, Node } from 'reactflow';
  * @param conversationHistory - Optional conversation history to preserve
  * @param subAgentFlows - Optional sub-agent flows to include
  * @param slashCommandOptions - Optional slash command options (context, model, hooks)
+ * @param tour - Optional guided tour to carry through
+ * @param parameters - Optional template parameters
  * @returns Workflow definition
  */
 export function serializeWorkflow(
@@ -38,7 +41,8 @@ export function serializeWorkflow(
   conversationHistory?: ConversationHistory,
   subAgentFlows?: SubAgentFlow[],
   slashCommandOptions?: SlashCommandOptions,
-  tour?: TourStep[]
+  tour?: TourStep[],
+  parameters?: WorkflowParameter[]
 ): Workflow {
   // Convert React Flow nodes to WorkflowNodes
   const workflowNodes: WorkflowNode[] = nodes.map((node) => ({
@@ -114,6 +118,7 @@ export function serializeWorkflow(
     // which doesn't hold it) so save / Overview / AI-edit / MCP round-trips
     // preserve it. Callers pass the live `activeWorkflow.tour`.
     ...(tour && tour.length > 0 ? { tour } : {}),
+    ...(parameters && parameters.length > 0 ? { parameters } : {}),
   };
 
   return workflow;
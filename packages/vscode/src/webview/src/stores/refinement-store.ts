@@ -5,7 +5,11 @@
  * Based on: /specs/001-ai-workflow-refinement/quickstart.md Section 3.1
  */
 
-import type { ConversationHistory, ConversationMessage } from '@cc-wf-studio/core';
+import type {
+  ConversationHistory,
+  ConversationMessage,
+  RefinementRepair,
+} from '@cc-wf-studio/core';
 import type {
   AiCliProvider,
   ClaudeModel,
@@ -13,6 +17,7 @@ import type {
   CodexReasoningEffort,
   CopilotModel,
   CopilotModelInfo,
+  RefinementOutputMode,
 } from '@shared/types/messages';
 import { create } from 'zustand';
 import { listCopilotModels } from '../services/refinement-service';
@@ -24,6 +29,7 @@ const CODEX_MODEL_STORAGE_KEY = 'cc-wf-studio.refinement.selectedCodexModel';
 const CODEX_REASONING_EFFORT_STORAGE_KEY = 'cc-wf-studio.refinement.selectedCodexReasoningEffort';
 const ALLOWED_TOOLS_STORAGE_KEY = 'cc-wf-studio.refinement.allowedTools';
 const PROVIDER_STORAGE_KEY = 'cc-wf-studio.refinement.selectedProvider';
+const OUTPUT_MODE_STORAGE_KEY = 'cc-wf-studio.refinement.outputMode';
 // Note: Legacy key (kept for migration only)
 const COPILOT_ENABLED_STORAGE_KEY_LEGACY = 'cc-wf-studio:copilot-beta-enabled';
 // Note: These keys are shared with Toolbar.tsx for the "Copilot Chat" and "Copilot CLI" toggles
@@ -273,6 +279,33 @@ function saveProviderToStorage(provider: AiCliProvider): void {
   }
 }
 
+/**
+ * Load refinement output mode from localStorage
+ * Returns 'workflow' as default if no value is stored or value is invalid
+ */
+function loadOutputModeFromStorage(): RefinementOutputMode {
+  try {
+    const saved = localStorage.getItem(OUTPUT_MODE_STORAGE_KEY);
+    if (saved === 'workflow' || saved === 'patch') {
+      return saved;
+    }
+  } catch {
+    // localStorage may not be available in some contexts
+  }
+  return 'workflow'; // Default
+}
+
+/**
+ * Save refinement output mode to localStorage
+ */
+function saveOutputModeToStorage(mode: RefinementOutputMode): void {
+  try {
+    localStorage.setItem(OUTPUT_MODE_STORAGE_KEY, mode);
+  } catch {
+    // localStorage may not be available in some contexts
+  }
+}
+
 /**
  * Migrate legacy Copilot enabled state to new split keys.
  * Old: cc-wf-studio:copilot-beta-enabled + cc-wf-studio.copilotExecutionMode
@@ -500,6 +533,8 @@ interface RefinementStore {
   currentRequestId: string | null;
   useSkills: boolean;
   useCodexNodes: boolean;
+  /** 'patch': the AI returns edit operations, reviewed one by one before they are applied */
+  outputMode: RefinementOutputMode;
   timeoutSeconds: number;
   selectedModel: ClaudeModel;
   selectedCopilotModel: CopilotModel;
@@ -533,6 +568,7 @@ interface RefinementStore {
   toggleChat: () => void;
   toggleUseSkills: () => void;
   toggleUseCodexNodes: () => void;
+  setOutputMode: (mode: RefinementOutputMode) => void;
   setTimeoutSeconds: (seconds: number) => void;
   setSelectedModel: (model: ClaudeModel) => void;
   setSelectedCopilotModel: (model: CopilotModel) => void;
@@ -608,6 +644,9 @@ interface RefinementStore {
   // Tool Execution Actions (Tool Loading Animation)
   updateMessageToolInfo: (messageId: string, toolInfo: string | null) => void;
 
+  // Automatic repair rounds shown under an AI message
+  updateMessageRepairs: (messageId: string, repairs: RefinementRepair[] | undefined) => void;
+
   // Computed
   canSend: () => boolean;
   shouldShowWarning: () => boolean;
@@ -635,6 +674,7 @@ export const useRefinementStore = create<RefinementStore>((set, get) => ({
   currentRequestId: null,
   useSkills: true,
   useCodexNodes: false, // Default: disabled, only shown when Codex Beta is enabled
+  outputMode: loadOutputModeFromStorage(), // Load from localStorage, default: 'workflow'
   timeoutSeconds: 0, // Default timeout: None (0 = use system guard)
   selectedModel: loadModelFromStorage(), // Load from localStorage, default: 'haiku'
   selectedCopilotModel: loadCopilotModelFromStorage(), // Load from localStorage, default: 'gpt-4o'
@@ -683,6 +723,11 @@ export const useRefinementStore = create<RefinementStore>((set, get) => ({
     set({ useCodexNodes: !get().useCodexNodes });
   },
 
+  setOutputMode: (mode: RefinementOutputMode) => {
+    set({ outputMode: mode });
+    saveOutputModeToStorage(mode);
+  },
+
   setTimeoutSeconds: (seconds: number) => {
     set({ timeoutSeconds: seconds });
   },
@@ -1097,6 +1142,26 @@ export const useRefinementStore = create<RefinementStore>((set, get) => ({
     });
   },
 
+  // Automatic repair rounds shown under an AI message
+  updateMessageRepairs: (messageId: string, repairs: RefinementRepair[] | undefined) => {
+    const history = get().conversationHistory;
+    if (!history) {
+      return;
+    }
+
+    const updatedMessages = history.messages.map((msg) =>
+      msg.id === messageId ? { ...msg, repairs } : msg
+    );
+
+    set({
+      conversationHistory: {
+        ...history,
+        messages: updatedMessages,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+  },
+
   // Computed Methods
   canSend: () => {
     const { conversationHistory, isProcessing, currentInput } = get();
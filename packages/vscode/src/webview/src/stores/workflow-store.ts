@@ -8,14 +8,16 @@
 import type {
   HookEntry,
   HookType,
+  NodeExecutionStatus,
   SlashCommandContext,
   SlashCommandModel,
   SlashCommandOptions,
   SubAgentFlow,
   WorkflowHooks,
   WorkflowNode,
+  WorkflowParameter,
 } from '@cc-wf-studio/core';
-import { NodeType } from '@cc-wf-studio/core';
+import { CURRENT_SCHEMA_VERSION, NodeType } from '@cc-wf-studio/core';
 import type { McpNodeData } from '@cc-wf-studio/core/mcp';
 import { normalizeMcpNodeData } from '@cc-wf-studio/core/mcp';
 import type { Workflow } from '@shared/types/messages';
@@ -71,6 +73,8 @@ interface WorkflowStore {
   isFocusMode: boolean;
   /** Slash Command export options (context, model, hooks) */
   slashCommandOptions: SlashCommandOptions;
+  /** Template parameters referenced as {{name}} in prompts */
+  workflowParameters: WorkflowParameter[];
   lastAddedNodeId: string | null;
   /** When set, the Edit-mode canvas should pan to centre this node and clear the
    *  request. Used by the Overview mode "Edit on canvas" links. */
@@ -84,6 +88,9 @@ interface WorkflowStore {
   highlightedGroupNodeId: string | null;
   isHighlightEnabled: boolean;
 
+  // Node-level execution status of the latest observed run, keyed by node ID
+  nodeExecutionStatuses: Record<string, NodeExecutionStatus>;
+
   // MCP Server Status
   mcpServerRunning: boolean;
   mcpServerPort: number | null;
@@ -127,11 +134,15 @@ interface WorkflowStore {
   addHookEntry: (hookType: HookType, matcher: string, command: string, once?: boolean) => void;
   removeHookEntry: (hookType: HookType, entryIndex: number) => void;
   updateHookEntry: (hookType: HookType, entryIndex: number, entry: Partial<HookEntry>) => void;
+  setWorkflowParameters: (parameters: WorkflowParameter[]) => void;
 
   // Group Node Highlight
   setHighlightedGroupNodeId: (id: string | null) => void;
   toggleHighlightEnabled: () => void;
 
+  // Execution Tracking
+  setNodeExecutionStatuses: (statuses: Record<string, NodeExecutionStatus>) => void;
+
   // MCP Server Status
   setMcpServerStatus: (running: boolean, port: number | null) => void;
 
@@ -364,12 +375,14 @@ export const useWorkflowStore = create<WorkflowStore>()(
         model: 'default',
         hooks: undefined,
       },
+      workflowParameters: [],
       lastAddedNodeId: null,
       requestedFocusNodeId: null,
       isTourActive: false,
       tourStepIndex: 0,
       highlightedGroupNodeId: null,
       isHighlightEnabled: true,
+      nodeExecutionStatuses: {},
       mcpServerRunning: false,
       mcpServerPort: null,
 
@@ -585,6 +598,9 @@ export const useWorkflowStore = create<WorkflowStore>()(
         }));
       },
 
+      setWorkflowParameters: (parameters: WorkflowParameter[]) =>
+        set({ workflowParameters: parameters }),
+
       // Group Node Actions
       onNodeDragStop: (draggedNode: Node) => {
         // Skip if the dragged node is a group node (no nesting)
@@ -735,6 +751,8 @@ export const useWorkflowStore = create<WorkflowStore>()(
         }
       },
 
+      setNodeExecutionStatuses: (statuses) => set({ nodeExecutionStatuses: statuses }),
+
       setMcpServerStatus: (running, port) =>
         set({ mcpServerRunning: running, mcpServerPort: port }),
 
@@ -851,6 +869,7 @@ export const useWorkflowStore = create<WorkflowStore>()(
             model: 'default',
             hooks: undefined,
           },
+          workflowParameters: [],
           // Sub-Agent Flow関連の状態をクリア
           subAgentFlows: [],
           activeSubAgentFlowId: null,
@@ -1062,7 +1081,7 @@ export const useWorkflowStore = create<WorkflowStore>()(
           id: `workflow-${now.getTime()}`,
           name: workflowName,
           version: '1.0.0',
-          schemaVersion: '1.2.0',
+          schemaVersion: CURRENT_SCHEMA_VERSION,
           nodes: workflowNodes,
           connections,
           createdAt: now,
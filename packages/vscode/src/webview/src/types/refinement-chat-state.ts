@@ -5,7 +5,11 @@
  * (App.tsx for main workflow, SubAgentFlowDialog for SubAgentFlow)
  */
 
-import type { ConversationHistory, ConversationMessage } from '@cc-wf-studio/core';
+import type {
+  ConversationHistory,
+  ConversationMessage,
+  RefinementRepair,
+} from '@cc-wf-studio/core';
 import type { SessionStatus } from '../stores/refinement-store';
 
 /** Error codes for refinement failures */
@@ -44,6 +48,7 @@ export interface RefinementChatState {
     errorCode?: RefinementErrorCode
   ) => void;
   updateMessageToolInfo: (messageId: string, toolInfo: string | null) => void;
+  updateMessageRepairs: (messageId: string, repairs: RefinementRepair[] | undefined) => void;
   removeMessage: (messageId: string) => void;
   clearHistory: () => void;
   startProcessing: (requestId: string) => void;